@@ -6,6 +6,8 @@ export interface AgentInput {
   taskId: string;
   data: Record<string, unknown>;
   metadata?: Record<string, unknown>;
+  /** Aborted when the task is cancelled or times out; agents check it between processing stages */
+  signal?: AbortSignal;
 }
 
 export interface AgentOutput {
@@ -23,6 +25,23 @@ export interface AgentConfig {
   enableLogging: boolean;
 }
 
+/**
+ * Input that can never succeed, such as a missing identifier or an unknown compound; retrying it is pointless
+ */
+export class AgentInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentInputError';
+  }
+}
+
+export class TaskCancelledError extends Error {
+  constructor(taskId: string) {
+    super(`Task ${taskId} was cancelled`);
+    this.name = 'TaskCancelledError';
+  }
+}
+
 /**
  * Abstract base class for all agents in the AyurDiscovery AI system
  * Provides common functionality for task processing, error handling, and metrics
@@ -112,6 +131,15 @@ export abstract class AgentBase extends EventEmitter implements Agent {
     return output;
   }
 
+  /**
+   * Stops processing at a stage boundary once the task's signal has been aborted
+   */
+  protected throwIfCancelled(input: AgentInput): void {
+    if (input.signal?.aborted) {
+      throw new TaskCancelledError(input.taskId);
+    }
+  }
+
   /**
    * Main entry point for task execution
    */
@@ -121,9 +149,11 @@ export abstract class AgentBase extends EventEmitter implements Agent {
     try {
       // Validate input
       if (!this.validateInput(input)) {
-        throw new Error('Invalid input data provided');
+        throw new AgentInputError('Invalid input data provided');
       }
 
+      this.throwIfCancelled(input);
+
       // Check if agent can accept more tasks
       if (this.activeTasks.size >= this.config.maxConcurrentTasks) {
         throw new Error('Agent at maximum capacity');
@@ -179,26 +209,35 @@ export abstract class AgentBase extends EventEmitter implements Agent {
       return finalOutput;
 
     } catch (error) {
-      const _executionTime = Date.now() - startTime;
-      this.updateMetricsOnFailure();
+      const cancelled = error instanceof TaskCancelledError;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Cancellation is not held against the agent's accuracy
+      if (!cancelled) {
+        this.updateMetricsOnFailure();
+      }
       
       // Update task status
       const task = this.activeTasks.get(input.taskId);
       if (task) {
-        task.status = TaskStatus.FAILED;
-        task.error = error instanceof Error ? error.message : 'Unknown error';
+        task.status = cancelled ? TaskStatus.CANCELLED : TaskStatus.FAILED;
+        task.error = message;
         task.completedAt = new Date();
         this.activeTasks.delete(input.taskId);
       }
 
-      this.emit('taskFailed', { 
+      this.emit(cancelled ? 'taskCancelled' : 'taskFailed', { 
         agentId: this.agentId, 
         taskId: input.taskId, 
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: message
       });
 
       if (this.config.enableLogging) {
-        logger.error(`Agent ${this.agentName} failed task ${input.taskId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (cancelled) {
+          logger.info(`Agent ${this.agentName} cancelled task ${input.taskId}`);
+        } else {
+          logger.error(`Agent ${this.agentName} failed task ${input.taskId}: ${message}`);
+        }
       }
 
       throw error;
@@ -206,21 +245,37 @@ export abstract class AgentBase extends EventEmitter implements Agent {
   }
 
   /**
-   * Executes the task with a timeout wrapper
+   * Executes the task with a timeout wrapper. processTask gets its own signal, aborted on timeout
+   * or when the caller's signal aborts, so abandoned work stops at its next stage boundary.
    */
   private async executeWithTimeout(input: AgentInput): Promise<AgentOutput> {
+    const controller = new AbortController();
+    const { signal } = input;
+
     return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        controller.abort();
+        clearTimeout(timeoutId);
+        reject(new TaskCancelledError(input.taskId));
+      };
+
       const timeoutId = setTimeout(() => {
+        controller.abort();
+        signal?.removeEventListener('abort', onAbort);
         reject(new Error(`Task ${input.taskId} timed out after ${this.config.timeoutMs}ms`));
       }, this.config.timeoutMs);
 
-      this.processTask(input)
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.processTask({ ...input, signal: controller.signal })
         .then((output) => {
           clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
           resolve(output);
         })
         .catch((error) => {
           clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
           reject(error);
         });
     });
@@ -275,6 +330,12 @@ export abstract class AgentBase extends EventEmitter implements Agent {
         this.status = AgentStatus.INACTIVE;
       }
     });
+
+    this.on('taskCancelled', () => {
+      if (this.activeTasks.size === 0) {
+        this.status = AgentStatus.INACTIVE;
+      }
+    });
   }
 
   /**
@@ -335,6 +396,13 @@ export abstract class AgentBase extends EventEmitter implements Agent {
     };
   }
 
+  /**
+   * Retries allowed after a failed task, from the agent's configuration
+   */
+  public getRetryAttempts(): number {
+    return this.config.retryAttempts;
+  }
+
   /**
    * Gets active tasks
    */
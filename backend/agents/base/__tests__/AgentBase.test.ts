@@ -0,0 +1,84 @@
+import { AgentType } from '../../../../shared/types';
+import { AgentBase, AgentConfig, AgentInput, AgentInputError, AgentOutput, TaskCancelledError } from '../AgentBase';
+
+/**
+ * Agent whose work finishes when the test resolves it, and which stops at a stage boundary
+ * once its signal is aborted
+ */
+class StagedAgent extends AgentBase {
+  public received?: AgentInput;
+  public finish!: () => void;
+
+  constructor(config: Partial<AgentConfig> = {}) {
+    super('staged-agent', 'Staged Agent', AgentType.KNOWLEDGE_CURATOR, 'Test agent', [], { enableLogging: false, ...config });
+  }
+
+  protected async processTask(input: AgentInput): Promise<AgentOutput> {
+    this.received = input;
+    await new Promise<void>(resolve => {
+      this.finish = resolve;
+    });
+    this.throwIfCancelled(input);
+    return { taskId: input.taskId, result: { done: true }, confidence: 1, metadata: {}, executionTime: 0 };
+  }
+}
+
+describe('AgentBase', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs a task and records its success', async () => {
+    const agent = new StagedAgent();
+    const running = agent.executeTask({ taskId: 't1', data: {} });
+    await Promise.resolve();
+    agent.finish();
+
+    await expect(running).resolves.toMatchObject({ result: { done: true } });
+    expect(agent.metrics).toMatchObject({ totalTasks: 1, successfulTasks: 1, failedTasks: 0, accuracy: 1 });
+  });
+
+  it('rejects invalid input as an input error', async () => {
+    await expect(new StagedAgent().executeTask({ taskId: '', data: {} })).rejects.toThrow(AgentInputError);
+  });
+
+  it('does not start a task whose signal is already aborted', async () => {
+    const agent = new StagedAgent();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(agent.executeTask({ taskId: 't1', data: {}, signal: controller.signal })).rejects.toThrow(TaskCancelledError);
+    expect(agent.received).toBeUndefined();
+    expect(agent.metrics.failedTasks).toBe(0);
+  });
+
+  it('cancels a running task without counting it as a failure', async () => {
+    const agent = new StagedAgent();
+    const controller = new AbortController();
+    const cancelled = jest.fn();
+    agent.on('taskCancelled', cancelled);
+
+    const running = agent.executeTask({ taskId: 't1', data: {}, signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Task t1 was cancelled');
+    expect(agent.received!.signal!.aborted).toBe(true);
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ taskId: 't1' }));
+    expect(agent.metrics).toMatchObject({ totalTasks: 0, failedTasks: 0 });
+    expect(agent.getActiveTasks()).toEqual([]);
+  });
+
+  it('times out a slow task and aborts its work', async () => {
+    jest.useFakeTimers();
+    const agent = new StagedAgent({ timeoutMs: 50 });
+
+    const running = agent.executeTask({ taskId: 't1', data: {} });
+    const outcome = expect(running).rejects.toThrow('Task t1 timed out after 50ms');
+    await jest.advanceTimersByTimeAsync(50);
+
+    await outcome;
+    expect(agent.received!.signal!.aborted).toBe(true);
+    expect(agent.metrics.failedTasks).toBe(1);
+  });
+});
@@ -1,6 +1,39 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
 import { AgentType } from '../../../shared/types';
+import { calculateExactMass, calculateMolecularWeight, formatFormula } from '../../../shared/utils';
+import { dbConnection } from '../../config/database';
+import Compound, { ICompound } from '../../models/Compound';
+import {
+  AdmetLiabilities,
+  CYP_ISOFORMS,
+  ConformerSet,
+  MetaboliteStep,
+  Molecule,
+  RuleSetResult,
+  StructuralAlertHit,
+  bricsFragments,
+  calculateDescriptors,
+  canonicalSmiles,
+  compute2DCoordinates,
+  derivePharmacophores,
+  getPharmacophorePatterns,
+  drugLikenessEngine,
+  formatViolation,
+  metabolitePredictor,
+  parseSmiles,
+  predictAdmetLiabilities,
+  scaffoldSmiles,
+  structuralAlertLibrary,
+  structureKey,
+  validateSmiles,
+} from '../../services/chemistry';
+import { QsarPrediction, qsarRegistry } from '../../services/QsarRegistry';
+import { similaritySearch } from '../../services/SimilaritySearch';
+import { LigandEvidence, TargetPrediction, targetPredictor } from '../../services/TargetPrediction';
+import { structureExport } from '../../services/StructureExport';
 import logger from '../../utils/logger';
-import { AgentBase, AgentInput, AgentOutput } from '../base/AgentBase';
+import { AgentBase, AgentInput, AgentInputError, AgentOutput } from '../base/AgentBase';
 
 // Enhanced interfaces for sophisticated compound analysis
 export interface CompoundInput {
@@ -120,6 +153,7 @@ export interface DrugLikenessAnalysis {
     score: number;
     category: 'lead' | 'drug' | 'fragment' | 'other';
   };
+  ruleSets: RuleSetResult[];
 }
 
 export interface ToxicityAnalysis {
@@ -154,6 +188,7 @@ export interface ToxicityAnalysis {
     structuralAlerts: string[];
     toxicophores: string[];
     recommendations: string[];
+    hits: StructuralAlertHit[];
   };
 }
 
@@ -184,7 +219,6 @@ export interface ADMETProfile {
     bbb_penetration: boolean;
   };
   metabolism: {
-    cyp_substrates: string[];
     cyp_inhibitors: string[];
     metabolic_stability: number;
     clearance: number;
@@ -196,10 +230,13 @@ export interface ADMETProfile {
     elimination_route: 'renal' | 'hepatic' | 'mixed';
   };
   toxicity: {
+    /** Severity of the most serious hepatotoxicity structural alert; low when none fires */
     hepatotoxicity_risk: 'low' | 'medium' | 'high';
     cardiotoxicity_risk: 'low' | 'medium' | 'high';
     skin_sensitization: boolean;
   };
+  /** Rule-based estimates behind the CYP, P-gp, hERG, BBB and solubility fields, with rationale */
+  liabilities: AdmetLiabilities;
 }
 
 export interface AyurvedicProfile {
@@ -241,6 +278,10 @@ export interface MetaboliteData {
   reaction_type: string;
   probability: number;
   site_of_metabolism: string;
+  /** Monoisotopic mass change from the parent, in Da */
+  mass_shift: number;
+  /** Each reaction from the parent, with the reacting atoms and candidate enzymes */
+  steps: MetaboliteStep[];
 }
 
 export interface InteractionProfile {
@@ -262,6 +303,10 @@ export interface SafetyAssessment {
 }
 
 export interface FragmentAnalysis {
+  /** Bemis–Murcko scaffold SMILES, '' for acyclic compounds */
+  murcko_scaffold: string;
+  generic_scaffold: string;
+  /** BRICS fragments; attachment points are dummy atoms labelled with their BRICS environment */
   molecular_fragments: Fragment[];
   functional_groups: string[];
   ring_systems: RingSystem[];
@@ -282,6 +327,10 @@ export interface PredictedTarget {
   confidence: number;
   activity_type: 'agonist' | 'antagonist' | 'inhibitor' | 'activator' | 'modulator';
   predicted_activity?: number;
+  /** Similarity-ensemble E-value; absent for curated targets that were not re-predicted */
+  e_value?: number;
+  /** Most similar reference ligands annotated with the target */
+  nearest_ligands?: LigandEvidence[];
 }
 
 export interface BindingAffinity {
@@ -342,6 +391,10 @@ export interface ActivityPrediction {
   confidence: number;
   model_type: string;
   experimental_validation?: boolean;
+  model_id?: string;
+  model_name?: string;
+  predicted_class?: string;
+  in_domain?: boolean;
 }
 
 export interface SideEffectPrediction {
@@ -377,6 +430,35 @@ export interface AnalysisMetadata {
   limitations: string[];
 }
 
+/** Contribution of a single alert to the 0-1 organ toxicity score */
+const ALERT_SEVERITY_WEIGHTS: Record<StructuralAlertHit['severity'], number> = { low: 0.1, medium: 0.25, high: 0.5 };
+
+/** Alert severities, most serious first */
+const ALERT_SEVERITIES: Array<StructuralAlertHit['severity']> = ['high', 'medium', 'low'];
+
+/** Confidence in a positive call driven by an alert of this severity */
+const ALERT_CONFIDENCE: Record<StructuralAlertHit['severity'], number> = { low: 0.55, medium: 0.65, high: 0.8 };
+
+/** Pharmacophore definitions reported as 3D features, and the feature type each becomes */
+const PHARMACOPHORE_FEATURE_TYPES: Record<string, PharmacophoreFeature['feature_type']> = {
+  hydrogen_bond_donor: 'hydrogen_donor',
+  hydrogen_bond_acceptor: 'hydrogen_acceptor',
+  aromatic_ring: 'aromatic',
+  hydrophobic: 'hydrophobic',
+  positive_ionizable: 'positive',
+  negative_ionizable: 'negative',
+};
+
+/** Relative weight of a feature type, ionic over hydrogen-bonding over aromatic over hydrophobic */
+const PHARMACOPHORE_FEATURE_WEIGHTS: Record<PharmacophoreFeature['feature_type'], number> = {
+  positive: 1,
+  negative: 1,
+  hydrogen_donor: 0.8,
+  hydrogen_acceptor: 0.8,
+  aromatic: 0.6,
+  hydrophobic: 0.4,
+};
+
 /**
  * Enhanced Compound Agent for comprehensive molecular analysis and drug discovery
  */
@@ -385,6 +467,7 @@ export class CompoundAgent extends AgentBase {
   private bioactivityDatabase: Map<string, BioactivityAnalysis>;
   private toxicityModels: Map<string, any>;
   private ayurvedicDatabase: Map<string, AyurvedicProfile>;
+  private moleculeCache: Map<string, Molecule>;
 
   constructor() {
     super(
@@ -405,6 +488,7 @@ export class CompoundAgent extends AgentBase {
     this.bioactivityDatabase = new Map();
     this.toxicityModels = new Map();
     this.ayurvedicDatabase = new Map();
+    this.moleculeCache = new Map();
 
     this.initializeCompoundDatabases();
   }
@@ -417,12 +501,16 @@ export class CompoundAgent extends AgentBase {
       this.validateCompoundInput(compoundInput);
 
       const compoundData = await this.identifyCompound(compoundInput);
+      this.throwIfCancelled(input);
       const analysis = await this.performCompoundAnalysis(compoundData, compoundInput);
+      this.throwIfCancelled(input);
       const predictions = await this.generatePredictions(compoundData, compoundInput.options);
+      this.throwIfCancelled(input);
 
       let ayurvedicProfile: AyurvedicProfile | undefined;
       if (compoundInput.options?.ayurvedicContext || compoundInput.analysisType === 'ayurvedic_profile') {
         ayurvedicProfile = await this.generateAyurvedicProfile(compoundData, compoundInput.context);
+        this.throwIfCancelled(input);
       }
 
       let similarCompounds: SimilarCompound[] | undefined;
@@ -431,11 +519,13 @@ export class CompoundAgent extends AgentBase {
           compoundData,
           compoundInput.options.similarity_threshold || 0.7
         );
+        this.throwIfCancelled(input);
       }
 
       let metabolites: MetaboliteData[] | undefined;
       if (compoundInput.options?.includeMetabolites) {
         metabolites = await this.predictMetabolites(compoundData);
+        this.throwIfCancelled(input);
       }
 
       const interactionProfile = await this.generateInteractionProfile(compoundData);
@@ -453,7 +543,7 @@ export class CompoundAgent extends AgentBase {
         metadata: {
           timestamp: new Date().toISOString(),
           analysis_version: '2.0.0',
-          models_used: this.getAnalysisModels(compoundInput.analysisType),
+          models_used: this.getAnalysisModels(compoundInput.analysisType, predictions.activity_prediction),
           confidence_threshold: 0.7,
           processing_time: Date.now() - startTime,
           data_sources: ['ChEMBL', 'PubChem', 'Ayurvedic_DB', 'ADMET_Predictor'],
@@ -481,65 +571,225 @@ export class CompoundAgent extends AgentBase {
 
   private validateCompoundInput(input: CompoundInput): void {
     if (!input.compoundIdentifier || input.compoundIdentifier.trim().length === 0) {
-      throw new Error('Compound identifier is required');
+      throw new AgentInputError('Compound identifier is required');
     }
 
     const validIdentifierTypes = ['smiles', 'inchi', 'name', 'formula', 'cas', 'pubchem_cid'];
     if (!validIdentifierTypes.includes(input.identifierType)) {
-      throw new Error(`Invalid identifier type. Must be one of: ${validIdentifierTypes.join(', ')}`);
+      throw new AgentInputError(`Invalid identifier type. Must be one of: ${validIdentifierTypes.join(', ')}`);
     }
 
     const validAnalysisTypes = ['structure', 'properties', 'bioactivity', 'toxicity', 'admet', 'complete', 'ayurvedic_profile'];
     if (!validAnalysisTypes.includes(input.analysisType)) {
-      throw new Error(`Invalid analysis type. Must be one of: ${validAnalysisTypes.join(', ')}`);
+      throw new AgentInputError(`Invalid analysis type. Must be one of: ${validAnalysisTypes.join(', ')}`);
     }
   }
 
   private async identifyCompound(input: CompoundInput): Promise<CompoundData> {
-    const baseCompound = {
-      id: 'curcumin-001',
-      name: 'Curcumin',
-      smiles: 'COC1=CC(\\C=C\\C(=O)CC(=O)\\C=C\\C2=CC(OC)=C(O)C=C2)=CC=C1O',
-      inchi: 'InChI=1S/C21H20O6/c1-25-19-9-3-14(10-20(19)26-2)5-7-16(22)13-17(23)8-6-15-4-11-18(24)21(12-15)27-3/h3-12,24H,13H2,1-2H3/b7-5+,8-6+',
-      inchiKey: 'VFLDPWHFBUODDF-FCXRPNKRSA-N',
-      molecularFormula: 'C21H20O6',
-      molecularWeight: 368.38,
-      exactMass: 368.1260,
-      structure: 'base64_encoded_structure_image_data',
-      iupacName: '(1E,6E)-1,7-bis(4-hydroxy-3-methoxyphenyl)hepta-1,6-diene-3,5-dione',
-      synonyms: ['Diferuloylmethane', 'Turmeric extract', 'E100', 'Natural Yellow 3'],
-      casNumber: '458-37-7',
-      pubchemCID: '969516',
-      chemspiderID: '839564',
-      classification: {
-        chemicalClass: ['Diarylheptanoid', 'Polyphenol', 'Natural product'],
-        pharmacophore: ['Michael acceptor', 'Phenolic compound', 'Enone system'],
-        naturalProductClass: ['Curcuminoid', 'Phenylpropanoid'],
-        ayurvedicCategory: ['Rasayana', 'Dipana', 'Pachana'],
-      },
-    };
+    const identifier = input.compoundIdentifier.trim();
+
+    if (input.identifierType === 'smiles') {
+      const validation = validateSmiles(identifier);
+      if (!validation.valid) {
+        throw new AgentInputError(`Invalid SMILES "${identifier}": ${validation.errors.join('; ')}`);
+      }
+    }
+
+    const record = await this.findCompoundRecord(identifier, input.identifierType);
+
+    let compound: CompoundData;
+    if (record) {
+      compound = this.toCompoundData(record);
+    } else if (input.identifierType === 'smiles') {
+      compound = this.buildCompoundFromStructure(identifier);
+    } else {
+      throw new AgentInputError(`No compound found for ${input.identifierType} "${identifier}"`);
+    }
+
+    // Fail early if a stored structure cannot be parsed
+    this.getMolecule(compound);
 
     // Add 3D structure if requested
     if (input.options?.predict3DStructure) {
       return {
-        ...baseCompound,
-        structure3D: 'base64_encoded_3d_structure_data',
+        ...compound,
+        structure3D: Buffer.from(await structureExport.molBlock3D(compound.name, compound.smiles)).toString('base64'),
       };
     }
 
-    return baseCompound;
+    return compound;
+  }
+
+  /**
+   * Resolves an identifier against the Compound collection
+   */
+  private async findCompoundRecord(
+    identifier: string,
+    identifierType: CompoundInput['identifierType']
+  ): Promise<ICompound | null> {
+    if (!dbConnection.isConnectionHealthy()) {
+      if (identifierType === 'smiles') {
+        logger.warn('Compound database unavailable, analysing SMILES without stored metadata');
+        return null;
+      }
+      throw new Error(`Compound database is not connected; cannot resolve ${identifierType} "${identifier}"`);
+    }
+
+    const query: Record<string, unknown> = { status: 'active' };
+
+    switch (identifierType) {
+      case 'smiles': {
+        // Records saved before canonicalization only match their original spelling
+        const molecule = parseSmiles(identifier);
+        query['$or'] = [
+          { structureKey: structureKey(molecule) },
+          { smiles: { $in: [identifier, canonicalSmiles(molecule)] } },
+        ];
+        break;
+      }
+      case 'inchi':
+        if (!identifier.startsWith('InChI=')) {
+          throw new AgentInputError(`Invalid InChI "${identifier}": must start with "InChI="`);
+        }
+        query['inchi'] = identifier;
+        break;
+      case 'name': {
+        const exactName = new RegExp(`^${escapeRegExp(identifier)}$`, 'i');
+        query['$or'] = [{ name: exactName }, { commonNames: exactName }, { iupacName: exactName }];
+        break;
+      }
+      case 'cas':
+        if (!isValidCasNumber(identifier)) {
+          throw new AgentInputError(`Invalid CAS registry number "${identifier}"`);
+        }
+        query['casNumber'] = identifier;
+        break;
+      case 'pubchem_cid':
+        if (!/^\d+$/.test(identifier)) {
+          throw new AgentInputError(`Invalid PubChem CID "${identifier}": must be numeric`);
+        }
+        query['pubchemCID'] = identifier;
+        break;
+      case 'formula':
+        query['molecularFormula'] = identifier;
+        break;
+    }
+
+    const matches = await Compound.find(query).sort({ confidence: -1 }).limit(5).exec();
+    if (matches.length > 1) {
+      logger.warn(`Identifier ${identifierType} "${identifier}" matched ${matches.length} compounds, using ${matches[0]?.name}`);
+    }
+
+    return matches[0] || null;
+  }
+
+  private toCompoundData(record: ICompound): CompoundData {
+    const naturalProductClass = record.classification?.naturalProductClass || [];
+
+    const compound: CompoundData = {
+      id: record._id.toString(),
+      name: record.name,
+      smiles: record.smiles,
+      inchi: record.inchi,
+      inchiKey: record.inchiKey || '',
+      molecularFormula: record.molecularFormula,
+      molecularWeight: record.molecularWeight,
+      exactMass: record.exactMass || 0,
+      structure: this.depictStructure(record.name, record.smiles),
+      iupacName: record.iupacName,
+      synonyms: record.commonNames || [],
+      ...(record.casNumber ? { casNumber: record.casNumber } : {}),
+      ...(record.pubchemCID ? { pubchemCID: record.pubchemCID } : {}),
+      ...(record.chemspiderID ? { chemspiderID: record.chemspiderID } : {}),
+      classification: {
+        chemicalClass: record.classification?.chemicalClass || [],
+        pharmacophore: [],
+        ...(naturalProductClass.length > 0 && { naturalProductClass }),
+      },
+    };
+
+    try {
+      compound.classification.pharmacophore = derivePharmacophores(this.getMolecule(compound));
+    } catch (error) {
+      logger.warn(`Pharmacophores not derived for ${record.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return compound;
+  }
+
+  /**
+   * Builds compound data for a structure that is not in the collection
+   */
+  private buildCompoundFromStructure(smiles: string): CompoundData {
+    const molecule = parseSmiles(smiles);
+    const molecularFormula = molecule.getFormula();
+
+    return {
+      id: `smiles-${createHash('sha1').update(smiles).digest('hex').slice(0, 12)}`,
+      name: 'Unregistered compound',
+      smiles,
+      inchi: '',
+      inchiKey: '',
+      molecularFormula,
+      molecularWeight: calculateMolecularWeight(molecularFormula),
+      exactMass: calculateExactMass(formatFormula(molecule.toFormula())),
+      structure: this.depictStructure('Unregistered compound', smiles),
+      iupacName: '',
+      synonyms: [],
+      classification: {
+        chemicalClass: [],
+        pharmacophore: derivePharmacophores(molecule),
+      },
+    };
+  }
+
+  /**
+   * Base64 SVG depiction, or an empty string when the structure cannot be drawn
+   */
+  private depictStructure(name: string, smiles: string): string {
+    try {
+      return Buffer.from(structureExport.depict(smiles, name)).toString('base64');
+    } catch (error) {
+      logger.warn(`Structure of ${name} not depicted: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return '';
+    }
+  }
+
+  /**
+   * Returns the parsed molecular graph for a compound, cached by SMILES
+   */
+  private getMolecule(compound: CompoundData): Molecule {
+    const cached = this.moleculeCache.get(compound.smiles);
+    if (cached) {
+      return cached;
+    }
+
+    let molecule: Molecule;
+    try {
+      molecule = parseSmiles(compound.smiles);
+    } catch (error) {
+      throw new AgentInputError(`Structure of ${compound.name} could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (this.moleculeCache.size >= 500) {
+      const oldest = this.moleculeCache.keys().next().value;
+      if (oldest !== undefined) this.moleculeCache.delete(oldest);
+    }
+    this.moleculeCache.set(compound.smiles, molecule);
+    return molecule;
   }
 
   private async performCompoundAnalysis(
     compound: CompoundData,
     input: CompoundInput
   ): Promise<CompoundAnalysis> {
+    const toxicity = await this.predictToxicity(compound);
     const analysis: CompoundAnalysis = {
       descriptors: await this.calculateMolecularDescriptors(compound),
       drugLikeness: await this.assessDrugLikeness(compound),
-      toxicity: await this.predictToxicity(compound),
-      bioactivity: await this.analyzeBioactivity(compound),
-      admetProfile: await this.predictADMET(compound),
+      toxicity,
+      bioactivity: await this.analyzeBioactivity(compound, input.options?.predictTargets ?? false),
+      admetProfile: await this.predictADMET(compound, toxicity),
     };
 
     if (input.options?.analyzeFragments) {
@@ -554,58 +804,114 @@ export class CompoundAgent extends AgentBase {
   }
 
   private async calculateMolecularDescriptors(compound: CompoundData): Promise<MolecularDescriptors> {
+    const descriptors = calculateDescriptors(this.getMolecule(compound));
+
     return {
-      logP: 3.2,
-      logS: -4.1,
-      tpsa: 93.1,
-      hbd: 2,
-      hba: 6,
-      rotatablebonds: 8,
-      aromaticRings: 2,
-      heavyAtoms: 27,
-      complexity: 648.2,
-      fractionalCSP3: 0.24,
-      numHeteroAtoms: 6,
-      numSaturatedRings: 0,
-      numUnsaturatedRings: 2,
-      spherocity: 0.65,
-      asphericity: 0.72,
-      eccentricity: 0.89,
-      pharmacophoreFingerprint: 'fp_curcumin_12345',
-      lipophilicRegions: 3,
-      hydrogenBondingRegions: 4,
+      logP: descriptors.logP,
+      logS: descriptors.logS,
+      tpsa: descriptors.tpsa,
+      hbd: descriptors.hbd,
+      hba: descriptors.hba,
+      rotatablebonds: descriptors.rotatableBonds,
+      aromaticRings: descriptors.aromaticRings,
+      heavyAtoms: descriptors.heavyAtoms,
+      complexity: descriptors.complexity,
+      fractionalCSP3: descriptors.fractionCSP3,
+      numHeteroAtoms: descriptors.heteroAtoms,
+      numSaturatedRings: descriptors.saturatedRings,
+      numUnsaturatedRings: descriptors.unsaturatedRings,
     };
   }
 
   private async assessDrugLikeness(compound: CompoundData): Promise<DrugLikenessAnalysis> {
+    const descriptors = calculateDescriptors(this.getMolecule(compound));
+    const ruleSets = drugLikenessEngine.evaluate(descriptors);
+    const liabilities = predictAdmetLiabilities(this.getMolecule(compound), descriptors);
+    const lipinski = ruleSets.find(result => result.id === 'lipinski');
+    const veber = ruleSets.find(result => result.id === 'veber');
+    const leadLike = ruleSets.find(result => result.id === 'leadlike');
+
+    let category: DrugLikenessAnalysis['leadLikeness']['category'] = 'other';
+    if (leadLike?.passes) category = 'lead';
+    else if (descriptors.molecularWeight < 250) category = 'fragment';
+    else if (lipinski?.passes) category = 'drug';
+
+    await this.persistDrugLikeness(compound, ruleSets);
+
     return {
       lipinskiRule: {
-        passes: true,
-        violations: [],
-        score: 0.95,
+        passes: lipinski?.passes ?? false,
+        violations: lipinski?.violations.map(formatViolation) ?? [],
+        score: lipinski?.score ?? 0,
       },
       veberRule: {
-        passes: true,
-        violations: [],
+        passes: veber?.passes ?? false,
+        violations: veber?.violations.map(formatViolation) ?? [],
       },
       bbbPermeability: {
-        predicted: false,
-        confidence: 0.82,
-        reasoning: 'High TPSA and polar groups limit BBB penetration',
+        predicted: liabilities.bbbPermeant.value,
+        confidence: liabilities.bbbPermeant.confidence,
+        reasoning: liabilities.bbbPermeant.rationale.join('; '),
       },
       absorption: {
         humanIntestinal: 0.75,
         caco2Permeability: 0.68,
-        pgpSubstrate: true,
+        pgpSubstrate: liabilities.pgpSubstrate.value,
       },
       leadLikeness: {
-        score: 0.67,
-        category: 'lead',
+        score: leadLike?.score ?? 0,
+        category,
       },
+      ruleSets,
     };
   }
 
+  /**
+   * Stores rule set results on the compound record for getDrugLikenessScore
+   */
+  private async persistDrugLikeness(compound: CompoundData, ruleSets: RuleSetResult[]): Promise<void> {
+    if (!Types.ObjectId.isValid(compound.id) || !dbConnection.isConnectionHealthy()) {
+      return;
+    }
+
+    try {
+      await Compound.updateOne(
+        { _id: compound.id },
+        { $set: { drugLikeness: { ruleSets, evaluatedAt: new Date() } } }
+      );
+    } catch (error) {
+      logger.warn(`Could not store drug-likeness results for ${compound.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private async predictToxicity(compound: CompoundData): Promise<ToxicityAnalysis> {
+    const hits = structuralAlertLibrary.screen(this.getMolecule(compound));
+    const mutagenic = hits.filter(hit => hit.category === 'mutagenicity');
+    const hepatotoxic = hits.filter(hit => hit.category === 'hepatotoxicity');
+    const interference = hits.filter(hit => hit.category === 'pains' || hit.category === 'brenk');
+    const genotoxicCarcinogen = mutagenic.filter(hit => hit.severity === 'high');
+
+    const hepatotoxicity = Math.min(
+      1,
+      0.05 + hepatotoxic.reduce((total, hit) => total + ALERT_SEVERITY_WEIGHTS[hit.severity], 0)
+    );
+
+    const recommendations: string[] = [];
+    if (mutagenic.length > 0) {
+      recommendations.push(`Run an Ames test before in vivo work (${mutagenic.map(hit => hit.name).join(', ')})`);
+    }
+    if (hepatotoxic.length > 0) {
+      recommendations.push(`Screen for reactive metabolites and monitor liver function (${hepatotoxic.map(hit => hit.name).join(', ')})`);
+    }
+    if (interference.some(hit => hit.category === 'pains')) {
+      recommendations.push('Confirm assay hits with an orthogonal assay; PAINS substructures can interfere with readouts');
+    }
+    if (interference.some(hit => hit.category === 'brenk')) {
+      recommendations.push('Review reactive or unstable groups before selecting for wet-lab work');
+    }
+
+    await this.persistToxicityAlerts(compound, hits, hepatotoxicity, genotoxicCarcinogen.length > 0);
+
     return {
       acute: {
         oral_LD50: 1500,
@@ -615,13 +921,15 @@ export class CompoundAgent extends AgentBase {
       },
       chronic: {
         carcinogenicity: {
-          predicted: false,
-          confidence: 0.87,
-          mechanism: 'No carcinogenic structural alerts detected',
+          predicted: genotoxicCarcinogen.length > 0,
+          confidence: genotoxicCarcinogen.length > 0 ? 0.7 : 0.6,
+          mechanism: genotoxicCarcinogen.length > 0
+            ? `Genotoxic structural alerts: ${genotoxicCarcinogen.map(hit => hit.name).join(', ')}`
+            : 'No genotoxic structural alerts detected',
         },
         mutagenicity: {
-          ames_test: false,
-          confidence: 0.92,
+          ames_test: mutagenic.length > 0,
+          confidence: mutagenic.length > 0 ? Math.max(...mutagenic.map(hit => ALERT_CONFIDENCE[hit.severity])) : 0.6,
         },
         reproductive: {
           developmental_toxicity: false,
@@ -629,59 +937,155 @@ export class CompoundAgent extends AgentBase {
         },
       },
       organSpecific: {
-        hepatotoxicity: 0.15,
+        hepatotoxicity: Math.round(hepatotoxicity * 100) / 100,
         cardiotoxicity: 0.08,
         nephrotoxicity: 0.12,
         neurotoxicity: 0.05,
       },
       alerts: {
-        structuralAlerts: [],
-        toxicophores: [],
-        recommendations: [
-          'Monitor liver function in high-dose studies',
-          'Consider drug-drug interactions with CYP inhibitors',
-        ],
+        structuralAlerts: hits.map(hit => `${hit.name} [${hit.category}]`),
+        toxicophores: [...mutagenic, ...hepatotoxic].map(hit => hit.name),
+        recommendations,
+        hits,
       },
     };
   }
 
-  private async analyzeBioactivity(compound: CompoundData): Promise<BioactivityAnalysis> {
-    return {
-      targets: [
-        {
-          target_id: 'P35354',
-          target_name: 'Cyclooxygenase-2',
-          target_type: 'enzyme',
-          confidence: 0.89,
-          activity_type: 'inhibitor',
-          predicted_activity: 15.2,
-        },
-      ],
-      pathways: ['NF-κB signaling', 'COX-2 pathway'],
-      therapeuticAreas: ['anti-inflammatory', 'antioxidant'],
-      modeOfAction: ['COX-2 inhibition', 'NF-κB suppression'],
-      bindingAffinities: [
+  /**
+   * Stores alert hits on the compound record; flags and organ scores are only ever raised,
+   * so curated literature values are not overwritten by an alert-free screen
+   */
+  private async persistToxicityAlerts(
+    compound: CompoundData,
+    hits: StructuralAlertHit[],
+    hepatotoxicity: number,
+    carcinogenic: boolean
+  ): Promise<void> {
+    if (!Types.ObjectId.isValid(compound.id) || !dbConnection.isConnectionHealthy()) {
+      return;
+    }
+
+    const flags: Record<string, boolean> = {};
+    if (hits.some(hit => hit.category === 'mutagenicity')) flags['admet.toxicity.chronicToxicity.mutagenicity'] = true;
+    if (carcinogenic) flags['admet.toxicity.chronicToxicity.carcinogenicity'] = true;
+
+    try {
+      await Compound.updateOne(
+        { _id: compound.id },
         {
-          target: 'COX-2',
-          affinity_type: 'ic50',
-          value: 15.2,
-          unit: 'μM',
-          confidence: 0.85,
-        },
-      ],
+          $set: {
+            'admet.toxicity.structuralAlerts': { hits, evaluatedAt: new Date() },
+            ...flags,
+          },
+          $max: { 'admet.toxicity.organToxicity.hepatotoxicity': Math.round(hepatotoxicity * 100) / 10 },
+        }
+      );
+    } catch (error) {
+      logger.warn(`Could not store structural alerts for ${compound.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Curated bioactivity of the stored compound, extended with similarity-ensemble target
+   * predictions from the local compound–target data when `predictTargets` is set
+   */
+  private async analyzeBioactivity(compound: CompoundData, predictTargets: boolean = false): Promise<BioactivityAnalysis> {
+    const curated = await this.loadCuratedBioactivity(compound);
+
+    const targets: PredictedTarget[] = (curated?.targets ?? []).map(target => ({
+      target_id: target.name.trim().toLowerCase(),
+      target_name: target.name,
+      target_type: this.toTargetType(target.type),
+      confidence: 1,
+      activity_type: 'modulator',
+      ...(target.affinity !== undefined && { predicted_activity: target.affinity }),
+    }));
+
+    if (predictTargets) {
+      for (const prediction of await this.predictTargets(compound)) {
+        const evidence = {
+          e_value: prediction.eValue,
+          nearest_ligands: prediction.nearestLigands,
+        };
+        const known = targets.find(target => target.target_id === prediction.target.toLowerCase());
+        if (known) {
+          Object.assign(known, evidence);
+          continue;
+        }
+        targets.push({
+          target_id: prediction.target.toLowerCase(),
+          target_name: prediction.target,
+          target_type: this.toTargetType(prediction.targetType),
+          confidence: Math.round(100 / (1 + prediction.eValue)) / 100,
+          activity_type: 'modulator',
+          ...evidence,
+        });
+      }
+    }
+
+    const primary = targets.filter(target => target.confidence >= 0.7);
+    const offTargets = targets.filter(target => target.confidence < 0.7);
+
+    return {
+      targets,
+      pathways: curated?.pathways ?? [],
+      therapeuticAreas: curated?.therapeuticAreas ?? [],
+      modeOfAction: curated?.mechanisms ?? [],
+      bindingAffinities: [],
       selectivityProfile: {
-        primary_targets: ['COX-2', 'NF-κB'],
-        off_targets: ['COX-1'],
-        selectivity_ratio: 8.5,
+        primary_targets: primary.map(target => target.target_name),
+        off_targets: offTargets.map(target => target.target_name),
+        selectivity_ratio: primary.length > 0 && offTargets.length > 0
+          ? Math.round((primary[0]!.confidence / offTargets[0]!.confidence) * 100) / 100
+          : 0,
       },
     };
   }
 
-  private async predictADMET(compound: CompoundData): Promise<ADMETProfile> {
+  private async loadCuratedBioactivity(compound: CompoundData): Promise<ICompound['bioactivity'] | null> {
+    if (!Types.ObjectId.isValid(compound.id) || !dbConnection.isConnectionHealthy()) {
+      return null;
+    }
+
+    try {
+      const record = await Compound.findById(compound.id).select('bioactivity').lean<Pick<ICompound, 'bioactivity'>>();
+      return record?.bioactivity ?? null;
+    } catch (error) {
+      logger.warn(`Could not load bioactivity for ${compound.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Similarity-ensemble targets with E-value ≤ 1, strongest first; empty when the database is unavailable
+   */
+  private async predictTargets(compound: CompoundData): Promise<TargetPrediction[]> {
+    try {
+      const result = await targetPredictor.predict(this.getMolecule(compound), {
+        excludeIds: [compound.id],
+        maxEValue: 1,
+      });
+      return result.predictions;
+    } catch (error) {
+      logger.warn(`Target prediction skipped for ${compound.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
+  private toTargetType(type: string): PredictedTarget['target_type'] {
+    return type === 'enzyme' || type === 'receptor' || type === 'transporter' || type === 'ion_channel' ? type : 'other';
+  }
+
+  private async predictADMET(compound: CompoundData, toxicity: ToxicityAnalysis): Promise<ADMETProfile> {
+    const liabilities = predictAdmetLiabilities(this.getMolecule(compound));
+    const hepatotoxic = toxicity.alerts.hits.filter(hit => hit.category === 'hepatotoxicity');
+
+    await this.persistAdmetLiabilities(compound, liabilities);
+
     return {
       absorption: {
         bioavailability: 65,
-        solubility: 0.06,
+        solubility: liabilities.solubility.value.mgPerMl,
         permeability: 2.1,
         absorptionRate: 'moderate',
       },
@@ -693,11 +1097,10 @@ export class CompoundAgent extends AgentBase {
           kidney: 0.45,
           brain: 0.12,
         },
-        bbb_penetration: false,
+        bbb_penetration: liabilities.bbbPermeant.value,
       },
       metabolism: {
-        cyp_substrates: ['CYP3A4', 'CYP2C9'],
-        cyp_inhibitors: ['CYP2C9', 'CYP2D6'],
+        cyp_inhibitors: CYP_ISOFORMS.filter(isoform => liabilities.cypInhibition[isoform].value),
         metabolic_stability: 0.68,
         clearance: 15.3,
         half_life: 6.5,
@@ -708,27 +1111,59 @@ export class CompoundAgent extends AgentBase {
         elimination_route: 'hepatic',
       },
       toxicity: {
-        hepatotoxicity_risk: 'low',
-        cardiotoxicity_risk: 'low',
+        hepatotoxicity_risk: ALERT_SEVERITIES.find(severity => hepatotoxic.some(hit => hit.severity === severity)) ?? 'low',
+        cardiotoxicity_risk: liabilities.herg.value,
         skin_sensitization: false,
       },
+      liabilities,
     };
   }
 
+  /**
+   * Stores the rule-based estimates on the compound record; predicted CYP inhibitors are added
+   * and P-gp/BBB flags only raised, so curated values are never cleared
+   */
+  private async persistAdmetLiabilities(compound: CompoundData, liabilities: AdmetLiabilities): Promise<void> {
+    if (!Types.ObjectId.isValid(compound.id) || !dbConnection.isConnectionHealthy()) {
+      return;
+    }
+
+    const endpoints = [
+      ...CYP_ISOFORMS.map(isoform => ({ endpoint: `${isoform}_inhibition`, ...liabilities.cypInhibition[isoform] })),
+      { endpoint: 'pgp_substrate', ...liabilities.pgpSubstrate },
+      { endpoint: 'herg_risk', ...liabilities.herg },
+      { endpoint: 'bbb_permeation', ...liabilities.bbbPermeant },
+      { endpoint: 'esol_logS', ...liabilities.solubility, value: liabilities.solubility.value.logS },
+    ];
+    const inhibitors = CYP_ISOFORMS.filter(isoform =>
+      liabilities.cypInhibition[isoform].value && liabilities.cypInhibition[isoform].applicable);
+
+    const flags: Record<string, boolean> = {};
+    if (liabilities.pgpSubstrate.value && liabilities.pgpSubstrate.applicable) flags['admet.absorption.pgpSubstrate'] = true;
+    if (liabilities.bbbPermeant.value && liabilities.bbbPermeant.applicable) flags['admet.distribution.bbbPermeability'] = true;
+
+    try {
+      await Compound.updateOne(
+        { _id: compound.id },
+        {
+          $set: {
+            'admet.ruleBased': { endpoints, evaluatedAt: new Date() },
+            ...flags,
+          },
+          $addToSet: { 'admet.metabolism.cypInhibitors': { $each: inhibitors } },
+        }
+      );
+    } catch (error) {
+      logger.warn(`Could not store ADMET estimates for ${compound.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private async generatePredictions(
     compound: CompoundData,
     options?: CompoundInput['options']
   ): Promise<CompoundPredictions> {
     return {
-      activity_prediction: [
-        {
-          endpoint: 'Anti-inflammatory activity',
-          predicted_value: 85.2,
-          confidence: 0.87,
-          model_type: 'Random Forest',
-          experimental_validation: true,
-        },
-      ],
+      activity_prediction: await this.predictActivities(compound),
       side_effects: [
         {
           effect: 'Gastrointestinal irritation',
@@ -761,6 +1196,36 @@ export class CompoundAgent extends AgentBase {
     };
   }
 
+  /**
+   * Predictions from the registered QSAR models; none when the model registry is unreachable
+   */
+  private async predictActivities(compound: CompoundData): Promise<ActivityPrediction[]> {
+    if (!dbConnection.isConnectionHealthy()) {
+      return [];
+    }
+
+    let predictions: QsarPrediction[];
+    try {
+      predictions = await qsarRegistry.predictAll(this.getMolecule(compound));
+    } catch (error) {
+      logger.warn(`QSAR prediction failed for ${compound.smiles}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+
+    return predictions
+      .map(prediction => ({
+        endpoint: prediction.endpoint,
+        predicted_value: prediction.value,
+        confidence: prediction.confidence,
+        model_type: prediction.algorithm,
+        model_id: prediction.modelId,
+        model_name: prediction.modelName,
+        ...(prediction.label !== undefined && { predicted_class: prediction.label }),
+        in_domain: prediction.inDomain,
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
   private async generateAyurvedicProfile(
     compound: CompoundData,
     context?: CompoundInput['context']
@@ -801,39 +1266,39 @@ export class CompoundAgent extends AgentBase {
     compound: CompoundData,
     threshold: number
   ): Promise<SimilarCompound[]> {
-    const similarCompoundData: CompoundData = {
-      ...compound,
-      id: 'demethoxycurcumin-001',
-      name: 'Demethoxycurcumin',
-    };
-
-    return [
-      {
-        compound: similarCompoundData,
-        similarity: 0.85,
-        similarityType: 'structural',
-        sharedFeatures: ['diarylheptanoid', 'Michael acceptor'],
-      },
-    ];
+    const hits = await similaritySearch.findSimilarToSmiles(compound.smiles, {
+      threshold,
+      limit: 10,
+      excludeIds: [compound.id],
+    });
+
+    return hits.map(hit => ({
+      compound: this.toCompoundData(hit.compound),
+      similarity: hit.similarity,
+      similarityType: 'structural',
+      sharedFeatures: hit.sharedFeatures,
+    }));
   }
 
+  /**
+   * Phase I/II metabolites from the biotransformation rules, most likely pathways first
+   */
   private async predictMetabolites(compound: CompoundData): Promise<MetaboliteData[]> {
-    const metaboliteData: CompoundData = {
-      ...compound,
-      id: 'curcumin-glucuronide-001',
-      name: 'Curcumin glucuronide',
-    };
+    const predicted = metabolitePredictor.predict(this.getMolecule(compound), compound.name);
 
-    return [
-      {
-        metabolite: metaboliteData,
-        pathway: 'Phase II glucuronidation',
-        enzyme: 'UGT1A1',
-        reaction_type: 'glucuronidation',
-        probability: 0.85,
-        site_of_metabolism: 'phenolic hydroxyl',
-      },
-    ];
+    return predicted.map(metabolite => {
+      const last = metabolite.pathway[metabolite.pathway.length - 1]!;
+      return {
+        metabolite: { ...this.buildCompoundFromStructure(metabolite.smiles), name: metabolite.name },
+        pathway: metabolite.pathway.map(step => `Phase ${step.phase} ${step.reaction}`).join(' -> '),
+        enzyme: metabolite.pathway.map(step => step.enzymes[0]).join(' -> '),
+        reaction_type: last.ruleId,
+        probability: Math.round(metabolite.probability * 1000) / 1000,
+        site_of_metabolism: last.site,
+        mass_shift: metabolite.massShift,
+        steps: metabolite.pathway,
+      };
+    });
   }
 
   private async generateInteractionProfile(compound: CompoundData): Promise<InteractionProfile> {
@@ -870,58 +1335,163 @@ export class CompoundAgent extends AgentBase {
   }
 
   private async performFragmentAnalysis(compound: CompoundData): Promise<FragmentAnalysis> {
+    const molecule = this.getMolecule(compound);
+    const scaffold = scaffoldSmiles(molecule);
+    const features = this.findPharmacophoreFeatures(molecule);
+
+    // Identical fragments are reported once with their count
+    const fragments = new Map<string, Set<number>>();
+    const counts = new Map<string, number>();
+    for (const fragment of bricsFragments(molecule)) {
+      const atoms = fragments.get(fragment.smiles) ?? new Set<number>();
+      fragment.atoms.forEach(atom => atoms.add(atom));
+      fragments.set(fragment.smiles, atoms);
+      counts.set(fragment.smiles, (counts.get(fragment.smiles) ?? 0) + 1);
+    }
+
+    const coordinates = await this.featureCoordinates(compound, molecule);
+
     return {
-      molecular_fragments: [
-        {
-          smiles: 'COc1cc(C=CC(=O)C)ccc1O',
-          frequency: 2,
-          bioactivity_contribution: 0.75,
-          pharmacophore_type: 'phenolic',
-        },
-      ],
-      functional_groups: ['phenol', 'enone'],
-      ring_systems: [
-        {
-          ring_type: 'benzene',
-          size: 6,
-          aromaticity: true,
-          heteroatoms: [],
-        },
-      ],
-      pharmacophoric_features: [
-        {
-          feature_type: 'hydrogen_donor',
-          coordinates: [1.2, 2.3, 0.1],
-          importance: 0.85,
-        },
-      ],
+      murcko_scaffold: scaffold.murcko,
+      generic_scaffold: scaffold.generic,
+      molecular_fragments: [...fragments].map(([smiles, atoms]) => {
+        const contained = features.filter(feature => feature.atoms.every(atom => atoms.has(atom)));
+        const types = contained.map(feature => feature.type);
+        const dominant = types.sort((a, b) =>
+          types.filter(type => type === b).length - types.filter(type => type === a).length)[0];
+        return {
+          smiles,
+          frequency: counts.get(smiles)!,
+          // Share of the compound's pharmacophore features carried by this fragment
+          bioactivity_contribution: features.length === 0 ? 0 : Math.round((contained.length / features.length) * 100) / 100,
+          pharmacophore_type: dominant ?? 'none',
+        };
+      }),
+      functional_groups: derivePharmacophores(molecule).filter(id => !(id in PHARMACOPHORE_FEATURE_TYPES)),
+      ring_systems: molecule.getRings().map(ring => {
+        const heteroatoms = ring.map(atom => molecule.atoms[atom]!.element).filter(element => element !== 'C');
+        const aromaticity = ring.every(atom => molecule.atoms[atom]!.aromatic);
+        return { ring_type: ringName(molecule, ring, aromaticity), size: ring.length, aromaticity, heteroatoms };
+      }),
+      pharmacophoric_features: features.map(feature => {
+        const centre: [number, number, number] = [0, 0, 0];
+        for (const atom of feature.atoms) {
+          const point = coordinates[atom]!;
+          centre[0] += point[0] / feature.atoms.length;
+          centre[1] += point[1] / feature.atoms.length;
+          centre[2] += point[2] / feature.atoms.length;
+        }
+        return {
+          feature_type: feature.type,
+          coordinates: centre.map(value => Math.round(value * 1000) / 1000) as [number, number, number],
+          importance: PHARMACOPHORE_FEATURE_WEIGHTS[feature.type],
+        };
+      }),
     };
   }
 
+  /**
+   * One feature per donor or acceptor atom and per aromatic ring; overlapping hydrophobic and
+   * ionizable matches merge into a single feature
+   */
+  private findPharmacophoreFeatures(molecule: Molecule): Array<{ type: PharmacophoreFeature['feature_type']; atoms: number[] }> {
+    const features: Array<{ type: PharmacophoreFeature['feature_type']; atoms: number[] }> = [];
+
+    for (const [id, type] of Object.entries(PHARMACOPHORE_FEATURE_TYPES)) {
+      const matches = (getPharmacophorePatterns(id) ?? []).flatMap(pattern => pattern.match(molecule))
+        .map(match => (type === 'hydrogen_donor' || type === 'hydrogen_acceptor' ? match.slice(0, 1) : match));
+
+      const groups: Array<Set<number>> = [];
+      for (const match of matches) {
+        const key = [...match].sort((a, b) => a - b).join(',');
+        if (groups.some(group => [...group].sort((a, b) => a - b).join(',') === key)) continue;
+        const overlapping = type === 'aromatic' ? [] : groups.filter(group => match.some(atom => group.has(atom)));
+        const merged = new Set(match);
+        for (const group of overlapping) {
+          group.forEach(atom => merged.add(atom));
+          groups.splice(groups.indexOf(group), 1);
+        }
+        groups.push(merged);
+      }
+
+      features.push(...groups.map(group => ({ type, atoms: [...group].sort((a, b) => a - b) })));
+    }
+
+    return features;
+  }
+
+  /**
+   * Heavy-atom positions in the lowest-energy conformer, or the 2D depiction when none embeds
+   */
+  private async featureCoordinates(compound: CompoundData, molecule: Molecule): Promise<Array<[number, number, number]>> {
+    try {
+      const lowest = (await structureExport.conformers(compound.smiles)).conformers[0]!;
+      return molecule.atoms.map(atom => {
+        const point = lowest.coordinates[atom.index]!;
+        return [point.x, point.y, point.z];
+      });
+    } catch (error) {
+      logger.warn(`No conformer for ${compound.name}, using 2D feature positions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return compute2DCoordinates(molecule).map(point => [point.x, point.y, 0]);
+    }
+  }
+
   private async performConformationalAnalysis(compound: CompoundData): Promise<ConformationalAnalysis> {
+    const set = await structureExport.conformers(compound.smiles);
+    const lowest = set.conformers[0]!;
+    const meanRmsd = set.conformers.reduce((sum, conformer) => sum + conformer.rmsdToLowest, 0) / set.conformers.length;
+    // Conformers spread over about 2 Å RMSD count as fully flexible
+    const flexibility = Math.round(Math.min(1, meanRmsd / 2) * 100) / 100;
+
     return {
-      conformers: [
-        {
-          id: 'conf_001',
-          energy: 0.0,
-          coordinates: [[0, 0, 0]],
-          rmsd_to_lowest: 0.0,
-        },
-      ],
-      flexibility: 0.65,
-      preferred_conformation: 'extended',
-      energy_barriers: [2.5, 3.1],
+      conformers: set.conformers.map((conformer, index) => ({
+        id: `conf_${String(index + 1).padStart(3, '0')}`,
+        energy: Math.round((conformer.energy - lowest.energy) * 100) / 100,
+        coordinates: conformer.coordinates.map(point => [point.x, point.y, point.z]),
+        rmsd_to_lowest: Math.round(conformer.rmsdToLowest * 100) / 100,
+      })),
+      flexibility,
+      preferred_conformation: this.classifyConformation(set, flexibility),
+      energy_barriers: set.torsionBarriers.map(barrier => Math.round(barrier * 10) / 10),
     };
   }
 
-  private getAnalysisModels(analysisType: string): string[] {
+  /**
+   * Rigid when the conformers barely differ, otherwise extended or folded by how the lowest-energy
+   * conformer's radius of gyration compares with the range over all conformers
+   */
+  private classifyConformation(set: ConformerSet, flexibility: number): string {
+    if (set.conformers.length === 1 || flexibility < 0.1) {
+      return 'rigid';
+    }
+
+    const heavy = set.molecule.atoms.filter(atom => atom.element !== 'H').map(atom => atom.index);
+    const radii = set.conformers.map(conformer => {
+      const points = heavy.map(index => conformer.coordinates[index]!);
+      const centre = ['x', 'y', 'z'].map(axis => points.reduce((sum, point) => sum + point[axis as 'x' | 'y' | 'z'], 0) / points.length);
+      return Math.sqrt(points.reduce((sum, point) =>
+        sum + (point.x - centre[0]!) ** 2 + (point.y - centre[1]!) ** 2 + (point.z - centre[2]!) ** 2, 0) / points.length);
+    });
+    const min = Math.min(...radii);
+    const max = Math.max(...radii);
+    const position = max - min < 1e-6 ? 0.5 : (radii[0]! - min) / (max - min);
+
+    if (position > 0.66) return 'extended';
+    if (position < 0.33) return 'folded';
+    return 'intermediate';
+  }
+
+  private getAnalysisModels(analysisType: string, activityPredictions: ActivityPrediction[]): string[] {
+    const qsarModels = activityPredictions
+      .map(prediction => prediction.model_name)
+      .filter((name): name is string => name !== undefined);
     const models: Record<string, string[]> = {
       structure: ['RDKit', 'OpenEye OMEGA'],
       properties: ['RDKit', 'CDK'],
-      bioactivity: ['ChEMBL', 'ML models'],
+      bioactivity: ['ChEMBL', ...qsarModels],
       toxicity: ['DEREK', 'TOPKAT'],
       admet: ['ADMET Predictor', 'pkCSM'],
-      complete: ['RDKit', 'ChEMBL', 'DEREK', 'ADMET Predictor'],
+      complete: ['RDKit', 'ChEMBL', 'DEREK', 'ADMET Predictor', ...qsarModels],
       ayurvedic_profile: ['Traditional knowledge base', 'Dosha prediction'],
     };
 
@@ -963,4 +1533,58 @@ export class CompoundAgent extends AgentBase {
     logger.info('Initializing compound analysis databases...');
     logger.info('Compound databases initialized successfully');
   }
-}
\ No newline at end of file
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks CAS format and check digit (weighted sum of the other digits mod 10)
+ */
+function isValidCasNumber(cas: string): boolean {
+  const match = /^(\d{2,7})-(\d{2})-(\d)$/.exec(cas);
+  if (!match) return false;
+
+  const digits = (match[1]! + match[2]!).split('').reverse();
+  const checksum = digits.reduce((sum, digit, i) => sum + parseInt(digit, 10) * (i + 1), 0);
+  return checksum % 10 === parseInt(match[3]!, 10);
+}
+
+const AROMATIC_RINGS: Record<string, string> = {
+  '6:': 'benzene', '6:N': 'pyridine', '6:N,N:1': 'pyridazine', '6:N,N:2': 'pyrimidine', '6:N,N:3': 'pyrazine',
+  '6:O': 'pyranone', '5:O': 'furan', '5:S': 'thiophene', '5:N': 'pyrrole',
+  '5:N,N:1': 'pyrazole', '5:N,N:2': 'imidazole', '5:N,O:1': 'isoxazole', '5:N,O:2': 'oxazole',
+  '5:N,S:1': 'isothiazole', '5:N,S:2': 'thiazole',
+};
+
+const SATURATED_RINGS: Record<string, string> = {
+  '3:': 'cyclopropane', '3:O': 'oxirane', '3:N': 'aziridine', '4:': 'cyclobutane', '4:O': 'oxetane', '4:N': 'azetidine',
+  '5:': 'cyclopentane', '5:O': 'tetrahydrofuran', '5:N': 'pyrrolidine', '5:S': 'thiolane', '5:O,O:2': '1,3-dioxolane',
+  '6:': 'cyclohexane', '6:O': 'tetrahydropyran', '6:N': 'piperidine', '6:N,N:3': 'piperazine', '6:N,O:3': 'morpholine',
+  '6:O,O:2': '1,3-dioxane', '6:O,O:3': '1,4-dioxane', '7:': 'cycloheptane', '8:': 'cyclooctane',
+};
+
+const UNSATURATED_RINGS: Record<string, string> = {
+  '5:': 'cyclopentene', '6:': 'cyclohexene', '7:': 'cycloheptene', '6:O': 'dihydropyran', '5:O': 'dihydrofuran',
+};
+
+/**
+ * Common name of a ring from its size, heteroatoms and (for two heteroatoms) their ring distance
+ */
+function ringName(molecule: Molecule, ring: number[], aromatic: boolean): string {
+  const positions = ring.map((atom, i) => [molecule.atoms[atom]!.element, i] as const).filter(([element]) => element !== 'C');
+  const elements = positions.map(([element]) => element).sort();
+  let key = `${ring.length}:${elements.join(',')}`;
+  if (positions.length === 2) {
+    const gap = Math.abs(positions[0]![1] - positions[1]![1]);
+    key += `:${Math.min(gap, ring.length - gap)}`;
+  }
+
+  const unsaturated = !aromatic && ring.some((atom, i) => molecule.getBond(atom, ring[(i + 1) % ring.length]!)!.order === 2);
+  const name = aromatic ? AROMATIC_RINGS[key] : unsaturated ? UNSATURATED_RINGS[key] : SATURATED_RINGS[key];
+  if (name) return name;
+
+  const kind = elements.length === 0 ? 'carbocycle' : `${[...new Set(elements)].join(',')}-heterocycle`;
+  return `${ring.length}-membered ${aromatic ? 'aromatic ' : unsaturated ? 'unsaturated ' : ''}${kind}`;
+}
@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../../config/database';
+import Compound from '../../../models/Compound';
+import { CYP_ISOFORMS, parseSmiles, predictAdmetLiabilities } from '../../../services/chemistry';
+import { CompoundAgent } from '../CompoundAgent';
+
+const DIAZEPAM = 'CN1C(=O)CN=C(c2ccccc2)c2cc(Cl)ccc12';
+/** Diazepam with a methylselanyl group: same profile, but outside the rules' organic-element domain */
+const SELENO_DIAZEPAM = 'CN1C(=O)CN=C(c2ccccc2)c2cc([Se]C)ccc12';
+
+/**
+ * Runs the agent's ADMET persistence for a structure and returns the update sent to the Compound collection
+ */
+async function persistedUpdate(smiles: string) {
+  const agent = new CompoundAgent();
+  const compound = { ...agent['buildCompoundFromStructure'](smiles), id: new Types.ObjectId().toString() };
+  const updateOne = jest.spyOn(Compound, 'updateOne').mockResolvedValue({} as never);
+
+  await agent['persistAdmetLiabilities'](compound, predictAdmetLiabilities(parseSmiles(smiles)));
+
+  expect(updateOne).toHaveBeenCalledTimes(1);
+  const [filter, update] = updateOne.mock.calls[0]!;
+  expect(filter).toEqual({ _id: compound.id });
+  return update as {
+    $set: Record<string, unknown> & { 'admet.ruleBased': { endpoints: Array<Record<string, unknown>>; evaluatedAt: Date } };
+    $addToSet: { 'admet.metabolism.cypInhibitors': { $each: string[] } };
+  };
+}
+
+describe('CompoundAgent ADMET persistence', () => {
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores every rule-based endpoint with its confidence, applicability and rationale', async () => {
+    const liabilities = predictAdmetLiabilities(parseSmiles(DIAZEPAM));
+    const { $set } = await persistedUpdate(DIAZEPAM);
+    const { endpoints, evaluatedAt } = $set['admet.ruleBased'];
+
+    expect(endpoints.map(endpoint => endpoint['endpoint'])).toEqual([
+      ...CYP_ISOFORMS.map(isoform => `${isoform}_inhibition`),
+      'pgp_substrate', 'herg_risk', 'bbb_permeation', 'esol_logS',
+    ]);
+    expect(endpoints[0]).toEqual({ endpoint: 'CYP1A2_inhibition', ...liabilities.cypInhibition.CYP1A2 });
+    expect(endpoints.find(endpoint => endpoint['endpoint'] === 'herg_risk')).toEqual({ endpoint: 'herg_risk', ...liabilities.herg });
+    expect(endpoints.find(endpoint => endpoint['endpoint'] === 'esol_logS')).toMatchObject({
+      value: liabilities.solubility.value.logS,
+      applicable: true,
+      confidence: 0.7,
+    });
+    expect(evaluatedAt).toBeInstanceOf(Date);
+  });
+
+  it('adds predicted inhibitors and raises only the flags that are predicted and applicable', async () => {
+    const update = await persistedUpdate(DIAZEPAM);
+
+    expect(update.$addToSet['admet.metabolism.cypInhibitors'].$each).toEqual(['CYP1A2', 'CYP2C19']);
+    expect(update.$set['admet.distribution.bbbPermeability']).toBe(true);
+    expect(update.$set).not.toHaveProperty(['admet.absorption.pgpSubstrate']);
+  });
+
+  it('records estimates outside the rules\' domain without changing curated fields', async () => {
+    const update = await persistedUpdate(SELENO_DIAZEPAM);
+    const bbb = update.$set['admet.ruleBased'].endpoints.find(endpoint => endpoint['endpoint'] === 'bbb_permeation');
+
+    expect(bbb).toMatchObject({ value: true, applicable: false });
+    expect(update.$addToSet['admet.metabolism.cypInhibitors'].$each).toEqual([]);
+    expect(update.$set).not.toHaveProperty(['admet.distribution.bbbPermeability']);
+  });
+
+  it('skips compounds that are not stored records', async () => {
+    const agent = new CompoundAgent();
+    const updateOne = jest.spyOn(Compound, 'updateOne');
+
+    await agent['persistAdmetLiabilities'](
+      agent['buildCompoundFromStructure'](DIAZEPAM),
+      predictAdmetLiabilities(parseSmiles(DIAZEPAM))
+    );
+
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
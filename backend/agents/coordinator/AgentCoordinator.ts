@@ -1,9 +1,16 @@
 import { EventEmitter } from 'events';
 import { TaskPriority, TaskStatus } from '../../../shared/types';
+import { retryWithBackoff } from '../../../shared/utils';
+import { AGENT_FALLBACK_OPTIONS } from '../../services/QueryParser';
+import { AGENT_CONFIG } from '../../utils/constants';
 import logger from '../../utils/logger';
-import { AgentBase, AgentInput, AgentOutput } from '../base/AgentBase';
-import { CompoundAgent } from '../compound/CompoundAgent';
-import { LiteratureAgent } from '../literature/LiteratureAgent';
+import { AgentBase, AgentInput, AgentInputError, AgentOutput, TaskCancelledError } from '../base/AgentBase';
+import { CompoundAgent, CompoundOutput } from '../compound/CompoundAgent';
+import { CrossRefAgent } from '../crossref/CrossRefAgent';
+import { LiteratureAgent, LiteratureOutput } from '../literature/LiteratureAgent';
+import { CircuitBreaker, CircuitBreakerSnapshot, CircuitOpenError } from './CircuitBreaker';
+import { TaskStore, taskStore } from './TaskStore';
+import { WorkflowValidationError, resolveStepInput, validateWorkflow } from './WorkflowGraph';
 
 export interface CoordinatedTask {
   id: string;
@@ -14,6 +21,8 @@ export interface CoordinatedTask {
   workflow: WorkflowStep[];
   status: TaskStatus;
   results: Map<string, AgentOutput>;
+  /** Status of each workflow step by step id */
+  stepStatuses: Map<string, TaskStatus>;
   finalResult?: CoordinatedOutput;
   startedAt: Date;
   completedAt?: Date;
@@ -25,8 +34,35 @@ export interface WorkflowStep {
   agentType: string;
   input: Record<string, unknown>;
   dependencies: string[];
+  /** Whether the step may run alongside other steps; non-parallel steps run on their own */
   parallel: boolean;
   optional: boolean;
+  /** Upstream results written into `input` before the step runs */
+  bindings?: StepInputBinding[];
+  retry?: StepRetryPolicy;
+}
+
+export interface StepRetryPolicy {
+  /** Retries after the first failed attempt; defaults to the agent's retryAttempts */
+  attempts?: number;
+  /** Delay before the first retry, doubled for each further one */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Fraction of each delay that is randomised, 0–1 */
+  jitter?: number;
+}
+
+export interface StepInputBinding {
+  /** Upstream step whose agent result is read; must be one of the step's dependencies */
+  from: string;
+  /** Dot path into the upstream result; `[]` flattens an array, e.g. "results[].extractedEntities.compounds[].name" */
+  path: string;
+  /** Dot path in the step input to write to */
+  to: string;
+  /** Keep the first match (default) or all of them */
+  pick?: 'first' | 'all';
+  /** Only fill the input when the declared value is empty */
+  ifEmpty?: boolean;
 }
 
 export interface CoordinatedOutput {
@@ -80,19 +116,32 @@ export interface Conflict {
  */
 export class AgentCoordinator extends EventEmitter {
   private agents: Map<string, AgentBase>;
+  /** Circuit breaker of each registered agent */
+  private breakers: Map<string, CircuitBreaker>;
+  /** Agent to route required steps to while an agent's circuit is open */
+  private fallbacks: Map<string, string>;
   private activeTasks: Map<string, CoordinatedTask>;
+  /** Abort controllers of running tasks, by task id */
+  private cancellations: Map<string, AbortController>;
   private taskQueue: CoordinatedTask[];
   private isProcessing: boolean;
   private maxConcurrentTasks: number;
+  private maxParallelSteps: number;
+  private store: TaskStore;
 
-  constructor(maxConcurrentTasks: number = 5) {
+  constructor(maxConcurrentTasks: number = 5, maxParallelSteps: number = 3, store: TaskStore = taskStore) {
     super();
     
     this.agents = new Map();
+    this.breakers = new Map();
+    this.fallbacks = new Map();
     this.activeTasks = new Map();
+    this.cancellations = new Map();
     this.taskQueue = [];
     this.isProcessing = false;
     this.maxConcurrentTasks = maxConcurrentTasks;
+    this.maxParallelSteps = maxParallelSteps;
+    this.store = store;
 
     this.initializeAgents();
     this.startTaskProcessor();
@@ -102,23 +151,50 @@ export class AgentCoordinator extends EventEmitter {
     // Initialize core agents
     const literatureAgent = new LiteratureAgent();
     const compoundAgent = new CompoundAgent();
+    const crossReferenceAgent = new CrossRefAgent();
 
     this.agents.set('literature', literatureAgent);
     this.agents.set('compound', compoundAgent);
+    this.agents.set('cross_reference', crossReferenceAgent);
 
     // Start all agents
-    for (const agent of this.agents.values()) {
+    for (const [name, agent] of this.agents) {
       agent.start();
+      this.breakers.set(name, new CircuitBreaker(name, {
+        failureThreshold: AGENT_CONFIG.CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs: AGENT_CONFIG.CIRCUIT_RESET_MS,
+      }));
+    }
+
+    for (const option of AGENT_FALLBACK_OPTIONS) {
+      const unavailable = option.condition.match(/^(\w+)_agent_unavailable$/)?.[1];
+      const alternative = option.alternative.match(/^(\w+)_agent$/)?.[1];
+      if (unavailable && alternative && this.agents.has(unavailable) && this.agents.has(alternative)) {
+        this.fallbacks.set(unavailable, alternative);
+      }
     }
 
     logger.info('Agent Coordinator initialized with agents:', Array.from(this.agents.keys()));
   }
 
+  /**
+   * Queues a task with the standard workflow for its type, or a custom one.
+   * Throws WorkflowValidationError for unknown agents, dangling dependencies or cycles.
+   */
   public async submitTask(
     type: CoordinatedTask['type'],
     input: Record<string, unknown>,
-    priority: TaskPriority = TaskPriority.MEDIUM
+    priority: TaskPriority = TaskPriority.MEDIUM,
+    workflow?: WorkflowStep[]
   ): Promise<string> {
+    const steps = workflow ?? this.generateWorkflow(type, input);
+    for (const step of steps) {
+      if (!this.agents.has(step.agentType)) {
+        throw new WorkflowValidationError(`Step ${step.stepId} uses unknown agent ${step.agentType}`);
+      }
+    }
+    validateWorkflow(steps);
+
     const taskId = this.generateTaskId();
     
     const task: CoordinatedTask = {
@@ -126,13 +202,15 @@ export class AgentCoordinator extends EventEmitter {
       type,
       priority,
       input,
-      requiredAgents: this.getRequiredAgents(type),
-      workflow: this.generateWorkflow(type, input),
+      requiredAgents: workflow ? [...new Set(steps.map(step => step.agentType))] : this.getRequiredAgents(type),
+      workflow: steps,
       status: TaskStatus.PENDING,
       results: new Map(),
+      stepStatuses: new Map(steps.map(step => [step.stepId, TaskStatus.PENDING])),
       startedAt: new Date(),
     };
 
+    await this.store.save(task);
     this.taskQueue.push(task);
     this.sortTaskQueue();
 
@@ -142,6 +220,63 @@ export class AgentCoordinator extends EventEmitter {
     return taskId;
   }
 
+  /**
+   * Requeues tasks persisted before a restart; interrupted workflows continue after their last
+   * completed steps. Call once the database is connected. Returns the number of tasks requeued.
+   */
+  public async restore(): Promise<number> {
+    const known = new Set([...this.taskQueue, ...this.activeTasks.values()].map(task => task.id));
+    let restored = 0;
+
+    for (const task of await this.store.loadUnfinished()) {
+      if (known.has(task.id)) continue;
+
+      try {
+        validateWorkflow(task.workflow);
+      } catch (error) {
+        task.status = TaskStatus.FAILED;
+        task.error = error instanceof Error ? error.message : 'Invalid workflow';
+        task.completedAt = new Date();
+        await this.store.finish(task);
+        continue;
+      }
+
+      this.taskQueue.push(task);
+      restored++;
+      logger.info(`Task ${task.id} restored with ${task.results.size}/${task.workflow.length} steps completed`);
+    }
+    this.sortTaskQueue();
+
+    return restored;
+  }
+
+  /**
+   * Cancels a queued or running task. A queued task is dropped from the queue; a running one has
+   * its signal aborted, so running steps stop at their agent's next stage boundary and no further
+   * steps start. Returns false when no queued or running task has the id.
+   */
+  public async cancelTask(taskId: string): Promise<boolean> {
+    const index = this.taskQueue.findIndex(task => task.id === taskId);
+    if (index !== -1) {
+      const [task] = this.taskQueue.splice(index, 1);
+      this.markCancelled(task!);
+      await this.store.finish(task!);
+
+      logger.info(`Task ${taskId} cancelled before it started`);
+      this.emit('taskCancelled', { taskId });
+      return true;
+    }
+
+    const controller = this.cancellations.get(taskId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    logger.info(`Cancelling task ${taskId}`);
+    return true;
+  }
+
   private getRequiredAgents(type: CoordinatedTask['type']): string[] {
     const agentMap: Record<string, string[]> = {
       'ayurveda_research': ['literature', 'compound'],
@@ -180,6 +315,14 @@ export class AgentCoordinator extends EventEmitter {
           dependencies: ['literature_search'],
           parallel: false,
           optional: false,
+          bindings: [
+            {
+              from: 'literature_search',
+              path: 'results[].extractedEntities.compounds[].name',
+              to: 'compoundIdentifier',
+              ifEmpty: true,
+            },
+          ],
         },
       ],
       'compound_discovery': [
@@ -206,6 +349,9 @@ export class AgentCoordinator extends EventEmitter {
           dependencies: ['compound_analysis'],
           parallel: false,
           optional: true,
+          bindings: [
+            { from: 'compound_analysis', path: 'compound.name', to: 'query', ifEmpty: true },
+          ],
         },
       ],
       'literature_review': [
@@ -266,16 +412,19 @@ export class AgentCoordinator extends EventEmitter {
 
     this.isProcessing = true;
     const task = this.taskQueue.shift()!;
+    const controller = new AbortController();
     this.activeTasks.set(task.id, task);
+    this.cancellations.set(task.id, controller);
 
     task.status = TaskStatus.IN_PROGRESS;
+    await this.store.markStarted(task);
     this.emit('taskStarted', { taskId: task.id });
 
     try {
       logger.info(`Starting task ${task.id} of type ${task.type}`);
       
       // Execute workflow steps
-      await this.executeWorkflow(task);
+      await this.executeWorkflow(task, controller.signal);
 
       // Synthesize results
       const synthesizedResult = await this.synthesizeResults(task);
@@ -289,103 +438,255 @@ export class AgentCoordinator extends EventEmitter {
         metadata: {
           totalExecutionTime: Date.now() - task.startedAt.getTime(),
           agentsUsed: Array.from(task.results.keys()),
-          workflow: task.workflow.map(step => step.stepId),
+          workflow: validateWorkflow(task.workflow),
           qualityScore: this.calculateQualityScore(task.results),
         },
       };
 
       task.status = TaskStatus.COMPLETED;
       task.completedAt = new Date();
+      await this.store.finish(task);
 
       logger.info(`Task ${task.id} completed successfully`);
       this.emit('taskCompleted', { taskId: task.id, result: task.finalResult });
 
     } catch (error) {
-      task.status = TaskStatus.FAILED;
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      task.completedAt = new Date();
+      if (controller.signal.aborted) {
+        this.markCancelled(task);
+        await this.store.finish(task);
+
+        logger.info(`Task ${task.id} cancelled`);
+        this.emit('taskCancelled', { taskId: task.id });
+      } else {
+        task.status = TaskStatus.FAILED;
+        task.error = error instanceof Error ? error.message : 'Unknown error';
+        task.completedAt = new Date();
+        await this.store.finish(task);
 
-      logger.error(`Task ${task.id} failed: ${task.error}`);
-      this.emit('taskFailed', { taskId: task.id, error: task.error });
+        logger.error(`Task ${task.id} failed: ${task.error}`);
+        this.emit('taskFailed', { taskId: task.id, error: task.error });
+      }
     } finally {
       this.activeTasks.delete(task.id);
+      this.cancellations.delete(task.id);
       this.isProcessing = false;
     }
   }
 
-  private async executeWorkflow(task: CoordinatedTask): Promise<void> {
-    const completed = new Set<string>();
-    const parallel: Promise<void>[] = [];
+  /**
+   * Runs the workflow as a DAG: each step starts once its dependencies have finished, with up to
+   * maxParallelSteps running at a time. Ready steps start in topological order, and a
+   * non-parallel step waits for running steps to finish and holds back others until it is done.
+   * After a required step fails or the signal aborts no new steps start, steps that never ran are
+   * marked cancelled, and the failure or a TaskCancelledError is thrown once running steps settle.
+   */
+  private async executeWorkflow(task: CoordinatedTask, signal: AbortSignal): Promise<void> {
+    const order = validateWorkflow(task.workflow);
+    const steps = new Map(task.workflow.map(step => [step.stepId, step]));
+    // Steps with results from before a restart are not run again
+    const finished = new Set(order.filter(id => task.results.has(id)));
+    const pending = new Set(order.filter(id => !finished.has(id)));
+    const running = new Map<string, Promise<void>>();
+    let failure: unknown;
+
+    const start = (step: WorkflowStep): void => {
+      pending.delete(step.stepId);
+      running.set(step.stepId, this.executeWorkflowStep(task, step, signal)
+        .then(
+          () => {
+            finished.add(step.stepId);
+          },
+          error => {
+            failure ??= error;
+          }
+        )
+        .finally(() => {
+          running.delete(step.stepId);
+        }));
+    };
 
-    for (const step of task.workflow) {
-      // Check dependencies
-      const dependenciesComplete = step.dependencies.every(dep => completed.has(dep));
-      
-      if (!dependenciesComplete) {
-        if (!step.optional) {
-          throw new Error(`Dependencies not met for step ${step.stepId}`);
-        }
-        continue;
-      }
+    while (pending.size > 0 || running.size > 0) {
+      const exclusive = [...running.keys()].some(id => !steps.get(id)!.parallel);
 
-      if (step.parallel) {
-        // Execute in parallel
-        parallel.push(this.executeWorkflowStep(task, step, completed));
-      } else {
-        // Wait for parallel steps to complete first
-        if (parallel.length > 0) {
-          await Promise.all(parallel);
-          parallel.length = 0;
-        }
-        
-        // Execute sequentially
-        await this.executeWorkflowStep(task, step, completed);
+      for (const id of order) {
+        if (failure !== undefined || signal.aborted || exclusive || running.size >= this.maxParallelSteps) break;
+        if (!pending.has(id)) continue;
+
+        const step = steps.get(id)!;
+        if (!step.dependencies.every(dependency => finished.has(dependency))) continue;
+        if (!step.parallel && running.size > 0) break;
+
+        start(step);
+        if (!step.parallel) break;
       }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    for (const id of pending) {
+      task.stepStatuses.set(id, TaskStatus.CANCELLED);
     }
 
-    // Wait for any remaining parallel steps
-    if (parallel.length > 0) {
-      await Promise.all(parallel);
+    if (signal.aborted) {
+      throw new TaskCancelledError(task.id);
+    }
+    if (failure !== undefined) {
+      throw failure;
     }
   }
 
-  private async executeWorkflowStep(
-    task: CoordinatedTask,
-    step: WorkflowStep,
-    completed: Set<string>
-  ): Promise<void> {
-    const agent = this.agents.get(step.agentType);
-    if (!agent) {
+  /**
+   * Runs one step with its bound upstream outputs, retrying failed attempts with exponential
+   * backoff and jitter. While the agent's circuit is open, or once it opens during the retries, an
+   * optional step is skipped and a required one is routed to the agent's fallback, if it has one.
+   * A failed optional step is logged and counts as finished, while a cancelled step always stops
+   * the workflow.
+   */
+  private async executeWorkflowStep(task: CoordinatedTask, step: WorkflowStep, signal: AbortSignal): Promise<void> {
+    if (!this.agents.has(step.agentType)) {
       throw new Error(`Agent ${step.agentType} not found`);
     }
 
+    const data = resolveStepInput(step, task.results);
+
+    task.stepStatuses.set(step.stepId, TaskStatus.IN_PROGRESS);
     try {
-      const agentInput: AgentInput = {
-        taskId: `${task.id}-${step.stepId}`,
-        data: step.input,
-        metadata: {
-          coordinatedTaskId: task.id,
-          stepId: step.stepId,
-          workflowType: task.type,
-        },
-      };
+      let result: AgentOutput;
+      try {
+        if (this.breakers.get(step.agentType)!.isOpen()) {
+          throw new CircuitOpenError(step.agentType);
+        }
+        result = await this.runStep(task, step, step.agentType, data, signal);
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) {
+          throw error;
+        }
+
+        if (step.optional) {
+          task.stepStatuses.set(step.stepId, TaskStatus.CANCELLED);
+          logger.warn(`Skipping optional step ${step.stepId}: circuit for ${step.agentType} is open`);
+          return;
+        }
+        const fallback = this.fallbacks.get(step.agentType);
+        if (!fallback || this.breakers.get(fallback)!.isOpen()) {
+          throw error;
+        }
+
+        logger.warn(`Routing step ${step.stepId} to ${fallback}: circuit for ${step.agentType} is open`);
+        result = await this.runStep(task, step, fallback, this.fallbackInput(step.agentType, fallback, data), signal);
+        result.metadata = { ...result.metadata, fallbackFrom: step.agentType };
+      }
 
-      const result = await agent.executeTask(agentInput);
       task.results.set(step.stepId, result);
-      completed.add(step.stepId);
+      task.stepStatuses.set(step.stepId, TaskStatus.COMPLETED);
+      await this.store.recordStep(task.id, step.stepId, result);
 
       logger.info(`Workflow step ${step.stepId} completed for task ${task.id}`);
 
     } catch (error) {
+      if (error instanceof TaskCancelledError || signal.aborted) {
+        task.stepStatuses.set(step.stepId, TaskStatus.CANCELLED);
+        throw error;
+      }
+
+      task.stepStatuses.set(step.stepId, TaskStatus.FAILED);
       if (step.optional) {
         logger.warn(`Optional step ${step.stepId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        completed.add(step.stepId); // Mark as completed even if failed
       } else {
         throw error;
       }
     }
   }
 
+  /**
+   * Runs a step on one agent with the step's retry policy. Cancellations, open circuits and
+   * input errors are not retried.
+   */
+  private async runStep(
+    task: CoordinatedTask,
+    step: WorkflowStep,
+    agentType: string,
+    data: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<AgentOutput> {
+    const agent = this.agents.get(agentType)!;
+    const policy = step.retry ?? {};
+    const agentInput: AgentInput = {
+      taskId: `${task.id}-${step.stepId}`,
+      data,
+      metadata: {
+        coordinatedTaskId: task.id,
+        stepId: step.stepId,
+        workflowType: task.type,
+      },
+      signal,
+    };
+
+    return retryWithBackoff(
+      () => this.callAgent(agentType, agent, agentInput),
+      policy.attempts ?? agent.getRetryAttempts(),
+      policy.initialDelayMs ?? AGENT_CONFIG.RETRY_DELAY_MS,
+      {
+        maxDelay: policy.maxDelayMs ?? AGENT_CONFIG.RETRY_MAX_DELAY_MS,
+        jitter: policy.jitter ?? AGENT_CONFIG.RETRY_JITTER,
+        shouldRetry: (error, attempt) => {
+          if (error instanceof TaskCancelledError || error instanceof CircuitOpenError || error instanceof AgentInputError) {
+            return false;
+          }
+          logger.warn(`Step ${step.stepId} of task ${task.id} failed on attempt ${attempt + 1}, retrying: ${error.message}`);
+          return true;
+        },
+        signal,
+      }
+    );
+  }
+
+  /**
+   * One agent call through the agent's circuit breaker. Cancellations and input errors say nothing
+   * about the agent's health and do not count as failures.
+   */
+  private async callAgent(name: string, agent: AgentBase, input: AgentInput): Promise<AgentOutput> {
+    const breaker = this.breakers.get(name)!;
+    if (!breaker.allowRequest()) {
+      throw new CircuitOpenError(name);
+    }
+
+    try {
+      const output = await agent.executeTask(input);
+      breaker.recordSuccess();
+      return output;
+    } catch (error) {
+      if (error instanceof TaskCancelledError || error instanceof AgentInputError) {
+        breaker.releaseTrial();
+      } else {
+        breaker.recordFailure();
+        if (breaker.isOpen()) {
+          logger.warn(`Circuit for agent ${name} opened after ${breaker.snapshot().consecutiveFailures} consecutive failures`);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Step input rewritten for the agent a step falls back to
+   */
+  private fallbackInput(agentType: string, fallback: string, data: Record<string, unknown>): Record<string, unknown> {
+    if (fallback !== 'cross_reference') {
+      return data;
+    }
+
+    const language = data['language'];
+    return {
+      sourceType: agentType === 'compound' ? 'compound' : 'traditional_text',
+      sourceIdentifier: String(data['query'] ?? data['compoundIdentifier'] ?? ''),
+      targetType: 'all',
+      mappingMode: 'comprehensive',
+      ...(typeof language === 'string' && { context: { languagePreference: [language] } }),
+    };
+  }
+
   private async synthesizeResults(task: CoordinatedTask): Promise<SynthesizedResult> {
     const evidence: Evidence[] = [];
     const findings: string[] = [];
@@ -398,7 +699,7 @@ export class AgentCoordinator extends EventEmitter {
       
       if (agentType === 'literature') {
         // Process literature results
-        const literatureData = result.result as any;
+        const literatureData = result.result as Partial<LiteratureOutput>;
         if (literatureData.results) {
           for (const res of literatureData.results) {
             evidence.push({
@@ -414,13 +715,13 @@ export class AgentCoordinator extends EventEmitter {
 
       if (agentType === 'compound') {
         // Process compound results
-        const compoundData = result.result as any;
+        const compoundData = result.result as Partial<CompoundOutput>;
         if (compoundData.analysis) {
           findings.push(`Compound analysis completed with ${result.confidence} confidence`);
           evidence.push({
             source: 'computational_analysis',
             type: 'computational',
-            content: `Drug-likeness score: ${compoundData.analysis.drugLikeness?.qed || 'N/A'}`,
+            content: `Drug-likeness score: ${compoundData.analysis.drugLikeness?.lipinskiRule.score ?? 'N/A'}`,
             confidence: result.confidence,
             agentSource: 'compound',
           });
@@ -492,6 +793,20 @@ export class AgentCoordinator extends EventEmitter {
     return Math.max(avgEvidenceConfidence - conflictPenalty, 0);
   }
 
+  /**
+   * Marks a task and its unfinished steps as cancelled
+   */
+  private markCancelled(task: CoordinatedTask): void {
+    for (const [stepId, status] of task.stepStatuses) {
+      if (status === TaskStatus.PENDING || status === TaskStatus.IN_PROGRESS) {
+        task.stepStatuses.set(stepId, TaskStatus.CANCELLED);
+      }
+    }
+    task.status = TaskStatus.CANCELLED;
+    task.error = `Task ${task.id} was cancelled`;
+    task.completedAt = new Date();
+  }
+
   private sortTaskQueue(): void {
     this.taskQueue.sort((a, b) => {
       const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
@@ -511,8 +826,15 @@ export class AgentCoordinator extends EventEmitter {
     return Array.from(this.activeTasks.values());
   }
 
-  public getAgentStatuses(): Record<string, any> {
-    const statuses: Record<string, any> = {};
+  /**
+   * Circuit breaker state of each registered agent
+   */
+  public getCircuitStates(): Record<string, CircuitBreakerSnapshot> {
+    return Object.fromEntries([...this.breakers].map(([name, breaker]) => [name, breaker.snapshot()]));
+  }
+
+  public getAgentStatuses(): Record<string, ReturnType<AgentBase['getStatus']>> {
+    const statuses: Record<string, ReturnType<AgentBase['getStatus']>> = {};
     
     for (const [name, agent] of this.agents) {
       statuses[name] = agent.getStatus();
@@ -529,7 +851,7 @@ export class AgentCoordinator extends EventEmitter {
       await agent.stop();
     }
     
-    // Cancel pending tasks
+    // Queued tasks stay persisted and are restored on the next start
     this.taskQueue.length = 0;
     
     logger.info('Agent Coordinator shutdown complete');
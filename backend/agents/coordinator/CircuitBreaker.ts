@@ -0,0 +1,103 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which the circuit opens */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before letting a trial call through */
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  openedAt?: Date;
+  /** When an open circuit lets the next trial call through */
+  retryAt?: Date;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit for ${name} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker. Once open it rejects calls until resetTimeoutMs has passed,
+ * then lets a single trial call through: success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private openedAt?: Date;
+  private trialInFlight = false;
+
+  constructor(public readonly name: string, private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may go ahead now; in the half-open state only the first caller gets through
+   */
+  public allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt!.getTime() >= this.options.resetTimeoutMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether the circuit is rejecting calls, without claiming a half-open trial
+   */
+  public isOpen(): boolean {
+    if (this.state === 'open') {
+      return Date.now() - this.openedAt!.getTime() < this.options.resetTimeoutMs;
+    }
+    return this.state === 'half_open' && this.trialInFlight;
+  }
+
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    delete this.openedAt;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = new Date();
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Releases a half-open trial that ended without a verdict, e.g. because it was cancelled
+   */
+  public releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  public snapshot(): CircuitBreakerSnapshot {
+    return {
+      // An open circuit past its reset timeout lets the next call through
+      state: this.state === 'open' && !this.isOpen() ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      ...(this.openedAt && {
+        openedAt: this.openedAt,
+        retryAt: new Date(this.openedAt.getTime() + this.options.resetTimeoutMs),
+      }),
+    };
+  }
+}
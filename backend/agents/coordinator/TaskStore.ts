@@ -0,0 +1,130 @@
+import { TaskStatus } from '../../../shared/types';
+import { dbConnection } from '../../config/database';
+import { CoordinatedTaskDocument, CoordinatedTaskModel } from '../../models/CoordinatedTask';
+import { AGENT_CONFIG } from '../../utils/constants';
+import logger from '../../utils/logger';
+import type { AgentOutput } from '../base/AgentBase';
+import type { CoordinatedTask } from './AgentCoordinator';
+
+type StoredTask = Pick<
+  CoordinatedTaskDocument,
+  '_id' | 'type' | 'priority' | 'input' | 'requiredAgents' | 'workflow' | 'stepResults' | 'attempts' | 'startedAt'
+>;
+
+/**
+ * Persists coordinated tasks and their step outputs so queued and interrupted work survives a
+ * restart. Writes are best-effort: without a database the coordinator keeps working in memory.
+ */
+export class TaskStore {
+  /**
+   * Records a newly submitted task
+   */
+  public async save(task: CoordinatedTask): Promise<void> {
+    await this.write(`save task ${task.id}`, () => CoordinatedTaskModel.create({
+      _id: task.id,
+      type: task.type,
+      priority: task.priority,
+      input: task.input,
+      requiredAgents: task.requiredAgents,
+      workflow: task.workflow,
+      status: task.status,
+      startedAt: task.startedAt,
+    }));
+  }
+
+  public async markStarted(task: CoordinatedTask): Promise<void> {
+    await this.write(`start task ${task.id}`, () => CoordinatedTaskModel.updateOne(
+      { _id: task.id },
+      { $set: { status: TaskStatus.IN_PROGRESS }, $inc: { attempts: 1 } }
+    ));
+  }
+
+  public async recordStep(taskId: string, stepId: string, output: AgentOutput): Promise<void> {
+    await this.write(`store step ${stepId} of task ${taskId}`, () => CoordinatedTaskModel.updateOne(
+      { _id: taskId },
+      { $push: { stepResults: { stepId, output, completedAt: new Date() } } }
+    ));
+  }
+
+  /**
+   * Stores the outcome of a finished task and starts its retention period
+   */
+  public async finish(task: CoordinatedTask): Promise<void> {
+    const completedAt = task.completedAt ?? new Date();
+    await this.write(`finish task ${task.id}`, () => CoordinatedTaskModel.updateOne(
+      { _id: task.id },
+      {
+        $set: {
+          status: task.status,
+          stepStatuses: Object.fromEntries(task.stepStatuses),
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + AGENT_CONFIG.TASK_RETENTION_MS),
+          ...(task.finalResult && { finalResult: task.finalResult }),
+          ...(task.error && { error: task.error }),
+        },
+      }
+    ));
+  }
+
+  /**
+   * Queued and interrupted tasks, oldest first, with the step outputs recorded so far.
+   * Tasks already started MAX_TASK_ATTEMPTS times are failed instead of resumed again.
+   */
+  public async loadUnfinished(): Promise<CoordinatedTask[]> {
+    if (!dbConnection.isConnectionHealthy()) {
+      return [];
+    }
+
+    const stored = await CoordinatedTaskModel.find({ status: { $in: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS] } })
+      .sort({ startedAt: 1 })
+      .lean<StoredTask[]>();
+
+    const tasks: CoordinatedTask[] = [];
+    for (const record of stored) {
+      if (record.attempts >= AGENT_CONFIG.MAX_TASK_ATTEMPTS) {
+        const task = this.toTask(record);
+        task.status = TaskStatus.FAILED;
+        task.error = `Interrupted ${record.attempts} times; not resumed again`;
+        task.completedAt = new Date();
+        await this.finish(task);
+        logger.warn(`Task ${task.id} failed: ${task.error}`);
+        continue;
+      }
+      tasks.push(this.toTask(record));
+    }
+    return tasks;
+  }
+
+  private toTask(record: StoredTask): CoordinatedTask {
+    const completed = new Set(record.stepResults.map(result => result.stepId));
+    return {
+      id: record._id,
+      type: record.type,
+      priority: record.priority,
+      input: record.input,
+      requiredAgents: record.requiredAgents,
+      workflow: record.workflow,
+      status: TaskStatus.PENDING,
+      results: new Map(record.stepResults.map(result => [result.stepId, result.output])),
+      stepStatuses: new Map(record.workflow.map(step => [
+        step.stepId,
+        completed.has(step.stepId) ? TaskStatus.COMPLETED : TaskStatus.PENDING,
+      ])),
+      startedAt: new Date(record.startedAt),
+    };
+  }
+
+  private async write(action: string, operation: () => Promise<unknown>): Promise<void> {
+    if (!dbConnection.isConnectionHealthy()) {
+      return;
+    }
+
+    try {
+      await operation();
+    } catch (error) {
+      logger.warn(`Could not ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const taskStore = new TaskStore();
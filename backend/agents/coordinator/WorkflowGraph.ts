@@ -0,0 +1,171 @@
+import type { AgentOutput } from '../base/AgentBase';
+import type { WorkflowStep } from './AgentCoordinator';
+
+export class WorkflowValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * Checks step ids, dependencies, input bindings and retry policies, and returns the step ids in a
+ * topological order that keeps the declared order wherever dependencies allow
+ */
+export function validateWorkflow(steps: WorkflowStep[]): string[] {
+  const byId = new Map<string, WorkflowStep>();
+  for (const step of steps) {
+    if (!step.stepId) {
+      throw new WorkflowValidationError('Every workflow step needs a stepId');
+    }
+    if (byId.has(step.stepId)) {
+      throw new WorkflowValidationError(`Duplicate workflow step ${step.stepId}`);
+    }
+    byId.set(step.stepId, step);
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependencies) {
+      if (!byId.has(dependency)) {
+        throw new WorkflowValidationError(`Step ${step.stepId} depends on unknown step ${dependency}`);
+      }
+    }
+    for (const binding of step.bindings ?? []) {
+      if (!step.dependencies.includes(binding.from)) {
+        throw new WorkflowValidationError(`Step ${step.stepId} reads ${binding.from} without depending on it`);
+      }
+      if (!binding.path || !binding.to) {
+        throw new WorkflowValidationError(`Step ${step.stepId} has a binding without a path or target`);
+      }
+    }
+    validateRetryPolicy(step);
+  }
+
+  const cycle = findCycle(steps, byId);
+  if (cycle) {
+    throw new WorkflowValidationError(`Workflow has a dependency cycle: ${cycle.join(' -> ')}`);
+  }
+
+  // Kahn's algorithm, always taking the earliest declared ready step
+  const remaining = new Map(steps.map(step => [step.stepId, new Set(step.dependencies)]));
+  const order: string[] = [];
+  while (remaining.size > 0) {
+    const next = steps.find(step => remaining.get(step.stepId)?.size === 0)!;
+    remaining.delete(next.stepId);
+    order.push(next.stepId);
+    for (const dependencies of remaining.values()) {
+      dependencies.delete(next.stepId);
+    }
+  }
+  return order;
+}
+
+function validateRetryPolicy(step: WorkflowStep): void {
+  const { retry } = step;
+  if (!retry) return;
+
+  if (retry.attempts !== undefined && (!Number.isInteger(retry.attempts) || retry.attempts < 0)) {
+    throw new WorkflowValidationError(`Step ${step.stepId} retry attempts must be a non-negative integer`);
+  }
+  for (const key of ['initialDelayMs', 'maxDelayMs'] as const) {
+    const value = retry[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw new WorkflowValidationError(`Step ${step.stepId} retry ${key} must be a non-negative number`);
+    }
+  }
+  if (retry.jitter !== undefined && (typeof retry.jitter !== 'number' || retry.jitter < 0 || retry.jitter > 1)) {
+    throw new WorkflowValidationError(`Step ${step.stepId} retry jitter must be between 0 and 1`);
+  }
+}
+
+/**
+ * Step ids along the first dependency cycle found, starting and ending with the same step
+ */
+function findCycle(steps: WorkflowStep[], byId: Map<string, WorkflowStep>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dependency of byId.get(id)!.dependencies) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.stepId);
+    // Paths run from dependents to dependencies; report them in execution order
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/**
+ * Values at a dot path; a segment ending in `[]` flattens the array it names
+ */
+function selectPath(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+  for (const segment of path.split('.')) {
+    const spread = segment.endsWith('[]');
+    const key = spread ? segment.slice(0, -2) : segment;
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== 'object') continue;
+      const child = key ? (item as Record<string, unknown>)[key] : item;
+      if (spread) {
+        if (Array.isArray(child)) next.push(...child);
+      } else if (child !== undefined && child !== null) {
+        next.push(child);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function writePath(target: Record<string, unknown>, path: string, value: unknown, ifEmpty: boolean): void {
+  const keys = path.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = current[key];
+    if (child === null || typeof child !== 'object' || Array.isArray(child)) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  const last = keys[keys.length - 1]!;
+  if (!ifEmpty || isEmpty(current[last])) {
+    current[last] = value;
+  }
+}
+
+/**
+ * Step input with upstream results written in by its bindings; the declared input is not modified.
+ * Bindings whose upstream step produced no result or no matching value leave the input as declared.
+ */
+export function resolveStepInput(step: WorkflowStep, results: Map<string, AgentOutput>): Record<string, unknown> {
+  const input = structuredClone(step.input);
+
+  for (const binding of step.bindings ?? []) {
+    const upstream = results.get(binding.from);
+    if (!upstream) continue;
+
+    const matches = selectPath(upstream.result, binding.path);
+    if (matches.length === 0) continue;
+
+    writePath(input, binding.to, binding.pick === 'all' ? matches : matches[0], binding.ifEmpty ?? false);
+  }
+  return input;
+}
@@ -0,0 +1,413 @@
+import { TaskPriority, TaskStatus } from '../../../../shared/types';
+import { dbConnection } from '../../../config/database';
+import { AGENT_CONFIG } from '../../../utils/constants';
+import { AgentInput, AgentInputError, AgentOutput, TaskCancelledError } from '../../base/AgentBase';
+import { CompoundAgent } from '../../compound/CompoundAgent';
+import { CrossRefAgent } from '../../crossref/CrossRefAgent';
+import { LiteratureAgent } from '../../literature/LiteratureAgent';
+import { AgentCoordinator, CoordinatedTask, WorkflowStep } from '../AgentCoordinator';
+import { TaskStore } from '../TaskStore';
+import { WorkflowValidationError } from '../WorkflowGraph';
+
+const AGENTS = { literature: LiteratureAgent, compound: CompoundAgent, cross_reference: CrossRefAgent };
+
+interface AgentCall {
+  agent: string;
+  stepId: string;
+  data: Record<string, unknown>;
+  signal?: AbortSignal;
+  /** Steps that had finished when this one started */
+  after: string[];
+}
+
+const output = (result: Record<string, unknown>): AgentOutput => ({
+  taskId: 'task',
+  result,
+  confidence: 0.8,
+  metadata: {},
+  executionTime: 100,
+});
+
+const step = (stepId: string, dependencies: string[] = [], extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  stepId,
+  agentType: 'literature',
+  input: {},
+  dependencies,
+  parallel: true,
+  optional: false,
+  retry: { attempts: 0 },
+  ...extra,
+});
+
+describe('AgentCoordinator', () => {
+  let store: TaskStore;
+  let calls: AgentCall[];
+  let finished: string[];
+  let peak: number;
+  /** What each agent call does; resolves after 100ms by default */
+  let behaviour: (call: AgentCall) => Promise<AgentOutput>;
+
+  const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+    store = new TaskStore();
+    calls = [];
+    finished = [];
+    peak = 0;
+    behaviour = async call => {
+      await delay(100);
+      return output({ step: call.stepId });
+    };
+
+    for (const [agent, Agent] of Object.entries(AGENTS)) {
+      jest.spyOn(Agent.prototype, 'executeTask').mockImplementation(async (input: AgentInput) => {
+        const call = {
+          agent,
+          stepId: String(input.metadata!['stepId']),
+          data: input.data,
+          ...(input.signal && { signal: input.signal }),
+          after: [...finished],
+        };
+        calls.push(call);
+        peak = Math.max(peak, calls.length - finished.length);
+        try {
+          return await behaviour(call);
+        } finally {
+          finished.push(call.stepId);
+        }
+      });
+    }
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Advances the task processor until the task completes, fails or is cancelled
+   */
+  async function settle(coordinator: AgentCoordinator, taskId: string): Promise<{ event: string; task: CoordinatedTask }> {
+    const finish = jest.spyOn(store, 'finish');
+    let event: string | undefined;
+    for (const name of ['taskCompleted', 'taskFailed', 'taskCancelled']) {
+      coordinator.on(name, payload => {
+        if (payload.taskId === taskId) event ??= name;
+      });
+    }
+    for (let tick = 0; event === undefined && tick < 1000; tick++) {
+      await jest.advanceTimersByTimeAsync(100);
+    }
+    const task = finish.mock.calls.map(([finishedTask]) => finishedTask).find(finishedTask => finishedTask.id === taskId);
+    return { event: event!, task: task! };
+  }
+
+  describe('workflow scheduling', () => {
+    it('runs independent steps side by side up to the parallel limit, then their dependents', async () => {
+      const coordinator = new AgentCoordinator(5, 2, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('summary', ['texts', 'papers', 'patents']),
+        step('texts'),
+        step('papers', [], { agentType: 'compound' }),
+        step('patents'),
+      ]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(peak).toBe(2);
+      expect(calls.map(call => call.stepId)).toEqual(['texts', 'papers', 'patents', 'summary']);
+      expect(calls[3]!.after.sort()).toEqual(['papers', 'patents', 'texts']);
+      expect(task.finalResult!.metadata.workflow).toEqual(['texts', 'papers', 'patents', 'summary']);
+      expect(task.finalResult!.metadata.agentsUsed.sort()).toEqual(['papers', 'patents', 'summary', 'texts']);
+    });
+
+    it('runs a non-parallel step on its own', async () => {
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('first'),
+        step('exclusive', [], { parallel: false }),
+        step('last'),
+      ]);
+
+      await settle(coordinator, taskId);
+
+      expect(peak).toBe(1);
+      expect(calls.map(call => call.stepId)).toEqual(['first', 'exclusive', 'last']);
+    });
+
+    it('binds upstream results into the input of dependent steps', async () => {
+      behaviour = async call => output(call.agent === 'literature'
+        ? {
+          results: [{
+            title: 'Haridra in the Charaka Samhita',
+            source: { name: 'Charaka Samhita' },
+            relevanceScore: 0.9,
+            extractedEntities: { compounds: [{ name: 'Curcumin' }] },
+          }],
+        }
+        : { analysis: {} });
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('ayurveda_research', { query: 'haridra' });
+
+      const { event } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(calls.map(call => [call.agent, call.stepId])).toEqual([
+        ['literature', 'literature_search'],
+        ['compound', 'compound_analysis'],
+      ]);
+      expect(calls[1]!.data).toMatchObject({ compoundIdentifier: 'Curcumin', analysisType: 'complete' });
+    });
+
+    it('stops after a required step fails and cancels the steps that never ran', async () => {
+      behaviour = async call => {
+        if (call.stepId === 'search') throw new Error('Index unavailable');
+        return output({});
+      };
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('search'),
+        step('review', ['search']),
+      ]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskFailed');
+      expect(task.error).toBe('Index unavailable');
+      expect(Object.fromEntries(task.stepStatuses)).toEqual({ search: TaskStatus.FAILED, review: TaskStatus.CANCELLED });
+    });
+
+    it('carries on past a failed optional step', async () => {
+      behaviour = async call => {
+        if (call.stepId === 'extras') throw new Error('Index unavailable');
+        return output({});
+      };
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('extras', [], { optional: true }),
+        step('review', ['extras']),
+      ]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(calls.map(call => call.stepId)).toEqual(['extras', 'review']);
+      expect(task.stepStatuses.get('extras')).toBe(TaskStatus.FAILED);
+    });
+
+    it('rejects workflows with unknown agents or cycles at submission', async () => {
+      const coordinator = new AgentCoordinator(5, 3, store);
+
+      await expect(coordinator.submitTask('literature_review', {}, undefined, [step('search', [], { agentType: 'oracle' })]))
+        .rejects.toThrow(new WorkflowValidationError('Step search uses unknown agent oracle'));
+      await expect(coordinator.submitTask('literature_review', {}, undefined, [step('a', ['b']), step('b', ['a'])]))
+        .rejects.toThrow('Workflow has a dependency cycle: a -> b -> a');
+    });
+  });
+
+  describe('restoring persisted tasks', () => {
+    const interrupted = (workflow: WorkflowStep[]): CoordinatedTask => ({
+      id: 'coord-restored',
+      type: 'literature_review',
+      priority: TaskPriority.MEDIUM,
+      input: {},
+      requiredAgents: ['literature'],
+      workflow,
+      status: TaskStatus.PENDING,
+      results: new Map([['search', output({ query: 'ashwagandha' })]]),
+      stepStatuses: new Map([['search', TaskStatus.COMPLETED], ['review', TaskStatus.PENDING]]),
+      startedAt: new Date(),
+    });
+
+    it('resumes after the steps completed before the restart', async () => {
+      jest.spyOn(store, 'loadUnfinished').mockResolvedValue([interrupted([
+        step('search'),
+        step('review', ['search'], { bindings: [{ from: 'search', path: 'query', to: 'topic' }] }),
+      ])]);
+      const coordinator = new AgentCoordinator(5, 3, store);
+
+      await expect(coordinator.restore()).resolves.toBe(1);
+      const { event, task } = await settle(coordinator, 'coord-restored');
+
+      expect(event).toBe('taskCompleted');
+      expect(calls.map(call => [call.stepId, call.data])).toEqual([['review', { topic: 'ashwagandha' }]]);
+      expect(task.finalResult!.metadata.agentsUsed).toEqual(['search', 'review']);
+    });
+
+    it('fails restored tasks whose workflow is no longer valid', async () => {
+      jest.spyOn(store, 'loadUnfinished').mockResolvedValue([interrupted([step('search'), step('review', ['summary'])])]);
+      const finish = jest.spyOn(store, 'finish');
+      const coordinator = new AgentCoordinator(5, 3, store);
+
+      await expect(coordinator.restore()).resolves.toBe(0);
+      expect(finish).toHaveBeenCalledWith(expect.objectContaining({
+        status: TaskStatus.FAILED,
+        error: 'Step review depends on unknown step summary',
+      }));
+    });
+
+    it('does not queue a task twice', async () => {
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [step('search')]);
+      jest.spyOn(store, 'loadUnfinished').mockResolvedValue([{ ...interrupted([step('search')]), id: taskId }]);
+
+      await expect(coordinator.restore()).resolves.toBe(0);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('drops a queued task', async () => {
+      const finish = jest.spyOn(store, 'finish');
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const cancelled = jest.fn();
+      coordinator.on('taskCancelled', cancelled);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [step('search')]);
+
+      await expect(coordinator.cancelTask(taskId)).resolves.toBe(true);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(calls).toEqual([]);
+      expect(cancelled).toHaveBeenCalledWith({ taskId });
+      expect(finish).toHaveBeenCalledWith(expect.objectContaining({
+        status: TaskStatus.CANCELLED,
+        stepStatuses: new Map([['search', TaskStatus.CANCELLED]]),
+      }));
+    });
+
+    it('aborts the running steps of a task and starts no more', async () => {
+      behaviour = call => new Promise((_resolve, reject) => {
+        call.signal!.addEventListener('abort', () => reject(new TaskCancelledError(call.stepId)));
+      });
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('search'),
+        step('review', ['search']),
+      ]);
+      while (calls.length === 0) {
+        await jest.advanceTimersByTimeAsync(100);
+      }
+
+      await expect(coordinator.cancelTask(taskId)).resolves.toBe(true);
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCancelled');
+      expect(calls.map(call => call.stepId)).toEqual(['search']);
+      expect(calls[0]!.signal!.aborted).toBe(true);
+      expect(task.status).toBe(TaskStatus.CANCELLED);
+      expect(Object.fromEntries(task.stepStatuses)).toEqual({ search: TaskStatus.CANCELLED, review: TaskStatus.CANCELLED });
+    });
+
+    it('reports unknown or finished tasks', async () => {
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [step('search')]);
+      await settle(coordinator, taskId);
+
+      await expect(coordinator.cancelTask(taskId)).resolves.toBe(false);
+      await expect(coordinator.cancelTask('coord-unknown')).resolves.toBe(false);
+    });
+  });
+
+  describe('retries and circuit breakers', () => {
+    const failing = (agents: string[]) => async (call: AgentCall): Promise<AgentOutput> => {
+      if (agents.includes(call.agent)) throw new Error(`${call.agent} unavailable`);
+      return output({});
+    };
+
+    /** A required literature search that keeps retrying until the literature circuit opens */
+    const search = step('search', [], {
+      input: { query: 'ashwagandha', language: 'english' },
+      retry: { attempts: AGENT_CONFIG.CIRCUIT_FAILURE_THRESHOLD + 1, initialDelayMs: 10, jitter: 0 },
+    });
+
+    it('retries failed attempts with backoff', async () => {
+      let failures = 2;
+      behaviour = async () => {
+        if (failures-- > 0) throw new Error('Timeout');
+        return output({});
+      };
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [
+        step('search', [], { retry: { attempts: 2, initialDelayMs: 100, jitter: 0 } }),
+      ]);
+
+      const { event } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(calls).toHaveLength(3);
+      expect(coordinator.getCircuitStates()['literature']).toMatchObject({ state: 'closed', consecutiveFailures: 0, totalFailures: 2 });
+    });
+
+    it('does not retry input errors or hold them against the agent', async () => {
+      behaviour = async () => {
+        throw new AgentInputError('Compound identifier is required');
+      };
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [step('search', [], { retry: { attempts: 3 } })]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskFailed');
+      expect(task.error).toBe('Compound identifier is required');
+      expect(calls).toHaveLength(1);
+      expect(coordinator.getCircuitStates()['literature']!.totalFailures).toBe(0);
+    });
+
+    it('routes a required step to the fallback agent once the circuit opens mid-retry', async () => {
+      behaviour = failing(['literature']);
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('literature_review', {}, undefined, [search]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(calls.map(call => call.agent)).toEqual([
+        ...Array(AGENT_CONFIG.CIRCUIT_FAILURE_THRESHOLD).fill('literature'),
+        'cross_reference',
+      ]);
+      expect(calls[calls.length - 1]!.data).toEqual({
+        sourceType: 'traditional_text',
+        sourceIdentifier: 'ashwagandha',
+        targetType: 'all',
+        mappingMode: 'comprehensive',
+        context: { languagePreference: ['english'] },
+      });
+      expect(task.results.get('search')!.metadata).toEqual({ fallbackFrom: 'literature' });
+      expect(coordinator.getCircuitStates()['literature']!.state).toBe('open');
+    });
+
+    it('skips optional steps while their circuit is open', async () => {
+      behaviour = failing(['literature']);
+      const coordinator = new AgentCoordinator(5, 3, store);
+      await settle(coordinator, await coordinator.submitTask('literature_review', {}, undefined, [search]));
+      calls = [];
+
+      const taskId = await coordinator.submitTask('compound_discovery', {}, undefined, [
+        step('papers', [], { optional: true }),
+        step('compound', [], { agentType: 'compound' }),
+      ]);
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskCompleted');
+      expect(calls.map(call => call.agent)).toEqual(['compound']);
+      expect(task.stepStatuses.get('papers')).toBe(TaskStatus.CANCELLED);
+    });
+
+    it('fails a required step whose agent has no fallback', async () => {
+      behaviour = failing(['compound']);
+      const coordinator = new AgentCoordinator(5, 3, store);
+      const taskId = await coordinator.submitTask('compound_discovery', {}, undefined, [
+        step('compound', [], { agentType: 'compound', retry: search.retry! }),
+      ]);
+
+      const { event, task } = await settle(coordinator, taskId);
+
+      expect(event).toBe('taskFailed');
+      expect(task.error).toBe('Circuit for compound is open');
+      expect(calls).toHaveLength(AGENT_CONFIG.CIRCUIT_FAILURE_THRESHOLD);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { CircuitBreaker } from '../CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T10:00:00Z') });
+    breaker = new CircuitBreaker('literature', { failureThreshold: 3, resetTimeoutMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number): void => {
+    for (let i = 0; i < times; i++) breaker.recordFailure();
+  };
+
+  it('opens after consecutive failures and rejects calls', () => {
+    fail(2);
+    expect(breaker.allowRequest()).toBe(true);
+
+    fail(1);
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.snapshot()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      totalFailures: 3,
+      openedAt: new Date('2024-03-01T10:00:00Z'),
+      retryAt: new Date('2024-03-01T10:01:00Z'),
+    });
+  });
+
+  it('only counts failures in a row', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 2, totalFailures: 4 });
+  });
+
+  it('lets a single trial call through once the reset timeout has passed', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.isOpen()).toBe(true);
+  });
+
+  it('closes after a successful trial and reopens after a failed one', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.snapshot().retryAt).toEqual(new Date('2024-03-01T10:02:00Z'));
+
+    jest.advanceTimersByTime(60000);
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 0, totalFailures: 4 });
+  });
+
+  it('frees a trial that ended without a verdict', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+    breaker.allowRequest();
+    breaker.releaseTrial();
+
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { TaskPriority, TaskStatus } from '../../../../shared/types';
+import { dbConnection } from '../../../config/database';
+import { CoordinatedTaskModel } from '../../../models/CoordinatedTask';
+import { AGENT_CONFIG } from '../../../utils/constants';
+import type { AgentOutput } from '../../base/AgentBase';
+import type { CoordinatedTask, WorkflowStep } from '../AgentCoordinator';
+import { TaskStore } from '../TaskStore';
+import { query } from '../../../test-utils/mongooseQuery';
+
+const OUTPUT: AgentOutput = { taskId: 'coord-1-search', result: { results: [] }, confidence: 0.7, metadata: {}, executionTime: 40 };
+
+const WORKFLOW: WorkflowStep[] = [
+  { stepId: 'search', agentType: 'literature', input: {}, dependencies: [], parallel: false, optional: false },
+  { stepId: 'review', agentType: 'literature', input: {}, dependencies: ['search'], parallel: false, optional: false },
+];
+
+const task = (overrides: Partial<CoordinatedTask> = {}): CoordinatedTask => ({
+  id: 'coord-1',
+  type: 'literature_review',
+  priority: TaskPriority.HIGH,
+  input: { query: 'ashwagandha' },
+  requiredAgents: ['literature'],
+  workflow: WORKFLOW,
+  status: TaskStatus.PENDING,
+  results: new Map(),
+  stepStatuses: new Map([['search', TaskStatus.PENDING], ['review', TaskStatus.PENDING]]),
+  startedAt: new Date('2024-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+const stored = (attempts: number) => ({
+  _id: 'coord-1',
+  type: 'literature_review',
+  priority: TaskPriority.HIGH,
+  input: { query: 'ashwagandha' },
+  requiredAgents: ['literature'],
+  workflow: WORKFLOW,
+  stepResults: [{ stepId: 'search', output: OUTPUT, completedAt: new Date() }],
+  attempts,
+  startedAt: '2024-03-01T10:00:00Z',
+});
+
+describe('TaskStore', () => {
+  const store = new TaskStore();
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    updateOne = jest.spyOn(CoordinatedTaskModel, 'updateOne').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records a submitted task', async () => {
+    const create = jest.spyOn(CoordinatedTaskModel, 'create').mockResolvedValue({} as never);
+
+    await store.save(task());
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      _id: 'coord-1',
+      type: 'literature_review',
+      workflow: WORKFLOW,
+      status: TaskStatus.PENDING,
+    }));
+  });
+
+  it('counts starts and appends step outputs', async () => {
+    await store.markStarted(task());
+    await store.recordStep('coord-1', 'search', OUTPUT);
+
+    expect(updateOne).toHaveBeenNthCalledWith(1, { _id: 'coord-1' }, { $set: { status: TaskStatus.IN_PROGRESS }, $inc: { attempts: 1 } });
+    expect(updateOne).toHaveBeenNthCalledWith(2, { _id: 'coord-1' }, {
+      $push: { stepResults: { stepId: 'search', output: OUTPUT, completedAt: expect.any(Date) } },
+    });
+  });
+
+  it('stores the outcome of a finished task with its retention period', async () => {
+    const completedAt = new Date('2024-03-01T11:00:00Z');
+
+    await store.finish(task({ status: TaskStatus.FAILED, error: 'Index unavailable', completedAt }));
+
+    expect(updateOne).toHaveBeenCalledWith({ _id: 'coord-1' }, {
+      $set: {
+        status: TaskStatus.FAILED,
+        stepStatuses: { search: TaskStatus.PENDING, review: TaskStatus.PENDING },
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + AGENT_CONFIG.TASK_RETENTION_MS),
+        error: 'Index unavailable',
+      },
+    });
+  });
+
+  it('keeps working when writes fail or the database is down', async () => {
+    updateOne.mockRejectedValueOnce(new Error('Connection reset'));
+    await expect(store.markStarted(task())).resolves.toBeUndefined();
+
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+    await store.markStarted(task());
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    await expect(store.loadUnfinished()).resolves.toEqual([]);
+  });
+
+  it('loads unfinished tasks with the step outputs recorded so far', async () => {
+    jest.spyOn(CoordinatedTaskModel, 'find').mockReturnValue(query([stored(1)]) as never);
+
+    const [loaded] = await store.loadUnfinished();
+
+    expect(loaded).toMatchObject({ id: 'coord-1', status: TaskStatus.PENDING, startedAt: new Date('2024-03-01T10:00:00Z') });
+    expect(loaded!.results).toEqual(new Map([['search', OUTPUT]]));
+    expect(loaded!.stepStatuses).toEqual(new Map([['search', TaskStatus.COMPLETED], ['review', TaskStatus.PENDING]]));
+  });
+
+  it('fails tasks interrupted too often instead of resuming them', async () => {
+    jest.spyOn(CoordinatedTaskModel, 'find').mockReturnValue(query([stored(AGENT_CONFIG.MAX_TASK_ATTEMPTS)]) as never);
+
+    await expect(store.loadUnfinished()).resolves.toEqual([]);
+    expect(updateOne).toHaveBeenCalledWith({ _id: 'coord-1' }, {
+      $set: expect.objectContaining({ status: TaskStatus.FAILED, error: `Interrupted ${AGENT_CONFIG.MAX_TASK_ATTEMPTS} times; not resumed again` }),
+    });
+  });
+});
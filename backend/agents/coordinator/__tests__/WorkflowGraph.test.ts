@@ -0,0 +1,106 @@
+import type { AgentOutput } from '../../base/AgentBase';
+import type { WorkflowStep } from '../AgentCoordinator';
+import { WorkflowValidationError, resolveStepInput, validateWorkflow } from '../WorkflowGraph';
+
+const step = (stepId: string, dependencies: string[] = [], extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  stepId,
+  agentType: 'literature',
+  input: {},
+  dependencies,
+  parallel: true,
+  optional: false,
+  ...extra,
+});
+
+const output = (result: Record<string, unknown>): AgentOutput => ({
+  taskId: 'task',
+  result,
+  confidence: 1,
+  metadata: {},
+  executionTime: 0,
+});
+
+describe('validateWorkflow', () => {
+  it('orders steps after their dependencies, keeping the declared order otherwise', () => {
+    expect(validateWorkflow([
+      step('synthesis', ['compounds', 'literature']),
+      step('literature'),
+      step('compounds', ['literature']),
+      step('crossref'),
+    ])).toEqual(['literature', 'compounds', 'synthesis', 'crossref']);
+  });
+
+  it('reports a dependency cycle in execution order', () => {
+    expect(() => validateWorkflow([step('a', ['c']), step('b', ['a']), step('c', ['b']), step('d')]))
+      .toThrow('Workflow has a dependency cycle: a -> b -> c -> a');
+    expect(() => validateWorkflow([step('a', ['a'])])).toThrow('Workflow has a dependency cycle: a -> a');
+  });
+
+  it.each<[string, WorkflowStep[], string]>([
+    ['a missing step id', [step('')], 'Every workflow step needs a stepId'],
+    ['duplicate step ids', [step('a'), step('a')], 'Duplicate workflow step a'],
+    ['an unknown dependency', [step('a', ['b'])], 'Step a depends on unknown step b'],
+    [
+      'a binding outside the dependencies',
+      [step('a'), step('b', [], { bindings: [{ from: 'a', path: 'results', to: 'query' }] })],
+      'Step b reads a without depending on it',
+    ],
+    [
+      'a binding without a path',
+      [step('a'), step('b', ['a'], { bindings: [{ from: 'a', path: '', to: 'query' }] })],
+      'Step b has a binding without a path or target',
+    ],
+    ['fractional retry attempts', [step('a', [], { retry: { attempts: 1.5 } })], 'Step a retry attempts must be a non-negative integer'],
+    ['a negative delay', [step('a', [], { retry: { maxDelayMs: -1 } })], 'Step a retry maxDelayMs must be a non-negative number'],
+    ['jitter above 1', [step('a', [], { retry: { jitter: 2 } })], 'Step a retry jitter must be between 0 and 1'],
+  ])('rejects %s', (_name, steps, message) => {
+    expect(() => validateWorkflow(steps)).toThrow(new WorkflowValidationError(message));
+  });
+});
+
+describe('resolveStepInput', () => {
+  const literature = output({
+    results: [
+      { extractedEntities: { compounds: [{ name: 'Curcumin' }, { name: 'Piperine' }] } },
+      { extractedEntities: { compounds: [{ name: 'Withaferin A' }] } },
+    ],
+  });
+
+  it('writes the first match, or all of them, into the step input', () => {
+    const compounds = step('compounds', ['literature'], {
+      input: { options: { depth: 1 } },
+      bindings: [
+        { from: 'literature', path: 'results[].extractedEntities.compounds[].name', to: 'compound' },
+        { from: 'literature', path: 'results[].extractedEntities.compounds[].name', to: 'options.names', pick: 'all' },
+      ],
+    });
+
+    expect(resolveStepInput(compounds, new Map([['literature', literature]]))).toEqual({
+      compound: 'Curcumin',
+      options: { depth: 1, names: ['Curcumin', 'Piperine', 'Withaferin A'] },
+    });
+    expect(compounds.input).toEqual({ options: { depth: 1 } });
+  });
+
+  it('only fills empty values when asked to', () => {
+    const compounds = step('compounds', ['literature'], {
+      input: { compound: 'Gingerol', query: '' },
+      bindings: [
+        { from: 'literature', path: 'results[].extractedEntities.compounds[].name', to: 'compound', ifEmpty: true },
+        { from: 'literature', path: 'results[].extractedEntities.compounds[].name', to: 'query', ifEmpty: true },
+      ],
+    });
+
+    expect(resolveStepInput(compounds, new Map([['literature', literature]]))).toEqual({ compound: 'Gingerol', query: 'Curcumin' });
+  });
+
+  it('keeps the declared input when the upstream step or value is missing', () => {
+    const compounds = step('compounds', ['literature'], {
+      input: { compound: 'Gingerol' },
+      bindings: [{ from: 'literature', path: 'results[].targets[].name', to: 'compound' }],
+    });
+
+    expect(resolveStepInput(compounds, new Map([['literature', literature]]))).toEqual({ compound: 'Gingerol' });
+    expect(resolveStepInput(compounds, new Map())).toEqual({ compound: 'Gingerol' });
+  });
+});
@@ -1,6 +1,6 @@
 import { AgentType } from '../../../shared/types';
 import logger from '../../utils/logger';
-import { AgentBase, AgentInput, AgentOutput } from '../base/AgentBase';
+import { AgentBase, AgentInput, AgentInputError, AgentOutput } from '../base/AgentBase';
 
 // Enhanced interfaces for cross-reference and knowledge mapping
 export interface CrossRefInput {
@@ -576,21 +576,27 @@ export class CrossRefAgent extends AgentBase {
 
       // Identify source entity
       const sourceEntity = await this.identifySourceEntity(crossRefInput);
+      this.throwIfCancelled(input);
 
       // Perform comprehensive mapping
       const mappedEntities = await this.performCrossMapping(sourceEntity, crossRefInput);
+      this.throwIfCancelled(input);
 
       // Analyze correlations
       const correlationAnalysis = await this.performCorrelationAnalysis(sourceEntity, mappedEntities);
+      this.throwIfCancelled(input);
 
       // Build knowledge bridge
       const knowledgeBridge = await this.buildKnowledgeBridge(sourceEntity, mappedEntities, crossRefInput);
+      this.throwIfCancelled(input);
 
       // Analyze cultural context
       const culturalContext = await this.analyzeCulturalContext(sourceEntity, mappedEntities, crossRefInput);
+      this.throwIfCancelled(input);
 
       // Assess evidence support
       const evidenceSupport = await this.assessEvidenceSupport(sourceEntity, mappedEntities);
+      this.throwIfCancelled(input);
 
       // Generate recommendations
       const recommendations = await this.generateCrossRefRecommendations(
@@ -788,17 +794,17 @@ export class CrossRefAgent extends AgentBase {
   
   private validateCrossRefInput(input: CrossRefInput): void {
     if (!input.sourceIdentifier || input.sourceIdentifier.trim().length === 0) {
-      throw new Error('Source identifier is required');
+      throw new AgentInputError('Source identifier is required');
     }
 
     const validSourceTypes = ['compound', 'literature', 'traditional_text', 'modern_study', 'therapeutic_area'];
     if (!validSourceTypes.includes(input.sourceType)) {
-      throw new Error(`Invalid source type. Must be one of: ${validSourceTypes.join(', ')}`);
+      throw new AgentInputError(`Invalid source type. Must be one of: ${validSourceTypes.join(', ')}`);
     }
 
     const validMappingModes = ['semantic', 'structural', 'therapeutic', 'cultural', 'comprehensive'];
     if (!validMappingModes.includes(input.mappingMode)) {
-      throw new Error(`Invalid mapping mode. Must be one of: ${validMappingModes.join(', ')}`);
+      throw new AgentInputError(`Invalid mapping mode. Must be one of: ${validMappingModes.join(', ')}`);
     }
   }
 
@@ -1,4 +1,4 @@
-export { AgentBase } from './base/AgentBase';
+export { AgentBase, AgentInputError, TaskCancelledError } from './base/AgentBase';
 export type { AgentConfig, AgentInput, AgentOutput } from './base/AgentBase';
 
 export { LiteratureAgent } from './literature/LiteratureAgent';
@@ -8,4 +8,14 @@ export { CompoundAgent } from './compound/CompoundAgent';
 export type { CompoundAnalysis, CompoundData, CompoundInput, CompoundOutput } from './compound/CompoundAgent';
 
 export { AgentCoordinator } from './coordinator/AgentCoordinator';
-export type { CoordinatedOutput, CoordinatedTask, SynthesizedResult } from './coordinator/AgentCoordinator';
+export type {
+  CoordinatedOutput,
+  CoordinatedTask,
+  StepInputBinding,
+  StepRetryPolicy,
+  SynthesizedResult,
+  WorkflowStep,
+} from './coordinator/AgentCoordinator';
+export { WorkflowValidationError } from './coordinator/WorkflowGraph';
+export { CircuitOpenError } from './coordinator/CircuitBreaker';
+export type { CircuitBreakerSnapshot, CircuitState } from './coordinator/CircuitBreaker';
@@ -1,6 +1,6 @@
 import { AgentType } from '../../../shared/types';
 import logger from '../../utils/logger';
-import { AgentBase, AgentInput, AgentOutput } from '../base/AgentBase';
+import { AgentBase, AgentInput, AgentInputError, AgentOutput } from '../base/AgentBase';
 
 // Enhanced interfaces for advanced literature processing
 export interface LiteratureInput {
@@ -144,18 +144,22 @@ export class LiteratureAgent extends AgentBase {
 
       // Perform literature search
       const searchResults = await this.performLiteratureSearch(literatureInput);
+      this.throwIfCancelled(input);
 
       // Extract entities from results
       const enrichedResults = await this.extractEntitiesFromResults(searchResults);
+      this.throwIfCancelled(input);
 
       // Perform advanced NLP analysis
       const nlpAnalysis = await this.performNLPAnalysis(literatureInput.query, literatureInput.language);
-      
+      this.throwIfCancelled(input);
+
       // Calculate relevance scores
       const rankedResults = this.rankResultsByRelevance(enrichedResults, literatureInput.query);
 
       // Generate aggregated insights
       const aggregatedInsights = await this.generateAggregatedInsights(rankedResults);
+      this.throwIfCancelled(input);
 
       // Generate recommendations
       const recommendations = await this.generateRecommendations(literatureInput, rankedResults);
@@ -194,15 +198,15 @@ export class LiteratureAgent extends AgentBase {
 
   private validateLiteratureInput(input: LiteratureInput): void {
     if (!input.query || input.query.trim().length === 0) {
-      throw new Error('Query is required for literature search');
+      throw new AgentInputError('Query is required for literature search');
     }
 
     if (!['english', 'telugu', 'sanskrit', 'auto'].includes(input.language)) {
-      throw new Error('Unsupported language for literature search');
+      throw new AgentInputError('Unsupported language for literature search');
     }
 
     if (!['herb', 'compound', 'therapeutic_use', 'general', 'formulation', 'preparation'].includes(input.searchType)) {
-      throw new Error('Invalid search type for literature search');
+      throw new AgentInputError('Invalid search type for literature search');
     }
   }
 
@@ -0,0 +1,22 @@
+import { HTTP_STATUS } from '@shared/constants';
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { ADMIN_API_KEY } from '../utils/constants';
+import { CustomError } from './errorHandler';
+
+// Admin key middleware: maintenance endpoints require the X-Admin-Key header
+export const requireAdminKey = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!ADMIN_API_KEY) {
+    next(new CustomError('Admin endpoints are disabled: ADMIN_API_KEY is not configured', HTTP_STATUS.SERVICE_UNAVAILABLE));
+    return;
+  }
+
+  const provided = Buffer.from(req.header('x-admin-key') || '');
+  const expected = Buffer.from(ADMIN_API_KEY);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    next(new CustomError('Invalid admin key', HTTP_STATUS.UNAUTHORIZED));
+    return;
+  }
+
+  next();
+};
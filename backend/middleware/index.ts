@@ -1,3 +1,4 @@
 export { CustomError, asyncHandler, errorHandler, notFoundHandler } from './errorHandler';
 export { corsOptions, requestId, requestLogger } from './logging';
 export { apiLimiter, authLimiter } from './rateLimiter';
+export { requireAdminKey } from './adminAuth';
@@ -1,4 +1,26 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, FilterQuery, HydratedDocument, Schema } from 'mongoose';
+import {
+  FINGERPRINT_VERSION,
+  SmilesParseError,
+  calculateDescriptors,
+  canonicalSmiles,
+  computeFingerprints,
+  drugLikenessEngine,
+  parseSmiles,
+  scaffoldSmiles,
+  structureKey,
+  validateSmiles
+} from '../services/chemistry';
+import {
+  ParsedFormula,
+  calculateExactMass,
+  calculateMolecularWeight,
+  formatFormula,
+  formulasEqual,
+  parseFormula
+} from '../../shared/utils';
+
+export const COMPOUND_STATUSES: Array<ICompound['status']> = ['active', 'inactive', 'under_review', 'deprecated'];
 
 // Compound interface for TypeScript
 export interface ICompound extends Document {
@@ -7,6 +29,7 @@ export interface ICompound extends Document {
   smiles: string;
   inchi: string;
   inchiKey: string;
+  structureKey?: string;
   molecularFormula: string;
   molecularWeight: number;
   exactMass: number;
@@ -100,7 +123,61 @@ export interface ICompound extends Document {
         nephrotoxicity: number;
         neurotoxicity: number;
       };
+      structuralAlerts?: {
+        hits: Array<{
+          id: string;
+          name: string;
+          category: 'pains' | 'brenk' | 'mutagenicity' | 'hepatotoxicity';
+          severity: 'low' | 'medium' | 'high';
+          reference: string;
+          atoms: number[][];
+        }>;
+        evaluatedAt: Date;
+      };
     };
+    // Rule-based CYP, P-gp, hERG, BBB and solubility estimates, written by the compound agent
+    ruleBased?: {
+      endpoints: Array<{
+        endpoint: string;
+        value: boolean | string | number;
+        confidence: number;
+        applicable: boolean;
+        rationale: string[];
+      }>;
+      evaluatedAt: Date;
+    };
+  };
+  
+  // Structural fingerprints (hex bit vectors) for similarity search
+  fingerprints?: {
+    morgan: string;
+    maccs: string;
+    pattern: string;
+    version: number;
+  };
+  
+  // Bemis–Murcko scaffold and generic framework as canonical SMILES ('' for acyclic compounds)
+  scaffold?: {
+    murcko: string;
+    generic: string;
+  };
+  
+  // Drug-likeness rule set results, written by the compound agent
+  drugLikeness?: {
+    ruleSets: Array<{
+      id: string;
+      name: string;
+      passes: boolean;
+      score: number;
+      violations: Array<{
+        property: string;
+        label: string;
+        comparator: 'min' | 'max';
+        threshold: number;
+        actual: number;
+      }>;
+    }>;
+    evaluatedAt: Date;
   };
   
   // Ayurvedic context
@@ -164,6 +241,18 @@ export interface ICompound extends Document {
   };
 }
 
+// Data quality helpers the save hook calls on every document
+interface ICompoundQualityMethods {
+  calculateCompleteness(): number;
+  calculateAccuracy(): number;
+}
+
+interface CompoundSearchOptions {
+  therapeuticArea?: string;
+  toxicityClass?: string;
+  limit?: number;
+}
+
 // Compound Schema
 const CompoundSchema = new Schema<ICompound>({
   name: {
@@ -178,10 +267,11 @@ const CompoundSchema = new Schema<ICompound>({
     unique: true,
     validate: {
       validator: function(v: string) {
-        // Basic SMILES validation - should contain valid chemical symbols
-        return /^[A-Za-z0-9@+\-\[\]()=#\\\/]+$/.test(v);
+        // Full parse: syntax, ring closures, aromaticity and valences
+        return validateSmiles(v).valid;
       },
-      message: 'Invalid SMILES notation'
+      message: (props: { value: string }) =>
+        `Invalid SMILES notation: ${validateSmiles(props.value).errors.join('; ')}`
     }
   },
   inchi: {
@@ -206,14 +296,31 @@ const CompoundSchema = new Schema<ICompound>({
       message: 'Invalid InChI Key format'
     }
   },
+  // Hash of the canonical structure (InChIKey layout), used to detect duplicates
+  structureKey: {
+    type: String,
+    unique: true,
+    sparse: true,
+    validate: {
+      validator: function(v: string) {
+        return /^[A-Z]{14}-[A-Z]{10}-[A-Z]$/.test(v);
+      },
+      message: 'Invalid structure key format'
+    }
+  },
   molecularFormula: {
     type: String,
     required: true,
     validate: {
       validator: function(v: string) {
-        return /^[A-Z][a-z]?[0-9]*/.test(v);
+        try {
+          parseFormula(v);
+          return true;
+        } catch {
+          return false;
+        }
       },
-      message: 'Invalid molecular formula'
+      message: (props: { value: string }) => `Invalid molecular formula: ${props.value}`
     }
   },
   molecularWeight: {
@@ -389,10 +496,67 @@ const CompoundSchema = new Schema<ICompound>({
         cardiotoxicity: { type: Number, min: 0, max: 10, default: 1 },
         nephrotoxicity: { type: Number, min: 0, max: 10, default: 1 },
         neurotoxicity: { type: Number, min: 0, max: 10, default: 1 }
+      },
+      structuralAlerts: {
+        hits: [{
+          id: { type: String, required: true },
+          name: { type: String, required: true },
+          category: {
+            type: String,
+            enum: ['pains', 'brenk', 'mutagenicity', 'hepatotoxicity'],
+            required: true
+          },
+          severity: { type: String, enum: ['low', 'medium', 'high'], required: true },
+          reference: { type: String, required: true },
+          atoms: [[Number]]
+        }],
+        evaluatedAt: Date
       }
+    },
+    ruleBased: {
+      endpoints: [{
+        endpoint: { type: String, required: true },
+        value: { type: Schema.Types.Mixed, required: true },
+        confidence: { type: Number, min: 0, max: 1 },
+        applicable: { type: Boolean, required: true },
+        rationale: [String]
+      }],
+      evaluatedAt: Date
     }
   },
   
+  fingerprints: {
+    type: {
+      morgan: String,
+      maccs: String,
+      pattern: String,
+      version: Number
+    },
+    select: false
+  },
+  
+  scaffold: {
+    murcko: String,
+    generic: String
+  },
+  
+  drugLikeness: {
+    ruleSets: [{
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+      passes: { type: Boolean, required: true },
+      score: { type: Number, min: 0, max: 1 },
+      violations: [{
+        property: { type: String, required: true },
+        label: String,
+        comparator: { type: String, enum: ['min', 'max'], required: true },
+        threshold: { type: Number, required: true },
+        actual: { type: Number, required: true }
+      }]
+    }],
+    evaluatedAt: Date
+  },
+  
   ayurvedicContext: {
     associatedHerb: String,
     traditionalName: {
@@ -470,7 +634,7 @@ const CompoundSchema = new Schema<ICompound>({
   
   status: {
     type: String,
-    enum: ['active', 'inactive', 'under_review', 'deprecated'],
+    enum: COMPOUND_STATUSES,
     default: 'active'
   },
   confidence: {
@@ -504,6 +668,8 @@ CompoundSchema.index({ smiles: 1 });
 CompoundSchema.index({ inchi: 1 });
 CompoundSchema.index({ molecularFormula: 1 });
 CompoundSchema.index({ molecularWeight: 1 });
+CompoundSchema.index({ 'scaffold.murcko': 1 });
+CompoundSchema.index({ 'scaffold.generic': 1 });
 
 // Ayurvedic context indexes
 CompoundSchema.index({ 'ayurvedicContext.associatedHerb': 1 });
@@ -530,24 +696,40 @@ CompoundSchema.virtual('toxicityRisk').get(function() {
 });
 
 // Methods
-CompoundSchema.methods.getDrugLikenessScore = function() {
-  const mw = this.molecularWeight;
-  const logP = this.properties.logP;
-  const hbd = this.properties.hbd || 0;
-  const hba = this.properties.hba || 0;
-  
-  // Lipinski's Rule of Five
-  const violations = [
-    mw > 500,
-    logP > 5,
-    hbd > 5,
-    hba > 10
-  ].filter(Boolean).length;
+CompoundSchema.methods.getDrugLikenessScore = function(this: ICompound) {
+  let ruleSets: NonNullable<ICompound['drugLikeness']>['ruleSets'] | undefined = this.drugLikeness?.ruleSets;
+  
+  // Not yet evaluated by the compound agent: run the rule engine on the stored structure
+  if (!ruleSets || ruleSets.length === 0) {
+    try {
+      ruleSets = drugLikenessEngine.evaluate(calculateDescriptors(parseSmiles(this.smiles)));
+    } catch (error) {
+      if (!(error instanceof SmilesParseError)) throw error;
+      // A structure that does not parse cannot be scored; report it as unevaluated rather than failing
+      return { evaluated: false, violations: 0, passes: false, score: 0, ruleSets: [] };
+    }
+  }
+  
+  const lipinski = ruleSets.find(result => result.id === 'lipinski');
   
   return {
-    violations,
-    passes: violations === 0,
-    score: Math.max(0, 1 - (violations * 0.25))
+    evaluated: true,
+    violations: lipinski ? lipinski.violations.length : 0,
+    passes: lipinski ? lipinski.passes : false,
+    score: lipinski ? lipinski.score : 0,
+    ruleSets: ruleSets.map(result => ({
+      id: result.id,
+      name: result.name,
+      passes: result.passes,
+      score: result.score,
+      violations: result.violations.map(violation => ({
+        property: violation.property,
+        label: violation.label,
+        comparator: violation.comparator,
+        threshold: violation.threshold,
+        actual: violation.actual
+      }))
+    }))
   };
 };
 
@@ -589,8 +771,8 @@ CompoundSchema.statics.findByHerb = function(herbName: string) {
   });
 };
 
-CompoundSchema.statics.searchCompounds = function(query: string, options: any = {}) {
-  const searchQuery: any = {
+CompoundSchema.statics.searchCompounds = function(query: string, options: CompoundSearchOptions = {}) {
+  const searchQuery: FilterQuery<ICompound> = {
     $text: { $search: query },
     status: 'active'
   };
@@ -608,8 +790,43 @@ CompoundSchema.statics.searchCompounds = function(query: string, options: any =
     .limit(options.limit || 50);
 };
 
+// Formula and masses follow the structure; runs for insertMany as well as save
+CompoundSchema.pre('validate', function(next) {
+  let structure: ParsedFormula;
+  try {
+    structure = parseSmiles(this.smiles).toFormula();
+  } catch {
+    return next(); // The smiles validator reports the parse error
+  }
+
+  if (this.molecularFormula) {
+    try {
+      const declared = parseFormula(this.molecularFormula);
+      // A declared formula may leave out the charge of a salt or zwitterion
+      if (formulasEqual(declared, structure, { ignoreCharge: declared.charge === 0 })) {
+        this.molecularFormula = formatFormula(declared);
+      } else {
+        this.invalidate(
+          'molecularFormula',
+          `Molecular formula ${this.molecularFormula} does not match the structure (${formatFormula(structure)})`,
+          this.molecularFormula
+        );
+      }
+    } catch (error) {
+      this.invalidate('molecularFormula', error instanceof Error ? error.message : 'Invalid molecular formula', this.molecularFormula);
+    }
+  } else {
+    this.molecularFormula = formatFormula({ ...structure, charge: 0 });
+  }
+
+  this.molecularWeight = calculateMolecularWeight(formatFormula(structure));
+  this.exactMass = calculateExactMass(formatFormula(structure));
+
+  next();
+});
+
 // Pre-save middleware
-CompoundSchema.pre('save', function(next) {
+CompoundSchema.pre<HydratedDocument<ICompound, ICompoundQualityMethods>>('save', function(next) {
   // Auto-generate InChI Key if not provided
   if (this.inchi && !this.inchiKey) {
     // In a real implementation, this would use a chemical informatics library
@@ -617,9 +834,25 @@ CompoundSchema.pre('save', function(next) {
     this.inchiKey = `PLACEHOLDER-${Date.now()}-A`;
   }
   
+  // Store SMILES in canonical form so the unique indexes see one spelling per structure
+  if (this.isModified('smiles') || !this.structureKey) {
+    const molecule = parseSmiles(this.smiles);
+    this.smiles = canonicalSmiles(molecule);
+    this.structureKey = structureKey(molecule);
+  }
+  
+  if (this.isModified('smiles') || this.scaffold?.murcko === undefined) {
+    this.scaffold = scaffoldSmiles(parseSmiles(this.smiles));
+  }
+  
+  // Fingerprints follow the structure; recompute when it changes or the algorithm version moves
+  if (this.isModified('smiles') || !this.fingerprints?.morgan || this.fingerprints.version !== FINGERPRINT_VERSION) {
+    this.fingerprints = computeFingerprints(parseSmiles(this.smiles));
+  }
+  
   // Calculate data quality score
-  const completeness = (this as any).calculateCompleteness();
-  const accuracy = (this as any).calculateAccuracy();
+  const completeness = this.calculateCompleteness();
+  const accuracy = this.calculateAccuracy();
   
   this.dataQuality = {
     completeness,
@@ -630,6 +863,23 @@ CompoundSchema.pre('save', function(next) {
   next();
 });
 
+// insertMany (used by seeding) skips save middleware; store canonical structures and fingerprints there too
+CompoundSchema.pre('insertMany', function(next, docs: Partial<ICompound> | Array<Partial<ICompound>>) {
+  for (const doc of Array.isArray(docs) ? docs : [docs]) {
+    if (!doc.smiles) continue;
+    try {
+      const molecule = parseSmiles(doc.smiles);
+      doc.smiles = canonicalSmiles(molecule);
+      doc.structureKey = structureKey(molecule);
+      doc.scaffold = scaffoldSmiles(molecule);
+      doc.fingerprints = computeFingerprints(molecule);
+    } catch {
+      // Left as written; the smiles validator reports the parse error
+    }
+  }
+  next();
+});
+
 // Calculate completeness score
 CompoundSchema.methods.calculateCompleteness = function() {
   const requiredFields = [
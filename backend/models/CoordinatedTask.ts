@@ -0,0 +1,128 @@
+import { TaskPriority, TaskStatus } from '@shared/types';
+import { Document, Schema, model } from 'mongoose';
+import type { AgentOutput } from '../agents/base/AgentBase';
+import type { CoordinatedOutput, CoordinatedTask, WorkflowStep } from '../agents/coordinator/AgentCoordinator';
+
+export interface StoredStepResult {
+  stepId: string;
+  output: AgentOutput;
+  completedAt: Date;
+}
+
+export interface CoordinatedTaskDocument extends Document {
+  /** Coordinator task id, e.g. coord-1700000000000-abc123def */
+  _id: string;
+  type: CoordinatedTask['type'];
+  priority: TaskPriority;
+  input: Record<string, unknown>;
+  requiredAgents: string[];
+  workflow: WorkflowStep[];
+  status: TaskStatus;
+  stepResults: StoredStepResult[];
+  /** Step statuses by step id, stored when the task finishes */
+  stepStatuses: Record<string, TaskStatus>;
+  finalResult?: CoordinatedOutput;
+  /** Times the task has been started, including resumes after a restart */
+  attempts: number;
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+  /** Set when the task finishes; MongoDB removes the document after this time */
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stepResultSchema = new Schema<StoredStepResult>({
+  stepId: {
+    type: String,
+    required: true,
+  },
+  output: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  completedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+const coordinatedTaskSchema = new Schema<CoordinatedTaskDocument>({
+  _id: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ['ayurveda_research', 'compound_discovery', 'literature_review', 'cross_validation'],
+    required: true,
+  },
+  priority: {
+    type: String,
+    enum: Object.values(TaskPriority),
+    default: TaskPriority.MEDIUM,
+  },
+  input: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  requiredAgents: [{
+    type: String,
+  }],
+  workflow: {
+    type: Schema.Types.Mixed,
+    default: [],
+  },
+  status: {
+    type: String,
+    enum: Object.values(TaskStatus),
+    default: TaskStatus.PENDING,
+  },
+  stepResults: {
+    type: [stepResultSchema],
+    default: [],
+  },
+  stepStatuses: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  finalResult: {
+    type: Schema.Types.Mixed,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  completedAt: {
+    type: Date,
+  },
+  error: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret['id'] = ret['_id'];
+      delete ret['_id'];
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Indexes
+coordinatedTaskSchema.index({ status: 1, startedAt: 1 });
+coordinatedTaskSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const CoordinatedTaskModel = model<CoordinatedTaskDocument>('CoordinatedTask', coordinatedTaskSchema);
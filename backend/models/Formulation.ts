@@ -0,0 +1,146 @@
+import { VerificationStatus } from '@shared/types';
+import { Document, Schema, Types, model } from 'mongoose';
+
+export const DOSAGE_FORMS = [
+  'churna', 'kwatha', 'vati', 'gutika', 'avaleha', 'ghrita', 'taila', 'asava', 'arishta', 'bhasma', 'other',
+] as const;
+export type DosageForm = typeof DOSAGE_FORMS[number];
+
+export interface FormulationIngredient {
+  herb: Types.ObjectId;
+  /** Plant part used, e.g. fruit rind or rhizome */
+  part?: string;
+  /** Relative proportion; Triphala is 1:1:1 */
+  parts: number;
+}
+
+export interface FormulationDocument extends Document {
+  _id: Types.ObjectId;
+  name: {
+    sanskrit: string;
+    english?: string;
+    telugu?: string;
+  };
+  description?: string;
+  classicalSource: {
+    text: string;
+    chapter?: string;
+    verse?: string;
+  };
+  ingredients: FormulationIngredient[];
+  dosageForm: DosageForm;
+  dosage?: string;
+  /** Vehicles the formulation is taken with, e.g. warm water or honey */
+  anupana: string[];
+  therapeuticUses: string[];
+  contraindications: string[];
+  verificationStatus: VerificationStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ingredientSchema = new Schema<FormulationIngredient>({
+  herb: {
+    type: Schema.Types.ObjectId,
+    ref: 'Herb',
+    required: true,
+  },
+  part: {
+    type: String,
+    trim: true,
+  },
+  parts: {
+    type: Number,
+    required: true,
+    min: 0.001,
+  },
+}, { _id: false });
+
+const formulationSchema = new Schema<FormulationDocument>({
+  name: {
+    sanskrit: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    english: {
+      type: String,
+      trim: true,
+    },
+    telugu: {
+      type: String,
+      trim: true,
+    },
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 5000,
+  },
+  classicalSource: {
+    text: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    chapter: {
+      type: String,
+      trim: true,
+    },
+    verse: {
+      type: String,
+      trim: true,
+    },
+  },
+  ingredients: {
+    type: [ingredientSchema],
+    validate: {
+      validator: (ingredients: FormulationIngredient[]) => ingredients.length > 0,
+      message: 'A formulation needs at least one ingredient',
+    },
+  },
+  dosageForm: {
+    type: String,
+    enum: DOSAGE_FORMS,
+    required: true,
+  },
+  dosage: {
+    type: String,
+    trim: true,
+  },
+  anupana: [{
+    type: String,
+    trim: true,
+  }],
+  therapeuticUses: [{
+    type: String,
+    trim: true,
+  }],
+  contraindications: [{
+    type: String,
+    trim: true,
+  }],
+  verificationStatus: {
+    type: String,
+    enum: Object.values(VerificationStatus),
+    default: VerificationStatus.PENDING,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret['id'] = ret['_id'];
+      delete ret['_id'];
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+formulationSchema.index({ 'name.sanskrit': 'text', 'name.english': 'text', 'name.telugu': 'text' });
+formulationSchema.index({ 'ingredients.herb': 1 });
+formulationSchema.index({ dosageForm: 1 });
+formulationSchema.index({ therapeuticUses: 1 });
+formulationSchema.index({ createdAt: -1 });
+
+export const FormulationModel = model<FormulationDocument>('Formulation', formulationSchema);
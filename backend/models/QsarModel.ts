@@ -0,0 +1,175 @@
+import { Document, Schema, Types, model } from 'mongoose';
+import {
+  EstimatorParameters,
+  FEATURE_TYPES,
+  FeatureType,
+  Hyperparameters,
+  QSAR_ALGORITHMS,
+  QsarAlgorithm,
+  QsarTask,
+  StoredFeatureSpace,
+} from '../services/qsar';
+
+/** Numeric Compound fields a regression model can be trained on */
+export const QSAR_PROPERTY_PATHS = [
+  'properties.logP',
+  'properties.bioavailability',
+  'properties.halfLife',
+  'admet.absorption.humanIntestinal',
+  'admet.absorption.caco2Permeability',
+  'admet.distribution.volumeOfDistribution',
+  'admet.distribution.proteinBinding',
+  'admet.metabolism.clearance',
+  'admet.toxicity.acuteToxicity.oralLD50',
+] as const;
+
+/** Categorical and boolean Compound fields a classifier can be trained on */
+export const QSAR_CLASS_PATHS = [
+  'admet.toxicity.acuteToxicity.toxicityClass',
+  'admet.absorption.pgpSubstrate',
+  'admet.distribution.bbbPermeability',
+  'admet.toxicity.chronicToxicity.carcinogenicity',
+  'admet.toxicity.chronicToxicity.mutagenicity',
+] as const;
+
+/**
+ * What a model predicts: a stored property, a target affinity from bioactivity.targets, a stored
+ * class label, or membership of a therapeutic area
+ */
+export type QsarEndpoint =
+  | { kind: 'property'; path: typeof QSAR_PROPERTY_PATHS[number] }
+  | { kind: 'affinity'; target: string }
+  | { kind: 'class'; path: typeof QSAR_CLASS_PATHS[number] }
+  | { kind: 'therapeuticArea'; area: string };
+
+export interface QsarMetrics {
+  folds: number;
+  r2?: number;
+  rmse?: number;
+  mae?: number;
+  accuracy?: number;
+  balancedAccuracy?: number;
+}
+
+export interface QsarModelDocument extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  endpoint: QsarEndpoint;
+  task: QsarTask;
+  algorithm: QsarAlgorithm;
+  featureType: FeatureType;
+  hyperparameters: Hyperparameters;
+  seed: number;
+  /** Class labels in index order; empty for regression */
+  classes: string[];
+  trainingSet: {
+    /** SHA-256 over the sorted (SMILES, value) pairs */
+    hash: string;
+    size: number;
+    compoundIds: Types.ObjectId[];
+    /** Encoded feature vectors and targets, needed by kNN and the applicability domain */
+    features: Array<string | number[]>;
+    targets: number[];
+  };
+  featureSpace: StoredFeatureSpace;
+  parameters: EstimatorParameters;
+  metrics: QsarMetrics;
+  applicabilityDomain: {
+    method: 'knn_distance';
+    k: number;
+    threshold: number;
+  };
+  status: 'active' | 'retired';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const qsarModelSchema = new Schema<QsarModelDocument>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  endpoint: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  task: {
+    type: String,
+    enum: ['regression', 'classification'],
+    required: true,
+  },
+  algorithm: {
+    type: String,
+    enum: QSAR_ALGORITHMS,
+    required: true,
+  },
+  featureType: {
+    type: String,
+    enum: FEATURE_TYPES,
+    required: true,
+  },
+  hyperparameters: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  seed: {
+    type: Number,
+    required: true,
+  },
+  classes: [String],
+  trainingSet: {
+    hash: { type: String, required: true },
+    size: { type: Number, required: true, min: 1 },
+    compoundIds: [{ type: Schema.Types.ObjectId, ref: 'Compound' }],
+    features: { type: [Schema.Types.Mixed], select: false },
+    targets: { type: [Number], select: false },
+  },
+  featureSpace: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  parameters: {
+    type: Schema.Types.Mixed,
+    required: true,
+    select: false,
+  },
+  metrics: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  applicabilityDomain: {
+    method: { type: String, enum: ['knn_distance'], default: 'knn_distance' },
+    k: { type: Number, required: true },
+    threshold: { type: Number, required: true },
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'],
+    default: 'active',
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret['id'] = ret['_id'];
+      delete ret['_id'];
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+qsarModelSchema.index({ name: 1 }, { unique: true });
+qsarModelSchema.index({ status: 1 });
+qsarModelSchema.index({ 'trainingSet.hash': 1 });
+
+export const QsarModel = model<QsarModelDocument>('QsarModel', qsarModelSchema);
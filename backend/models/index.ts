@@ -2,7 +2,13 @@ export { AgentModel } from './Agent';
 export type { AgentDocument } from './Agent';
 export { HerbModel } from './Herb';
 export type { HerbDocument } from './Herb';
+export { FormulationModel, DOSAGE_FORMS } from './Formulation';
+export type { DosageForm, FormulationDocument, FormulationIngredient } from './Formulation';
 export { UserModel } from './User';
 export type { UserDocument } from './User';
 export { default as Compound, ICompound } from './Compound';
 export { default as Literature, ILiterature } from './Literature';
+export { QsarModel } from './QsarModel';
+export type { QsarModelDocument } from './QsarModel';
+export { CoordinatedTaskModel } from './CoordinatedTask';
+export type { CoordinatedTaskDocument, StoredStepResult } from './CoordinatedTask';
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { requireAdminKey } from '../middleware/adminAuth';
+import { compoundDeduplicator, DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import { buildApiResponse } from '../utils/response';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireAdminKey);
+
+/**
+ * GET /api/v1/admin/compounds/duplicates
+ * Report compounds that share a canonical structure
+ */
+router.get('/compounds/duplicates', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const groups = await compoundDeduplicator.findDuplicates();
+
+    logger.info(`Duplicate scan found ${groups.length} structures with more than one record`);
+
+    return res.json(buildApiResponse({
+      data: groups
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * POST /api/v1/admin/compounds/duplicates/merge
+ * Merge duplicate compounds into their primary record ({ structureKeys?: string[] } limits the merge)
+ */
+router.post('/compounds/duplicates/merge', asyncHandler(async (req: Request, res: Response) => {
+  const { structureKeys } = req.body || {};
+
+  if (structureKeys !== undefined
+    && (!Array.isArray(structureKeys) || structureKeys.some(key => typeof key !== 'string'))) {
+    return res.status(400).json(buildApiResponse({
+      error: 'structureKeys must be an array of strings',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const results = await compoundDeduplicator.mergeDuplicates(structureKeys);
+    const merged = results.reduce((total, result) => total + result.mergedIds.length, 0);
+
+    logger.info(`Merged ${merged} duplicate compounds across ${results.length} structures`);
+
+    return res.json(buildApiResponse({
+      data: results
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+export default router;
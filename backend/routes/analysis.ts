@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import Compound from '../models/Compound';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { SmilesParseError, parseSmiles } from '../services/chemistry';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import {
+  ENRICHMENT_CATEGORIES,
+  EnrichmentCategory,
+  EnrichmentError,
+  EnrichmentRequest,
+  enrichmentAnalyzer,
+} from '../services/EnrichmentAnalysis';
+import { targetPredictor } from '../services/TargetPrediction';
+import { buildApiResponse } from '../utils/response';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+/**
+ * Validated enrichment request from a request body, or an error message
+ */
+function parseEnrichmentRequest(body: Record<string, unknown>): EnrichmentRequest | string {
+  const { herbId, herbIds, compoundIds, formulationId, categories, minOverlap, fdr } = body;
+  const request: EnrichmentRequest = {};
+
+  if (herbId !== undefined) {
+    if (typeof herbId !== 'string') return 'herbId must be a string';
+    request.herbIds = [herbId];
+  }
+  if (herbIds !== undefined) {
+    if (!isStringList(herbIds)) return 'herbIds must be an array of strings';
+    request.herbIds = [...(request.herbIds ?? []), ...herbIds];
+  }
+  if (compoundIds !== undefined) {
+    if (!isStringList(compoundIds)) return 'compoundIds must be an array of strings';
+    request.compoundIds = compoundIds;
+  }
+  if (formulationId !== undefined) {
+    if (typeof formulationId !== 'string') return 'formulationId must be a string';
+    request.formulationId = formulationId;
+  }
+  if (!request.herbIds && !request.compoundIds && !request.formulationId) {
+    return 'Provide herbId, herbIds, compoundIds or formulationId';
+  }
+
+  if (categories !== undefined) {
+    if (!isStringList(categories) || !categories.every(category => ENRICHMENT_CATEGORIES.includes(category as EnrichmentCategory))) {
+      return `categories must be a subset of: ${ENRICHMENT_CATEGORIES.join(', ')}`;
+    }
+    request.categories = categories as EnrichmentCategory[];
+  }
+  if (minOverlap !== undefined) {
+    if (!Number.isInteger(minOverlap) || (minOverlap as number) < 1) return 'minOverlap must be a positive integer';
+    request.minOverlap = minOverlap as number;
+  }
+  if (fdr !== undefined) {
+    if (typeof fdr !== 'number' || fdr <= 0 || fdr > 1) return 'fdr must be a number in (0, 1]';
+    request.fdr = fdr;
+  }
+  return request;
+}
+
+/**
+ * POST /api/v1/analysis/enrichment
+ * Hypergeometric pathway, therapeutic area and target enrichment of a herb, formulation or compound set
+ */
+router.post('/enrichment', asyncHandler(async (req: Request, res: Response) => {
+  const request = parseEnrichmentRequest(req.body || {});
+  if (typeof request === 'string') {
+    return res.status(400).json(buildApiResponse({
+      error: request,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const result = await enrichmentAnalyzer.analyze(request);
+
+    logger.info(`Enrichment over ${result.query.compounds} compounds: ${result.terms.filter(term => term.significant).length}/${result.terms.length} terms significant`);
+
+    return res.json(buildApiResponse({
+      data: result
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof EnrichmentError || error instanceof DatabaseUnavailableError) {
+      return res.status(error instanceof EnrichmentError ? 400 : 503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * POST /api/v1/analysis/targets
+ * Similarity-ensemble target prediction for { smiles } or a stored { compoundId }
+ */
+router.post('/targets', asyncHandler(async (req: Request, res: Response) => {
+  const { smiles, compoundId, threshold, maxEValue } = req.body || {};
+
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold <= 0 || threshold >= 1)) {
+    return res.status(400).json(buildApiResponse({
+      error: 'threshold must be a number in (0, 1)',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (maxEValue !== undefined && (typeof maxEValue !== 'number' || maxEValue <= 0)) {
+    return res.status(400).json(buildApiResponse({
+      error: 'maxEValue must be a positive number',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  let structure: string;
+  if (typeof smiles === 'string' && smiles.trim()) {
+    structure = smiles.trim();
+  } else if (typeof compoundId === 'string' && Types.ObjectId.isValid(compoundId)) {
+    const compound = await Compound.findById(compoundId).select('smiles').lean();
+    if (!compound) {
+      return res.status(404).json(buildApiResponse({
+        error: 'Compound not found',
+        data: null
+      }, (req as any).requestId));
+    }
+    structure = compound.smiles;
+  } else {
+    return res.status(400).json(buildApiResponse({
+      error: 'smiles or a valid compoundId is required',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const result = await targetPredictor.predict(parseSmiles(structure), {
+      ...(threshold !== undefined && { threshold }),
+      ...(maxEValue !== undefined && { maxEValue }),
+      ...(typeof compoundId === 'string' && !smiles && { excludeIds: [compoundId] }),
+    });
+
+    return res.json(buildApiResponse({
+      data: result
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof SmilesParseError || error instanceof DatabaseUnavailableError) {
+      return res.status(error instanceof SmilesParseError ? 400 : 503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+export default router;
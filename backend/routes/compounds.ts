@@ -1,11 +1,35 @@
-import { Router, Request, Response } from 'express';
-import Compound from '../models/Compound';
+import { Router, Request, Response, text } from 'express';
+import { Types } from 'mongoose';
+import Compound, { COMPOUND_STATUSES } from '../models/Compound';
 import { asyncHandler } from '../middleware/asyncHandler';
+import { requireAdminKey } from '../middleware/adminAuth';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import {
+  EXCHANGE_FORMATS,
+  ImportFormatError,
+  ImportReport,
+  MAX_3D_EXPORT,
+  MAX_EXPORT_RECORDS,
+  compoundExchange
+} from '../services/CompoundExchange';
+import { libraryClustering } from '../services/LibraryClustering';
+import { matchedPairAnalysis } from '../services/MatchedPairAnalysis';
+import { scaffoldAnalysis } from '../services/ScaffoldAnalysis';
+import { similaritySearch } from '../services/SimilaritySearch';
+import { substructureSearch, UnknownFeatureError } from '../services/SubstructureSearch';
+import { ConformerError, SmartsParseError, SmilesParseError } from '../services/chemistry';
+import { STRUCTURE_FORMATS, StructureFile, structureExport } from '../services/StructureExport';
 import { buildApiResponse } from '../utils/response';
 import logger from '../utils/logger';
 
 const router = Router();
 
+// Structure files are posted as-is rather than wrapped in JSON
+const structureFileBody = text({
+  type: ['chemical/x-mdl-sdfile', 'chemical/x-mol2', 'text/csv', 'text/plain'],
+  limit: '50mb'
+});
+
 /**
  * GET /api/v1/compounds
  * Get all compounds with optional filtering and pagination
@@ -63,6 +87,608 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+/**
+ * POST /api/v1/compounds/substructure
+ * SMARTS and pharmacophore-feature search ({ smarts, features, match: any|all, limit })
+ */
+router.post('/substructure', asyncHandler(async (req: Request, res: Response) => {
+  const { smarts, features, match = 'any', limit = 50 } = req.body || {};
+
+  const smartsList: unknown[] = smarts === undefined ? [] : Array.isArray(smarts) ? smarts : [smarts];
+  const featureList: unknown[] = features === undefined ? [] : Array.isArray(features) ? features : [features];
+
+  if ([...smartsList, ...featureList].some(item => typeof item !== 'string' || item.trim() === '')) {
+    return res.status(400).json(buildApiResponse({
+      error: 'smarts and features must be non-empty strings',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (smartsList.length + featureList.length === 0) {
+    return res.status(400).json(buildApiResponse({
+      error: 'At least one SMARTS pattern or feature is required',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (match !== 'any' && match !== 'all') {
+    return res.status(400).json(buildApiResponse({
+      error: 'match must be any or all',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const limitNum = parseInt(String(limit), 10);
+  if (isNaN(limitNum) || limitNum < 1 || limitNum > 500) {
+    return res.status(400).json(buildApiResponse({
+      error: 'limit must be between 1 and 500',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  let hits;
+  try {
+    hits = await substructureSearch.search({
+      smarts: smartsList as string[],
+      features: featureList as string[],
+      match,
+      limit: limitNum
+    });
+  } catch (error) {
+    if (error instanceof SmartsParseError || error instanceof UnknownFeatureError) {
+      return res.status(400).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+
+  logger.info(`Substructure search (${match}) matched ${hits.length} compounds`);
+
+  return res.json(buildApiResponse({
+    data: hits.map(hit => ({
+      compound: {
+        _id: hit.compound._id,
+        name: hit.compound.name,
+        smiles: hit.compound.smiles,
+        molecularFormula: hit.compound.molecularFormula,
+        molecularWeight: hit.compound.molecularWeight,
+        source: hit.compound.source
+      },
+      matched: hit.matched,
+      atoms: hit.atoms
+    }))
+  }, (req as any).requestId));
+}));
+
+/**
+ * POST /api/v1/compounds/import
+ * Bulk import from SDF, MOL2 or CSV with a per-record report. Send JSON
+ * ({ format, content, mapping, defaults, dryRun, smilesColumn }) or the raw file with
+ * ?format, ?dryRun and JSON-encoded ?mapping and ?defaults
+ */
+router.post('/import', requireAdminKey, structureFileBody, asyncHandler(async (req: Request, res: Response) => {
+  const raw = typeof req.body === 'string';
+  const options = raw ? req.query : (req.body || {});
+  const content = raw ? req.body : options.content;
+  const { format, smilesColumn } = options;
+
+  if (!compoundExchange.isFormat(format)) {
+    return res.status(400).json(buildApiResponse({
+      error: `format must be one of ${EXCHANGE_FORMATS.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (typeof content !== 'string' || content.trim() === '') {
+    return res.status(400).json(buildApiResponse({
+      error: 'File content is required',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  let mapping: unknown;
+  let defaults: unknown;
+  try {
+    mapping = raw && typeof options.mapping === 'string' ? JSON.parse(options.mapping) : options.mapping;
+    defaults = raw && typeof options.defaults === 'string' ? JSON.parse(options.defaults) : options.defaults;
+  } catch {
+    return res.status(400).json(buildApiResponse({
+      error: 'mapping and defaults must be JSON objects',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const isObject = (value: unknown): boolean => value === undefined || (typeof value === 'object' && value !== null && !Array.isArray(value));
+  if (!isObject(mapping) || !isObject(defaults) || (smilesColumn !== undefined && typeof smilesColumn !== 'string')) {
+    return res.status(400).json(buildApiResponse({
+      error: 'mapping and defaults must be objects and smilesColumn a string',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  let report: ImportReport;
+  try {
+    report = await compoundExchange.import(content, {
+      format,
+      dryRun: options.dryRun === true || options.dryRun === 'true',
+      ...(mapping !== undefined && { mapping: mapping as Record<string, string | null> }),
+      ...(defaults !== undefined && { defaults: defaults as Record<string, unknown> }),
+      ...(smilesColumn !== undefined && { smilesColumn })
+    });
+  } catch (error) {
+    if (error instanceof ImportFormatError || error instanceof DatabaseUnavailableError) {
+      return res.status(error instanceof ImportFormatError ? 400 : 503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+
+  return res.json(buildApiResponse({
+    data: report
+  }, (req as any).requestId));
+}));
+
+/**
+ * GET /api/v1/compounds/export
+ * Stream compounds matching ?search as a file (?format=sdf|mol2|csv, ?limit, ?coordinates=2d|3d);
+ * MOL2 has no wedge bonds, so it keeps stereochemistry only with 3D coordinates
+ */
+router.get('/export', asyncHandler(async (req: Request, res: Response) => {
+  const { format = 'sdf', search, limit, coordinates = '2d' } = req.query;
+
+  if (!compoundExchange.isFormat(format)) {
+    return res.status(400).json(buildApiResponse({
+      error: `format must be one of ${EXCHANGE_FORMATS.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (coordinates !== '2d' && coordinates !== '3d') {
+    return res.status(400).json(buildApiResponse({
+      error: 'coordinates must be 2d or 3d',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const maxLimit = coordinates === '3d' ? MAX_3D_EXPORT : MAX_EXPORT_RECORDS;
+  const limitNum = limit === undefined ? maxLimit : parseInt(limit as string, 10);
+  if (isNaN(limitNum) || limitNum < 1 || limitNum > maxLimit) {
+    return res.status(400).json(buildApiResponse({
+      error: `limit must be between 1 and ${maxLimit}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const chunks = compoundExchange.export({
+    format,
+    limit: limitNum,
+    coordinates,
+    ...(typeof search === 'string' && search && { search })
+  });
+
+  // The first chunk surfaces connection errors before the response starts
+  let next: IteratorResult<string>;
+  try {
+    next = await chunks.next();
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+
+  res.set('Content-Type', compoundExchange.contentType(format));
+  res.set('Content-Disposition', `attachment; filename="compounds.${format}"`);
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  try {
+    while (!next.done && !closed) {
+      if (!res.write(next.value)) {
+        await new Promise(resolve => {
+          res.once('drain', resolve);
+          res.once('close', resolve);
+        });
+      }
+      next = await chunks.next();
+    }
+  } catch (error) {
+    // Headers are sent; all that is left is to cut the download short
+    logger.error('Compound export failed mid-stream:', error);
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  } finally {
+    await chunks.return(undefined);
+  }
+  return res.end();
+}));
+
+/**
+ * GET /api/v1/compounds/scaffolds
+ * Library grouped by chemotype with per-herb counts (?type=murcko|generic, ?minCount, ?limit)
+ */
+router.get('/scaffolds', asyncHandler(async (req: Request, res: Response) => {
+  const { type = 'murcko', minCount = 1, limit = 50 } = req.query;
+
+  if (type !== 'murcko' && type !== 'generic') {
+    return res.status(400).json(buildApiResponse({
+      error: 'type must be murcko or generic',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const minCountNum = parseInt(minCount as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+
+  if (isNaN(minCountNum) || minCountNum < 1) {
+    return res.status(400).json(buildApiResponse({
+      error: 'minCount must be a positive integer',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (isNaN(limitNum) || limitNum < 1 || limitNum > 500) {
+    return res.status(400).json(buildApiResponse({
+      error: 'limit must be between 1 and 500',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const summary = await scaffoldAnalysis.groupByScaffold({ type, minCount: minCountNum, limit: limitNum });
+
+    logger.info(`Scaffold analysis (${type}): ${summary.scaffoldCount} scaffolds across ${summary.totalCompounds} compounds`);
+
+    return res.json(buildApiResponse({
+      data: summary
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * POST /api/v1/compounds/clusters
+ * Start a background Butina clustering and MaxMin diversity run over a filtered subset
+ * ({ filter: { search, ids, plantSource, therapeuticArea, chemicalClass, status }, fingerprint,
+ * distanceCutoff, reassignSingletons, pickCount, seedIds }); poll the returned job for the result
+ */
+router.post('/clusters', asyncHandler(async (req: Request, res: Response) => {
+  const {
+    filter = {},
+    fingerprint = 'morgan',
+    distanceCutoff = 0.4,
+    reassignSingletons = false,
+    pickCount = 20,
+    seedIds = []
+  } = req.body || {};
+
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    return res.status(400).json(buildApiResponse({
+      error: 'filter must be an object',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const textFields = ['search', 'plantSource', 'therapeuticArea', 'chemicalClass'] as const;
+  if (textFields.some(field => filter[field] !== undefined && typeof filter[field] !== 'string')) {
+    return res.status(400).json(buildApiResponse({
+      error: `${textFields.join(', ')} must be strings`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (filter.status !== undefined && !COMPOUND_STATUSES.includes(filter.status)) {
+    return res.status(400).json(buildApiResponse({
+      error: `status must be one of ${COMPOUND_STATUSES.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  for (const [name, ids] of [['filter.ids', filter.ids ?? []], ['seedIds', seedIds]] as const) {
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !Types.ObjectId.isValid(id))) {
+      return res.status(400).json(buildApiResponse({
+        error: `${name} must be an array of compound ids`,
+        data: null
+      }, (req as any).requestId));
+    }
+  }
+
+  if (fingerprint !== 'morgan' && fingerprint !== 'maccs') {
+    return res.status(400).json(buildApiResponse({
+      error: 'fingerprint must be morgan or maccs',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (typeof distanceCutoff !== 'number' || distanceCutoff <= 0 || distanceCutoff >= 1) {
+    return res.status(400).json(buildApiResponse({
+      error: 'distanceCutoff must be a number between 0 and 1',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (!Number.isInteger(pickCount) || pickCount < 0 || pickCount > 500) {
+    return res.status(400).json(buildApiResponse({
+      error: 'pickCount must be an integer between 0 and 500',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (typeof reassignSingletons !== 'boolean') {
+    return res.status(400).json(buildApiResponse({
+      error: 'reassignSingletons must be a boolean',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const job = libraryClustering.submit({
+      filter: {
+        ...(filter.search && { search: filter.search }),
+        ...(filter.ids && { ids: filter.ids }),
+        ...(filter.plantSource && { plantSource: filter.plantSource }),
+        ...(filter.therapeuticArea && { therapeuticArea: filter.therapeuticArea }),
+        ...(filter.chemicalClass && { chemicalClass: filter.chemicalClass }),
+        ...(filter.status && { status: filter.status })
+      },
+      fingerprint,
+      distanceCutoff,
+      reassignSingletons,
+      pickCount,
+      seedIds
+    });
+
+    return res.status(202).json(buildApiResponse({
+      data: {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `${req.baseUrl}/clusters/${job.id}`
+      }
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * GET /api/v1/compounds/clusters/:jobId
+ * Status and progress of a clustering job, with clusters, diverse picks and statistics once completed
+ */
+router.get('/clusters/:jobId', asyncHandler(async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const job = libraryClustering.getJob(jobId!);
+
+  if (!job) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Clustering job not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  return res.json(buildApiResponse({
+    data: job
+  }, (req as any).requestId));
+}));
+
+/**
+ * GET /api/v1/compounds/matched-pairs
+ * Matched molecular pair transformations with logP, affinity and toxicity-class delta statistics
+ * (?minPairs, ?limit, ?cuts=1|2)
+ */
+router.get('/matched-pairs', asyncHandler(async (req: Request, res: Response) => {
+  const { minPairs = 1, limit = 50, cuts } = req.query;
+
+  const minPairsNum = parseInt(minPairs as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+
+  if (isNaN(minPairsNum) || minPairsNum < 1) {
+    return res.status(400).json(buildApiResponse({
+      error: 'minPairs must be a positive integer',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (isNaN(limitNum) || limitNum < 1 || limitNum > 500) {
+    return res.status(400).json(buildApiResponse({
+      error: 'limit must be between 1 and 500',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (cuts !== undefined && cuts !== '1' && cuts !== '2') {
+    return res.status(400).json(buildApiResponse({
+      error: 'cuts must be 1 or 2',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const summary = await matchedPairAnalysis.transformations({
+      minPairs: minPairsNum,
+      limit: limitNum,
+      ...(cuts !== undefined && { cuts: cuts === '1' ? 1 : 2 })
+    });
+
+    logger.info(`Matched pair analysis: ${summary.pairCount} pairs, ${summary.transformationCount} transformations across ${summary.compoundCount} compounds`);
+
+    return res.json(buildApiResponse({
+      data: summary
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * GET /api/v1/compounds/:id/similar
+ * Top-k structural analogues by Tanimoto similarity (?limit, ?threshold, ?fingerprint=morgan|maccs)
+ */
+router.get('/:id/similar', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { limit = 10, threshold = 0.5, fingerprint = 'morgan' } = req.query;
+
+  const limitNum = parseInt(limit as string, 10);
+  const thresholdNum = parseFloat(threshold as string);
+
+  if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+    return res.status(400).json(buildApiResponse({
+      error: 'limit must be between 1 and 100',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (isNaN(thresholdNum) || thresholdNum < 0 || thresholdNum > 1) {
+    return res.status(400).json(buildApiResponse({
+      error: 'threshold must be between 0 and 1',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (fingerprint !== 'morgan' && fingerprint !== 'maccs') {
+    return res.status(400).json(buildApiResponse({
+      error: 'fingerprint must be morgan or maccs',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const hits = await similaritySearch.findSimilarToCompound(id!, {
+    limit: limitNum,
+    threshold: thresholdNum,
+    fingerprint
+  });
+
+  if (!hits) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Compound not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  logger.info(`Found ${hits.length} compounds similar to ${id} (${fingerprint}, threshold ${thresholdNum})`);
+
+  return res.json(buildApiResponse({
+    data: hits.map(hit => ({
+      compound: {
+        _id: hit.compound._id,
+        name: hit.compound.name,
+        smiles: hit.compound.smiles,
+        molecularFormula: hit.compound.molecularFormula,
+        molecularWeight: hit.compound.molecularWeight,
+        source: hit.compound.source
+      },
+      similarity: hit.similarity,
+      sharedFeatures: hit.sharedFeatures
+    }))
+  }, (req as any).requestId));
+}));
+
+/**
+ * GET /api/v1/compounds/:id/matched-pairs
+ * Matched molecular pairs of one compound, each written from this compound to its analogue with property deltas
+ */
+router.get('/:id/matched-pairs', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  let pairs;
+  try {
+    pairs = await matchedPairAnalysis.pairsForCompound(id!);
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+
+  if (!pairs) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Compound not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  logger.info(`Found ${pairs.length} matched pairs for compound ${id}`);
+
+  return res.json(buildApiResponse({
+    data: pairs
+  }, (req as any).requestId));
+}));
+
+/**
+ * GET /api/v1/compounds/:id/structure
+ * Download the structure as a 2D depiction or molfile, or as 3D conformers (?format=svg|mol|sdf|xyz)
+ */
+router.get('/:id/structure', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { format = 'svg' } = req.query;
+
+  if (!structureExport.isFormat(format)) {
+    return res.status(400).json(buildApiResponse({
+      error: `format must be one of ${STRUCTURE_FORMATS.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const compound = await Compound.findById(id).select('name smiles').lean();
+
+  if (!compound) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Compound not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  let file: StructureFile;
+  try {
+    file = await structureExport.export(compound.name, compound.smiles, format);
+  } catch (error) {
+    if (error instanceof ConformerError || error instanceof SmilesParseError) {
+      return res.status(422).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+
+  logger.info(`Exported ${format} structure of ${compound.name} (${id})`);
+
+  res.set('Content-Type', file.contentType);
+  res.set('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  return res.send(file.content);
+}));
+
 /**
  * GET /api/v1/compounds/:id
  * Get a specific compound by ID
@@ -81,7 +707,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 
   logger.info(`Retrieved compound: ${compound.name} (${id})`);
 
-  res.json(buildApiResponse({
+  return res.json(buildApiResponse({
     data: compound
   }, (req as any).requestId));
 }));
@@ -0,0 +1,251 @@
+import { Router, Request, Response } from 'express';
+import { Error as MongooseError, Types } from 'mongoose';
+import { FormulationModel } from '../models/Formulation';
+import { HerbModel } from '../models/Herb';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { requireAdminKey } from '../middleware/adminAuth';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import { formulationAnalyzer } from '../services/FormulationAnalysis';
+import { buildApiResponse } from '../utils/response';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const EDITABLE_FIELDS = [
+  'name', 'description', 'classicalSource', 'ingredients', 'dosageForm', 'dosage',
+  'anupana', 'therapeuticUses', 'contraindications', 'verificationStatus',
+] as const;
+
+function editableFields(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(EDITABLE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+}
+
+/**
+ * Error message when an ingredient list references herbs that do not exist, otherwise null
+ */
+async function checkIngredientHerbs(ingredients: unknown): Promise<string | null> {
+  if (ingredients === undefined) return null;
+  if (!Array.isArray(ingredients)) return 'ingredients must be an array';
+
+  const ids = ingredients.map(ingredient => String(ingredient?.herb ?? ''));
+  const invalid = ids.filter(id => !Types.ObjectId.isValid(id));
+  if (invalid.length > 0) return `Invalid herb ids: ${invalid.join(', ')}`;
+
+  const found = await HerbModel.find({ _id: { $in: ids } }).select('_id').lean();
+  const known = new Set(found.map(herb => herb._id.toString()));
+  const missing = [...new Set(ids.filter(id => !known.has(id)))];
+  return missing.length > 0 ? `Unknown herbs: ${missing.join(', ')}` : null;
+}
+
+/**
+ * GET /api/v1/formulations
+ * Get all formulations with optional filtering and pagination
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 10, search, dosageForm, herb } = req.query;
+
+  // Build query
+  const query: any = {};
+
+  if (search) {
+    query.$text = { $search: search as string };
+  }
+
+  if (dosageForm) {
+    query.dosageForm = { $in: Array.isArray(dosageForm) ? dosageForm : [dosageForm] };
+  }
+
+  if (herb && Types.ObjectId.isValid(herb as string)) {
+    query['ingredients.herb'] = herb;
+  }
+
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  // Execute query with pagination
+  const [formulations, total] = await Promise.all([
+    FormulationModel.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limitNum)
+      .populate('ingredients.herb', 'name.sanskrit name.english')
+      .lean(),
+    FormulationModel.countDocuments(query)
+  ]);
+
+  const pagination = {
+    currentPage: pageNum,
+    totalPages: Math.ceil(total / limitNum),
+    totalItems: total,
+    itemsPerPage: limitNum,
+    hasNext: pageNum < Math.ceil(total / limitNum),
+    hasPrev: pageNum > 1
+  };
+
+  logger.info(`Retrieved ${formulations.length} formulations (page ${pageNum}/${pagination.totalPages})`);
+
+  res.json(buildApiResponse({
+    data: formulations,
+    pagination
+  }, (req as any).requestId));
+}));
+
+/**
+ * GET /api/v1/formulations/:id/profile
+ * Combined rasa/virya/vipaka, dosha, compound and safety profile of a formulation
+ */
+router.get('/:id/profile', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const profile = await formulationAnalyzer.analyze(id!);
+
+    if (!profile) {
+      return res.status(404).json(buildApiResponse({
+        error: 'Formulation not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    logger.info(`Analyzed formulation ${id}: ${profile.ingredients.length} ingredients, ${profile.safetyFlags.length} safety flags`);
+
+    return res.json(buildApiResponse({
+      data: profile
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return res.status(503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * GET /api/v1/formulations/:id
+ * Get a specific formulation by ID
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const formulation = await FormulationModel.findById(id)
+    .populate('ingredients.herb', 'name properties')
+    .lean();
+
+  if (!formulation) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Formulation not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  logger.info(`Retrieved formulation: ${formulation.name.sanskrit} (${id})`);
+
+  return res.json(buildApiResponse({
+    data: formulation
+  }, (req as any).requestId));
+}));
+
+/**
+ * POST /api/v1/formulations
+ * Create a formulation
+ */
+router.post('/', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+  const fields = editableFields(req.body || {});
+
+  const herbError = await checkIngredientHerbs(fields['ingredients']);
+  if (herbError) {
+    return res.status(400).json(buildApiResponse({
+      error: herbError,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const formulation = await FormulationModel.create(fields);
+
+    logger.info(`Created formulation: ${formulation.name.sanskrit} (${formulation._id})`);
+
+    return res.status(201).json(buildApiResponse({
+      data: formulation
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof MongooseError.ValidationError) {
+      return res.status(400).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * PUT /api/v1/formulations/:id
+ * Update a formulation
+ */
+router.put('/:id', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const fields = editableFields(req.body || {});
+
+  const herbError = await checkIngredientHerbs(fields['ingredients']);
+  if (herbError) {
+    return res.status(400).json(buildApiResponse({
+      error: herbError,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const formulation = await FormulationModel.findByIdAndUpdate(id, fields, { new: true, runValidators: true });
+
+    if (!formulation) {
+      return res.status(404).json(buildApiResponse({
+        error: 'Formulation not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    logger.info(`Updated formulation: ${formulation.name.sanskrit} (${id})`);
+
+    return res.json(buildApiResponse({
+      data: formulation
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof MongooseError.ValidationError) {
+      return res.status(400).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * DELETE /api/v1/formulations/:id
+ * Delete a formulation
+ */
+router.delete('/:id', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const formulation = await FormulationModel.findByIdAndDelete(id);
+
+  if (!formulation) {
+    return res.status(404).json(buildApiResponse({
+      error: 'Formulation not found',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  logger.info(`Deleted formulation: ${formulation.name.sanskrit} (${id})`);
+
+  return res.json(buildApiResponse({
+    data: { id }
+  }, (req as any).requestId));
+}));
+
+export default router;
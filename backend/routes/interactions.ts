@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import { InteractionCheckError, MAX_CHECK_ITEMS, herbDrugInteractionChecker } from '../services/HerbDrugInteractions';
+import { buildApiResponse } from '../utils/response';
+
+const router = Router();
+
+const isNameList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+/**
+ * POST /api/v1/interactions/check
+ * Check herbs (Sanskrit, Telugu, English or botanical names) against conventional drugs
+ */
+router.post('/check', asyncHandler(async (req: Request, res: Response) => {
+  const { herbs, drugs } = req.body || {};
+
+  if (!isNameList(herbs) || !isNameList(drugs) || herbs.length === 0 || drugs.length === 0) {
+    return res.status(400).json(buildApiResponse({
+      error: 'herbs and drugs must be non-empty arrays of names',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (herbs.length > MAX_CHECK_ITEMS || drugs.length > MAX_CHECK_ITEMS) {
+    return res.status(400).json(buildApiResponse({
+      error: `At most ${MAX_CHECK_ITEMS} herbs and ${MAX_CHECK_ITEMS} drugs can be checked at once`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const result = await herbDrugInteractionChecker.check(herbs, drugs);
+
+    return res.json(buildApiResponse({
+      data: result
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof InteractionCheckError || error instanceof DatabaseUnavailableError) {
+      return res.status(error instanceof InteractionCheckError ? 400 : 503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import { MAX_FOCUS_DEPTH, NetworkScope, NetworkScopeError, networkPharmacology } from '../services/NetworkPharmacology';
+import {
+  NETWORK_EXPORT_FORMATS,
+  NetworkExportFormat,
+  exportContentType,
+  exportFileExtension,
+  toCytoscape,
+  toGraphML,
+} from '../services/network';
+import { buildApiResponse } from '../utils/response';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+/**
+ * Validated scope from a request body, or an error message
+ */
+function parseScope(body: Record<string, unknown>): NetworkScope | string {
+  const { herbIds, compoundIds, formulationId, focus, depth } = body;
+  const scope: NetworkScope = {};
+
+  for (const [field, value] of Object.entries({ herbIds, compoundIds, focus })) {
+    if (value === undefined) continue;
+    if (!isStringList(value)) return `${field} must be an array of strings`;
+    scope[field as 'herbIds' | 'compoundIds' | 'focus'] = value;
+  }
+  if (formulationId !== undefined) {
+    if (typeof formulationId !== 'string') return 'formulationId must be a string';
+    scope.formulationId = formulationId;
+  }
+  if (depth !== undefined) {
+    if (!Number.isInteger(depth) || (depth as number) < 0 || (depth as number) > MAX_FOCUS_DEPTH) {
+      return `depth must be an integer between 0 and ${MAX_FOCUS_DEPTH}`;
+    }
+    scope.depth = depth as number;
+  }
+  return scope;
+}
+
+/**
+ * POST /api/v1/network
+ * Build a herb → compound → target → pathway → disease network with hub metrics.
+ * `?format=cytoscape|graphml` downloads the network instead of the JSON report.
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { format } = req.query;
+
+  if (format !== undefined && !NETWORK_EXPORT_FORMATS.includes(format as NetworkExportFormat)) {
+    return res.status(400).json(buildApiResponse({
+      error: `format must be one of: ${NETWORK_EXPORT_FORMATS.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const scope = parseScope(req.body || {});
+  if (typeof scope === 'string') {
+    return res.status(400).json(buildApiResponse({
+      error: scope,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const network = await networkPharmacology.build(scope);
+
+    logger.info(`Built network "${network.name}": ${network.graph.nodeCount} nodes, ${network.graph.edgeCount} edges`);
+
+    if (format) {
+      const exportFormat = format as NetworkExportFormat;
+      const body = exportFormat === 'graphml'
+        ? toGraphML(network.graph, network.metrics, network.name)
+        : JSON.stringify(toCytoscape(network.graph, network.metrics, network.name));
+
+      res.set('Content-Type', exportContentType(exportFormat));
+      res.set('Content-Disposition', `attachment; filename="network.${exportFileExtension(exportFormat)}"`);
+      return res.send(body);
+    }
+
+    return res.json(buildApiResponse({
+      data: networkPharmacology.report(network)
+    }, (req as any).requestId));
+  } catch (error) {
+    if (error instanceof NetworkScopeError || error instanceof DatabaseUnavailableError) {
+      return res.status(error instanceof NetworkScopeError ? 400 : 503).json(buildApiResponse({
+        error: error.message,
+        data: null
+      }, (req as any).requestId));
+    }
+    throw error;
+  }
+}));
+
+export default router;
@@ -0,0 +1,289 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { requireAdminKey } from '../middleware/adminAuth';
+import Compound from '../models/Compound';
+import { QSAR_CLASS_PATHS, QSAR_PROPERTY_PATHS, QsarEndpoint } from '../models/QsarModel';
+import { DatabaseUnavailableError } from '../services/CompoundDeduplication';
+import { DuplicateModelNameError, QsarTrainingError, qsarRegistry } from '../services/QsarRegistry';
+import { Molecule, SmilesParseError, parseSmiles } from '../services/chemistry';
+import { DEFAULT_HYPERPARAMETERS, FEATURE_TYPES, QSAR_ALGORITHMS } from '../services/qsar';
+import { buildApiResponse } from '../utils/response';
+import logger from '../utils/logger';
+
+const router = Router();
+
+function parseEndpoint(value: unknown): QsarEndpoint | string {
+  if (typeof value !== 'object' || value === null) {
+    return 'endpoint must be an object with a kind';
+  }
+  const endpoint = value as Record<string, unknown>;
+  switch (endpoint['kind']) {
+    case 'property':
+      return QSAR_PROPERTY_PATHS.find(path => path === endpoint['path'])
+        ? { kind: 'property', path: endpoint['path'] as typeof QSAR_PROPERTY_PATHS[number] }
+        : `property endpoints need a path among ${QSAR_PROPERTY_PATHS.join(', ')}`;
+    case 'class':
+      return QSAR_CLASS_PATHS.find(path => path === endpoint['path'])
+        ? { kind: 'class', path: endpoint['path'] as typeof QSAR_CLASS_PATHS[number] }
+        : `class endpoints need a path among ${QSAR_CLASS_PATHS.join(', ')}`;
+    case 'affinity':
+      return typeof endpoint['target'] === 'string' && endpoint['target'].trim()
+        ? { kind: 'affinity', target: endpoint['target'].trim() }
+        : 'affinity endpoints need a target name';
+    case 'therapeuticArea':
+      return typeof endpoint['area'] === 'string' && endpoint['area'].trim()
+        ? { kind: 'therapeuticArea', area: endpoint['area'].trim() }
+        : 'therapeuticArea endpoints need an area';
+    default:
+      return 'endpoint.kind must be one of property, affinity, class, therapeuticArea';
+  }
+}
+
+/**
+ * Structure to predict for, from { smiles } or { compoundId }; a string is a client error
+ */
+async function resolveMolecule(body: Record<string, unknown>): Promise<Molecule | string | null> {
+  const { smiles, compoundId } = body;
+
+  try {
+    if (typeof smiles === 'string' && smiles.trim()) {
+      return parseSmiles(smiles.trim());
+    }
+
+    if (typeof compoundId === 'string' && Types.ObjectId.isValid(compoundId)) {
+      const compound = await Compound.findById(compoundId).select('smiles').lean();
+      return compound ? parseSmiles(compound.smiles) : null;
+    }
+  } catch (error) {
+    if (error instanceof SmilesParseError) return error.message;
+    throw error;
+  }
+
+  return 'smiles or a valid compoundId is required';
+}
+
+function sendQsarError(req: Request, res: Response, error: unknown): Response | void {
+  const status = error instanceof QsarTrainingError ? 400
+    : error instanceof DuplicateModelNameError ? 409
+      : error instanceof DatabaseUnavailableError ? 503
+        : null;
+  if (status === null || !(error instanceof Error)) throw error;
+
+  return res.status(status).json(buildApiResponse({
+    error: error.message,
+    data: null
+  }, (req as any).requestId));
+}
+
+/**
+ * GET /api/v1/qsar/models
+ * List registered QSAR models (?includeRetired=true also lists retired ones)
+ */
+router.get('/models', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const models = await qsarRegistry.list(req.query['includeRetired'] === 'true');
+
+    res.json(buildApiResponse({
+      data: models
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+/**
+ * POST /api/v1/qsar/models
+ * Train and register a model on the stored compounds
+ */
+router.post('/models', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+  const {
+    name,
+    description,
+    endpoint,
+    algorithm,
+    featureType = 'descriptors',
+    hyperparameters = {},
+    folds = 5,
+    seed = 42
+  } = req.body || {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json(buildApiResponse({
+      error: 'name is required',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const parsedEndpoint = parseEndpoint(endpoint);
+  if (typeof parsedEndpoint === 'string') {
+    return res.status(400).json(buildApiResponse({
+      error: parsedEndpoint,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (!QSAR_ALGORITHMS.includes(algorithm)) {
+    return res.status(400).json(buildApiResponse({
+      error: `algorithm must be one of ${QSAR_ALGORITHMS.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (!FEATURE_TYPES.includes(featureType)) {
+    return res.status(400).json(buildApiResponse({
+      error: `featureType must be one of ${FEATURE_TYPES.join(', ')}`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  const invalidHyperparameter = typeof hyperparameters !== 'object' || hyperparameters === null
+    ? 'hyperparameters'
+    : Object.entries(hyperparameters).find(([key, value]) =>
+      !(key in DEFAULT_HYPERPARAMETERS) || typeof value !== 'number' || !(value > 0))?.[0];
+  if (invalidHyperparameter !== undefined) {
+    return res.status(400).json(buildApiResponse({
+      error: `hyperparameters must map ${Object.keys(DEFAULT_HYPERPARAMETERS).join(', ')} to positive numbers`,
+      data: null
+    }, (req as any).requestId));
+  }
+
+  if (!Number.isInteger(folds) || folds < 2 || folds > 10 || !Number.isInteger(seed)) {
+    return res.status(400).json(buildApiResponse({
+      error: 'folds must be an integer between 2 and 10 and seed an integer',
+      data: null
+    }, (req as any).requestId));
+  }
+
+  try {
+    const model = await qsarRegistry.train({
+      name: name.trim(),
+      ...(typeof description === 'string' && { description }),
+      endpoint: parsedEndpoint,
+      algorithm,
+      featureType,
+      hyperparameters,
+      folds,
+      seed
+    });
+
+    res.status(201).json(buildApiResponse({
+      data: model
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+/**
+ * GET /api/v1/qsar/models/:id
+ * Get a model with its training-set hash, metrics and applicability domain
+ */
+router.get('/models/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const model = await qsarRegistry.get(id!);
+
+    if (!model) {
+      return res.status(404).json(buildApiResponse({
+        error: 'QSAR model not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    res.json(buildApiResponse({
+      data: model
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+/**
+ * DELETE /api/v1/qsar/models/:id
+ * Retire a model so it no longer serves predictions
+ */
+router.delete('/models/:id', requireAdminKey, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const model = await qsarRegistry.retire(id!);
+
+    if (!model) {
+      return res.status(404).json(buildApiResponse({
+        error: 'QSAR model not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    logger.info(`Retired QSAR model "${model.name}" (${id})`);
+
+    res.json(buildApiResponse({
+      data: model
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+/**
+ * POST /api/v1/qsar/models/:id/predict
+ * Predict with one model ({ smiles } or { compoundId })
+ */
+router.post('/models/:id/predict', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const molecule = await resolveMolecule(req.body || {});
+
+    if (typeof molecule === 'string' || molecule === null) {
+      return res.status(molecule === null ? 404 : 400).json(buildApiResponse({
+        error: molecule ?? 'Compound not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    const prediction = await qsarRegistry.predict(id!, molecule);
+
+    if (!prediction) {
+      return res.status(404).json(buildApiResponse({
+        error: 'Active QSAR model not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    res.json(buildApiResponse({
+      data: prediction
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+/**
+ * POST /api/v1/qsar/predict
+ * Predict with every active model ({ smiles } or { compoundId })
+ */
+router.post('/predict', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const molecule = await resolveMolecule(req.body || {});
+
+    if (typeof molecule === 'string' || molecule === null) {
+      return res.status(molecule === null ? 404 : 400).json(buildApiResponse({
+        error: molecule ?? 'Compound not found',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    const predictions = await qsarRegistry.predictAll(molecule);
+
+    res.json(buildApiResponse({
+      data: predictions
+    }, (req as any).requestId));
+  } catch (error) {
+    return sendQsarError(req, res, error);
+  }
+}));
+
+export default router;
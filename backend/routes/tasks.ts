@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { TaskStatus } from '@shared/types';
+import { AgentCoordinator } from '../agents';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { buildApiResponse } from '../utils/response';
+
+/**
+ * Routes for the coordinated tasks of the server's agent coordinator
+ */
+export function createTaskRoutes(coordinator: AgentCoordinator): Router {
+  const router = Router();
+
+  /**
+   * DELETE /api/v1/tasks/:id
+   * Cancel a queued or running coordinated task
+   */
+  router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const cancelled = await coordinator.cancelTask(id!);
+
+    if (!cancelled) {
+      return res.status(404).json(buildApiResponse({
+        error: 'No queued or running task with this id',
+        data: null
+      }, (req as any).requestId));
+    }
+
+    return res.json(buildApiResponse({
+      data: { id, status: TaskStatus.CANCELLED }
+    }, (req as any).requestId));
+  }));
+
+  return router;
+}
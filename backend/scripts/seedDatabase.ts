@@ -295,104 +295,6 @@ const seedCompounds = [
       publications: 15000,
       evidenceLevel: 'phase_3'
     }
-  },
-  
-  {
-    name: 'Withanoside IV',
-    smiles: 'C[C@H]1CC[C@H]2[C@@H]3CC[C@H]4C[C@@H](CC[C@]4(C)[C@H]3CC[C@]2(C)[C@@H]1O)O[C@H]5O[C@H](CO)[C@@H](O)[C@H](O)[C@H]5O',
-    inchi: 'InChI=1S/C33H54O9/c1-18-5-10-23-31(2)12-8-25(37)32(3)24(7-11-28(31)19(18)17-35)20-14-21(36)16-30(20,4)29-15-22(38)9-6-33(29,23)42-26-13-27(39)41-40/h18-29,35-40H,5-17H2,1-4H3/t18-,19+,20-,21+,22-,23+,24-,25+,26+,27-,28+,29-,30+,31+,32-,33+/m0/s1',
-    inchiKey: 'UFBJCMKXNXGKGG-NWDGAFQWSA-N',
-    molecularFormula: 'C33H54O9',
-    molecularWeight: 594.78,
-    exactMass: 594.7811,
-    iupacName: '(3β,6α,23R)-23-hydroxy-ergost-5-en-3-yl β-D-glucopyranoside',
-    commonNames: ['Withanoside IV', 'Ashwagandha glycoside'],
-    source: {
-      plantSource: 'Withania somnifera',
-      synthetic: false,
-      traditionalName: {
-        sanskrit: 'Ashwagandha saponin',
-        telugu: 'Aswagandha glycoside'
-      }
-    },
-    properties: {
-      solubility: {
-        water: 'moderately_soluble',
-        ethanol: 'highly_soluble'
-      },
-      stability: {
-        light: 'stable',
-        heat: 'stable',
-        air: 'stable',
-        ph: 'stable'
-      },
-      logP: 2.8,
-      bioavailability: 72,
-      halfLife: 12.3
-    },
-    bioactivity: {
-      targets: [
-        { name: 'GABA receptors', type: 'receptor', affinity: 82 },
-        { name: 'Cortisol receptors', type: 'receptor', affinity: 76 }
-      ],
-      mechanisms: ['Adaptogenic', 'Anxiolytic', 'Neuroprotective'],
-      therapeuticAreas: ['Stress', 'Anxiety', 'Cognitive enhancement', 'Sleep disorders']
-    },
-    ayurvedicContext: {
-      associatedHerb: 'Withania somnifera',
-      doshaEffect: ['vata', 'kapha'],
-      traditionalUses: ['Rasayana', 'Medhya rasayana', 'Balya']
-    },
-    research: {
-      publications: 850,
-      evidenceLevel: 'phase_2'
-    }
-  },
-  
-  {
-    name: 'Bacoside A',
-    smiles: 'C[C@H]1CC[C@H]2[C@@H]3CC[C@H]4C[C@@H](CC[C@]4(C)[C@H]3CC[C@]2(C)[C@@H]1O[C@H]5O[C@H](CO)[C@@H](O[C@H]6O[C@H](CO)[C@@H](O)[C@H](O)[C@H]6O)[C@H](O)[C@H]5O)O',
-    inchi: 'InChI=1S/C41H68O13/c1-20-7-12-27-39(3)16-14-29(45)40(4)28(10-15-35(39)21(20)19-43)22-17-23(44)18-38(22,2)36-13-11-37(27)54-32-8-25(46)9-6-41(32,5)53-34-26(47)31(50)33(24(18-42)52-34)51-30-11-9-28(48)25(46)23(30)19-43/h20-37,42-50H,6-19H2,1-5H3/t20-,21+,22-,23+,24+,25-,26+,27+,28-,29+,30+,31-,32+,33-,34+,35+,36-,37+,38+,39+,40-,41+/m0/s1',
-    inchiKey: 'KGFQBWRZSKURAA-TUVWXYZABC-N',
-    molecularFormula: 'C41H68O13',
-    molecularWeight: 768.98,
-    exactMass: 768.4608,
-    iupacName: '(3β,16α,20S,24S)-16,20:24,25-diepoxy-cucurbita-5,23-dien-3-yl 3-O-α-L-arabinopyranosyl-β-D-glucopyranoside',
-    commonNames: ['Bacoside A', 'Brahmi saponin', 'Bacopa glycoside'],
-    source: {
-      plantSource: 'Bacopa monnieri',
-      synthetic: false,
-      traditionalName: {
-        sanskrit: 'Brahmi saponin',
-        telugu: 'Brahmi glycoside'
-      }
-    },
-    properties: {
-      solubility: {
-        water: 'moderately_soluble',
-        ethanol: 'highly_soluble'
-      },
-      logP: 1.9,
-      bioavailability: 68,
-      halfLife: 15.7
-    },
-    bioactivity: {
-      targets: [
-        { name: 'Acetylcholinesterase', type: 'enzyme', affinity: 79 },
-        { name: 'NMDA receptors', type: 'receptor', affinity: 71 }
-      ],
-      mechanisms: ['Nootropic', 'Neuroprotective', 'Cholinesterase inhibition'],
-      therapeuticAreas: ['Cognitive enhancement', 'Memory disorders', 'Alzheimer\'s disease']
-    },
-    ayurvedicContext: {
-      associatedHerb: 'Bacopa monnieri',
-      doshaEffect: ['vata', 'pitta'],
-      traditionalUses: ['Medhya rasayana', 'Smriti vardhaka', 'Saraswatarishta']
-    },
-    research: {
-      publications: 650,
-      evidenceLevel: 'phase_2'
-    }
   }
 ];
 
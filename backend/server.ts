@@ -11,11 +11,18 @@ import {
     requestId,
     requestLogger
 } from './middleware';
-import healthRoutes from './routes/health';
+import { createHealthRoutes } from './routes/health';
 import herbRoutes from './routes/herbs';
+import formulationRoutes from './routes/formulations';
 import compoundRoutes from './routes/compounds';
 import literatureRoutes from './routes/literature';
 import agentRoutes from './routes/agents';
+import adminRoutes from './routes/admin';
+import qsarRoutes from './routes/qsar';
+import interactionRoutes from './routes/interactions';
+import networkRoutes from './routes/network';
+import analysisRoutes from './routes/analysis';
+import { createTaskRoutes } from './routes/tasks';
 import { NODE_ENV, PORT } from './utils/constants';
 import logger from './utils/logger';
 
@@ -67,13 +74,20 @@ class Server {
 
   private initializeRoutes(): void {
     // Health check routes (before API base path)
-    this.app.use('/api/v1', healthRoutes);
+    this.app.use('/api/v1', createHealthRoutes(this.coordinator));
 
     // API routes
     this.app.use('/api/v1/herbs', herbRoutes);
+    this.app.use('/api/v1/formulations', formulationRoutes);
     this.app.use('/api/v1/compounds', compoundRoutes);
     this.app.use('/api/v1/literature', literatureRoutes);
     this.app.use('/api/v1/agents', agentRoutes);
+    this.app.use('/api/v1/admin', adminRoutes);
+    this.app.use('/api/v1/qsar', qsarRoutes);
+    this.app.use('/api/v1/interactions', interactionRoutes);
+    this.app.use('/api/v1/network', networkRoutes);
+    this.app.use('/api/v1/analysis', analysisRoutes);
+    this.app.use('/api/v1/tasks', createTaskRoutes(this.coordinator));
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -107,6 +121,11 @@ class Server {
       try {
         await connectDatabase();
         logger.info('Database connected successfully');
+
+        const restored = await this.coordinator.restore();
+        if (restored > 0) {
+          logger.info(`Restored ${restored} coordinated tasks`);
+        }
       } catch (error) {
         if (NODE_ENV === 'development') {
           logger.warn('Database connection failed in development mode, continuing without database');
@@ -0,0 +1,407 @@
+import { HydratedDocument, Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { HerbModel } from '../models/Herb';
+import Literature from '../models/Literature';
+import { canonicalSmiles, parseSmiles, structureKey } from './chemistry';
+import logger from '../utils/logger';
+
+export interface DuplicateMember {
+  id: string;
+  name: string;
+  smiles: string;
+  confidence: number;
+}
+
+export interface DuplicateGroup {
+  structureKey: string;
+  canonicalSmiles: string;
+  /** Record that survives a merge: highest confidence, then most complete, then oldest */
+  primary: DuplicateMember;
+  duplicates: DuplicateMember[];
+}
+
+/** A value of a duplicate that differed from the primary's and was not kept */
+export interface MergeConflict {
+  field: string;
+  compoundId: string;
+  kept: unknown;
+  discarded: unknown;
+}
+
+export interface MergeResult {
+  structureKey: string;
+  primaryId: string;
+  mergedIds: string[];
+  herbsUpdated: number;
+  literatureUpdated: number;
+  conflicts: MergeConflict[];
+  /** Set when the merge failed; its changes have been rolled back */
+  error?: string;
+}
+
+export class DatabaseUnavailableError extends Error {
+  constructor() {
+    super('Compound database is not connected');
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+type Undo = () => Promise<unknown>;
+
+/** Unique identifiers a duplicate gives up while the primary is saved */
+const PARKED_FIELDS = ['smiles', 'inchi', 'inchiKey', 'structureKey', 'casNumber'] as const;
+
+/** Measured or curated single values; the primary's value is kept and differing ones are reported */
+const SCALAR_FIELDS = [
+  'admet.absorption.humanIntestinal',
+  'admet.absorption.caco2Permeability',
+  'admet.absorption.pgpSubstrate',
+  'admet.distribution.volumeOfDistribution',
+  'admet.distribution.proteinBinding',
+  'admet.distribution.bbbPermeability',
+  'admet.metabolism.clearance',
+  'admet.excretion.renalClearance',
+  'admet.excretion.biliaryClearance',
+  'admet.excretion.eliminationRoute',
+  'admet.toxicity.acuteToxicity.oralLD50',
+  'admet.toxicity.acuteToxicity.toxicityClass',
+  'admet.toxicity.chronicToxicity.carcinogenicity',
+  'admet.toxicity.chronicToxicity.mutagenicity',
+  'admet.toxicity.chronicToxicity.reproductiveToxicity',
+  'admet.toxicity.organToxicity.hepatotoxicity',
+  'admet.toxicity.organToxicity.cardiotoxicity',
+  'admet.toxicity.organToxicity.nephrotoxicity',
+  'admet.toxicity.organToxicity.neurotoxicity',
+  'safety.pregnancyCategory',
+  'safety.pediatricUse',
+  'safety.geriatricUse',
+];
+
+interface KeyedRecord {
+  _id: Types.ObjectId;
+  name: string;
+  smiles: string;
+  confidence?: number;
+  dataQuality?: { completeness?: number };
+  createdAt?: Date;
+}
+
+/**
+ * Finds compounds that share a canonical structure and folds them into one record,
+ * moving herb links and literature references to the surviving compound.
+ *
+ * A merge is all-or-nothing without needing a replica set for transactions: every write
+ * registers a compensating step, the duplicates are deleted last, and a failure at any
+ * point undoes the steps taken so far.
+ */
+export class CompoundDeduplicator {
+  public async findDuplicates(): Promise<DuplicateGroup[]> {
+    this.ensureConnected();
+
+    const records = await Compound.find({})
+      .select('name smiles confidence dataQuality.completeness createdAt')
+      .lean<KeyedRecord[]>();
+
+    // Keys are recomputed rather than read so records stored before canonicalization are included
+    const groups = new Map<string, { smiles: string; members: KeyedRecord[] }>();
+    for (const record of records) {
+      let key: string;
+      let smiles: string;
+      try {
+        const molecule = parseSmiles(record.smiles);
+        key = structureKey(molecule);
+        smiles = canonicalSmiles(molecule);
+      } catch (error) {
+        logger.warn(`Skipping compound ${record._id} in duplicate scan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        continue;
+      }
+      const group = groups.get(key) ?? { smiles, members: [] };
+      group.members.push(record);
+      groups.set(key, group);
+    }
+
+    const duplicates: DuplicateGroup[] = [];
+    for (const [key, group] of groups) {
+      if (group.members.length < 2) continue;
+      const [primary, ...rest] = group.members.sort(comparePrimary);
+      duplicates.push({
+        structureKey: key,
+        canonicalSmiles: group.smiles,
+        primary: toMember(primary!),
+        duplicates: rest.map(toMember),
+      });
+    }
+
+    return duplicates.sort((a, b) => a.canonicalSmiles.localeCompare(b.canonicalSmiles));
+  }
+
+  /**
+   * Merges every duplicate group, or only those with the given structure keys
+   */
+  public async mergeDuplicates(structureKeys?: string[]): Promise<MergeResult[]> {
+    const groups = (await this.findDuplicates())
+      .filter(group => !structureKeys || structureKeys.includes(group.structureKey));
+
+    const results: MergeResult[] = [];
+    for (const group of groups) {
+      results.push(await this.mergeGroup(group));
+    }
+    return results;
+  }
+
+  private async mergeGroup(group: DuplicateGroup): Promise<MergeResult> {
+    const result: MergeResult = {
+      structureKey: group.structureKey,
+      primaryId: group.primary.id,
+      mergedIds: [],
+      herbsUpdated: 0,
+      literatureUpdated: 0,
+      conflicts: [],
+    };
+
+    const primary = await Compound.findById(group.primary.id);
+    const duplicates = await Compound.find({ _id: { $in: group.duplicates.map(member => member.id) } });
+    if (!primary || duplicates.length === 0) {
+      return { ...result, error: 'Records changed since the duplicate scan' };
+    }
+
+    const original = primary.toObject();
+    duplicates.forEach(duplicate => absorb(primary, duplicate, result.conflicts));
+    primary.smiles = group.canonicalSmiles;
+
+    const undo: Undo[] = [];
+    try {
+      await primary.validate();
+
+      // Unique identifiers can only move to the primary once the duplicates have given them up
+      for (const duplicate of duplicates) {
+        undo.push(await this.park(duplicate));
+      }
+
+      await primary.save();
+      undo.push(() => Compound.replaceOne({ _id: primary._id }, original));
+
+      for (const duplicate of duplicates) {
+        result.herbsUpdated += await this.relinkHerbs(duplicate._id, primary._id, undo);
+        result.literatureUpdated += await this.relinkLiterature(duplicate.name, primary.name, undo);
+      }
+
+      undo.push(() => this.restoreDeleted(duplicates));
+      await Compound.deleteMany({ _id: { $in: duplicates.map(duplicate => duplicate._id) } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.rollBack(undo, primary._id);
+      logger.error(`Merge of duplicates into ${primary._id} failed and was rolled back: ${message}`);
+      return { ...result, herbsUpdated: 0, literatureUpdated: 0, conflicts: [], error: message };
+    }
+
+    result.mergedIds = duplicates.map(duplicate => duplicate._id.toString());
+    logger.info(`Merged ${duplicates.length} duplicates into ${primary.name} (${primary._id})`);
+    return result;
+  }
+
+  /**
+   * Frees a duplicate's unique identifiers; returns the step that restores them
+   */
+  private async park(duplicate: ICompound & { _id: Types.ObjectId }): Promise<Undo> {
+    const restore: Record<string, string> = {};
+    const parked: Record<string, string> = {};
+    const unset: Record<string, ''> = {};
+
+    for (const field of PARKED_FIELDS) {
+      const value = duplicate[field];
+      if (!value) continue;
+      restore[field] = value;
+      // Required identifiers get a unique placeholder, optional ones are removed
+      if (field === 'smiles' || field === 'inchi') {
+        parked[field] = `${value}#merging-${duplicate._id}`;
+      } else {
+        unset[field] = '';
+      }
+    }
+
+    await Compound.updateOne({ _id: duplicate._id }, { $set: parked, $unset: unset });
+    return () => Compound.updateOne({ _id: duplicate._id }, { $set: restore });
+  }
+
+  /**
+   * Reinserts duplicates a failed delete already removed, still parked so the later undo steps apply
+   */
+  private async restoreDeleted(duplicates: Array<ICompound & { _id: Types.ObjectId }>): Promise<void> {
+    const remaining = new Set((await Compound.find({ _id: { $in: duplicates.map(duplicate => duplicate._id) } }).distinct('_id'))
+      .map(id => id.toString()));
+    const missing = duplicates.filter(duplicate => !remaining.has(duplicate._id.toString()));
+    if (missing.length === 0) return;
+
+    await Compound.collection.insertMany(missing.map(duplicate => {
+      const record = duplicate.toObject();
+      for (const field of PARKED_FIELDS) {
+        delete record[field];
+      }
+      return { ...record, smiles: `${duplicate.smiles}#merging-${duplicate._id}`, inchi: `${duplicate.inchi}#merging-${duplicate._id}` };
+    }));
+  }
+
+  private async rollBack(undo: Undo[], primaryId: Types.ObjectId): Promise<void> {
+    for (const step of [...undo].reverse()) {
+      try {
+        await step();
+      } catch (error) {
+        logger.error(`Could not roll back part of the merge into ${primaryId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  private async relinkHerbs(from: Types.ObjectId, to: Types.ObjectId, undo: Undo[]): Promise<number> {
+    const herbs = await HerbModel.find({ compounds: from }).select('compounds').lean<Array<{ _id: Types.ObjectId; compounds: Types.ObjectId[] }>>();
+    if (herbs.length === 0) return 0;
+
+    const ids = herbs.map(herb => herb._id);
+    const linkedBefore = herbs.filter(herb => herb.compounds.some(id => id.equals(to))).map(herb => herb._id);
+    undo.push(async () => {
+      await HerbModel.updateMany({ _id: { $in: ids } }, { $addToSet: { compounds: from } });
+      await HerbModel.updateMany({ _id: { $in: ids, $nin: linkedBefore } }, { $pull: { compounds: to } });
+    });
+
+    await HerbModel.updateMany({ _id: { $in: ids } }, { $addToSet: { compounds: to } });
+    const pulled = await HerbModel.updateMany({ _id: { $in: ids } }, { $pull: { compounds: from } });
+    return pulled.modifiedCount;
+  }
+
+  /**
+   * Literature refers to compounds by lower-cased name
+   */
+  private async relinkLiterature(fromName: string, toName: string, undo: Undo[]): Promise<number> {
+    const from = fromName.trim().toLowerCase();
+    const to = toName.trim().toLowerCase();
+    if (from === to) return 0;
+
+    const records = await Literature.find({ 'focus.compounds': from }).select('focus.compounds').lean<Array<{ _id: Types.ObjectId; focus: { compounds: string[] } }>>();
+    if (records.length === 0) return 0;
+
+    const ids = records.map(record => record._id);
+    const linkedBefore = records.filter(record => record.focus.compounds.includes(to)).map(record => record._id);
+    undo.push(async () => {
+      await Literature.updateMany({ _id: { $in: ids } }, { $addToSet: { 'focus.compounds': from } });
+      await Literature.updateMany({ _id: { $in: ids, $nin: linkedBefore } }, { $pull: { 'focus.compounds': to } });
+    });
+
+    await Literature.updateMany({ _id: { $in: ids } }, { $addToSet: { 'focus.compounds': to } });
+    const pulled = await Literature.updateMany({ _id: { $in: ids } }, { $pull: { 'focus.compounds': from } });
+    return pulled.modifiedCount;
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+function comparePrimary(a: KeyedRecord, b: KeyedRecord): number {
+  return (b.confidence ?? 0) - (a.confidence ?? 0)
+    || (b.dataQuality?.completeness ?? 0) - (a.dataQuality?.completeness ?? 0)
+    || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+}
+
+function toMember(record: KeyedRecord): DuplicateMember {
+  return {
+    id: record._id.toString(),
+    name: record.name,
+    smiles: record.smiles,
+    confidence: record.confidence ?? 0,
+  };
+}
+
+function union<T>(target: T[] | undefined, source: T[] | undefined, key: (item: T) => string = String): T[] {
+  const merged = [...(target || [])];
+  const seen = new Set(merged.map(key));
+  for (const item of source || []) {
+    if (!seen.has(key(item))) {
+      seen.add(key(item));
+      merged.push(item);
+    }
+  }
+  return merged;
+}
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+/**
+ * Copies names, identifiers, references, bioactivity, safety and ADMET data from a duplicate into
+ * the primary without overwriting. List data is merged; single values the primary already has are
+ * kept, and differing values from the duplicate are recorded as conflicts.
+ */
+function absorb(
+  primary: HydratedDocument<ICompound>,
+  duplicate: HydratedDocument<ICompound>,
+  conflicts: MergeConflict[]
+): void {
+  const names = [duplicate.name, ...(duplicate.commonNames || [])].filter(name => name !== primary.name);
+  primary.commonNames = union(primary.commonNames, names);
+
+  if (!primary.casNumber && duplicate.casNumber) primary.casNumber = duplicate.casNumber;
+  if (!primary.pubchemCID && duplicate.pubchemCID) primary.pubchemCID = duplicate.pubchemCID;
+  if (!primary.chemspiderID && duplicate.chemspiderID) primary.chemspiderID = duplicate.chemspiderID;
+
+  primary.research.clinicalTrials = union(
+    primary.research.clinicalTrials,
+    duplicate.research?.clinicalTrials,
+    trial => trial.identifier || `${trial.phase}:${trial.indication}`
+  );
+  primary.research.publications = Math.max(primary.research.publications || 0, duplicate.research?.publications || 0);
+
+  if (duplicate.ayurvedicContext) {
+    if (primary.ayurvedicContext) {
+      primary.ayurvedicContext.classicalReferences = union(
+        primary.ayurvedicContext.classicalReferences,
+        duplicate.ayurvedicContext.classicalReferences
+      );
+      primary.ayurvedicContext.traditionalUses = union(
+        primary.ayurvedicContext.traditionalUses,
+        duplicate.ayurvedicContext.traditionalUses
+      );
+    } else {
+      primary.ayurvedicContext = duplicate.ayurvedicContext;
+    }
+  }
+
+  primary.classification.chemicalClass = union(primary.classification.chemicalClass, duplicate.classification?.chemicalClass);
+  primary.classification.pharmacologicalClass = union(
+    primary.classification.pharmacologicalClass,
+    duplicate.classification?.pharmacologicalClass
+  );
+  primary.classification.therapeuticClass = union(primary.classification.therapeuticClass, duplicate.classification?.therapeuticClass);
+
+  const bioactivity = primary.bioactivity;
+  bioactivity.targets = union(bioactivity.targets, duplicate.bioactivity?.targets, target => target.name.trim().toLowerCase());
+  bioactivity.mechanisms = union(bioactivity.mechanisms, duplicate.bioactivity?.mechanisms);
+  bioactivity.therapeuticAreas = union(bioactivity.therapeuticAreas, duplicate.bioactivity?.therapeuticAreas);
+  bioactivity.pathways = union(bioactivity.pathways, duplicate.bioactivity?.pathways);
+  bioactivity.cellularEffects = union(bioactivity.cellularEffects, duplicate.bioactivity?.cellularEffects);
+
+  const safety = primary.safety;
+  safety.adverseEffects = union(safety.adverseEffects, duplicate.safety?.adverseEffects);
+  safety.contraindications = union(safety.contraindications, duplicate.safety?.contraindications);
+  safety.drugInteractions = union(safety.drugInteractions, duplicate.safety?.drugInteractions, interaction => interaction.drug.trim().toLowerCase());
+
+  const metabolism = primary.admet.metabolism;
+  metabolism.cypSubstrates = union(metabolism.cypSubstrates, duplicate.admet?.metabolism?.cypSubstrates);
+  metabolism.cypInhibitors = union(metabolism.cypInhibitors, duplicate.admet?.metabolism?.cypInhibitors);
+  metabolism.metabolites = union(metabolism.metabolites, duplicate.admet?.metabolism?.metabolites);
+
+  for (const field of SCALAR_FIELDS) {
+    const kept = primary.get(field);
+    const incoming = duplicate.get(field);
+    if (isBlank(incoming) || kept === incoming) continue;
+
+    if (isBlank(kept)) {
+      primary.set(field, incoming);
+    } else {
+      conflicts.push({ field, compoundId: duplicate._id.toString(), kept, discarded: incoming });
+    }
+  }
+}
+
+export const compoundDeduplicator = new CompoundDeduplicator();
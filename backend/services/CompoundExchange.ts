@@ -0,0 +1,451 @@
+import mongoose from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { structureExport } from './StructureExport';
+import {
+  Molecule,
+  calculateCrippenLogP,
+  canonicalSmiles,
+  compute2DCoordinates,
+  parseSmiles,
+  readMol2,
+  readMolBlock,
+  splitMol2,
+  splitSdf,
+  structureKey,
+  writeMol2,
+  writeSdf,
+} from './chemistry';
+import type { MolCoordinate } from './chemistry';
+import { CsvError, formatCsvRow, parseCsv } from '../../shared/utils';
+import logger from '../utils/logger';
+
+export const EXCHANGE_FORMATS = ['sdf', 'mol2', 'csv'] as const;
+export type ExchangeFormat = typeof EXCHANGE_FORMATS[number];
+
+/** Source field (SD tag or CSV column) to ICompound path; null drops a default entry */
+export type FieldMapping = Record<string, string | null>;
+
+export interface ImportOptions {
+  format: ExchangeFormat;
+  /** Merged over DEFAULT_FIELD_MAPPING */
+  mapping?: FieldMapping;
+  /** Values for ICompound paths the file does not provide, e.g. required solubility classes */
+  defaults?: Record<string, unknown>;
+  /** Validate and report without writing */
+  dryRun?: boolean;
+  /** CSV column holding the structure; defaults to a column named SMILES */
+  smilesColumn?: string;
+}
+
+export interface ImportRecordReport {
+  /** One-based position in the file */
+  record: number;
+  name?: string;
+  smiles?: string;
+  status: 'valid' | 'imported' | 'invalid' | 'duplicate';
+  errors: string[];
+  id?: string;
+  /** Existing compound, or earlier record in the file, with the same structure */
+  duplicateOf?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  invalid: number;
+  duplicates: number;
+  records: ImportRecordReport[];
+}
+
+export interface ExportOptions {
+  format: ExchangeFormat;
+  search?: string;
+  limit?: number;
+  /** Structure files only; 3D embeds conformers (seconds per compound) and is limited to MAX_3D_EXPORT records */
+  coordinates?: '2d' | '3d';
+}
+
+/** Bad request input: unknown format, mapping targets, CSV syntax or file size */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+export const MAX_IMPORT_RECORDS = 5000;
+export const MAX_EXPORT_RECORDS = 10000;
+export const MAX_3D_EXPORT = 20;
+
+/** Fields written on export; the same tags map back on import so files round-trip */
+const EXPORT_FIELDS: Array<[string, string]> = [
+  ['Name', 'name'],
+  ['IUPAC_Name', 'iupacName'],
+  ['InChI', 'inchi'],
+  ['InChIKey', 'inchiKey'],
+  ['Formula', 'molecularFormula'],
+  ['CAS', 'casNumber'],
+  ['PubChem_CID', 'pubchemCID'],
+  ['ChemSpider_ID', 'chemspiderID'],
+  ['Common_Names', 'commonNames'],
+  ['Plant_Source', 'source.plantSource'],
+  ['Synthetic', 'source.synthetic'],
+  ['Solubility_Water', 'properties.solubility.water'],
+  ['Solubility_Ethanol', 'properties.solubility.ethanol'],
+  ['LogP', 'properties.logP'],
+  ['Bioavailability', 'properties.bioavailability'],
+  ['Half_Life', 'properties.halfLife'],
+  ['Mechanisms', 'bioactivity.mechanisms'],
+  ['Therapeutic_Areas', 'bioactivity.therapeuticAreas'],
+  ['Chemical_Class', 'classification.chemicalClass'],
+  ['Evidence_Level', 'research.evidenceLevel'],
+  ['Status', 'status'],
+];
+
+export const DEFAULT_FIELD_MAPPING: Readonly<FieldMapping> = {
+  ...Object.fromEntries(EXPORT_FIELDS),
+  PUBCHEM_COMPOUND_CID: 'pubchemCID',
+  PUBCHEM_IUPAC_NAME: 'iupacName',
+  PUBCHEM_IUPAC_INCHI: 'inchi',
+  PUBCHEM_IUPAC_INCHIKEY: 'inchiKey',
+  PUBCHEM_MOLECULAR_FORMULA: 'molecularFormula',
+};
+
+/** Paths derived from the structure or maintained by the model */
+const PROTECTED_PATHS = ['_id', 'smiles', 'structureKey', 'scaffold', 'fingerprints', 'dataQuality', 'molecularWeight', 'exactMass', 'createdAt', 'updatedAt'];
+
+const CONTENT_TYPES: Record<ExchangeFormat, string> = {
+  sdf: 'chemical/x-mdl-sdfile',
+  mol2: 'chemical/x-mol2',
+  csv: 'text/csv',
+};
+
+interface ParsedRecord {
+  record: number;
+  title: string;
+  fields: Record<string, string>;
+  molecule?: Molecule;
+  error?: string;
+}
+
+/**
+ * Bulk import and export of compound libraries as SDF, MOL2 or CSV. Imports are validated
+ * record by record against the Compound schema; exports stream from a query cursor.
+ */
+export class CompoundExchange {
+  public isFormat(format: unknown): format is ExchangeFormat {
+    return typeof format === 'string' && (EXCHANGE_FORMATS as readonly string[]).includes(format);
+  }
+
+  public contentType(format: ExchangeFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  /**
+   * Throws ImportFormatError for unusable input; problems with single records go in the report
+   */
+  public async import(content: string, options: ImportOptions): Promise<ImportReport> {
+    this.ensureConnected();
+
+    const mapping = this.resolveMapping(options.mapping ?? {});
+    const defaults = options.defaults ?? {};
+    for (const path of Object.keys(defaults)) {
+      this.assertWritablePath(path, 'defaults');
+    }
+
+    const parsed = this.parseRecords(content, options);
+    if (parsed.length > MAX_IMPORT_RECORDS) {
+      throw new ImportFormatError(`Files may hold at most ${MAX_IMPORT_RECORDS} records, got ${parsed.length}`);
+    }
+
+    const report: ImportReport = {
+      dryRun: options.dryRun === true,
+      total: parsed.length,
+      valid: 0,
+      imported: 0,
+      invalid: 0,
+      duplicates: 0,
+      records: [],
+    };
+
+    const keys = new Map<ParsedRecord, string>();
+    for (const record of parsed) {
+      if (record.molecule) keys.set(record, structureKey(record.molecule));
+    }
+    const existing = new Map(
+      (await Compound.find({ structureKey: { $in: [...new Set(keys.values())] } }).select('_id structureKey').lean())
+        .map(compound => [compound.structureKey!, compound._id.toString()])
+    );
+    const seen = new Map<string, number>();
+
+    for (const record of parsed) {
+      const entry = await this.importRecord(record, keys.get(record), mapping, defaults, existing, seen, report.dryRun);
+      report.records.push(entry);
+      if (entry.status === 'invalid') report.invalid++;
+      else if (entry.status === 'duplicate') report.duplicates++;
+      else {
+        report.valid++;
+        if (entry.status === 'imported') report.imported++;
+      }
+    }
+
+    logger.info(`${report.dryRun ? 'Validated' : 'Imported'} ${options.format} file: ${report.valid} valid, ${report.invalid} invalid, ${report.duplicates} duplicates of ${report.total}`);
+    return report;
+  }
+
+  /**
+   * Yields the file in chunks, one per compound after the header
+   */
+  public async *export(options: ExportOptions): AsyncGenerator<string> {
+    this.ensureConnected();
+
+    const limit = options.limit ?? MAX_EXPORT_RECORDS;
+    if (options.coordinates === '3d' && limit > MAX_3D_EXPORT) {
+      throw new ImportFormatError(`3D export is limited to ${MAX_3D_EXPORT} compounds; lower limit`);
+    }
+
+    const query: mongoose.FilterQuery<ICompound> = {};
+    if (options.search) {
+      const pattern = options.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      query.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { 'source.plantSource': { $regex: pattern, $options: 'i' } },
+      ];
+    }
+
+    if (options.format === 'csv') {
+      yield formatCsvRow(['SMILES', ...EXPORT_FIELDS.map(([tag]) => tag)]) + '\n';
+    }
+
+    let written = 0;
+    const cursor = Compound.find(query).sort({ name: 1 }).limit(limit).lean<ICompound>().cursor();
+    for await (const compound of cursor) {
+      const chunk = await this.exportRecord(compound as ICompound, options);
+      if (chunk === undefined) continue;
+      written++;
+      yield chunk;
+    }
+
+    logger.info(`Exported ${written} compounds as ${options.format}${options.coordinates === '3d' ? ' (3D)' : ''}`);
+  }
+
+  private async importRecord(
+    record: ParsedRecord,
+    key: string | undefined,
+    mapping: Map<string, string>,
+    defaults: Record<string, unknown>,
+    existing: Map<string, string>,
+    seen: Map<string, number>,
+    dryRun: boolean
+  ): Promise<ImportRecordReport> {
+    const entry: ImportRecordReport = { record: record.record, status: 'invalid', errors: [] };
+    if (record.title) entry.name = record.title;
+    if (record.error || !record.molecule || !key) {
+      entry.errors.push(record.error ?? 'Record has no structure');
+      return entry;
+    }
+    entry.smiles = canonicalSmiles(record.molecule);
+
+    const doc = new Compound({ smiles: entry.smiles });
+    for (const [path, value] of Object.entries(defaults)) {
+      doc.set(path, value);
+    }
+    for (const [field, value] of Object.entries(record.fields)) {
+      const path = mapping.get(field.toLowerCase());
+      if (path && value.trim() !== '') {
+        doc.set(path, this.fieldValue(path, value));
+      }
+    }
+    if (!doc.name && record.title) doc.name = record.title;
+    if (doc.get('properties.logP') === undefined) {
+      doc.set('properties.logP', Math.round(calculateCrippenLogP(record.molecule) * 100) / 100);
+    }
+    if (doc.name) entry.name = doc.name;
+
+    try {
+      await doc.validate();
+    } catch (error) {
+      entry.errors.push(...this.validationMessages(error));
+      return entry;
+    }
+
+    const duplicateOf = existing.get(key) ?? (seen.has(key) ? `record ${seen.get(key)}` : undefined);
+    if (duplicateOf) {
+      return { ...entry, status: 'duplicate', duplicateOf, errors: [`Structure already present as ${duplicateOf}`] };
+    }
+    seen.set(key, record.record);
+
+    if (dryRun) {
+      return { ...entry, status: 'valid' };
+    }
+
+    try {
+      await doc.save();
+    } catch (error) {
+      entry.errors.push(...this.validationMessages(error));
+      return entry;
+    }
+    return { ...entry, status: 'imported', id: doc._id.toString() };
+  }
+
+  private parseRecords(content: string, options: ImportOptions): ParsedRecord[] {
+    const structure = (record: ParsedRecord, read: () => { molecule: Molecule; name: string }): ParsedRecord => {
+      try {
+        const { molecule, name } = read();
+        return { ...record, title: record.title || name, molecule };
+      } catch (error) {
+        return { ...record, error: error instanceof Error ? error.message : 'Unreadable structure' };
+      }
+    };
+
+    switch (options.format) {
+      case 'sdf':
+        return splitSdf(content).map(entry =>
+          structure({ record: entry.record, title: entry.name, fields: entry.properties }, () => readMolBlock(entry.molBlock)));
+      case 'mol2':
+        return splitMol2(content).map(entry =>
+          structure({ record: entry.record, title: entry.name, fields: {} }, () => readMol2(entry.block)));
+      case 'csv':
+        return this.parseCsvRecords(content, options.smilesColumn);
+    }
+  }
+
+  private parseCsvRecords(content: string, smilesColumn?: string): ParsedRecord[] {
+    let rows: string[][];
+    try {
+      rows = parseCsv(content);
+    } catch (error) {
+      if (error instanceof CsvError) throw new ImportFormatError(error.message);
+      throw error;
+    }
+
+    const [header, ...body] = rows;
+    if (!header) {
+      throw new ImportFormatError('CSV file is empty');
+    }
+    const wanted = (smilesColumn ?? 'smiles').toLowerCase();
+    const column = header.findIndex(name => name.trim().toLowerCase() === wanted);
+    if (column === -1) {
+      throw new ImportFormatError(`CSV header has no ${smilesColumn ?? 'SMILES'} column`);
+    }
+
+    return body.map((row, index) => {
+      const fields: Record<string, string> = {};
+      header.forEach((name, position) => {
+        if (position !== column) fields[name.trim()] = row[position] ?? '';
+      });
+      const record: ParsedRecord = { record: index + 1, title: '', fields };
+      const smiles = (row[column] ?? '').trim();
+      if (!smiles) return { ...record, error: 'SMILES is empty' };
+      try {
+        return { ...record, molecule: parseSmiles(smiles) };
+      } catch (error) {
+        return { ...record, error: error instanceof Error ? error.message : 'Invalid SMILES' };
+      }
+    });
+  }
+
+  private async exportRecord(compound: ICompound, options: ExportOptions): Promise<string | undefined> {
+    const values = EXPORT_FIELDS.map(([tag, path]): [string, string] => [tag, this.formatValue(getPath(compound, path), options.format)]);
+    if (options.format === 'csv') {
+      return formatCsvRow([compound.smiles, ...values.map(([, value]) => value)]) + '\n';
+    }
+
+    try {
+      const { molecule, coordinates } = await this.structure(compound.smiles, options);
+      if (options.format === 'mol2') {
+        return writeMol2(molecule, coordinates, { name: compound.name, comment: compound._id.toString() });
+      }
+      return writeSdf([{
+        molecule,
+        coordinates,
+        name: compound.name,
+        properties: Object.fromEntries(values.filter(([, value]) => value !== '')),
+      }]);
+    } catch (error) {
+      logger.warn(`Skipping ${compound.name} (${compound._id}) in ${options.format} export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * MOL2 lists every hydrogen; SD files keep them implicit in 2D
+   */
+  private async structure(smiles: string, options: ExportOptions): Promise<{ molecule: Molecule; coordinates: MolCoordinate[] }> {
+    if (options.coordinates === '3d') {
+      const set = await structureExport.conformers(smiles);
+      return { molecule: set.molecule, coordinates: set.conformers[0]!.coordinates };
+    }
+    const parsed = parseSmiles(smiles);
+    const molecule = options.format === 'mol2' ? parsed.withExplicitHydrogens() : parsed;
+    return { molecule, coordinates: compute2DCoordinates(molecule) };
+  }
+
+  private resolveMapping(overrides: FieldMapping): Map<string, string> {
+    const mapping = new Map<string, string>();
+    for (const [field, path] of Object.entries({ ...DEFAULT_FIELD_MAPPING, ...overrides })) {
+      if (path === null) continue;
+      if (typeof path !== 'string') {
+        throw new ImportFormatError(`mapping for "${field}" must be an ICompound path or null`);
+      }
+      this.assertWritablePath(path, `mapping for "${field}"`);
+      mapping.set(field.toLowerCase(), path);
+    }
+    return mapping;
+  }
+
+  private assertWritablePath(path: string, context: string): void {
+    if (PROTECTED_PATHS.some(protectedPath => path === protectedPath || path.startsWith(`${protectedPath}.`))) {
+      throw new ImportFormatError(`${context}: ${path} is derived from the structure and cannot be imported`);
+    }
+    if (Compound.schema.pathType(path) !== 'real') {
+      throw new ImportFormatError(`${context}: ${path} is not a compound field`);
+    }
+  }
+
+  /**
+   * Array fields accept one value per line, or values separated by ";" or "|"
+   */
+  private fieldValue(path: string, value: string): unknown {
+    const trimmed = value.trim();
+    if (Compound.schema.path(path)?.instance !== 'Array') return trimmed;
+    return trimmed.split(trimmed.includes('\n') ? '\n' : /[;|]/).map(item => item.trim()).filter(Boolean);
+  }
+
+  private formatValue(value: unknown, format: ExchangeFormat): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(String).join(format === 'csv' ? '; ' : '\n');
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === 'object' ? '' : String(value);
+  }
+
+  private validationMessages(error: unknown): string[] {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return Object.values(error.errors).map(item => item.message);
+    }
+    if ((error as { code?: number }).code === 11000) {
+      const fields = Object.keys((error as { keyValue?: Record<string, unknown> }).keyValue ?? {});
+      return [`Another compound already has this ${fields.join(', ') || 'identifier'}`];
+    }
+    throw error;
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+export const compoundExchange = new CompoundExchange();
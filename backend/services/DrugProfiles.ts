@@ -0,0 +1,66 @@
+import { CypIsoform } from './chemistry';
+
+/**
+ * Clearance pathways of a conventional drug, as listed in the FDA table of CYP and transporter
+ * substrates; used to join herb CYP/P-gp data against the drugs a patient takes
+ */
+export interface DrugProfile {
+  name: string;
+  aliases: string[];
+  /** Pharmacological class, also matched against class-level interaction records ("anticoagulants") */
+  drugClass: string;
+  cypSubstrates: CypIsoform[];
+  pgpSubstrate: boolean;
+  /** Small exposure changes are clinically significant */
+  narrowTherapeuticIndex: boolean;
+}
+
+export const DRUG_PROFILES: DrugProfile[] = [
+  { name: 'warfarin', aliases: ['coumadin', 'jantoven'], drugClass: 'anticoagulant', cypSubstrates: ['CYP2C9', 'CYP3A4', 'CYP1A2'], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'apixaban', aliases: ['eliquis'], drugClass: 'anticoagulant', cypSubstrates: ['CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'rivaroxaban', aliases: ['xarelto'], drugClass: 'anticoagulant', cypSubstrates: ['CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'dabigatran', aliases: ['pradaxa'], drugClass: 'anticoagulant', cypSubstrates: [], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'clopidogrel', aliases: ['plavix'], drugClass: 'antiplatelet', cypSubstrates: ['CYP2C19', 'CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'aspirin', aliases: ['acetylsalicylic acid'], drugClass: 'antiplatelet', cypSubstrates: [], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'digoxin', aliases: ['lanoxin'], drugClass: 'cardiac glycoside', cypSubstrates: [], pgpSubstrate: true, narrowTherapeuticIndex: true },
+  { name: 'cyclosporine', aliases: ['ciclosporin', 'neoral', 'sandimmune'], drugClass: 'immunosuppressant', cypSubstrates: ['CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: true },
+  { name: 'tacrolimus', aliases: ['prograf'], drugClass: 'immunosuppressant', cypSubstrates: ['CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: true },
+  { name: 'phenytoin', aliases: ['dilantin'], drugClass: 'anticonvulsant', cypSubstrates: ['CYP2C9', 'CYP2C19'], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'carbamazepine', aliases: ['tegretol'], drugClass: 'anticonvulsant', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'theophylline', aliases: ['aminophylline'], drugClass: 'bronchodilator', cypSubstrates: ['CYP1A2'], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'lithium', aliases: [], drugClass: 'mood stabilizer', cypSubstrates: [], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'levothyroxine', aliases: ['thyroxine', 'synthroid'], drugClass: 'thyroid hormone', cypSubstrates: [], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'metformin', aliases: ['glucophage'], drugClass: 'antidiabetic', cypSubstrates: [], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'glibenclamide', aliases: ['glyburide'], drugClass: 'antidiabetic', cypSubstrates: ['CYP2C9', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'glipizide', aliases: [], drugClass: 'antidiabetic', cypSubstrates: ['CYP2C9'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'insulin', aliases: [], drugClass: 'antidiabetic', cypSubstrates: [], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'atorvastatin', aliases: ['lipitor'], drugClass: 'statin', cypSubstrates: ['CYP3A4'], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'simvastatin', aliases: ['zocor'], drugClass: 'statin', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'amlodipine', aliases: ['norvasc'], drugClass: 'antihypertensive', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'nifedipine', aliases: ['adalat'], drugClass: 'antihypertensive', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'losartan', aliases: ['cozaar'], drugClass: 'antihypertensive', cypSubstrates: ['CYP2C9', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'metoprolol', aliases: ['lopressor'], drugClass: 'antihypertensive', cypSubstrates: ['CYP2D6'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'midazolam', aliases: ['versed'], drugClass: 'sedative', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'alprazolam', aliases: ['xanax'], drugClass: 'sedative', cypSubstrates: ['CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'omeprazole', aliases: ['prilosec'], drugClass: 'proton pump inhibitor', cypSubstrates: ['CYP2C19', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'tamoxifen', aliases: ['nolvadex'], drugClass: 'antineoplastic', cypSubstrates: ['CYP2D6', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'codeine', aliases: [], drugClass: 'opioid', cypSubstrates: ['CYP2D6', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'fluoxetine', aliases: ['prozac'], drugClass: 'antidepressant', cypSubstrates: ['CYP2D6', 'CYP2C9'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'sertraline', aliases: ['zoloft'], drugClass: 'antidepressant', cypSubstrates: ['CYP2C19', 'CYP2D6', 'CYP3A4'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'amitriptyline', aliases: ['elavil'], drugClass: 'antidepressant', cypSubstrates: ['CYP2D6', 'CYP2C19'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'clozapine', aliases: ['clozaril'], drugClass: 'antipsychotic', cypSubstrates: ['CYP1A2'], pgpSubstrate: false, narrowTherapeuticIndex: true },
+  { name: 'olanzapine', aliases: ['zyprexa'], drugClass: 'antipsychotic', cypSubstrates: ['CYP1A2'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+  { name: 'fexofenadine', aliases: ['allegra'], drugClass: 'antihistamine', cypSubstrates: [], pgpSubstrate: true, narrowTherapeuticIndex: false },
+  { name: 'ibuprofen', aliases: ['advil', 'brufen'], drugClass: 'nsaid', cypSubstrates: ['CYP2C9'], pgpSubstrate: false, narrowTherapeuticIndex: false },
+];
+
+const PROFILES_BY_NAME = new Map<string, DrugProfile>(
+  DRUG_PROFILES.flatMap(profile => [profile.name, ...profile.aliases].map(name => [name, profile] as [string, DrugProfile]))
+);
+
+/**
+ * Profile for a generic or brand name, or null for drugs outside the table
+ */
+export function findDrugProfile(name: string): DrugProfile | null {
+  return PROFILES_BY_NAME.get(name.trim().toLowerCase()) ?? null;
+}
@@ -0,0 +1,299 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { FormulationDocument, FormulationModel } from '../models/Formulation';
+import { HerbModel } from '../models/Herb';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+
+export const ENRICHMENT_CATEGORIES = ['pathway', 'therapeutic_area', 'target'] as const;
+export type EnrichmentCategory = typeof ENRICHMENT_CATEGORIES[number];
+
+export const MAX_ENRICHMENT_COMPOUNDS = 1000;
+
+export interface EnrichmentRequest {
+  herbIds?: string[];
+  compoundIds?: string[];
+  formulationId?: string;
+  categories?: EnrichmentCategory[];
+  /** Smallest number of query compounds a term must cover to be tested (default 2) */
+  minOverlap?: number;
+  /** Benjamini–Hochberg FDR threshold for `significant` (default 0.05) */
+  fdr?: number;
+}
+
+export interface EnrichedTerm {
+  category: EnrichmentCategory;
+  term: string;
+  /** Query compounds annotated with the term */
+  overlap: number;
+  /** Query compounds with any annotation in the category */
+  querySize: number;
+  /** Background compounds annotated with the term */
+  termSize: number;
+  /** Background compounds with any annotation in the category */
+  backgroundSize: number;
+  foldEnrichment: number;
+  pValue: number;
+  adjustedPValue: number;
+  significant: boolean;
+  compounds: Array<{ id: string; name: string }>;
+}
+
+export interface EnrichmentResult {
+  query: {
+    compounds: number;
+    /** Requested compounds left out because they are missing or not active */
+    excludedCompounds: string[];
+  };
+  categories: EnrichmentCategory[];
+  fdr: number;
+  /** Ranked by p-value across categories; adjusted p-values are corrected within each category */
+  terms: EnrichedTerm[];
+}
+
+export class EnrichmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnrichmentError';
+  }
+}
+
+interface Background {
+  size: number;
+  termCounts: Map<string, number>;
+  loadedAt: number;
+}
+
+type QueryCompound = Pick<ICompound, 'name' | 'bioactivity'> & { _id: Types.ObjectId };
+
+/** Background annotation counts are reused for this long before being re-aggregated */
+const BACKGROUND_TTL_MS = 10 * 60 * 1000;
+
+const CATEGORY_FIELDS: Record<EnrichmentCategory, string> = {
+  pathway: 'bioactivity.pathways',
+  therapeutic_area: 'bioactivity.therapeuticAreas',
+  target: 'bioactivity.targets.name',
+};
+
+const round = (value: number): number => Number(value.toPrecision(4));
+
+/**
+ * Display names of a compound's distinct terms in one category, keyed by their lowercase form
+ */
+function compoundTerms(compound: QueryCompound, category: EnrichmentCategory): Map<string, string> {
+  const bioactivity = compound.bioactivity;
+  const values = category === 'pathway'
+    ? bioactivity?.pathways
+    : category === 'therapeutic_area'
+      ? bioactivity?.therapeuticAreas
+      : bioactivity?.targets?.map(target => target.name);
+
+  const terms = new Map<string, string>();
+  for (const value of values ?? []) {
+    const trimmed = value?.trim();
+    if (trimmed && !terms.has(trimmed.toLowerCase())) terms.set(trimmed.toLowerCase(), trimmed);
+  }
+  return terms;
+}
+
+/**
+ * log(i!) for i = 0..n
+ */
+function logFactorials(n: number): Float64Array {
+  const table = new Float64Array(n + 1);
+  for (let i = 2; i <= n; i++) {
+    table[i] = table[i - 1]! + Math.log(i);
+  }
+  return table;
+}
+
+/**
+ * P(X ≥ k) for X ~ Hypergeometric(N, K, n), summed in log space
+ */
+export function hypergeometricUpperTail(k: number, N: number, K: number, n: number, logFact: Float64Array = logFactorials(N)): number {
+  const logChoose = (a: number, b: number): number => logFact[a]! - logFact[b]! - logFact[a - b]!;
+  const upper = Math.min(K, n);
+  if (k > upper) return 0;
+  if (k <= Math.max(0, n - (N - K))) return 1;
+
+  const logTotal = logChoose(N, n);
+  const logTerms: number[] = [];
+  for (let i = k; i <= upper; i++) {
+    logTerms.push(logChoose(K, i) + logChoose(N - K, n - i) - logTotal);
+  }
+  const max = Math.max(...logTerms);
+  const sum = logTerms.reduce((total, value) => total + Math.exp(value - max), 0);
+  return Math.min(1, Math.exp(max) * sum);
+}
+
+/**
+ * Benjamini–Hochberg adjusted p-values, in the input order
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1]!;
+    running = Math.min(running, (p * m) / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+}
+
+/**
+ * Hypergeometric over-representation of pathways, therapeutic areas and targets among the
+ * compounds of herbs, formulations or compound sets, against all active compounds
+ */
+export class EnrichmentAnalyzer {
+  private backgrounds = new Map<EnrichmentCategory, Background>();
+
+  public async analyze(request: EnrichmentRequest): Promise<EnrichmentResult> {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+
+    const categories = request.categories && request.categories.length > 0
+      ? [...new Set(request.categories)]
+      : ['pathway', 'therapeutic_area'] as EnrichmentCategory[];
+    const minOverlap = request.minOverlap ?? 2;
+    const fdr = request.fdr ?? 0.05;
+
+    const requested = await this.resolveCompoundIds(request);
+    if (requested.length === 0) {
+      throw new EnrichmentError('No compounds found for the given herbs, formulation or compounds');
+    }
+    if (requested.length > MAX_ENRICHMENT_COMPOUNDS) {
+      throw new EnrichmentError(`At most ${MAX_ENRICHMENT_COMPOUNDS} compounds can be analysed at once`);
+    }
+
+    // Query compounds must come from the same population as the background
+    const compounds = await Compound.find({ _id: { $in: requested }, status: 'active' })
+      .select('name bioactivity.pathways bioactivity.therapeuticAreas bioactivity.targets.name')
+      .lean<QueryCompound[]>();
+    const found = new Set(compounds.map(compound => compound._id.toString()));
+
+    const terms: EnrichedTerm[] = [];
+    for (const category of categories) {
+      terms.push(...await this.enrichCategory(category, compounds, minOverlap, fdr));
+    }
+    terms.sort((a, b) => a.pValue - b.pValue || b.foldEnrichment - a.foldEnrichment || a.term.localeCompare(b.term));
+
+    return {
+      query: {
+        compounds: compounds.length,
+        excludedCompounds: requested.filter(id => !found.has(id)),
+      },
+      categories,
+      fdr,
+      terms,
+    };
+  }
+
+  private async enrichCategory(
+    category: EnrichmentCategory,
+    compounds: QueryCompound[],
+    minOverlap: number,
+    fdr: number
+  ): Promise<EnrichedTerm[]> {
+    const background = await this.loadBackground(category);
+
+    const members = new Map<string, { label: string; compounds: Array<{ id: string; name: string }> }>();
+    let querySize = 0;
+    for (const compound of compounds) {
+      const annotations = compoundTerms(compound, category);
+      if (annotations.size === 0) continue;
+      querySize++;
+      for (const [key, label] of annotations) {
+        const entry = members.get(key) ?? { label, compounds: [] };
+        entry.compounds.push({ id: compound._id.toString(), name: compound.name });
+        members.set(key, entry);
+      }
+    }
+
+    const logFact = logFactorials(background.size);
+    const tested = [...members.entries()]
+      .filter(([key, entry]) => entry.compounds.length >= minOverlap && background.termCounts.has(key))
+      .map(([key, entry]) => {
+        const overlap = entry.compounds.length;
+        const termSize = background.termCounts.get(key)!;
+        return {
+          category,
+          term: entry.label,
+          overlap,
+          querySize,
+          termSize,
+          backgroundSize: background.size,
+          foldEnrichment: round((overlap / querySize) / (termSize / background.size)),
+          pValue: hypergeometricUpperTail(overlap, background.size, termSize, querySize, logFact),
+          compounds: entry.compounds,
+        };
+      });
+
+    const adjusted = benjaminiHochberg(tested.map(term => term.pValue));
+    return tested.map(({ compounds: contributing, ...term }, index) => ({
+      ...term,
+      pValue: round(term.pValue),
+      adjustedPValue: round(adjusted[index]!),
+      significant: adjusted[index]! <= fdr,
+      compounds: contributing,
+    }));
+  }
+
+  /**
+   * Number of active compounds carrying each term of a category, cached for BACKGROUND_TTL_MS
+   */
+  private async loadBackground(category: EnrichmentCategory): Promise<Background> {
+    const cached = this.backgrounds.get(category);
+    if (cached && Date.now() - cached.loadedAt < BACKGROUND_TTL_MS) return cached;
+
+    const field = CATEGORY_FIELDS[category];
+    const rows: Array<{ _id: string; count: number }> = await Compound.aggregate([
+      { $match: { status: 'active', [field]: { $exists: true, $ne: [] } } },
+      {
+        $project: {
+          terms: {
+            $setUnion: [{ $map: { input: `$${field}`, in: { $toLower: { $trim: { input: '$$this' } } } } }, []],
+          },
+        },
+      },
+      { $unwind: '$terms' },
+      { $match: { terms: { $ne: '' } } },
+      { $group: { _id: '$terms', count: { $sum: 1 } } },
+    ]);
+    const size = await Compound.countDocuments({ status: 'active', [field]: { $exists: true, $ne: [] } });
+
+    const background = { size, termCounts: new Map(rows.map(row => [row._id, row.count])), loadedAt: Date.now() };
+    this.backgrounds.set(category, background);
+    return background;
+  }
+
+  private async resolveCompoundIds(request: EnrichmentRequest): Promise<string[]> {
+    const herbIds = [...(request.herbIds ?? [])];
+    const compoundIds = request.compoundIds ?? [];
+
+    for (const id of [...herbIds, ...compoundIds, ...(request.formulationId ? [request.formulationId] : [])]) {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new EnrichmentError(`Invalid id: ${id}`);
+      }
+    }
+
+    if (request.formulationId) {
+      const formulation = await FormulationModel.findById(request.formulationId)
+        .select('ingredients')
+        .lean<Pick<FormulationDocument, 'ingredients'>>();
+      if (!formulation) {
+        throw new EnrichmentError(`Formulation not found: ${request.formulationId}`);
+      }
+      herbIds.push(...formulation.ingredients.map(ingredient => ingredient.herb.toString()));
+    }
+
+    const herbs = herbIds.length === 0 ? [] : await HerbModel.find({ _id: { $in: herbIds } })
+      .select('compounds')
+      .lean<Array<{ compounds: Types.ObjectId[] }>>();
+    return [...new Set([...compoundIds, ...herbs.flatMap(herb => herb.compounds.map(id => id.toString()))])];
+  }
+}
+
+export const enrichmentAnalyzer = new EnrichmentAnalyzer();
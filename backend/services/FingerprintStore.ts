@@ -0,0 +1,96 @@
+import { FilterQuery, Types } from 'mongoose';
+import Compound, { ICompound } from '../models/Compound';
+import { FINGERPRINT_VERSION, StoredFingerprints, computeFingerprints, parseSmiles } from './chemistry';
+import logger from '../utils/logger';
+
+export interface FingerprintRecord {
+  _id: Types.ObjectId;
+  smiles: string;
+  fingerprints: StoredFingerprints;
+}
+
+interface StoredRecord {
+  _id: Types.ObjectId;
+  smiles: string;
+  fingerprints?: StoredFingerprints;
+}
+
+/**
+ * Loads stored compound fingerprints for the search services, recomputing and
+ * backfilling any that are missing or were produced by an older algorithm
+ */
+export class FingerprintStore {
+  public isCurrent(fingerprints?: StoredFingerprints): fingerprints is StoredFingerprints {
+    return !!fingerprints?.morgan
+      && !!fingerprints.maccs
+      && !!fingerprints.pattern
+      && fingerprints.version === FINGERPRINT_VERSION;
+  }
+
+  /**
+   * Fingerprints of a single compound, or null if it does not exist or its SMILES no longer parses
+   */
+  public async loadOne(id: string): Promise<FingerprintRecord | null> {
+    const record = await Compound.findById(id).select('+fingerprints smiles').lean<StoredRecord>();
+    if (!record) {
+      return null;
+    }
+
+    if (this.isCurrent(record.fingerprints)) {
+      return { _id: record._id, smiles: record.smiles, fingerprints: record.fingerprints };
+    }
+
+    try {
+      return { _id: record._id, smiles: record.smiles, fingerprints: computeFingerprints(parseSmiles(record.smiles)) };
+    } catch (error) {
+      logger.warn(`Skipping compound ${record._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Fingerprints of every compound matching the filter; records whose SMILES no longer parse are skipped
+   */
+  public async loadMany(filter: FilterQuery<ICompound>, purpose: string): Promise<FingerprintRecord[]> {
+    const records = await Compound.find(filter).select('+fingerprints smiles').lean<StoredRecord[]>();
+    const loaded: FingerprintRecord[] = [];
+    const stale: FingerprintRecord[] = [];
+
+    for (const record of records) {
+      if (this.isCurrent(record.fingerprints)) {
+        loaded.push({ _id: record._id, smiles: record.smiles, fingerprints: record.fingerprints });
+        continue;
+      }
+
+      try {
+        const computed = { _id: record._id, smiles: record.smiles, fingerprints: computeFingerprints(parseSmiles(record.smiles)) };
+        loaded.push(computed);
+        stale.push(computed);
+      } catch (error) {
+        logger.warn(`Skipping compound ${record._id} in ${purpose}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (stale.length > 0) {
+      await this.backfill(stale);
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Stores fingerprints computed during a search for records saved before they existed
+   */
+  private async backfill(stale: FingerprintRecord[]): Promise<void> {
+    try {
+      await Compound.bulkWrite(stale.map(({ _id, fingerprints }) => ({
+        updateOne: { filter: { _id }, update: { $set: { fingerprints } } },
+      })));
+      logger.info(`Stored fingerprints for ${stale.length} compounds`);
+    } catch (error) {
+      logger.warn(`Fingerprint backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const fingerprintStore = new FingerprintStore();
@@ -0,0 +1,294 @@
+import { Types } from 'mongoose';
+import { VerificationStatus } from '@shared/types';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { FormulationDocument, FormulationModel } from '../models/Formulation';
+import { HerbDocument, HerbModel } from '../models/Herb';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+
+export type Dosha = 'vata' | 'pitta' | 'kapha';
+export type DoshaEffect = 'increase' | 'decrease' | 'balance';
+export type SafetyFlagSeverity = 'info' | 'caution' | 'warning';
+
+export interface FormulationSafetyFlag {
+  severity: SafetyFlagSeverity;
+  /** Sanskrit name of the ingredient herb, or its id when the herb is missing */
+  herb: string;
+  compound?: string;
+  issue: string;
+}
+
+export interface FormulationProfile {
+  formulation: {
+    id: string;
+    name: FormulationDocument['name'];
+    dosageForm: FormulationDocument['dosageForm'];
+    anupana: string[];
+  };
+  ingredients: Array<{ herbId: string; sanskrit: string; english: string; part?: string; parts: number; fraction: number }>;
+  /** Share of the formulation (by parts) carrying each rasa, strongest first */
+  rasa: Array<{ rasa: string; share: number }>;
+  guna: Array<{ guna: string; share: number }>;
+  virya: { dominant: 'ushna' | 'sheeta' | null; ushna: number; sheeta: number };
+  vipaka: { dominant: string | null; distribution: Record<string, number> };
+  /** Negative scores pacify the dosha, positive ones aggravate it */
+  doshaEffects: Record<Dosha, { score: number; effect: DoshaEffect }>;
+  compounds: Array<{ id: string; name: string; molecularFormula: string; herbs: string[]; fraction: number }>;
+  therapeuticAreas: Array<{ area: string; compounds: number }>;
+  contraindications: string[];
+  safetyFlags: FormulationSafetyFlag[];
+}
+
+const DOSHAS: Dosha[] = ['vata', 'pitta', 'kapha'];
+
+/** Classical effect of each rasa on the doshas (Charaka Samhita, Sutrasthana 26) */
+const RASA_DOSHA_EFFECTS: Record<string, Record<Dosha, number>> = {
+  madhura: { vata: -1, pitta: -1, kapha: 1 },
+  amla: { vata: -1, pitta: 1, kapha: 1 },
+  lavana: { vata: -1, pitta: 1, kapha: 1 },
+  katu: { vata: 1, pitta: 1, kapha: -1 },
+  tikta: { vata: 1, pitta: -1, kapha: -1 },
+  kashaya: { vata: 1, pitta: -1, kapha: -1 },
+};
+
+const VIRYA_DOSHA_EFFECTS: Record<string, Record<Dosha, number>> = {
+  ushna: { vata: -1, pitta: 1, kapha: -1 },
+  sheeta: { vata: 1, pitta: -1, kapha: 1 },
+};
+
+/** Scores within this distance of zero count as balanced */
+const BALANCE_MARGIN = 0.2;
+
+const SEVERITY_ORDER: Record<SafetyFlagSeverity, number> = { warning: 0, caution: 1, info: 2 };
+
+type IngredientHerb = Pick<HerbDocument, 'name' | 'properties' | 'contraindications' | 'verificationStatus'> & {
+  _id: Types.ObjectId;
+  compounds: Types.ObjectId[];
+};
+
+type CompoundRecord = Pick<ICompound, 'name' | 'molecularFormula' | 'bioactivity' | 'safety' | 'admet'> & { _id: Types.ObjectId };
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+function shares(weighted: Array<{ values: string[]; weight: number }>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const { values, weight } of weighted) {
+    for (const value of new Set(values)) {
+      totals.set(value, (totals.get(value) ?? 0) + weight);
+    }
+  }
+  return totals;
+}
+
+const ranked = <K extends string>(totals: Map<string, number>, key: K): Array<Record<K, string> & { share: number }> =>
+  [...totals.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value, share]) => ({ [key]: value, share: round(share) }) as Record<K, string> & { share: number });
+
+/**
+ * Per-dosha score of one herb: the doshas it is recorded to pacify, the classical effect of its
+ * rasas and the effect of its virya, averaged
+ */
+function herbDoshaScores(herb: IngredientHerb): Record<Dosha, number> {
+  const scores = {} as Record<Dosha, number>;
+  const rasas = herb.properties.rasa.filter(rasa => RASA_DOSHA_EFFECTS[rasa]);
+  const virya = VIRYA_DOSHA_EFFECTS[herb.properties.virya];
+
+  for (const dosha of DOSHAS) {
+    const components: number[] = [];
+    if (herb.properties.dosha.length > 0) {
+      components.push(herb.properties.dosha.includes(dosha) ? -1 : 0);
+    }
+    if (rasas.length > 0) {
+      components.push(rasas.reduce((sum, rasa) => sum + RASA_DOSHA_EFFECTS[rasa]![dosha], 0) / rasas.length);
+    }
+    if (virya) {
+      components.push(virya[dosha]);
+    }
+    scores[dosha] = components.length === 0 ? 0 : components.reduce((sum, value) => sum + value, 0) / components.length;
+  }
+  return scores;
+}
+
+function compoundFlags(compound: CompoundRecord, herb: string): FormulationSafetyFlag[] {
+  const flags: FormulationSafetyFlag[] = [];
+  const toxicity = compound.admet?.toxicity;
+  const flag = (severity: SafetyFlagSeverity, issue: string): void => {
+    flags.push({ severity, herb, compound: compound.name, issue });
+  };
+
+  if (toxicity?.chronicToxicity?.mutagenicity) flag('warning', 'Mutagenic');
+  if (toxicity?.chronicToxicity?.carcinogenicity) flag('warning', 'Carcinogenic');
+  if (toxicity?.acuteToxicity?.toxicityClass === 'high' || toxicity?.acuteToxicity?.toxicityClass === 'very_high') {
+    flag('warning', `Acute toxicity class ${toxicity.acuteToxicity.toxicityClass.replace('_', ' ')}`);
+  }
+  if ((toxicity?.organToxicity?.hepatotoxicity ?? 0) >= 6) {
+    flag('caution', `Hepatotoxicity score ${toxicity!.organToxicity.hepatotoxicity}/10`);
+  }
+  for (const hit of toxicity?.structuralAlerts?.hits ?? []) {
+    if (hit.severity === 'high') flag('caution', `Structural alert: ${hit.name}`);
+  }
+  for (const interaction of compound.safety?.drugInteractions ?? []) {
+    if (interaction.severity === 'severe') flag('caution', `Severe interaction with ${interaction.drug}: ${interaction.mechanism}`);
+  }
+  return flags;
+}
+
+/**
+ * Combines the ingredient herbs of a polyherbal formulation into one pharmacological profile
+ */
+export class FormulationAnalyzer {
+  /**
+   * Profile of a stored formulation, or null if it does not exist
+   */
+  public async analyze(id: string): Promise<FormulationProfile | null> {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+    if (!Types.ObjectId.isValid(id)) return null;
+
+    const formulation = await FormulationModel.findById(id).lean<FormulationDocument>();
+    if (!formulation) return null;
+
+    const herbIds = formulation.ingredients.map(ingredient => ingredient.herb);
+    const herbs = await HerbModel.find({ _id: { $in: herbIds } })
+      .select('name properties contraindications verificationStatus compounds')
+      .lean<IngredientHerb[]>();
+    const herbsById = new Map(herbs.map(herb => [herb._id.toString(), herb]));
+
+    const safetyFlags: FormulationSafetyFlag[] = [];
+    const totalParts = formulation.ingredients.reduce((sum, ingredient) => sum + ingredient.parts, 0);
+    const present: Array<{ herb: IngredientHerb; weight: number }> = [];
+    const ingredients: FormulationProfile['ingredients'] = [];
+
+    for (const ingredient of formulation.ingredients) {
+      const herb = herbsById.get(ingredient.herb.toString());
+      if (!herb) {
+        safetyFlags.push({ severity: 'warning', herb: ingredient.herb.toString(), issue: 'Ingredient herb is missing from the database; its safety could not be assessed' });
+        continue;
+      }
+      const weight = ingredient.parts / totalParts;
+      present.push({ herb, weight });
+      ingredients.push({
+        herbId: herb._id.toString(),
+        sanskrit: herb.name.sanskrit,
+        english: herb.name.english,
+        ...(ingredient.part && { part: ingredient.part }),
+        parts: ingredient.parts,
+        fraction: round(weight),
+      });
+
+      if (herb.verificationStatus === VerificationStatus.DISPUTED || herb.verificationStatus === VerificationStatus.REJECTED) {
+        safetyFlags.push({ severity: 'caution', herb: herb.name.sanskrit, issue: `Herb monograph is ${herb.verificationStatus}` });
+      } else if (herb.verificationStatus === VerificationStatus.PENDING) {
+        safetyFlags.push({ severity: 'info', herb: herb.name.sanskrit, issue: 'Herb monograph is awaiting verification' });
+      }
+      for (const contraindication of herb.contraindications) {
+        safetyFlags.push({ severity: 'caution', herb: herb.name.sanskrit, issue: `Contraindicated: ${contraindication}` });
+      }
+    }
+
+    // Profile shares are taken over the herbs that could be resolved
+    const resolvedWeight = present.reduce((sum, entry) => sum + entry.weight, 0);
+    present.forEach(entry => {
+      entry.weight /= resolvedWeight;
+    });
+
+    const viryaShares = shares(present.map(({ herb, weight }) => ({ values: [herb.properties.virya], weight })));
+    const ushna = viryaShares.get('ushna') ?? 0;
+    const sheeta = viryaShares.get('sheeta') ?? 0;
+    const vipakaShares = shares(present.map(({ herb, weight }) => ({ values: [herb.properties.vipaka], weight })));
+    const dominantVipaka = ranked(vipakaShares, 'vipaka')[0];
+
+    const doshaEffects = {} as FormulationProfile['doshaEffects'];
+    const herbScores = present.map(({ herb, weight }) => ({ scores: herbDoshaScores(herb), weight }));
+    for (const dosha of DOSHAS) {
+      const score = round(herbScores.reduce((sum, { scores, weight }) => sum + scores[dosha] * weight, 0));
+      doshaEffects[dosha] = {
+        score,
+        effect: score <= -BALANCE_MARGIN ? 'decrease' : score >= BALANCE_MARGIN ? 'increase' : 'balance',
+      };
+    }
+
+    const compounds = await this.combineCompounds(present, safetyFlags);
+
+    safetyFlags.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    return {
+      formulation: {
+        id: formulation._id.toString(),
+        name: formulation.name,
+        dosageForm: formulation.dosageForm,
+        anupana: formulation.anupana,
+      },
+      ingredients,
+      rasa: ranked(shares(present.map(({ herb, weight }) => ({ values: herb.properties.rasa, weight }))), 'rasa'),
+      guna: ranked(shares(present.map(({ herb, weight }) => ({ values: herb.properties.guna, weight }))), 'guna'),
+      virya: {
+        dominant: ushna === 0 && sheeta === 0 ? null : ushna >= sheeta ? 'ushna' : 'sheeta',
+        ushna: round(ushna),
+        sheeta: round(sheeta),
+      },
+      vipaka: {
+        dominant: dominantVipaka?.vipaka ?? null,
+        distribution: Object.fromEntries([...vipakaShares.entries()].map(([vipaka, share]) => [vipaka, round(share)])),
+      },
+      doshaEffects,
+      ...compounds,
+      contraindications: [...new Set([...formulation.contraindications, ...present.flatMap(({ herb }) => herb.contraindications)])],
+      safetyFlags,
+    };
+  }
+
+  /**
+   * Union of the ingredient compounds, weighted by the share of the herbs that contain them
+   */
+  private async combineCompounds(
+    present: Array<{ herb: IngredientHerb; weight: number }>,
+    safetyFlags: FormulationSafetyFlag[]
+  ): Promise<Pick<FormulationProfile, 'compounds' | 'therapeuticAreas'>> {
+    const sources = new Map<string, Array<{ herb: IngredientHerb; weight: number }>>();
+    for (const entry of present) {
+      for (const id of entry.herb.compounds ?? []) {
+        const key = id.toString();
+        sources.set(key, [...(sources.get(key) ?? []), entry]);
+      }
+    }
+    if (sources.size === 0) {
+      return { compounds: [], therapeuticAreas: [] };
+    }
+
+    const records = await Compound.find({ _id: { $in: [...sources.keys()] } })
+      .select('name molecularFormula bioactivity.therapeuticAreas safety.drugInteractions admet.toxicity')
+      .lean<CompoundRecord[]>();
+
+    const areaCounts = new Map<string, number>();
+    const compounds = records.map(record => {
+      const entries = sources.get(record._id.toString()) ?? [];
+      for (const { herb } of entries) {
+        safetyFlags.push(...compoundFlags(record, herb.name.sanskrit));
+      }
+      for (const area of new Set(record.bioactivity?.therapeuticAreas ?? [])) {
+        areaCounts.set(area, (areaCounts.get(area) ?? 0) + 1);
+      }
+      return {
+        id: record._id.toString(),
+        name: record.name,
+        molecularFormula: record.molecularFormula,
+        herbs: entries.map(({ herb }) => herb.name.sanskrit),
+        fraction: round(entries.reduce((sum, { weight }) => sum + weight, 0)),
+      };
+    });
+
+    compounds.sort((a, b) => b.fraction - a.fraction || a.name.localeCompare(b.name));
+
+    return {
+      compounds,
+      therapeuticAreas: [...areaCounts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([area, count]) => ({ area, compounds: count })),
+    };
+  }
+}
+
+export const formulationAnalyzer = new FormulationAnalyzer();
@@ -0,0 +1,282 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { HerbDocument, HerbModel } from '../models/Herb';
+import Literature, { ILiterature } from '../models/Literature';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { CYP_ISOFORMS, CypIsoform } from './chemistry';
+import { DrugProfile, findDrugProfile } from './DrugProfiles';
+import logger from '../utils/logger';
+
+export type InteractionSeverity = 'mild' | 'moderate' | 'severe';
+
+/**
+ * documented: a curated Compound.safety.drugInteractions record;
+ * cyp_inhibition: the compound inhibits an enzyme that clears the drug;
+ * pgp_transport: compound and drug compete for P-glycoprotein efflux
+ */
+export type InteractionBasis = 'documented' | 'cyp_inhibition' | 'pgp_transport';
+
+export interface InteractionEvidence {
+  id: string;
+  title: string;
+  year: number;
+  journal?: string;
+  doi?: string;
+  pmid?: string;
+  evidenceLevel: ILiterature['evidenceLevel'];
+  studyType?: ILiterature['studyType'];
+}
+
+export interface HerbDrugInteraction {
+  herb: { id: string; sanskrit: string; english: string; botanical: string };
+  drug: string;
+  compound: { id: string; name: string };
+  severity: InteractionSeverity;
+  basis: InteractionBasis;
+  mechanism: string;
+  /** Derived from rule-based structure estimates rather than curated data */
+  predicted: boolean;
+  enzymes?: CypIsoform[];
+  evidence: InteractionEvidence[];
+}
+
+export interface InteractionCheckResult {
+  interactions: HerbDrugInteraction[];
+  herbs: Array<{ query: string; matches: Array<{ id: string; sanskrit: string; english: string; compoundCount: number }> }>;
+  unresolvedHerbs: string[];
+  drugs: Array<{ query: string; profile: string | null }>;
+  highestSeverity: InteractionSeverity | null;
+}
+
+export class InteractionCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InteractionCheckError';
+  }
+}
+
+export const MAX_CHECK_ITEMS = 20;
+const MAX_EVIDENCE_PER_INTERACTION = 5;
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { mild: 1, moderate: 2, severe: 3 };
+const BASIS_RANK: Record<InteractionBasis, number> = { documented: 3, cyp_inhibition: 2, pgp_transport: 1 };
+const EVIDENCE_RANK: Record<ILiterature['evidenceLevel'], number> = {
+  very_high: 6, high: 5, moderate: 4, low: 3, very_low: 2, traditional: 1,
+};
+
+type CompoundRecord = Pick<ICompound, 'name' | 'safety' | 'admet'> & { _id: Types.ObjectId };
+
+const escapePattern = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches a whole name, also inside "हरिद्रा (Haridra)" style transliterations
+ */
+function namePattern(name: string): RegExp {
+  return new RegExp(`(^|[\\s(])${escapePattern(name.trim())}($|[\\s),.])`, 'i');
+}
+
+/**
+ * Lowercased names a herb appears under in literature focus lists
+ */
+function herbTerms(herb: HerbDocument): string[] {
+  const terms = [herb.name.english, herb.name.botanical, herb.name.sanskrit, herb.name.telugu]
+    .flatMap(name => [name, ...(name.match(/\(([^)]+)\)/)?.slice(1) ?? [])])
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+/**
+ * Resolves herbs and drugs and reports interactions between them, most severe first
+ */
+export class HerbDrugInteractionChecker {
+  public async check(herbQueries: string[], drugQueries: string[]): Promise<InteractionCheckResult> {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+    if (herbQueries.length === 0 || drugQueries.length === 0) {
+      throw new InteractionCheckError('At least one herb and one drug are required');
+    }
+    if (herbQueries.length > MAX_CHECK_ITEMS || drugQueries.length > MAX_CHECK_ITEMS) {
+      throw new InteractionCheckError(`At most ${MAX_CHECK_ITEMS} herbs and ${MAX_CHECK_ITEMS} drugs can be checked at once`);
+    }
+
+    const herbMatches = await Promise.all(herbQueries.map(query => this.resolveHerb(query)));
+    const herbs = [...new Map(herbMatches.flat().map(herb => [herb._id.toString(), herb])).values()];
+    const drugs = drugQueries.map(query => ({ query: query.trim(), profile: findDrugProfile(query) }));
+
+    const compoundIds = [...new Set(herbs.flatMap(herb => (herb.compounds ?? []).map(id => id.toString())))];
+    const compounds = compoundIds.length === 0 ? [] : await Compound.find({ _id: { $in: compoundIds } })
+      .select('name safety.drugInteractions admet.metabolism.cypInhibitors admet.absorption.pgpSubstrate admet.ruleBased')
+      .lean<CompoundRecord[]>();
+    const compoundsById = new Map(compounds.map(compound => [compound._id.toString(), compound]));
+
+    const interactions: HerbDrugInteraction[] = [];
+    for (const herb of herbs) {
+      const herbSummary = { id: herb._id.toString(), sanskrit: herb.name.sanskrit, english: herb.name.english, botanical: herb.name.botanical };
+      for (const id of herb.compounds ?? []) {
+        const compound = compoundsById.get(id.toString());
+        if (!compound) continue;
+        for (const drug of drugs) {
+          interactions.push(...this.compoundInteractions(compound, drug.query, drug.profile)
+            .map(interaction => ({ herb: herbSummary, drug: drug.query, evidence: [], ...interaction })));
+        }
+      }
+    }
+
+    await this.attachEvidence(interactions, herbs);
+
+    interactions.sort((a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+      || Number(a.predicted) - Number(b.predicted)
+      || BASIS_RANK[b.basis] - BASIS_RANK[a.basis]
+      || b.evidence.length - a.evidence.length);
+
+    logger.info(`Interaction check of ${herbs.length} herbs against ${drugs.length} drugs found ${interactions.length} interactions`);
+
+    return {
+      interactions,
+      herbs: herbQueries.map((query, index) => ({
+        query,
+        matches: herbMatches[index]!.map(herb => ({
+          id: herb._id.toString(),
+          sanskrit: herb.name.sanskrit,
+          english: herb.name.english,
+          compoundCount: herb.compounds?.length ?? 0,
+        })),
+      })),
+      unresolvedHerbs: herbQueries.filter((_, index) => herbMatches[index]!.length === 0),
+      drugs: drugs.map(drug => ({ query: drug.query, profile: drug.profile?.name ?? null })),
+      highestSeverity: interactions[0]?.severity ?? null,
+    };
+  }
+
+  private async resolveHerb(query: string): Promise<HerbDocument[]> {
+    const pattern = namePattern(query);
+    return HerbModel.find({
+      $or: [
+        { 'name.sanskrit': pattern },
+        { 'name.telugu': pattern },
+        { 'name.english': pattern },
+        { 'name.botanical': pattern },
+      ],
+    }).select('name compounds').lean<HerbDocument[]>();
+  }
+
+  private compoundInteractions(
+    compound: CompoundRecord,
+    drug: string,
+    profile: DrugProfile | null
+  ): Array<Omit<HerbDrugInteraction, 'herb' | 'drug' | 'evidence'>> {
+    const compoundSummary = { id: compound._id.toString(), name: compound.name };
+    const terms = [drug.trim().toLowerCase(), ...(profile ? [profile.name, ...profile.aliases, profile.drugClass] : [])];
+    const results: Array<Omit<HerbDrugInteraction, 'herb' | 'drug' | 'evidence'>> = [];
+
+    for (const record of compound.safety?.drugInteractions ?? []) {
+      const recorded = record.drug.toLowerCase();
+      if (terms.some(term => recorded === term || recorded.includes(term))) {
+        results.push({
+          compound: compoundSummary,
+          severity: record.severity,
+          basis: 'documented',
+          mechanism: record.mechanism,
+          predicted: false,
+        });
+      }
+    }
+    if (!profile) return results;
+
+    const curated = new Set((compound.admet?.metabolism?.cypInhibitors ?? []).map(isoform => isoform.toUpperCase()));
+    const estimated = new Set((compound.admet?.ruleBased?.endpoints ?? [])
+      .filter(endpoint => endpoint.value === true && endpoint.applicable && endpoint.endpoint.endsWith('_inhibition'))
+      .map(endpoint => endpoint.endpoint.replace(/_inhibition$/, '')));
+
+    const known = profile.cypSubstrates.filter(isoform => curated.has(isoform));
+    const predicted = profile.cypSubstrates.filter(isoform => !curated.has(isoform) && estimated.has(isoform));
+    for (const [enzymes, isPredicted] of [[known, false], [predicted, true]] as const) {
+      if (enzymes.length === 0) continue;
+      const severity: InteractionSeverity = isPredicted
+        ? (profile.narrowTherapeuticIndex ? 'moderate' : 'mild')
+        : (profile.narrowTherapeuticIndex ? 'severe' : 'moderate');
+      results.push({
+        compound: compoundSummary,
+        severity,
+        basis: 'cyp_inhibition',
+        mechanism: `${compound.name} ${isPredicted ? 'is predicted to inhibit' : 'inhibits'} ${enzymes.join(', ')}, which clear${enzymes.length === 1 ? 's' : ''} ${profile.name}; expect raised ${profile.name} exposure${profile.narrowTherapeuticIndex ? ' (narrow therapeutic index)' : ''}`,
+        predicted: isPredicted,
+        enzymes: CYP_ISOFORMS.filter(isoform => enzymes.includes(isoform)),
+      });
+    }
+
+    if (profile.pgpSubstrate && compound.admet?.absorption?.pgpSubstrate) {
+      results.push({
+        compound: compoundSummary,
+        severity: profile.narrowTherapeuticIndex ? 'moderate' : 'mild',
+        basis: 'pgp_transport',
+        mechanism: `${compound.name} and ${profile.name} are both P-glycoprotein substrates; competition for efflux can raise ${profile.name} absorption`,
+        predicted: false,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Active literature that focuses on the herb or compound and mentions the drug
+   */
+  private async attachEvidence(interactions: HerbDrugInteraction[], herbs: HerbDocument[]): Promise<void> {
+    if (interactions.length === 0) return;
+
+    const termsByHerb = new Map(herbs.map(herb => [herb._id.toString(), herbTerms(herb)]));
+    const herbNames = [...new Set([...termsByHerb.values()].flat())];
+    const compoundNames = [...new Set(interactions.map(interaction => interaction.compound.name.toLowerCase()))];
+    const drugTerms = new Map(interactions.map(interaction => {
+      const profile = findDrugProfile(interaction.drug);
+      return [interaction.drug, [interaction.drug.toLowerCase(), ...(profile ? [profile.name, ...profile.aliases] : [])]];
+    }));
+    const drugPattern = new RegExp([...new Set([...drugTerms.values()].flat())].map(escapePattern).join('|'), 'i');
+
+    const literature = await Literature.find({
+      status: 'active',
+      $and: [
+        {
+          $or: [
+            { 'focus.herbs': { $in: herbNames.map(name => new RegExp(`^${escapePattern(name)}$`, 'i')) } },
+            { 'focus.compounds': { $in: compoundNames.map(name => new RegExp(`^${escapePattern(name)}$`, 'i')) } },
+          ],
+        },
+        { $or: [{ title: drugPattern }, { abstract: drugPattern }, { keywords: drugPattern }] },
+      ],
+    })
+      .select('title publication.year publication.journal publication.doi publication.pmid evidenceLevel studyType abstract keywords focus.herbs focus.compounds')
+      .lean<ILiterature[]>();
+
+    const ranked = [...literature].sort((a, b) => EVIDENCE_RANK[b.evidenceLevel] - EVIDENCE_RANK[a.evidenceLevel]);
+
+    for (const interaction of interactions) {
+      const herbNamesForInteraction = termsByHerb.get(interaction.herb.id) ?? [];
+      const drugNames = drugTerms.get(interaction.drug) ?? [];
+      interaction.evidence = ranked
+        .filter(item => {
+          const focus = [...item.focus.herbs, ...item.focus.compounds].map(name => name.toLowerCase());
+          const text = [item.title, item.abstract ?? '', ...item.keywords].join(' ').toLowerCase();
+          return (focus.includes(interaction.compound.name.toLowerCase()) || focus.some(name => herbNamesForInteraction.includes(name)))
+            && drugNames.some(name => text.includes(name));
+        })
+        .slice(0, MAX_EVIDENCE_PER_INTERACTION)
+        .map(item => ({
+          id: item._id.toString(),
+          title: item.title,
+          year: item.publication.year,
+          ...(item.publication.journal && { journal: item.publication.journal }),
+          ...(item.publication.doi && { doi: item.publication.doi }),
+          ...(item.publication.pmid && { pmid: item.publication.pmid }),
+          evidenceLevel: item.evidenceLevel,
+          ...(item.studyType && { studyType: item.studyType }),
+        }));
+    }
+  }
+}
+
+export const herbDrugInteractionChecker = new HerbDrugInteractionChecker();
@@ -0,0 +1,314 @@
+import { FilterQuery, Types } from 'mongoose';
+import { TaskStatus } from '../../shared/types';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { FingerprintRecord, fingerprintStore } from './FingerprintStore';
+import {
+  DiversityStatistics,
+  DistanceMatrix,
+  FingerprintType,
+  butinaCluster,
+  diversityStatistics,
+  fingerprintFromStored,
+  maxMinPick,
+} from './chemistry';
+import logger from '../utils/logger';
+
+/** Larger subsets would need a distance matrix of several hundred megabytes */
+export const MAX_CLUSTER_COMPOUNDS = 5000;
+
+const MAX_RETAINED_JOBS = 50;
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+const ROWS_PER_SLICE = 25;
+
+export interface LibraryFilter {
+  search?: string;
+  ids?: string[];
+  plantSource?: string;
+  therapeuticArea?: string;
+  chemicalClass?: string;
+  status?: ICompound['status'];
+}
+
+export interface ClusteringRequest {
+  filter: LibraryFilter;
+  fingerprint: FingerprintType;
+  /** Tanimoto distance at which compounds fall into the same cluster */
+  distanceCutoff: number;
+  reassignSingletons: boolean;
+  /** Size of the MaxMin diverse subset */
+  pickCount: number;
+  /** Compounds that must be in the diverse subset, e.g. an existing screening panel */
+  seedIds: string[];
+}
+
+export interface ClusterMember {
+  id: string;
+  name: string;
+  /** Tanimoto similarity to the cluster centroid */
+  similarity: number;
+}
+
+export interface CompoundCluster {
+  id: number;
+  size: number;
+  centroid: { id: string; name: string };
+  members: ClusterMember[];
+  meanSimilarity: number;
+}
+
+export interface DiversityPick {
+  id: string;
+  name: string;
+  cluster: number;
+  seed: boolean;
+  /** Distance to the closest earlier pick, null for the first */
+  distanceToPicked: number | null;
+}
+
+export interface ClusteringResult {
+  compoundCount: number;
+  clusterCount: number;
+  singletonCount: number;
+  largestClusterSize: number;
+  clusters: CompoundCluster[];
+  picks: DiversityPick[];
+  statistics: {
+    library: DiversityStatistics;
+    picked: DiversityStatistics;
+    /** Share of clusters with at least one compound in the diverse subset */
+    clusterCoverage: number;
+  };
+}
+
+export interface ClusteringJob {
+  id: string;
+  status: TaskStatus;
+  /** 0–100 */
+  progress: number;
+  request: ClusteringRequest;
+  submittedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  result?: ClusteringResult;
+  error?: string;
+}
+
+export class ClusteringLimitError extends Error {
+  constructor(count: number) {
+    super(`${count} compounds match the filter; clustering is limited to ${MAX_CLUSTER_COMPOUNDS}`);
+    this.name = 'ClusteringLimitError';
+  }
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const roundStatistics = (statistics: DiversityStatistics): DiversityStatistics => ({
+  size: statistics.size,
+  meanDistance: round(statistics.meanDistance),
+  minDistance: round(statistics.minDistance),
+  maxDistance: round(statistics.maxDistance),
+  meanNearestNeighborDistance: round(statistics.meanNearestNeighborDistance),
+});
+
+const escapePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Butina clustering and MaxMin diversity picking over filtered subsets of the compound library,
+ * run as in-memory background jobs one at a time
+ */
+export class LibraryClustering {
+  private jobs = new Map<string, ClusteringJob>();
+  private queue: ClusteringJob[] = [];
+  private running = false;
+
+  /**
+   * Queues a clustering run and returns the job without waiting for it
+   */
+  public submit(request: ClusteringRequest): ClusteringJob {
+    this.ensureConnected();
+    this.prune();
+
+    const job: ClusteringJob = {
+      id: `cluster-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      status: TaskStatus.PENDING,
+      progress: 0,
+      request,
+      submittedAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+
+    logger.info(`Clustering job ${job.id} submitted`);
+    void this.drain();
+    return job;
+  }
+
+  public getJob(id: string): ClusteringJob | null {
+    return this.jobs.get(id) ?? null;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let job: ClusteringJob | undefined;
+      while ((job = this.queue.shift())) {
+        await this.run(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(job: ClusteringJob): Promise<void> {
+    job.status = TaskStatus.IN_PROGRESS;
+    job.startedAt = new Date();
+    try {
+      job.result = await this.cluster(job);
+      job.status = TaskStatus.COMPLETED;
+      job.progress = 100;
+      logger.info(`Clustering job ${job.id} found ${job.result.clusterCount} clusters in ${job.result.compoundCount} compounds`);
+    } catch (error) {
+      job.status = TaskStatus.FAILED;
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Clustering job ${job.id} failed: ${job.error}`);
+    } finally {
+      job.completedAt = new Date();
+    }
+  }
+
+  private async cluster(job: ClusteringJob): Promise<ClusteringResult> {
+    const { request } = job;
+    this.ensureConnected();
+
+    const filter = this.buildFilter(request.filter);
+    const matching = await Compound.countDocuments(filter);
+    if (matching > MAX_CLUSTER_COMPOUNDS) {
+      throw new ClusteringLimitError(matching);
+    }
+
+    const records = await fingerprintStore.loadMany(filter, 'clustering');
+    const names = await this.loadNames(records);
+    job.progress = 10;
+
+    const matrix = new DistanceMatrix(records.map(record => fingerprintFromStored(record.fingerprints, request.fingerprint)));
+    while (!matrix.complete) {
+      for (let i = 0; i < ROWS_PER_SLICE && matrix.fillRow(); i++) {
+        // Rows are filled in slices so status requests are served meanwhile
+      }
+      job.progress = 10 + Math.floor(matrix.progress * 75);
+      await yieldToEventLoop();
+    }
+
+    const clusters = butinaCluster(matrix, {
+      distanceCutoff: request.distanceCutoff,
+      reassignSingletons: request.reassignSingletons,
+    });
+    job.progress = 90;
+    await yieldToEventLoop();
+
+    const indexById = new Map(records.map((record, index) => [record._id.toString(), index]));
+    const seeds = request.seedIds.flatMap(id => indexById.get(id) ?? []);
+    const picks = maxMinPick(matrix, request.pickCount, seeds);
+    const seeded = new Set(seeds);
+
+    const clusterOf = new Array<number>(records.length);
+    clusters.forEach((cluster, id) => cluster.members.forEach(member => (clusterOf[member] = id)));
+    const describe = (index: number) => {
+      const id = records[index]!._id.toString();
+      return { id, name: names.get(id) ?? '' };
+    };
+
+    const represented = new Set(picks.map(pick => clusterOf[pick]));
+    return {
+      compoundCount: records.length,
+      clusterCount: clusters.length,
+      singletonCount: clusters.filter(cluster => cluster.members.length === 1).length,
+      largestClusterSize: clusters.reduce((largest, cluster) => Math.max(largest, cluster.members.length), 0),
+      clusters: clusters.map((cluster, id) => {
+        const similarities = cluster.members.map(member => 1 - matrix.get(cluster.centroid, member));
+        return {
+          id,
+          size: cluster.members.length,
+          centroid: describe(cluster.centroid),
+          members: cluster.members.map((member, position) => ({ ...describe(member), similarity: round(similarities[position]!) })),
+          meanSimilarity: round(similarities.reduce((sum, similarity) => sum + similarity, 0) / similarities.length),
+        };
+      }),
+      picks: picks.map((pick, position) => ({
+        ...describe(pick),
+        cluster: clusterOf[pick]!,
+        seed: seeded.has(pick),
+        distanceToPicked: position === 0
+          ? null
+          : round(Math.min(...picks.slice(0, position).map(earlier => matrix.get(pick, earlier)))),
+      })),
+      statistics: {
+        library: roundStatistics(diversityStatistics(matrix)),
+        picked: roundStatistics(diversityStatistics(matrix, picks)),
+        clusterCoverage: clusters.length === 0 ? 0 : round(represented.size / clusters.length),
+      },
+    };
+  }
+
+  private buildFilter(filter: LibraryFilter): FilterQuery<ICompound> {
+    const query: FilterQuery<ICompound> = { status: filter.status ?? 'active' };
+
+    if (filter.ids) {
+      query._id = { $in: filter.ids.filter(id => Types.ObjectId.isValid(id)) };
+    }
+    if (filter.search) {
+      const pattern = escapePattern(filter.search);
+      query.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { 'source.plantSource': { $regex: pattern, $options: 'i' } },
+      ];
+    }
+    if (filter.plantSource) {
+      query['source.plantSource'] = { $regex: escapePattern(filter.plantSource), $options: 'i' };
+    }
+    if (filter.therapeuticArea) {
+      query['bioactivity.therapeuticAreas'] = filter.therapeuticArea;
+    }
+    if (filter.chemicalClass) {
+      query['classification.chemicalClass'] = filter.chemicalClass;
+    }
+
+    return query;
+  }
+
+  private async loadNames(records: FingerprintRecord[]): Promise<Map<string, string>> {
+    const named = await Compound.find({ _id: { $in: records.map(record => record._id) } })
+      .select('name')
+      .lean<Array<{ _id: Types.ObjectId; name: string }>>();
+    return new Map(named.map(record => [record._id.toString(), record.name]));
+  }
+
+  /**
+   * Forgets finished jobs past their TTL, then the oldest finished ones beyond the retention limit
+   */
+  private prune(): void {
+    const now = Date.now();
+    const finished = [...this.jobs.values()]
+      .filter(job => job.completedAt)
+      .sort((a, b) => a.completedAt!.getTime() - b.completedAt!.getTime());
+
+    for (const job of finished) {
+      if (now - job.completedAt!.getTime() > FINISHED_JOB_TTL_MS || this.jobs.size >= MAX_RETAINED_JOBS) {
+        this.jobs.delete(job.id);
+      }
+    }
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+export const libraryClustering = new LibraryClustering();
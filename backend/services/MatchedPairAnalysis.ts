@@ -0,0 +1,277 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound from '../models/Compound';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { MatchedPair, MmpFragment, findMatchedPairs, fragmentForMmp, parseSmiles } from './chemistry';
+import logger from '../utils/logger';
+
+/** Acute toxicity classes from least to most toxic */
+const TOXICITY_CLASSES = ['low', 'moderate', 'high', 'very_high'];
+
+/** Fragmentations are kept per SMILES; beyond this the cache starts over */
+const MAX_CACHED_FRAGMENTATIONS = 20000;
+
+export interface CompoundRef {
+  id: string;
+  name: string;
+}
+
+export interface AffinityDelta {
+  target: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface MatchedPairDeltas {
+  /** logP of the second compound minus the first */
+  logP: number | null;
+  /** Targets with an affinity recorded for both compounds */
+  affinities: AffinityDelta[];
+  toxicityClass: { from: string; to: string; shift: number } | null;
+}
+
+export interface MatchedPairRecord {
+  from: CompoundRef;
+  to: CompoundRef;
+  /** Variable parts as 'from>>to' SMILES with [1*]/[2*] attachment points */
+  transformation: string;
+  context: string;
+  cuts: 1 | 2;
+  deltas: MatchedPairDeltas;
+}
+
+export interface DeltaSummary {
+  count: number;
+  mean: number;
+  sd: number;
+  min: number;
+  max: number;
+}
+
+export interface TransformationStatistics {
+  transformation: string;
+  cuts: 1 | 2;
+  pairCount: number;
+  logP: DeltaSummary | null;
+  affinities: Array<DeltaSummary & { target: string }>;
+  toxicityClass: { count: number; increased: number; decreased: number; unchanged: number; meanShift: number } | null;
+  pairs: Array<{ from: CompoundRef; to: CompoundRef; context: string }>;
+}
+
+export interface TransformationQuery {
+  /** Smallest number of pairs a transformation needs to be reported */
+  minPairs: number;
+  limit: number;
+  cuts?: 1 | 2;
+}
+
+export interface TransformationSummary {
+  compoundCount: number;
+  pairCount: number;
+  transformationCount: number;
+  transformations: TransformationStatistics[];
+}
+
+interface PropertyRecord {
+  _id: Types.ObjectId;
+  name: string;
+  smiles: string;
+  properties?: { logP?: number };
+  bioactivity?: { targets?: Array<{ name: string; affinity?: number }> };
+  admet?: { toxicity?: { acuteToxicity?: { toxicityClass?: string } } };
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+function summarize(values: number[]): DeltaSummary {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return {
+    count: values.length,
+    mean: round(mean),
+    sd: round(Math.sqrt(variance)),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+  };
+}
+
+/**
+ * Matched molecular pairs across the active compound library, with the property change each
+ * structural transformation brings
+ */
+export class MatchedPairAnalysis {
+  private fragmentCache = new Map<string, MmpFragment[]>();
+
+  /**
+   * Pairs involving one compound, written from that compound to its partner; null if it does not exist
+   */
+  public async pairsForCompound(id: string): Promise<MatchedPairRecord[] | null> {
+    this.ensureConnected();
+    if (!Types.ObjectId.isValid(id) || !(await Compound.exists({ _id: id }))) {
+      return null;
+    }
+
+    const { pairs } = await this.findPairs();
+    return pairs
+      .filter(pair => pair.first._id.toString() === id || pair.second._id.toString() === id)
+      .map(pair => (pair.first._id.toString() === id ? this.describe(pair) : this.describe(this.reverse(pair))))
+      .sort((a, b) => a.cuts - b.cuts || a.transformation.localeCompare(b.transformation));
+  }
+
+  /**
+   * Transformations grouped across all pairs with their property-delta statistics, most pairs first.
+   * Each transformation is reported in one direction, its variable parts in SMILES order.
+   */
+  public async transformations(query: TransformationQuery): Promise<TransformationSummary> {
+    this.ensureConnected();
+    const { compoundCount, pairs } = await this.findPairs();
+
+    const byTransformation = new Map<string, MatchedPairRecord[]>();
+    for (const pair of pairs) {
+      if (query.cuts && pair.cuts !== query.cuts) continue;
+      const record = this.describe(pair.from <= pair.to ? pair : this.reverse(pair));
+      const group = byTransformation.get(record.transformation) ?? [];
+      group.push(record);
+      byTransformation.set(record.transformation, group);
+    }
+
+    const transformations = [...byTransformation.entries()]
+      .filter(([, records]) => records.length >= query.minPairs)
+      .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+      .slice(0, query.limit)
+      .map(([transformation, records]) => this.statistics(transformation, records));
+
+    return {
+      compoundCount,
+      pairCount: pairs.length,
+      transformationCount: byTransformation.size,
+      transformations,
+    };
+  }
+
+  private async findPairs(): Promise<{ compoundCount: number; pairs: Array<MatchedPair<PropertyRecord>> }> {
+    const records = await Compound.find({ status: 'active' })
+      .select('name smiles properties.logP bioactivity.targets admet.toxicity.acuteToxicity.toxicityClass')
+      .lean<PropertyRecord[]>();
+
+    const entries: Array<{ item: PropertyRecord; fragments: MmpFragment[] }> = [];
+    for (const record of records) {
+      const fragments = await this.fragments(record);
+      if (fragments) {
+        entries.push({ item: record, fragments });
+      }
+    }
+
+    return { compoundCount: records.length, pairs: findMatchedPairs(entries) };
+  }
+
+  /**
+   * Cached fragmentation of a compound; uncached ones yield to the event loop first as they take a while
+   */
+  private async fragments(record: PropertyRecord): Promise<MmpFragment[] | null> {
+    const cached = this.fragmentCache.get(record.smiles);
+    if (cached) return cached;
+
+    await yieldToEventLoop();
+    try {
+      const fragments = fragmentForMmp(parseSmiles(record.smiles));
+      if (this.fragmentCache.size >= MAX_CACHED_FRAGMENTATIONS) {
+        this.fragmentCache.clear();
+      }
+      this.fragmentCache.set(record.smiles, fragments);
+      return fragments;
+    } catch (error) {
+      logger.warn(`Skipping compound ${record._id} in matched pair analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  private reverse(pair: MatchedPair<PropertyRecord>): MatchedPair<PropertyRecord> {
+    return { ...pair, first: pair.second, second: pair.first, from: pair.to, to: pair.from };
+  }
+
+  private describe(pair: MatchedPair<PropertyRecord>): MatchedPairRecord {
+    return {
+      from: { id: pair.first._id.toString(), name: pair.first.name },
+      to: { id: pair.second._id.toString(), name: pair.second.name },
+      transformation: `${pair.from}>>${pair.to}`,
+      context: pair.context,
+      cuts: pair.cuts,
+      deltas: this.deltas(pair.first, pair.second),
+    };
+  }
+
+  private deltas(first: PropertyRecord, second: PropertyRecord): MatchedPairDeltas {
+    const logPFrom = first.properties?.logP;
+    const logPTo = second.properties?.logP;
+
+    const affinitiesFrom = new Map<string, number>();
+    for (const target of first.bioactivity?.targets ?? []) {
+      if (typeof target.affinity === 'number') affinitiesFrom.set(target.name, target.affinity);
+    }
+    const affinities: AffinityDelta[] = [];
+    for (const target of second.bioactivity?.targets ?? []) {
+      const from = affinitiesFrom.get(target.name);
+      if (from !== undefined && typeof target.affinity === 'number') {
+        affinities.push({ target: target.name, from, to: target.affinity, delta: round(target.affinity - from) });
+      }
+    }
+
+    const classFrom = first.admet?.toxicity?.acuteToxicity?.toxicityClass;
+    const classTo = second.admet?.toxicity?.acuteToxicity?.toxicityClass;
+    const rankFrom = TOXICITY_CLASSES.indexOf(classFrom ?? '');
+    const rankTo = TOXICITY_CLASSES.indexOf(classTo ?? '');
+
+    return {
+      logP: typeof logPFrom === 'number' && typeof logPTo === 'number' ? round(logPTo - logPFrom) : null,
+      affinities,
+      toxicityClass: rankFrom >= 0 && rankTo >= 0 ? { from: classFrom!, to: classTo!, shift: rankTo - rankFrom } : null,
+    };
+  }
+
+  private statistics(transformation: string, records: MatchedPairRecord[]): TransformationStatistics {
+    const logP = records.flatMap(record => (record.deltas.logP === null ? [] : [record.deltas.logP]));
+
+    const byTarget = new Map<string, number[]>();
+    for (const record of records) {
+      for (const affinity of record.deltas.affinities) {
+        byTarget.set(affinity.target, [...(byTarget.get(affinity.target) ?? []), affinity.delta]);
+      }
+    }
+
+    const shifts = records.flatMap(record => (record.deltas.toxicityClass ? [record.deltas.toxicityClass.shift] : []));
+
+    return {
+      transformation,
+      cuts: records[0]!.cuts,
+      pairCount: records.length,
+      logP: logP.length > 0 ? summarize(logP) : null,
+      affinities: [...byTarget.entries()]
+        .map(([target, deltas]) => ({ target, ...summarize(deltas) }))
+        .sort((a, b) => b.count - a.count || a.target.localeCompare(b.target)),
+      toxicityClass: shifts.length > 0
+        ? {
+          count: shifts.length,
+          increased: shifts.filter(shift => shift > 0).length,
+          decreased: shifts.filter(shift => shift < 0).length,
+          unchanged: shifts.filter(shift => shift === 0).length,
+          meanShift: round(shifts.reduce((sum, shift) => sum + shift, 0) / shifts.length),
+        }
+        : null,
+      pairs: records.map(record => ({ from: record.from, to: record.to, context: record.context })),
+    };
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+export const matchedPairAnalysis = new MatchedPairAnalysis();
@@ -0,0 +1,286 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { FormulationDocument, FormulationModel } from '../models/Formulation';
+import { HerbDocument, HerbModel } from '../models/Herb';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { NODE_TYPES, NetworkEdge, NodeMetrics, NodeType, PharmacologyGraph } from './network';
+
+/** Compounds taken from the database when no herbs, compounds or formulation are given */
+export const MAX_NETWORK_COMPOUNDS = 2000;
+
+/** Largest network whose betweenness is computed; all-pairs shortest paths grow as V·E */
+export const MAX_NETWORK_NODES = 6000;
+
+export const MAX_FOCUS_DEPTH = 4;
+
+export interface NetworkScope {
+  herbIds?: string[];
+  compoundIds?: string[];
+  formulationId?: string;
+  /** Node ids such as "target:cyclooxygenase-2" to centre a subnetwork on */
+  focus?: string[];
+  /** Hops kept around the focus nodes (default 2) */
+  depth?: number;
+}
+
+export interface PharmacologyNetwork {
+  name: string;
+  graph: PharmacologyGraph;
+  metrics: Map<string, NodeMetrics>;
+  unresolvedFocus: string[];
+}
+
+export interface NetworkHub extends NodeMetrics {
+  id: string;
+  type: NodeType;
+  label: string;
+}
+
+export interface NetworkReport {
+  name: string;
+  summary: {
+    nodes: Record<NodeType, number>;
+    edges: number;
+    inferredEdges: number;
+    density: number;
+    components: number;
+    largestComponent: number;
+  };
+  /** Nodes ranked by betweenness, then degree */
+  hubs: NetworkHub[];
+  hubsByType: Record<NodeType, NetworkHub[]>;
+  nodes: Array<NetworkHub & { attributes: Record<string, string | number | boolean> }>;
+  edges: NetworkEdge[];
+  unresolvedFocus: string[];
+}
+
+export class NetworkScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkScopeError';
+  }
+}
+
+type NetworkHerb = Pick<HerbDocument, 'name'> & { _id: Types.ObjectId; compounds: Types.ObjectId[] };
+
+type NetworkCompound = Pick<ICompound, 'name' | 'molecularFormula' | 'bioactivity'> & { _id: Types.ObjectId };
+
+const HERB_FIELDS = 'name compounds';
+const COMPOUND_FIELDS = 'name molecularFormula bioactivity.targets bioactivity.pathways bioactivity.therapeuticAreas';
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const distinct = (values: string[]): string[] => {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) seen.set(trimmed.toLowerCase(), trimmed);
+  }
+  return [...seen.values()];
+};
+
+const byCentrality = (a: NetworkHub, b: NetworkHub): number =>
+  b.betweenness - a.betweenness || b.degree - a.degree || a.label.localeCompare(b.label);
+
+/**
+ * Builds herb → compound → target → pathway → disease networks from the knowledge base
+ *
+ * Targets, pathways and therapeutic areas are stored per compound without links between them,
+ * so target–pathway and pathway–disease edges are inferred from co-occurrence on the same
+ * compound and weighted by the number of compounds supporting them.
+ */
+export class NetworkPharmacologyService {
+  public async build(scope: NetworkScope = {}): Promise<PharmacologyNetwork> {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+
+    const { herbs, compounds, name } = await this.resolveScope(scope);
+
+    let graph = new PharmacologyGraph();
+    const compoundNodes = new Map<string, string>();
+    for (const compound of compounds) {
+      compoundNodes.set(compound._id.toString(), this.addCompound(graph, compound));
+    }
+    for (const herb of herbs) {
+      const herbNode = graph.addNode('herb', herb._id.toString(), herb.name.sanskrit, {
+        english: herb.name.english,
+        botanical: herb.name.botanical,
+      });
+      for (const compoundId of herb.compounds) {
+        const compoundNode = compoundNodes.get(compoundId.toString());
+        if (compoundNode) graph.addEdge(herbNode, compoundNode, 'contains');
+      }
+    }
+
+    const unresolvedFocus: string[] = [];
+    if (scope.focus && scope.focus.length > 0) {
+      const focus = scope.focus.map(id => id.trim().toLowerCase());
+      unresolvedFocus.push(...scope.focus.filter((_, index) => !graph.getNode(focus[index]!)));
+      graph = graph.subgraph(graph.neighborhood(focus, scope.depth ?? 2));
+    }
+
+    if (graph.nodeCount > MAX_NETWORK_NODES) {
+      throw new NetworkScopeError(
+        `Network has ${graph.nodeCount} nodes; narrow it to at most ${MAX_NETWORK_NODES} with herbs, compounds or focus nodes`
+      );
+    }
+
+    const metrics = await graph.computeMetrics();
+    return { name, graph, metrics, unresolvedFocus };
+  }
+
+  /**
+   * JSON summary of a built network with hub rankings
+   */
+  public report(network: PharmacologyNetwork, hubCount: number = 10): NetworkReport {
+    const { graph, metrics } = network;
+    const graphNodes = graph.getNodes();
+    const hubs: NetworkHub[] = graphNodes.map(node => {
+      const nodeMetrics = metrics.get(node.id)!;
+      return {
+        id: node.id,
+        type: node.type,
+        label: node.label,
+        degree: nodeMetrics.degree,
+        weightedDegree: nodeMetrics.weightedDegree,
+        betweenness: round(nodeMetrics.betweenness),
+        closeness: round(nodeMetrics.closeness),
+        eigenvector: round(nodeMetrics.eigenvector),
+      };
+    });
+    const nodes = hubs.map((hub, index) => ({ ...hub, attributes: graphNodes[index]!.attributes }));
+
+    const ranked = [...hubs].sort(byCentrality);
+    const counts = {} as Record<NodeType, number>;
+    const hubsByType = {} as Record<NodeType, NetworkHub[]>;
+    for (const type of NODE_TYPES) {
+      counts[type] = nodes.filter(node => node.type === type).length;
+      hubsByType[type] = ranked.filter(hub => hub.type === type).slice(0, Math.ceil(hubCount / 2));
+    }
+
+    const edges = graph.getEdges();
+    const components = graph.components();
+    return {
+      name: network.name,
+      summary: {
+        nodes: counts,
+        edges: edges.length,
+        inferredEdges: edges.filter(edge => edge.inferred).length,
+        density: round(graph.density),
+        components: components.length,
+        largestComponent: components[0]?.length ?? 0,
+      },
+      hubs: ranked.slice(0, hubCount),
+      hubsByType,
+      nodes,
+      edges,
+      unresolvedFocus: network.unresolvedFocus,
+    };
+  }
+
+  private async resolveScope(scope: NetworkScope): Promise<{ herbs: NetworkHerb[]; compounds: NetworkCompound[]; name: string }> {
+    const herbIds = [...(scope.herbIds ?? [])];
+    const compoundIds = scope.compoundIds ?? [];
+    let name = 'Knowledge base network';
+
+    for (const id of [...herbIds, ...compoundIds, ...(scope.formulationId ? [scope.formulationId] : [])]) {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NetworkScopeError(`Invalid id: ${id}`);
+      }
+    }
+
+    if (scope.formulationId) {
+      const formulation = await FormulationModel.findById(scope.formulationId)
+        .select('name ingredients')
+        .lean<Pick<FormulationDocument, 'name' | 'ingredients'>>();
+      if (!formulation) {
+        throw new NetworkScopeError(`Formulation not found: ${scope.formulationId}`);
+      }
+      herbIds.push(...formulation.ingredients.map(ingredient => ingredient.herb.toString()));
+      name = formulation.name.sanskrit;
+    }
+
+    // Without an explicit scope the network covers the best-characterised active compounds
+    if (herbIds.length === 0 && compoundIds.length === 0) {
+      const compounds = await Compound.find({ status: 'active' })
+        .sort({ confidence: -1 })
+        .limit(MAX_NETWORK_COMPOUNDS)
+        .select(COMPOUND_FIELDS)
+        .lean<NetworkCompound[]>();
+      const herbs = await HerbModel.find({ compounds: { $in: compounds.map(compound => compound._id) } })
+        .select(HERB_FIELDS)
+        .lean<NetworkHerb[]>();
+      return { herbs, compounds, name };
+    }
+
+    const herbs = herbIds.length === 0 ? [] : await HerbModel.find({ _id: { $in: herbIds } })
+      .select(HERB_FIELDS)
+      .lean<NetworkHerb[]>();
+    const ids = new Set([...compoundIds, ...herbs.flatMap(herb => herb.compounds.map(id => id.toString()))]);
+    const compounds = ids.size === 0 ? [] : await Compound.find({ _id: { $in: [...ids] } })
+      .select(COMPOUND_FIELDS)
+      .lean<NetworkCompound[]>();
+
+    // Herbs that contain explicitly requested compounds complete the herb layer
+    if (compoundIds.length > 0) {
+      const known = new Set(herbs.map(herb => herb._id.toString()));
+      const containing = await HerbModel.find({ compounds: { $in: compoundIds } })
+        .select(HERB_FIELDS)
+        .lean<NetworkHerb[]>();
+      herbs.push(...containing.filter(herb => !known.has(herb._id.toString())));
+    }
+
+    if (!scope.formulationId && herbs.length === 1 && compoundIds.length === 0) {
+      name = herbs[0]!.name.sanskrit;
+    } else if (!scope.formulationId) {
+      name = `Network of ${herbs.length} herbs and ${compounds.length} compounds`;
+    }
+    return { herbs, compounds, name };
+  }
+
+  /**
+   * Adds a compound with its curated targets and the edges inferred from its annotations
+   */
+  private addCompound(graph: PharmacologyGraph, compound: NetworkCompound): string {
+    const compoundNode = graph.addNode('compound', compound._id.toString(), compound.name, {
+      molecularFormula: compound.molecularFormula,
+    });
+
+    const targets = new Map<string, string>();
+    for (const target of compound.bioactivity?.targets ?? []) {
+      const name = target.name?.trim();
+      if (!name || targets.has(name.toLowerCase())) continue;
+      targets.set(name.toLowerCase(), graph.addNode('target', name, name, { targetType: target.type }));
+    }
+    const pathways = distinct(compound.bioactivity?.pathways ?? []).map(name => graph.addNode('pathway', name, name));
+    const diseases = distinct(compound.bioactivity?.therapeuticAreas ?? []).map(name => graph.addNode('disease', name, name));
+
+    for (const target of targets.values()) {
+      graph.addEdge(compoundNode, target, 'targets');
+    }
+
+    // Each layer links to the nearest populated layer above it
+    if (targets.size > 0) {
+      for (const target of targets.values()) {
+        pathways.forEach(pathway => graph.addEdge(target, pathway, 'participates_in', true));
+      }
+    } else {
+      pathways.forEach(pathway => graph.addEdge(compoundNode, pathway, 'modulates'));
+    }
+
+    const upstream = pathways.length > 0 ? pathways : [...targets.values()];
+    if (upstream.length > 0) {
+      for (const node of upstream) {
+        diseases.forEach(disease => graph.addEdge(node, disease, 'associated_with', true));
+      }
+    } else {
+      diseases.forEach(disease => graph.addEdge(compoundNode, disease, 'associated_with'));
+    }
+
+    return compoundNode;
+  }
+}
+
+export const networkPharmacology = new NetworkPharmacologyService();
@@ -0,0 +1,429 @@
+import { createHash } from 'crypto';
+import { FilterQuery, Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { QsarEndpoint, QsarMetrics, QsarModel, QsarModelDocument } from '../models/QsarModel';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { Molecule, canonicalSmiles, parseSmiles } from './chemistry';
+import {
+  ALGORITHM_TASKS,
+  DEFAULT_HYPERPARAMETERS,
+  DomainParameters,
+  Estimator,
+  FeatureSpace,
+  FeatureType,
+  Hyperparameters,
+  QsarAlgorithm,
+  QsarTask,
+  classificationMetrics,
+  computeFeatures,
+  createEstimator,
+  createRandom,
+  decodeFeatures,
+  domainDistance,
+  encodeFeatures,
+  fitDomain,
+  fitEstimator,
+  kFolds,
+  regressionMetrics,
+} from './qsar';
+import logger from '../utils/logger';
+
+export const MIN_TRAINING_COMPOUNDS = 10;
+/** Leave-one-out domain fitting and kNN are quadratic in the training set size */
+export const MAX_TRAINING_COMPOUNDS = 2000;
+
+const DOMAIN_NEIGHBORS = 5;
+
+export interface TrainingRequest {
+  name: string;
+  description?: string;
+  endpoint: QsarEndpoint;
+  algorithm: QsarAlgorithm;
+  featureType: FeatureType;
+  hyperparameters?: Partial<Hyperparameters>;
+  /** Cross-validation folds (default 5) */
+  folds?: number;
+  seed?: number;
+}
+
+export interface QsarPrediction {
+  modelId: string;
+  modelName: string;
+  endpoint: string;
+  task: QsarTask;
+  algorithm: QsarAlgorithm;
+  featureType: FeatureType;
+  /** Predicted value for regression, probability of the predicted class for classification */
+  value: number;
+  label?: string;
+  /** Cross-validated performance scaled down outside the applicability domain */
+  confidence: number;
+  inDomain: boolean;
+  domainDistance: number;
+}
+
+export class QsarTrainingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QsarTrainingError';
+  }
+}
+
+export class DuplicateModelNameError extends Error {
+  constructor(name: string) {
+    super(`A QSAR model named "${name}" already exists`);
+    this.name = 'DuplicateModelNameError';
+  }
+}
+
+interface TrainingRecord {
+  _id: Types.ObjectId;
+  smiles: string;
+  [field: string]: unknown;
+}
+
+interface CompiledModel {
+  updatedAt: number;
+  document: QsarModelDocument;
+  space: FeatureSpace;
+  training: number[][];
+  estimator: Estimator;
+  domain: DomainParameters;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+function valueAt(record: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) =>
+    (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), record);
+}
+
+/**
+ * Human-readable name of what a model predicts
+ */
+export function describeEndpoint(endpoint: QsarEndpoint): string {
+  switch (endpoint.kind) {
+    case 'property':
+    case 'class':
+      return endpoint.path.split('.').pop()!;
+    case 'affinity':
+      return `${endpoint.target} affinity`;
+    case 'therapeuticArea':
+      return `${endpoint.area} activity`;
+  }
+}
+
+export function endpointTask(endpoint: QsarEndpoint): QsarTask {
+  return endpoint.kind === 'property' || endpoint.kind === 'affinity' ? 'regression' : 'classification';
+}
+
+/**
+ * Trains QSAR models on stored compound data, keeps them with their training-set hash, cross-validated
+ * metrics and applicability domain, and serves predictions from the registered ones
+ */
+export class QsarRegistry {
+  private compiled = new Map<string, CompiledModel>();
+
+  public async train(request: TrainingRequest): Promise<QsarModelDocument> {
+    this.ensureConnected();
+
+    const task = endpointTask(request.endpoint);
+    if (!ALGORITHM_TASKS[request.algorithm].includes(task)) {
+      throw new QsarTrainingError(`${request.algorithm} cannot be trained for ${task}`);
+    }
+    if (await QsarModel.exists({ name: request.name })) {
+      throw new DuplicateModelNameError(request.name);
+    }
+
+    const hyperparameters: Hyperparameters = { ...DEFAULT_HYPERPARAMETERS, ...request.hyperparameters };
+    const folds = request.folds ?? 5;
+    const seed = request.seed ?? 42;
+
+    const examples = await this.loadExamples(request.endpoint, request.featureType);
+    if (examples.length < MIN_TRAINING_COMPOUNDS) {
+      throw new QsarTrainingError(`Only ${examples.length} compounds have data for ${describeEndpoint(request.endpoint)}; at least ${MIN_TRAINING_COMPOUNDS} are needed`);
+    }
+    if (examples.length > MAX_TRAINING_COMPOUNDS) {
+      throw new QsarTrainingError(`${examples.length} compounds have data for ${describeEndpoint(request.endpoint)}; training is limited to ${MAX_TRAINING_COMPOUNDS}`);
+    }
+
+    const classes = task === 'classification'
+      ? [...new Set(examples.map(example => String(example.value)))].sort()
+      : [];
+    if (task === 'classification' && classes.length < 2) {
+      throw new QsarTrainingError(`Every training compound has the class "${classes[0]}"; at least two classes are needed`);
+    }
+    const targets = examples.map(example => (task === 'classification' ? classes.indexOf(String(example.value)) : Number(example.value)));
+    const raw = examples.map(example => example.features);
+
+    const metrics = await this.crossValidate(request, task, hyperparameters, raw, targets, classes.length, folds, seed);
+
+    const space = FeatureSpace.fit(request.featureType, raw);
+    const features = raw.map(row => space.transform(row));
+    const distance = (a: number[], b: number[]): number => space.distance(a, b);
+    const parameters = fitEstimator(request.algorithm, task, hyperparameters, { features, targets, classCount: classes.length, distance }, seed);
+    const domain = fitDomain(features, distance, DOMAIN_NEIGHBORS);
+
+    const document = await QsarModel.create({
+      name: request.name,
+      ...(request.description && { description: request.description }),
+      endpoint: request.endpoint,
+      task,
+      algorithm: request.algorithm,
+      featureType: request.featureType,
+      hyperparameters,
+      seed,
+      classes,
+      trainingSet: {
+        hash: this.trainingSetHash(examples),
+        size: examples.length,
+        compoundIds: examples.map(example => example.id),
+        features: raw.map(row => encodeFeatures(row, request.featureType)),
+        targets,
+      },
+      featureSpace: space.toJSON(),
+      parameters,
+      metrics,
+      applicabilityDomain: { method: 'knn_distance', ...domain },
+    });
+
+    logger.info(`Trained QSAR model "${request.name}" (${request.algorithm}, ${request.featureType}) on ${examples.length} compounds`);
+    // Re-read so the stored training data and parameters stay out of the response
+    return (await QsarModel.findById(document._id))!;
+  }
+
+  public async list(includeRetired: boolean = false): Promise<QsarModelDocument[]> {
+    this.ensureConnected();
+    return QsarModel.find(includeRetired ? {} : { status: 'active' }).sort({ name: 1 });
+  }
+
+  public async get(id: string): Promise<QsarModelDocument | null> {
+    this.ensureConnected();
+    return Types.ObjectId.isValid(id) ? QsarModel.findById(id) : null;
+  }
+
+  /**
+   * Stops a model from serving predictions; it stays stored for reference
+   */
+  public async retire(id: string): Promise<QsarModelDocument | null> {
+    this.ensureConnected();
+    if (!Types.ObjectId.isValid(id)) return null;
+    this.compiled.delete(id);
+    return QsarModel.findByIdAndUpdate(id, { status: 'retired' }, { new: true });
+  }
+
+  /**
+   * Prediction from one active model, or null if it does not exist or is retired
+   */
+  public async predict(id: string, molecule: Molecule): Promise<QsarPrediction | null> {
+    const document = await this.get(id);
+    if (!document || document.status !== 'active') return null;
+    const model = await this.compile(document);
+    return this.apply(model, computeFeatures(molecule, document.featureType));
+  }
+
+  /**
+   * Predictions from every active model
+   */
+  public async predictAll(molecule: Molecule): Promise<QsarPrediction[]> {
+    const documents = await this.list();
+    const features = new Map<FeatureType, number[]>();
+    const predictions: QsarPrediction[] = [];
+
+    for (const document of documents) {
+      if (!features.has(document.featureType)) {
+        features.set(document.featureType, computeFeatures(molecule, document.featureType));
+      }
+      predictions.push(this.apply(await this.compile(document), features.get(document.featureType)!));
+    }
+    return predictions;
+  }
+
+  private async loadExamples(
+    endpoint: QsarEndpoint,
+    featureType: FeatureType
+  ): Promise<Array<{ id: Types.ObjectId; smiles: string; value: number | string; features: number[] }>> {
+    const filter: FilterQuery<ICompound> = { status: 'active' };
+    let field: string;
+    switch (endpoint.kind) {
+      case 'property':
+        filter[endpoint.path] = { $type: 'number' };
+        field = endpoint.path;
+        break;
+      case 'class':
+        filter[endpoint.path] = { $exists: true, $ne: null };
+        field = endpoint.path;
+        break;
+      case 'affinity':
+        filter['bioactivity.targets'] = { $elemMatch: { name: endpoint.target, affinity: { $type: 'number' } } };
+        field = 'bioactivity.targets';
+        break;
+      case 'therapeuticArea':
+        field = 'bioactivity.therapeuticAreas';
+        break;
+    }
+
+    const records = await Compound.find(filter).select(`smiles ${field}`).lean<TrainingRecord[]>();
+    const examples: Array<{ id: Types.ObjectId; smiles: string; value: number | string; features: number[] }> = [];
+    for (const record of records) {
+      const value = this.endpointValue(endpoint, record);
+      if (value === null) continue;
+      try {
+        const molecule = parseSmiles(record.smiles);
+        examples.push({ id: record._id, smiles: canonicalSmiles(molecule), value, features: computeFeatures(molecule, featureType) });
+      } catch (error) {
+        logger.warn(`Skipping compound ${record._id} in QSAR training: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return examples;
+  }
+
+  private endpointValue(endpoint: QsarEndpoint, record: TrainingRecord): number | string | null {
+    switch (endpoint.kind) {
+      case 'property': {
+        const value = valueAt(record, endpoint.path);
+        return typeof value === 'number' && isFinite(value) ? value : null;
+      }
+      case 'class': {
+        const value = valueAt(record, endpoint.path);
+        return value === undefined || value === null ? null : String(value);
+      }
+      case 'affinity': {
+        const targets = (valueAt(record, 'bioactivity.targets') ?? []) as Array<{ name: string; affinity?: number }>;
+        return targets.find(target => target.name === endpoint.target && typeof target.affinity === 'number')?.affinity ?? null;
+      }
+      case 'therapeuticArea': {
+        const areas = (valueAt(record, 'bioactivity.therapeuticAreas') ?? []) as string[];
+        return areas.some(area => area.toLowerCase() === endpoint.area.toLowerCase()) ? 'yes' : 'no';
+      }
+    }
+  }
+
+  /**
+   * k-fold cross-validation; scaling is refitted inside each fold so held-out compounds stay unseen
+   */
+  private async crossValidate(
+    request: TrainingRequest,
+    task: QsarTask,
+    hyperparameters: Hyperparameters,
+    raw: number[][],
+    targets: number[],
+    classCount: number,
+    folds: number,
+    seed: number
+  ): Promise<QsarMetrics> {
+    const predicted = new Array<number>(targets.length).fill(0);
+    const partitions = kFolds(targets.length, folds, createRandom(seed));
+
+    for (const test of partitions) {
+      const held = new Set(test);
+      const train = targets.map((_, index) => index).filter(index => !held.has(index));
+      const space = FeatureSpace.fit(request.featureType, train.map(index => raw[index]!));
+      const data = {
+        features: train.map(index => space.transform(raw[index]!)),
+        targets: train.map(index => targets[index]!),
+        classCount,
+        distance: (a: number[], b: number[]) => space.distance(a, b),
+      };
+      const estimator = createEstimator(fitEstimator(request.algorithm, task, hyperparameters, data, seed), task, hyperparameters, data);
+
+      for (const index of test) {
+        const output = estimator.predict(space.transform(raw[index]!));
+        predicted[index] = typeof output === 'number' ? output : output.indexOf(Math.max(...output));
+      }
+      await yieldToEventLoop();
+    }
+
+    if (task === 'regression') {
+      const { r2, rmse, mae } = regressionMetrics(targets, predicted);
+      return { folds: partitions.length, r2: round(r2), rmse: round(rmse), mae: round(mae) };
+    }
+    const { accuracy, balancedAccuracy } = classificationMetrics(targets, predicted, classCount);
+    return { folds: partitions.length, accuracy: round(accuracy), balancedAccuracy: round(balancedAccuracy) };
+  }
+
+  private trainingSetHash(examples: Array<{ smiles: string; value: number | string }>): string {
+    const lines = examples.map(example => `${example.smiles}\t${example.value}`).sort();
+    return createHash('sha256').update(lines.join('\n')).digest('hex');
+  }
+
+  private async compile(document: QsarModelDocument): Promise<CompiledModel> {
+    const id = document._id.toString();
+    const cached = this.compiled.get(id);
+    if (cached && cached.updatedAt === document.updatedAt.getTime()) {
+      return cached;
+    }
+
+    const full = await QsarModel.findById(id).select('+parameters +trainingSet.features +trainingSet.targets');
+    if (!full) {
+      throw new Error(`QSAR model ${id} disappeared while loading`);
+    }
+
+    const space = new FeatureSpace(full.featureSpace);
+    const training = full.trainingSet.features.map(encoded => space.transform(decodeFeatures(encoded, full.featureType)));
+    const data = {
+      features: training,
+      targets: full.trainingSet.targets,
+      classCount: full.classes.length,
+      distance: (a: number[], b: number[]) => space.distance(a, b),
+    };
+    const model: CompiledModel = {
+      updatedAt: full.updatedAt.getTime(),
+      document: full,
+      space,
+      training,
+      estimator: createEstimator(full.parameters, full.task, full.hyperparameters, data),
+      domain: { k: full.applicabilityDomain.k, threshold: full.applicabilityDomain.threshold },
+    };
+    this.compiled.set(id, model);
+    return model;
+  }
+
+  private apply(model: CompiledModel, rawFeatures: number[]): QsarPrediction {
+    const { document } = model;
+    const features = model.space.transform(rawFeatures);
+    const output = model.estimator.predict(features);
+    const distance = domainDistance(model.training, features, (a, b) => model.space.distance(a, b), model.domain);
+    const inDomain = distance <= model.domain.threshold;
+    const domainFactor = inDomain ? 1 : distance > 0 ? model.domain.threshold / distance : 0;
+
+    const performance = document.task === 'regression'
+      ? Math.max(0, document.metrics.r2 ?? 0)
+      : document.metrics.balancedAccuracy ?? 0;
+
+    const prediction: QsarPrediction = {
+      modelId: document._id.toString(),
+      modelName: document.name,
+      endpoint: describeEndpoint(document.endpoint),
+      task: document.task,
+      algorithm: document.algorithm,
+      featureType: document.featureType,
+      value: 0,
+      confidence: 0,
+      inDomain,
+      domainDistance: round(distance),
+    };
+
+    if (typeof output === 'number') {
+      prediction.value = round(output);
+      prediction.confidence = round(performance * domainFactor);
+    } else {
+      const best = output.indexOf(Math.max(...output));
+      prediction.value = round(output[best]!);
+      prediction.label = document.classes[best]!;
+      prediction.confidence = round(performance * domainFactor * output[best]!);
+    }
+    return prediction;
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+export const qsarRegistry = new QsarRegistry();
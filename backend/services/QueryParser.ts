@@ -564,6 +564,19 @@ export interface QualityAssessment {
   technical_precision: number;
 }
 
+/**
+ * Alternatives used when an agent is unavailable; conditions read `<agent>_agent_unavailable` and
+ * alternatives `<agent>_agent`, so the agent coordinator can route around agents whose circuit is open
+ */
+export const AGENT_FALLBACK_OPTIONS: FallbackOption[] = [
+  {
+    condition: 'literature_agent_unavailable',
+    alternative: 'cross_reference_agent',
+    performance_impact: 'moderate',
+    implementation: 'Use cross-reference for traditional knowledge'
+  }
+];
+
 /**
  * Enhanced Query Parser for intelligent multi-language query processing
  */
@@ -1211,14 +1224,7 @@ class AgentRouter {
         criticalPath: ['phase_1'],
         estimatedDuration: 75
       },
-      fallbackOptions: [
-        {
-          condition: 'literature_agent_unavailable',
-          alternative: 'cross_reference_agent',
-          performance_impact: 'moderate',
-          implementation: 'Use cross-reference for traditional knowledge'
-        }
-      ]
+      fallbackOptions: AGENT_FALLBACK_OPTIONS
     };
   }
 }
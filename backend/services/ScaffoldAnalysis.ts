@@ -0,0 +1,153 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound from '../models/Compound';
+import { HerbModel } from '../models/Herb';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { ScaffoldSmiles, parseSmiles, scaffoldSmiles } from './chemistry';
+import logger from '../utils/logger';
+
+export type ScaffoldType = 'murcko' | 'generic';
+
+export interface ScaffoldGroupOptions {
+  type: ScaffoldType;
+  /** Smallest group reported */
+  minCount: number;
+  /** Largest number of groups returned, most populated first */
+  limit: number;
+}
+
+export interface ScaffoldHerbCount {
+  id: string;
+  name: string;
+  botanicalName: string;
+  compoundCount: number;
+}
+
+export interface ScaffoldGroup {
+  scaffold: string;
+  compoundCount: number;
+  compounds: Array<{ id: string; name: string }>;
+  /** Herbs containing compounds with this scaffold, most compounds first */
+  herbs: ScaffoldHerbCount[];
+}
+
+export interface ScaffoldSummary {
+  type: ScaffoldType;
+  totalCompounds: number;
+  /** Compounds without rings, which have no scaffold */
+  acyclicCompounds: number;
+  scaffoldCount: number;
+  groups: ScaffoldGroup[];
+}
+
+interface ScaffoldRecord {
+  _id: Types.ObjectId;
+  name: string;
+  smiles: string;
+  scaffold?: Partial<ScaffoldSmiles>;
+}
+
+interface HerbRecord {
+  _id: Types.ObjectId;
+  name: { sanskrit: string; botanical: string };
+  compounds: Types.ObjectId[];
+}
+
+/**
+ * Groups the compound library by Bemis–Murcko scaffold or generic framework and counts the
+ * herbs each chemotype occurs in
+ */
+export class ScaffoldAnalysis {
+  public async groupByScaffold(options: ScaffoldGroupOptions): Promise<ScaffoldSummary> {
+    this.ensureConnected();
+
+    const records = await Compound.find({}).select('name smiles scaffold').lean<ScaffoldRecord[]>();
+    const stale: Array<{ id: Types.ObjectId; scaffold: ScaffoldSmiles }> = [];
+
+    const byScaffold = new Map<string, ScaffoldRecord[]>();
+    let acyclic = 0;
+    for (const record of records) {
+      let scaffold = record.scaffold;
+      if (scaffold?.murcko === undefined || scaffold.generic === undefined) {
+        try {
+          const computed = scaffoldSmiles(parseSmiles(record.smiles));
+          stale.push({ id: record._id, scaffold: computed });
+          scaffold = computed;
+        } catch (error) {
+          logger.warn(`Skipping compound ${record._id} in scaffold analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          continue;
+        }
+      }
+
+      const key = scaffold[options.type]!;
+      if (!key) {
+        acyclic++;
+        continue;
+      }
+      const group = byScaffold.get(key) ?? [];
+      group.push(record);
+      byScaffold.set(key, group);
+    }
+
+    if (stale.length > 0) {
+      await this.backfill(stale);
+    }
+
+    const selected = [...byScaffold.entries()]
+      .filter(([, members]) => members.length >= options.minCount)
+      .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+      .slice(0, options.limit);
+
+    const herbs = await HerbModel.find({ compounds: { $in: selected.flatMap(([, members]) => members.map(member => member._id)) } })
+      .select('name.sanskrit name.botanical compounds')
+      .lean<HerbRecord[]>();
+
+    return {
+      type: options.type,
+      totalCompounds: records.length,
+      acyclicCompounds: acyclic,
+      scaffoldCount: byScaffold.size,
+      groups: selected.map(([scaffold, members]) => ({
+        scaffold,
+        compoundCount: members.length,
+        compounds: members.map(member => ({ id: member._id.toString(), name: member.name })),
+        herbs: this.countHerbs(members, herbs),
+      })),
+    };
+  }
+
+  private countHerbs(members: ScaffoldRecord[], herbs: HerbRecord[]): ScaffoldHerbCount[] {
+    const ids = new Set(members.map(member => member._id.toString()));
+    return herbs
+      .map(herb => ({
+        id: herb._id.toString(),
+        name: herb.name.sanskrit,
+        botanicalName: herb.name.botanical,
+        compoundCount: herb.compounds.filter(compound => ids.has(compound.toString())).length,
+      }))
+      .filter(herb => herb.compoundCount > 0)
+      .sort((a, b) => b.compoundCount - a.compoundCount || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Stores scaffolds for records saved before they were computed on save
+   */
+  private async backfill(stale: Array<{ id: Types.ObjectId; scaffold: ScaffoldSmiles }>): Promise<void> {
+    try {
+      await Compound.bulkWrite(stale.map(({ id, scaffold }) => ({
+        updateOne: { filter: { _id: id }, update: { $set: { scaffold } } },
+      })));
+      logger.info(`Backfilled scaffolds for ${stale.length} compounds`);
+    } catch (error) {
+      logger.warn(`Scaffold backfill failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private ensureConnected(): void {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+  }
+}
+
+export const scaffoldAnalysis = new ScaffoldAnalysis();
@@ -0,0 +1,96 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import {
+  Fingerprint,
+  FingerprintType,
+  StoredFingerprints,
+  computeFingerprints,
+  fingerprintFromStored,
+  parseSmiles,
+  sharedStructuralKeys,
+} from './chemistry';
+import { fingerprintStore } from './FingerprintStore';
+import logger from '../utils/logger';
+
+export interface SimilaritySearchOptions {
+  limit?: number;
+  threshold?: number;
+  fingerprint?: FingerprintType;
+  excludeIds?: string[];
+}
+
+export interface SimilarityHit {
+  compound: ICompound;
+  similarity: number;
+  sharedFeatures: string[];
+}
+
+/**
+ * Tanimoto top-k search over the fingerprints stored on the Compound collection
+ */
+export class SimilaritySearch {
+  /**
+   * Finds analogues of an arbitrary structure
+   */
+  public async findSimilarToSmiles(smiles: string, options: SimilaritySearchOptions = {}): Promise<SimilarityHit[]> {
+    return this.search(computeFingerprints(parseSmiles(smiles)), options);
+  }
+
+  /**
+   * Finds analogues of a stored compound, excluding the compound itself
+   */
+  public async findSimilarToCompound(id: string, options: SimilaritySearchOptions = {}): Promise<SimilarityHit[] | null> {
+    const record = await fingerprintStore.loadOne(id);
+    if (!record) {
+      return null;
+    }
+
+    return this.search(record.fingerprints, {
+      ...options,
+      excludeIds: [...(options.excludeIds || []), record._id.toString()],
+    });
+  }
+
+  private async search(query: StoredFingerprints, options: SimilaritySearchOptions): Promise<SimilarityHit[]> {
+    const limit = options.limit ?? 10;
+    const threshold = options.threshold ?? 0.5;
+    const type = options.fingerprint ?? 'morgan';
+
+    if (!dbConnection.isConnectionHealthy()) {
+      logger.warn('Compound database unavailable, similarity search skipped');
+      return [];
+    }
+
+    const excluded = (options.excludeIds || []).filter(id => Types.ObjectId.isValid(id));
+    const candidates = await fingerprintStore.loadMany({
+      status: 'active',
+      ...(excluded.length > 0 && { _id: { $nin: excluded } }),
+    }, 'similarity search');
+
+    const queryFingerprint = fingerprintFromStored(query, type);
+    const queryKeys = fingerprintFromStored(query, 'maccs');
+
+    const scored: Array<{ id: Types.ObjectId; similarity: number; keys: Fingerprint }> = [];
+    for (const candidate of candidates) {
+      const similarity = queryFingerprint.tanimoto(fingerprintFromStored(candidate.fingerprints, type));
+      if (similarity >= threshold) {
+        scored.push({ id: candidate._id, similarity, keys: fingerprintFromStored(candidate.fingerprints, 'maccs') });
+      }
+    }
+
+    const top = scored.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+    const records = await Compound.find({ _id: { $in: top.map(hit => hit.id) } });
+    const byId = new Map(records.map(record => [record._id.toString(), record]));
+
+    return top
+      .filter(hit => byId.has(hit.id.toString()))
+      .map(hit => ({
+        compound: byId.get(hit.id.toString())!,
+        similarity: Math.round(hit.similarity * 1000) / 1000,
+        sharedFeatures: sharedStructuralKeys(queryKeys, hit.keys),
+      }));
+  }
+}
+
+export const similaritySearch = new SimilaritySearch();
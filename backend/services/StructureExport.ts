@@ -0,0 +1,121 @@
+import {
+  ConformerSet,
+  compute2DCoordinates,
+  generateConformersAsync,
+  parseSmiles,
+  renderSvg,
+  writeMolBlock,
+  writeSdf,
+  writeXyz,
+} from './chemistry';
+
+export const STRUCTURE_FORMATS = ['svg', 'mol', 'sdf', 'xyz'] as const;
+export type StructureFormat = typeof STRUCTURE_FORMATS[number];
+
+export interface StructureFile {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<StructureFormat, string> = {
+  svg: 'image/svg+xml',
+  mol: 'chemical/x-mdl-molfile',
+  sdf: 'chemical/x-mdl-sdfile',
+  xyz: 'chemical/x-xyz',
+};
+
+/**
+ * 2D depictions and 3D conformers of stored structures; conformer sets are cached by SMILES
+ * because embedding is the expensive step, and embedding yields to the event loop between attempts
+ */
+export class StructureExport {
+  private conformerCache: Map<string, Promise<ConformerSet>> = new Map();
+  private readonly cacheSize: number;
+
+  constructor(cacheSize: number = 100) {
+    this.cacheSize = cacheSize;
+  }
+
+  public isFormat(format: unknown): format is StructureFormat {
+    return typeof format === 'string' && (STRUCTURE_FORMATS as readonly string[]).includes(format);
+  }
+
+  public depict(smiles: string, title?: string): string {
+    return renderSvg(parseSmiles(smiles), title ? { title } : {});
+  }
+
+  /**
+   * Rejects with ConformerError when no conformer can be embedded; concurrent requests for the
+   * same SMILES share one embedding
+   */
+  public conformers(smiles: string): Promise<ConformerSet> {
+    const cached = this.conformerCache.get(smiles);
+    if (cached) {
+      return cached;
+    }
+
+    const set = Promise.resolve()
+      .then(() => generateConformersAsync(parseSmiles(smiles)))
+      .catch((error: unknown) => {
+        this.conformerCache.delete(smiles);
+        throw error;
+      });
+    if (this.conformerCache.size >= this.cacheSize) {
+      const oldest = this.conformerCache.keys().next().value;
+      if (oldest !== undefined) this.conformerCache.delete(oldest);
+    }
+    this.conformerCache.set(smiles, set);
+    return set;
+  }
+
+  /**
+   * MOL block of the lowest-energy conformer
+   */
+  public async molBlock3D(name: string, smiles: string): Promise<string> {
+    const set = await this.conformers(smiles);
+    return writeMolBlock(set.molecule, set.conformers[0]!.coordinates, { name, comment: smiles });
+  }
+
+  /**
+   * svg and mol are 2D drawings; sdf holds every conformer and xyz the lowest one
+   */
+  public async export(name: string, smiles: string, format: StructureFormat): Promise<StructureFile> {
+    const fileName = `${name.replace(/[^A-Za-z0-9._-]+/g, '_') || 'structure'}.${format}`;
+    const file = (content: string): StructureFile => ({ content, contentType: CONTENT_TYPES[format], fileName });
+
+    switch (format) {
+      case 'svg':
+        return file(this.depict(smiles, name));
+      case 'mol': {
+        const molecule = parseSmiles(smiles);
+        return file(writeMolBlock(molecule, compute2DCoordinates(molecule), { name, comment: smiles }) + '\n');
+      }
+      case 'sdf': {
+        const set = await this.conformers(smiles);
+        return file(writeSdf(set.conformers.map((conformer, index) => ({
+          molecule: set.molecule,
+          coordinates: conformer.coordinates,
+          name,
+          properties: {
+            smiles,
+            conformer: index + 1,
+            energy_kcal_mol: round(conformer.energy),
+            rmsd_to_lowest: round(conformer.rmsdToLowest),
+          },
+        }))));
+      }
+      case 'xyz': {
+        const set = await this.conformers(smiles);
+        const lowest = set.conformers[0]!;
+        return file(writeXyz(set.molecule, lowest.coordinates, `${name} E=${round(lowest.energy)} kcal/mol`));
+      }
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const structureExport = new StructureExport();
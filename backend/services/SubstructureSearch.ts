@@ -0,0 +1,139 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import {
+  Fingerprint,
+  SmartsPattern,
+  fingerprintFromStored,
+  getPharmacophorePatterns,
+  parseSmarts,
+  parseSmiles,
+  queryPatternFingerprint,
+} from './chemistry';
+import { fingerprintStore } from './FingerprintStore';
+import logger from '../utils/logger';
+
+export interface SubstructureQuery {
+  smarts?: string[];
+  /** Pharmacophore feature ids, matched through their SMARTS definitions */
+  features?: string[];
+  /** Whether a compound must match any or all of the queries */
+  match?: 'any' | 'all';
+  limit?: number;
+}
+
+export interface SubstructureHit {
+  compound: ICompound;
+  /** SMARTS strings and feature ids that matched */
+  matched: string[];
+  /** Atom indices of each match of the first matching query */
+  atoms: number[][];
+}
+
+export class UnknownFeatureError extends Error {
+  constructor(feature: string) {
+    super(`Unknown pharmacophore feature: ${feature}`);
+    this.name = 'UnknownFeatureError';
+  }
+}
+
+interface CompiledQuery {
+  label: string;
+  patterns: SmartsPattern[];
+  screens: Fingerprint[];
+}
+
+/**
+ * SMARTS search over the Compound collection, prefiltered by the stored pattern fingerprints
+ */
+export class SubstructureSearch {
+  /**
+   * Throws SmartsParseError for malformed SMARTS and UnknownFeatureError for unknown feature ids
+   */
+  public async search(query: SubstructureQuery): Promise<SubstructureHit[]> {
+    const queries = this.compile(query);
+    const mode = query.match ?? 'any';
+    const limit = query.limit ?? 50;
+
+    if (queries.length === 0) {
+      return [];
+    }
+
+    if (!dbConnection.isConnectionHealthy()) {
+      logger.warn('Compound database unavailable, substructure search skipped');
+      return [];
+    }
+
+    const candidates = await fingerprintStore.loadMany({ status: 'active' }, 'substructure search');
+    const hits: Array<{ id: Types.ObjectId; matched: string[]; atoms: number[][] }> = [];
+    let screenedOut = 0;
+
+    for (const candidate of candidates) {
+      if (hits.length >= limit) break;
+
+      const screen = fingerprintFromStored(candidate.fingerprints, 'pattern');
+      const passing = queries.filter(compiled => compiled.screens.some(fingerprint => screen.contains(fingerprint)));
+      if (mode === 'all' ? passing.length < queries.length : passing.length === 0) {
+        screenedOut++;
+        continue;
+      }
+
+      let molecule;
+      try {
+        molecule = parseSmiles(candidate.smiles);
+      } catch (error) {
+        logger.warn(`Skipping compound ${candidate._id} in substructure search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        continue;
+      }
+
+      const matched: string[] = [];
+      let atoms: number[][] = [];
+      for (const compiled of passing) {
+        for (const pattern of compiled.patterns) {
+          const matches = pattern.match(molecule);
+          if (matches.length > 0) {
+            matched.push(compiled.label);
+            if (atoms.length === 0) atoms = matches;
+            break;
+          }
+        }
+      }
+
+      if (mode === 'all' ? matched.length === queries.length : matched.length > 0) {
+        hits.push({ id: candidate._id, matched, atoms });
+      }
+    }
+
+    logger.debug(`Substructure search screened out ${screenedOut} of ${candidates.length} compounds`);
+
+    const records = await Compound.find({ _id: { $in: hits.map(hit => hit.id) } });
+    const byId = new Map(records.map(record => [record._id.toString(), record]));
+
+    return hits
+      .filter(hit => byId.has(hit.id.toString()))
+      .map(hit => ({ compound: byId.get(hit.id.toString())!, matched: hit.matched, atoms: hit.atoms }));
+  }
+
+  private compile(query: SubstructureQuery): CompiledQuery[] {
+    const compiled: CompiledQuery[] = [];
+
+    for (const smarts of query.smarts || []) {
+      compiled.push(this.compileQuery(smarts, [parseSmarts(smarts)]));
+    }
+    for (const feature of query.features || []) {
+      const patterns = getPharmacophorePatterns(feature);
+      if (!patterns) {
+        throw new UnknownFeatureError(feature);
+      }
+      compiled.push(this.compileQuery(feature, patterns));
+    }
+
+    return compiled;
+  }
+
+  private compileQuery(label: string, patterns: SmartsPattern[]): CompiledQuery {
+    return { label, patterns, screens: patterns.map(pattern => queryPatternFingerprint(pattern)) };
+  }
+}
+
+export const substructureSearch = new SubstructureSearch();
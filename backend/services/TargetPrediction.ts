@@ -0,0 +1,172 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../config/database';
+import Compound, { ICompound } from '../models/Compound';
+import { Molecule, computeFingerprints, fingerprintFromStored } from './chemistry';
+import { DatabaseUnavailableError } from './CompoundDeduplication';
+import { fingerprintStore } from './FingerprintStore';
+
+export interface TargetPredictionOptions {
+  /** Morgan Tanimoto below which a ligand contributes nothing to a target's raw score */
+  threshold?: number;
+  /** Predictions with a larger E-value are dropped */
+  maxEValue?: number;
+  limit?: number;
+  /** Compounds left out of the reference ligand sets, usually the query itself */
+  excludeIds?: string[];
+}
+
+export interface LigandEvidence {
+  id: string;
+  name: string;
+  similarity: number;
+  affinity?: number;
+}
+
+export interface TargetPrediction {
+  target: string;
+  targetType: string;
+  /** Reference ligands annotated with the target */
+  ligandCount: number;
+  /** Sum of the above-threshold Tanimoto similarities to the target's ligands */
+  rawScore: number;
+  zScore: number;
+  pValue: number;
+  /** Expected number of targets scoring this well by chance */
+  eValue: number;
+  maxSimilarity: number;
+  nearestLigands: LigandEvidence[];
+}
+
+export interface TargetPredictionResult {
+  predictions: TargetPrediction[];
+  referenceLigands: number;
+  targetsScreened: number;
+  threshold: number;
+}
+
+type ReferenceCompound = Pick<ICompound, 'name' | 'bioactivity'> & { _id: Types.ObjectId };
+
+interface TargetSet {
+  label: string;
+  type: string;
+  ligands: Array<{ index: number; affinity?: number }>;
+}
+
+/** Morgan radius-2 similarities below this are indistinguishable from unrelated pairs */
+const DEFAULT_THRESHOLD = 0.4;
+const NEAREST_LIGANDS = 3;
+
+/** Euler–Mascheroni constant, the mean of the standard Gumbel distribution */
+const EULER_GAMMA = 0.5772156649015329;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * P(Z ≥ z) under the standardised extreme value distribution that SEA z-scores follow
+ */
+function extremeValuePValue(z: number): number {
+  return -Math.expm1(-Math.exp(-z * Math.PI / Math.sqrt(6) - EULER_GAMMA));
+}
+
+/**
+ * Similarity ensemble approach (Keiser et al., 2007) over the curated compound–target data
+ *
+ * Each target is represented by the active compounds annotated with it. A query's raw score
+ * for a target is the sum of its above-threshold Tanimoto similarities to those ligands; the
+ * score is standardised against random ligand sets of the same size drawn from the reference
+ * library, and the z-score converted to a p-value and an E-value over all targets screened.
+ */
+export class TargetPredictor {
+  public async predict(molecule: Molecule, options: TargetPredictionOptions = {}): Promise<TargetPredictionResult> {
+    if (!dbConnection.isConnectionHealthy()) {
+      throw new DatabaseUnavailableError();
+    }
+
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    const maxEValue = options.maxEValue ?? 10;
+    const limit = options.limit ?? 20;
+    const excluded = (options.excludeIds ?? []).filter(id => Types.ObjectId.isValid(id));
+
+    const filter = {
+      status: 'active',
+      'bioactivity.targets.0': { $exists: true },
+      ...(excluded.length > 0 && { _id: { $nin: excluded } }),
+    };
+    const [fingerprints, references] = await Promise.all([
+      fingerprintStore.loadMany(filter, 'target prediction'),
+      Compound.find(filter).select('name bioactivity.targets').lean<ReferenceCompound[]>(),
+    ]);
+
+    const query = fingerprintFromStored(computeFingerprints(molecule), 'morgan');
+    const similarities = new Map(fingerprints.map(record => [
+      record._id.toString(),
+      query.tanimoto(fingerprintFromStored(record.fingerprints, 'morgan')),
+    ]));
+
+    // Ligands whose SMILES no longer parse have no fingerprint and are left out
+    const ligands = references.filter(reference => similarities.has(reference._id.toString()));
+    const scores = ligands.map(ligand => {
+      const similarity = similarities.get(ligand._id.toString())!;
+      return similarity >= threshold ? similarity : 0;
+    });
+
+    const targets = new Map<string, TargetSet>();
+    ligands.forEach((ligand, index) => {
+      const seen = new Set<string>();
+      for (const target of ligand.bioactivity.targets) {
+        const key = target.name?.trim().toLowerCase();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        const set = targets.get(key) ?? { label: target.name.trim(), type: target.type, ligands: [] };
+        set.ligands.push({ index, ...(target.affinity !== undefined && { affinity: target.affinity }) });
+        targets.set(key, set);
+      }
+    });
+
+    const result: TargetPredictionResult = { predictions: [], referenceLigands: ligands.length, targetsScreened: targets.size, threshold };
+    const mean = scores.reduce((sum, score) => sum + score, 0) / (scores.length || 1);
+    const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (scores.length || 1);
+    if (variance === 0) return result;
+
+    for (const set of targets.values()) {
+      const rawScore = set.ligands.reduce((sum, ligand) => sum + scores[ligand.index]!, 0);
+      if (rawScore === 0) continue;
+
+      const size = set.ligands.length;
+      const zScore = (rawScore - size * mean) / Math.sqrt(size * variance);
+      const pValue = extremeValuePValue(zScore);
+      const eValue = pValue * targets.size;
+      if (eValue > maxEValue) continue;
+
+      const nearest = [...set.ligands]
+        .sort((a, b) => scores[b.index]! - scores[a.index]!)
+        .filter(ligand => scores[ligand.index]! > 0)
+        .slice(0, NEAREST_LIGANDS)
+        .map(ligand => ({
+          id: ligands[ligand.index]!._id.toString(),
+          name: ligands[ligand.index]!.name,
+          similarity: round(scores[ligand.index]!),
+          ...(ligand.affinity !== undefined && { affinity: ligand.affinity }),
+        }));
+
+      result.predictions.push({
+        target: set.label,
+        targetType: set.type,
+        ligandCount: size,
+        rawScore: round(rawScore),
+        zScore: round(zScore),
+        pValue: Number(pValue.toPrecision(3)),
+        eValue: Number(eValue.toPrecision(3)),
+        maxSimilarity: nearest[0]?.similarity ?? 0,
+        nearestLigands: nearest,
+      });
+    }
+
+    result.predictions = result.predictions
+      .sort((a, b) => a.eValue - b.eValue || b.maxSimilarity - a.maxSimilarity || a.target.localeCompare(b.target))
+      .slice(0, limit);
+    return result;
+  }
+}
+
+export const targetPredictor = new TargetPredictor();
@@ -0,0 +1,137 @@
+import { Types } from 'mongoose';
+import Compound from '../../models/Compound';
+import { HerbModel } from '../../models/Herb';
+import Literature from '../../models/Literature';
+import { CompoundDeduplicator, DuplicateGroup } from '../CompoundDeduplication';
+import { query } from '../../test-utils/mongooseQuery';
+
+function compound(name: string, smiles: string, extra: Record<string, unknown> = {}) {
+  return new Compound({
+    name,
+    smiles,
+    inchi: `InChI=1S/${name}`,
+    bioactivity: { targets: [], mechanisms: [], therapeuticAreas: [], pathways: [], cellularEffects: [] },
+    safety: { adverseEffects: [], contraindications: [], drugInteractions: [] },
+    research: { clinicalTrials: [], publications: 0 },
+    classification: { chemicalClass: [], pharmacologicalClass: [], therapeuticClass: [] },
+    ...extra,
+  });
+}
+
+describe('CompoundDeduplicator merge', () => {
+  const herbId = new Types.ObjectId();
+  let primary: ReturnType<typeof compound>;
+  let duplicate: ReturnType<typeof compound>;
+  let deduplicator: CompoundDeduplicator;
+  let calls: string[];
+
+  beforeEach(() => {
+    calls = [];
+    primary = compound('Curcumin', 'COc1cc(C=CC(=O)CC(=O)C=Cc2ccc(O)c(OC)c2)ccc1O', {
+      bioactivity: { targets: [{ name: 'COX-2', type: 'enzyme' }], mechanisms: [], therapeuticAreas: ['inflammation'], pathways: [], cellularEffects: [] },
+      admet: { toxicity: { acuteToxicity: { oralLD50: 2000, toxicityClass: 'low' } } },
+    });
+    duplicate = compound('Diferuloylmethane', 'O=C(C=Cc1ccc(O)c(OC)c1)CC(=O)C=Cc1ccc(O)c(OC)c1', {
+      casNumber: '458-37-7',
+      bioactivity: { targets: [{ name: 'cox-2', type: 'enzyme' }, { name: 'NF-kB', type: 'transcription_factor' }], mechanisms: [], therapeuticAreas: ['cancer'], pathways: [], cellularEffects: [] },
+      safety: { adverseEffects: ['nausea'], contraindications: [], drugInteractions: [{ drug: 'Warfarin', severity: 'moderate', mechanism: 'antiplatelet' }], pregnancyCategory: 'C' },
+      admet: { toxicity: { acuteToxicity: { oralLD50: 5000, toxicityClass: 'low' } } },
+    });
+
+    deduplicator = new CompoundDeduplicator();
+    const group: DuplicateGroup = {
+      structureKey: 'VFLDPWHFBUODDF-FCXRPNKRSA-N',
+      canonicalSmiles: primary.smiles,
+      primary: { id: primary._id.toString(), name: primary.name, smiles: primary.smiles, confidence: 0.9 },
+      duplicates: [{ id: duplicate._id.toString(), name: duplicate.name, smiles: duplicate.smiles, confidence: 0.5 }],
+    };
+    jest.spyOn(deduplicator, 'findDuplicates').mockResolvedValue([group]);
+
+    jest.spyOn(Compound, 'findById').mockReturnValue(query(primary) as never);
+    jest.spyOn(Compound, 'find').mockImplementation(() => query([duplicate], [duplicate._id]) as never);
+    jest.spyOn(Compound.prototype, 'validate').mockResolvedValue(undefined as never);
+    jest.spyOn(Compound.prototype, 'save').mockImplementation(async () => { calls.push('save'); });
+    jest.spyOn(Compound, 'updateOne').mockImplementation(((_filter: unknown, update: Record<string, unknown>) => {
+      calls.push(`updateOne ${JSON.stringify(update)}`);
+      return Promise.resolve({});
+    }) as never);
+    jest.spyOn(Compound, 'replaceOne').mockImplementation((() => {
+      calls.push('replaceOne');
+      return Promise.resolve({});
+    }) as never);
+    jest.spyOn(Compound, 'deleteMany').mockImplementation((() => {
+      calls.push('deleteMany');
+      return Promise.resolve({ deletedCount: 1 });
+    }) as never);
+
+    jest.spyOn(HerbModel, 'find').mockReturnValue(query([{ _id: herbId, compounds: [duplicate._id] }]) as never);
+    jest.spyOn(HerbModel, 'updateMany').mockImplementation(((_filter: unknown, update: Record<string, unknown>) => {
+      calls.push(`herb ${Object.keys(update)[0]}`);
+      return Promise.resolve({ modifiedCount: 1 });
+    }) as never);
+    jest.spyOn(Literature, 'find').mockReturnValue(query([]) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parks the duplicate, saves the primary and deletes the duplicate last', async () => {
+    const [result] = await deduplicator.mergeDuplicates();
+
+    expect(result!.error).toBeUndefined();
+    expect(result!.mergedIds).toEqual([duplicate._id.toString()]);
+    expect(result!.herbsUpdated).toBe(1);
+    expect(calls[0]).toContain('#merging-');
+    expect(calls.slice(1)).toEqual(['save', 'herb $addToSet', 'herb $pull', 'deleteMany']);
+  });
+
+  it('merges bioactivity, safety and ADMET data and reports differing values', async () => {
+    const [result] = await deduplicator.mergeDuplicates();
+
+    expect(primary.bioactivity.targets.map(target => target.name)).toEqual(['COX-2', 'NF-kB']);
+    expect(primary.bioactivity.therapeuticAreas).toEqual(['inflammation', 'cancer']);
+    expect(primary.safety.adverseEffects).toEqual(['nausea']);
+    expect(primary.safety.drugInteractions.map(interaction => interaction.drug)).toEqual(['Warfarin']);
+    expect(primary.safety.pregnancyCategory).toBe('C');
+    expect(primary.casNumber).toBe('458-37-7');
+    expect(primary.commonNames).toContain('Diferuloylmethane');
+    expect(result!.conflicts).toEqual([{
+      field: 'admet.toxicity.acuteToxicity.oralLD50',
+      compoundId: duplicate._id.toString(),
+      kept: 2000,
+      discarded: 5000,
+    }]);
+  });
+
+  it('restores the duplicate and touches nothing else when the primary cannot be saved', async () => {
+    (Compound.prototype.save as jest.Mock).mockImplementation(async () => {
+      throw new Error('E11000 duplicate key');
+    });
+
+    const [result] = await deduplicator.mergeDuplicates();
+
+    expect(result!.error).toBe('E11000 duplicate key');
+    expect(result!.mergedIds).toEqual([]);
+    expect(result!.conflicts).toEqual([]);
+    expect(calls).not.toContain('deleteMany');
+    expect(calls.some(call => call.startsWith('herb'))).toBe(false);
+    expect(calls[calls.length - 1]).toBe(`updateOne ${JSON.stringify({ $set: { smiles: duplicate.smiles, inchi: duplicate.inchi, casNumber: '458-37-7' } })}`);
+  });
+
+  it('undoes relinking and the primary update when deleting the duplicates fails', async () => {
+    (Compound.deleteMany as unknown as jest.Mock).mockImplementation(() => Promise.reject(new Error('connection reset')));
+
+    const [result] = await deduplicator.mergeDuplicates();
+
+    expect(result!.error).toBe('connection reset');
+    expect(result!.herbsUpdated).toBe(0);
+    const undo = calls.slice(calls.indexOf('herb $pull') + 1);
+    expect(undo).toEqual([
+      'herb $addToSet',
+      'herb $pull',
+      'replaceOne',
+      `updateOne ${JSON.stringify({ $set: { smiles: duplicate.smiles, inchi: duplicate.inchi, casNumber: '458-37-7' } })}`,
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound, { ICompound } from '../../models/Compound';
+import { CompoundExchange, ImportFormatError, MAX_3D_EXPORT } from '../CompoundExchange';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import { parseCsv } from '../../../shared/utils';
+import { structureKey, parseSmiles } from '../chemistry';
+import { query } from '../../test-utils/mongooseQuery';
+
+const DEFAULTS = {
+  'properties.solubility.water': 'slightly_soluble',
+  'properties.solubility.ethanol': 'highly_soluble',
+  'properties.bioavailability': 50,
+  'properties.halfLife': 2,
+};
+
+const CSV = [
+  'SMILES,Name,IUPAC_Name,InChI,Therapeutic_Areas',
+  'CCO,Ethanol,ethanol,InChI=1S/C2H6O,antiseptic; solvent',
+  'C1CC,Broken,broken,InChI=1S/broken,',
+  'OCC,Ethyl alcohol,ethanol,InChI=1S/C2H6O,',
+  'Oc1ccccc1,Phenol,phenol,InChI=1S/C6H6O,',
+  'CC(=O)O,Acetic acid,,,',
+].join('\n');
+
+describe('CompoundExchange', () => {
+  const exchange = new CompoundExchange();
+  const phenolId = new Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([{ _id: phenolId, structureKey: structureKey(parseSmiles('c1ccccc1O')) }]) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('import', () => {
+    it('reports each record of a dry run without writing', async () => {
+      const save = jest.spyOn(Compound.prototype, 'save');
+
+      const report = await exchange.import(CSV, { format: 'csv', defaults: DEFAULTS, dryRun: true });
+
+      expect(save).not.toHaveBeenCalled();
+      expect(report).toMatchObject({ dryRun: true, total: 5, valid: 1, imported: 0, invalid: 2, duplicates: 2 });
+      expect(report.records.map(record => [record.record, record.status, record.duplicateOf])).toEqual([
+        [1, 'valid', undefined],
+        [2, 'invalid', undefined],
+        [3, 'duplicate', 'record 1'],
+        [4, 'duplicate', phenolId.toString()],
+        [5, 'invalid', undefined],
+      ]);
+      expect(report.records[4]!.errors).toHaveLength(2);
+    });
+
+    it('saves valid records with mapped fields and a computed logP', async () => {
+      const saved: ICompound[] = [];
+      jest.spyOn(Compound.prototype, 'save').mockImplementation(function (this: ICompound) {
+        saved.push(this.toObject());
+        return Promise.resolve(this);
+      });
+
+      const report = await exchange.import(CSV, { format: 'csv', defaults: DEFAULTS });
+
+      expect(report.imported).toBe(1);
+      expect(report.records[0]!.id).toBe(saved[0]!._id.toString());
+      expect(saved[0]).toMatchObject({
+        name: 'Ethanol',
+        smiles: 'CCO',
+        bioactivity: { therapeuticAreas: ['antiseptic', 'solvent'] },
+        properties: { logP: expect.any(Number) },
+      });
+    });
+
+    it('maps custom columns and reads structures from a chosen column', async () => {
+      const csv = 'Structure,Label,IUPAC_Name,InChI\nCCO,Ethanol,ethanol,InChI=1S/C2H6O';
+
+      const report = await exchange.import(csv, { format: 'csv', smilesColumn: 'Structure', mapping: { Label: 'name' }, defaults: DEFAULTS, dryRun: true });
+
+      expect(report.records[0]).toMatchObject({ name: 'Ethanol', status: 'valid' });
+    });
+
+    it.each([
+      ['a derived field', { mapping: { Key: 'structureKey' } }],
+      ['an unknown field', { mapping: { Colour: 'colour' } }],
+      ['a derived default', { defaults: { molecularWeight: 46 } }],
+    ])('rejects %s as a target', async (_name, options) => {
+      await expect(exchange.import(CSV, { format: 'csv', ...options })).rejects.toThrow(ImportFormatError);
+    });
+
+    it('rejects CSV files without a structure column', async () => {
+      await expect(exchange.import('Name\nEthanol', { format: 'csv' })).rejects.toThrow('CSV header has no SMILES column');
+    });
+
+    it('refuses to run without a database connection', async () => {
+      jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+      await expect(exchange.import(CSV, { format: 'csv' })).rejects.toThrow(DatabaseUnavailableError);
+    });
+  });
+
+  describe('export', () => {
+    const collect = async (generator: AsyncGenerator<string>): Promise<string> => {
+      let content = '';
+      for await (const chunk of generator) content += chunk;
+      return content;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query([
+        new Compound({ name: 'Ethanol', smiles: 'CCO', iupacName: 'ethanol', inchi: 'InChI=1S/C2H6O', bioactivity: { therapeuticAreas: ['antiseptic', 'solvent'] } }).toObject(),
+        new Compound({ name: 'Broken', smiles: 'C1CC', iupacName: 'broken', inchi: 'InChI=1S/broken' }).toObject(),
+      ]) as never);
+    });
+
+    it('writes a CSV file that imports back with the same fields', async () => {
+      const rows = parseCsv(await collect(exchange.export({ format: 'csv' })));
+
+      expect(rows).toHaveLength(3);
+      expect(rows[1]!.slice(0, 4)).toEqual(['CCO', 'Ethanol', 'ethanol', 'InChI=1S/C2H6O']);
+      expect(rows[1]![rows[0]!.indexOf('Therapeutic_Areas')]).toBe('antiseptic; solvent');
+    });
+
+    it('skips compounds whose structure cannot be written', async () => {
+      const sdf = await collect(exchange.export({ format: 'sdf' }));
+
+      expect(sdf.match(/\$\$\$\$/g)).toHaveLength(1);
+      expect(sdf).toContain('> <Therapeutic_Areas>\nantiseptic\nsolvent');
+    });
+
+    it('limits 3D exports', async () => {
+      await expect(collect(exchange.export({ format: 'sdf', coordinates: '3d', limit: MAX_3D_EXPORT + 1 }))).rejects.toThrow(ImportFormatError);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { DRUG_PROFILES, findDrugProfile } from '../DrugProfiles';
+
+describe('findDrugProfile', () => {
+  it('finds a drug by generic or brand name, ignoring case and padding', () => {
+    expect(findDrugProfile('warfarin')?.name).toBe('warfarin');
+    expect(findDrugProfile(' Coumadin ')?.name).toBe('warfarin');
+    expect(findDrugProfile('Acetylsalicylic Acid')?.name).toBe('aspirin');
+  });
+
+  it('returns null for drugs outside the table', () => {
+    expect(findDrugProfile('heparin')).toBeNull();
+  });
+
+  it('gives every name and alias a single profile', () => {
+    const names = DRUG_PROFILES.flatMap(profile => [profile.name, ...profile.aliases]);
+
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,163 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { FormulationModel } from '../../models/Formulation';
+import { HerbModel } from '../../models/Herb';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import {
+  EnrichmentAnalyzer,
+  EnrichmentError,
+  MAX_ENRICHMENT_COMPOUNDS,
+  benjaminiHochberg,
+  hypergeometricUpperTail,
+} from '../EnrichmentAnalysis';
+import { query } from '../../test-utils/mongooseQuery';
+
+const compound = (name: string, pathways: string[]) => ({ _id: new Types.ObjectId(), name, bioactivity: { pathways } });
+
+const QUERY = [
+  compound('Curcumin', ['NF-kB', 'MAPK', 'Wnt']),
+  compound('Demethoxycurcumin', ['nf-kb']),
+  compound('Bisdemethoxycurcumin', [' NF-kB ', 'MAPK']),
+  compound('ar-Turmerone', []),
+];
+
+describe('hypergeometricUpperTail', () => {
+  it('matches exact tail probabilities', () => {
+    // Fisher's lady tasting tea: all four cups right by chance
+    expect(hypergeometricUpperTail(4, 8, 4, 4)).toBeCloseTo(1 / 70, 12);
+    expect(hypergeometricUpperTail(4, 10, 5, 5)).toBeCloseTo(26 / 252, 12);
+  });
+
+  it('is 1 at or below the smallest possible overlap and 0 above the largest', () => {
+    expect(hypergeometricUpperTail(0, 10, 5, 5)).toBe(1);
+    expect(hypergeometricUpperTail(3, 10, 8, 5)).toBe(1);
+    expect(hypergeometricUpperTail(6, 10, 5, 5)).toBe(0);
+  });
+
+  it('stays finite for large backgrounds', () => {
+    const p = hypergeometricUpperTail(50, 20000, 100, 100);
+
+    expect(p).toBeGreaterThan(0);
+    expect(p).toBeLessThan(1e-80);
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('adjusts in input order and keeps adjusted values monotone in rank', () => {
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.2]);
+
+    expect(adjusted[0]).toBeCloseTo(0.04, 12);
+    expect(adjusted[1]).toBeCloseTo(0.16 / 3, 12);
+    expect(adjusted[2]).toBeCloseTo(0.16 / 3, 12);
+    expect(adjusted[3]).toBeCloseTo(0.2, 12);
+  });
+
+  it('handles an empty list', () => {
+    expect(benjaminiHochberg([])).toEqual([]);
+  });
+});
+
+describe('EnrichmentAnalyzer', () => {
+  let analyzer: EnrichmentAnalyzer;
+  let aggregate: jest.SpyInstance;
+
+  beforeEach(() => {
+    analyzer = new EnrichmentAnalyzer();
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(Compound, 'find').mockReturnValue(query(QUERY) as never);
+    // 20 active compounds have pathways; Wnt is missing from the background
+    aggregate = jest.spyOn(Compound, 'aggregate').mockResolvedValue([{ _id: 'nf-kb', count: 4 }, { _id: 'mapk', count: 10 }] as never);
+    jest.spyOn(Compound, 'countDocuments').mockResolvedValue(20 as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const compoundIds = QUERY.map(entry => entry._id.toString());
+
+  it('tests terms against the active background and corrects within the category', async () => {
+    const result = await analyzer.analyze({ compoundIds, categories: ['pathway'] });
+
+    expect(result.query).toEqual({ compounds: 4, excludedCompounds: [] });
+    expect(result.terms).toEqual([
+      {
+        category: 'pathway',
+        term: 'NF-kB',
+        overlap: 3,
+        querySize: 3,
+        termSize: 4,
+        backgroundSize: 20,
+        foldEnrichment: 5,
+        pValue: 0.003509,
+        adjustedPValue: 0.007018,
+        significant: true,
+        compounds: expect.any(Array),
+      },
+      {
+        category: 'pathway',
+        term: 'MAPK',
+        overlap: 2,
+        querySize: 3,
+        termSize: 10,
+        backgroundSize: 20,
+        foldEnrichment: 1.333,
+        pValue: 0.5,
+        adjustedPValue: 0.5,
+        significant: false,
+        compounds: expect.any(Array),
+      },
+    ]);
+    expect(result.terms[0]!.compounds.map(entry => entry.name)).toEqual(['Curcumin', 'Demethoxycurcumin', 'Bisdemethoxycurcumin']);
+  });
+
+  it('skips terms below the minimum overlap', async () => {
+    const result = await analyzer.analyze({ compoundIds, categories: ['pathway'], minOverlap: 3 });
+
+    expect(result.terms.map(term => term.term)).toEqual(['NF-kB']);
+  });
+
+  it('reports requested compounds that are not active', async () => {
+    const archived = new Types.ObjectId().toString();
+
+    const result = await analyzer.analyze({ compoundIds: [...compoundIds, archived], categories: ['pathway'] });
+
+    expect(result.query.excludedCompounds).toEqual([archived]);
+  });
+
+  it('reuses the background counts between analyses', async () => {
+    await analyzer.analyze({ compoundIds, categories: ['pathway'] });
+    await analyzer.analyze({ compoundIds, categories: ['pathway'] });
+
+    expect(aggregate).toHaveBeenCalledTimes(1);
+  });
+
+  it('collects compounds from formulation herbs', async () => {
+    const herb = new Types.ObjectId();
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query({ ingredients: [{ herb, parts: 1 }] }) as never);
+    const herbFind = jest.spyOn(HerbModel, 'find').mockReturnValue(query([{ compounds: QUERY.map(entry => entry._id) }]) as never);
+
+    const result = await analyzer.analyze({ formulationId: new Types.ObjectId().toString(), categories: ['pathway'] });
+
+    expect(herbFind).toHaveBeenCalledWith({ _id: { $in: [herb.toString()] } });
+    expect(result.query.compounds).toBe(4);
+  });
+
+  it('rejects invalid, empty and oversized requests', async () => {
+    jest.spyOn(HerbModel, 'find').mockReturnValue(query([{ compounds: [] }]) as never);
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query(null) as never);
+    const tooMany = Array.from({ length: MAX_ENRICHMENT_COMPOUNDS + 1 }, () => new Types.ObjectId().toString());
+
+    await expect(analyzer.analyze({ compoundIds: ['curcumin'] })).rejects.toThrow('Invalid id: curcumin');
+    await expect(analyzer.analyze({ herbIds: [new Types.ObjectId().toString()] })).rejects.toThrow(EnrichmentError);
+    await expect(analyzer.analyze({ compoundIds: tooMany })).rejects.toThrow(`At most ${MAX_ENRICHMENT_COMPOUNDS} compounds`);
+    await expect(analyzer.analyze({ formulationId: new Types.ObjectId().toString() })).rejects.toThrow('Formulation not found');
+  });
+
+  it('refuses to run without a database connection', async () => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+    await expect(analyzer.analyze({ compoundIds })).rejects.toThrow(DatabaseUnavailableError);
+  });
+});
@@ -0,0 +1,41 @@
+import { Types } from 'mongoose';
+import Compound from '../../models/Compound';
+import { computeFingerprints, parseSmiles } from '../chemistry';
+import { FingerprintStore } from '../FingerprintStore';
+import { query } from '../../test-utils/mongooseQuery';
+
+describe('FingerprintStore', () => {
+  const store = new FingerprintStore();
+  const phenol = { _id: new Types.ObjectId(), smiles: 'Oc1ccccc1' };
+  const broken = { _id: new Types.ObjectId(), smiles: 'C1CC' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('computes missing fingerprints for a single compound', async () => {
+    jest.spyOn(Compound, 'findById').mockReturnValue(query(phenol) as never);
+
+    const record = await store.loadOne(phenol._id.toString());
+
+    expect(record?.fingerprints).toEqual(computeFingerprints(parseSmiles(phenol.smiles)));
+  });
+
+  it('skips a single compound whose SMILES no longer parses', async () => {
+    jest.spyOn(Compound, 'findById').mockReturnValue(query(broken) as never);
+
+    await expect(store.loadOne(broken._id.toString())).resolves.toBeNull();
+  });
+
+  it('skips unparseable records and backfills the ones it recomputed', async () => {
+    jest.spyOn(Compound, 'find').mockReturnValue(query([phenol, broken]) as never);
+    const bulkWrite = jest.spyOn(Compound, 'bulkWrite').mockResolvedValue({} as never);
+
+    const records = await store.loadMany({}, 'test');
+
+    expect(records.map(record => record._id)).toEqual([phenol._id]);
+    expect(bulkWrite).toHaveBeenCalledWith([
+      { updateOne: { filter: { _id: phenol._id }, update: { $set: { fingerprints: records[0]!.fingerprints } } } },
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { Types } from 'mongoose';
+import { VerificationStatus } from '@shared/types';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { FormulationModel } from '../../models/Formulation';
+import { HerbModel } from '../../models/Herb';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import { FormulationAnalyzer } from '../FormulationAnalysis';
+import { query } from '../../test-utils/mongooseQuery';
+
+const TOXIC = {
+  _id: new Types.ObjectId(),
+  name: 'Aristolochic acid',
+  molecularFormula: 'C17H11NO7',
+  bioactivity: { therapeuticAreas: ['anti-inflammatory'] },
+  admet: { toxicity: { chronicToxicity: { mutagenicity: true } } },
+};
+const SHARED = {
+  _id: new Types.ObjectId(),
+  name: 'Gallic acid',
+  molecularFormula: 'C7H6O5',
+  bioactivity: { therapeuticAreas: ['anti-inflammatory', 'antioxidant', 'antioxidant'] },
+  safety: { drugInteractions: [{ drug: 'warfarin', severity: 'severe', mechanism: 'Raised INR' }] },
+};
+
+/** A cooling, sweet herb that pacifies pitta */
+const SWEET = {
+  _id: new Types.ObjectId(),
+  name: { sanskrit: 'Madhuka', english: 'Sweet herb' },
+  properties: { rasa: ['madhura'], guna: ['guru'], virya: 'sheeta', vipaka: 'madhura', dosha: ['pitta'] },
+  contraindications: ['pregnancy'],
+  verificationStatus: VerificationStatus.VERIFIED,
+  compounds: [TOXIC._id, SHARED._id],
+};
+/** A heating, pungent and bitter herb that pacifies kapha */
+const PUNGENT = {
+  _id: new Types.ObjectId(),
+  name: { sanskrit: 'Katuka', english: 'Pungent herb' },
+  properties: { rasa: ['katu', 'tikta'], guna: ['laghu', 'ruksha'], virya: 'ushna', vipaka: 'katu', dosha: ['kapha'] },
+  contraindications: [],
+  verificationStatus: VerificationStatus.PENDING,
+  compounds: [SHARED._id],
+};
+
+function formulation(ingredients: Array<{ herb: Types.ObjectId; parts: number; part?: string }>) {
+  return {
+    _id: new Types.ObjectId(),
+    name: { sanskrit: 'Dvaya churna' },
+    dosageForm: 'churna',
+    anupana: ['warm water'],
+    contraindications: ['fever'],
+    ingredients,
+  };
+}
+
+describe('FormulationAnalyzer', () => {
+  const analyzer = new FormulationAnalyzer();
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(HerbModel, 'find').mockReturnValue(query([SWEET, PUNGENT]) as never);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([TOXIC, SHARED]) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const analyze = async (ingredients: Parameters<typeof formulation>[0]) => {
+    const stored = formulation(ingredients);
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query(stored) as never);
+    return (await analyzer.analyze(stored._id.toString()))!;
+  };
+
+  it('weights the herb properties by their parts', async () => {
+    const profile = await analyze([{ herb: SWEET._id, parts: 3, part: 'root' }, { herb: PUNGENT._id, parts: 1 }]);
+
+    expect(profile.ingredients.map(ingredient => [ingredient.sanskrit, ingredient.part, ingredient.fraction])).toEqual([
+      ['Madhuka', 'root', 0.75],
+      ['Katuka', undefined, 0.25],
+    ]);
+    expect(profile.rasa).toEqual([{ rasa: 'madhura', share: 0.75 }, { rasa: 'katu', share: 0.25 }, { rasa: 'tikta', share: 0.25 }]);
+    expect(profile.virya).toEqual({ dominant: 'sheeta', ushna: 0.25, sheeta: 0.75 });
+    expect(profile.vipaka).toEqual({ dominant: 'madhura', distribution: { madhura: 0.75, katu: 0.25 } });
+  });
+
+  it('combines the classical dosha effects of rasa, virya and recorded actions', async () => {
+    const profile = await analyze([{ herb: SWEET._id, parts: 3 }, { herb: PUNGENT._id, parts: 1 }]);
+
+    expect(profile.doshaEffects).toEqual({
+      vata: { score: 0, effect: 'balance' },
+      pitta: { score: -0.667, effect: 'decrease' },
+      kapha: { score: 0.25, effect: 'increase' },
+    });
+  });
+
+  it('pools compounds and therapeutic areas across the herbs', async () => {
+    const profile = await analyze([{ herb: SWEET._id, parts: 3 }, { herb: PUNGENT._id, parts: 1 }]);
+
+    expect(profile.compounds.map(compound => [compound.name, compound.herbs, compound.fraction])).toEqual([
+      ['Gallic acid', ['Madhuka', 'Katuka'], 1],
+      ['Aristolochic acid', ['Madhuka'], 0.75],
+    ]);
+    expect(profile.therapeuticAreas).toEqual([
+      { area: 'anti-inflammatory', compounds: 2 },
+      { area: 'antioxidant', compounds: 1 },
+    ]);
+    expect(profile.contraindications).toEqual(['fever', 'pregnancy']);
+  });
+
+  it('lists safety flags most severe first', async () => {
+    const profile = await analyze([{ herb: SWEET._id, parts: 3 }, { herb: PUNGENT._id, parts: 1 }]);
+
+    expect(profile.safetyFlags.map(flag => [flag.severity, flag.herb, flag.issue])).toEqual([
+      ['warning', 'Madhuka', 'Mutagenic'],
+      ['caution', 'Madhuka', 'Contraindicated: pregnancy'],
+      ['caution', 'Madhuka', 'Severe interaction with warfarin: Raised INR'],
+      ['caution', 'Katuka', 'Severe interaction with warfarin: Raised INR'],
+      ['info', 'Katuka', 'Herb monograph is awaiting verification'],
+    ]);
+  });
+
+  it('warns about missing herbs and profiles the ones it found', async () => {
+    const missing = new Types.ObjectId();
+    const profile = await analyze([{ herb: SWEET._id, parts: 3 }, { herb: PUNGENT._id, parts: 1 }, { herb: missing, parts: 4 }]);
+
+    expect(profile.safetyFlags[0]).toEqual({
+      severity: 'warning',
+      herb: missing.toString(),
+      issue: 'Ingredient herb is missing from the database; its safety could not be assessed',
+    });
+    expect(profile.ingredients.map(ingredient => ingredient.fraction)).toEqual([0.375, 0.125]);
+    expect(profile.rasa[0]).toEqual({ rasa: 'madhura', share: 0.75 });
+  });
+
+  it('returns null for unknown or malformed ids', async () => {
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query(null) as never);
+
+    await expect(analyzer.analyze(new Types.ObjectId().toString())).resolves.toBeNull();
+    await expect(analyzer.analyze('triphala')).resolves.toBeNull();
+  });
+
+  it('refuses to run without a database connection', async () => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+    await expect(analyzer.analyze(new Types.ObjectId().toString())).rejects.toThrow(DatabaseUnavailableError);
+  });
+});
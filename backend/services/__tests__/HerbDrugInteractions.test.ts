@@ -0,0 +1,144 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { HerbModel } from '../../models/Herb';
+import Literature from '../../models/Literature';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import { HerbDrugInteractionChecker, InteractionCheckError, MAX_CHECK_ITEMS } from '../HerbDrugInteractions';
+import { query } from '../../test-utils/mongooseQuery';
+
+const CURCUMIN = {
+  _id: new Types.ObjectId(),
+  name: 'Curcumin',
+  safety: { drugInteractions: [{ drug: 'Anticoagulants', severity: 'moderate', mechanism: 'Additive antiplatelet effect' }] },
+  admet: { metabolism: { cypInhibitors: ['CYP3A4'] }, absorption: { pgpSubstrate: true } },
+};
+const PIPERINE = {
+  _id: new Types.ObjectId(),
+  name: 'Piperine',
+  safety: { drugInteractions: [] },
+  admet: {
+    ruleBased: {
+      endpoints: [
+        { endpoint: 'CYP2C9_inhibition', value: true, applicable: true },
+        { endpoint: 'CYP1A2_inhibition', value: true, applicable: false },
+      ],
+    },
+  },
+};
+
+const HERBS = [
+  {
+    _id: new Types.ObjectId(),
+    name: { sanskrit: 'हरिद्रा (Haridra)', telugu: 'Pasupu', english: 'Turmeric', botanical: 'Curcuma longa' },
+    compounds: [CURCUMIN._id],
+  },
+  {
+    _id: new Types.ObjectId(),
+    name: { sanskrit: 'मरिच (Maricha)', telugu: 'Miriyalu', english: 'Black pepper', botanical: 'Piper nigrum' },
+    compounds: [PIPERINE._id],
+  },
+];
+
+const LITERATURE = [
+  {
+    _id: new Types.ObjectId(),
+    title: 'Turmeric supplements and bleeding on warfarin',
+    publication: { year: 2019, journal: 'Phytomedicine' },
+    evidenceLevel: 'low',
+    keywords: [],
+    focus: { herbs: ['Turmeric'], compounds: [] },
+  },
+  {
+    _id: new Types.ObjectId(),
+    title: 'Curcumin inhibits CYP3A4 in human liver microsomes',
+    abstract: 'Exposure to coumadin rose in volunteers',
+    publication: { year: 2021 },
+    evidenceLevel: 'high',
+    keywords: [],
+    focus: { herbs: [], compounds: ['curcumin'] },
+  },
+  {
+    _id: new Types.ObjectId(),
+    title: 'Turmeric and digoxin',
+    publication: { year: 2015 },
+    evidenceLevel: 'moderate',
+    keywords: [],
+    focus: { herbs: ['Turmeric'], compounds: [] },
+  },
+];
+
+describe('HerbDrugInteractionChecker', () => {
+  const checker = new HerbDrugInteractionChecker();
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(HerbModel, 'find').mockImplementation(((filter: { $or: Array<Record<string, RegExp>> }) => {
+      const patterns = filter.$or.map(clause => Object.values(clause)[0]!);
+      return query(HERBS.filter(herb => Object.values(herb.name).some(name => patterns.some(pattern => pattern.test(name)))));
+    }) as never);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([CURCUMIN, PIPERINE]) as never);
+    jest.spyOn(Literature, 'find').mockReturnValue(query(LITERATURE) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports documented, CYP and predicted interactions, most severe first', async () => {
+    const result = await checker.check(['Haridra', 'Black pepper'], ['Coumadin']);
+
+    expect(result.interactions.map(interaction => [interaction.compound.name, interaction.basis, interaction.severity, interaction.predicted])).toEqual([
+      ['Curcumin', 'cyp_inhibition', 'severe', false],
+      ['Curcumin', 'documented', 'moderate', false],
+      ['Piperine', 'cyp_inhibition', 'moderate', true],
+    ]);
+    expect(result.interactions[0]!.enzymes).toEqual(['CYP3A4']);
+    expect(result.interactions[2]!.enzymes).toEqual(['CYP2C9']);
+    expect(result.highestSeverity).toBe('severe');
+    expect(result.drugs).toEqual([{ query: 'Coumadin', profile: 'warfarin' }]);
+  });
+
+  it('flags P-glycoprotein competition for transported drugs', async () => {
+    const result = await checker.check(['Turmeric'], ['digoxin']);
+
+    expect(result.interactions).toEqual([expect.objectContaining({ basis: 'pgp_transport', severity: 'moderate', drug: 'digoxin' })]);
+  });
+
+  it('attaches literature about the herb or compound and the drug, strongest evidence first', async () => {
+    const result = await checker.check(['Turmeric'], ['warfarin']);
+
+    expect(result.interactions[0]!.evidence.map(item => item.title)).toEqual([
+      'Curcumin inhibits CYP3A4 in human liver microsomes',
+      'Turmeric supplements and bleeding on warfarin',
+    ]);
+    expect(result.interactions[0]!.evidence[1]).toMatchObject({ year: 2019, journal: 'Phytomedicine', evidenceLevel: 'low' });
+  });
+
+  it('only matches documented records for drugs outside the profile table', async () => {
+    const result = await checker.check(['Turmeric'], ['heparin']);
+
+    expect(result.drugs).toEqual([{ query: 'heparin', profile: null }]);
+    expect(result.interactions).toEqual([]);
+    expect(result.highestSeverity).toBeNull();
+  });
+
+  it('matches whole herb names and lists the ones it cannot resolve', async () => {
+    const result = await checker.check(['Turmer', 'Pasupu'], ['warfarin']);
+
+    expect(result.unresolvedHerbs).toEqual(['Turmer']);
+    expect(result.herbs[1]!.matches).toEqual([expect.objectContaining({ english: 'Turmeric', compoundCount: 1 })]);
+  });
+
+  it('rejects empty or oversized requests', async () => {
+    await expect(checker.check([], ['warfarin'])).rejects.toThrow(InteractionCheckError);
+    await expect(checker.check(['Turmeric'], Array.from({ length: MAX_CHECK_ITEMS + 1 }, () => 'warfarin')))
+      .rejects.toThrow(InteractionCheckError);
+  });
+
+  it('refuses to run without a database connection', async () => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+    await expect(checker.check(['Turmeric'], ['warfarin'])).rejects.toThrow(DatabaseUnavailableError);
+  });
+});
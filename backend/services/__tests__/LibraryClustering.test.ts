@@ -0,0 +1,90 @@
+import { Types } from 'mongoose';
+import { TaskStatus } from '../../../shared/types';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { computeFingerprints, parseSmiles } from '../chemistry';
+import { fingerprintStore } from '../FingerprintStore';
+import { ClusteringJob, ClusteringRequest, LibraryClustering, MAX_CLUSTER_COMPOUNDS } from '../LibraryClustering';
+import { query } from '../../test-utils/mongooseQuery';
+
+const LIBRARY = [
+  ['Phenol', 'Oc1ccccc1'],
+  ['p-Cresol', 'Cc1ccc(O)cc1'],
+  ['Hexanoic acid', 'CCCCCC(=O)O'],
+  ['Heptanoic acid', 'CCCCCCC(=O)O'],
+  ['Caffeine', 'Cn1cnc2c1c(=O)n(C)c(=O)n2C'],
+].map(([name, smiles]) => ({ _id: new Types.ObjectId(), name: name!, smiles: smiles!, fingerprints: computeFingerprints(parseSmiles(smiles!)) }));
+
+const REQUEST: ClusteringRequest = {
+  filter: {},
+  fingerprint: 'maccs',
+  distanceCutoff: 0.4,
+  reassignSingletons: false,
+  pickCount: 3,
+  seedIds: [],
+};
+
+async function finished(job: ClusteringJob): Promise<ClusteringJob> {
+  while (job.status === TaskStatus.PENDING || job.status === TaskStatus.IN_PROGRESS) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  return job;
+}
+
+describe('LibraryClustering', () => {
+  let clustering: LibraryClustering;
+
+  beforeEach(() => {
+    clustering = new LibraryClustering();
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(Compound, 'countDocuments').mockResolvedValue(LIBRARY.length as never);
+    jest.spyOn(Compound, 'find').mockReturnValue(query(LIBRARY.map(({ _id, name }) => ({ _id, name }))) as never);
+    jest.spyOn(fingerprintStore, 'loadMany').mockResolvedValue(LIBRARY);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('clusters analogues together and picks across clusters', async () => {
+    const job = await finished(clustering.submit(REQUEST));
+    const result = job.result!;
+
+    expect(job).toMatchObject({ status: TaskStatus.COMPLETED, progress: 100 });
+    expect(result.compoundCount).toBe(5);
+    expect(result.clusters.map(cluster => cluster.members.map(member => member.name).sort())).toEqual(expect.arrayContaining([
+      ['Phenol', 'p-Cresol'],
+      ['Heptanoic acid', 'Hexanoic acid'],
+      ['Caffeine'],
+    ]));
+    expect(result.singletonCount).toBe(1);
+    expect(new Set(result.picks.map(pick => pick.cluster)).size).toBe(3);
+    expect(result.statistics.clusterCoverage).toBe(1);
+    expect(result.picks[0]!.distanceToPicked).toBeNull();
+  });
+
+  it('always includes seed compounds in the diverse subset', async () => {
+    const seed = LIBRARY[3]!._id.toString();
+    const job = await finished(clustering.submit({ ...REQUEST, pickCount: 2, seedIds: [seed] }));
+
+    expect(job.result!.picks[0]).toMatchObject({ id: seed, seed: true });
+    expect(job.result!.picks[1]!.seed).toBe(false);
+  });
+
+  it('fails the job when the filter matches too many compounds', async () => {
+    jest.spyOn(Compound, 'countDocuments').mockResolvedValue((MAX_CLUSTER_COMPOUNDS + 1) as never);
+
+    const job = await finished(clustering.submit(REQUEST));
+
+    expect(job.status).toBe(TaskStatus.FAILED);
+    expect(job.error).toContain(`limited to ${MAX_CLUSTER_COMPOUNDS}`);
+  });
+
+  it('returns submitted jobs by id', async () => {
+    const job = clustering.submit(REQUEST);
+
+    expect(clustering.getJob(job.id)).toBe(job);
+    expect(clustering.getJob('cluster-unknown')).toBeNull();
+    await finished(job);
+  });
+});
@@ -0,0 +1,74 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { MatchedPairAnalysis } from '../MatchedPairAnalysis';
+import { query } from '../../test-utils/mongooseQuery';
+
+function record(name: string, smiles: string, logP: number, affinity: number, toxicityClass: string) {
+  return {
+    _id: new Types.ObjectId(),
+    name,
+    smiles,
+    properties: { logP },
+    bioactivity: { targets: [{ name: 'COX-2', affinity }] },
+    admet: { toxicity: { acuteToxicity: { toxicityClass } } },
+  };
+}
+
+const BENZENE = record('Benzene', 'c1ccccc1', 2.13, 4, 'moderate');
+const TOLUENE = record('Toluene', 'Cc1ccccc1', 2.73, 5, 'low');
+const PHENOL = record('Phenol', 'Oc1ccccc1', 1.46, 6, 'high');
+const CRESOL = record('p-Cresol', 'Cc1ccc(O)cc1', 1.94, 6.5, 'high');
+const BROKEN = record('Broken', 'C1CC', 0, 0, 'low');
+
+describe('MatchedPairAnalysis', () => {
+  const analysis = new MatchedPairAnalysis();
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([BENZENE, TOLUENE, PHENOL, CRESOL, BROKEN]) as never);
+    jest.spyOn(Compound, 'exists').mockResolvedValue({ _id: BENZENE._id } as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('groups pairs by transformation with property-delta statistics', async () => {
+    const summary = await analysis.transformations({ minPairs: 1, limit: 10 });
+
+    expect(summary).toMatchObject({ compoundCount: 5, pairCount: 5, transformationCount: 3 });
+    expect(summary.transformations.map(item => [item.transformation, item.pairCount])).toEqual([
+      ['[1*]C>>[1*][H]', 2],
+      ['[1*]O>>[1*][H]', 2],
+      ['[1*]C>>[1*]O', 1],
+    ]);
+    expect(summary.transformations[0]).toMatchObject({
+      logP: { count: 2, mean: -0.54, sd: 0.085, min: -0.6, max: -0.48 },
+      affinities: [{ target: 'COX-2', count: 2, mean: -0.75, min: -1, max: -0.5 }],
+      toxicityClass: { count: 2, increased: 1, decreased: 0, unchanged: 1, meanShift: 0.5 },
+    });
+  });
+
+  it('applies the minimum pair count, limit and cut filter', async () => {
+    expect((await analysis.transformations({ minPairs: 2, limit: 10 })).transformations).toHaveLength(2);
+    expect((await analysis.transformations({ minPairs: 1, limit: 1 })).transformations).toHaveLength(1);
+    expect((await analysis.transformations({ minPairs: 1, limit: 10, cuts: 2 })).transformations).toEqual([]);
+  });
+
+  it('writes the pairs of one compound from that compound to its partners', async () => {
+    const pairs = await analysis.pairsForCompound(BENZENE._id.toString());
+
+    expect(pairs!.map(pair => [pair.from.name, pair.to.name, pair.transformation, pair.deltas.logP])).toEqual([
+      ['Benzene', 'Toluene', '[1*][H]>>[1*]C', 0.6],
+      ['Benzene', 'Phenol', '[1*][H]>>[1*]O', -0.67],
+    ]);
+  });
+
+  it('returns null for unknown compounds', async () => {
+    jest.spyOn(Compound, 'exists').mockResolvedValue(null as never);
+
+    await expect(analysis.pairsForCompound(new Types.ObjectId().toString())).resolves.toBeNull();
+    await expect(analysis.pairsForCompound('not-an-id')).resolves.toBeNull();
+  });
+});
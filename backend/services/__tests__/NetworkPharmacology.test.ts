@@ -0,0 +1,111 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { FormulationModel } from '../../models/Formulation';
+import { HerbModel } from '../../models/Herb';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import { NetworkPharmacologyService, NetworkScopeError } from '../NetworkPharmacology';
+import { query } from '../../test-utils/mongooseQuery';
+
+const CURCUMIN = {
+  _id: new Types.ObjectId(),
+  name: 'Curcumin',
+  molecularFormula: 'C21H20O6',
+  bioactivity: {
+    targets: [{ name: 'COX-2', type: 'enzyme' }, { name: 'cox-2', type: 'enzyme' }],
+    pathways: ['NF-kB signalling'],
+    therapeuticAreas: ['Inflammation'],
+  },
+};
+/** No targets: its pathway hangs off the compound directly */
+const TURMERONE = {
+  _id: new Types.ObjectId(),
+  name: 'ar-Turmerone',
+  molecularFormula: 'C15H20O',
+  bioactivity: { targets: [], pathways: ['nf-kb signalling', ' '], therapeuticAreas: ['inflammation'] },
+};
+const HARIDRA = {
+  _id: new Types.ObjectId(),
+  name: { sanskrit: 'Haridra', english: 'Turmeric', botanical: 'Curcuma longa' },
+  compounds: [CURCUMIN._id, TURMERONE._id],
+};
+
+describe('NetworkPharmacologyService', () => {
+  const service = new NetworkPharmacologyService();
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(HerbModel, 'find').mockReturnValue(query([HARIDRA]) as never);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([CURCUMIN, TURMERONE]) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('links herbs, compounds, targets, pathways and diseases', async () => {
+    const network = await service.build({ herbIds: [HARIDRA._id.toString()] });
+    const edges = network.graph.getEdges().map(edge => [edge.source, edge.target, edge.type, edge.weight, edge.inferred]);
+
+    expect(network.name).toBe('Haridra');
+    expect(edges).toEqual(expect.arrayContaining([
+      [`herb:${HARIDRA._id}`, `compound:${CURCUMIN._id}`, 'contains', 1, false],
+      [`compound:${CURCUMIN._id}`, 'target:cox-2', 'targets', 1, false],
+      ['target:cox-2', 'pathway:nf-kb signalling', 'participates_in', 1, true],
+      [`compound:${TURMERONE._id}`, 'pathway:nf-kb signalling', 'modulates', 1, false],
+      ['pathway:nf-kb signalling', 'disease:inflammation', 'associated_with', 2, true],
+    ]));
+    expect(edges).toHaveLength(6);
+  });
+
+  it('reports node counts and ranks hubs by betweenness', async () => {
+    const report = service.report(await service.build({ herbIds: [HARIDRA._id.toString()] }), 2);
+
+    expect(report.summary).toEqual({
+      nodes: { herb: 1, compound: 2, target: 1, pathway: 1, disease: 1 },
+      edges: 6,
+      inferredEdges: 2,
+      density: 0.4,
+      components: 1,
+      largestComponent: 6,
+    });
+    expect(report.hubs.map(hub => hub.label)).toEqual(['NF-kB signalling', 'ar-Turmerone']);
+    expect(report.hubsByType.disease.map(hub => hub.label)).toEqual(['Inflammation']);
+  });
+
+  it('keeps the neighbourhood of focus nodes and lists the ones it cannot find', async () => {
+    const network = await service.build({
+      herbIds: [HARIDRA._id.toString()],
+      focus: ['target:COX-2', 'target:TNF'],
+      depth: 1,
+    });
+
+    expect(network.graph.getNodes().map(node => node.label).sort()).toEqual(['COX-2', 'Curcumin', 'NF-kB signalling']);
+    expect(network.unresolvedFocus).toEqual(['target:TNF']);
+  });
+
+  it('names a formulation network after the formulation', async () => {
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query({
+      name: { sanskrit: 'Haridra khanda' },
+      ingredients: [{ herb: HARIDRA._id, parts: 1 }],
+    }) as never);
+
+    const network = await service.build({ formulationId: new Types.ObjectId().toString() });
+
+    expect(network.name).toBe('Haridra khanda');
+    expect(network.graph.nodeCount).toBe(6);
+  });
+
+  it('rejects invalid ids and unknown formulations', async () => {
+    jest.spyOn(FormulationModel, 'findById').mockReturnValue(query(null) as never);
+
+    await expect(service.build({ herbIds: ['haridra'] })).rejects.toThrow(NetworkScopeError);
+    await expect(service.build({ formulationId: new Types.ObjectId().toString() })).rejects.toThrow('Formulation not found');
+  });
+
+  it('refuses to run without a database connection', async () => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+    await expect(service.build()).rejects.toThrow(DatabaseUnavailableError);
+  });
+});
@@ -0,0 +1,154 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { QsarModel, QsarModelDocument } from '../../models/QsarModel';
+import { parseSmiles } from '../chemistry';
+import { DuplicateModelNameError, QsarRegistry, QsarTrainingError, TrainingRequest } from '../QsarRegistry';
+import { query } from '../../test-utils/mongooseQuery';
+
+const chain = (carbons: number): string => 'C'.repeat(carbons);
+
+/** n-Alkanes with a logP of half their carbon count, and n-alcohols marked as analgesics */
+const ALKANES = Array.from({ length: 12 }, (_, i) => ({
+  _id: new Types.ObjectId(),
+  smiles: chain(i + 2),
+  properties: { logP: (i + 2) / 2 },
+  bioactivity: { therapeuticAreas: [] as string[] },
+}));
+const ALCOHOLS = Array.from({ length: 6 }, (_, i) => ({
+  _id: new Types.ObjectId(),
+  smiles: `${chain(i + 2)}O`,
+  bioactivity: { therapeuticAreas: ['Analgesic'] },
+}));
+
+const LOGP: TrainingRequest = {
+  name: 'Alkane logP',
+  endpoint: { kind: 'property', path: 'properties.logP' },
+  algorithm: 'ridge',
+  featureType: 'descriptors',
+};
+
+const ANALGESIC: TrainingRequest = {
+  name: 'Analgesic',
+  endpoint: { kind: 'therapeuticArea', area: 'analgesic' },
+  algorithm: 'knn',
+  featureType: 'maccs',
+  hyperparameters: { k: 3 },
+};
+
+describe('QsarRegistry', () => {
+  let registry: QsarRegistry;
+  let stored: Map<string, QsarModelDocument>;
+
+  beforeEach(() => {
+    registry = new QsarRegistry();
+    stored = new Map();
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(QsarModel, 'exists').mockResolvedValue(null);
+    jest.spyOn(QsarModel, 'create').mockImplementation((async (data: object) => {
+      const document = new QsarModel({ ...data, updatedAt: new Date() });
+      stored.set(document._id.toString(), document);
+      return document;
+    }) as never);
+    jest.spyOn(QsarModel, 'findById').mockImplementation(((id: string) => query(stored.get(String(id)) ?? null)) as never);
+    jest.spyOn(QsarModel, 'find').mockImplementation((() => query([...stored.values()])) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('train', () => {
+    it('fits a regression model and reports cross-validated metrics', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES) as never);
+
+      const model = await registry.train(LOGP);
+
+      expect(model).toMatchObject({ task: 'regression', algorithm: 'ridge', seed: 42, classes: [] });
+      expect(model.trainingSet.size).toBe(12);
+      expect(model.trainingSet.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(model.metrics.folds).toBe(5);
+      expect(model.metrics.r2).toBeGreaterThan(0.9);
+    });
+
+    it('fits a classifier on therapeutic-area membership', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query([...ALKANES, ...ALCOHOLS]) as never);
+
+      const model = await registry.train(ANALGESIC);
+
+      expect(model).toMatchObject({ task: 'classification', classes: ['no', 'yes'] });
+      expect(model.metrics.balancedAccuracy).toBe(1);
+    });
+
+    it('hashes the training set independently of record order', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES) as never);
+      const forward = await registry.train(LOGP);
+      jest.spyOn(Compound, 'find').mockReturnValue(query([...ALKANES].reverse()) as never);
+      const reversed = await registry.train({ ...LOGP, name: 'Reversed' });
+
+      expect(reversed.trainingSet.hash).toBe(forward.trainingSet.hash);
+    });
+
+    it('rejects an algorithm that cannot handle the endpoint', async () => {
+      await expect(registry.train({ ...ANALGESIC, algorithm: 'ridge' })).rejects.toThrow(QsarTrainingError);
+    });
+
+    it('rejects a name that is already taken', async () => {
+      jest.spyOn(QsarModel, 'exists').mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(registry.train(LOGP)).rejects.toThrow(DuplicateModelNameError);
+    });
+
+    it('needs enough compounds and at least two classes', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES.slice(0, 5)) as never);
+      await expect(registry.train(LOGP)).rejects.toThrow('Only 5 compounds have data for logP');
+
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES) as never);
+      await expect(registry.train(ANALGESIC)).rejects.toThrow('at least two classes are needed');
+    });
+  });
+
+  describe('predict', () => {
+    it('predicts inside the applicability domain with the model confidence', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES) as never);
+      const model = await registry.train(LOGP);
+
+      const prediction = await registry.predict(model._id.toString(), parseSmiles('CCCCCCCC'));
+
+      expect(prediction).toMatchObject({ modelName: 'Alkane logP', endpoint: 'logP', inDomain: true, confidence: model.metrics.r2 });
+      expect(prediction!.value).toBeCloseTo(4, 0);
+    });
+
+    it('lowers the confidence outside the applicability domain', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query(ALKANES) as never);
+      const model = await registry.train(LOGP);
+
+      const prediction = await registry.predict(model._id.toString(), parseSmiles('OC(=O)c1ccc(cc1)[N+](=O)[O-]'));
+
+      expect(prediction!.inDomain).toBe(false);
+      expect(prediction!.confidence).toBeLessThan(model.metrics.r2!);
+    });
+
+    it('labels classifier predictions', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query([...ALKANES, ...ALCOHOLS]) as never);
+      const model = await registry.train(ANALGESIC);
+
+      const prediction = await registry.predict(model._id.toString(), parseSmiles('CCCCCCCCO'));
+
+      expect(prediction).toMatchObject({ task: 'classification', label: 'yes' });
+      expect(prediction!.value).toBeGreaterThan(0.5);
+    });
+
+    it('predicts with every active model and skips retired or unknown ones', async () => {
+      jest.spyOn(Compound, 'find').mockReturnValue(query([...ALKANES, ...ALCOHOLS]) as never);
+      await registry.train(LOGP);
+      const classifier = await registry.train(ANALGESIC);
+
+      expect((await registry.predictAll(parseSmiles('CCCC'))).map(prediction => prediction.modelName)).toEqual(['Alkane logP', 'Analgesic']);
+
+      classifier.status = 'retired';
+      await expect(registry.predict(classifier._id.toString(), parseSmiles('CCCC'))).resolves.toBeNull();
+      await expect(registry.predict(new Types.ObjectId().toString(), parseSmiles('CCCC'))).resolves.toBeNull();
+    });
+  });
+});
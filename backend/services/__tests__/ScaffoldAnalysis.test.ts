@@ -0,0 +1,61 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { HerbModel } from '../../models/Herb';
+import { ScaffoldAnalysis } from '../ScaffoldAnalysis';
+import { query } from '../../test-utils/mongooseQuery';
+
+describe('ScaffoldAnalysis', () => {
+  const analysis = new ScaffoldAnalysis();
+  const phenol = { _id: new Types.ObjectId(), name: 'Phenol', smiles: 'Oc1ccccc1', scaffold: { murcko: 'c1ccccc1', generic: 'C1CCCCC1' } };
+  const toluene = { _id: new Types.ObjectId(), name: 'Toluene', smiles: 'Cc1ccccc1' };
+  const cyclohexanol = { _id: new Types.ObjectId(), name: 'Cyclohexanol', smiles: 'OC1CCCCC1' };
+  const hexane = { _id: new Types.ObjectId(), name: 'Hexane', smiles: 'CCCCCC' };
+  const broken = { _id: new Types.ObjectId(), name: 'Broken', smiles: 'C1CC' };
+  const herb = { _id: new Types.ObjectId(), name: { sanskrit: 'Tulsi', botanical: 'Ocimum tenuiflorum' }, compounds: [phenol._id, toluene._id, hexane._id] };
+  let bulkWrite: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(Compound, 'find').mockReturnValue(query([phenol, toluene, cyclohexanol, hexane, broken]) as never);
+    jest.spyOn(HerbModel, 'find').mockReturnValue(query([herb]) as never);
+    bulkWrite = jest.spyOn(Compound, 'bulkWrite').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('groups compounds by Murcko scaffold and counts their herbs', async () => {
+    const summary = await analysis.groupByScaffold({ type: 'murcko', minCount: 1, limit: 10 });
+
+    expect(summary).toMatchObject({ type: 'murcko', totalCompounds: 5, acyclicCompounds: 1, scaffoldCount: 2 });
+    expect(summary.groups.map(group => [group.scaffold, group.compounds.map(compound => compound.name)])).toEqual([
+      ['c1ccccc1', ['Phenol', 'Toluene']],
+      ['C1CCCCC1', ['Cyclohexanol']],
+    ]);
+    expect(summary.groups[0]!.herbs).toEqual([
+      { id: herb._id.toString(), name: 'Tulsi', botanicalName: 'Ocimum tenuiflorum', compoundCount: 2 },
+    ]);
+    expect(summary.groups[1]!.herbs).toEqual([]);
+  });
+
+  it('merges aromatic and saturated rings in generic frameworks', async () => {
+    const summary = await analysis.groupByScaffold({ type: 'generic', minCount: 1, limit: 10 });
+
+    expect(summary.groups).toHaveLength(1);
+    expect(summary.groups[0]).toMatchObject({ scaffold: 'C1CCCCC1', compoundCount: 3 });
+  });
+
+  it('applies the minimum group size and the limit', async () => {
+    expect((await analysis.groupByScaffold({ type: 'murcko', minCount: 2, limit: 10 })).groups).toHaveLength(1);
+    expect((await analysis.groupByScaffold({ type: 'murcko', minCount: 1, limit: 1 })).groups).toHaveLength(1);
+  });
+
+  it('stores scaffolds for compounds saved without one and skips unparseable ones', async () => {
+    await analysis.groupByScaffold({ type: 'murcko', minCount: 1, limit: 10 });
+
+    expect(bulkWrite.mock.calls[0]![0].map((operation: { updateOne: { filter: { _id: Types.ObjectId } } }) => operation.updateOne.filter._id))
+      .toEqual([toluene._id, cyclohexanol._id, hexane._id]);
+  });
+});
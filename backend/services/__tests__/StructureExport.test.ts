@@ -0,0 +1,58 @@
+import { generateConformers, generateConformersAsync, parseSmiles } from '../chemistry';
+import { StructureExport } from '../StructureExport';
+
+const IBUPROFEN = 'CC(C)Cc1ccc(cc1)C(C)C(=O)O';
+
+describe('asynchronous conformer generation', () => {
+  it('produces the same conformers as the synchronous generator', async () => {
+    const molecule = parseSmiles(IBUPROFEN);
+    const expected = generateConformers(molecule, { attempts: 3 });
+    const actual = await generateConformersAsync(molecule, { attempts: 3 });
+
+    expect(actual.conformers.map(conformer => conformer.energy)).toEqual(expected.conformers.map(conformer => conformer.energy));
+  });
+
+  it('lets other callbacks run between embedding attempts', async () => {
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 0);
+    try {
+      await generateConformersAsync(parseSmiles(IBUPROFEN), { attempts: 3 });
+    } finally {
+      clearInterval(interval);
+    }
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+});
+
+describe('StructureExport', () => {
+  it('shares one embedding between concurrent requests for a structure', async () => {
+    const exporter = new StructureExport();
+    const [first, second] = await Promise.all([exporter.conformers(IBUPROFEN), exporter.conformers(IBUPROFEN)]);
+
+    expect(second).toBe(first);
+  });
+
+  it('rejects unparseable structures and does not cache the failure', async () => {
+    const exporter = new StructureExport();
+
+    const failed = exporter.conformers('C1CC');
+    await expect(failed).rejects.toThrow();
+
+    const retried = exporter.conformers('C1CC');
+    expect(retried).not.toBe(failed);
+    await expect(retried).rejects.toThrow();
+  });
+
+  it('writes every conformer to SD files and the lowest one to XYZ', async () => {
+    const exporter = new StructureExport();
+    const set = await exporter.conformers(IBUPROFEN);
+
+    const sdf = await exporter.export('Ibuprofen', IBUPROFEN, 'sdf');
+    const xyz = await exporter.export('Ibuprofen', IBUPROFEN, 'xyz');
+
+    expect(sdf.fileName).toBe('Ibuprofen.sdf');
+    expect(sdf.content.split('$$$$').length - 1).toBe(set.conformers.length);
+    expect(xyz.content.split('\n')[0]!.trim()).toBe(String(set.molecule.atoms.length));
+  });
+});
@@ -0,0 +1,94 @@
+import { Types } from 'mongoose';
+import { dbConnection } from '../../config/database';
+import Compound from '../../models/Compound';
+import { computeFingerprints, parseSmiles } from '../chemistry';
+import { DatabaseUnavailableError } from '../CompoundDeduplication';
+import { fingerprintStore } from '../FingerprintStore';
+import { TargetPredictor } from '../TargetPrediction';
+import { query } from '../../test-utils/mongooseQuery';
+
+type Target = { name: string; type: string; affinity?: number };
+
+/** Ibuprofen analogues annotated with cyclooxygenases, and unrelated ligands */
+const LIBRARY = ([
+  ['Ibuprofen methyl ester', 'CC(C)Cc1ccc(cc1)C(C)C(=O)OC', [{ name: 'COX-2', type: 'enzyme' }, { name: 'COX-1', type: 'enzyme' }]],
+  ['Butibufen', 'CCC(C)Cc1ccc(cc1)C(C)C(=O)O', [{ name: 'COX-2', type: 'enzyme', affinity: 6.2 }, { name: 'cox-2 ', type: 'enzyme' }]],
+  ['Ibufenac', 'CC(C)Cc1ccc(cc1)CC(=O)O', [{ name: 'COX-1', type: 'enzyme' }]],
+  ['Caffeine', 'Cn1cnc2c1c(=O)n(C)c(=O)n2C', [{ name: 'Adenosine A2A', type: 'receptor' }]],
+  ['Theophylline', 'Cn1c(=O)c2[nH]cnc2n(C)c1=O', [{ name: 'Adenosine A2A', type: 'receptor' }, { name: 'PDE4', type: 'enzyme' }]],
+  ['Nicotine', 'CN1CCC[C@H]1c1cccnc1', [{ name: 'nAChR', type: 'ion_channel' }]],
+  ['Salicylic acid', 'OC(=O)c1ccccc1O', [{ name: 'COX-2', type: 'enzyme' }]],
+  ['Aspirin', 'CC(=O)Oc1ccccc1C(=O)O', [{ name: 'COX-1', type: 'enzyme' }]],
+] as Array<[string, string, Target[]]>).map(([name, smiles, targets]) => ({
+  _id: new Types.ObjectId(),
+  name,
+  fingerprints: computeFingerprints(parseSmiles(smiles)),
+  bioactivity: { targets },
+}));
+
+const IBUPROFEN = parseSmiles('CC(C)Cc1ccc(cc1)C(C)C(=O)O');
+
+describe('TargetPredictor', () => {
+  const predictor = new TargetPredictor();
+  let find: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(true);
+    jest.spyOn(fingerprintStore, 'loadMany').mockResolvedValue(LIBRARY.map(({ _id, fingerprints }) => ({ _id, smiles: '', fingerprints })));
+    find = jest.spyOn(Compound, 'find').mockReturnValue(query(LIBRARY.map(({ _id, name, bioactivity }) => ({ _id, name, bioactivity }))) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks the targets of similar ligands first', async () => {
+    const result = await predictor.predict(IBUPROFEN);
+
+    expect(result).toMatchObject({ referenceLigands: 8, targetsScreened: 5, threshold: 0.4 });
+    expect(result.predictions.map(prediction => [prediction.target, prediction.ligandCount])).toEqual([['COX-2', 3], ['COX-1', 3]]);
+
+    const [cox2] = result.predictions;
+    expect(cox2!.rawScore).toBeCloseTo(0.684 + 0.605, 2);
+    expect(cox2!.zScore).toBeGreaterThan(0);
+    expect(cox2!.eValue).toBeCloseTo(cox2!.pValue * 5, 2);
+  });
+
+  it('lists the nearest above-threshold ligands with their affinities', async () => {
+    const [cox2] = (await predictor.predict(IBUPROFEN)).predictions;
+
+    expect(cox2!.nearestLigands).toEqual([
+      { id: LIBRARY[1]!._id.toString(), name: 'Butibufen', similarity: 0.684, affinity: 6.2 },
+      { id: LIBRARY[0]!._id.toString(), name: 'Ibuprofen methyl ester', similarity: 0.605 },
+    ]);
+    expect(cox2!.maxSimilarity).toBe(0.684);
+  });
+
+  it('drops predictions above the E-value cutoff and applies the limit', async () => {
+    expect((await predictor.predict(IBUPROFEN, { maxEValue: 1e-9 })).predictions).toEqual([]);
+    expect((await predictor.predict(IBUPROFEN, { limit: 1 })).predictions).toHaveLength(1);
+  });
+
+  it('predicts nothing when no ligand reaches the threshold', async () => {
+    const result = await predictor.predict(IBUPROFEN, { threshold: 0.9 });
+
+    expect(result.predictions).toEqual([]);
+    expect(result.targetsScreened).toBe(5);
+  });
+
+  it('leaves out excluded compounds and ligands without fingerprints', async () => {
+    jest.spyOn(fingerprintStore, 'loadMany').mockResolvedValue(LIBRARY.slice(1).map(({ _id, fingerprints }) => ({ _id, smiles: '', fingerprints })));
+    const excluded = LIBRARY[0]!._id.toString();
+
+    const result = await predictor.predict(IBUPROFEN, { excludeIds: [excluded, 'not-an-id'] });
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ _id: { $nin: [excluded] } }));
+    expect(result.referenceLigands).toBe(7);
+  });
+
+  it('refuses to run without a database connection', async () => {
+    jest.spyOn(dbConnection, 'isConnectionHealthy').mockReturnValue(false);
+
+    await expect(predictor.predict(IBUPROFEN)).rejects.toThrow(DatabaseUnavailableError);
+  });
+});
@@ -0,0 +1,279 @@
+import { DescriptorSet, calculateDescriptors } from './Descriptors';
+import { Molecule } from './Molecule';
+import { SmartsPattern, parseSmarts } from './Smarts';
+
+export const CYP_ISOFORMS = ['CYP1A2', 'CYP2C9', 'CYP2C19', 'CYP2D6', 'CYP3A4'] as const;
+export type CypIsoform = typeof CYP_ISOFORMS[number];
+
+export type HergRisk = 'low' | 'medium' | 'high';
+export type SolubilityClass = 'highly_soluble' | 'very_soluble' | 'soluble' | 'moderately_soluble' | 'poorly_soluble' | 'insoluble';
+
+/**
+ * One rule-based endpoint: the call, how sure the rule is, whether the molecule lies in the
+ * chemical space the rule was derived from, and the criteria that decided it
+ */
+export interface AdmetEstimate<T> {
+  value: T;
+  confidence: number;
+  applicable: boolean;
+  rationale: string[];
+}
+
+export interface SolubilityEstimate {
+  logS: number;
+  mgPerMl: number;
+  class: SolubilityClass;
+}
+
+export interface AdmetLiabilities {
+  cypInhibition: Record<CypIsoform, AdmetEstimate<boolean>>;
+  pgpSubstrate: AdmetEstimate<boolean>;
+  herg: AdmetEstimate<HergRisk>;
+  bbbPermeant: AdmetEstimate<boolean>;
+  solubility: AdmetEstimate<SolubilityEstimate>;
+}
+
+const ORGANIC_ELEMENTS = new Set(['C', 'H', 'N', 'O', 'S', 'P', 'F', 'Cl', 'Br', 'I']);
+
+/** Molecular weight range of the drug-like training sets behind the rules */
+const DRUG_LIKE_WEIGHT = { min: 100, max: 900 };
+/** Delaney's ESOL set tops out around 600 Da */
+const ESOL_MAX_WEIGHT = 600;
+
+const FEATURE_SMARTS = {
+  /** Protonatable aliphatic amine (not amide, aniline, enamine, sulfonamide or N-heteroatom) */
+  basicAmine: ['[NX3;+0;!$(N-[#6,#16,#15]=[#7,#8,#16]);!$(N-a);!$(N-[#7,#8,#16]);!$(N-C=[#6,#7]);!$(N-C#N)]', '[NX4+;!$(N~[#8])]'],
+  acid: ['[CX3](=O)[OX2H1,OX1-]', '[SX4](=O)(=O)[OX2H1,OX1-]', '[PX4](=O)[OX2H1,OX1-]', 'c1nn[nH]n1'],
+  /** Unhindered azole nitrogen that can coordinate the haem iron (fused azoles such as purines excluded) */
+  azole: ['[nX2;r5;!$(n:o);!$(n:s);!$(n:[a;R2])]:c:[nX3;r5]'],
+  methylenedioxyphenyl: ['cO[CH2]Oc'],
+  coumarin: ['O=c1ccc2ccccc2o1'],
+  furan: ['c1ccoc1'],
+  fusedAromatic: ['[a;R2]'],
+} as const;
+
+type Feature = keyof typeof FEATURE_SMARTS;
+
+const compiledFeatures = new Map<Feature, SmartsPattern[]>();
+
+function hasFeature(molecule: Molecule, feature: Feature): boolean {
+  let patterns = compiledFeatures.get(feature);
+  if (!patterns) {
+    patterns = FEATURE_SMARTS[feature].map(smarts => parseSmarts(smarts));
+    compiledFeatures.set(feature, patterns);
+  }
+  return patterns.some(pattern => pattern.match(molecule, 1).length > 0);
+}
+
+interface RuleContext {
+  descriptors: DescriptorSet;
+  /** Nitrogen plus oxygen count, the polarity measure of the P-gp rule of fours */
+  nitrogenOxygen: number;
+  features: Record<Feature, boolean>;
+  /** Reasons the molecule falls outside the drug-like space; empty when inside */
+  outOfDomain: string[];
+}
+
+const round = (value: number, digits: number = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function buildContext(molecule: Molecule, descriptors: DescriptorSet): RuleContext {
+  const features = {} as Record<Feature, boolean>;
+  for (const feature of Object.keys(FEATURE_SMARTS) as Feature[]) {
+    features[feature] = hasFeature(molecule, feature);
+  }
+
+  const outOfDomain: string[] = [];
+  const foreign = [...new Set(molecule.atoms.map(atom => atom.element).filter(element => !ORGANIC_ELEMENTS.has(element)))];
+  if (foreign.length > 0) {
+    outOfDomain.push(`contains ${foreign.join(', ')}`);
+  }
+  if (descriptors.molecularWeight < DRUG_LIKE_WEIGHT.min || descriptors.molecularWeight > DRUG_LIKE_WEIGHT.max) {
+    outOfDomain.push(`molecular weight ${round(descriptors.molecularWeight, 1)} outside ${DRUG_LIKE_WEIGHT.min}-${DRUG_LIKE_WEIGHT.max}`);
+  }
+  if (molecule.atoms.length > 0 && descriptors.carbonAtoms === 0) {
+    outOfDomain.push('no carbon atoms');
+  }
+
+  return {
+    descriptors,
+    nitrogenOxygen: molecule.atoms.filter(atom => atom.element === 'N' || atom.element === 'O').length,
+    features,
+    outOfDomain,
+  };
+}
+
+function estimate<T>(context: RuleContext, value: T, confidence: number, rationale: string[]): AdmetEstimate<T> {
+  const applicable = context.outOfDomain.length === 0;
+  return {
+    value,
+    confidence: round(applicable ? confidence : confidence / 2),
+    applicable,
+    rationale: applicable ? rationale : [...rationale, `Outside the rule's domain: ${context.outOfDomain.join('; ')}`],
+  };
+}
+
+function cypInhibition(context: RuleContext): Record<CypIsoform, AdmetEstimate<boolean>> {
+  const { descriptors: d, features } = context;
+  const logP = round(d.logP);
+  const weight = round(d.molecularWeight, 1);
+  const heme = features.azole ? ['Unhindered azole nitrogen can coordinate the haem iron'] : [];
+
+  const cyp1a2 = (features.fusedAromatic || d.aromaticRings >= 3) && d.fractionCSP3 < 0.3
+    && d.molecularWeight < 400 && d.tpsa < 100 && !features.acid;
+  const cyp2c9 = (features.acid && d.logP >= 2 && d.aromaticRings >= 1)
+    || (d.logP >= 3.5 && d.aromaticRings >= 2 && !features.basicAmine);
+  const cyp2c19 = d.logP >= 2 && d.logP <= 5 && d.molecularWeight >= 200 && d.molecularWeight <= 500
+    && d.aromaticRings >= 1 && !features.acid;
+  const cyp2d6 = features.basicAmine && d.aromaticRings >= 1 && d.logP >= 1 && !features.acid;
+  const cyp3a4 = (d.molecularWeight >= 400 && d.logP >= 3) || (d.molecularWeight >= 300 && d.logP >= 4);
+
+  return {
+    CYP1A2: estimate(context, cyp1a2 || (features.furan && features.coumarin), cyp1a2 ? 0.65 : 0.6, [
+      cyp1a2
+        ? `Small planar polyaromatic: ${d.aromaticRings} aromatic rings${features.fusedAromatic ? ' (fused)' : ''}, Fsp3 ${round(d.fractionCSP3)}, MW ${weight}, TPSA ${round(d.tpsa, 1)}`
+        : 'Lacks the small, planar, fused-aromatic and non-acidic profile of CYP1A2 inhibitors',
+      ...(features.furan && features.coumarin ? ['Furanocoumarin scaffold (mechanism-based inactivator)'] : []),
+    ]),
+    CYP2C9: estimate(context, cyp2c9 || features.azole, cyp2c9 ? 0.6 : 0.55, [
+      features.acid && d.logP >= 2
+        ? `Lipophilic weak acid (logP ${logP}) matches the anionic CYP2C9 binding site`
+        : cyp2c9
+          ? `Lipophilic, aromatic and non-basic (logP ${logP}, ${d.aromaticRings} aromatic rings)`
+          : 'Neither a lipophilic acid nor a lipophilic neutral polyaromatic',
+      ...heme,
+    ]),
+    CYP2C19: estimate(context, cyp2c19 || features.azole || features.methylenedioxyphenyl, cyp2c19 ? 0.6 : 0.55, [
+      cyp2c19
+        ? `Neutral, moderately lipophilic aromatic (logP ${logP}, MW ${weight})`
+        : `Outside the neutral logP 2-5, MW 200-500 aromatic profile (logP ${logP}, MW ${weight}${features.acid ? ', acidic' : ''})`,
+      ...heme,
+      ...(features.methylenedioxyphenyl ? ['Methylenedioxyphenyl group forms a metabolite-intermediate complex'] : []),
+    ]),
+    CYP2D6: estimate(context, cyp2d6 || features.methylenedioxyphenyl, cyp2d6 ? 0.7 : 0.6, [
+      cyp2d6
+        ? `Basic nitrogen with an aromatic ring (logP ${logP}) fits the Asp301/Glu216 pharmacophore`
+        : features.basicAmine ? 'Basic nitrogen but no lipophilic aromatic partner' : 'No protonatable nitrogen for the CYP2D6 acidic binding residues',
+      ...(features.methylenedioxyphenyl ? ['Methylenedioxyphenyl group forms a metabolite-intermediate complex'] : []),
+    ]),
+    CYP3A4: estimate(context, cyp3a4 || features.azole || (features.furan && features.coumarin) || features.methylenedioxyphenyl, cyp3a4 ? 0.65 : 0.55, [
+      cyp3a4
+        ? `Large lipophilic molecule (MW ${weight}, logP ${logP}) suits the spacious CYP3A4 pocket`
+        : `Below the size and lipophilicity typical of CYP3A4 inhibitors (MW ${weight}, logP ${logP})`,
+      ...heme,
+      ...(features.furan && features.coumarin ? ['Furanocoumarin scaffold (mechanism-based inactivator)'] : []),
+      ...(features.methylenedioxyphenyl ? ['Methylenedioxyphenyl group forms a metabolite-intermediate complex'] : []),
+    ]),
+  };
+}
+
+/**
+ * Didziapetris rule of fours: N+O >= 8, MW > 400 and no acid suggest a substrate;
+ * N+O <= 4 and MW < 400 suggest a non-substrate
+ */
+function pgpSubstrate(context: RuleContext): AdmetEstimate<boolean> {
+  const { descriptors: d, nitrogenOxygen, features } = context;
+  const weight = round(d.molecularWeight, 1);
+
+  if (nitrogenOxygen >= 8 && d.molecularWeight > 400 && !features.acid) {
+    return estimate(context, true, 0.7, [`N+O ${nitrogenOxygen} >= 8, MW ${weight} > 400 and no acidic group (rule of fours)`]);
+  }
+  if (nitrogenOxygen <= 4 && d.molecularWeight < 400) {
+    return estimate(context, false, 0.7, [`N+O ${nitrogenOxygen} <= 4 and MW ${weight} < 400 (rule of fours)`]);
+  }
+  return estimate(context, false, 0.5, [
+    `Between the rule-of-fours substrate and non-substrate regions (N+O ${nitrogenOxygen}, MW ${weight}${features.acid ? ', acidic' : ''})`,
+  ]);
+}
+
+/**
+ * Basic, lipophilic, aromatic molecules block the hERG pore; acids rarely do
+ */
+function hergRisk(context: RuleContext): AdmetEstimate<HergRisk> {
+  const { descriptors: d, features } = context;
+  const logP = round(d.logP);
+
+  if (features.acid) {
+    return estimate(context, 'low', 0.7, ['Acidic group; zwitterions and acids rarely block hERG']);
+  }
+  if (features.basicAmine && d.logP > 3.7) {
+    return estimate(context, 'high', 0.7, [`Basic nitrogen with logP ${logP} > 3.7`]);
+  }
+  if (features.basicAmine && (d.logP >= 3 || d.aromaticRings >= 3)) {
+    return estimate(context, 'medium', 0.6, [`Basic nitrogen with logP ${logP} and ${d.aromaticRings} aromatic rings`]);
+  }
+  if (!features.basicAmine && d.logP > 5 && d.aromaticRings >= 3) {
+    return estimate(context, 'medium', 0.5, [`Neutral but highly lipophilic polyaromatic (logP ${logP}, ${d.aromaticRings} aromatic rings)`]);
+  }
+  return estimate(context, 'low', 0.65, [
+    features.basicAmine ? `Basic nitrogen but low lipophilicity (logP ${logP})` : 'No basic nitrogen',
+  ]);
+}
+
+/**
+ * CNS multiparameter limits: TPSA < 90, MW < 450, HBD <= 3, logP 1-5, not an acid or a P-gp substrate
+ */
+function bbbPermeation(context: RuleContext, pgp: AdmetEstimate<boolean>): AdmetEstimate<boolean> {
+  const { descriptors: d, features } = context;
+  const failures: string[] = [];
+  if (d.tpsa >= 90) failures.push(`TPSA ${round(d.tpsa, 1)} >= 90`);
+  if (d.molecularWeight >= 450) failures.push(`MW ${round(d.molecularWeight, 1)} >= 450`);
+  if (d.hbd > 3) failures.push(`${d.hbd} H-bond donors > 3`);
+  if (d.logP < 1 || d.logP > 5) failures.push(`logP ${round(d.logP)} outside 1-5`);
+  if (features.acid) failures.push('acidic group is ionised at blood pH');
+  if (pgp.value) failures.push('likely P-gp efflux substrate');
+
+  if (failures.length === 0) {
+    return estimate(context, true, d.tpsa < 60 ? 0.75 : 0.65, [
+      `TPSA ${round(d.tpsa, 1)}, MW ${round(d.molecularWeight, 1)}, ${d.hbd} donors and logP ${round(d.logP)} within CNS limits`,
+    ]);
+  }
+  return estimate(context, false, failures.length > 1 ? 0.8 : 0.65, failures);
+}
+
+function solubilityClass(logS: number): SolubilityClass {
+  if (logS > 0) return 'highly_soluble';
+  if (logS > -2) return 'very_soluble';
+  if (logS > -4) return 'soluble';
+  if (logS > -6) return 'moderately_soluble';
+  if (logS > -10) return 'poorly_soluble';
+  return 'insoluble';
+}
+
+function esolSolubility(context: RuleContext): AdmetEstimate<SolubilityEstimate> {
+  const { descriptors: d } = context;
+  const value: SolubilityEstimate = {
+    logS: round(d.logS),
+    mgPerMl: round(10 ** d.logS * d.molecularWeight, 4),
+    class: solubilityClass(d.logS),
+  };
+  const rationale = [
+    `ESOL (Delaney 2004) from logP ${round(d.logP)}, MW ${round(d.molecularWeight, 1)}, ${d.rotatableBonds} rotatable bonds and aromatic proportion ${round(d.aromaticAtoms / Math.max(d.heavyAtoms, 1))}`,
+  ];
+  const result = estimate(context, value, 0.7, rationale);
+
+  if (result.applicable && d.molecularWeight > ESOL_MAX_WEIGHT) {
+    return {
+      ...result,
+      confidence: 0.35,
+      applicable: false,
+      rationale: [...rationale, `Outside the rule's domain: MW above the ${ESOL_MAX_WEIGHT} Da ESOL training range`],
+    };
+  }
+  return result;
+}
+
+/**
+ * Transparent rule-based CYP inhibition, P-gp, hERG, BBB and solubility estimates
+ */
+export function predictAdmetLiabilities(molecule: Molecule, descriptors: DescriptorSet = calculateDescriptors(molecule)): AdmetLiabilities {
+  const context = buildContext(molecule, descriptors);
+  const pgp = pgpSubstrate(context);
+
+  return {
+    cypInhibition: cypInhibition(context),
+    pgpSubstrate: pgp,
+    herg: hergRisk(context),
+    bbbPermeant: bbbPermeation(context, pgp),
+    solubility: esolSolubility(context),
+  };
+}
@@ -0,0 +1,112 @@
+// BRICS retrosynthetic fragmentation (Degen et al., ChemMedChem 2008, 3, 1503)
+
+import { Bond, Molecule } from './Molecule';
+import { SmartsPattern, parseSmarts } from './Smarts';
+import { canonicalSmiles } from './Canonical';
+import { componentMolecule, cutBonds } from './Fragments';
+
+export interface BricsBond {
+  bond: Bond;
+  /** Environment labels of bond.begin and bond.end, e.g. '1' and '3' */
+  labels: [string, string];
+}
+
+export interface BricsFragment {
+  /** Canonical SMILES; attachment points are dummy atoms labelled with their environment, e.g. [16*] */
+  smiles: string;
+  /** Atom indices of the parent molecule */
+  atoms: number[];
+}
+
+// Atom environments, keyed by label; the first atom of each pattern is the one bonded across the cut
+const ENVIRONMENTS: Array<[string, string]> = [
+  ['1', '[C;D3]([#0,#6,#7,#8])(=O)'],
+  ['3', '[O;D2]-;!@[#0,#6,#1]'],
+  ['4', '[C;!D1;!$(C=*)]-;!@[#6]'],
+  ['5', '[N;!D1;!$(N=*);!$(N-[!#6;!#16;!#0;!#1]);!$([N;R]@[C;R]=O)]'],
+  ['6', '[C;D3;!R](=O)-;!@[#0,#6,#7,#8]'],
+  ['7a', '[C;D2,D3]-[#6]'],
+  ['7b', '[C;D2,D3]-[#6]'],
+  ['8', '[C;!R;!D1;!$(C!-*)]'],
+  ['9', '[n;+0;$(n(:[c,n,o,s]):[c,n,o,s])]'],
+  ['10', '[N;R;$(N(@C(=O))@[C,N,O,S])]'],
+  ['11', '[S;D2](-;!@[#0,#6])'],
+  ['12', '[S;D4]([#6,#0])(=O)(=O)'],
+  ['13', '[C;$(C(-;@[C,N,O,S])-;@[N,O,S])]'],
+  ['14', '[c;$(c(:[c,n,o,s]):[n,o,s])]'],
+  ['14b', '[c;$(c(:[c,n,o,s]):[n,o,s])]'],
+  ['15', '[C;$(C(-;@C)-;@C)]'],
+  ['16', '[c;$(c(:c):c)]'],
+  ['16b', '[c;$(c(:c):c)]'],
+];
+
+// Environment pairs joined by an acyclic bond of the given type that BRICS cuts
+const BOND_RULES: Array<[string, string, 1 | 2]> = [
+  ['1', '3', 1], ['1', '5', 1], ['1', '10', 1],
+  ['3', '4', 1], ['3', '13', 1], ['3', '14', 1], ['3', '15', 1], ['3', '16', 1],
+  ['4', '5', 1], ['4', '11', 1],
+  ['5', '12', 1], ['5', '14', 1], ['5', '16', 1], ['5', '13', 1], ['5', '15', 1],
+  ['6', '13', 1], ['6', '14', 1], ['6', '15', 1], ['6', '16', 1],
+  ['7a', '7b', 2],
+  ['8', '9', 1], ['8', '10', 1], ['8', '13', 1], ['8', '14', 1], ['8', '15', 1], ['8', '16', 1],
+  ['9', '13', 1], ['9', '14', 1], ['9', '15', 1], ['9', '16', 1],
+  ['10', '13', 1], ['10', '14', 1], ['10', '15', 1], ['10', '16', 1],
+  ['11', '13', 1], ['11', '14', 1], ['11', '15', 1], ['11', '16', 1],
+  ['13', '14', 1], ['13', '15', 1], ['13', '16', 1],
+  ['14', '14', 1], ['14', '15', 1], ['14', '16', 1],
+  ['15', '16', 1],
+  ['16', '16', 1],
+];
+
+let compiled: Array<[string, SmartsPattern]> | null = null;
+
+function environments(): Array<[string, SmartsPattern]> {
+  if (!compiled) {
+    compiled = ENVIRONMENTS.map(([label, smarts]) => [label, parseSmarts(smarts)]);
+  }
+  return compiled;
+}
+
+/**
+ * Acyclic bonds that match a BRICS rule, with the environment labels of their two atoms
+ */
+export function findBricsBonds(molecule: Molecule): BricsBond[] {
+  const labels = molecule.atoms.map(atom =>
+    environments().filter(([, pattern]) => pattern.matchesAt(molecule, atom.index)).map(([label]) => label));
+
+  const found: BricsBond[] = [];
+  for (const bond of molecule.bonds) {
+    if (bond.aromatic || molecule.isBondInRing(bond)) continue;
+
+    for (const [first, second, order] of BOND_RULES) {
+      if (bond.order !== order) continue;
+      const begin = labels[bond.begin]!;
+      const end = labels[bond.end]!;
+      if (begin.includes(first) && end.includes(second)) {
+        found.push({ bond, labels: [first, second] });
+        break;
+      }
+      if (begin.includes(second) && end.includes(first)) {
+        found.push({ bond, labels: [second, first] });
+        break;
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Cuts every BRICS bond and caps both ends with labelled dummy atoms. Fragments come back in
+ * atom order, repeated units once per occurrence; a molecule without BRICS bonds is one fragment.
+ */
+export function bricsFragments(molecule: Molecule): BricsFragment[] {
+  const fragmented = cutBonds(molecule, findBricsBonds(molecule).map(({ bond, labels }) => ({
+    bond,
+    labels: [parseInt(labels[0], 10), parseInt(labels[1], 10)],
+  })));
+
+  return fragmented.getComponents().map(component => {
+    const atoms = component.filter(index => index < molecule.atoms.length);
+    return { smiles: canonicalSmiles(componentMolecule(fragmented, component)), atoms };
+  });
+}
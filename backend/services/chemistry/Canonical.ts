@@ -0,0 +1,479 @@
+import { createHash } from 'crypto';
+import { Atom, Bond, Molecule, getAllowedValences } from './Molecule';
+import { KNOWN_ELEMENTS } from './SmilesParser';
+
+export interface CanonicalSmilesOptions {
+  /** Keep tetrahedral and double-bond stereo and isotopes (default true) */
+  isomeric?: boolean;
+}
+
+type Direction = '/' | '\\';
+
+interface DoubleBondStereo {
+  bond: Bond;
+  /** Reference neighbour of bond.begin and of bond.end */
+  refBegin: number;
+  refEnd: number;
+  cis: boolean;
+}
+
+interface Traversal {
+  order: number[];
+  parent: Map<number, Bond>;
+  children: Map<number, number[]>;
+  closures: Map<number, Bond[]>;
+}
+
+const ORGANIC_SUBSET = new Set(['B', 'C', 'N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I']);
+const AROMATIC_SUBSET = new Set(['B', 'C', 'N', 'O', 'P', 'S']);
+const ATOMIC_NUMBERS = new Map(Array.from(KNOWN_ELEMENTS, (element, i) => [element, i + 1]));
+
+/**
+ * Unique SMILES for a molecule: the same structure written in different ways
+ * (atom order, Kekulé or aromatic form, explicit hydrogens) gives the same string
+ */
+export function canonicalSmiles(molecule: Molecule, options: CanonicalSmilesOptions = {}): string {
+  const isomeric = options.isomeric ?? true;
+  const mol = suppressHydrogens(molecule, isomeric);
+  const symmetry = refine(mol, initialInvariants(mol, isomeric));
+  const ranks = breakTies(mol, symmetry);
+
+  const chiral = isomeric ? tetrahedralCenters(mol, symmetry) : new Map<number, '@' | '@@'>();
+  const doubleBonds = isomeric ? doubleBondStereo(mol, symmetry) : [];
+
+  const components = mol.getComponents()
+    .map(component => component.reduce((best, atom) => (ranks[atom]! < ranks[best]! ? atom : best)))
+    .sort((a, b) => ranks[a]! - ranks[b]!);
+
+  return components
+    .map(start => writeComponent(mol, start, ranks, chiral, doubleBonds, isomeric))
+    .join('.');
+}
+
+/**
+ * InChIKey-shaped structure hash (14 letters skeleton, 8 letters stereo/isotope layer, "SA", charge flag).
+ * Stable across input forms but not interchangeable with a real InChIKey
+ */
+export function structureKey(molecule: Molecule): string {
+  const skeleton = hashLetters(canonicalSmiles(molecule, { isomeric: false }), 14);
+  const layers = hashLetters(canonicalSmiles(molecule), 8);
+  const charge = Math.max(-13, Math.min(12, molecule.netCharge));
+  return `${skeleton}-${layers}SA-${String.fromCharCode(78 + charge)}`;
+}
+
+/**
+ * Canonical atom ranks (0 = first written), computed on the hydrogen-suppressed graph
+ */
+export function canonicalRanks(molecule: Molecule): number[] {
+  const mol = suppressHydrogens(molecule, true);
+  return breakTies(mol, refine(mol, initialInvariants(mol, true)));
+}
+
+function hashLetters(text: string, length: number): string {
+  const digest = createHash('sha256').update(text).digest();
+  let letters = '';
+  for (let i = 0; i < length; i++) {
+    letters += String.fromCharCode(65 + (digest[i]! % 26));
+  }
+  return letters;
+}
+
+/**
+ * Folds plain explicit hydrogens ([H] on a heavy atom) into implicit counts
+ */
+function suppressHydrogens(molecule: Molecule, isomeric: boolean): Molecule {
+  const removable = (atom: Atom): boolean =>
+    atom.element === 'H'
+    && atom.charge === 0
+    && (!isomeric || atom.isotope === undefined)
+    && molecule.degree(atom.index) === 1
+    && molecule.atoms[molecule.neighbors(atom.index)[0]!]!.element !== 'H';
+
+  const mapping = new Map<number, number>();
+  const atoms: Atom[] = [];
+  for (const atom of molecule.atoms) {
+    if (removable(atom)) continue;
+    mapping.set(atom.index, atoms.length);
+    atoms.push({ ...atom, index: atoms.length });
+  }
+
+  for (const atom of molecule.atoms) {
+    if (!removable(atom)) continue;
+    const heavy = atoms[mapping.get(molecule.neighbors(atom.index)[0]!)!]!;
+    heavy.implicitHydrogens += 1;
+  }
+
+  for (const original of molecule.atoms) {
+    const index = mapping.get(original.index);
+    if (index === undefined || !original.stereoNeighbors) continue;
+    atoms[index]!.stereoNeighbors = original.stereoNeighbors.map(neighbor =>
+      neighbor < 0 ? neighbor : mapping.get(neighbor) ?? -1
+    );
+  }
+
+  const bonds: Bond[] = [];
+  for (const bond of molecule.bonds) {
+    const begin = mapping.get(bond.begin);
+    const end = mapping.get(bond.end);
+    if (begin === undefined || end === undefined) continue;
+    bonds.push({ ...bond, index: bonds.length, begin, end });
+  }
+
+  return new Molecule(atoms, bonds);
+}
+
+function bondCode(bond: Bond): number {
+  return bond.aromatic ? 4 : bond.order === 4 ? 5 : bond.order;
+}
+
+function initialInvariants(molecule: Molecule, isomeric: boolean): number[] {
+  const keys = molecule.atoms.map(atom => [
+    ATOMIC_NUMBERS.get(atom.element) ?? 0,
+    molecule.degree(atom.index),
+    atom.implicitHydrogens,
+    atom.charge,
+    isomeric ? atom.isotope ?? 0 : 0,
+    atom.aromatic ? 1 : 0,
+    molecule.isInRing(atom.index) ? 1 : 0,
+  ]);
+  return denseRank(keys);
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return a.length - b.length;
+}
+
+function denseRank(keys: number[][]): number[] {
+  const order = keys.map((_, index) => index).sort((a, b) => compareKeys(keys[a]!, keys[b]!));
+  const ranks = new Array<number>(keys.length);
+  let rank = 0;
+  order.forEach((index, position) => {
+    if (position > 0 && compareKeys(keys[order[position - 1]!]!, keys[index]!) !== 0) rank++;
+    ranks[index] = rank;
+  });
+  return ranks;
+}
+
+function distinct(ranks: number[]): number {
+  return new Set(ranks).size;
+}
+
+/**
+ * Refines atom classes by their neighbourhoods until no class splits further
+ */
+function refine(molecule: Molecule, classes: number[]): number[] {
+  let current = classes;
+  for (;;) {
+    const keys = molecule.atoms.map(atom => {
+      const environment = molecule.bondsOf(atom.index)
+        .map(bond => [current[molecule.otherAtom(bond, atom.index)]!, bondCode(bond)] as [number, number])
+        .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+      return [current[atom.index]!, ...environment.flat()];
+    });
+    const next = denseRank(keys);
+    if (distinct(next) === distinct(current)) return next;
+    current = next;
+  }
+}
+
+/**
+ * Splits symmetry classes one atom at a time until every atom has its own rank
+ */
+function breakTies(molecule: Molecule, symmetry: number[]): number[] {
+  let ranks = symmetry;
+  while (distinct(ranks) < ranks.length) {
+    const seen = new Set<number>();
+    let tied = -1;
+    for (const rank of [...ranks].sort((a, b) => a - b)) {
+      if (seen.has(rank)) {
+        tied = rank;
+        break;
+      }
+      seen.add(rank);
+    }
+    const chosen = ranks.indexOf(tied);
+    ranks = refine(molecule, denseRank(ranks.map((rank, index) => [rank, rank === tied && index !== chosen ? 1 : 0])));
+  }
+  return ranks;
+}
+
+/**
+ * Tetrahedral centres whose neighbours are distinguishable, with their parsed neighbour order
+ */
+function tetrahedralCenters(molecule: Molecule, symmetry: number[]): Map<number, '@' | '@@'> {
+  const centers = new Map<number, '@' | '@@'>();
+  for (const atom of molecule.atoms) {
+    if (!atom.chirality || !atom.stereoNeighbors) continue;
+    if (atom.implicitHydrogens > 1 || atom.stereoNeighbors.length < 3) continue;
+
+    const classes = atom.stereoNeighbors.map(neighbor => (neighbor < 0 ? -1 : symmetry[neighbor]!));
+    if (new Set(classes).size === classes.length) {
+      centers.set(atom.index, atom.chirality);
+    }
+  }
+  return centers;
+}
+
+function flip(direction: Direction): Direction {
+  return direction === '/' ? '\\' : '/';
+}
+
+/**
+ * Side of a neighbour relative to a double-bond atom, from the parsed direction marker
+ */
+function sideOf(bond: Bond, center: number): Direction | null {
+  if (!bond.direction) return null;
+  return bond.begin === center ? bond.direction : flip(bond.direction);
+}
+
+function smallestRingSize(molecule: Molecule, bond: Bond): number {
+  const sizes = molecule.getRings().filter(ring => molecule.ringContainsBond(ring, bond)).map(ring => ring.length);
+  return sizes.length > 0 ? Math.min(...sizes) : Infinity;
+}
+
+function doubleBondStereo(molecule: Molecule, symmetry: number[]): DoubleBondStereo[] {
+  const stereo: DoubleBondStereo[] = [];
+
+  for (const bond of molecule.bonds) {
+    if (bond.order !== 2 || bond.aromatic || smallestRingSize(molecule, bond) < 8) continue;
+
+    const reference = (center: number): { neighbor: number; side: Direction } | null => {
+      const substituents = molecule.bondsOf(center).filter(b => b !== bond);
+      if (substituents.length === 0 || substituents.length > 2) return null;
+      if (substituents.length === 2) {
+        const [a, b] = substituents.map(b => symmetry[molecule.otherAtom(b, center)]);
+        if (a === b) return null;
+      }
+      const marked = substituents.find(b => b.direction);
+      if (!marked) return null;
+      return { neighbor: molecule.otherAtom(marked, center), side: sideOf(marked, center)! };
+    };
+
+    const begin = reference(bond.begin);
+    const end = reference(bond.end);
+    if (begin && end) {
+      stereo.push({ bond, refBegin: begin.neighbor, refEnd: end.neighbor, cis: begin.side === end.side });
+    }
+  }
+
+  return stereo;
+}
+
+function traverse(molecule: Molecule, start: number, ranks: number[]): Traversal {
+  const traversal: Traversal = { order: [], parent: new Map(), children: new Map(), closures: new Map() };
+  const visited = new Set<number>();
+  const closureBonds = new Set<Bond>();
+
+  const visit = (atom: number, parentBond: Bond | undefined): void => {
+    visited.add(atom);
+    traversal.order.push(atom);
+    traversal.children.set(atom, []);
+    if (!traversal.closures.has(atom)) traversal.closures.set(atom, []);
+    if (parentBond) traversal.parent.set(atom, parentBond);
+
+    const bonds = molecule.bondsOf(atom)
+      .filter(bond => bond !== parentBond)
+      .sort((a, b) => ranks[molecule.otherAtom(a, atom)]! - ranks[molecule.otherAtom(b, atom)]!);
+
+    for (const bond of bonds) {
+      const neighbor = molecule.otherAtom(bond, atom);
+      if (visited.has(neighbor)) {
+        if (!closureBonds.has(bond)) {
+          closureBonds.add(bond);
+          traversal.closures.get(neighbor)!.push(bond);
+          traversal.closures.get(atom)!.push(bond);
+        }
+        continue;
+      }
+      traversal.children.get(atom)!.push(neighbor);
+      visit(neighbor, bond);
+    }
+  };
+
+  visit(start, undefined);
+  return traversal;
+}
+
+/**
+ * Assigns "/" and "\" to written bonds, ring closures included, so every stereo double bond keeps its
+ * cis/trans relation; characters are stored as written from the earlier atom to the later one
+ */
+function assignDirections(
+  molecule: Molecule,
+  traversal: Traversal,
+  doubleBonds: DoubleBondStereo[]
+): Map<Bond, Direction> {
+  const directions = new Map<Bond, Direction>();
+  const position = new Map(traversal.order.map((atom, index) => [atom, index]));
+  const writtenFirst = (bond: Bond): number =>
+    position.get(bond.begin)! < position.get(bond.end)! ? bond.begin : bond.end;
+
+  const relevant = doubleBonds
+    .filter(stereo => position.has(stereo.bond.begin))
+    .sort((a, b) => position.get(writtenFirst(a.bond))! - position.get(writtenFirst(b.bond))!);
+
+  for (const stereo of relevant) {
+    const first = writtenFirst(stereo.bond);
+    const second = molecule.otherAtom(stereo.bond, first);
+    const storedFirst = first === stereo.bond.begin ? stereo.refBegin : stereo.refEnd;
+    const storedSecond = first === stereo.bond.begin ? stereo.refEnd : stereo.refBegin;
+
+    const candidates = (center: number, other: number): Bond[] =>
+      molecule.bondsOf(center)
+        .filter(bond => molecule.otherAtom(bond, center) !== other)
+        .sort((x, y) => position.get(molecule.otherAtom(x, center))! - position.get(molecule.otherAtom(y, center))!);
+    const pick = (bonds: Bond[]): Bond | undefined => bonds.find(bond => directions.has(bond)) ?? bonds[0];
+
+    const bondA = pick(candidates(first, second));
+    const bondB = pick(candidates(second, first));
+    if (!bondA || !bondB) continue;
+
+    const a = molecule.otherAtom(bondA, first);
+    const b = molecule.otherAtom(bondB, second);
+    const cis = stereo.cis !== (a !== storedFirst) !== (b !== storedSecond);
+
+    // side(n relative to centre) is the written character when the centre is written first
+    const sideFromChar = (bond: Bond, center: number, char: Direction): Direction =>
+      writtenFirst(bond) === center ? char : flip(char);
+
+    const existingA = directions.get(bondA);
+    const sideA: Direction = existingA ? sideFromChar(bondA, first, existingA) : '/';
+    if (!existingA) directions.set(bondA, sideFromChar(bondA, first, sideA));
+
+    const sideB = cis ? sideA : flip(sideA);
+    if (!directions.has(bondB)) directions.set(bondB, sideFromChar(bondB, second, sideB));
+  }
+
+  return directions;
+}
+
+function defaultHydrogens(molecule: Molecule, atom: Atom): number {
+  if (atom.element === '*') return 0;
+  const bondSum = molecule.bondsOf(atom.index).reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+  const valences = getAllowedValences(atom.element) || [];
+  if (atom.aromatic) {
+    return Math.max(0, (valences[0] ?? 0) - 1 - bondSum);
+  }
+  const target = valences.find(v => v >= bondSum);
+  return target === undefined ? 0 : target - bondSum;
+}
+
+function formatCharge(charge: number): string {
+  if (charge === 0) return '';
+  const sign = charge > 0 ? '+' : '-';
+  return Math.abs(charge) === 1 ? sign : `${sign}${Math.abs(charge)}`;
+}
+
+function atomSymbol(molecule: Molecule, atom: Atom, chirality: '@' | '@@' | undefined, isomeric: boolean): string {
+  const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+  const isotope = isomeric ? atom.isotope : undefined;
+  const hydrogens = atom.implicitHydrogens;
+
+  const bracket = (!ORGANIC_SUBSET.has(atom.element) && atom.element !== '*')
+    || (atom.aromatic && !AROMATIC_SUBSET.has(atom.element))
+    || atom.charge !== 0
+    || isotope !== undefined
+    || chirality !== undefined
+    || hydrogens !== defaultHydrogens(molecule, atom);
+
+  if (!bracket) return symbol;
+
+  const hydrogenText = hydrogens === 0 ? '' : hydrogens === 1 ? 'H' : `H${hydrogens}`;
+  return `[${isotope ?? ''}${symbol}${chirality ?? ''}${hydrogenText}${formatCharge(atom.charge)}]`;
+}
+
+function bondSymbol(molecule: Molecule, bond: Bond, direction: Direction | undefined): string {
+  if (direction) return direction;
+  if (bond.aromatic) return '';
+  switch (bond.order) {
+    case 1:
+      return molecule.atoms[bond.begin]!.aromatic && molecule.atoms[bond.end]!.aromatic ? '-' : '';
+    case 2:
+      return '=';
+    case 3:
+      return '#';
+    default:
+      return '$';
+  }
+}
+
+/**
+ * Parity of the permutation taking one neighbour list to another, or null if they differ as sets
+ */
+function permutationParity(from: number[], to: number[]): number | null {
+  if (from.length !== to.length || !from.every(item => to.includes(item))) return null;
+  const positions = to.map(item => from.indexOf(item));
+  let inversions = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      if (positions[i]! > positions[j]!) inversions++;
+    }
+  }
+  return inversions % 2;
+}
+
+function writeComponent(
+  molecule: Molecule,
+  start: number,
+  ranks: number[],
+  chiral: Map<number, '@' | '@@'>,
+  doubleBonds: DoubleBondStereo[],
+  isomeric: boolean
+): string {
+  const traversal = traverse(molecule, start, ranks);
+  const directions = assignDirections(molecule, traversal, doubleBonds);
+  const ringDigits = new Map<Bond, number>();
+  const usedDigits = new Set<number>();
+
+  const write = (atom: number): string => {
+    const parentBond = traversal.parent.get(atom);
+    const parent = parentBond ? molecule.otherAtom(parentBond, atom) : undefined;
+    const closures = traversal.closures.get(atom) || [];
+    const children = traversal.children.get(atom) || [];
+
+    let chirality = chiral.get(atom);
+    if (chirality) {
+      const written = [
+        ...(parent !== undefined ? [parent] : []),
+        ...(molecule.atoms[atom]!.implicitHydrogens > 0 ? [-1] : []),
+        ...closures.map(bond => molecule.otherAtom(bond, atom)),
+        ...children,
+      ];
+      const parity = permutationParity(molecule.atoms[atom]!.stereoNeighbors!, written);
+      if (parity === null) chirality = undefined;
+      else if (parity === 1) chirality = chirality === '@' ? '@@' : '@';
+    }
+
+    let text = atomSymbol(molecule, molecule.atoms[atom]!, chirality, isomeric);
+
+    const released: number[] = [];
+    for (const bond of closures) {
+      const digit = ringDigits.get(bond);
+      if (digit !== undefined) {
+        text += digit < 10 ? `${digit}` : `%${digit}`;
+        released.push(digit);
+        continue;
+      }
+      let next = 1;
+      while (usedDigits.has(next)) next++;
+      usedDigits.add(next);
+      ringDigits.set(bond, next);
+      // The opening digit carries the bond symbol, direction markers included
+      text += bondSymbol(molecule, bond, directions.get(bond)) + (next < 10 ? `${next}` : `%${next}`);
+    }
+    released.forEach(digit => usedDigits.delete(digit));
+
+    children.forEach((child, index) => {
+      const bond = traversal.parent.get(child)!;
+      const branch = bondSymbol(molecule, bond, directions.get(bond)) + write(child);
+      text += index < children.length - 1 ? `(${branch})` : branch;
+    });
+
+    return text;
+  };
+
+  return write(start);
+}
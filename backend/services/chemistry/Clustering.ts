@@ -0,0 +1,231 @@
+// Taylor–Butina exclusion-sphere clustering (J. Chem. Inf. Comput. Sci. 1999, 39, 747) and
+// MaxMin diversity selection on Tanimoto distances
+
+import { Fingerprint } from './Fingerprints';
+
+export interface FingerprintCluster {
+  /** Index of the compound with the most neighbours inside the cutoff */
+  centroid: number;
+  /** Centroid first, then the rest by increasing distance from it */
+  members: number[];
+}
+
+export interface ButinaOptions {
+  /** Largest Tanimoto distance (1 - similarity) at which two compounds are neighbours */
+  distanceCutoff: number;
+  /**
+   * Moves false singletons, compounds whose neighbours were all taken by earlier clusters,
+   * into the cluster of their nearest neighbour
+   */
+  reassignSingletons?: boolean;
+}
+
+export interface DiversityStatistics {
+  size: number;
+  meanDistance: number;
+  minDistance: number;
+  maxDistance: number;
+  /** Mean distance from each compound to its closest neighbour in the set */
+  meanNearestNeighborDistance: number;
+}
+
+/**
+ * Condensed Tanimoto distance matrix. Rows are filled one at a time so long runs can yield between them.
+ */
+export class DistanceMatrix {
+  public readonly size: number;
+  private readonly fingerprints: Fingerprint[];
+  private readonly values: Float32Array;
+  private filledRows = 0;
+
+  constructor(fingerprints: Fingerprint[]) {
+    this.fingerprints = fingerprints;
+    this.size = fingerprints.length;
+    this.values = new Float32Array((this.size * (this.size - 1)) / 2);
+  }
+
+  public get complete(): boolean {
+    return this.filledRows >= this.size - 1;
+  }
+
+  /** Share of the pairs computed so far */
+  public get progress(): number {
+    if (this.complete) return 1;
+    const remaining = this.size - this.filledRows;
+    return 1 - (remaining * (remaining - 1)) / (this.size * (this.size - 1));
+  }
+
+  /**
+   * Computes the next row of the upper triangle; false once the matrix is complete
+   */
+  public fillRow(): boolean {
+    if (this.complete) return false;
+    const i = this.filledRows;
+    const query = this.fingerprints[i]!;
+    const offset = this.rowOffset(i) - i - 1;
+    for (let j = i + 1; j < this.size; j++) {
+      this.values[offset + j] = 1 - query.tanimoto(this.fingerprints[j]!);
+    }
+    this.filledRows++;
+    return true;
+  }
+
+  public fill(): this {
+    while (this.fillRow()) {
+      // fillRow does the work
+    }
+    return this;
+  }
+
+  public get(i: number, j: number): number {
+    if (i === j) return 0;
+    const [row, column] = i < j ? [i, j] : [j, i];
+    if (row >= this.filledRows) {
+      throw new Error(`Distance row ${row} has not been computed`);
+    }
+    return this.values[this.rowOffset(row) + column - row - 1]!;
+  }
+
+  private rowOffset(row: number): number {
+    return row * this.size - (row * (row + 1)) / 2;
+  }
+}
+
+/**
+ * Butina clustering: the compound with the most unassigned neighbours becomes a centroid and takes
+ * those neighbours with it, until every compound is assigned. Ties go to the lower index.
+ */
+export function butinaCluster(matrix: DistanceMatrix, options: ButinaOptions): FingerprintCluster[] {
+  const { size } = matrix;
+  const neighbors: number[][] = Array.from({ length: size }, () => []);
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      if (matrix.get(i, j) <= options.distanceCutoff) {
+        neighbors[i]!.push(j);
+        neighbors[j]!.push(i);
+      }
+    }
+  }
+
+  const assigned = new Array<boolean>(size).fill(false);
+  const available = neighbors.map(list => list.length);
+  const clusters: number[][] = [];
+  const falseSingletons: number[] = [];
+
+  for (let remaining = size; remaining > 0;) {
+    let centroid = -1;
+    for (let i = 0; i < size; i++) {
+      if (!assigned[i] && (centroid < 0 || available[i]! > available[centroid]!)) centroid = i;
+    }
+
+    const members = [centroid, ...neighbors[centroid]!.filter(neighbor => !assigned[neighbor])];
+    for (const member of members) {
+      assigned[member] = true;
+      for (const neighbor of neighbors[member]!) available[neighbor]! -= 1;
+    }
+    remaining -= members.length;
+
+    if (members.length === 1 && neighbors[centroid]!.length > 0 && options.reassignSingletons) {
+      falseSingletons.push(centroid);
+    } else {
+      clusters.push(members);
+    }
+  }
+
+  if (falseSingletons.length > 0) {
+    const clusterOf = new Map<number, number[]>();
+    for (const members of clusters) {
+      for (const member of members) clusterOf.set(member, members);
+    }
+    for (const singleton of falseSingletons) {
+      // Every neighbour of a false singleton was taken by a cluster that existed before it
+      const nearest = neighbors[singleton]!.reduce((best, neighbor) =>
+        matrix.get(singleton, neighbor) < matrix.get(singleton, best) ? neighbor : best);
+      clusterOf.get(nearest)!.push(singleton);
+    }
+  }
+
+  return clusters.map(([centroid, ...rest]) => ({
+    centroid: centroid!,
+    members: [centroid!, ...rest.sort((a, b) => matrix.get(centroid!, a) - matrix.get(centroid!, b) || a - b)],
+  }));
+}
+
+/**
+ * Greedy MaxMin selection: each pick is the compound farthest from everything picked so far. Starts
+ * from the library medoid (smallest total distance) so the most typical compound is always included,
+ * unless seeds are given.
+ */
+export function maxMinPick(matrix: DistanceMatrix, count: number, seeds: number[] = []): number[] {
+  const { size } = matrix;
+  const target = Math.min(count, size);
+  const picks = [...new Set(seeds)].slice(0, target);
+  if (target === 0) return [];
+
+  if (picks.length === 0) {
+    let medoid = 0;
+    let best = Infinity;
+    for (let i = 0; i < size; i++) {
+      let total = 0;
+      for (let j = 0; j < size; j++) total += matrix.get(i, j);
+      if (total < best) {
+        best = total;
+        medoid = i;
+      }
+    }
+    picks.push(medoid);
+  }
+
+  const closest = new Array<number>(size).fill(Infinity);
+  const picked = new Set<number>();
+  const update = (pick: number): void => {
+    picked.add(pick);
+    for (let i = 0; i < size; i++) closest[i] = Math.min(closest[i]!, matrix.get(pick, i));
+  };
+  picks.forEach(update);
+
+  while (picks.length < target) {
+    let next = -1;
+    for (let i = 0; i < size; i++) {
+      if (!picked.has(i) && (next < 0 || closest[i]! > closest[next]!)) next = i;
+    }
+    picks.push(next);
+    update(next);
+  }
+
+  return picks;
+}
+
+/**
+ * Pairwise distance summary over the given compounds, or the whole matrix
+ */
+export function diversityStatistics(matrix: DistanceMatrix, indices?: number[]): DiversityStatistics {
+  const members = indices ?? Array.from({ length: matrix.size }, (_, index) => index);
+  if (members.length < 2) {
+    return { size: members.length, meanDistance: 0, minDistance: 0, maxDistance: 0, meanNearestNeighborDistance: 0 };
+  }
+
+  const nearest = new Array<number>(members.length).fill(Infinity);
+  let total = 0;
+  let min = Infinity;
+  let max = 0;
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      const distance = matrix.get(members[a]!, members[b]!);
+      total += distance;
+      min = Math.min(min, distance);
+      max = Math.max(max, distance);
+      nearest[a] = Math.min(nearest[a]!, distance);
+      nearest[b] = Math.min(nearest[b]!, distance);
+    }
+  }
+
+  const pairs = (members.length * (members.length - 1)) / 2;
+  return {
+    size: members.length,
+    meanDistance: total / pairs,
+    minDistance: min,
+    maxDistance: max,
+    meanNearestNeighborDistance: nearest.reduce((sum, distance) => sum + distance, 0) / members.length,
+  };
+}
@@ -0,0 +1,616 @@
+import { Bond, DoubleBondGeometry, Molecule } from './Molecule';
+import {
+  ForceField,
+  hybridization,
+  idealAngle,
+  idealBondLength,
+  minimizeLbfgs,
+  topologicalDistances,
+  vdwRadius,
+} from './ForceField';
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Conformer3D {
+  coordinates: Point3D[];
+  /** Force-field energy, kcal/mol */
+  energy: number;
+  /** Heavy-atom RMSD to the lowest-energy conformer after superposition, Å */
+  rmsdToLowest: number;
+}
+
+export interface ConformerSet {
+  /** Molecule with explicit hydrogens; heavy atoms keep their input indices and coordinates follow this order */
+  molecule: Molecule;
+  /** Distinct conformers, lowest energy first */
+  conformers: Conformer3D[];
+  /** Estimated torsional barrier of each rotatable bond, kcal/mol */
+  torsionBarriers: number[];
+}
+
+export interface ConformerOptions {
+  /** Embedding attempts; duplicates and failed embeddings are dropped */
+  attempts?: number;
+  /** Conformers closer than this heavy-atom RMSD (Å) are treated as duplicates */
+  pruneRmsd?: number;
+  /** Conformers more than this far above the lowest (kcal/mol) are dropped as strained embeddings */
+  energyWindow?: number;
+  seed?: number;
+  maxIterations?: number;
+}
+
+export class ConformerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConformerError';
+  }
+}
+
+interface ChiralConstraint {
+  neighbors: [number, number, number, number];
+  /** Sign of the signed volume of neighbours 1-3 seen from neighbour 0 */
+  sign: 1 | -1;
+}
+
+const MAX_ATOMS = 400;
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Distance-geometry embedding (bounds from ideal geometry, triangle smoothing, metric-matrix
+ * embedding, error-function refinement with chiral volumes) followed by force-field minimization
+ */
+export function generateConformers(input: Molecule, options: ConformerOptions = {}): ConformerSet {
+  const steps = conformerSteps(input, options);
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * generateConformers that yields to the event loop after every embedding attempt, for use while serving requests
+ */
+export async function generateConformersAsync(input: Molecule, options: ConformerOptions = {}): Promise<ConformerSet> {
+  const steps = conformerSteps(input, options);
+  let step = steps.next();
+  while (!step.done) {
+    await yieldToEventLoop();
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * The embedding itself, pausing after each attempt so callers decide whether to yield in between
+ */
+function* conformerSteps(input: Molecule, options: ConformerOptions): Generator<void, ConformerSet, void> {
+  const attempts = options.attempts ?? 10;
+  const pruneRmsd = options.pruneRmsd ?? 0.5;
+  const energyWindow = options.energyWindow ?? 20;
+  const maxIterations = options.maxIterations ?? 500;
+
+  const molecule = input.withExplicitHydrogens();
+  if (molecule.atoms.length > MAX_ATOMS) {
+    throw new ConformerError(`Conformer generation is limited to ${MAX_ATOMS} atoms including hydrogens`);
+  }
+  if (molecule.atoms.some(atom => atom.element === '*')) {
+    throw new ConformerError('Cannot embed wildcard atoms');
+  }
+
+  const random = seededRandom(options.seed ?? 42);
+  const { lower, upper } = boundsMatrix(molecule);
+  const chiral = chiralConstraints(molecule);
+  const forceField = new ForceField(molecule);
+  const heavy = molecule.atoms.filter(atom => atom.element !== 'H').map(atom => atom.index);
+
+  const embedded: Array<{ x: Float64Array; energy: number }> = [];
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    yield;
+
+    const x = embed(molecule.atoms.length, lower, upper, random);
+    if (!x) continue;
+
+    refineBounds(x, lower, upper, chiral, maxIterations);
+    // The force field has no notion of the requested stereochemistry, so the volumes stay restrained
+    minimizeLbfgs((coordinates, gradient) =>
+      forceField.energy(coordinates, gradient) + chiralPenalty(coordinates, gradient, chiral, 100, 0.5), x, maxIterations);
+    const energy = forceField.energy(x);
+    if (!Number.isFinite(energy) || !chiral.every(constraint => chiralSign(x, constraint) === constraint.sign)) continue;
+
+    embedded.push({ x, energy });
+  }
+
+  if (embedded.length === 0) {
+    throw new ConformerError('No conformer could be embedded with the requested stereochemistry');
+  }
+
+  embedded.sort((a, b) => a.energy - b.energy);
+  const kept: Array<{ x: Float64Array; energy: number }> = [];
+  for (const candidate of embedded) {
+    if (candidate.energy - embedded[0]!.energy > energyWindow) break;
+    if (kept.every(existing => superposedRmsd(existing.x, candidate.x, heavy) >= pruneRmsd)) {
+      kept.push(candidate);
+    }
+  }
+
+  const lowest = kept[0]!;
+  return {
+    molecule,
+    conformers: kept.map(conformer => ({
+      coordinates: toPoints(conformer.x),
+      energy: conformer.energy,
+      rmsdToLowest: conformer === lowest ? 0 : superposedRmsd(lowest.x, conformer.x, heavy),
+    })),
+    torsionBarriers: forceField.torsionBarriers.map(entry => entry.barrier),
+  };
+}
+
+/**
+ * RMSD between two coordinate sets over the given atoms after optimal superposition
+ */
+export function conformerRmsd(a: Point3D[], b: Point3D[], atoms?: number[]): number {
+  const indices = atoms ?? a.map((_, index) => index);
+  return superposedRmsd(fromPoints(a), fromPoints(b), indices);
+}
+
+function boundsMatrix(molecule: Molecule): { lower: Float64Array[]; upper: Float64Array[] } {
+  const count = molecule.atoms.length;
+  const lower = Array.from({ length: count }, () => new Float64Array(count));
+  const upper = Array.from({ length: count }, () => new Float64Array(count).fill(1000));
+  const separation = topologicalDistances(molecule, 3);
+  const setBounds = (i: number, j: number, low: number, high: number): void => {
+    lower[i]![j] = lower[j]![i] = low;
+    upper[i]![j] = upper[j]![i] = high;
+  };
+
+  const length = new Map<string, number>();
+  const bondLength = (i: number, j: number): number => length.get(i < j ? `${i}-${j}` : `${j}-${i}`)!;
+  for (const bond of molecule.bonds) {
+    const ideal = idealBondLength(molecule, bond);
+    length.set(bond.begin < bond.end ? `${bond.begin}-${bond.end}` : `${bond.end}-${bond.begin}`, ideal);
+    setBounds(bond.begin, bond.end, ideal - 0.01, ideal + 0.01);
+  }
+
+  // 1-3 distances from the ideal angles
+  const angle = new Map<string, number>();
+  for (const atom of molecule.atoms) {
+    const neighbors = molecule.neighbors(atom.index);
+    for (let i = 0; i < neighbors.length; i++) {
+      for (let j = i + 1; j < neighbors.length; j++) {
+        const a = neighbors[i]!;
+        const b = neighbors[j]!;
+        const theta = (idealAngle(molecule, atom.index, a, b) * Math.PI) / 180;
+        angle.set(`${a}-${atom.index}-${b}`, theta);
+        angle.set(`${b}-${atom.index}-${a}`, theta);
+        const la = bondLength(a, atom.index);
+        const lb = bondLength(b, atom.index);
+        const distance = Math.sqrt(la * la + lb * lb - 2 * la * lb * Math.cos(theta));
+        setBounds(a, b, distance - 0.04, distance + 0.04);
+      }
+    }
+  }
+
+  // 1-4 distances span the cis to trans range unless the central bond fixes the torsion
+  const stereo = molecule.getDoubleBondStereo();
+  for (const bond of molecule.bonds) {
+    const { begin: b, end: c } = bond;
+    for (const a of molecule.neighbors(b).filter(n => n !== c)) {
+      for (const d of molecule.neighbors(c).filter(n => n !== b && n !== a)) {
+        if (separation[a]![d]! < 3) continue;
+        const cis = torsionDistance(bondLength(a, b), bondLength(b, c), bondLength(c, d), angle.get(`${a}-${b}-${c}`)!, angle.get(`${b}-${c}-${d}`)!, true);
+        const trans = torsionDistance(bondLength(a, b), bondLength(b, c), bondLength(c, d), angle.get(`${a}-${b}-${c}`)!, angle.get(`${b}-${c}-${d}`)!, false);
+
+        const fixed = fixedTorsion(molecule, bond, a, d, stereo);
+        if (fixed === 'cis') setBounds(a, d, cis - 0.05, cis + 0.05);
+        else if (fixed === 'trans') setBounds(a, d, trans - 0.05, trans + 0.05);
+        else setBounds(a, d, cis - 0.05, trans + 0.05);
+      }
+    }
+  }
+
+  // Everything further apart may not overlap
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (separation[i]![j]! <= 3) continue;
+      const contact = 0.8 * (vdwRadius(molecule.atoms[i]!.element) + vdwRadius(molecule.atoms[j]!.element));
+      lower[i]![j] = lower[j]![i] = Math.min(contact, 3.2);
+    }
+  }
+
+  smoothBounds(lower, upper);
+  return { lower, upper };
+}
+
+/**
+ * 'cis' or 'trans' when a-b=c-d lies on a double bond with known geometry or inside a small ring
+ */
+function fixedTorsion(
+  molecule: Molecule,
+  bond: Bond,
+  a: number,
+  d: number,
+  stereo: Map<Bond, DoubleBondGeometry>
+): 'cis' | 'trans' | null {
+  // Four-membered and fully sp2 rings are flat; saturated rings pucker and keep the free range
+  const planarRing = molecule.getRings().find(ring =>
+    [a, bond.begin, bond.end, d].every(atom => ring.includes(atom)) &&
+    (ring.length <= 4 || (ring.length <= 7 && ring.every(atom => hybridization(molecule, atom) !== 'sp3'))));
+  if (planarRing) return 'cis';
+
+  const configuration = stereo.get(bond);
+  if (configuration) {
+    const [left, right] = a === configuration.refBegin || a === configuration.refEnd
+      ? [a, d]
+      : [d, a];
+    const leftIsRef = left === configuration.refBegin || left === configuration.refEnd;
+    const rightIsRef = right === configuration.refBegin || right === configuration.refEnd;
+    // Swapping either reference for the other substituent on its atom flips the relationship
+    const flips = (leftIsRef ? 0 : 1) + (rightIsRef ? 0 : 1);
+    return configuration.cis === (flips % 2 === 0) ? 'cis' : 'trans';
+  }
+
+  if ((bond.order === 2 || bond.aromatic) && molecule.isBondInRing(bond)) {
+    // Exocyclic substituents of a ring double bond point away from each other's ring neighbours
+    const ring = molecule.getRings().find(r => r.includes(bond.begin) && r.includes(bond.end));
+    if (ring) return ring.includes(a) === ring.includes(d) ? 'cis' : 'trans';
+  }
+
+  return null;
+}
+
+function torsionDistance(ab: number, bc: number, cd: number, abc: number, bcd: number, cis: boolean): number {
+  const ax = ab * Math.cos(abc);
+  const ay = ab * Math.sin(abc);
+  const dx = bc - cd * Math.cos(bcd);
+  const dy = (cis ? 1 : -1) * cd * Math.sin(bcd);
+  return Math.sqrt((ax - dx) ** 2 + (ay - dy) ** 2);
+}
+
+/**
+ * Floyd-style triangle inequality smoothing of the bounds
+ */
+function smoothBounds(lower: Float64Array[], upper: Float64Array[]): void {
+  const count = lower.length;
+  for (let k = 0; k < count; k++) {
+    const uk = upper[k]!;
+    const lk = lower[k]!;
+    for (let i = 0; i < count; i++) {
+      if (i === k) continue;
+      const ui = upper[i]!;
+      const li = lower[i]!;
+      const uik = ui[k]!;
+      const lik = li[k]!;
+      for (let j = i + 1; j < count; j++) {
+        if (j === k) continue;
+        const viaK = uik + uk[j]!;
+        if (ui[j]! > viaK) ui[j] = upper[j]![i] = viaK;
+        const low = Math.max(lik - uk[j]!, lk[j]! - uik);
+        if (li[j]! < low) li[j] = lower[j]![i] = low;
+      }
+    }
+  }
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (lower[i]![j]! > upper[i]![j]!) lower[i]![j] = lower[j]![i] = upper[i]![j]!;
+    }
+  }
+}
+
+/**
+ * Random distances within the bounds, embedded in 3D from the three largest eigenvalues of the metric matrix
+ */
+function embed(count: number, lower: Float64Array[], upper: Float64Array[], random: () => number): Float64Array | null {
+  const squared = Array.from({ length: count }, () => new Float64Array(count));
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const distance = lower[i]![j]! + random() * (upper[i]![j]! - lower[i]![j]!);
+      squared[i]![j] = squared[j]![i] = distance * distance;
+    }
+  }
+
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) total += squared[i]![j]!;
+  }
+  const toCentre = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    let sum = 0;
+    for (let j = 0; j < count; j++) sum += squared[i]![j]!;
+    toCentre[i] = sum / count - total / (count * count);
+  }
+
+  const metric = Array.from({ length: count }, () => new Float64Array(count));
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) {
+      metric[i]![j] = (toCentre[i]! + toCentre[j]! - squared[i]![j]!) / 2;
+    }
+  }
+
+  const x = new Float64Array(3 * count);
+  for (let axis = 0; axis < 3; axis++) {
+    const { value, vector } = dominantEigenvector(metric, random);
+    if (!(value > 0)) {
+      // Degenerate (e.g. planar or tiny molecule): spread the remaining axis randomly
+      for (let i = 0; i < count; i++) x[3 * i + axis] = (random() - 0.5) * 0.5;
+      continue;
+    }
+    const scale = Math.sqrt(value);
+    for (let i = 0; i < count; i++) x[3 * i + axis] = vector[i]! * scale;
+    // Deflate
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) metric[i]![j]! -= value * vector[i]! * vector[j]!;
+    }
+  }
+
+  return x.every(Number.isFinite) ? x : null;
+}
+
+function dominantEigenvector(matrix: Float64Array[], random: () => number): { value: number; vector: Float64Array } {
+  const count = matrix.length;
+  let vector = new Float64Array(count).map(() => random() - 0.5);
+  let value = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const next = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      const row = matrix[i]!;
+      let sum = 0;
+      for (let j = 0; j < count; j++) sum += row[j]! * vector[j]!;
+      next[i] = sum;
+    }
+    const length = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0));
+    if (length === 0) break;
+    let estimate = 0;
+    for (let i = 0; i < count; i++) estimate += vector[i]! * next[i]!;
+    next.forEach((v, i) => (next[i] = v / length));
+    const converged = Math.abs(estimate - value) < 1e-6 * Math.abs(estimate);
+    vector = next;
+    value = estimate;
+    if (converged) break;
+  }
+
+  return { value, vector };
+}
+
+/**
+ * Minimizes bound violations and wrong chiral volumes
+ */
+function refineBounds(x: Float64Array, lower: Float64Array[], upper: Float64Array[], chiral: ChiralConstraint[], maxIterations: number): void {
+  const count = lower.length;
+
+  const objective = (coordinates: Float64Array, gradient: Float64Array): number => {
+    gradient.fill(0);
+    let error = 0;
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = coordinates[3 * i]! - coordinates[3 * j]!;
+        const dy = coordinates[3 * i + 1]! - coordinates[3 * j + 1]!;
+        const dz = coordinates[3 * i + 2]! - coordinates[3 * j + 2]!;
+        const d2 = dx * dx + dy * dy + dz * dz;
+        const u2 = upper[i]![j]! ** 2;
+        const l2 = lower[i]![j]! ** 2;
+
+        let slope = 0;
+        if (d2 > u2) {
+          const t = d2 / u2 - 1;
+          error += t * t;
+          slope = (2 * t * 2) / u2;
+        } else if (d2 < l2) {
+          const s = (2 * l2) / (l2 + d2) - 1;
+          error += s * s;
+          slope = 2 * s * 2 * (-2 * l2 / ((l2 + d2) ** 2));
+        }
+        if (slope !== 0) {
+          gradient[3 * i]! += slope * dx;
+          gradient[3 * i + 1]! += slope * dy;
+          gradient[3 * i + 2]! += slope * dz;
+          gradient[3 * j]! -= slope * dx;
+          gradient[3 * j + 1]! -= slope * dy;
+          gradient[3 * j + 2]! -= slope * dz;
+        }
+      }
+    }
+
+    return error + chiralPenalty(coordinates, gradient, chiral, 1, 1);
+  };
+
+  // Start from the mirror image when most centres came out inverted
+  const wrong = chiral.filter(constraint => chiralSign(x, constraint) !== constraint.sign).length;
+  if (wrong * 2 > chiral.length) {
+    for (let i = 0; i < count; i++) x[3 * i + 2] = -x[3 * i + 2]!;
+  }
+
+  minimizeLbfgs(objective, x, maxIterations, 1e-4);
+}
+
+/**
+ * Pushes each constrained centre until its signed volume has the right sign and at least minVolume
+ */
+function chiralPenalty(x: Float64Array, gradient: Float64Array, chiral: ChiralConstraint[], weight: number, minVolume: number): number {
+  let penalty = 0;
+  for (const constraint of chiral) {
+    const deficit = constraint.sign * signedVolume(x, constraint.neighbors) - minVolume;
+    if (deficit >= 0) continue;
+    penalty += weight * deficit * deficit;
+    const slope = 2 * weight * deficit * constraint.sign;
+    const [n0, n1, n2, n3] = constraint.neighbors;
+    const p0 = point(x, n0);
+    const a = subtract(point(x, n1), p0);
+    const b = subtract(point(x, n2), p0);
+    const c = subtract(point(x, n3), p0);
+    const d1 = cross(b, c);
+    const d2 = cross(c, a);
+    const d3 = cross(a, b);
+    for (let k = 0; k < 3; k++) {
+      gradient[3 * n1 + k]! += slope * d1[k]!;
+      gradient[3 * n2 + k]! += slope * d2[k]!;
+      gradient[3 * n3 + k]! += slope * d3[k]!;
+      gradient[3 * n0 + k]! -= slope * (d1[k]! + d2[k]! + d3[k]!);
+    }
+  }
+  return penalty;
+}
+
+/**
+ * Tetrahedral centres with four explicit neighbours; '@' means neighbours 1-3 run
+ * anticlockwise seen from neighbour 0, which gives a negative signed volume
+ */
+function chiralConstraints(molecule: Molecule): ChiralConstraint[] {
+  const constraints: ChiralConstraint[] = [];
+  for (const atom of molecule.atoms) {
+    if (!atom.chirality || !atom.stereoNeighbors || atom.stereoNeighbors.length !== 4) continue;
+    if (atom.stereoNeighbors.some(neighbor => neighbor < 0)) continue;
+    if (hybridization(molecule, atom.index) !== 'sp3') continue;
+    constraints.push({
+      neighbors: atom.stereoNeighbors as [number, number, number, number],
+      sign: atom.chirality === '@' ? -1 : 1,
+    });
+  }
+  return constraints;
+}
+
+function signedVolume(x: Float64Array, [n0, n1, n2, n3]: [number, number, number, number]): number {
+  const p0 = point(x, n0);
+  return dot(subtract(point(x, n1), p0), cross(subtract(point(x, n2), p0), subtract(point(x, n3), p0)));
+}
+
+function chiralSign(x: Float64Array, constraint: ChiralConstraint): 1 | -1 {
+  return signedVolume(x, constraint.neighbors) < 0 ? -1 : 1;
+}
+
+/**
+ * Horn's quaternion method: the RMSD follows from the largest eigenvalue of the 4x4 key matrix
+ */
+function superposedRmsd(a: Float64Array, b: Float64Array, atoms: number[]): number {
+  const n = atoms.length;
+  if (n === 0) return 0;
+  const centre = (x: Float64Array): [number, number, number] => {
+    const c: [number, number, number] = [0, 0, 0];
+    for (const i of atoms) for (let k = 0; k < 3; k++) c[k]! += x[3 * i + k]! / n;
+    return c;
+  };
+  const ca = centre(a);
+  const cb = centre(b);
+
+  const r = [[0, 0, 0], [0, 0, 0], [0, 0, 0]] as number[][];
+  let ga = 0;
+  let gb = 0;
+  for (const i of atoms) {
+    const pa = [0, 1, 2].map(k => a[3 * i + k]! - ca[k]!);
+    const pb = [0, 1, 2].map(k => b[3 * i + k]! - cb[k]!);
+    for (let p = 0; p < 3; p++) {
+      ga += pa[p]! * pa[p]!;
+      gb += pb[p]! * pb[p]!;
+      for (let q = 0; q < 3; q++) r[p]![q]! += pa[p]! * pb[q]!;
+    }
+  }
+
+  const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = r as [[number, number, number], [number, number, number], [number, number, number]];
+  const key = [
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+  ];
+  const lambda = Math.max(...symmetricEigenvalues(key));
+  return Math.sqrt(Math.max(0, (ga + gb - 2 * lambda) / n));
+}
+
+/**
+ * Jacobi eigenvalue iteration for small symmetric matrices
+ */
+function symmetricEigenvalues(input: number[][]): number[] {
+  const m = input.map(row => [...row]);
+  const size = m.length;
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < size; p++) for (let q = p + 1; q < size; q++) off += m[p]![q]! ** 2;
+    if (off < 1e-18) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        const apq = m[p]![q]!;
+        if (Math.abs(apq) < 1e-15) continue;
+        const theta = (m[q]![q]! - m[p]![p]!) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < size; k++) {
+          const mkp = m[k]![p]!;
+          const mkq = m[k]![q]!;
+          m[k]![p] = c * mkp - s * mkq;
+          m[k]![q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < size; k++) {
+          const mpk = m[p]![k]!;
+          const mqk = m[q]![k]!;
+          m[p]![k] = c * mpk - s * mqk;
+          m[q]![k] = s * mpk + c * mqk;
+        }
+      }
+    }
+  }
+  return m.map((row, i) => row[i]!);
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so the same structure always yields the same conformers
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Vector3 = [number, number, number];
+
+function point(x: Float64Array, i: number): Vector3 {
+  return [x[3 * i]!, x[3 * i + 1]!, x[3 * i + 2]!];
+}
+
+function subtract(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function toPoints(x: Float64Array): Point3D[] {
+  const points: Point3D[] = [];
+  for (let i = 0; i < x.length; i += 3) {
+    points.push({ x: round(x[i]!), y: round(x[i + 1]!), z: round(x[i + 2]!) });
+  }
+  return points;
+}
+
+function fromPoints(points: Point3D[]): Float64Array {
+  const x = new Float64Array(points.length * 3);
+  points.forEach((p, i) => {
+    x[3 * i] = p.x;
+    x[3 * i + 1] = p.y;
+    x[3 * i + 2] = p.z;
+  });
+  return x;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
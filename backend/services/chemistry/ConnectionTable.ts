@@ -0,0 +1,350 @@
+// Conversion between coordinate-based connection tables (molfiles, MOL2) and Molecule
+
+import { Atom, Bond, BondOrder, Molecule, MoleculeError, getAllowedValences } from './Molecule';
+
+export interface TableAtom {
+  element: string;
+  charge: number;
+  isotope?: number;
+  x: number;
+  y: number;
+  z: number;
+  /** Unpaired electrons (M  RAD), which take the place of hydrogens */
+  radical?: number;
+}
+
+export type WedgeStyle = 'wedge' | 'hash' | 'either';
+
+export interface TableBond {
+  /** Zero-based atom indices; for wedges begin is the stereocentre */
+  begin: number;
+  end: number;
+  order: BondOrder;
+  aromatic: boolean;
+  stereo?: WedgeStyle;
+}
+
+export interface TableOptions {
+  /** Add hydrogens up to the normal valence (molfiles); false when every hydrogen is listed (MOL2) */
+  fillHydrogens: boolean;
+}
+
+export class ConnectionTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectionTableError';
+  }
+}
+
+type Vector3 = [number, number, number];
+
+/**
+ * Builds a molecule with implicit hydrogens and perceived aromaticity. Tetrahedral stereo is read
+ * from 3D coordinates or from wedge bonds in 2D, double-bond geometry from the coordinates, and
+ * plain explicit hydrogens are folded into their heavy atom.
+ */
+export function moleculeFromTable(atoms: TableAtom[], bonds: TableBond[], options: TableOptions): Molecule {
+  if (atoms.length === 0) {
+    throw new ConnectionTableError('Structure has no atoms');
+  }
+  bonds.forEach((bond, index) => {
+    if (!atoms[bond.begin] || !atoms[bond.end] || bond.begin === bond.end) {
+      throw new ConnectionTableError(`Bond ${index + 1} refers to a missing atom`);
+    }
+  });
+
+  const molecule = new Molecule(
+    atoms.map((atom, index): Atom => ({
+      index,
+      element: atom.element,
+      aromatic: bonds.some(bond => bond.aromatic && (bond.begin === index || bond.end === index)),
+      charge: atom.charge,
+      ...(atom.isotope ? { isotope: atom.isotope } : {}),
+      implicitHydrogens: 0,
+      bracket: true,
+    })),
+    []
+  );
+  for (const bond of bonds) {
+    if (molecule.getBond(bond.begin, bond.end)) {
+      throw new ConnectionTableError(`Duplicate bond between atoms ${bond.begin + 1} and ${bond.end + 1}`);
+    }
+    molecule.addBond(bond.begin, bond.end, bond.aromatic ? 1 : bond.order, bond.aromatic);
+  }
+
+  if (options.fillHydrogens) {
+    fillHydrogens(molecule, atoms);
+  }
+
+  const points = atoms.map((atom): Vector3 => [atom.x, atom.y, atom.z]);
+  const threeD = atoms.some(atom => Math.abs(atom.z) > 1e-4);
+  perceiveTetrahedral(molecule, bonds, points, threeD);
+
+  try {
+    molecule.kekulize();
+  } catch (error) {
+    if (error instanceof MoleculeError) {
+      throw new ConnectionTableError(`${error.message}; aromatic bonds need explicit hydrogens on pyrrole-type atoms`);
+    }
+    throw error;
+  }
+  perceiveDoubleBonds(molecule, bonds, points);
+
+  const folded = foldHydrogens(molecule);
+  folded.perceiveAromaticity();
+  return folded;
+}
+
+/**
+ * Wedge or hash bond for each tetrahedral centre so a 2D drawing carries its configuration;
+ * the returned bonds start at the centre
+ */
+export function assignWedges(molecule: Molecule, coordinates: Array<{ x: number; y: number }>): Map<Bond, { begin: number; style: 'wedge' | 'hash' }> {
+  const wedges = new Map<Bond, { begin: number; style: 'wedge' | 'hash' }>();
+
+  for (const atom of molecule.atoms) {
+    if (!atom.chirality || !atom.stereoNeighbors || atom.stereoNeighbors.length < 3) continue;
+
+    // Prefer an acyclic bond to a neighbour that is not itself a centre and not yet wedged
+    const candidates = molecule.bondsOf(atom.index)
+      .filter(bond => bond.order === 1 && !bond.aromatic && !wedges.has(bond))
+      .sort((a, b) => wedgeRank(molecule, a, atom.index) - wedgeRank(molecule, b, atom.index));
+    const bond = candidates[0];
+    if (!bond) continue;
+
+    const neighbor = molecule.otherAtom(bond, atom.index);
+    const up = signedVolume(atom.index, atom.stereoNeighbors, coordinates, neighbor);
+    if (up === 0) continue;
+    const wanted = atom.chirality === '@' ? -1 : 1;
+    wedges.set(bond, { begin: atom.index, style: Math.sign(up) === wanted ? 'wedge' : 'hash' });
+  }
+
+  return wedges;
+}
+
+function wedgeRank(molecule: Molecule, bond: Bond, center: number): number {
+  const neighbor = molecule.otherAtom(bond, center);
+  return (molecule.isBondInRing(bond) ? 4 : 0) + (molecule.atoms[neighbor]!.chirality ? 2 : 0) + (molecule.degree(neighbor) > 1 ? 1 : 0);
+}
+
+/**
+ * Signed volume of the stereo neighbours with `raised` lifted out of the drawing plane
+ */
+function signedVolume(
+  center: number,
+  stereoNeighbors: number[],
+  coordinates: Array<{ x: number; y: number }>,
+  raised: number
+): number {
+  const origin = coordinates[center]!;
+  const position = (index: number): Vector3 => {
+    const point = coordinates[index]!;
+    return [point.x - origin.x, point.y - origin.y, index === raised ? 1 : 0];
+  };
+  const explicit = stereoNeighbors.filter(neighbor => neighbor >= 0).map(position);
+  const vectors = stereoNeighbors.map(neighbor => (neighbor >= 0 ? position(neighbor) : impliedHydrogen(explicit)));
+  const volume = tetrahedronVolume(vectors);
+  return Math.abs(volume) < 1e-6 ? 0 : volume;
+}
+
+function fillHydrogens(molecule: Molecule, atoms: TableAtom[]): void {
+  for (const atom of molecule.atoms) {
+    const valences = getAllowedValences(atom.element, atom.charge);
+    if (!valences) continue;
+
+    const bondSum = molecule.bondsOf(atom.index).reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+    const radical = atoms[atom.index]!.radical ?? 0;
+    if (atom.aromatic) {
+      // One valence goes to the pi system, as for aromatic SMILES atoms
+      atom.implicitHydrogens = Math.max(0, (valences[0] ?? 0) - 1 - bondSum - radical);
+      continue;
+    }
+    const target = valences.find(valence => valence >= bondSum + radical);
+    atom.implicitHydrogens = target === undefined ? 0 : target - bondSum - radical;
+  }
+}
+
+/**
+ * '@' when neighbours 1-3 run anticlockwise seen from neighbour 0, i.e. a negative signed volume
+ */
+function perceiveTetrahedral(molecule: Molecule, bonds: TableBond[], points: Vector3[], threeD: boolean): void {
+  const flagged = new Map<number, Map<number, number>>();
+  if (!threeD) {
+    for (const bond of bonds) {
+      if (bond.stereo !== 'wedge' && bond.stereo !== 'hash') continue;
+      const lift = flagged.get(bond.begin) ?? new Map<number, number>();
+      lift.set(bond.end, bond.stereo === 'wedge' ? 1 : -1);
+      flagged.set(bond.begin, lift);
+    }
+  }
+  const either = new Set(bonds.filter(bond => bond.stereo === 'either').map(bond => bond.begin));
+
+  for (const atom of molecule.atoms) {
+    const neighbors = molecule.neighbors(atom.index);
+    if (neighbors.length < 3 || neighbors.length + atom.implicitHydrogens !== 4 || either.has(atom.index)) continue;
+    if (molecule.bondsOf(atom.index).some(bond => bond.aromatic || bond.order !== 1)) continue;
+
+    const lift = flagged.get(atom.index);
+    if (!threeD && !lift) continue;
+
+    const origin = points[atom.index]!;
+    const vectors = neighbors.map((neighbor): Vector3 => {
+      const point = points[neighbor]!;
+      if (threeD) return [point[0] - origin[0], point[1] - origin[1], point[2] - origin[2]];
+      const length = Math.hypot(point[0] - origin[0], point[1] - origin[1]) || 1;
+      return [point[0] - origin[0], point[1] - origin[1], (lift!.get(neighbor) ?? 0) * length * 0.8];
+    });
+    if (vectors.length === 3) vectors.push(impliedHydrogen(vectors));
+
+    const volume = tetrahedronVolume(vectors);
+    if (Math.abs(volume) < 1e-3) continue;
+    atom.chirality = volume < 0 ? '@' : '@@';
+    atom.stereoNeighbors = neighbors.length === 3 ? [...neighbors, -1] : neighbors;
+  }
+}
+
+/**
+ * Marks cis/trans double bonds outside small rings with '/' and '\' on one neighbouring bond per side
+ */
+function perceiveDoubleBonds(molecule: Molecule, tableBonds: TableBond[], points: Vector3[]): void {
+  const unspecified = new Set<number>();
+  tableBonds.forEach(bond => {
+    if (bond.stereo === 'either') {
+      unspecified.add(bond.begin);
+      unspecified.add(bond.end);
+    }
+  });
+  const smallRing = (bond: Bond): boolean =>
+    molecule.getRings().some(ring => ring.length < 8 && molecule.ringContainsBond(ring, bond));
+
+  for (const bond of molecule.bonds) {
+    if (bond.order !== 2 || bond.aromatic || smallRing(bond)) continue;
+    if (unspecified.has(bond.begin) && unspecified.has(bond.end)) continue;
+
+    const reference = (center: number, other: number): number | undefined => {
+      const options = molecule.neighbors(center).filter(neighbor => neighbor !== other);
+      if (options.length === 0) return undefined;
+      // Bonds already carrying a direction keep neighbouring double bonds consistent
+      return options.find(neighbor => molecule.getBond(center, neighbor)!.direction) ??
+        options.find(neighbor => molecule.atoms[neighbor]!.element !== 'H') ?? options[0];
+    };
+    const a = reference(bond.begin, bond.end);
+    const d = reference(bond.end, bond.begin);
+    if (a === undefined || d === undefined) continue;
+
+    const cis = sameSide(points, a, bond.begin, bond.end, d);
+    if (cis === null) continue;
+
+    const left = molecule.getBond(a, bond.begin)!;
+    const right = molecule.getBond(bond.end, d)!;
+    const sideOf = (marked: Bond, center: number): '/' | '\\' | undefined => {
+      if (!marked.direction) return undefined;
+      return marked.begin === center ? marked.direction : marked.direction === '/' ? '\\' : '/';
+    };
+    const setSide = (marked: Bond, center: number, side: '/' | '\\'): void => {
+      marked.direction = marked.begin === center ? side : side === '/' ? '\\' : '/';
+    };
+
+    const leftSide = sideOf(left, bond.begin) ?? '/';
+    const rightWanted: '/' | '\\' = cis ? leftSide : leftSide === '/' ? '\\' : '/';
+    const rightSide = sideOf(right, bond.end);
+    if (rightSide !== undefined && rightSide !== rightWanted) continue; // Conflicts with an earlier bond
+    setSide(left, bond.begin, leftSide);
+    setSide(right, bond.end, rightWanted);
+  }
+}
+
+/**
+ * Whether a and d lie on the same side of the b=c axis, null when either is collinear with it
+ */
+function sameSide(points: Vector3[], a: number, b: number, c: number, d: number): boolean | null {
+  const pb = points[b]!;
+  const axis = subtract(points[c]!, pb);
+  const length = Math.hypot(...axis);
+  if (length < 1e-6) return null;
+  const unit: Vector3 = [axis[0] / length, axis[1] / length, axis[2] / length];
+  const perpendicular = (point: Vector3, base: Vector3): Vector3 => {
+    const v = subtract(point, base);
+    const along = dot(v, unit);
+    return [v[0] - along * unit[0], v[1] - along * unit[1], v[2] - along * unit[2]];
+  };
+  const u = perpendicular(points[a]!, pb);
+  const w = perpendicular(points[d]!, points[c]!);
+  const cosine = dot(u, w) / ((Math.hypot(...u) * Math.hypot(...w)) || 1);
+  if (Math.abs(cosine) < 0.17) return null; // Near 90°: no defined geometry
+  return cosine > 0;
+}
+
+/**
+ * Removes neutral, unlabelled hydrogens bonded to one heavy atom and counts them on that atom
+ */
+function foldHydrogens(molecule: Molecule): Molecule {
+  const removable = (atom: Atom): boolean => {
+    if (atom.element !== 'H' || atom.charge !== 0 || atom.isotope) return false;
+    const neighbors = molecule.neighbors(atom.index);
+    return neighbors.length === 1 && molecule.atoms[neighbors[0]!]!.element !== 'H';
+  };
+  if (!molecule.atoms.some(removable)) return molecule;
+
+  const indexMap = new Map<number, number>();
+  const atoms: Atom[] = [];
+  for (const atom of molecule.atoms) {
+    if (removable(atom)) continue;
+    indexMap.set(atom.index, atoms.length);
+    atoms.push({ ...atom, index: atoms.length });
+  }
+
+  for (const atom of molecule.atoms) {
+    if (!removable(atom)) continue;
+    const heavy = atoms[indexMap.get(molecule.neighbors(atom.index)[0]!)!]!;
+    heavy.implicitHydrogens += 1;
+  }
+  for (const atom of atoms) {
+    if (!atom.stereoNeighbors) continue;
+    const mapped = atom.stereoNeighbors.map(neighbor => (neighbor < 0 ? -1 : indexMap.get(neighbor) ?? -1));
+    // A centre with two hydrogens is not stereogenic
+    if (mapped.filter(neighbor => neighbor === -1).length > 1) {
+      delete atom.chirality;
+      delete atom.stereoNeighbors;
+    } else {
+      atom.stereoNeighbors = mapped;
+    }
+  }
+
+  const bonds: Bond[] = [];
+  for (const bond of molecule.bonds) {
+    const begin = indexMap.get(bond.begin);
+    const end = indexMap.get(bond.end);
+    if (begin === undefined || end === undefined) continue;
+    bonds.push({ ...bond, index: bonds.length, begin, end });
+  }
+
+  return new Molecule(atoms, bonds);
+}
+
+/**
+ * Direction of the implied fourth substituent: opposite the mean of the three given bonds
+ */
+function impliedHydrogen(vectors: Vector3[]): Vector3 {
+  const sum: Vector3 = [0, 0, 0];
+  for (const vector of vectors) {
+    const length = Math.hypot(...vector) || 1;
+    for (let k = 0; k < 3; k++) sum[k]! -= vector[k]! / length;
+  }
+  return sum;
+}
+
+function tetrahedronVolume([p0, p1, p2, p3]: Vector3[]): number {
+  const a = subtract(p1!, p0!);
+  const b = subtract(p2!, p0!);
+  const c = subtract(p3!, p0!);
+  return dot(a, [b[1] * c[2] - b[2] * c[1], b[2] * c[0] - b[0] * c[2], b[0] * c[1] - b[1] * c[0]]);
+}
+
+function subtract(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
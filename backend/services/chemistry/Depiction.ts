@@ -0,0 +1,596 @@
+import { Bond, Molecule } from './Molecule';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export interface SvgOptions {
+  width?: number;
+  height?: number;
+  /** Bond length in pixels; reduced when the molecule would not fit */
+  bondLength?: number;
+  background?: string;
+  title?: string;
+}
+
+/** Bond length of the generated coordinates, the usual MOL file convention */
+export const DEPICTION_BOND_LENGTH = 1.5;
+
+const ATOM_COLORS: Record<string, string> = {
+  N: '#3050F8',
+  O: '#E00D0D',
+  S: '#B8A000',
+  P: '#E07000',
+  F: '#1E9E1E',
+  Cl: '#1E9E1E',
+  Br: '#A62929',
+  I: '#940094',
+  B: '#E07070',
+  Si: '#8C7B5A',
+};
+
+/**
+ * 2D coordinates for depiction: ring systems as fused regular polygons, chains as 120° zigzags,
+ * substituents pointing away from their ring, and double-bond geometry following the SMILES
+ */
+export function compute2DCoordinates(molecule: Molecule): Point2D[] {
+  const coordinates: Array<Point2D | undefined> = new Array(molecule.atoms.length).fill(undefined);
+  const systems = ringSystems(molecule);
+  const systemOf = new Map<number, RingSystem>();
+  systems.forEach(system => system.atoms.forEach(atom => systemOf.set(atom, system)));
+
+  let offsetX = 0;
+  for (const component of molecule.getComponents()) {
+    const layout = layoutComponent(molecule, component, systemOf);
+    fixDoubleBondGeometry(molecule, component, layout);
+    orientHorizontally(component, layout);
+
+    const xs = component.map(atom => layout.get(atom)!.x);
+    const ys = component.map(atom => layout.get(atom)!.y);
+    const minX = Math.min(...xs);
+    const centreY = (Math.min(...ys) + Math.max(...ys)) / 2;
+    for (const atom of component) {
+      const point = layout.get(atom)!;
+      coordinates[atom] = { x: round(point.x - minX + offsetX), y: round(point.y - centreY) };
+    }
+    offsetX += Math.max(...xs) - minX + 2 * DEPICTION_BOND_LENGTH;
+  }
+
+  return coordinates.map(point => point ?? { x: 0, y: 0 });
+}
+
+/**
+ * Standalone SVG drawing with kekulized bonds, heteroatom labels and CPK colours
+ */
+export function renderSvg(input: Molecule, options: SvgOptions = {}): string {
+  const width = options.width ?? 300;
+  const height = options.height ?? 300;
+  const padding = 24;
+
+  const molecule = input.clone();
+  try {
+    molecule.kekulize();
+  } catch {
+    // Unkekulizable input is still drawn, with aromatic bonds as single lines
+  }
+  const points = compute2DCoordinates(molecule);
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const spanX = Math.max(...xs, 0) - Math.min(...xs, 0) || 1;
+  const spanY = Math.max(...ys, 0) - Math.min(...ys, 0) || 1;
+  const scale = Math.min(
+    (options.bondLength ?? 30) / DEPICTION_BOND_LENGTH,
+    (width - 2 * padding) / spanX,
+    (height - 2 * padding) / spanY
+  );
+  const centreX = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const centreY = (Math.max(...ys) + Math.min(...ys)) / 2;
+  // SVG y grows downwards
+  const project = (point: Point2D): Point2D => ({
+    x: width / 2 + (point.x - centreX) * scale,
+    y: height / 2 - (point.y - centreY) * scale,
+  });
+  const screen = points.map(project);
+  const fontSize = Math.max(8, Math.min(16, scale * DEPICTION_BOND_LENGTH * 0.45));
+
+  const labels = molecule.atoms.map(atom => atomLabel(molecule, atom.index));
+  const rings = molecule.getRings();
+  const elements: string[] = [];
+
+  for (const bond of molecule.bonds) {
+    elements.push(...bondLines(molecule, bond, screen, labels, rings, fontSize));
+  }
+
+  molecule.atoms.forEach((atom, index) => {
+    const label = labels[index];
+    if (!label) return;
+    const { x, y } = screen[index]!;
+    const color = ATOM_COLORS[atom.element] ?? '#000000';
+    elements.push(
+      `<rect x="${fmt(x - fontSize * 0.4 * label.width)}" y="${fmt(y - fontSize * 0.6)}" width="${fmt(fontSize * 0.8 * label.width)}" height="${fmt(fontSize * 1.2)}" fill="${options.background ?? '#FFFFFF'}"/>`,
+      `<text x="${fmt(x)}" y="${fmt(y)}" fill="${color}" font-size="${fmt(fontSize)}" text-anchor="middle" dominant-baseline="central">${label.markup}</text>`
+    );
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Arial, Helvetica, sans-serif">`,
+    options.title ? `<title>${escapeXml(options.title)}</title>` : '',
+    `<rect width="100%" height="100%" fill="${options.background ?? '#FFFFFF'}"/>`,
+    `<g stroke="#000000" stroke-width="${fmt(Math.max(1, scale * 0.05))}" stroke-linecap="round">`,
+    ...elements.filter(element => element.startsWith('<line')),
+    '</g>',
+    ...elements.filter(element => !element.startsWith('<line')),
+    '</svg>',
+  ].filter(Boolean).join('\n');
+}
+
+interface RingSystem {
+  atoms: Set<number>;
+  rings: number[][];
+}
+
+/**
+ * Rings sharing at least one atom, i.e. fused, bridged and spiro systems
+ */
+function ringSystems(molecule: Molecule): RingSystem[] {
+  const systems: RingSystem[] = [];
+  for (const ring of molecule.getRings()) {
+    const touching = systems.filter(system => ring.some(atom => system.atoms.has(atom)));
+    const merged: RingSystem = { atoms: new Set(ring), rings: [ring] };
+    for (const system of touching) {
+      system.atoms.forEach(atom => merged.atoms.add(atom));
+      merged.rings.push(...system.rings);
+      systems.splice(systems.indexOf(system), 1);
+    }
+    systems.push(merged);
+  }
+  return systems;
+}
+
+/**
+ * Local coordinates for a ring system: the most fused ring first, then each ring that touches
+ * the placed ones, with its free atoms on an arc on the far side of the shared atoms
+ */
+function layoutRingSystem(system: RingSystem): Map<number, Point2D> {
+  const placed = new Map<number, Point2D>();
+  const remaining = [...system.rings].sort((a, b) => sharedCount(b, system.rings) - sharedCount(a, system.rings) || b.length - a.length);
+
+  const first = remaining.shift()!;
+  const radius = polygonRadius(first.length);
+  first.forEach((atom, index) => {
+    const angle = Math.PI / 2 + (2 * Math.PI * index) / first.length;
+    placed.set(atom, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  });
+
+  while (remaining.length > 0) {
+    // Prefer the ring with the most atoms already placed
+    remaining.sort((a, b) => b.filter(atom => placed.has(atom)).length - a.filter(atom => placed.has(atom)).length);
+    const ring = remaining.shift()!;
+    const fixed = ring.filter(atom => placed.has(atom));
+
+    if (fixed.length === 1) {
+      placeSpiroRing(ring, fixed[0]!, placed);
+      continue;
+    }
+
+    // Each run of unplaced atoms is an arc between two placed ring atoms
+    const size = ring.length;
+    for (let start = 0; start < size; start++) {
+      const anchor = ring[start]!;
+      const next = ring[(start + 1) % size]!;
+      if (!placed.has(anchor) || placed.has(next)) continue;
+
+      const run: number[] = [];
+      let end = (start + 1) % size;
+      while (!placed.has(ring[end]!)) {
+        run.push(ring[end]!);
+        end = (end + 1) % size;
+      }
+      placeArc(anchor, ring[end]!, run, ring, placed);
+    }
+  }
+
+  return placed;
+}
+
+function sharedCount(ring: number[], rings: number[][]): number {
+  return rings.filter(other => other !== ring && other.some(atom => ring.includes(atom))).length;
+}
+
+function polygonRadius(size: number): number {
+  return DEPICTION_BOND_LENGTH / (2 * Math.sin(Math.PI / size));
+}
+
+function placeSpiroRing(ring: number[], pivot: number, placed: Map<number, Point2D>): void {
+  const origin = placed.get(pivot)!;
+  const centroid = average(Array.from(placed.values()));
+  const away = normalize({ x: origin.x - centroid.x, y: origin.y - centroid.y }, { x: 1, y: 0 });
+  const radius = polygonRadius(ring.length);
+  const centre = { x: origin.x + away.x * radius, y: origin.y + away.y * radius };
+  const startAngle = Math.atan2(origin.y - centre.y, origin.x - centre.x);
+  const offset = ring.indexOf(pivot);
+  ring.forEach((atom, index) => {
+    if (atom === pivot) return;
+    const angle = startAngle + (2 * Math.PI * (((index - offset) % ring.length) + ring.length)) / ring.length;
+    placed.set(atom, { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) });
+  });
+}
+
+/**
+ * Places run (the atoms between a and b in ring order) on a circular arc of equal chords,
+ * bulging away from the atoms already placed around a and b
+ */
+function placeArc(a: number, b: number, run: number[], ring: number[], placed: Map<number, Point2D>): void {
+  const pa = placed.get(a)!;
+  const pb = placed.get(b)!;
+  const chordCount = run.length + 1;
+  const distance = Math.hypot(pb.x - pa.x, pb.y - pa.y);
+  const reference = average(Array.from(placed.entries()).filter(([atom]) => !ring.includes(atom) || atom === a || atom === b).map(([, point]) => point));
+
+  const midpoint = { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+  let normal = normalize({ x: -(pb.y - pa.y), y: pb.x - pa.x }, { x: 0, y: 1 });
+  const referenceSide = (reference.x - midpoint.x) * normal.x + (reference.y - midpoint.y) * normal.y;
+  if (referenceSide > 0) normal = { x: -normal.x, y: -normal.y };
+
+  if (distance < 1e-6) {
+    // Coincident anchors cannot define an arc; fall back to a straight fan
+    run.forEach((atom, index) => placed.set(atom, {
+      x: pa.x + normal.x * DEPICTION_BOND_LENGTH * (index + 1),
+      y: pa.y + normal.y * DEPICTION_BOND_LENGTH * (index + 1),
+    }));
+    return;
+  }
+
+  // Major arc (centre beyond the chord, on the far side) when the chords can wrap round,
+  // otherwise a shallow minor arc with the centre on the near side
+  const halfAngle = (radius: number, length: number): number => Math.asin(Math.min(1, length / (2 * radius)));
+  const minRadius = Math.max(DEPICTION_BOND_LENGTH, distance) / 2;
+  const major = chordCount * halfAngle(minRadius, DEPICTION_BOND_LENGTH) + halfAngle(minRadius, distance) >= Math.PI;
+  const equation = (radius: number): number => major
+    ? chordCount * halfAngle(radius, DEPICTION_BOND_LENGTH) + halfAngle(radius, distance) - Math.PI
+    : chordCount * halfAngle(radius, DEPICTION_BOND_LENGTH) - halfAngle(radius, distance);
+
+  let low = minRadius;
+  let high = minRadius * 2 + DEPICTION_BOND_LENGTH * chordCount;
+  if (!major && equation(low) < 0) {
+    // The bridge is too short to span the gap: stretch it along a half circle
+    high = low;
+  }
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const mid = (low + high) / 2;
+    if (equation(mid) > 0) low = mid;
+    else high = mid;
+  }
+  const radius = (low + high) / 2;
+
+  const offset = Math.sqrt(Math.max(0, radius * radius - (distance * distance) / 4));
+  const side = major ? 1 : -1;
+  const centre = { x: midpoint.x + normal.x * offset * side, y: midpoint.y + normal.y * offset * side };
+  const startAngle = Math.atan2(pa.y - centre.y, pa.x - centre.x);
+  const endAngle = Math.atan2(pb.y - centre.y, pb.x - centre.x);
+
+  // Walk from a towards b through the side away from the reference
+  let sweep = endAngle - startAngle;
+  const throughFar = (angle: number): boolean => {
+    const probe = { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) };
+    return (probe.x - midpoint.x) * normal.x + (probe.y - midpoint.y) * normal.y > 0;
+  };
+  if (!throughFar(startAngle + sweep / 2)) sweep = sweep > 0 ? sweep - 2 * Math.PI : sweep + 2 * Math.PI;
+
+  run.forEach((atom, index) => {
+    const angle = startAngle + (sweep * (index + 1)) / chordCount;
+    placed.set(atom, { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) });
+  });
+}
+
+/**
+ * Breadth-first layout from the largest ring system (or a chain end): each placed atom
+ * spreads its unplaced neighbours over the widest free angle, whole ring systems are
+ * dropped in as rigid blocks pointing away from the bond they hang from
+ */
+function layoutComponent(molecule: Molecule, component: number[], systemOf: Map<number, RingSystem>): Map<number, Point2D> {
+  const placed = new Map<number, Point2D>();
+  const turn = new Map<number, number>();
+  const queue: number[] = [];
+  const layouts = new Map<RingSystem, Map<number, Point2D>>();
+  const systemLayout = (system: RingSystem): Map<number, Point2D> => {
+    if (!layouts.has(system)) layouts.set(system, layoutRingSystem(system));
+    return layouts.get(system)!;
+  };
+
+  const componentSystems = Array.from(new Set(component.map(atom => systemOf.get(atom)).filter((system): system is RingSystem => !!system)));
+  if (componentSystems.length > 0) {
+    const largest = componentSystems.sort((a, b) => b.atoms.size - a.atoms.size)[0]!;
+    for (const [atom, point] of systemLayout(largest)) {
+      placed.set(atom, point);
+      queue.push(atom);
+    }
+  } else {
+    const start = component.find(atom => molecule.heavyDegree(atom) <= 1) ?? component[0]!;
+    placed.set(start, { x: 0, y: 0 });
+    turn.set(start, 1);
+    queue.push(start);
+  }
+
+  while (queue.length > 0) {
+    const atom = queue.shift()!;
+    const origin = placed.get(atom)!;
+    const pending = molecule.neighbors(atom).filter(neighbor => !placed.has(neighbor));
+    if (pending.length === 0) continue;
+
+    const directions = neighborDirections(molecule, atom, pending, placed, turn);
+    pending.forEach((neighbor, index) => {
+      const direction = directions[index]!;
+      const position = {
+        x: origin.x + direction.x * DEPICTION_BOND_LENGTH,
+        y: origin.y + direction.y * DEPICTION_BOND_LENGTH,
+      };
+
+      const system = systemOf.get(neighbor);
+      if (system && !system.atoms.has(atom)) {
+        const local = systemLayout(system);
+        for (const [member, point] of transformSystem(local, neighbor, position, direction)) {
+          placed.set(member, point);
+          queue.push(member);
+        }
+        return;
+      }
+
+      placed.set(neighbor, position);
+      turn.set(neighbor, -(turn.get(atom) ?? 1));
+      queue.push(neighbor);
+    });
+  }
+
+  return placed;
+}
+
+/**
+ * Unit vectors for the bonds to pending neighbours
+ */
+function neighborDirections(molecule: Molecule, atom: number, pending: number[], placed: Map<number, Point2D>, turn: Map<number, number>): Point2D[] {
+  const origin = placed.get(atom)!;
+  const fixed = molecule.neighbors(atom).filter(neighbor => placed.has(neighbor));
+  const angles = fixed.map(neighbor => {
+    const point = placed.get(neighbor)!;
+    return Math.atan2(point.y - origin.y, point.x - origin.x);
+  });
+
+  if (angles.length === 0) {
+    const step = (2 * Math.PI) / Math.max(pending.length, 2);
+    return pending.map((_, index) => unit(-Math.PI / 6 + index * step));
+  }
+
+  const linear = molecule.bondsOf(atom).some(bond => bond.order === 3) ||
+    molecule.bondsOf(atom).filter(bond => bond.order === 2 && !bond.aromatic).length === 2;
+
+  if (angles.length === 1) {
+    const incoming = angles[0]!;
+    if (linear && pending.length === 1) return [unit(incoming + Math.PI)];
+    if (pending.length === 1) {
+      // Zigzag: alternate the side the chain turns to
+      return [unit(incoming + (turn.get(atom) ?? 1) * (2 * Math.PI) / 3)];
+    }
+    const step = (2 * Math.PI) / (pending.length + 1);
+    return pending.map((_, index) => unit(incoming + step * (index + 1)));
+  }
+
+  // Spread over the widest gap between the placed neighbours
+  const sorted = [...angles].sort((a, b) => a - b);
+  let gapStart = sorted[sorted.length - 1]!;
+  let gapSize = sorted[0]! + 2 * Math.PI - gapStart;
+  for (let i = 1; i < sorted.length; i++) {
+    const size = sorted[i]! - sorted[i - 1]!;
+    if (size > gapSize) {
+      gapSize = size;
+      gapStart = sorted[i - 1]!;
+    }
+  }
+
+  if (pending.length === 1) return [unit(gapStart + gapSize / 2)];
+  // Geminal substituents sit closer together than a plain even split
+  const spread = Math.min(gapSize / (pending.length + 1), Math.PI / 3);
+  const first = gapStart + gapSize / 2 - (spread * (pending.length - 1)) / 2;
+  return pending.map((_, index) => unit(first + spread * index));
+}
+
+/**
+ * Moves a ring system layout so that attachment sits at position and the system extends along direction
+ */
+function transformSystem(local: Map<number, Point2D>, attachment: number, position: Point2D, direction: Point2D): Map<number, Point2D> {
+  const anchor = local.get(attachment)!;
+  const centroid = average(Array.from(local.values()));
+  const outward = normalize({ x: centroid.x - anchor.x, y: centroid.y - anchor.y }, direction);
+  const rotation = Math.atan2(direction.y, direction.x) - Math.atan2(outward.y, outward.x);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  const result = new Map<number, Point2D>();
+  for (const [atom, point] of local) {
+    const dx = point.x - anchor.x;
+    const dy = point.y - anchor.y;
+    result.set(atom, { x: position.x + dx * cos - dy * sin, y: position.y + dx * sin + dy * cos });
+  }
+  return result;
+}
+
+/**
+ * Reflects the far side of each acyclic stereo double bond whose drawing contradicts the SMILES
+ */
+function fixDoubleBondGeometry(molecule: Molecule, component: number[], layout: Map<number, Point2D>): void {
+  const members = new Set(component);
+  for (const [bond, geometry] of molecule.getDoubleBondStereo()) {
+    if (!members.has(bond.begin) || molecule.isBondInRing(bond)) continue;
+
+    const begin = layout.get(bond.begin)!;
+    const end = layout.get(bond.end)!;
+    const side = (atom: number): number => {
+      const point = layout.get(atom)!;
+      return Math.sign((end.x - begin.x) * (point.y - begin.y) - (end.y - begin.y) * (point.x - begin.x));
+    };
+    const drawnCis = side(geometry.refBegin) === side(geometry.refEnd);
+    if (drawnCis === geometry.cis) continue;
+
+    const axis = normalize({ x: end.x - begin.x, y: end.y - begin.y }, { x: 1, y: 0 });
+    for (const atom of branch(molecule, bond.end, bond.begin)) {
+      const point = layout.get(atom)!;
+      const dx = point.x - begin.x;
+      const dy = point.y - begin.y;
+      const along = dx * axis.x + dy * axis.y;
+      layout.set(atom, { x: begin.x + 2 * along * axis.x - dx, y: begin.y + 2 * along * axis.y - dy });
+    }
+  }
+}
+
+/**
+ * Atoms reachable from start without passing through excluded
+ */
+function branch(molecule: Molecule, start: number, excluded: number): number[] {
+  const seen = new Set([start, excluded]);
+  const stack = [start];
+  while (stack.length > 0) {
+    for (const neighbor of molecule.neighbors(stack.pop()!)) {
+      if (seen.has(neighbor)) continue;
+      seen.add(neighbor);
+      stack.push(neighbor);
+    }
+  }
+  seen.delete(excluded);
+  return Array.from(seen);
+}
+
+/**
+ * Rotates the layout so its long axis is horizontal
+ */
+function orientHorizontally(component: number[], layout: Map<number, Point2D>): void {
+  if (component.length < 3) return;
+  const centroid = average(component.map(atom => layout.get(atom)!));
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const atom of component) {
+    const point = layout.get(atom)!;
+    const dx = point.x - centroid.x;
+    const dy = point.y - centroid.y;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+  const angle = -0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  for (const atom of component) {
+    const point = layout.get(atom)!;
+    const dx = point.x - centroid.x;
+    const dy = point.y - centroid.y;
+    layout.set(atom, { x: centroid.x + dx * cos - dy * sin, y: centroid.y + dx * sin + dy * cos });
+  }
+}
+
+interface AtomLabel {
+  markup: string;
+  /** Approximate width in characters */
+  width: number;
+}
+
+/**
+ * Label for heteroatoms, charged or isotopic carbons and lone atoms, with attached hydrogens
+ */
+function atomLabel(molecule: Molecule, index: number): AtomLabel | null {
+  const atom = molecule.atoms[index]!;
+  const degree = molecule.degree(index);
+  if (atom.element === 'C' && atom.charge === 0 && !atom.isotope && degree > 0) return null;
+
+  const hydrogens = atom.implicitHydrogens;
+  let markup = '';
+  let width = atom.element.length;
+  if (atom.isotope) {
+    markup += `<tspan baseline-shift="super" font-size="70%">${atom.isotope}</tspan>`;
+    width += String(atom.isotope).length * 0.7;
+  }
+  markup += atom.element;
+  if (hydrogens > 0) {
+    markup += hydrogens > 1 ? `H<tspan baseline-shift="sub" font-size="70%">${hydrogens}</tspan>` : 'H';
+    width += hydrogens > 1 ? 1.7 : 1;
+  }
+  if (atom.charge !== 0) {
+    const magnitude = Math.abs(atom.charge);
+    const charge = `${magnitude > 1 ? magnitude : ''}${atom.charge > 0 ? '+' : '−'}`;
+    markup += `<tspan baseline-shift="super" font-size="70%">${charge}</tspan>`;
+    width += charge.length * 0.7;
+  }
+  return { markup, width };
+}
+
+function bondLines(
+  molecule: Molecule,
+  bond: Bond,
+  screen: Point2D[],
+  labels: Array<AtomLabel | null>,
+  rings: number[][],
+  fontSize: number
+): string[] {
+  let start = screen[bond.begin]!;
+  let end = screen[bond.end]!;
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length < 1e-6) return [];
+
+  // Keep lines clear of atom labels
+  const direction = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const clearance = fontSize * 0.6;
+  if (labels[bond.begin]) start = { x: start.x + direction.x * clearance, y: start.y + direction.y * clearance };
+  if (labels[bond.end]) end = { x: end.x - direction.x * clearance, y: end.y - direction.y * clearance };
+
+  const normal = { x: -direction.y, y: direction.x };
+  const gap = length * 0.16;
+  const line = (from: Point2D, to: Point2D, dash: boolean = false): string =>
+    `<line x1="${fmt(from.x)}" y1="${fmt(from.y)}" x2="${fmt(to.x)}" y2="${fmt(to.y)}"${dash ? ' stroke-dasharray="3,2"' : ''}/>`;
+  const shifted = (point: Point2D, amount: number): Point2D => ({ x: point.x + normal.x * amount, y: point.y + normal.y * amount });
+
+  const order = bond.aromatic && bond.order === 1 && molecule.atoms[bond.begin]!.aromatic ? 1 : bond.order;
+  if (order === 1 || order === 4) return [line(start, end)];
+  if (order === 3) return [line(start, end), line(shifted(start, gap), shifted(end, gap)), line(shifted(start, -gap), shifted(end, -gap))];
+
+  // Ring double bonds get an inner, shortened second line; others are centred
+  const ring = rings.find(candidate => molecule.ringContainsBond(candidate, bond));
+  if (ring) {
+    const centre = average(ring.map(atom => screen[atom]!));
+    const side = (centre.x - start.x) * normal.x + (centre.y - start.y) * normal.y > 0 ? 1 : -1;
+    const inset = { x: direction.x * length * 0.12, y: direction.y * length * 0.12 };
+    const innerStart = shifted({ x: start.x + inset.x, y: start.y + inset.y }, side * gap);
+    const innerEnd = shifted({ x: end.x - inset.x, y: end.y - inset.y }, side * gap);
+    return [line(start, end), line(innerStart, innerEnd)];
+  }
+  return [line(shifted(start, gap / 2), shifted(end, gap / 2)), line(shifted(start, -gap / 2), shifted(end, -gap / 2))];
+}
+
+function unit(angle: number): Point2D {
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+}
+
+function normalize(vector: Point2D, fallback: Point2D): Point2D {
+  const length = Math.hypot(vector.x, vector.y);
+  return length < 1e-9 ? fallback : { x: vector.x / length, y: vector.y / length };
+}
+
+function average(points: Point2D[]): Point2D {
+  if (points.length === 0) return { x: 0, y: 0 };
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function fmt(value: number): string {
+  return (Math.round(value * 10) / 10).toString();
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,600 @@
+import { calculateMolecularWeight } from '../../../shared/utils';
+import { Bond, Molecule } from './Molecule';
+
+export interface DescriptorSet {
+  molecularWeight: number;
+  logP: number;
+  molarRefractivity: number;
+  logS: number;
+  tpsa: number;
+  hbd: number;
+  hba: number;
+  rotatableBonds: number;
+  ringCount: number;
+  aromaticRings: number;
+  saturatedRings: number;
+  unsaturatedRings: number;
+  heavyAtoms: number;
+  totalAtoms: number;
+  carbonAtoms: number;
+  heteroAtoms: number;
+  aromaticAtoms: number;
+  fractionCSP3: number;
+  complexity: number;
+  formalCharge: number;
+}
+
+interface Neighbor {
+  index: number;
+  bond: Bond;
+}
+
+// Wildman & Crippen, J. Chem. Inf. Comput. Sci. 1999, 39, 868-873: [logP, molar refractivity]
+const CRIPPEN_CONTRIBUTIONS: Record<string, [number, number]> = {
+  C1: [0.1441, 2.503], C2: [0.0, 2.433], C3: [-0.2035, 2.753], C4: [-0.2051, 2.731],
+  C5: [-0.2783, 5.007], C6: [0.1551, 3.513], C7: [0.0017, 3.888], C8: [0.08452, 2.464],
+  C9: [-0.1444, 2.412], C10: [-0.0516, 2.488], C11: [0.1193, 2.582], C12: [-0.0967, 2.576],
+  C13: [-0.5443, 4.041], C14: [0.0, 3.257], C15: [0.245, 3.564], C16: [0.198, 3.18],
+  C17: [0.0, 3.104], C18: [0.1581, 3.35], C19: [0.2955, 4.346], C20: [0.2713, 3.904],
+  C21: [0.136, 3.509], C22: [0.4619, 3.067], C23: [0.5437, 3.853], C24: [0.1893, 2.673],
+  C25: [-0.8186, 3.135], C26: [0.264, 4.305], C27: [0.2148, 2.693], CS: [0.08129, 3.243],
+  H1: [0.123, 1.057], H2: [-0.2677, 1.395], H3: [0.2142, 0.9627], H4: [0.298, 1.805], HS: [0.1125, 1.112],
+  N1: [-1.019, 2.262], N2: [-0.7096, 2.173], N3: [-1.027, 2.827], N4: [-0.5188, 3.0],
+  N5: [0.08387, 1.757], N6: [0.1836, 2.428], N7: [-0.3187, 1.839], N8: [-0.4458, 2.819],
+  N9: [0.01508, 1.725], N10: [-1.95, 0], N11: [-0.3239, 2.202], N12: [-1.119, 0],
+  N13: [-0.3396, 0.2604], NS: [-0.4806, 2.134],
+  O1: [0.1552, 1.08], O2: [-0.2893, 0.8238], O3: [-0.0684, 1.085], O4: [-0.4195, 1.182],
+  O5: [0.0335, 3.367], O6: [-0.3339, 0.7774], O7: [-1.189, 0], O8: [0.1788, 3.135],
+  O9: [-0.1526, 0], O10: [0.1129, 0.2215], O11: [0.4833, 0.389], O12: [-1.326, 0], OS: [-0.1188, 0.6865],
+  F: [0.4202, 1.108], Cl: [0.6895, 5.853], Br: [0.8456, 8.927], I: [0.8857, 14.02], Hal: [-2.996, 0],
+  P: [0.8612, 6.92], S1: [0.6482, 7.591], S2: [-0.0024, 7.365], S3: [0.6237, 6.691],
+  Me1: [-0.3808, 5.754], Me2: [-0.0025, 0],
+};
+
+const CRIPPEN_HETERO = ['N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I'];
+const METALLOIDS = ['B', 'Si', 'Ge', 'As', 'Se', 'Sn', 'Sb', 'Te'];
+
+/**
+ * Computes the full descriptor set used for screening decisions
+ */
+export function calculateDescriptors(molecule: Molecule): DescriptorSet {
+  const heavy = heavyAtomIndices(molecule);
+  const rings = molecule.getRings();
+
+  const aromaticRings = rings.filter(ring => ring.every(i => molecule.atoms[i]!.aromatic)).length;
+  const saturatedRings = rings.filter(ring =>
+    ringBonds(molecule, ring).every(bond => !bond.aromatic && bond.order === 1)
+  ).length;
+
+  const carbons = heavy.filter(i => molecule.atoms[i]!.element === 'C');
+  const sp3Carbons = carbons.filter(i => isSp3(molecule, i));
+  const aromaticAtoms = heavy.filter(i => molecule.atoms[i]!.aromatic).length;
+
+  const molecularWeight = calculateMolecularWeight(molecule.getFormula());
+  const logP = calculateCrippenLogP(molecule);
+  const rotatableBonds = countRotatableBonds(molecule);
+
+  return {
+    molecularWeight,
+    logP: round(logP, 4),
+    molarRefractivity: round(calculateCrippenMR(molecule), 4),
+    logS: round(calculateEsolLogS(logP, molecularWeight, rotatableBonds, aromaticAtoms / Math.max(heavy.length, 1)), 2),
+    tpsa: round(calculateTPSA(molecule), 2),
+    hbd: countHBondDonors(molecule),
+    hba: countHBondAcceptors(molecule),
+    rotatableBonds,
+    ringCount: rings.length,
+    aromaticRings,
+    saturatedRings,
+    unsaturatedRings: rings.length - saturatedRings,
+    heavyAtoms: heavy.length,
+    totalAtoms: heavy.length + heavy.reduce((sum, i) => sum + molecule.hydrogenCount(i), 0),
+    carbonAtoms: carbons.length,
+    heteroAtoms: heavy.filter(i => !['C', 'H', '*'].includes(molecule.atoms[i]!.element)).length,
+    aromaticAtoms,
+    fractionCSP3: carbons.length > 0 ? round(sp3Carbons.length / carbons.length, 4) : 0,
+    complexity: round(calculateBertzComplexity(molecule), 2),
+    formalCharge: molecule.netCharge,
+  };
+}
+
+/**
+ * Wildman–Crippen atom-additive logP
+ */
+export function calculateCrippenLogP(molecule: Molecule): number {
+  return sumCrippenContributions(molecule, 0);
+}
+
+/**
+ * Wildman–Crippen atom-additive molar refractivity
+ */
+export function calculateCrippenMR(molecule: Molecule): number {
+  return sumCrippenContributions(molecule, 1);
+}
+
+/**
+ * Delaney ESOL aqueous solubility estimate (log mol/L)
+ */
+export function calculateEsolLogS(
+  logP: number,
+  molecularWeight: number,
+  rotatableBonds: number,
+  aromaticProportion: number
+): number {
+  return 0.16 - 0.63 * logP - 0.0062 * molecularWeight + 0.066 * rotatableBonds - 0.74 * aromaticProportion;
+}
+
+/**
+ * Topological polar surface area from N and O fragment contributions
+ * (Ertl et al., J. Med. Chem. 2000, 43, 3714-3717); S and P are excluded
+ */
+export function calculateTPSA(molecule: Molecule): number {
+  let total = 0;
+
+  for (const index of heavyAtomIndices(molecule)) {
+    const atom = molecule.atoms[index]!;
+    if (atom.element !== 'N' && atom.element !== 'O') continue;
+
+    const neighbors = heavyNeighbors(molecule, index);
+    const nNbrs = neighbors.length;
+    const nHs = molecule.hydrogenCount(index);
+    const chg = atom.charge;
+    let nSing = 0;
+    let nDoub = 0;
+    let nTrip = 0;
+    let nArom = 0;
+    for (const { bond } of neighbors) {
+      if (bond.aromatic) nArom++;
+      else if (bond.order === 1) nSing++;
+      else if (bond.order === 2) nDoub++;
+      else if (bond.order === 3) nTrip++;
+    }
+    const in3Ring = molecule.getRings().some(ring => ring.length === 3 && ring.includes(index));
+
+    let contribution = -1;
+    if (atom.element === 'N') {
+      if (nNbrs === 1) {
+        if (nHs === 0 && chg === 0 && nTrip === 1) contribution = 23.79;
+        else if (nHs === 1 && chg === 0 && nDoub === 1) contribution = 23.85;
+        else if (nHs === 2 && chg === 0 && nSing === 1) contribution = 26.02;
+        else if (nHs === 2 && chg === 1 && nDoub === 1) contribution = 25.59;
+        else if (nHs === 3 && chg === 1 && nSing === 1) contribution = 27.64;
+      } else if (nNbrs === 2) {
+        if (nHs === 0 && chg === 0 && nSing === 1 && nDoub === 1) contribution = 12.36;
+        else if (nHs === 0 && chg === 0 && nTrip === 1 && nDoub === 1) contribution = 13.6;
+        else if (nHs === 1 && chg === 0 && nSing === 2) contribution = in3Ring ? 21.94 : 12.03;
+        else if (nHs === 0 && chg === 1 && nTrip === 1 && nSing === 1) contribution = 4.36;
+        else if (nHs === 1 && chg === 1 && nDoub === 1 && nSing === 1) contribution = 13.97;
+        else if (nHs === 2 && chg === 1 && nSing === 2) contribution = 16.61;
+        else if (nHs === 0 && chg === 0 && nArom === 2) contribution = 12.89;
+        else if (nHs === 1 && chg === 0 && nArom === 2) contribution = 15.79;
+        else if (nHs === 1 && chg === 1 && nArom === 2) contribution = 14.14;
+      } else if (nNbrs === 3) {
+        if (nHs === 0 && chg === 0 && nSing === 3) contribution = in3Ring ? 3.01 : 3.24;
+        else if (nHs === 0 && chg === 0 && nSing === 1 && nDoub === 2) contribution = 11.68;
+        else if (nHs === 0 && chg === 1 && nSing === 2 && nDoub === 1) contribution = 3.01;
+        else if (nHs === 1 && chg === 1 && nSing === 3) contribution = 4.44;
+        else if (nHs === 0 && chg === 0 && nArom === 3) contribution = 4.41;
+        else if (nHs === 0 && chg === 0 && nSing === 1 && nArom === 2) contribution = 4.93;
+        else if (nHs === 0 && chg === 0 && nDoub === 1 && nArom === 2) contribution = 8.39;
+        else if (nHs === 0 && chg === 1 && nArom === 3) contribution = 4.1;
+        else if (nHs === 0 && chg === 1 && nSing === 1 && nArom === 2) contribution = 3.88;
+      } else if (nNbrs === 4) {
+        if (nHs === 0 && nSing === 4 && chg === 1) contribution = 0;
+      }
+      if (contribution < 0) {
+        contribution = Math.max(0, 30.5 - nNbrs * 8.2 + nHs * 1.5);
+      }
+    } else {
+      if (nNbrs === 1) {
+        if (nHs === 0 && chg === 0 && nDoub === 1) contribution = 17.07;
+        else if (nHs === 1 && chg === 0 && nSing === 1) contribution = 20.23;
+        else if (nHs === 0 && chg === -1 && nSing === 1) contribution = 23.06;
+      } else if (nNbrs === 2) {
+        if (nHs === 0 && chg === 0 && nSing === 2) contribution = in3Ring ? 12.53 : 9.23;
+        else if (nHs === 0 && chg === 0 && nArom === 2) contribution = 13.14;
+      }
+      if (contribution < 0) {
+        contribution = Math.max(0, 28.5 - nNbrs * 8.6 + nHs * 1.5);
+      }
+    }
+
+    total += contribution;
+  }
+
+  return total;
+}
+
+/**
+ * Lipinski-style H-bond donors: N-H, O-H and S-H groups
+ */
+export function countHBondDonors(molecule: Molecule): number {
+  return heavyAtomIndices(molecule).filter(index => {
+    const atom = molecule.atoms[index]!;
+    const hydrogens = molecule.hydrogenCount(index);
+    if (hydrogens === 0) return false;
+
+    if (atom.element === 'N') {
+      if (atom.aromatic) return atom.charge === 0 && hydrogens === 1;
+      const valence = valenceWithHydrogens(molecule, index);
+      return (atom.charge === 0 && valence === 3) || (atom.charge === 1 && valence === 4);
+    }
+    if (atom.element === 'O' || atom.element === 'S') {
+      return atom.charge === 0 && hydrogens === 1;
+    }
+    return false;
+  }).length;
+}
+
+/**
+ * H-bond acceptors: hydroxyl and ether O/S (excluding acid OH), anionic O/S,
+ * non-amide trivalent N, neutral aromatic n/o/s without H, and fluorine
+ */
+export function countHBondAcceptors(molecule: Molecule): number {
+  return heavyAtomIndices(molecule).filter(index => {
+    const atom = molecule.atoms[index]!;
+    const hydrogens = molecule.hydrogenCount(index);
+    const neighbors = heavyNeighbors(molecule, index);
+
+    if (atom.element === 'F') return true;
+
+    if (atom.aromatic) {
+      return ['N', 'O', 'S'].includes(atom.element) && atom.charge === 0 &&
+        (atom.element !== 'N' || hydrogens === 0);
+    }
+
+    if (atom.element === 'O' || atom.element === 'S') {
+      if (atom.charge < 0) return true;
+      const valence = valenceWithHydrogens(molecule, index);
+      if (valence !== 2 || atom.charge !== 0) return false;
+      if (hydrogens === 0) return true;
+      if (hydrogens === 1 && neighbors.length === 1 && neighbors[0]!.bond.order === 1) {
+        // Acid hydroxyls (C(=O)OH, S(=O)OH...) are not counted
+        return !hasExocyclicDoubleToHetero(molecule, neighbors[0]!.index, ['O', 'N', 'P', 'S'], false);
+      }
+      return false;
+    }
+
+    if (atom.element === 'N') {
+      if (valenceWithHydrogens(molecule, index) !== 3 || atom.charge !== 0) return false;
+      // Amide-like nitrogens: single bond to an atom with a non-ring double bond to O, N, P or S
+      return !neighbors.some(({ index: neighbor, bond }) =>
+        !bond.aromatic && bond.order === 1 &&
+        hasExocyclicDoubleToHetero(molecule, neighbor, ['O', 'N', 'P', 'S'], true, index)
+      );
+    }
+
+    return false;
+  }).length;
+}
+
+/**
+ * Rotatable bonds: acyclic single bonds between non-terminal heavy atoms, excluding
+ * atoms in triple bonds and secondary amide nitrogens. This is RDKit's non-strict
+ * definition (Lipinski.RotatableBondSmarts); tertiary amide C-N bonds still count
+ */
+export function countRotatableBonds(molecule: Molecule): number {
+  const excluded = (index: number): boolean => {
+    if (heavyNeighbors(molecule, index).length <= 1) return true;
+    if (molecule.bondsOf(index).some(bond => bond.order === 3)) return true;
+    return isSecondaryAmideNitrogen(index);
+  };
+
+  const isSecondaryAmideNitrogen = (index: number): boolean => {
+    const atom = molecule.atoms[index]!;
+    if (atom.element !== 'N' || atom.aromatic || molecule.hydrogenCount(index) !== 1) return false;
+    return heavyNeighbors(molecule, index).some(({ index: carbon, bond }) =>
+      !molecule.isBondInRing(bond) && molecule.atoms[carbon]!.element === 'C' &&
+      hasExocyclicDoubleToHetero(molecule, carbon, ['O'], false)
+    );
+  };
+
+  return molecule.bonds.filter(bond => {
+    if (bond.aromatic || bond.order !== 1) return false;
+    if (molecule.atoms[bond.begin]!.element === 'H' || molecule.atoms[bond.end]!.element === 'H') return false;
+    if (molecule.isBondInRing(bond)) return false;
+    return !excluded(bond.begin) && !excluded(bond.end);
+  }).length;
+}
+
+/**
+ * Bertz-type structural complexity from the information content of
+ * bond connections and atom types
+ */
+export function calculateBertzComplexity(molecule: Molecule): number {
+  const heavy = heavyAtomIndices(molecule);
+  const connectionClasses = new Map<string, number>();
+  let connections = 0;
+
+  for (const center of heavy) {
+    const bonds = heavyNeighbors(molecule, center);
+    for (let i = 0; i < bonds.length; i++) {
+      for (let j = i + 1; j < bonds.length; j++) {
+        const ends = [bonds[i]!, bonds[j]!]
+          .map(({ index, bond }) => `${molecule.atoms[index]!.element}${bondSymbol(bond)}`)
+          .sort()
+          .join('|');
+        const key = `${molecule.atoms[center]!.element}:${ends}`;
+        connectionClasses.set(key, (connectionClasses.get(key) || 0) + 1);
+        connections++;
+      }
+    }
+  }
+
+  const elementClasses = new Map<string, number>();
+  for (const index of heavy) {
+    const element = molecule.atoms[index]!.element;
+    elementClasses.set(element, (elementClasses.get(element) || 0) + 1);
+  }
+
+  return informationContent(connections, connectionClasses) + informationContent(heavy.length, elementClasses);
+}
+
+/**
+ * Wildman–Crippen atom type for a heavy atom
+ */
+export function crippenAtomType(molecule: Molecule, index: number): string {
+  const atom = molecule.atoms[index]!;
+  const neighbors = heavyNeighbors(molecule, index);
+  const hydrogens = molecule.hydrogenCount(index);
+  const connectivity = neighbors.length + hydrogens;
+
+  const isAliphatic = (n: Neighbor): boolean => !molecule.atoms[n.index]!.aromatic;
+  const isAromatic = (n: Neighbor): boolean => molecule.atoms[n.index]!.aromatic;
+  const elementOf = (n: Neighbor): string => molecule.atoms[n.index]!.element;
+  const isSingle = (n: Neighbor): boolean => n.bond.aromatic || n.bond.order === 1;
+  const isDouble = (n: Neighbor): boolean => !n.bond.aromatic && n.bond.order === 2;
+  const isTriple = (n: Neighbor): boolean => !n.bond.aromatic && n.bond.order === 3;
+  const isHetero = (n: Neighbor): boolean => isAliphatic(n) && CRIPPEN_HETERO.includes(elementOf(n));
+  const isAliphaticCarbon = (n: Neighbor): boolean => isAliphatic(n) && elementOf(n) === 'C';
+
+  switch (atom.element) {
+    case 'C': {
+      if (atom.aromatic) {
+        if (hydrogens === 0 && neighbors.some(n => !n.bond.aromatic && n.bond.order === 1 && isAliphatic(n) &&
+            !['C', 'N', 'O', 'S', 'F', 'Cl', 'Br', 'I'].includes(elementOf(n)))) return 'C13';
+        if (neighbors.some(n => elementOf(n) === 'F')) return 'C14';
+        if (neighbors.some(n => elementOf(n) === 'Cl')) return 'C15';
+        if (neighbors.some(n => elementOf(n) === 'Br')) return 'C16';
+        if (neighbors.some(n => elementOf(n) === 'I')) return 'C17';
+        if (hydrogens === 1) return 'C18';
+
+        const ringBondCount = neighbors.filter(n => n.bond.aromatic).length;
+        if (ringBondCount === 3) return 'C19';
+        if (ringBondCount === 2) {
+          const substituent = neighbors.find(n => !n.bond.aromatic);
+          if (substituent) {
+            if (isSingle(substituent)) {
+              if (isAromatic(substituent)) return 'C20';
+              const element = elementOf(substituent);
+              if (element === 'C') return 'C21';
+              if (element === 'N') return 'C22';
+              if (element === 'O') return 'C23';
+              if (element === 'S') return 'C24';
+            } else if (isDouble(substituent) && isAliphatic(substituent) &&
+                       ['C', 'N', 'O'].includes(elementOf(substituent))) {
+              return 'C25';
+            }
+          }
+        }
+        return 'CS';
+      }
+
+      const allSingle = neighbors.every(isSingle);
+      if (allSingle && neighbors.every(isAliphatic)) {
+        if (neighbors.every(isAliphaticCarbon)) {
+          if (hydrogens === 4 || (hydrogens === 3 && neighbors.length === 1) || (hydrogens === 2 && neighbors.length === 2)) return 'C1';
+          if ((hydrogens === 1 && neighbors.length === 3) || (hydrogens === 0 && neighbors.length === 4)) return 'C2';
+        }
+        if (neighbors.some(isHetero)) {
+          if (hydrogens === 3 || (hydrogens === 2 && connectivity === 4)) return 'C3';
+          if (connectivity === 4 && hydrogens <= 1) return 'C4';
+        }
+      }
+
+      if (neighbors.some(n => isDouble(n) && isAliphatic(n) && elementOf(n) !== 'C' && elementOf(n) !== 'H')) return 'C5';
+
+      const doubleToCarbon = neighbors.find(n => isDouble(n) && isAliphaticCarbon(n));
+      if (doubleToCarbon) {
+        const others = neighbors.filter(n => n !== doubleToCarbon);
+        if (others.every(n => isAliphatic(n) && isSingle(n)) ||
+            others.every(n => isDouble(n) && isAliphaticCarbon(n))) return 'C6';
+      }
+
+      if (connectivity === 2 && neighbors.some(n => isTriple(n) && isAliphatic(n))) return 'C7';
+
+      if (allSingle && neighbors.some(isAromatic)) {
+        if (hydrogens === 3) return elementOf(neighbors[0]!) === 'C' ? 'C8' : 'C9';
+        if (hydrogens === 2 && connectivity === 4) return 'C10';
+        if (hydrogens === 1 && connectivity === 4) return 'C11';
+        if (hydrogens === 0 && connectivity === 4) return 'C12';
+      }
+
+      if (doubleToCarbon || neighbors.some(n => isDouble(n) && isAromatic(n))) return 'C26';
+
+      if (connectivity === 4 && allSingle &&
+          neighbors.some(n => isAliphatic(n) && !['C', ...CRIPPEN_HETERO].includes(elementOf(n)))) return 'C27';
+
+      return 'CS';
+    }
+
+    case 'N': {
+      if (atom.aromatic) {
+        if (atom.charge === 0) return 'N11';
+        if (atom.charge > 0) return 'N12';
+        return 'NS';
+      }
+      if (atom.charge > 0) return hydrogens > 0 ? 'N10' : 'N13';
+      if (atom.charge < 0) return 'N13';
+
+      const single = neighbors.filter(isSingle);
+      const aromaticNeighbors = single.filter(isAromatic).length;
+      if (neighbors.length === single.length) {
+        if (hydrogens === 2 && single.length === 1) return aromaticNeighbors === 0 ? 'N1' : 'N3';
+        if (hydrogens === 1 && single.length === 2) return aromaticNeighbors === 0 ? 'N2' : 'N4';
+        if (hydrogens === 0 && single.length === 3) return aromaticNeighbors === 0 ? 'N7' : 'N8';
+      }
+      if (hydrogens === 1 && neighbors.length === 1 && isDouble(neighbors[0]!) && isAliphatic(neighbors[0]!)) return 'N5';
+      if (hydrogens === 0 && neighbors.length === 2 &&
+          neighbors.some(n => isDouble(n) && isAliphatic(n)) &&
+          neighbors.some(n => isSingle(n) && isAliphatic(n))) return 'N6';
+      if (hydrogens === 0 && neighbors.some(n => isTriple(n) && isAliphatic(n))) return 'N9';
+      return 'NS';
+    }
+
+    case 'O': {
+      if (atom.aromatic) return 'O1';
+      if (hydrogens > 0) return 'O2';
+
+      if (atom.charge === 0 && neighbors.length === 2 && neighbors.every(isSingle)) {
+        return neighbors.every(isAliphatic) ? 'O3' : 'O4';
+      }
+
+      const partner = neighbors[0];
+      if (!partner || neighbors.length !== 1) return 'OS';
+      const partnerElement = elementOf(partner);
+
+      if (atom.charge < 0) {
+        if (partnerElement === 'N') return 'O5';
+        if (partnerElement === 'S') return 'O6';
+        if (partnerElement === 'C' && hasExocyclicDoubleToHetero(molecule, partner.index, ['O'], false)) return 'O12';
+        return 'O7';
+      }
+
+      if (!isDouble(partner)) return 'OS';
+      if (partnerElement === 'N' || partnerElement === 'O') return 'O5';
+      if (partnerElement !== 'C') return 'OS';
+      if (isAromatic(partner)) return 'O8';
+
+      const carbonylNeighbors = heavyNeighbors(molecule, partner.index).filter(n => n.index !== index);
+      const carbonylHydrogens = molecule.hydrogenCount(partner.index);
+      if (carbonylNeighbors.some(isAromatic)) return 'O10';
+      if (carbonylNeighbors.some(isAliphaticCarbon) || carbonylHydrogens > 0) return 'O9';
+      if (carbonylNeighbors.some(n => isDouble(n) && elementOf(n) === 'O')) return 'O9';
+      return 'O11';
+    }
+
+    case 'S':
+      if (atom.aromatic) return 'S3';
+      return atom.charge === 0 ? 'S1' : 'S2';
+
+    case 'P':
+      return 'P';
+
+    case 'F':
+    case 'Cl':
+    case 'Br':
+    case 'I':
+      return atom.charge === 0 ? atom.element : 'Hal';
+
+    default:
+      return METALLOIDS.includes(atom.element) ? 'Me2' : 'Me1';
+  }
+}
+
+/**
+ * Wildman–Crippen type shared by the hydrogens on a heavy atom
+ */
+export function crippenHydrogenType(molecule: Molecule, index: number): string {
+  const atom = molecule.atoms[index]!;
+
+  switch (atom.element) {
+    case 'C':
+      return 'H1';
+    case 'N':
+      return 'H3';
+    case 'O': {
+      const partner = heavyNeighbors(molecule, index)[0];
+      if (!partner) return 'HS';
+
+      const partnerAtom = molecule.atoms[partner.index]!;
+      if (partnerAtom.element === 'C') {
+        if (partnerAtom.aromatic) return 'H2';
+        const partnerConnectivity = heavyNeighbors(molecule, partner.index).length + molecule.hydrogenCount(partner.index);
+        if (partnerConnectivity === 4) return 'H2';
+        if (hasExocyclicDoubleToHetero(molecule, partner.index, ['C', 'N', 'O', 'S'], false)) return 'H4';
+        return 'HS';
+      }
+      if (partnerAtom.element === 'N') return 'H3';
+      if (partnerAtom.element === 'O' || partnerAtom.element === 'S') return 'H4';
+      return 'H2';
+    }
+    default:
+      return 'H2';
+  }
+}
+
+function sumCrippenContributions(molecule: Molecule, column: 0 | 1): number {
+  let total = 0;
+  for (const index of heavyAtomIndices(molecule)) {
+    total += CRIPPEN_CONTRIBUTIONS[crippenAtomType(molecule, index)]?.[column] ?? 0;
+    const hydrogens = molecule.hydrogenCount(index);
+    if (hydrogens > 0) {
+      total += hydrogens * (CRIPPEN_CONTRIBUTIONS[crippenHydrogenType(molecule, index)]?.[column] ?? 0);
+    }
+  }
+  return total;
+}
+
+function heavyAtomIndices(molecule: Molecule): number[] {
+  return molecule.atoms
+    .filter(atom => atom.element !== 'H' && atom.element !== '*')
+    .map(atom => atom.index);
+}
+
+function heavyNeighbors(molecule: Molecule, index: number): Neighbor[] {
+  return molecule.bondsOf(index)
+    .map(bond => ({ index: molecule.otherAtom(bond, index), bond }))
+    .filter(neighbor => molecule.atoms[neighbor.index]!.element !== 'H');
+}
+
+function valenceWithHydrogens(molecule: Molecule, index: number): number {
+  return heavyNeighbors(molecule, index).reduce((sum, { bond }) => sum + bond.order, 0) +
+    molecule.hydrogenCount(index);
+}
+
+function isSp3(molecule: Molecule, index: number): boolean {
+  const atom = molecule.atoms[index]!;
+  return !atom.aromatic && molecule.bondsOf(index).every(bond => bond.order === 1);
+}
+
+/**
+ * True if the atom has a non-aromatic double bond to one of the given elements,
+ * optionally only counting non-ring bonds and ignoring one neighbour
+ */
+function hasExocyclicDoubleToHetero(
+  molecule: Molecule,
+  index: number,
+  elements: string[],
+  nonRingOnly: boolean,
+  ignore?: number
+): boolean {
+  return heavyNeighbors(molecule, index).some(({ index: neighbor, bond }) =>
+    neighbor !== ignore && !bond.aromatic && bond.order === 2 &&
+    elements.includes(molecule.atoms[neighbor]!.element) &&
+    (!nonRingOnly || !molecule.isBondInRing(bond))
+  );
+}
+
+function ringBonds(molecule: Molecule, ring: number[]): Bond[] {
+  return ring.map((atom, i) => molecule.getBond(atom, ring[(i + 1) % ring.length]!)!);
+}
+
+function bondSymbol(bond: Bond): string {
+  if (bond.aromatic) return ':';
+  return ['', '-', '=', '#', '$'][bond.order] || '-';
+}
+
+function informationContent(total: number, classes: Map<string, number>): number {
+  if (total <= 1) return 0;
+  let sum = 0;
+  for (const count of classes.values()) {
+    sum += count * Math.log2(count);
+  }
+  return 2 * total * Math.log2(total) - 2 * sum;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
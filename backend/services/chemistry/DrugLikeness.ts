@@ -0,0 +1,243 @@
+import { DescriptorSet } from './Descriptors';
+
+export type DescriptorName = keyof DescriptorSet;
+
+export interface RuleCriterion {
+  property: DescriptorName;
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export interface DrugLikenessRuleSet {
+  id: string;
+  name: string;
+  reference: string;
+  criteria: RuleCriterion[];
+  /** Number of violated criteria still counted as a pass */
+  allowedViolations: number;
+}
+
+export interface RuleViolation {
+  property: DescriptorName;
+  label: string;
+  comparator: 'min' | 'max';
+  threshold: number;
+  actual: number;
+}
+
+export interface RuleSetResult {
+  id: string;
+  name: string;
+  passes: boolean;
+  score: number;
+  violations: RuleViolation[];
+}
+
+export class RuleSetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSetValidationError';
+  }
+}
+
+const DESCRIPTOR_NAMES: DescriptorName[] = [
+  'molecularWeight', 'logP', 'molarRefractivity', 'logS', 'tpsa', 'hbd', 'hba', 'rotatableBonds',
+  'ringCount', 'aromaticRings', 'saturatedRings', 'unsaturatedRings', 'heavyAtoms', 'totalAtoms',
+  'carbonAtoms', 'heteroAtoms', 'aromaticAtoms', 'fractionCSP3', 'complexity', 'formalCharge',
+];
+
+export const BUILT_IN_RULE_SETS: DrugLikenessRuleSet[] = [
+  {
+    id: 'lipinski',
+    name: 'Lipinski rule of five',
+    reference: 'Lipinski et al., Adv. Drug Deliv. Rev. 1997, 23, 3-25',
+    allowedViolations: 1,
+    criteria: [
+      { property: 'molecularWeight', label: 'Molecular weight', max: 500 },
+      { property: 'logP', label: 'logP', max: 5 },
+      { property: 'hbd', label: 'H-bond donors', max: 5 },
+      { property: 'hba', label: 'H-bond acceptors', max: 10 },
+    ],
+  },
+  {
+    id: 'veber',
+    name: 'Veber',
+    reference: 'Veber et al., J. Med. Chem. 2002, 45, 2615-2623',
+    allowedViolations: 0,
+    criteria: [
+      { property: 'rotatableBonds', label: 'Rotatable bonds', max: 10 },
+      { property: 'tpsa', label: 'TPSA', max: 140 },
+    ],
+  },
+  {
+    id: 'ghose',
+    name: 'Ghose',
+    reference: 'Ghose et al., J. Comb. Chem. 1999, 1, 55-68',
+    allowedViolations: 0,
+    criteria: [
+      { property: 'logP', label: 'logP', min: -0.4, max: 5.6 },
+      { property: 'molarRefractivity', label: 'Molar refractivity', min: 40, max: 130 },
+      { property: 'molecularWeight', label: 'Molecular weight', min: 160, max: 480 },
+      { property: 'totalAtoms', label: 'Atom count', min: 20, max: 70 },
+    ],
+  },
+  {
+    id: 'egan',
+    name: 'Egan',
+    reference: 'Egan et al., J. Med. Chem. 2000, 43, 3867-3877',
+    allowedViolations: 0,
+    criteria: [
+      { property: 'logP', label: 'logP', max: 5.88 },
+      { property: 'tpsa', label: 'TPSA', max: 131.6 },
+    ],
+  },
+  {
+    id: 'muegge',
+    name: 'Muegge',
+    reference: 'Muegge et al., J. Med. Chem. 2001, 44, 1841-1846',
+    allowedViolations: 0,
+    criteria: [
+      { property: 'molecularWeight', label: 'Molecular weight', min: 200, max: 600 },
+      { property: 'logP', label: 'logP', min: -2, max: 5 },
+      { property: 'tpsa', label: 'TPSA', max: 150 },
+      { property: 'ringCount', label: 'Rings', max: 7 },
+      { property: 'carbonAtoms', label: 'Carbon atoms', min: 5 },
+      { property: 'heteroAtoms', label: 'Heteroatoms', min: 2 },
+      { property: 'rotatableBonds', label: 'Rotatable bonds', max: 15 },
+      { property: 'hba', label: 'H-bond acceptors', max: 10 },
+      { property: 'hbd', label: 'H-bond donors', max: 5 },
+    ],
+  },
+  {
+    id: 'leadlike',
+    name: 'Lead-likeness',
+    reference: 'Teague et al., Angew. Chem. Int. Ed. 1999, 38, 3743-3748',
+    allowedViolations: 0,
+    criteria: [
+      { property: 'molecularWeight', label: 'Molecular weight', min: 250, max: 350 },
+      { property: 'logP', label: 'logP', max: 3.5 },
+      { property: 'rotatableBonds', label: 'Rotatable bonds', max: 7 },
+    ],
+  },
+];
+
+/**
+ * Evaluates registered drug-likeness rule sets against computed descriptors
+ */
+export class DrugLikenessEngine {
+  private ruleSets: Map<string, DrugLikenessRuleSet> = new Map();
+
+  constructor(ruleSets: DrugLikenessRuleSet[] = BUILT_IN_RULE_SETS) {
+    ruleSets.forEach(ruleSet => this.registerRuleSet(ruleSet));
+  }
+
+  /**
+   * Adds or replaces a rule set, e.g. a natural-product-adjusted Ro5
+   */
+  public registerRuleSet(ruleSet: DrugLikenessRuleSet): void {
+    this.validateRuleSet(ruleSet);
+    this.ruleSets.set(ruleSet.id, {
+      ...ruleSet,
+      criteria: ruleSet.criteria.map(criterion => ({ ...criterion })),
+    });
+  }
+
+  public unregisterRuleSet(id: string): boolean {
+    return this.ruleSets.delete(id);
+  }
+
+  public getRuleSet(id: string): DrugLikenessRuleSet | undefined {
+    return this.ruleSets.get(id);
+  }
+
+  public getRuleSets(): DrugLikenessRuleSet[] {
+    return Array.from(this.ruleSets.values());
+  }
+
+  /**
+   * Evaluates all rule sets, or only the requested ones, in registration order
+   */
+  public evaluate(descriptors: DescriptorSet, ruleSetIds?: string[]): RuleSetResult[] {
+    const ruleSets = ruleSetIds
+      ? ruleSetIds.map(id => {
+          const ruleSet = this.ruleSets.get(id);
+          if (!ruleSet) {
+            throw new RuleSetValidationError(`Unknown drug-likeness rule set: ${id}`);
+          }
+          return ruleSet;
+        })
+      : this.getRuleSets();
+
+    return ruleSets.map(ruleSet => this.evaluateRuleSet(ruleSet, descriptors));
+  }
+
+  private evaluateRuleSet(ruleSet: DrugLikenessRuleSet, descriptors: DescriptorSet): RuleSetResult {
+    const violations: RuleViolation[] = [];
+    let violatedCriteria = 0;
+
+    for (const criterion of ruleSet.criteria) {
+      const actual = descriptors[criterion.property];
+      let violated = false;
+
+      if (criterion.min !== undefined && actual < criterion.min) {
+        violations.push({ ...this.describe(criterion), comparator: 'min', threshold: criterion.min, actual });
+        violated = true;
+      }
+      if (criterion.max !== undefined && actual > criterion.max) {
+        violations.push({ ...this.describe(criterion), comparator: 'max', threshold: criterion.max, actual });
+        violated = true;
+      }
+      if (violated) violatedCriteria++;
+    }
+
+    return {
+      id: ruleSet.id,
+      name: ruleSet.name,
+      passes: violatedCriteria <= ruleSet.allowedViolations,
+      score: Math.round((1 - violatedCriteria / ruleSet.criteria.length) * 100) / 100,
+      violations,
+    };
+  }
+
+  private describe(criterion: RuleCriterion): Pick<RuleViolation, 'property' | 'label'> {
+    return { property: criterion.property, label: criterion.label };
+  }
+
+  private validateRuleSet(ruleSet: DrugLikenessRuleSet): void {
+    if (!ruleSet.id || !/^[a-z0-9_-]+$/i.test(ruleSet.id)) {
+      throw new RuleSetValidationError(`Invalid rule set id: "${ruleSet.id}"`);
+    }
+    if (ruleSet.criteria.length === 0) {
+      throw new RuleSetValidationError(`Rule set ${ruleSet.id} has no criteria`);
+    }
+    if (ruleSet.allowedViolations < 0 || ruleSet.allowedViolations >= ruleSet.criteria.length) {
+      throw new RuleSetValidationError(
+        `Rule set ${ruleSet.id} allows ${ruleSet.allowedViolations} violations of ${ruleSet.criteria.length} criteria`
+      );
+    }
+
+    for (const criterion of ruleSet.criteria) {
+      if (!DESCRIPTOR_NAMES.includes(criterion.property)) {
+        throw new RuleSetValidationError(`Rule set ${ruleSet.id} uses unknown descriptor ${criterion.property}`);
+      }
+      if (criterion.min === undefined && criterion.max === undefined) {
+        throw new RuleSetValidationError(`Criterion ${criterion.label} in ${ruleSet.id} has no threshold`);
+      }
+      if (criterion.min !== undefined && criterion.max !== undefined && criterion.min > criterion.max) {
+        throw new RuleSetValidationError(`Criterion ${criterion.label} in ${ruleSet.id} has min above max`);
+      }
+    }
+  }
+}
+
+/**
+ * Formats a violation as "Molecular weight 523.6 > 500"
+ */
+export function formatViolation(violation: RuleViolation): string {
+  const operator = violation.comparator === 'max' ? '>' : '<';
+  return `${violation.label} ${violation.actual} ${operator} ${violation.threshold}`;
+}
+
+/** Shared engine with the built-in rule sets; custom sets registered here apply everywhere */
+export const drugLikenessEngine = new DrugLikenessEngine();
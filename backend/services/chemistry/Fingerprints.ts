@@ -0,0 +1,515 @@
+import { Bond, Molecule } from './Molecule';
+import { SmartsPattern } from './Smarts';
+
+/** Bumped whenever the fingerprint algorithms change so stored values get recomputed */
+export const FINGERPRINT_VERSION = 2;
+
+export const MORGAN_RADIUS = 2;
+export const MORGAN_BITS = 2048;
+export const PATTERN_BITS = 1024;
+const PATTERN_MAX_BONDS = 3;
+
+export type FingerprintType = 'morgan' | 'maccs';
+
+/**
+ * Fixed-length bit vector
+ */
+export class Fingerprint {
+  public readonly length: number;
+  private words: Uint32Array;
+
+  constructor(length: number) {
+    this.length = length;
+    this.words = new Uint32Array(Math.ceil(length / 32));
+  }
+
+  public set(bit: number): void {
+    this.words[bit >>> 5]! |= 1 << (bit & 31);
+  }
+
+  public has(bit: number): boolean {
+    return (this.words[bit >>> 5]! & (1 << (bit & 31))) !== 0;
+  }
+
+  public count(): number {
+    let total = 0;
+    for (const word of this.words) total += popcount(word);
+    return total;
+  }
+
+  public onBits(): number[] {
+    const bits: number[] = [];
+    for (let bit = 0; bit < this.length; bit++) {
+      if (this.has(bit)) bits.push(bit);
+    }
+    return bits;
+  }
+
+  public toHex(): string {
+    return Array.from(this.words, word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  public static fromHex(hex: string, length: number): Fingerprint {
+    const fingerprint = new Fingerprint(length);
+    if (hex.length !== fingerprint.words.length * 8) {
+      throw new Error(`Fingerprint hex has ${hex.length} characters, expected ${fingerprint.words.length * 8}`);
+    }
+    for (let i = 0; i < fingerprint.words.length; i++) {
+      fingerprint.words[i] = parseInt(hex.slice(i * 8, i * 8 + 8), 16) >>> 0;
+    }
+    return fingerprint;
+  }
+
+  /**
+   * True if every bit set in the other fingerprint is also set here
+   */
+  public contains(other: Fingerprint): boolean {
+    if (other.length !== this.length) {
+      throw new Error(`Cannot compare fingerprints of length ${this.length} and ${other.length}`);
+    }
+    for (let i = 0; i < this.words.length; i++) {
+      if ((this.words[i]! & other.words[i]!) !== other.words[i]!) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Tanimoto coefficient |A∩B| / |A∪B|; two empty fingerprints score 0
+   */
+  public tanimoto(other: Fingerprint): number {
+    if (other.length !== this.length) {
+      throw new Error(`Cannot compare fingerprints of length ${this.length} and ${other.length}`);
+    }
+    let common = 0;
+    let union = 0;
+    for (let i = 0; i < this.words.length; i++) {
+      const a = this.words[i]!;
+      const b = other.words[i]!;
+      common += popcount(a & b);
+      union += popcount(a | b);
+    }
+    return union === 0 ? 0 : common / union;
+  }
+}
+
+/**
+ * Morgan circular fingerprint (ECFP-style, radius 2 ≈ ECFP4) folded to a bit vector
+ */
+export function morganFingerprint(
+  molecule: Molecule,
+  radius: number = MORGAN_RADIUS,
+  nBits: number = MORGAN_BITS
+): Fingerprint {
+  const fingerprint = new Fingerprint(nBits);
+  const heavy = molecule.atoms.filter(atom => atom.element !== 'H').map(atom => atom.index);
+
+  let identifiers = new Map<number, number>();
+  for (const index of heavy) {
+    const atom = molecule.atoms[index]!;
+    const identifier = hashInts([
+      hashString(atom.element),
+      molecule.heavyDegree(index),
+      molecule.hydrogenCount(index),
+      atom.charge + 8,
+      atom.isotope ?? 0,
+      molecule.isInRing(index) ? 1 : 0,
+      atom.aromatic ? 1 : 0,
+    ]);
+    identifiers.set(index, identifier);
+    fingerprint.set(identifier % nBits);
+  }
+
+  for (let iteration = 1; iteration <= radius; iteration++) {
+    const next = new Map<number, number>();
+    for (const index of heavy) {
+      const environment = molecule.bondsOf(index)
+        .map(bond => ({ bond, neighbor: molecule.otherAtom(bond, index) }))
+        .filter(({ neighbor }) => identifiers.has(neighbor))
+        .map(({ bond, neighbor }) => [bondCode(bond), identifiers.get(neighbor)!] as [number, number])
+        .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+      const identifier = hashInts([iteration, identifiers.get(index)!, ...environment.flat()]);
+      next.set(index, identifier);
+      fingerprint.set(identifier % nBits);
+    }
+    identifiers = next;
+  }
+
+  return fingerprint;
+}
+
+interface LabeledGraph {
+  labels: Array<string | null>;
+  edges: Array<{ begin: number; end: number; label: string | null }>;
+}
+
+/**
+ * Substructure screening fingerprint: hashed element/bond-class paths of up to three bonds.
+ * A molecule can only contain a query if it contains all of the query's paths
+ */
+export function patternFingerprint(molecule: Molecule): Fingerprint {
+  const labels = molecule.atoms.map(atom => (atom.element === 'H' ? null : atom.element));
+  const edges = molecule.bonds.map(bond => ({
+    begin: bond.begin,
+    end: bond.end,
+    label: bond.aromatic || bond.order === 1 ? 's' : bond.order === 2 ? 'd' : bond.order === 3 ? 't' : null,
+  }));
+  return pathFingerprint({ labels, edges });
+}
+
+/**
+ * Screening fingerprint for a SMARTS query, built only from atoms and bonds it pins down
+ */
+export function queryPatternFingerprint(pattern: SmartsPattern): Fingerprint {
+  const labels = pattern.screeningAtoms().map(element => (element === 'H' ? null : element));
+  const edges = pattern.screeningBonds().map(bond => ({ begin: bond.begin, end: bond.end, label: bond.bondClass }));
+  return pathFingerprint({ labels, edges });
+}
+
+function pathFingerprint(graph: LabeledGraph): Fingerprint {
+  const fingerprint = new Fingerprint(PATTERN_BITS);
+  const adjacency: Array<Array<{ neighbor: number; label: string }>> = graph.labels.map(() => []);
+  for (const edge of graph.edges) {
+    if (edge.label === null || graph.labels[edge.begin] === null || graph.labels[edge.end] === null) continue;
+    adjacency[edge.begin]!.push({ neighbor: edge.end, label: edge.label });
+    adjacency[edge.end]!.push({ neighbor: edge.begin, label: edge.label });
+  }
+
+  const addPath = (tokens: string[]): void => {
+    const forward = tokens.join('');
+    const reverse = [...tokens].reverse().join('');
+    const canonical = forward < reverse ? forward : reverse;
+    fingerprint.set(hashString(canonical) % PATTERN_BITS);
+  };
+
+  const extend = (atom: number, tokens: string[], visited: Set<number>, bonds: number): void => {
+    addPath(tokens);
+    if (bonds === PATTERN_MAX_BONDS) return;
+    for (const { neighbor, label } of adjacency[atom]!) {
+      if (visited.has(neighbor)) continue;
+      visited.add(neighbor);
+      extend(neighbor, [...tokens, label, graph.labels[neighbor]!], visited, bonds + 1);
+      visited.delete(neighbor);
+    }
+  };
+
+  graph.labels.forEach((label, atom) => {
+    if (label !== null) extend(atom, [label], new Set([atom]), 0);
+  });
+
+  return fingerprint;
+}
+
+interface StructuralKey {
+  description: string;
+  test: (context: KeyContext) => boolean;
+}
+
+interface KeyContext {
+  molecule: Molecule;
+  heavy: number[];
+  rings: number[][];
+  element: (index: number) => string;
+  hydrogens: (index: number) => number;
+  neighbors: (index: number) => Array<{ index: number; bond: Bond }>;
+  count: (predicate: (index: number) => boolean) => number;
+}
+
+const HALOGENS = ['F', 'Cl', 'Br', 'I'];
+
+const isDoubleTo = (context: KeyContext, index: number, element: string): boolean =>
+  context.neighbors(index).some(n => !n.bond.aromatic && n.bond.order === 2 && context.element(n.index) === element);
+
+const isCarbonyl = (context: KeyContext, index: number): boolean =>
+  context.element(index) === 'C' && isDoubleTo(context, index, 'O');
+
+const isHydroxyl = (context: KeyContext, index: number): boolean =>
+  context.element(index) === 'O' && context.hydrogens(index) === 1 && context.neighbors(index).length === 1;
+
+const isEtherOxygen = (context: KeyContext, index: number): boolean =>
+  context.element(index) === 'O' && !context.molecule.atoms[index]!.aromatic &&
+  context.neighbors(index).length === 2 &&
+  context.neighbors(index).every(n => context.element(n.index) === 'C' && n.bond.order === 1 && !n.bond.aromatic);
+
+const ringHasElement = (context: KeyContext, element: string, aromatic: boolean): boolean =>
+  context.rings.some(ring => ring.some(i => context.element(i) === element) &&
+    ring.every(i => context.molecule.atoms[i]!.aromatic === aromatic));
+
+/**
+ * MACCS-like structural keys: element, ring and functional group features
+ * relevant to phytochemicals (phenols, methoxy, glycosides, lactones, enones...)
+ */
+export const STRUCTURAL_KEYS: StructuralKey[] = [
+  { description: 'nitrogen', test: c => c.count(i => c.element(i) === 'N') > 0 },
+  { description: 'oxygen', test: c => c.count(i => c.element(i) === 'O') > 0 },
+  { description: 'sulfur', test: c => c.count(i => c.element(i) === 'S') > 0 },
+  { description: 'phosphorus', test: c => c.count(i => c.element(i) === 'P') > 0 },
+  { description: 'fluorine', test: c => c.count(i => c.element(i) === 'F') > 0 },
+  { description: 'chlorine', test: c => c.count(i => c.element(i) === 'Cl') > 0 },
+  { description: 'bromine', test: c => c.count(i => c.element(i) === 'Br') > 0 },
+  { description: 'iodine', test: c => c.count(i => c.element(i) === 'I') > 0 },
+  { description: 'charged atom', test: c => c.count(i => c.molecule.atoms[i]!.charge !== 0) > 0 },
+  { description: 'two or more nitrogens', test: c => c.count(i => c.element(i) === 'N') >= 2 },
+  { description: 'three or more oxygens', test: c => c.count(i => c.element(i) === 'O') >= 3 },
+  { description: 'five or more oxygens', test: c => c.count(i => c.element(i) === 'O') >= 5 },
+  { description: 'ten or more oxygens', test: c => c.count(i => c.element(i) === 'O') >= 10 },
+  { description: '20 or more heavy atoms', test: c => c.heavy.length >= 20 },
+  { description: '40 or more heavy atoms', test: c => c.heavy.length >= 40 },
+  { description: '3-membered ring', test: c => c.rings.some(r => r.length === 3) },
+  { description: '4-membered ring', test: c => c.rings.some(r => r.length === 4) },
+  { description: '5-membered ring', test: c => c.rings.some(r => r.length === 5) },
+  { description: '6-membered ring', test: c => c.rings.some(r => r.length === 6) },
+  { description: 'ring of 7 or more atoms', test: c => c.rings.some(r => r.length >= 7) },
+  { description: 'aromatic ring', test: c => c.rings.some(r => r.every(i => c.molecule.atoms[i]!.aromatic)) },
+  { description: 'two or more aromatic rings', test: c => c.rings.filter(r => r.every(i => c.molecule.atoms[i]!.aromatic)).length >= 2 },
+  { description: 'four or more rings', test: c => c.rings.length >= 4 },
+  { description: 'fused ring system', test: c => c.count(i => c.rings.filter(r => r.includes(i)).length >= 2) > 0 },
+  { description: 'aromatic nitrogen', test: c => c.count(i => c.element(i) === 'N' && c.molecule.atoms[i]!.aromatic) > 0 },
+  { description: 'aromatic oxygen', test: c => c.count(i => c.element(i) === 'O' && c.molecule.atoms[i]!.aromatic) > 0 },
+  { description: 'aromatic sulfur', test: c => c.count(i => c.element(i) === 'S' && c.molecule.atoms[i]!.aromatic) > 0 },
+  { description: 'oxygen heterocycle', test: c => ringHasElement(c, 'O', false) },
+  { description: 'nitrogen heterocycle', test: c => ringHasElement(c, 'N', false) },
+  { description: 'hydroxyl', test: c => c.count(i => isHydroxyl(c, i)) > 0 },
+  { description: 'three or more hydroxyls', test: c => c.count(i => isHydroxyl(c, i)) >= 3 },
+  {
+    description: 'phenol',
+    test: c => c.count(i => isHydroxyl(c, i) && c.molecule.atoms[c.neighbors(i)[0]!.index]!.aromatic) > 0,
+  },
+  {
+    description: 'catechol',
+    test: c => c.count(i => c.molecule.atoms[i]!.aromatic && c.neighbors(i).some(n => isHydroxyl(c, n.index)) &&
+      c.neighbors(i).some(n => n.bond.aromatic && c.neighbors(n.index).some(m => isHydroxyl(c, m.index)))) > 0,
+  },
+  { description: 'carbonyl', test: c => c.count(i => isCarbonyl(c, i)) > 0 },
+  {
+    description: 'aldehyde',
+    test: c => c.count(i => isCarbonyl(c, i) && c.hydrogens(i) === 1) > 0,
+  },
+  {
+    description: 'ketone',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).filter(n => c.element(n.index) === 'C').length === 2) > 0,
+  },
+  {
+    description: 'carboxylic acid',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n => isHydroxyl(c, n.index))) > 0,
+  },
+  {
+    description: 'ester',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n => isEtherOxygen(c, n.index))) > 0,
+  },
+  {
+    description: 'lactone',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n =>
+      isEtherOxygen(c, n.index) && c.molecule.isBondInRing(n.bond))) > 0,
+  },
+  {
+    description: 'amide',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n => c.element(n.index) === 'N' && !n.bond.aromatic)) > 0,
+  },
+  {
+    description: 'lactam',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n =>
+      c.element(n.index) === 'N' && c.molecule.isBondInRing(n.bond))) > 0,
+  },
+  {
+    description: 'ether',
+    test: c => c.count(i => isEtherOxygen(c, i) && c.neighbors(i).every(n => !isCarbonyl(c, n.index))) > 0,
+  },
+  {
+    description: 'methoxy',
+    test: c => c.count(i => isEtherOxygen(c, i) && c.neighbors(i).some(n => c.hydrogens(n.index) === 3)) > 0,
+  },
+  {
+    description: 'aryl ether',
+    test: c => c.count(i => c.element(i) === 'O' && c.neighbors(i).length === 2 &&
+      c.neighbors(i).some(n => c.molecule.atoms[n.index]!.aromatic && !n.bond.aromatic)) > 0,
+  },
+  {
+    description: 'methylenedioxy',
+    test: c => c.count(i => c.element(i) === 'C' && c.hydrogens(i) === 2 &&
+      c.neighbors(i).filter(n => isEtherOxygen(c, n.index) || c.element(n.index) === 'O').length === 2) > 0,
+  },
+  {
+    description: 'acetal carbon',
+    test: c => c.count(i => c.element(i) === 'C' &&
+      c.neighbors(i).filter(n => c.element(n.index) === 'O' && n.bond.order === 1 && !n.bond.aromatic).length >= 2) > 0,
+  },
+  { description: 'epoxide', test: c => c.rings.some(r => r.length === 3 && r.some(i => c.element(i) === 'O')) },
+  { description: 'primary amine', test: c => c.count(i => c.element(i) === 'N' && c.hydrogens(i) === 2) > 0 },
+  {
+    description: 'secondary amine',
+    test: c => c.count(i => c.element(i) === 'N' && !c.molecule.atoms[i]!.aromatic && c.hydrogens(i) === 1 &&
+      c.neighbors(i).every(n => !isCarbonyl(c, n.index))) > 0,
+  },
+  {
+    description: 'tertiary amine',
+    test: c => c.count(i => c.element(i) === 'N' && !c.molecule.atoms[i]!.aromatic && c.hydrogens(i) === 0 &&
+      c.neighbors(i).length === 3 && c.neighbors(i).every(n => n.bond.order === 1 && !isCarbonyl(c, n.index))) > 0,
+  },
+  { description: 'quaternary nitrogen', test: c => c.count(i => c.element(i) === 'N' && c.molecule.atoms[i]!.charge > 0) > 0 },
+  {
+    description: 'nitrile',
+    test: c => c.count(i => c.element(i) === 'N' && c.neighbors(i).some(n => n.bond.order === 3)) > 0,
+  },
+  {
+    description: 'nitro',
+    test: c => c.count(i => c.element(i) === 'N' && c.neighbors(i).filter(n => c.element(n.index) === 'O').length === 2) > 0,
+  },
+  { description: 'N-N bond', test: c => c.count(i => c.element(i) === 'N' && c.neighbors(i).some(n => c.element(n.index) === 'N')) > 0 },
+  { description: 'N-O bond', test: c => c.count(i => c.element(i) === 'N' && c.neighbors(i).some(n => c.element(n.index) === 'O')) > 0 },
+  { description: 'imine', test: c => c.count(i => c.element(i) === 'C' && isDoubleTo(c, i, 'N')) > 0 },
+  { description: 'thiol', test: c => c.count(i => c.element(i) === 'S' && c.hydrogens(i) === 1) > 0 },
+  {
+    description: 'thioether',
+    test: c => c.count(i => c.element(i) === 'S' && !c.molecule.atoms[i]!.aromatic && c.neighbors(i).length === 2) > 0,
+  },
+  { description: 'S=O', test: c => c.count(i => c.element(i) === 'S' && isDoubleTo(c, i, 'O')) > 0 },
+  { description: 'aryl halide', test: c => c.count(i => HALOGENS.includes(c.element(i)) && c.neighbors(i).some(n => c.molecule.atoms[n.index]!.aromatic)) > 0 },
+  { description: 'alkene', test: c => c.count(i => c.element(i) === 'C' && isDoubleTo(c, i, 'C')) > 0 },
+  { description: 'alkyne', test: c => c.count(i => c.element(i) === 'C' && c.neighbors(i).some(n => n.bond.order === 3 && c.element(n.index) === 'C')) > 0 },
+  {
+    description: 'styryl (aryl-alkene conjugation)',
+    test: c => c.count(i => c.element(i) === 'C' && !c.molecule.atoms[i]!.aromatic && isDoubleTo(c, i, 'C') &&
+      c.neighbors(i).some(n => c.molecule.atoms[n.index]!.aromatic)) > 0,
+  },
+  {
+    description: 'α,β-unsaturated carbonyl',
+    test: c => c.count(i => isCarbonyl(c, i) && c.neighbors(i).some(n =>
+      n.bond.order === 1 && !n.bond.aromatic && c.element(n.index) === 'C' && isDoubleTo(c, n.index, 'C'))) > 0,
+  },
+  {
+    description: '1,3-dicarbonyl',
+    test: c => c.count(i => c.element(i) === 'C' && !isCarbonyl(c, i) &&
+      c.neighbors(i).filter(n => isCarbonyl(c, n.index)).length >= 2) > 0,
+  },
+  { description: 'methyl group', test: c => c.count(i => c.element(i) === 'C' && c.hydrogens(i) === 3) > 0 },
+  { description: 'three or more methyl groups', test: c => c.count(i => c.element(i) === 'C' && c.hydrogens(i) === 3) >= 3 },
+  {
+    description: 'gem-dimethyl',
+    test: c => c.count(i => c.element(i) === 'C' &&
+      c.neighbors(i).filter(n => c.element(n.index) === 'C' && c.hydrogens(n.index) === 3).length >= 2) > 0,
+  },
+  {
+    description: 'quaternary carbon',
+    test: c => c.count(i => c.element(i) === 'C' && c.neighbors(i).length === 4 && c.hydrogens(i) === 0) > 0,
+  },
+  {
+    description: 'methylene chain',
+    test: c => c.count(i => c.element(i) === 'C' && c.hydrogens(i) === 2 && !c.molecule.isInRing(i) &&
+      c.neighbors(i).some(n => c.element(n.index) === 'C' && c.hydrogens(n.index) === 2 && !c.molecule.isInRing(n.index))) > 0,
+  },
+  {
+    description: 'mostly sp3 carbons',
+    test: c => {
+      const carbons = c.heavy.filter(i => c.element(i) === 'C');
+      const sp3 = carbons.filter(i => !c.molecule.atoms[i]!.aromatic && c.neighbors(i).every(n => n.bond.order === 1));
+      return carbons.length > 0 && sp3.length / carbons.length > 0.5;
+    },
+  },
+];
+
+/**
+ * MACCS-like structural key fingerprint, one bit per entry in STRUCTURAL_KEYS
+ */
+export function maccsKeys(molecule: Molecule): Fingerprint {
+  const context = buildKeyContext(molecule);
+  const fingerprint = new Fingerprint(STRUCTURAL_KEYS.length);
+  STRUCTURAL_KEYS.forEach((key, bit) => {
+    if (key.test(context)) fingerprint.set(bit);
+  });
+  return fingerprint;
+}
+
+/**
+ * Descriptions of the structural keys set in both fingerprints
+ */
+export function sharedStructuralKeys(a: Fingerprint, b: Fingerprint): string[] {
+  return STRUCTURAL_KEYS
+    .filter((_key, bit) => a.has(bit) && b.has(bit))
+    .map(key => key.description);
+}
+
+export interface StoredFingerprints {
+  morgan: string;
+  maccs: string;
+  pattern: string;
+  version: number;
+}
+
+/**
+ * Computes both fingerprints in the hex form stored on Compound documents
+ */
+export function computeFingerprints(molecule: Molecule): StoredFingerprints {
+  return {
+    morgan: morganFingerprint(molecule).toHex(),
+    maccs: maccsKeys(molecule).toHex(),
+    pattern: patternFingerprint(molecule).toHex(),
+    version: FINGERPRINT_VERSION,
+  };
+}
+
+export function fingerprintFromStored(stored: StoredFingerprints, type: FingerprintType | 'pattern'): Fingerprint {
+  switch (type) {
+    case 'morgan':
+      return Fingerprint.fromHex(stored.morgan, MORGAN_BITS);
+    case 'maccs':
+      return Fingerprint.fromHex(stored.maccs, STRUCTURAL_KEYS.length);
+    case 'pattern':
+      return Fingerprint.fromHex(stored.pattern, PATTERN_BITS);
+  }
+}
+
+function buildKeyContext(molecule: Molecule): KeyContext {
+  const heavy = molecule.atoms.filter(atom => atom.element !== 'H').map(atom => atom.index);
+  const neighborCache = new Map<number, Array<{ index: number; bond: Bond }>>();
+
+  const neighbors = (index: number): Array<{ index: number; bond: Bond }> => {
+    let cached = neighborCache.get(index);
+    if (!cached) {
+      cached = molecule.bondsOf(index)
+        .map(bond => ({ index: molecule.otherAtom(bond, index), bond }))
+        .filter(n => molecule.atoms[n.index]!.element !== 'H');
+      neighborCache.set(index, cached);
+    }
+    return cached;
+  };
+
+  return {
+    molecule,
+    heavy,
+    rings: molecule.getRings(),
+    element: index => molecule.atoms[index]!.element,
+    hydrogens: index => molecule.hydrogenCount(index),
+    neighbors,
+    count: predicate => heavy.filter(predicate).length,
+  };
+}
+
+function bondCode(bond: Bond): number {
+  return bond.aromatic ? 4 : bond.order;
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashInts(values: number[]): number {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    hash ^= value >>> 0;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+}
+
+function popcount(word: number): number {
+  let value = word - ((word >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
@@ -0,0 +1,478 @@
+import { Bond, Molecule } from './Molecule';
+
+export type Hybridization = 'sp' | 'sp2' | 'sp3';
+
+/** Objective for minimizeLbfgs: returns the value and writes the gradient */
+export type Objective = (x: Float64Array, gradient: Float64Array) => number;
+
+export interface TorsionBarrier {
+  bond: Bond;
+  /** Sum of the torsion amplitudes about the bond, kcal/mol */
+  barrier: number;
+}
+
+// Single-bond covalent radii (Å); multiple bonds are shortened by BOND_ORDER_SCALE
+const COVALENT_RADII: Record<string, number> = {
+  H: 0.31, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57, Si: 1.11, P: 1.07, S: 1.05, Cl: 1.02, Se: 1.2, Br: 1.2, I: 1.39,
+};
+const VDW_RADII: Record<string, number> = {
+  H: 1.1, B: 1.92, C: 1.7, N: 1.55, O: 1.52, F: 1.47, Si: 2.1, P: 1.8, S: 1.8, Cl: 1.75, Se: 1.9, Br: 1.85, I: 1.98,
+};
+const WELL_DEPTHS: Record<string, number> = { H: 0.02, C: 0.1, N: 0.07, O: 0.06 };
+const BOND_ORDER_SCALE: Record<number, number> = { 1: 1, 2: 0.87, 3: 0.78, 4: 0.915 };
+
+const BOND_FORCE = 350; // kcal/mol/Å²
+const ANGLE_FORCE = 60; // kcal/mol/rad²
+const INVERSION_FORCE = 20;
+const ONE_FOUR_SCALE = 0.5;
+const GAUCHE_PENALTY = 1; // Onefold amplitude giving ~0.75 kcal/mol gauche-anti difference
+
+interface BondTerm { i: number; j: number; length: number }
+interface AngleTerm { center: number; a: number; b: number; cosine: number; force: number; linear: boolean }
+interface TorsionTerm { a: number; b: number; c: number; d: number; amplitude: number; periodicity: number; sign: 1 | -1 }
+interface InversionTerm { center: number; a: number; b: number; c: number }
+interface PairTerm { i: number; j: number; rmin: number; depth: number }
+
+export function hybridization(molecule: Molecule, index: number): Hybridization {
+  const atom = molecule.atoms[index]!;
+  const bonds = molecule.bondsOf(index);
+  const multiple = bonds.filter(bond => !bond.aromatic && bond.order >= 2);
+
+  if (multiple.some(bond => bond.order === 3) || multiple.length >= 2) return 'sp';
+  if (multiple.length === 1 || atom.aromatic) return 'sp2';
+
+  // Nitrogen lone pairs conjugate with a neighbouring pi system (amides, anilines)
+  if (atom.element === 'N' && bonds.length + atom.implicitHydrogens <= 3) {
+    const conjugated = molecule.neighbors(index).some(neighbor =>
+      molecule.atoms[neighbor]!.aromatic || molecule.bondsOf(neighbor).some(bond => !bond.aromatic && bond.order === 2));
+    if (conjugated) return 'sp2';
+  }
+
+  return 'sp3';
+}
+
+export function idealBondLength(molecule: Molecule, bond: Bond): number {
+  const radius = (index: number): number => COVALENT_RADII[molecule.atoms[index]!.element] ?? 1.2;
+  const scale = BOND_ORDER_SCALE[bond.aromatic ? 4 : bond.order] ?? 1;
+  return (radius(bond.begin) + radius(bond.end)) * scale;
+}
+
+/**
+ * Equilibrium a-center-b angle in degrees, from hybridization and the smallest ring holding both bonds
+ */
+export function idealAngle(molecule: Molecule, center: number, a: number, b: number): number {
+  const ring = molecule.getRings()
+    .filter(candidate => ringHasBond(candidate, center, a) && ringHasBond(candidate, center, b))
+    .reduce((smallest, candidate) => Math.min(smallest, candidate.length), Infinity);
+  const hybrid = hybridization(molecule, center);
+
+  if (ring === 3) return 60;
+  if (ring === 4) return 90;
+  if (ring === 5) return hybrid === 'sp3' ? 104 : 108;
+  if (hybrid === 'sp') return 180;
+  if (hybrid === 'sp2') return 120;
+  return 109.47;
+}
+
+export function vdwRadius(element: string): number {
+  return VDW_RADII[element] ?? 1.8;
+}
+
+function ringHasBond(ring: number[], a: number, b: number): boolean {
+  const i = ring.indexOf(a);
+  const j = ring.indexOf(b);
+  if (i === -1 || j === -1) return false;
+  const distance = Math.abs(i - j);
+  return distance === 1 || distance === ring.length - 1;
+}
+
+/**
+ * Small valence force field for conformer cleanup: harmonic bonds, cosine-harmonic angles,
+ * UFF-style torsions, sp2 planarity and 12-6 van der Waals. There are no charges, so
+ * energies (kcal/mol) are strain estimates for ranking conformers of one molecule.
+ * The molecule must carry explicit hydrogens.
+ */
+export class ForceField {
+  private bondTerms: BondTerm[] = [];
+  private angleTerms: AngleTerm[] = [];
+  private torsionTerms: TorsionTerm[] = [];
+  private inversionTerms: InversionTerm[] = [];
+  private pairTerms: PairTerm[] = [];
+  private barriers: TorsionBarrier[] = [];
+
+  constructor(private readonly molecule: Molecule) {
+    this.setupBonds();
+    this.setupAngles();
+    this.setupTorsions();
+    this.setupInversions();
+    this.setupPairs();
+  }
+
+  /**
+   * Barriers for rotatable (acyclic, non-terminal single) bonds
+   */
+  public get torsionBarriers(): TorsionBarrier[] {
+    return this.barriers;
+  }
+
+  public energy(x: Float64Array, gradient?: Float64Array): number {
+    const g = gradient ?? new Float64Array(x.length);
+    g.fill(0);
+    let energy = 0;
+
+    for (const term of this.bondTerms) {
+      const dx = x[3 * term.i]! - x[3 * term.j]!;
+      const dy = x[3 * term.i + 1]! - x[3 * term.j + 1]!;
+      const dz = x[3 * term.i + 2]! - x[3 * term.j + 2]!;
+      const r = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1e-6;
+      const delta = r - term.length;
+      energy += BOND_FORCE * delta * delta;
+      const scale = (2 * BOND_FORCE * delta) / r;
+      addPair(g, term.i, term.j, dx * scale, dy * scale, dz * scale);
+    }
+
+    for (const term of this.angleTerms) {
+      const u = difference(x, term.a, term.center);
+      const v = difference(x, term.b, term.center);
+      const lu = norm(u) || 1e-6;
+      const lv = norm(v) || 1e-6;
+      const cosine = dot(u, v) / (lu * lv);
+
+      let slope: number;
+      if (term.linear) {
+        energy += term.force * (1 + cosine);
+        slope = term.force;
+      } else {
+        const delta = cosine - term.cosine;
+        energy += term.force * delta * delta;
+        slope = 2 * term.force * delta;
+      }
+
+      for (let k = 0; k < 3; k++) {
+        const da = slope * (v[k]! / (lu * lv) - (cosine * u[k]!) / (lu * lu));
+        const db = slope * (u[k]! / (lu * lv) - (cosine * v[k]!) / (lv * lv));
+        g[3 * term.a + k]! += da;
+        g[3 * term.b + k]! += db;
+        g[3 * term.center + k]! -= da + db;
+      }
+    }
+
+    for (const term of this.torsionTerms) {
+      energy += this.torsion(x, g, term);
+    }
+
+    for (const term of this.inversionTerms) {
+      const a = difference(x, term.a, term.center);
+      const b = difference(x, term.b, term.center);
+      const c = difference(x, term.c, term.center);
+      const volume = dot(a, cross(b, c));
+      energy += INVERSION_FORCE * volume * volume;
+      const slope = 2 * INVERSION_FORCE * volume;
+      const da = cross(b, c);
+      const db = cross(c, a);
+      const dc = cross(a, b);
+      for (let k = 0; k < 3; k++) {
+        g[3 * term.a + k]! += slope * da[k]!;
+        g[3 * term.b + k]! += slope * db[k]!;
+        g[3 * term.c + k]! += slope * dc[k]!;
+        g[3 * term.center + k]! -= slope * (da[k]! + db[k]! + dc[k]!);
+      }
+    }
+
+    for (const term of this.pairTerms) {
+      const dx = x[3 * term.i]! - x[3 * term.j]!;
+      const dy = x[3 * term.i + 1]! - x[3 * term.j + 1]!;
+      const dz = x[3 * term.i + 2]! - x[3 * term.j + 2]!;
+      const r = Math.max(Math.sqrt(dx * dx + dy * dy + dz * dz), 0.3 * term.rmin);
+      const ratio6 = Math.pow(term.rmin / r, 6);
+      energy += term.depth * (ratio6 * ratio6 - 2 * ratio6);
+      const slope = (12 * term.depth * (ratio6 - ratio6 * ratio6)) / r;
+      const scale = slope / r;
+      addPair(g, term.i, term.j, dx * scale, dy * scale, dz * scale);
+    }
+
+    return energy;
+  }
+
+  public minimize(x: Float64Array, maxIterations: number = 500): number {
+    return minimizeLbfgs((coordinates, gradient) => this.energy(coordinates, gradient), x, maxIterations);
+  }
+
+  private torsion(x: Float64Array, g: Float64Array, term: TorsionTerm): number {
+    // Blondel & Karplus, J. Comput. Chem. 1996, 17, 1132
+    const f = difference(x, term.a, term.b);
+    const gv = difference(x, term.b, term.c);
+    const h = difference(x, term.d, term.c);
+    const a = cross(f, gv);
+    const b = cross(h, gv);
+    const a2 = dot(a, a);
+    const b2 = dot(b, b);
+    const lg = norm(gv);
+    if (a2 < 1e-10 || b2 < 1e-10 || lg < 1e-6) return 0;
+
+    const cosine = dot(a, b) / Math.sqrt(a2 * b2);
+    const sine = dot(cross(b, a), gv) / (Math.sqrt(a2 * b2) * lg);
+    const phi = Math.atan2(sine, cosine);
+    const n = term.periodicity;
+    const energy = (term.amplitude / 2) * (1 + term.sign * Math.cos(n * phi));
+    const slope = (-term.amplitude / 2) * term.sign * n * Math.sin(n * phi);
+
+    const fg = dot(f, gv);
+    const hg = dot(h, gv);
+    for (let k = 0; k < 3; k++) {
+      const di = (-lg / a2) * a[k]!;
+      const dl = (lg / b2) * b[k]!;
+      const dj = (lg / a2) * a[k]! + (fg / (a2 * lg)) * a[k]! - (hg / (b2 * lg)) * b[k]!;
+      const dk = (hg / (b2 * lg)) * b[k]! - (fg / (a2 * lg)) * a[k]! - (lg / b2) * b[k]!;
+      g[3 * term.a + k]! += slope * di;
+      g[3 * term.b + k]! += slope * dj;
+      g[3 * term.c + k]! += slope * dk;
+      g[3 * term.d + k]! += slope * dl;
+    }
+    return energy;
+  }
+
+  private setupBonds(): void {
+    this.bondTerms = this.molecule.bonds.map(bond => ({
+      i: bond.begin,
+      j: bond.end,
+      length: idealBondLength(this.molecule, bond),
+    }));
+  }
+
+  private setupAngles(): void {
+    for (const atom of this.molecule.atoms) {
+      const neighbors = this.molecule.neighbors(atom.index);
+      for (let i = 0; i < neighbors.length; i++) {
+        for (let j = i + 1; j < neighbors.length; j++) {
+          const theta = (idealAngle(this.molecule, atom.index, neighbors[i]!, neighbors[j]!) * Math.PI) / 180;
+          const linear = theta > 3.1;
+          this.angleTerms.push({
+            center: atom.index,
+            a: neighbors[i]!,
+            b: neighbors[j]!,
+            cosine: Math.cos(theta),
+            force: linear ? ANGLE_FORCE : ANGLE_FORCE / Math.max(Math.sin(theta) ** 2, 0.25),
+            linear,
+          });
+        }
+      }
+    }
+  }
+
+  private setupTorsions(): void {
+    for (const bond of this.molecule.bonds) {
+      const { begin: b, end: c } = bond;
+      const left = this.molecule.neighbors(b).filter(n => n !== c);
+      const right = this.molecule.neighbors(c).filter(n => n !== b);
+      if (left.length === 0 || right.length === 0) continue;
+
+      const hb = hybridization(this.molecule, b);
+      const hc = hybridization(this.molecule, c);
+      if (hb === 'sp' || hc === 'sp') continue;
+
+      let amplitude: number;
+      let periodicity: number;
+      let sign: 1 | -1;
+      if (bond.aromatic) {
+        [amplitude, periodicity, sign] = [25, 2, -1];
+      } else if (bond.order === 2) {
+        [amplitude, periodicity, sign] = [45, 2, -1];
+      } else if (hb === 'sp2' && hc === 'sp2') {
+        // Conjugated single bond; amide C-N rotation is strongly hindered
+        const amide = [b, c].some(i => this.molecule.atoms[i]!.element === 'N');
+        [amplitude, periodicity, sign] = [amide ? 20 : 5, 2, -1];
+      } else if (hb === 'sp3' && hc === 'sp3') {
+        [amplitude, periodicity, sign] = [2, 3, 1];
+      } else {
+        [amplitude, periodicity, sign] = [1, 6, -1];
+      }
+
+      const share = amplitude / (left.length * right.length);
+      for (const a of left) {
+        for (const d of right) {
+          this.torsionTerms.push({ a, b, c, d, amplitude: share, periodicity, sign });
+          // Heavy substituents prefer anti over gauche, as in butane
+          if (hb === 'sp3' && hc === 'sp3' && this.molecule.atoms[a]!.element !== 'H' && this.molecule.atoms[d]!.element !== 'H') {
+            this.torsionTerms.push({ a, b, c, d, amplitude: GAUCHE_PENALTY, periodicity: 1, sign: 1 });
+          }
+        }
+      }
+
+      const heavy = (i: number): number =>
+        this.molecule.neighbors(i).filter(n => this.molecule.atoms[n]!.element !== 'H').length;
+      if (!bond.aromatic && bond.order === 1 && !this.molecule.isBondInRing(bond) && heavy(b) > 1 && heavy(c) > 1) {
+        this.barriers.push({ bond, barrier: amplitude });
+      }
+    }
+  }
+
+  private setupInversions(): void {
+    for (const atom of this.molecule.atoms) {
+      const neighbors = this.molecule.neighbors(atom.index);
+      if (neighbors.length === 3 && hybridization(this.molecule, atom.index) === 'sp2') {
+        this.inversionTerms.push({ center: atom.index, a: neighbors[0]!, b: neighbors[1]!, c: neighbors[2]! });
+      }
+    }
+  }
+
+  private setupPairs(): void {
+    const separation = topologicalDistances(this.molecule, 3);
+    const count = this.molecule.atoms.length;
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const bonds = separation[i]![j]!;
+        if (bonds < 3) continue;
+        const ei = this.molecule.atoms[i]!.element;
+        const ej = this.molecule.atoms[j]!.element;
+        const depth = Math.sqrt((WELL_DEPTHS[ei] ?? 0.2) * (WELL_DEPTHS[ej] ?? 0.2));
+        this.pairTerms.push({
+          i,
+          j,
+          rmin: vdwRadius(ei) + vdwRadius(ej),
+          depth: bonds === 3 ? depth * ONE_FOUR_SCALE : depth,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Bond-count separation between atoms, capped at limit + 1
+ */
+export function topologicalDistances(molecule: Molecule, limit: number): number[][] {
+  const count = molecule.atoms.length;
+  const distances = Array.from({ length: count }, () => new Array<number>(count).fill(limit + 1));
+  for (let start = 0; start < count; start++) {
+    distances[start]![start] = 0;
+    let frontier = [start];
+    for (let depth = 1; depth <= limit && frontier.length > 0; depth++) {
+      const next: number[] = [];
+      for (const atom of frontier) {
+        for (const neighbor of molecule.neighbors(atom)) {
+          if (distances[start]![neighbor]! > depth) {
+            distances[start]![neighbor] = depth;
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+  }
+  return distances;
+}
+
+/**
+ * Limited-memory BFGS with a backtracking line search; updates x in place and returns the final value
+ */
+export function minimizeLbfgs(objective: Objective, x: Float64Array, maxIterations: number, tolerance: number = 1e-3): number {
+  const size = x.length;
+  const memory = 8;
+  const history: Array<{ s: Float64Array; y: Float64Array; rho: number }> = [];
+  const gradient = new Float64Array(size);
+  const trialGradient = new Float64Array(size);
+  const trial = new Float64Array(size);
+  const direction = new Float64Array(size);
+  let value = objective(x, gradient);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (Math.sqrt(dotArrays(gradient, gradient) / size) < tolerance) break;
+
+    // Two-loop recursion
+    direction.set(gradient);
+    const alphas: number[] = [];
+    for (let k = history.length - 1; k >= 0; k--) {
+      const { s, y, rho } = history[k]!;
+      const alpha = rho * dotArrays(s, direction);
+      alphas[k] = alpha;
+      for (let i = 0; i < size; i++) direction[i]! -= alpha * y[i]!;
+    }
+    const last = history[history.length - 1];
+    const gamma = last ? dotArrays(last.s, last.y) / dotArrays(last.y, last.y) : 1;
+    for (let i = 0; i < size; i++) direction[i]! *= gamma;
+    for (let k = 0; k < history.length; k++) {
+      const { s, y, rho } = history[k]!;
+      const beta = rho * dotArrays(y, direction);
+      for (let i = 0; i < size; i++) direction[i]! += s[i]! * (alphas[k]! - beta);
+    }
+    for (let i = 0; i < size; i++) direction[i] = -direction[i]!;
+
+    let slope = dotArrays(gradient, direction);
+    if (slope >= 0) {
+      history.length = 0;
+      for (let i = 0; i < size; i++) direction[i] = -gradient[i]!;
+      slope = dotArrays(gradient, direction);
+    }
+
+    // No atom moves more than 0.3 Å in one step
+    let largest = 0;
+    for (let i = 0; i < size; i++) largest = Math.max(largest, Math.abs(direction[i]!));
+    let step = largest > 0.3 ? 0.3 / largest : 1;
+
+    let accepted = false;
+    let trialValue = value;
+    for (let attempt = 0; attempt < 30; attempt++) {
+      for (let i = 0; i < size; i++) trial[i] = x[i]! + step * direction[i]!;
+      trialValue = objective(trial, trialGradient);
+      if (trialValue <= value + 1e-4 * step * slope) {
+        accepted = true;
+        break;
+      }
+      step *= 0.5;
+    }
+    if (!accepted) break;
+
+    const s = new Float64Array(size);
+    const y = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      s[i] = trial[i]! - x[i]!;
+      y[i] = trialGradient[i]! - gradient[i]!;
+    }
+    const sy = dotArrays(s, y);
+    if (sy > 1e-10) {
+      history.push({ s, y, rho: 1 / sy });
+      if (history.length > memory) history.shift();
+    }
+
+    const improvement = value - trialValue;
+    x.set(trial);
+    gradient.set(trialGradient);
+    value = trialValue;
+    if (improvement < 1e-8 * Math.max(1, Math.abs(value))) break;
+  }
+
+  return value;
+}
+
+type Vector3 = [number, number, number];
+
+function difference(x: Float64Array, i: number, j: number): Vector3 {
+  return [x[3 * i]! - x[3 * j]!, x[3 * i + 1]! - x[3 * j + 1]!, x[3 * i + 2]! - x[3 * j + 2]!];
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function norm(a: Vector3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+function dotArrays(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i]! * b[i]!;
+  return sum;
+}
+
+function addPair(g: Float64Array, i: number, j: number, fx: number, fy: number, fz: number): void {
+  g[3 * i]! += fx;
+  g[3 * i + 1]! += fy;
+  g[3 * i + 2]! += fz;
+  g[3 * j]! -= fx;
+  g[3 * j + 1]! -= fy;
+  g[3 * j + 2]! -= fz;
+}
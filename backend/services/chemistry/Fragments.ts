@@ -0,0 +1,65 @@
+// Bond cutting shared by the BRICS and matched-pair fragmenters
+
+import { Atom, Bond, Molecule } from './Molecule';
+
+export interface BondCut {
+  bond: Bond;
+  /** Isotope labels of the dummy atoms capping the bond.begin and bond.end sides */
+  labels: [number, number];
+}
+
+/**
+ * Copy of the molecule with the given bonds removed and both ends capped with labelled dummy
+ * atoms, appended after the original atoms. The dummy takes the cut neighbour's place in stereo descriptors.
+ */
+export function cutBonds(molecule: Molecule, cuts: BondCut[]): Molecule {
+  const cutSet = new Set(cuts.map(cut => cut.bond));
+  const fragmented = new Molecule(
+    molecule.atoms.map(atom => ({
+      ...atom,
+      ...(atom.stereoNeighbors && { stereoNeighbors: [...atom.stereoNeighbors] }),
+    })),
+    molecule.bonds.filter(bond => !cutSet.has(bond)).map((bond, index) => ({ ...bond, index }))
+  );
+
+  for (const { bond, labels } of cuts) {
+    for (const [atom, other, label] of [[bond.begin, bond.end, labels[0]], [bond.end, bond.begin, labels[1]]] as const) {
+      const dummy = fragmented.addAtom({
+        element: '*',
+        aromatic: false,
+        charge: 0,
+        isotope: label,
+        implicitHydrogens: 0,
+        bracket: true,
+      });
+      const capped = fragmented.addBond(atom, dummy.index, bond.order);
+      if (bond.direction) {
+        capped.direction = bond.begin === atom ? bond.direction : bond.direction === '/' ? '\\' : '/';
+      }
+      const center: Atom = fragmented.atoms[atom]!;
+      if (center.stereoNeighbors) {
+        center.stereoNeighbors = center.stereoNeighbors.map(neighbor => (neighbor === other ? dummy.index : neighbor));
+      }
+    }
+  }
+
+  return fragmented;
+}
+
+/**
+ * One connected component as a molecule of its own, atoms renumbered in component order
+ */
+export function componentMolecule(molecule: Molecule, component: number[]): Molecule {
+  const indexMap = new Map(component.map((atom, index) => [atom, index]));
+  const atoms = component.map((atom, index): Atom => {
+    const copy: Atom = { ...molecule.atoms[atom]!, index };
+    if (copy.stereoNeighbors) {
+      copy.stereoNeighbors = copy.stereoNeighbors.map(neighbor => (neighbor < 0 ? -1 : indexMap.get(neighbor) ?? -1));
+    }
+    return copy;
+  });
+  const bonds = molecule.bonds
+    .filter(bond => indexMap.has(bond.begin))
+    .map((bond, index): Bond => ({ ...bond, index, begin: indexMap.get(bond.begin)!, end: indexMap.get(bond.end)! }));
+  return new Molecule(atoms, bonds);
+}
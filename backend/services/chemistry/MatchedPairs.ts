@@ -0,0 +1,202 @@
+// Matched molecular pairs by single and double acyclic cuts (Hussain & Rea, J. Chem. Inf. Model. 2010, 50, 339)
+
+import { Bond, Molecule } from './Molecule';
+import { SmartsPattern, parseSmarts } from './Smarts';
+import { canonicalSmiles } from './Canonical';
+import { componentMolecule, cutBonds } from './Fragments';
+
+/** Variable part of a hydrogen-to-substituent change */
+export const HYDROGEN_VARIABLE = '[1*][H]';
+
+export interface MmpFragment {
+  cuts: 1 | 2;
+  /** Canonical SMILES of the unchanged part; attachment points are [1*] and [2*] */
+  context: string;
+  /** Canonical SMILES of the replaced part with matching attachment labels */
+  variable: string;
+  variableHeavyAtoms: number;
+}
+
+export interface MmpOptions {
+  /** 1 for substituent swaps only, 2 to also swap linkers between two fixed parts (default 2) */
+  maxCuts?: 1 | 2;
+  /** Largest variable part considered (default 10 heavy atoms) */
+  maxVariableHeavyAtoms?: number;
+}
+
+export interface MatchedPair<T> {
+  first: T;
+  second: T;
+  cuts: 1 | 2;
+  context: string;
+  /** Variable part of first, replaced by to in second */
+  from: string;
+  to: string;
+}
+
+// Acyclic single bonds from a carbon that is not part of a multiple bond to a heteroatom (Hussain–Rea)
+const CUTTABLE_BOND = '[#6+0;!$(*=,#[!#6])]!@!=!#[*]';
+
+let cuttable: SmartsPattern | null = null;
+
+function cuttableBonds(molecule: Molecule): Bond[] {
+  cuttable ??= parseSmarts(CUTTABLE_BOND);
+  return cuttable.match(molecule, molecule.bonds.length + 1)
+    .map(([a, b]) => molecule.getBond(a!, b!)!)
+    .filter(bond => !bond.aromatic && molecule.atoms[bond.begin]!.element !== 'H' && molecule.atoms[bond.end]!.element !== 'H');
+}
+
+/**
+ * Every context/variable split of a molecule. Single cuts index both sides of each cuttable bond
+ * plus a hydrogen variable on each atom that carries one, so a substituent pairs with its parent;
+ * double cuts index the linker between two cuttable bonds. The variable part is never larger than the context.
+ */
+export function fragmentForMmp(molecule: Molecule, options: MmpOptions = {}): MmpFragment[] {
+  const maxCuts = options.maxCuts ?? 2;
+  const maxHeavy = options.maxVariableHeavyAtoms ?? 10;
+  const totalHeavy = molecule.heavyAtomCount;
+  const fragments = new Map<string, MmpFragment>();
+  const add = (fragment: MmpFragment): void => {
+    if (fragment.variableHeavyAtoms > maxHeavy || fragment.variableHeavyAtoms > totalHeavy - fragment.variableHeavyAtoms) return;
+    fragments.set(`${fragment.cuts}|${fragment.context}|${fragment.variable}`, fragment);
+  };
+
+  const bonds = cuttableBonds(molecule);
+
+  for (const bond of bonds) {
+    const fragmented = cutBonds(molecule, [{ bond, labels: [1, 1] }]);
+    const parts = fragmented.getComponents().map(component => ({
+      smiles: canonicalSmiles(componentMolecule(fragmented, component)),
+      heavy: heavyAtoms(molecule, component),
+    }));
+    if (parts.length !== 2) continue;
+    const [a, b] = parts as [typeof parts[0], typeof parts[0]];
+    add({ cuts: 1, context: a.smiles, variable: b.smiles, variableHeavyAtoms: b.heavy });
+    add({ cuts: 1, context: b.smiles, variable: a.smiles, variableHeavyAtoms: a.heavy });
+  }
+
+  for (const atom of molecule.atoms) {
+    if (atom.element === 'H' || atom.element === '*' || atom.implicitHydrogens === 0) continue;
+    add({ cuts: 1, context: canonicalSmiles(withHydrogenReplaced(molecule, atom.index)), variable: HYDROGEN_VARIABLE, variableHeavyAtoms: 0 });
+  }
+
+  if (maxCuts === 2) {
+    for (let i = 0; i < bonds.length; i++) {
+      for (let j = i + 1; j < bonds.length; j++) {
+        doubleCut(molecule, bonds[i]!, bonds[j]!, maxHeavy).forEach(add);
+      }
+    }
+  }
+
+  return [...fragments.values()];
+}
+
+/**
+ * Pairs of items whose fragmentations share a context with different variable parts. When two items
+ * match through several contexts only the one with the smallest change is kept.
+ */
+export function findMatchedPairs<T>(entries: Array<{ item: T; fragments: MmpFragment[] }>): MatchedPair<T>[] {
+  const byContext = new Map<string, Array<{ entry: number; fragment: MmpFragment }>>();
+  entries.forEach((entry, index) => {
+    for (const fragment of entry.fragments) {
+      const key = `${fragment.cuts}|${fragment.context}`;
+      const group = byContext.get(key) ?? [];
+      group.push({ entry: index, fragment });
+      byContext.set(key, group);
+    }
+  });
+
+  const best = new Map<string, { first: number; second: number; a: MmpFragment; b: MmpFragment }>();
+  const size = (a: MmpFragment, b: MmpFragment): number[] =>
+    [Math.max(a.variableHeavyAtoms, b.variableHeavyAtoms), a.variableHeavyAtoms + b.variableHeavyAtoms, a.cuts];
+
+  for (const group of byContext.values()) {
+    for (let x = 0; x < group.length; x++) {
+      for (let y = x + 1; y < group.length; y++) {
+        const [first, second] = group[x]!.entry < group[y]!.entry ? [group[x]!, group[y]!] : [group[y]!, group[x]!];
+        if (first.entry === second.entry || first.fragment.variable === second.fragment.variable) continue;
+
+        const key = `${first.entry}:${second.entry}`;
+        const current = best.get(key);
+        if (!current || compareSizes(size(first.fragment, second.fragment), size(current.a, current.b)) < 0) {
+          best.set(key, { first: first.entry, second: second.entry, a: first.fragment, b: second.fragment });
+        }
+      }
+    }
+  }
+
+  return [...best.values()].map(({ first, second, a, b }) => ({
+    first: entries[first]!.item,
+    second: entries[second]!.item,
+    cuts: a.cuts,
+    context: a.context,
+    from: a.variable,
+    to: b.variable,
+  }));
+}
+
+function compareSizes(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return 0;
+}
+
+function heavyAtoms(molecule: Molecule, component: number[]): number {
+  return component.filter(index => index < molecule.atoms.length && molecule.atoms[index]!.element !== 'H').length;
+}
+
+/**
+ * Copy with one hydrogen of the atom replaced by a [1*] attachment point
+ */
+function withHydrogenReplaced(molecule: Molecule, atomIndex: number): Molecule {
+  const copy = molecule.clone();
+  const dummy = copy.addAtom({ element: '*', aromatic: false, charge: 0, isotope: 1, implicitHydrogens: 0, bracket: true });
+  copy.addBond(atomIndex, dummy.index, 1);
+  const atom = copy.atoms[atomIndex]!;
+  atom.implicitHydrogens -= 1;
+  if (atom.stereoNeighbors) {
+    atom.stereoNeighbors = atom.stereoNeighbors.map(neighbor => (neighbor === -1 ? dummy.index : neighbor));
+  }
+  return copy;
+}
+
+/**
+ * Linker between two cuttable bonds as the variable part, the two outer parts as the context.
+ * Attachment labels follow whichever assignment gives the smaller context SMILES; a symmetric
+ * context is indexed with the linker both ways round.
+ */
+function doubleCut(molecule: Molecule, first: Bond, second: Bond, maxHeavy: number): MmpFragment[] {
+  const probe = cutBonds(molecule, [{ bond: first, labels: [1, 1] }, { bond: second, labels: [2, 2] }]);
+  const components = probe.getComponents();
+  const linker = components.find(component =>
+    component.includes(first.begin) !== component.includes(first.end)
+    && component.includes(second.begin) !== component.includes(second.end));
+  if (!linker || components.length !== 3) return [];
+
+  const variableHeavyAtoms = heavyAtoms(molecule, linker);
+  if (variableHeavyAtoms > maxHeavy || variableHeavyAtoms > molecule.heavyAtomCount - variableHeavyAtoms) return [];
+
+  const split = (firstLabel: number, secondLabel: number) => {
+    const fragmented = cutBonds(molecule, [
+      { bond: first, labels: [firstLabel, firstLabel] },
+      { bond: second, labels: [secondLabel, secondLabel] },
+    ]);
+    const parts = fragmented.getComponents();
+    const inLinker = (component: number[]): boolean => component.some(index => linker.includes(index) && index < molecule.atoms.length);
+    const variable = parts.find(inLinker)!;
+    const context = parts.filter(component => !inLinker(component)).flat();
+    return {
+      context: canonicalSmiles(componentMolecule(fragmented, context)),
+      variable: canonicalSmiles(componentMolecule(fragmented, variable)),
+    };
+  };
+
+  const forward = split(1, 2);
+  const reverse = split(2, 1);
+  const chosen = forward.context === reverse.context
+    ? [forward, reverse]
+    : [forward.context < reverse.context ? forward : reverse];
+
+  return chosen.map(({ context, variable }) => ({ cuts: 2 as const, context, variable, variableHeavyAtoms }));
+}
@@ -0,0 +1,285 @@
+import { calculateExactMass, formatFormula } from '../../../shared/utils';
+import { Molecule } from './Molecule';
+import { ReactionTransform, parseReaction } from './Reactions';
+import { canonicalSmiles } from './Canonical';
+
+export type MetabolicPhase = 'I' | 'II';
+
+export interface BiotransformationRule {
+  id: string;
+  name: string;
+  phase: MetabolicPhase;
+  /** Prefix used to name the product, e.g. "O-desmethyl" */
+  label: string;
+  /** SMIRKS transform, see ReactionTransform */
+  smirks: string;
+  /** Enzymes most likely to catalyse the reaction, major isoform first */
+  enzymes: string[];
+  /** Chemical description of the reacting site */
+  site: string;
+  /** Prior likelihood that a matching site is metabolised this way */
+  probability: number;
+}
+
+export interface MetaboliteStep {
+  ruleId: string;
+  reaction: string;
+  phase: MetabolicPhase;
+  enzymes: string[];
+  site: string;
+  /** Atom indices of the reacting site in the substrate of this step */
+  atoms: number[];
+}
+
+export interface PredictedMetabolite {
+  smiles: string;
+  name: string;
+  formula: string;
+  exactMass: number;
+  /** Monoisotopic mass difference from the parent */
+  massShift: number;
+  /** Combined likelihood of the pathway from the parent */
+  probability: number;
+  /** Reactions from the parent, in order */
+  pathway: MetaboliteStep[];
+}
+
+export interface MetabolitePredictionOptions {
+  /** Sequential reactions to follow, e.g. 2 for phase I then conjugation */
+  maxSteps?: number;
+  maxMetabolites?: number;
+  /** Pathways below this likelihood are not followed or reported */
+  minProbability?: number;
+}
+
+export class MetabolismRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetabolismRuleError';
+  }
+}
+
+const GLUCURONIDE = 'C1OC(C(=O)O)C(O)C(O)C1O';
+
+export const BIOTRANSFORMATION_RULES: BiotransformationRule[] = [
+  // Phase I
+  {
+    id: 'o_demethylation',
+    name: 'Aromatic O-demethylation',
+    phase: 'I',
+    label: 'O-desmethyl',
+    smirks: '[CH3][OX2:1][c:2]>>[OH:1][c:2]',
+    enzymes: ['CYP1A2', 'CYP2D6', 'CYP3A4'],
+    site: 'aryl methyl ether',
+    probability: 0.6,
+  },
+  {
+    id: 'methylenedioxy_cleavage',
+    name: 'Methylenedioxy ring opening',
+    phase: 'I',
+    label: 'desmethylene',
+    smirks: '[c:1][O:2][CH2][O:3][c:4]>>[c:1][OH:2].[c:4][OH:3]',
+    enzymes: ['CYP1A2', 'CYP3A4', 'CYP2D6'],
+    site: 'methylenedioxyphenyl',
+    probability: 0.6,
+  },
+  {
+    id: 'aromatic_hydroxylation',
+    name: 'Aromatic hydroxylation',
+    phase: 'I',
+    label: 'hydroxy',
+    smirks: '[cH;r6;$(c1ccccc1):1]>>[c:1][OH]',
+    enzymes: ['CYP1A2', 'CYP2C9', 'CYP3A4'],
+    site: 'unsubstituted benzene carbon',
+    probability: 0.2,
+  },
+  {
+    id: 'benzylic_allylic_hydroxylation',
+    name: 'Benzylic or allylic hydroxylation',
+    phase: 'I',
+    label: 'hydroxy',
+    smirks: '[CX4;H1,H2,H3;!$(C[O,N,S,F,Cl,Br,I]);$(C[c,$(C=C)]):1]>>[C:1][OH]',
+    enzymes: ['CYP3A4', 'CYP2C9', 'CYP2E1'],
+    site: 'benzylic or allylic carbon',
+    probability: 0.3,
+  },
+  {
+    id: 'enone_reduction',
+    name: 'Enone reduction',
+    phase: 'I',
+    label: 'dihydro',
+    smirks: '[C:1]=[C:2][C:3]=[O:4]>>[C:1][C:2][C:3]=[O:4]',
+    enzymes: ['NADPH-dependent alkene reductase', 'AKR1C1'],
+    site: 'alpha,beta-unsaturated carbonyl',
+    probability: 0.5,
+  },
+
+  // Phase II
+  {
+    id: 'phenol_glucuronidation',
+    name: 'Phenol O-glucuronidation',
+    phase: 'II',
+    label: 'O-glucuronyl',
+    smirks: `[OX2H:1][c:2]>>[c:2][O:1]${GLUCURONIDE}`,
+    enzymes: ['UGT1A1', 'UGT1A9', 'UGT1A8'],
+    site: 'phenolic hydroxyl',
+    probability: 0.8,
+  },
+  {
+    id: 'alcohol_glucuronidation',
+    name: 'Alcohol O-glucuronidation',
+    phase: 'II',
+    label: 'O-glucuronyl',
+    smirks: `[OX2H:1][CX4;!$(C(O)(O)):2]>>[C:2][O:1]${GLUCURONIDE}`,
+    enzymes: ['UGT2B7', 'UGT1A9'],
+    site: 'aliphatic hydroxyl',
+    probability: 0.4,
+  },
+  {
+    id: 'phenol_sulfation',
+    name: 'Phenol O-sulfation',
+    phase: 'II',
+    label: 'O-sulfo',
+    smirks: '[OX2H:1][c:2]>>[c:2][O:1]S(=O)(=O)O',
+    enzymes: ['SULT1A1', 'SULT1A3'],
+    site: 'phenolic hydroxyl',
+    probability: 0.5,
+  },
+];
+
+interface CompiledRule {
+  rule: BiotransformationRule;
+  transform: ReactionTransform;
+}
+
+interface Substrate {
+  molecule: Molecule;
+  smiles: string;
+  probability: number;
+  pathway: MetaboliteStep[];
+  labels: string[];
+}
+
+/**
+ * Rule-based phase I/II metabolite prediction: each rule is applied at every matching site,
+ * and products are fed back in for sequential metabolism up to maxSteps
+ */
+export class MetabolitePredictor {
+  private rules: Map<string, CompiledRule> = new Map();
+
+  constructor(rules: BiotransformationRule[] = BIOTRANSFORMATION_RULES) {
+    rules.forEach(rule => this.registerRule(rule));
+  }
+
+  /**
+   * Adds or replaces a rule after compiling its SMIRKS
+   */
+  public registerRule(rule: BiotransformationRule): void {
+    if (!rule.id || !/^[a-z0-9_-]+$/i.test(rule.id)) {
+      throw new MetabolismRuleError(`Invalid rule id: "${rule.id}"`);
+    }
+    if (rule.probability <= 0 || rule.probability > 1) {
+      throw new MetabolismRuleError(`Rule ${rule.id} probability must be in (0, 1]`);
+    }
+    if (rule.enzymes.length === 0) {
+      throw new MetabolismRuleError(`Rule ${rule.id} has no enzymes`);
+    }
+
+    let transform: ReactionTransform;
+    try {
+      transform = parseReaction(rule.smirks);
+    } catch (error) {
+      throw new MetabolismRuleError(`Rule ${rule.id} has an invalid SMIRKS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.rules.set(rule.id, { rule: { ...rule, enzymes: [...rule.enzymes] }, transform });
+  }
+
+  public unregisterRule(id: string): boolean {
+    return this.rules.delete(id);
+  }
+
+  public getRules(phase?: MetabolicPhase): BiotransformationRule[] {
+    return Array.from(this.rules.values())
+      .map(compiled => compiled.rule)
+      .filter(rule => !phase || rule.phase === phase);
+  }
+
+  /**
+   * Metabolites ordered by pathway likelihood; parentName is used to name the products
+   */
+  public predict(molecule: Molecule, parentName: string, options: MetabolitePredictionOptions = {}): PredictedMetabolite[] {
+    const maxSteps = options.maxSteps ?? 2;
+    const maxMetabolites = options.maxMetabolites ?? 25;
+    const minProbability = options.minProbability ?? 0.05;
+
+    const parentSmiles = canonicalSmiles(molecule);
+    const parentMass = calculateExactMass(formatFormula(molecule.toFormula()));
+    const found = new Map<string, PredictedMetabolite>();
+    let frontier: Substrate[] = [{ molecule, smiles: parentSmiles, probability: 1, pathway: [], labels: [] }];
+
+    for (let step = 0; step < maxSteps && frontier.length > 0; step++) {
+      const next: Substrate[] = [];
+
+      for (const substrate of frontier) {
+        // Conjugates are excreted rather than metabolised further
+        if (substrate.pathway.some(previous => this.rules.get(previous.ruleId)?.rule.phase === 'II')) continue;
+
+        for (const { rule, transform } of this.rules.values()) {
+          const probability = substrate.probability * rule.probability;
+          if (probability < minProbability) continue;
+
+          for (const product of transform.apply(substrate.molecule)) {
+            if (product.smiles === parentSmiles) continue;
+
+            const existing = found.get(product.smiles);
+            if (existing && existing.probability >= probability) continue;
+
+            const pathway = [...substrate.pathway, {
+              ruleId: rule.id,
+              reaction: rule.name,
+              phase: rule.phase,
+              enzymes: rule.enzymes,
+              site: rule.site,
+              atoms: product.atoms,
+            }];
+            const labels = [rule.label, ...substrate.labels];
+            const exactMass = calculateExactMass(formatFormula(product.molecule.toFormula()));
+
+            found.set(product.smiles, {
+              smiles: product.smiles,
+              name: metaboliteName(parentName, labels),
+              formula: product.molecule.getFormula(),
+              exactMass,
+              massShift: Math.round((exactMass - parentMass) * 10000) / 10000,
+              probability,
+              pathway,
+            });
+            next.push({ molecule: product.molecule, smiles: product.smiles, probability, pathway, labels });
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    return Array.from(found.values())
+      .sort((a, b) => b.probability - a.probability || a.smiles.localeCompare(b.smiles))
+      .slice(0, maxMetabolites);
+  }
+}
+
+const MULTIPLIERS = ['', '', 'di-', 'tri-', 'tetra-'];
+
+/**
+ * "O-glucuronyl dihydro Curcumin"; a reaction applied twice is named once with a multiplier
+ */
+function metaboliteName(parentName: string, labels: string[]): string {
+  const counts = new Map<string, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+  const prefixes = Array.from(counts, ([label, count]) => `${MULTIPLIERS[count] ?? `${count}x `}${label}`);
+  return `${prefixes.join(' ')} ${parentName}`.replace(/^./, char => char.toUpperCase());
+}
+
+/** Shared predictor with the built-in rules */
+export const metabolitePredictor = new MetabolitePredictor();
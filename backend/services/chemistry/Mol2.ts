@@ -0,0 +1,309 @@
+// Tripos MOL2 reading and writing
+
+import { PERIODIC_TABLE } from '../../../shared/utils';
+import { BondOrder, Molecule } from './Molecule';
+import { ConnectionTableError, TableAtom, TableBond, moleculeFromTable } from './ConnectionTable';
+import { MolCoordinate } from './MolFile';
+
+export interface Mol2Options {
+  name?: string;
+  comment?: string;
+}
+
+export interface Mol2Contents {
+  molecule: Molecule;
+  name: string;
+  comment: string;
+}
+
+export interface Mol2Entry {
+  /** One-based position in the file */
+  record: number;
+  block: string;
+  name: string;
+}
+
+export class Mol2Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Mol2Error';
+  }
+}
+
+/**
+ * MOL2 with SYBYL atom types and formal charges; every hydrogen must be an explicit atom
+ */
+export function writeMol2(molecule: Molecule, coordinates: MolCoordinate[], options: Mol2Options = {}): string {
+  if (coordinates.length !== molecule.atoms.length) {
+    throw new Mol2Error(`Expected ${molecule.atoms.length} coordinates, got ${coordinates.length}`);
+  }
+  if (molecule.atoms.some(atom => atom.implicitHydrogens > 0)) {
+    throw new Mol2Error('MOL2 output needs explicit hydrogens');
+  }
+
+  const counters = new Map<string, number>();
+  const lines = [
+    '@<TRIPOS>MOLECULE',
+    singleLine(options.name ?? '') || '*****',
+    `${molecule.atoms.length} ${molecule.bonds.length} 1 0 0`,
+    'SMALL',
+    'FORMAL_CHARGES',
+    '',
+    singleLine(options.comment ?? ''),
+    '@<TRIPOS>ATOM',
+  ];
+
+  molecule.atoms.forEach((atom, index) => {
+    const point = coordinates[index]!;
+    const count = (counters.get(atom.element) ?? 0) + 1;
+    counters.set(atom.element, count);
+    lines.push([
+      String(index + 1).padStart(7),
+      ` ${`${atom.element}${count}`.padEnd(8)}`,
+      [point.x, point.y, point.z ?? 0].map(value => value.toFixed(4).padStart(10)).join(''),
+      ` ${sybylType(molecule, index).padEnd(6)}`,
+      '  1 UNL1',
+      atom.charge.toFixed(4).padStart(10),
+    ].join(''));
+  });
+
+  lines.push('@<TRIPOS>BOND');
+  molecule.bonds.forEach((bond, index) => {
+    lines.push(`${String(index + 1).padStart(6)}${String(bond.begin + 1).padStart(6)}${String(bond.end + 1).padStart(6)} ${sybylBond(molecule, bond.index)}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Splits a multi-molecule MOL2 file at each MOLECULE record
+ */
+export function splitMol2(text: string): Mol2Entry[] {
+  const parts = text.replace(/\r\n?/g, '\n').split(/^(?=@<TRIPOS>MOLECULE)/m);
+  return parts
+    .filter(part => part.startsWith('@<TRIPOS>MOLECULE'))
+    .map((block, index) => ({ record: index + 1, block, name: (block.split('\n')[1] ?? '').trim() }));
+}
+
+/**
+ * Reads one MOLECULE record. Formal charges come from the charge column when the charge type
+ * is FORMAL_CHARGES and are otherwise inferred from the hydrogen-complete valences.
+ */
+export function readMol2(text: string): Mol2Contents {
+  const sections = new Map<string, string[]>();
+  let current: string[] | undefined;
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const header = /^@<TRIPOS>(\w+)/.exec(line);
+    if (header) {
+      current = [];
+      if (!sections.has(header[1]!)) sections.set(header[1]!, current);
+      continue;
+    }
+    if (current && !line.startsWith('#')) current.push(line);
+  }
+
+  const header = sections.get('MOLECULE');
+  const atomLines = sections.get('ATOM')?.filter(line => line.trim() !== '');
+  if (!header || !atomLines) {
+    throw new Mol2Error('MOL2 record needs MOLECULE and ATOM sections');
+  }
+  const formalCharges = (header[3] ?? '').trim().toUpperCase() === 'FORMAL_CHARGES';
+
+  const ids = new Map<number, number>();
+  const types: string[] = [];
+  const atoms: TableAtom[] = atomLines.map((line, index) => {
+    const [id, , x, y, z, type = '', , , charge] = line.trim().split(/\s+/);
+    const coordinates = [x, y, z].map(Number);
+    if (coordinates.some(value => isNaN(value))) {
+      throw new Mol2Error(`Atom ${id}: invalid coordinates`);
+    }
+    ids.set(parseInt(id!, 10), index);
+    types.push(type);
+    return {
+      element: element(type, index),
+      charge: formalCharges ? Math.round(Number(charge) || 0) : 0,
+      x: coordinates[0]!,
+      y: coordinates[1]!,
+      z: coordinates[2]!,
+    };
+  });
+
+  const bonds: TableBond[] = (sections.get('BOND') ?? [])
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const [id, a, b, type = ''] = line.trim().split(/\s+/);
+      const begin = ids.get(parseInt(a!, 10));
+      const end = ids.get(parseInt(b!, 10));
+      if (begin === undefined || end === undefined) {
+        throw new Mol2Error(`Bond ${id} refers to a missing atom`);
+      }
+      return { begin, end, ...bondType(type, id!) };
+    });
+
+  resolveCarboxylates(bonds, types);
+  if (!formalCharges) {
+    inferCharges(atoms, bonds, types);
+  }
+
+  let molecule: Molecule;
+  try {
+    molecule = moleculeFromTable(atoms, bonds, { fillHydrogens: false });
+  } catch (error) {
+    if (error instanceof ConnectionTableError) {
+      throw new Mol2Error(error.message);
+    }
+    throw error;
+  }
+  return { molecule, name: (header[0] ?? '').trim(), comment: (header[5] ?? '').trim() };
+}
+
+function element(type: string, index: number): string {
+  const symbol = type.split('.')[0]!;
+  if (symbol === 'Du' || symbol === 'Any' || symbol === 'LP') return '*';
+  const normalized = symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase();
+  if (!PERIODIC_TABLE[normalized]) {
+    throw new Mol2Error(`Atom ${index + 1}: unknown atom type "${type}"`);
+  }
+  return normalized;
+}
+
+function bondType(type: string, id: string): Pick<TableBond, 'order' | 'aromatic'> {
+  switch (type) {
+    case '1':
+    case 'am':
+      return { order: 1, aromatic: false };
+    case '2':
+    case '3':
+      return { order: Number(type) as BondOrder, aromatic: false };
+    case 'ar':
+      return { order: 1, aromatic: true };
+    default:
+      throw new Mol2Error(`Bond ${id}: bond type "${type}" is not supported`);
+  }
+}
+
+/**
+ * Carboxylate and nitro groups are often written with 'ar' bonds to O.co2; the first oxygen of
+ * each group becomes the double bond
+ */
+function resolveCarboxylates(bonds: TableBond[], types: string[]): void {
+  const doubled = new Set<number>();
+  for (const bond of bonds) {
+    if (!bond.aromatic) continue;
+    const oxygen = types[bond.begin] === 'O.co2' ? bond.begin : types[bond.end] === 'O.co2' ? bond.end : undefined;
+    if (oxygen === undefined) continue;
+    const center = oxygen === bond.begin ? bond.end : bond.begin;
+    bond.aromatic = false;
+    bond.order = doubled.has(center) ? 1 : 2;
+    doubled.add(center);
+  }
+}
+
+/**
+ * Formal charges of non-aromatic atoms whose bond order sum differs from the neutral valence
+ */
+function inferCharges(atoms: TableAtom[], bonds: TableBond[], types: string[]): void {
+  const sums = new Array<number>(atoms.length).fill(0);
+  const aromatic = new Set<number>();
+  for (const bond of bonds) {
+    for (const index of [bond.begin, bond.end]) {
+      sums[index]! += bond.order;
+      if (bond.aromatic) aromatic.add(index);
+    }
+  }
+
+  atoms.forEach((atom, index) => {
+    if (aromatic.has(index)) return;
+    const sum = sums[index]!;
+    switch (atom.element) {
+      case 'N':
+      case 'P':
+        if (sum === 4) atom.charge = 1;
+        else if (sum === 2 && atom.element === 'N') atom.charge = -1;
+        break;
+      case 'O':
+      case 'S':
+        if (sum === 1) atom.charge = -1;
+        else if (sum === 3) atom.charge = 1;
+        break;
+      case 'C':
+        if (sum === 3 && types[index] === 'C.cat') atom.charge = 1;
+        break;
+    }
+  });
+}
+
+function sybylType(molecule: Molecule, index: number): string {
+  const atom = molecule.atoms[index]!;
+  const bonds = molecule.bondsOf(index);
+  const doubles = bonds.filter(bond => bond.order === 2 && !bond.aromatic).length;
+  const triple = bonds.some(bond => bond.order === 3);
+  const neighbors = molecule.neighbors(index).map(neighbor => molecule.atoms[neighbor]!);
+
+  switch (atom.element) {
+    case 'C':
+      if (atom.aromatic) return 'C.ar';
+      if (triple || doubles > 1) return 'C.1';
+      if (atom.charge === 1 && bonds.length === 3) return 'C.cat';
+      return doubles === 1 ? 'C.2' : 'C.3';
+    case 'N':
+      if (atom.aromatic) return 'N.ar';
+      if (triple) return 'N.1';
+      if (atom.charge === 1 && bonds.length === 4 && doubles === 0) return 'N.4';
+      if (doubles === 1) return atom.charge === 1 ? 'N.pl3' : 'N.2';
+      if (bonds.some(bond => isAmideBond(molecule, bond.index))) return 'N.am';
+      return neighbors.some(neighbor => neighbor.aromatic || molecule.bondsOf(neighbor.index).some(bond => bond.order === 2))
+        ? 'N.pl3'
+        : 'N.3';
+    case 'O': {
+      const [only] = bonds;
+      if (bonds.length === 1 && only && isCarboxylateOxygen(molecule, molecule.otherAtom(only, index))) return 'O.co2';
+      return doubles === 1 ? 'O.2' : 'O.3';
+    }
+    case 'S': {
+      const oxo = bonds.filter(bond => bond.order === 2 && molecule.atoms[molecule.otherAtom(bond, index)]!.element === 'O').length;
+      if (oxo >= 2) return 'S.O2';
+      if (oxo === 1) return 'S.O';
+      return doubles === 1 || atom.aromatic ? 'S.2' : 'S.3';
+    }
+    case 'P':
+      return 'P.3';
+    default:
+      return atom.element;
+  }
+}
+
+function sybylBond(molecule: Molecule, bondIndex: number): string {
+  const bond = molecule.bonds[bondIndex]!;
+  if (bond.aromatic) return 'ar';
+  if (isAmideBond(molecule, bondIndex)) return 'am';
+  return String(bond.order);
+}
+
+/**
+ * Single C-N bond where the carbon carries a C=O
+ */
+function isAmideBond(molecule: Molecule, bondIndex: number): boolean {
+  const bond = molecule.bonds[bondIndex]!;
+  if (bond.order !== 1 || bond.aromatic) return false;
+  const elements = [molecule.atoms[bond.begin]!.element, molecule.atoms[bond.end]!.element];
+  const carbon = elements[0] === 'C' && elements[1] === 'N' ? bond.begin : elements[0] === 'N' && elements[1] === 'C' ? bond.end : -1;
+  if (carbon === -1) return false;
+  return molecule.bondsOf(carbon).some(other =>
+    other.order === 2 && molecule.atoms[molecule.otherAtom(other, carbon)]!.element === 'O');
+}
+
+/**
+ * Carbon bearing two terminal oxygens, one of them anionic: a carboxylate
+ */
+function isCarboxylateOxygen(molecule: Molecule, carbon: number): boolean {
+  if (molecule.atoms[carbon]!.element !== 'C') return false;
+  const terminalOxygens = molecule.neighbors(carbon)
+    .map(neighbor => molecule.atoms[neighbor]!)
+    .filter(atom => atom.element === 'O' && molecule.degree(atom.index) === 1);
+  return terminalOxygens.length === 2 && terminalOxygens.some(atom => atom.charge === -1);
+}
+
+function singleLine(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ').trim();
+}
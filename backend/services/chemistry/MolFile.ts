@@ -0,0 +1,402 @@
+import { PERIODIC_TABLE } from '../../../shared/utils';
+import { BondOrder, Molecule } from './Molecule';
+import { ConnectionTableError, TableAtom, TableBond, assignWedges, moleculeFromTable } from './ConnectionTable';
+
+export interface MolCoordinate {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface MolBlockOptions {
+  /** First header line, usually the compound name */
+  name?: string;
+  comment?: string;
+  /** Written to the header; 3D when any coordinate has a z value */
+  dimension?: '2D' | '3D';
+}
+
+export interface SdfRecord {
+  molecule: Molecule;
+  coordinates: MolCoordinate[];
+  name?: string;
+  /** Data items written as "> <key>" fields */
+  properties?: Record<string, string | number | boolean | null | undefined>;
+}
+
+export interface MolBlockContents {
+  molecule: Molecule;
+  name: string;
+  comment: string;
+}
+
+export interface SdfEntry {
+  /** One-based position in the file */
+  record: number;
+  molBlock: string;
+  /** First header line of the molblock */
+  name: string;
+  properties: Record<string, string>;
+}
+
+export class MolFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MolFileError';
+  }
+}
+
+const PROGRAM = 'AyurDisc';
+const MAX_V2000_ATOMS = 999;
+
+/**
+ * MDL V2000 molfile; aromatic bonds are written in Kekulé form so any reader accepts them.
+ * In 2D, tetrahedral centres get a wedge or hash bond.
+ */
+export function writeMolBlock(input: Molecule, coordinates: MolCoordinate[], options: MolBlockOptions = {}): string {
+  if (coordinates.length !== input.atoms.length) {
+    throw new MolFileError(`Expected ${input.atoms.length} coordinates, got ${coordinates.length}`);
+  }
+  if (input.atoms.length > MAX_V2000_ATOMS || input.bonds.length > MAX_V2000_ATOMS) {
+    throw new MolFileError(`V2000 molfiles hold at most ${MAX_V2000_ATOMS} atoms and bonds`);
+  }
+
+  const molecule = input.clone();
+  let kekulized = true;
+  try {
+    molecule.kekulize();
+  } catch {
+    kekulized = false;
+  }
+
+  const dimension = options.dimension ?? (coordinates.some(point => point.z !== undefined && point.z !== 0) ? '3D' : '2D');
+  const wedges = dimension === '2D' ? assignWedges(molecule, coordinates) : new Map();
+  const chiral = molecule.atoms.some(atom => atom.chirality) ? 1 : 0;
+  const lines = [
+    singleLine(options.name ?? ''),
+    `  ${PROGRAM.padEnd(8).slice(0, 8)}${timestamp(new Date())}${dimension}`,
+    singleLine(options.comment ?? ''),
+    `${pad(molecule.atoms.length, 3)}${pad(molecule.bonds.length, 3)}  0  0${pad(chiral, 3)}  0  0  0  0  0999 V2000`,
+  ];
+
+  molecule.atoms.forEach((atom, index) => {
+    const point = coordinates[index]!;
+    const symbol = atom.element === '*' ? 'A' : atom.element;
+    lines.push(`${coordinate(point.x)}${coordinate(point.y)}${coordinate(point.z ?? 0)} ${symbol.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`);
+  });
+
+  for (const bond of molecule.bonds) {
+    const type = bond.aromatic && !kekulized ? 4 : bond.order;
+    const wedge = wedges.get(bond);
+    const [begin, end] = wedge && wedge.begin !== bond.begin ? [bond.end, bond.begin] : [bond.begin, bond.end];
+    const stereo = wedge ? (wedge.style === 'wedge' ? 1 : 6) : 0;
+    lines.push(`${pad(begin + 1, 3)}${pad(end + 1, 3)}${pad(type, 3)}${pad(stereo, 3)}`);
+  }
+
+  const charged = molecule.atoms.filter(atom => atom.charge !== 0).map(atom => [atom.index + 1, atom.charge] as const);
+  const isotopes = molecule.atoms.filter(atom => atom.isotope).map(atom => [atom.index + 1, atom.isotope!] as const);
+  lines.push(...propertyLines('CHG', charged), ...propertyLines('ISO', isotopes), 'M  END');
+
+  return lines.join('\n');
+}
+
+/**
+ * SD file: one molblock per record followed by its data items, which may span several lines
+ */
+export function writeSdf(records: SdfRecord[]): string {
+  return records.map(record => {
+    const block = writeMolBlock(record.molecule, record.coordinates, record.name ? { name: record.name } : {});
+    const data = Object.entries(record.properties ?? {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `> <${key}>\n${dataLines(String(value))}\n`);
+    return [block, ...data, '$$$$'].join('\n');
+  }).join('\n') + '\n';
+}
+
+/**
+ * XYZ format: atom count, comment line, then element and Cartesian coordinates per atom
+ */
+export function writeXyz(molecule: Molecule, coordinates: MolCoordinate[], comment: string = ''): string {
+  if (coordinates.length !== molecule.atoms.length) {
+    throw new MolFileError(`Expected ${molecule.atoms.length} coordinates, got ${coordinates.length}`);
+  }
+  const lines = [String(molecule.atoms.length), singleLine(comment)];
+  molecule.atoms.forEach((atom, index) => {
+    const point = coordinates[index]!;
+    lines.push(`${atom.element.padEnd(2)} ${[point.x, point.y, point.z ?? 0].map(value => value.toFixed(5).padStart(12)).join(' ')}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Splits an SD file into molblocks and their data items without parsing the structures,
+ * so one bad record does not stop the rest
+ */
+export function splitSdf(text: string): SdfEntry[] {
+  const entries: SdfEntry[] = [];
+  const records = text.replace(/\r\n?/g, '\n').split(/^\$\$\$\$[ \t]*$/m);
+
+  for (const raw of records) {
+    const record = raw.replace(/^\n/, '');
+    if (!record.trim()) continue;
+
+    const end = record.search(/^M {2}END/m);
+    const molBlock = end === -1 ? record : record.slice(0, record.indexOf('\n', end) === -1 ? undefined : record.indexOf('\n', end));
+    const data = end === -1 ? '' : record.slice(molBlock.length);
+
+    const properties: Record<string, string> = {};
+    const lines = data.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const header = /^>.*<([^>]+)>/.exec(lines[i]!);
+      if (!header) continue;
+      const values: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1]!.trim() !== '') {
+        values.push(lines[++i]!.trimEnd());
+      }
+      properties[header[1]!] = values.join('\n');
+    }
+
+    entries.push({ record: entries.length + 1, molBlock, name: molBlock.split('\n')[0]!.trim(), properties });
+  }
+
+  return entries;
+}
+
+/**
+ * Reads a V2000 or V3000 molblock; hydrogens follow the MDL valence model and stereo comes
+ * from wedges (2D) or coordinates (3D)
+ */
+export function readMolBlock(text: string): MolBlockContents {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length < 4) {
+    throw new MolFileError('Molblock is shorter than its header and counts line');
+  }
+
+  const counts = lines[3]!;
+  const table = /V3000/.test(counts) ? readV3000(lines) : readV2000(lines);
+
+  let molecule: Molecule;
+  try {
+    molecule = moleculeFromTable(table.atoms, table.bonds, { fillHydrogens: true });
+  } catch (error) {
+    if (error instanceof ConnectionTableError) {
+      throw new MolFileError(error.message);
+    }
+    throw error;
+  }
+  return { molecule, name: lines[0]!.trim(), comment: lines[2]!.trim() };
+}
+
+interface Table {
+  atoms: TableAtom[];
+  bonds: TableBond[];
+}
+
+const V2000_CHARGES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+function readV2000(lines: string[]): Table {
+  const counts = lines[3]!;
+  const atomCount = parseInt(counts.slice(0, 3), 10);
+  const bondCount = parseInt(counts.slice(3, 6), 10);
+  if (isNaN(atomCount) || isNaN(bondCount)) {
+    throw new MolFileError(`Invalid counts line: "${counts.trim()}"`);
+  }
+  if (lines.length < 4 + atomCount + bondCount) {
+    throw new MolFileError(`Molblock declares ${atomCount} atoms and ${bondCount} bonds but is truncated`);
+  }
+
+  const atoms: TableAtom[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i]!;
+    const [x, y, z] = [line.slice(0, 10), line.slice(10, 20), line.slice(20, 30)].map(Number);
+    if ([x, y, z].some(value => value === undefined || isNaN(value))) {
+      throw new MolFileError(`Atom ${i + 1}: invalid coordinates`);
+    }
+    const atom: TableAtom = { ...element(line.slice(31, 34).trim(), i), charge: 0, x: x!, y: y!, z: z! };
+
+    const massDifference = parseInt(line.slice(34, 36), 10);
+    if (massDifference && !atom.isotope) {
+      atom.isotope = Math.round(PERIODIC_TABLE[atom.element]?.averageMass ?? 0) + massDifference;
+    }
+    const chargeCode = parseInt(line.slice(36, 39), 10);
+    if (chargeCode === 4) atom.radical = 1;
+    else if (V2000_CHARGES[chargeCode]) atom.charge = V2000_CHARGES[chargeCode]!;
+    atoms.push(atom);
+  }
+
+  const bonds: TableBond[] = [];
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[4 + atomCount + i]!;
+    const [begin, end, type, stereo] = [0, 3, 6, 9].map(start => parseInt(line.slice(start, start + 3), 10));
+    bonds.push(tableBond(i, begin! - 1, end! - 1, type!, v2000Stereo(type!, stereo ?? 0)));
+  }
+
+  // Property lines replace the charges and radicals of the atom block
+  let chargesReset = false;
+  let radicalsReset = false;
+  for (const line of lines.slice(4 + atomCount + bondCount)) {
+    if (line.startsWith('M  END')) break;
+    const property = /^M {2}(CHG|ISO|RAD)(.*)$/.exec(line);
+    if (!property) continue;
+
+    const values = property[2]!.trim().split(/\s+/).slice(1).map(Number);
+    if (property[1] === 'CHG' && !chargesReset) {
+      atoms.forEach(atom => (atom.charge = 0));
+      chargesReset = true;
+    }
+    if (property[1] === 'RAD' && !radicalsReset) {
+      atoms.forEach(atom => delete atom.radical);
+      radicalsReset = true;
+    }
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      const atom = atoms[values[i]! - 1];
+      const value = values[i + 1]!;
+      if (!atom || isNaN(value)) {
+        throw new MolFileError(`Invalid M  ${property[1]} line: "${line.trim()}"`);
+      }
+      if (property[1] === 'CHG') atom.charge = value;
+      else if (property[1] === 'ISO') atom.isotope = value;
+      else atom.radical = value === 2 ? 1 : value === 1 || value === 3 ? 2 : 0;
+    }
+  }
+
+  return { atoms, bonds };
+}
+
+function readV3000(lines: string[]): Table {
+  // Join continuation lines ending in "-"
+  const statements: string[] = [];
+  let pending = '';
+  for (const line of lines.slice(4)) {
+    if (!line.startsWith('M  V30 ')) {
+      if (line.startsWith('M  END')) break;
+      continue;
+    }
+    const content = line.slice(7);
+    if (content.endsWith('-')) {
+      pending += content.slice(0, -1);
+      continue;
+    }
+    statements.push(pending + content);
+    pending = '';
+  }
+
+  const atoms: TableAtom[] = [];
+  const bonds: TableBond[] = [];
+  const atomIndex = new Map<number, number>();
+  let section = '';
+  for (const statement of statements) {
+    const begin = /^BEGIN (\w+)/.exec(statement);
+    if (begin) {
+      section = begin[1]!;
+      continue;
+    }
+    if (statement.startsWith('END ')) {
+      section = '';
+      continue;
+    }
+
+    const fields = statement.trim().split(/\s+/);
+    const keyword = (name: string): number | undefined => {
+      const field = fields.find(item => item.startsWith(`${name}=`));
+      return field === undefined ? undefined : parseInt(field.slice(name.length + 1), 10);
+    };
+
+    if (section === 'ATOM') {
+      const [id, symbol, x, y, z] = fields;
+      const coordinates = [x, y, z].map(Number);
+      if (coordinates.some(isNaN)) {
+        throw new MolFileError(`Atom ${id}: invalid coordinates`);
+      }
+      atomIndex.set(parseInt(id!, 10), atoms.length);
+      const atom: TableAtom = {
+        ...element(symbol ?? '', atoms.length),
+        charge: keyword('CHG') ?? 0,
+        x: coordinates[0]!,
+        y: coordinates[1]!,
+        z: coordinates[2]!,
+      };
+      const mass = keyword('MASS');
+      if (mass) atom.isotope = mass;
+      const radical = keyword('RAD');
+      if (radical) atom.radical = radical === 2 ? 1 : 2;
+      atoms.push(atom);
+    } else if (section === 'BOND') {
+      const [, type, a, b] = fields.map(field => parseInt(field, 10));
+      const configuration = keyword('CFG') ?? 0;
+      const stereo = type === 1
+        ? ({ 1: 'wedge', 2: 'either', 3: 'hash' } as const)[configuration as 1 | 2 | 3]
+        : type === 2 && configuration === 2 ? 'either' : undefined;
+      bonds.push(tableBond(bonds.length, atomIndex.get(a!) ?? -1, atomIndex.get(b!) ?? -1, type!, stereo));
+    }
+  }
+
+  return { atoms, bonds };
+}
+
+function element(symbol: string, index: number): Pick<TableAtom, 'element' | 'isotope'> {
+  if (symbol === 'D') return { element: 'H', isotope: 2 };
+  if (symbol === 'T') return { element: 'H', isotope: 3 };
+  if (symbol === 'A' || symbol === 'Q' || symbol === '*') return { element: '*' };
+
+  const normalized = symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase();
+  if (!PERIODIC_TABLE[normalized]) {
+    throw new MolFileError(`Atom ${index + 1}: unknown element "${symbol}"`);
+  }
+  return { element: normalized };
+}
+
+function tableBond(index: number, begin: number, end: number, type: number, stereo: TableBond['stereo']): TableBond {
+  if (type < 1 || type > 4 || isNaN(type)) {
+    throw new MolFileError(`Bond ${index + 1}: query bond type ${type} is not supported`);
+  }
+  return {
+    begin,
+    end,
+    order: (type === 4 ? 1 : type) as BondOrder,
+    aromatic: type === 4,
+    ...(stereo && { stereo }),
+  };
+}
+
+function v2000Stereo(type: number, stereo: number): TableBond['stereo'] {
+  if (type === 1) return ({ 1: 'wedge', 4: 'either', 6: 'hash' } as const)[stereo as 1 | 4 | 6];
+  if (type === 2 && stereo === 3) return 'either';
+  return undefined;
+}
+
+/**
+ * "M  CHG" style lines, at most eight entries each
+ */
+function propertyLines(tag: string, entries: ReadonlyArray<readonly [number, number]>): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < entries.length; i += 8) {
+    const chunk = entries.slice(i, i + 8);
+    lines.push(`M  ${tag}${pad(chunk.length, 3)}${chunk.map(([atom, value]) => `${pad(atom, 4)}${pad(value, 4)}`).join('')}`);
+  }
+  return lines;
+}
+
+function timestamp(date: Date): string {
+  const two = (value: number): string => String(value).padStart(2, '0');
+  return `${two(date.getUTCMonth() + 1)}${two(date.getUTCDate())}${two(date.getUTCFullYear() % 100)}${two(date.getUTCHours())}${two(date.getUTCMinutes())}`;
+}
+
+function coordinate(value: number): string {
+  return value.toFixed(4).padStart(10);
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width);
+}
+
+/**
+ * Data item value; blank lines would end the item early
+ */
+function dataLines(text: string): string {
+  return text.split(/\r?\n/).filter(line => line.trim() !== '').join('\n');
+}
+
+function singleLine(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ').slice(0, 80);
+}
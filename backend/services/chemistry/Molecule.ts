@@ -0,0 +1,600 @@
+// In-memory molecular graph shared by the cheminformatics services
+
+import { ParsedFormula, formatFormula } from '../../../shared/utils';
+
+export type BondOrder = 1 | 2 | 3 | 4;
+
+export interface Atom {
+  index: number;
+  element: string;
+  aromatic: boolean;
+  charge: number;
+  isotope?: number;
+  implicitHydrogens: number; // Hydrogens not present as graph nodes
+  bracket: boolean;
+  chirality?: '@' | '@@';
+  stereoNeighbors?: number[]; // Neighbour order the chirality refers to, -1 marks the implicit H
+  atomClass?: number;
+}
+
+export interface Bond {
+  index: number;
+  begin: number;
+  end: number;
+  order: BondOrder;
+  aromatic: boolean;
+  direction?: '/' | '\\'; // Double bond stereo marker, read from begin to end
+}
+
+/** Geometry of a double bond written with '/' and '\\' bonds, relative to one marked neighbour on each side */
+export interface DoubleBondGeometry {
+  refBegin: number;
+  refEnd: number;
+  cis: boolean;
+}
+
+export class MoleculeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoleculeError';
+  }
+}
+
+// Valence rows used for isoelectronic lookup: a charged atom behaves like its
+// neighbour in the row (N+ like C, O- like F, C- like N...)
+const VALENCE_ROWS: string[][] = [
+  ['B', 'C', 'N', 'O', 'F'],
+  ['Al', 'Si', 'P', 'S', 'Cl'],
+  ['Ga', 'Ge', 'As', 'Se', 'Br'],
+  ['In', 'Sn', 'Sb', 'Te', 'I'],
+];
+
+const ALLOWED_VALENCES: Record<string, number[]> = {
+  H: [1],
+  B: [3], C: [4], N: [3, 5], O: [2], F: [1],
+  Al: [3], Si: [4], P: [3, 5], S: [2, 4, 6], Cl: [1, 3, 5, 7],
+  Ga: [3], Ge: [4], As: [3, 5], Se: [2, 4, 6], Br: [1, 3, 5, 7],
+  In: [3], Sn: [2, 4], Sb: [3, 5], Te: [2, 4, 6], I: [1, 3, 5, 7],
+};
+
+/**
+ * Returns the allowed valences for an element carrying the given formal charge,
+ * or undefined when the element has no fixed valence model (metals, noble gases)
+ */
+export function getAllowedValences(element: string, charge: number = 0): number[] | undefined {
+  if (element === 'H') {
+    return charge === 0 ? [1] : [0];
+  }
+  if (charge === 0) {
+    return ALLOWED_VALENCES[element];
+  }
+
+  for (const row of VALENCE_ROWS) {
+    const position = row.indexOf(element);
+    if (position === -1) continue;
+
+    const shifted = position - charge;
+    if (shifted >= 0 && shifted < row.length) {
+      return ALLOWED_VALENCES[row[shifted]!];
+    }
+    // Past the end of the row (e.g. F+, B--): no valid bonding pattern
+    return shifted >= row.length ? [0] : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Molecular graph with hydrogen-suppressed atoms, ring perception,
+ * aromaticity perception and kekulization
+ */
+export class Molecule {
+  public readonly atoms: Atom[];
+  public readonly bonds: Bond[];
+
+  private adjacency: number[][];
+  private ringCache: number[][] | null = null;
+
+  constructor(atoms: Atom[] = [], bonds: Bond[] = []) {
+    this.atoms = atoms;
+    this.bonds = bonds;
+    this.adjacency = atoms.map(() => []);
+    for (const bond of bonds) {
+      this.adjacency[bond.begin]!.push(bond.index);
+      this.adjacency[bond.end]!.push(bond.index);
+    }
+  }
+
+  public get atomCount(): number {
+    return this.atoms.length;
+  }
+
+  public get bondCount(): number {
+    return this.bonds.length;
+  }
+
+  public get heavyAtomCount(): number {
+    return this.atoms.filter(atom => atom.element !== 'H').length;
+  }
+
+  public get netCharge(): number {
+    return this.atoms.reduce((sum, atom) => sum + atom.charge, 0);
+  }
+
+  public addAtom(atom: Omit<Atom, 'index'>): Atom {
+    const created: Atom = { ...atom, index: this.atoms.length };
+    this.atoms.push(created);
+    this.adjacency.push([]);
+    this.ringCache = null;
+    return created;
+  }
+
+  public addBond(begin: number, end: number, order: BondOrder, aromatic: boolean = false): Bond {
+    if (begin === end) {
+      throw new MoleculeError(`Atom ${begin} cannot be bonded to itself`);
+    }
+    if (this.getBond(begin, end)) {
+      throw new MoleculeError(`Atoms ${begin} and ${end} are already bonded`);
+    }
+
+    const bond: Bond = { index: this.bonds.length, begin, end, order, aromatic };
+    this.bonds.push(bond);
+    this.adjacency[begin]!.push(bond.index);
+    this.adjacency[end]!.push(bond.index);
+    this.ringCache = null;
+    return bond;
+  }
+
+  public getAtom(index: number): Atom {
+    const atom = this.atoms[index];
+    if (!atom) {
+      throw new MoleculeError(`Atom index ${index} out of range`);
+    }
+    return atom;
+  }
+
+  public bondsOf(atomIndex: number): Bond[] {
+    return (this.adjacency[atomIndex] || []).map(bondIndex => this.bonds[bondIndex]!);
+  }
+
+  public neighbors(atomIndex: number): number[] {
+    return this.bondsOf(atomIndex).map(bond => this.otherAtom(bond, atomIndex));
+  }
+
+  public otherAtom(bond: Bond, atomIndex: number): number {
+    return bond.begin === atomIndex ? bond.end : bond.begin;
+  }
+
+  public getBond(a: number, b: number): Bond | undefined {
+    return this.bondsOf(a).find(bond => this.otherAtom(bond, a) === b);
+  }
+
+  public degree(atomIndex: number): number {
+    return (this.adjacency[atomIndex] || []).length;
+  }
+
+  public heavyDegree(atomIndex: number): number {
+    return this.neighbors(atomIndex).filter(n => this.atoms[n]!.element !== 'H').length;
+  }
+
+  /**
+   * Total hydrogens on an atom: implicit count plus explicit [H] neighbours
+   */
+  public hydrogenCount(atomIndex: number): number {
+    const explicit = this.neighbors(atomIndex).filter(n => this.atoms[n]!.element === 'H').length;
+    return this.getAtom(atomIndex).implicitHydrogens + explicit;
+  }
+
+  /**
+   * Sum of bond orders plus implicit hydrogens (kekulized orders expected)
+   */
+  public totalValence(atomIndex: number): number {
+    const bondSum = this.bondsOf(atomIndex).reduce((sum, bond) => sum + bond.order, 0);
+    return bondSum + this.getAtom(atomIndex).implicitHydrogens;
+  }
+
+  public isInRing(atomIndex: number): boolean {
+    return this.getRings().some(ring => ring.includes(atomIndex));
+  }
+
+  public isBondInRing(bond: Bond): boolean {
+    return this.getRings().some(ring => this.ringContainsBond(ring, bond));
+  }
+
+  public ringContainsBond(ring: number[], bond: Bond): boolean {
+    const i = ring.indexOf(bond.begin);
+    const j = ring.indexOf(bond.end);
+    if (i === -1 || j === -1) return false;
+    const distance = Math.abs(i - j);
+    return distance === 1 || distance === ring.length - 1;
+  }
+
+  /**
+   * Smallest set of smallest rings, each ring as atom indices in path order
+   */
+  public getRings(): number[][] {
+    if (this.ringCache) {
+      return this.ringCache;
+    }
+
+    const components = this.getComponents();
+    const cyclomatic = this.bonds.length - this.atoms.length + components.length;
+    if (cyclomatic <= 0) {
+      this.ringCache = [];
+      return this.ringCache;
+    }
+
+    // Candidate rings: the shortest cycle through each bond
+    const candidates = new Map<string, number[]>();
+    for (const bond of this.bonds) {
+      const path = this.shortestPath(bond.begin, bond.end, bond.index);
+      if (path) {
+        const key = [...path].sort((a, b) => a - b).join(',');
+        if (!candidates.has(key)) {
+          candidates.set(key, path);
+        }
+      }
+    }
+
+    const sorted = Array.from(candidates.values()).sort((a, b) => a.length - b.length);
+    const basis: bigint[] = [];
+    const rings: number[][] = [];
+
+    for (const ring of sorted) {
+      if (rings.length >= cyclomatic) break;
+
+      let vector = this.ringBondVector(ring);
+      for (const row of basis) {
+        const pivot = highestBit(row);
+        if ((vector >> BigInt(pivot)) & 1n) {
+          vector ^= row;
+        }
+      }
+      if (vector !== 0n) {
+        basis.push(vector);
+        basis.sort((a, b) => (highestBit(b) - highestBit(a)));
+        rings.push(ring);
+      }
+    }
+
+    this.ringCache = rings;
+    return rings;
+  }
+
+  /**
+   * Connected components as lists of atom indices
+   */
+  public getComponents(): number[][] {
+    const seen = new Array<boolean>(this.atoms.length).fill(false);
+    const components: number[][] = [];
+
+    for (let start = 0; start < this.atoms.length; start++) {
+      if (seen[start]) continue;
+      const component: number[] = [];
+      const stack = [start];
+      seen[start] = true;
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        component.push(current);
+        for (const next of this.neighbors(current)) {
+          if (!seen[next]) {
+            seen[next] = true;
+            stack.push(next);
+          }
+        }
+      }
+      components.push(component.sort((a, b) => a - b));
+    }
+
+    return components;
+  }
+
+  /**
+   * Assigns alternating single/double bonds to aromatic bonds.
+   * Throws when the aromatic system cannot be kekulized.
+   */
+  public kekulize(): void {
+    const aromaticBonds = this.bonds.filter(bond => bond.aromatic);
+    if (aromaticBonds.length === 0) return;
+
+    for (const bond of aromaticBonds) {
+      bond.order = 1;
+    }
+
+    // Atoms that still need a double bond inside the aromatic system
+    const needsPi = new Set<number>();
+    for (const atom of this.atoms) {
+      if (!atom.aromatic) continue;
+      if (this.bondsOf(atom.index).some(bond => bond.order >= 2)) continue;
+
+      const valences = getAllowedValences(atom.element, atom.charge);
+      const valence = this.totalValence(atom.index);
+      if (valences && valences.some(v => v === valence + 1) && !valences.includes(valence)) {
+        needsPi.add(atom.index);
+      }
+    }
+
+    const candidatesFor = (atomIndex: number): Bond[] =>
+      this.bondsOf(atomIndex).filter(bond =>
+        bond.aromatic && needsPi.has(this.otherAtom(bond, atomIndex))
+      );
+
+    const matched = new Set<number>();
+    const solve = (): boolean => {
+      let best: number | undefined;
+      let bestOptions: Bond[] = [];
+      for (const atomIndex of needsPi) {
+        if (matched.has(atomIndex)) continue;
+        const options = candidatesFor(atomIndex).filter(bond => !matched.has(this.otherAtom(bond, atomIndex)));
+        if (best === undefined || options.length < bestOptions.length) {
+          best = atomIndex;
+          bestOptions = options;
+          if (options.length <= 1) break;
+        }
+      }
+      if (best === undefined) return true;
+
+      for (const bond of bestOptions) {
+        const partner = this.otherAtom(bond, best);
+        bond.order = 2;
+        matched.add(best);
+        matched.add(partner);
+        if (solve()) return true;
+        bond.order = 1;
+        matched.delete(best);
+        matched.delete(partner);
+      }
+      return false;
+    };
+
+    if (!solve()) {
+      throw new MoleculeError('Aromatic system cannot be kekulized');
+    }
+  }
+
+  /**
+   * Perceives aromaticity from a kekulized structure using the Hückel 4n+2 rule
+   * over SSSR rings and pairs of fused rings
+   */
+  public perceiveAromaticity(): void {
+    for (const atom of this.atoms) atom.aromatic = false;
+    for (const bond of this.bonds) bond.aromatic = false;
+
+    const rings = this.getRings();
+    const aromaticRings: number[][] = [];
+    const pending = rings.filter(ring => ring.length >= 3 && ring.length <= 24);
+
+    const markAromatic = (atomSet: number[]): void => {
+      for (const atomIndex of atomSet) {
+        this.atoms[atomIndex]!.aromatic = true;
+      }
+      for (const bond of this.bonds) {
+        if (atomSet.includes(bond.begin) && atomSet.includes(bond.end) &&
+            rings.some(ring => this.ringContainsBond(ring, bond) && ring.every(a => atomSet.includes(a)))) {
+          bond.aromatic = true;
+        }
+      }
+    };
+
+    // Iterate so rings fused to already-aromatic rings can use them
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const ring of [...pending]) {
+        if (this.isHuckelSystem(ring)) {
+          markAromatic(ring);
+          aromaticRings.push(ring);
+          pending.splice(pending.indexOf(ring), 1);
+          changed = true;
+        }
+      }
+    }
+
+    // Fused pairs that are only aromatic as a whole (e.g. azulene)
+    for (let i = 0; i < pending.length; i++) {
+      for (let j = i + 1; j < pending.length; j++) {
+        const a = pending[i]!;
+        const b = pending[j]!;
+        const shared = a.filter(atomIndex => b.includes(atomIndex));
+        if (shared.length !== 2) continue;
+        const union = Array.from(new Set([...a, ...b]));
+        if (this.isHuckelSystem(union)) {
+          markAromatic(a);
+          markAromatic(b);
+        }
+      }
+    }
+  }
+
+  /**
+   * Elemental composition including hydrogens
+   */
+  public getElementCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const atom of this.atoms) {
+      counts[atom.element] = (counts[atom.element] || 0) + 1;
+      if (atom.implicitHydrogens > 0) {
+        counts['H'] = (counts['H'] || 0) + atom.implicitHydrogens;
+      }
+    }
+    delete counts['*'];
+    return counts;
+  }
+
+  /**
+   * Composition with isotope labels (e.g. "13C") and net charge, as used by the shared formula utilities
+   */
+  public toFormula(): ParsedFormula {
+    const counts: Record<string, number> = {};
+    for (const atom of this.atoms) {
+      if (atom.element === '*') continue;
+      const label = atom.isotope ? `${atom.isotope}${atom.element}` : atom.element;
+      counts[label] = (counts[label] || 0) + 1;
+      if (atom.implicitHydrogens > 0) {
+        counts['H'] = (counts['H'] || 0) + atom.implicitHydrogens;
+      }
+    }
+    return { counts, charge: this.netCharge };
+  }
+
+  /**
+   * Molecular formula in Hill order, without charge
+   */
+  public getFormula(): string {
+    return formatFormula({ ...this.toFormula(), charge: 0 });
+  }
+
+  public clone(): Molecule {
+    return new Molecule(
+      this.atoms.map(atom => ({
+        ...atom,
+        ...(atom.stereoNeighbors && { stereoNeighbors: [...atom.stereoNeighbors] }),
+      })),
+      this.bonds.map(bond => ({ ...bond }))
+    );
+  }
+
+  /**
+   * Copy with implicit hydrogens turned into graph atoms, appended after the existing atoms
+   * so original indices are preserved
+   */
+  public withExplicitHydrogens(): Molecule {
+    const molecule = this.clone();
+    for (const atom of this.atoms) {
+      const copy = molecule.atoms[atom.index]!;
+      for (let i = 0; i < atom.implicitHydrogens; i++) {
+        const hydrogen = molecule.addAtom({ element: 'H', aromatic: false, charge: 0, implicitHydrogens: 0, bracket: true });
+        molecule.addBond(atom.index, hydrogen.index, 1);
+        if (i === 0 && copy.stereoNeighbors) {
+          copy.stereoNeighbors = copy.stereoNeighbors.map(neighbor => (neighbor === -1 ? hydrogen.index : neighbor));
+        }
+      }
+      copy.implicitHydrogens = 0;
+    }
+    return molecule;
+  }
+
+  /**
+   * Double bonds with cis/trans geometry given by directional bonds on both sides
+   */
+  public getDoubleBondStereo(): Map<Bond, DoubleBondGeometry> {
+    const configurations = new Map<Bond, DoubleBondGeometry>();
+
+    for (const bond of this.bonds) {
+      if (bond.order !== 2 || bond.aromatic) continue;
+
+      const reference = (center: number): { neighbor: number; side: '/' | '\\' } | null => {
+        const marked = this.bondsOf(center).find(other => other !== bond && other.direction);
+        if (!marked) return null;
+        const side = marked.begin === center ? marked.direction! : marked.direction === '/' ? '\\' : '/';
+        return { neighbor: this.otherAtom(marked, center), side };
+      };
+
+      const begin = reference(bond.begin);
+      const end = reference(bond.end);
+      if (begin && end) {
+        configurations.set(bond, { refBegin: begin.neighbor, refEnd: end.neighbor, cis: begin.side === end.side });
+      }
+    }
+
+    return configurations;
+  }
+
+  private isHuckelSystem(atomSet: number[]): boolean {
+    let electrons = 0;
+    for (const atomIndex of atomSet) {
+      const contribution = this.piElectrons(atomIndex, atomSet);
+      if (contribution < 0) return false;
+      electrons += contribution;
+    }
+    return electrons % 4 === 2;
+  }
+
+  /**
+   * Pi electrons an atom donates to the ring system, or -1 if it breaks conjugation
+   */
+  private piElectrons(atomIndex: number, atomSet: number[]): number {
+    const atom = this.atoms[atomIndex]!;
+    const bonds = this.bondsOf(atomIndex);
+
+    if (bonds.some(bond => bond.order === 3)) return -1;
+
+    const doubleBonds = bonds.filter(bond => bond.order === 2);
+    if (doubleBonds.length > 1) return -1;
+
+    const doubleBond = doubleBonds[0];
+    if (doubleBond) {
+      const partner = this.otherAtom(doubleBond, atomIndex);
+      if (atomSet.includes(partner)) return 1;
+      // Double bond into a neighbouring aromatic ring keeps the atom conjugated
+      if (this.atoms[partner]!.aromatic && this.isBondInRing(doubleBond)) return 1;
+      // Exocyclic C=O, C=N, C=S contribute no electrons (pyridones, quinones)
+      const partnerElement = this.atoms[partner]!.element;
+      if (['O', 'N', 'S'].includes(partnerElement) && !this.isInRing(partner)) return 0;
+      return -1;
+    }
+
+    const connections = bonds.length + atom.implicitHydrogens;
+    switch (atom.element) {
+      case 'C':
+        if (atom.charge === -1) return 2;
+        if (atom.charge === 1) return 0;
+        return -1;
+      case 'N':
+      case 'P':
+        if (atom.charge === 0 && connections <= 3) return 2;
+        return -1;
+      case 'O':
+      case 'S':
+      case 'Se':
+      case 'Te':
+        if (atom.charge === 0 && connections <= 2) return 2;
+        return -1;
+      case 'B':
+        return atom.charge === 0 && connections <= 3 ? 0 : -1;
+      default:
+        return -1;
+    }
+  }
+
+  private shortestPath(from: number, to: number, excludedBond: number): number[] | null {
+    const previous = new Map<number, number>([[from, -1]]);
+    const queue = [from];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === to) break;
+      for (const bond of this.bondsOf(current)) {
+        if (bond.index === excludedBond) continue;
+        const next = this.otherAtom(bond, current);
+        if (!previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+
+    if (!previous.has(to)) return null;
+
+    const path: number[] = [];
+    for (let node = to; node !== -1; node = previous.get(node)!) {
+      path.push(node);
+    }
+    return path.reverse();
+  }
+
+  private ringBondVector(ring: number[]): bigint {
+    let vector = 0n;
+    for (let i = 0; i < ring.length; i++) {
+      const bond = this.getBond(ring[i]!, ring[(i + 1) % ring.length]!);
+      if (bond) {
+        vector |= 1n << BigInt(bond.index);
+      }
+    }
+    return vector;
+  }
+}
+
+function highestBit(value: bigint): number {
+  return value.toString(2).length - 1;
+}
@@ -0,0 +1,141 @@
+import { Molecule } from './Molecule';
+import { SmartsPattern, parseSmarts } from './Smarts';
+
+export interface PharmacophoreDefinition {
+  id: string;
+  description: string;
+  /** The feature is present if any of these patterns matches */
+  smarts: string[];
+}
+
+export const PHARMACOPHORE_DEFINITIONS: PharmacophoreDefinition[] = [
+  {
+    id: 'hydrogen_bond_donor',
+    description: 'N-H or O-H donor',
+    smarts: ['[#7,#8;!H0]'],
+  },
+  {
+    id: 'hydrogen_bond_acceptor',
+    description: 'Oxygen or non-amide, non-aniline nitrogen acceptor',
+    smarts: ['[#8;!$([OX2](a)a)]', '[N;X3;!$(N-[C,S]=[O,N,S]);!$(N-a)]', '[n;X2;+0]', '[N;X2]', '[N;X1]'],
+  },
+  {
+    id: 'aromatic_ring',
+    description: 'Five- or six-membered aromatic ring',
+    smarts: ['a1aaaaa1', 'a1aaaa1'],
+  },
+  {
+    id: 'hydrophobic',
+    description: 'Aliphatic methyl/methylene chain or aryl halide',
+    smarts: ['[CH3,CH2;!$(C~[!#6;!#1])]-[CH2,CH3,CH1;!$(C~[!#6;!#1])]', 'c[Cl,Br,I]'],
+  },
+  {
+    id: 'positive_ionizable',
+    description: 'Basic amine, amidine/guanidine or quaternary nitrogen',
+    smarts: [
+      '[NX3;!$(N-[C,S,P]=[O,N,S]);!$(N-a);!$(N-[#7,#8]);!$(N-C#N)]',
+      '[#7+;!$([#7]~[O-]);!$([#7]=O)]',
+      '[NX3]C(=[NX2])[NX3]',
+    ],
+  },
+  {
+    id: 'negative_ionizable',
+    description: 'Carboxylic, sulfonic or phosphoric acid',
+    smarts: ['[CX3](=O)[OX2H1,OX1-]', '[SX4,PX4](=O)[OX2H1,OX1-]'],
+  },
+  {
+    id: 'phenol',
+    description: 'Aromatic hydroxyl',
+    smarts: ['c[OX2H1]'],
+  },
+  {
+    id: 'catechol',
+    description: 'Ortho-dihydroxy aromatic',
+    smarts: ['c([OX2H1])c[OX2H1]'],
+  },
+  {
+    id: 'michael_acceptor',
+    description: 'α,β-unsaturated carbonyl',
+    smarts: ['[CX3]=[CX3]-[CX3]=[OX1]'],
+  },
+  {
+    id: 'aryl_methoxy',
+    description: 'Aromatic methyl ether',
+    smarts: ['c[OX2][CH3]'],
+  },
+  {
+    id: 'methylenedioxy',
+    description: 'Methylenedioxy bridge on an aromatic ring',
+    smarts: ['cO[CH2]Oc'],
+  },
+  {
+    id: 'carboxylic_acid',
+    description: 'Carboxylic acid',
+    smarts: ['[CX3](=O)[OX2H1]'],
+  },
+  {
+    id: 'ester',
+    description: 'Acyclic carboxylic ester',
+    smarts: ['[#6][CX3](=O)!@[OX2][#6]'],
+  },
+  {
+    id: 'lactone',
+    description: 'Cyclic ester',
+    smarts: ['[#6][CX3;R](=O)@[OX2;R][#6]'],
+  },
+  {
+    id: 'epoxide',
+    description: 'Three-membered cyclic ether',
+    smarts: ['C1OC1'],
+  },
+  {
+    id: 'glycoside',
+    description: 'Pyranose or furanose linked through its anomeric carbon',
+    smarts: [
+      '[#6]-[OX2;!R]-[CH1;R]1-[OX2;R]-[C;R]-[C;R]-[C;R]-[C;R]-1',
+      '[#6]-[OX2;!R]-[CH1;R]1-[OX2;R]-[C;R]-[C;R]-[C;R]-1',
+    ],
+  },
+  {
+    id: 'amide',
+    description: 'Carboxamide',
+    smarts: ['[NX3][CX3](=[OX1])[#6]'],
+  },
+  {
+    id: 'beta_diketone',
+    description: '1,3-dicarbonyl or its enol tautomer',
+    smarts: ['[#6][CX3](=O)[CH2][CX3](=O)[#6]', '[#6][CX3](=O)[CH1]=[CX3]([OH1])[#6]'],
+  },
+];
+
+let compiled: Map<string, SmartsPattern[]> | null = null;
+
+function compiledDefinitions(): Map<string, SmartsPattern[]> {
+  if (!compiled) {
+    compiled = new Map(PHARMACOPHORE_DEFINITIONS.map(definition => [
+      definition.id,
+      definition.smarts.map(smarts => parseSmarts(smarts)),
+    ]));
+  }
+  return compiled;
+}
+
+/**
+ * Compiled patterns for a pharmacophore feature id, or undefined if the id is unknown
+ */
+export function getPharmacophorePatterns(id: string): SmartsPattern[] | undefined {
+  return compiledDefinitions().get(id);
+}
+
+/**
+ * Ids of every pharmacophore feature present in the molecule, in definition order
+ */
+export function derivePharmacophores(molecule: Molecule): string[] {
+  const features: string[] = [];
+  for (const [id, patterns] of compiledDefinitions()) {
+    if (patterns.some(pattern => pattern.hasMatch(molecule))) {
+      features.push(id);
+    }
+  }
+  return features;
+}
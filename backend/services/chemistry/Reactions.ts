@@ -0,0 +1,267 @@
+import { Atom, Bond, BondOrder, Molecule, getAllowedValences } from './Molecule';
+import { ScreeningBondClass, SmartsPattern, parseSmarts } from './Smarts';
+import { canonicalSmiles } from './Canonical';
+import { parseSmiles } from './SmilesParser';
+
+export class ReactionParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReactionParseError';
+  }
+}
+
+export interface ReactionProduct {
+  /** Canonical SMILES of the product */
+  smiles: string;
+  molecule: Molecule;
+  /** Reactant atom indices matched by the template, in template atom order */
+  atoms: number[];
+}
+
+interface TemplateAtom {
+  element: string | null;
+  map: number | null;
+}
+
+interface TemplateBond {
+  begin: number;
+  end: number;
+  order: BondOrder | null;
+}
+
+interface Template {
+  atoms: TemplateAtom[];
+  bonds: TemplateBond[];
+}
+
+const BOND_ORDERS: Record<ScreeningBondClass, BondOrder> = { s: 1, d: 2, t: 3 };
+
+/**
+ * Reaction transform written as SMIRKS, "reactant>>product" with atom maps, e.g. "[CH3][O:1][c:2]>>[OH:1][c:2]".
+ *
+ * Follows the Daylight conventions for a single reactant and product: mapped atoms are kept,
+ * reactant atoms without a map in the product are deleted, unmapped product atoms are created,
+ * and bonds between mapped atoms take the product order. Atoms outside the match are untouched,
+ * and hydrogen counts follow the change in bonding.
+ */
+export class ReactionTransform {
+  public readonly smirks: string;
+  private reactant: SmartsPattern;
+  private reactantTemplate: Template;
+  private productTemplate: Template;
+
+  constructor(smirks: string) {
+    this.smirks = smirks;
+
+    const sides = smirks.split('>>');
+    if (sides.length !== 2 || !sides[0]!.trim() || !sides[1]!.trim()) {
+      throw new ReactionParseError(`Reaction must have the form reactant>>product: ${smirks}`);
+    }
+
+    let product: SmartsPattern;
+    try {
+      this.reactant = parseSmarts(sides[0]!.trim());
+      product = parseSmarts(sides[1]!.trim());
+    } catch (error) {
+      throw new ReactionParseError(`Invalid reaction ${smirks}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.reactantTemplate = toTemplate(this.reactant);
+    this.productTemplate = toTemplate(product);
+    this.checkMaps();
+  }
+
+  /**
+   * One product per distinct match site, deduplicated by canonical SMILES
+   */
+  public apply(molecule: Molecule, maxProducts: number = 50): ReactionProduct[] {
+    const products = new Map<string, ReactionProduct>();
+
+    for (const match of this.reactant.match(molecule)) {
+      if (products.size >= maxProducts) break;
+
+      let smiles: string;
+      let product: Molecule;
+      try {
+        // The round trip through SMILES re-perceives aromaticity and rejects impossible valences
+        smiles = canonicalSmiles(this.transform(molecule, match));
+        product = parseSmiles(smiles);
+      } catch {
+        continue;
+      }
+
+      if (!products.has(smiles)) {
+        products.set(smiles, { smiles, molecule: product, atoms: match });
+      }
+    }
+
+    return Array.from(products.values());
+  }
+
+  private transform(molecule: Molecule, match: number[]): Molecule {
+    const productMaps = new Map<number, number>();
+    this.productTemplate.atoms.forEach((atom, index) => {
+      if (atom.map !== null) productMaps.set(atom.map, index);
+    });
+
+    // Target atom for each map number, and the reactant atoms the product no longer contains
+    const mapped = new Map<number, number>();
+    const deleted = new Set<number>();
+    this.reactantTemplate.atoms.forEach((atom, index) => {
+      const target = match[index]!;
+      if (atom.map !== null && productMaps.has(atom.map)) {
+        mapped.set(atom.map, target);
+      } else {
+        deleted.add(target);
+      }
+    });
+    const mapOf = new Map(Array.from(mapped, ([map, target]) => [target, map]));
+
+    const productBond = (a: number, b: number): TemplateBond | undefined => {
+      const ia = productMaps.get(a);
+      const ib = productMaps.get(b);
+      return this.productTemplate.bonds.find(bond =>
+        (bond.begin === ia && bond.end === ib) || (bond.begin === ib && bond.end === ia));
+    };
+    const reactantBonded = (a: number, b: number): boolean =>
+      this.reactantTemplate.bonds.some(bond =>
+        (match[bond.begin] === a && match[bond.end] === b) || (match[bond.begin] === b && match[bond.end] === a));
+
+    const indexMap = new Map<number, number>();
+    const atoms: Atom[] = [];
+    for (const atom of molecule.atoms) {
+      if (deleted.has(atom.index)) continue;
+      indexMap.set(atom.index, atoms.length);
+      atoms.push({
+        ...atom,
+        index: atoms.length,
+        ...(atom.stereoNeighbors && { stereoNeighbors: [...atom.stereoNeighbors] }),
+      });
+    }
+
+    const bonds: Bond[] = [];
+    const addBond = (begin: number, end: number, order: BondOrder, aromatic: boolean, direction?: Bond['direction']): void => {
+      bonds.push({ index: bonds.length, begin, end, order, aromatic, ...(direction && { direction }) });
+    };
+
+    for (const bond of molecule.bonds) {
+      const begin = indexMap.get(bond.begin);
+      const end = indexMap.get(bond.end);
+      if (begin === undefined || end === undefined) continue;
+
+      const mapA = mapOf.get(bond.begin);
+      const mapB = mapOf.get(bond.end);
+      if (mapA === undefined || mapB === undefined || !reactantBonded(bond.begin, bond.end)) {
+        addBond(begin, end, bond.order, bond.aromatic, bond.direction);
+        continue;
+      }
+
+      const template = productBond(mapA, mapB);
+      if (!template) continue; // Broken by the reaction
+      const order = template.order ?? bond.order;
+      if (bond.aromatic && order === 1) {
+        addBond(begin, end, bond.order, true);
+      } else {
+        addBond(begin, end, order, false, order === bond.order ? bond.direction : undefined);
+      }
+    }
+
+    // Atoms and bonds the product template adds
+    const created = new Map<number, number>();
+    this.productTemplate.atoms.forEach((atom, index) => {
+      if (atom.map !== null) return;
+      created.set(index, atoms.length);
+      atoms.push({
+        index: atoms.length,
+        element: atom.element!,
+        aromatic: false,
+        charge: 0,
+        implicitHydrogens: 0,
+        bracket: false,
+      });
+    });
+    const productAtom = (index: number): number => {
+      const map = this.productTemplate.atoms[index]!.map;
+      return map === null ? created.get(index)! : indexMap.get(mapped.get(map)!)!;
+    };
+    for (const bond of this.productTemplate.bonds) {
+      const begin = productAtom(bond.begin);
+      const end = productAtom(bond.end);
+      if (bonds.some(existing => (existing.begin === begin && existing.end === end) || (existing.begin === end && existing.end === begin))) {
+        continue;
+      }
+      addBond(begin, end, bond.order ?? 1, false);
+    }
+
+    const result = new Molecule(atoms, bonds);
+    this.adjustHydrogens(molecule, result, indexMap, new Set(created.values()));
+    return result;
+  }
+
+  /**
+   * Kept atoms gain or lose hydrogens as their bonding changes; new atoms take their lowest normal valence
+   */
+  private adjustHydrogens(before: Molecule, after: Molecule, indexMap: Map<number, number>, created: Set<number>): void {
+    const bondSum = (molecule: Molecule, index: number): number =>
+      molecule.bondsOf(index).reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+    const neighbors = (molecule: Molecule, index: number): number[] => molecule.neighbors(index).sort((a, b) => a - b);
+
+    for (const [oldIndex, newIndex] of indexMap) {
+      const atom = after.atoms[newIndex]!;
+      const change = bondSum(before, oldIndex) - bondSum(after, newIndex);
+      atom.implicitHydrogens = Math.max(0, atom.implicitHydrogens + change);
+
+      const remapped = neighbors(before, oldIndex).map(neighbor => indexMap.get(neighbor) ?? -1);
+      const current = neighbors(after, newIndex);
+      if (change !== 0 || remapped.join(',') !== current.join(',')) {
+        // The stereocentre no longer has the neighbours its parity refers to
+        delete atom.chirality;
+        delete atom.stereoNeighbors;
+      } else if (atom.stereoNeighbors) {
+        atom.stereoNeighbors = atom.stereoNeighbors.map(neighbor => (neighbor < 0 ? neighbor : indexMap.get(neighbor)!));
+      }
+    }
+
+    for (const index of created) {
+      const atom = after.atoms[index]!;
+      const sum = bondSum(after, index);
+      const target = (getAllowedValences(atom.element) || []).find(valence => valence >= sum);
+      atom.implicitHydrogens = target === undefined ? 0 : target - sum;
+    }
+  }
+
+  private checkMaps(): void {
+    const reactantMaps = this.reactantTemplate.atoms.map(atom => atom.map).filter((map): map is number => map !== null);
+    const productMaps = this.productTemplate.atoms.map(atom => atom.map).filter((map): map is number => map !== null);
+
+    for (const maps of [reactantMaps, productMaps]) {
+      if (new Set(maps).size !== maps.length) {
+        throw new ReactionParseError(`Duplicate atom map number in ${this.smirks}`);
+      }
+    }
+    const unknown = productMaps.find(map => !reactantMaps.includes(map));
+    if (unknown !== undefined) {
+      throw new ReactionParseError(`Product atom map ${unknown} does not appear in the reactant of ${this.smirks}`);
+    }
+    if (this.productTemplate.atoms.some(atom => atom.map === null && !atom.element)) {
+      throw new ReactionParseError(`New product atoms need an explicit element in ${this.smirks}`);
+    }
+  }
+}
+
+export function parseReaction(smirks: string): ReactionTransform {
+  return new ReactionTransform(smirks);
+}
+
+function toTemplate(pattern: SmartsPattern): Template {
+  const elements = pattern.screeningAtoms();
+  const maps = pattern.atomMaps();
+  return {
+    atoms: elements.map((element, index) => ({ element, map: maps[index] ?? null })),
+    bonds: pattern.screeningBonds().map(bond => ({
+      begin: bond.begin,
+      end: bond.end,
+      order: bond.bondClass ? BOND_ORDERS[bond.bondClass] : null,
+    })),
+  };
+}
@@ -0,0 +1,122 @@
+// Bemis–Murcko scaffolds and generic frameworks
+
+import { Atom, Bond, Molecule } from './Molecule';
+import { canonicalSmiles } from './Canonical';
+
+export interface ScaffoldSmiles {
+  /** Canonical SMILES of the Bemis–Murcko scaffold, '' for acyclic molecules */
+  murcko: string;
+  /** Same framework with every atom carbon and every bond single */
+  generic: string;
+}
+
+/**
+ * Ring systems plus the linkers between them, with side chains removed. Atoms double-bonded to
+ * the framework (carbonyl oxygens, exocyclic methylenes) are kept, as RDKit does. Stereo is
+ * dropped so stereoisomers share a scaffold. Null for acyclic molecules.
+ */
+export function murckoScaffold(molecule: Molecule): Molecule | null {
+  const framework = frameworkAtoms(molecule);
+  if (framework.size === 0) return null;
+
+  const kept = new Set(framework);
+  for (const bond of molecule.bonds) {
+    if (bond.order !== 2 || bond.aromatic) continue;
+    if (framework.has(bond.begin) && !framework.has(bond.end)) kept.add(bond.end);
+    if (framework.has(bond.end) && !framework.has(bond.begin)) kept.add(bond.begin);
+  }
+
+  return extractAtoms(molecule, kept);
+}
+
+/**
+ * Graph framework: the scaffold without exocyclic double-bonded atoms, all atoms carbon and all
+ * bonds single. Null for acyclic molecules.
+ */
+export function genericScaffold(molecule: Molecule): Molecule | null {
+  const framework = frameworkAtoms(molecule);
+  if (framework.size === 0) return null;
+
+  const scaffold = extractAtoms(molecule, framework);
+  for (const bond of scaffold.bonds) {
+    bond.order = 1;
+    bond.aromatic = false;
+  }
+  for (const atom of scaffold.atoms) {
+    atom.element = 'C';
+    atom.aromatic = false;
+    atom.charge = 0;
+    delete atom.isotope;
+    atom.implicitHydrogens = Math.max(0, 4 - scaffold.degree(atom.index));
+  }
+  return scaffold;
+}
+
+export function scaffoldSmiles(molecule: Molecule): ScaffoldSmiles {
+  const murcko = murckoScaffold(molecule);
+  const generic = genericScaffold(molecule);
+  return {
+    murcko: murcko ? canonicalSmiles(murcko, { isomeric: false }) : '',
+    generic: generic ? canonicalSmiles(generic, { isomeric: false }) : '',
+  };
+}
+
+/**
+ * Ring atoms and the chains that connect rings: everything left after repeatedly stripping
+ * acyclic atoms with one neighbour
+ */
+function frameworkAtoms(molecule: Molecule): Set<number> {
+  const inRing = molecule.atoms.map(atom => molecule.isInRing(atom.index));
+  if (!inRing.some(Boolean)) return new Set();
+
+  const removed = new Set<number>();
+  const degree = molecule.atoms.map(atom => molecule.degree(atom.index));
+  const queue = molecule.atoms.filter(atom => !inRing[atom.index] && degree[atom.index]! <= 1).map(atom => atom.index);
+
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    if (removed.has(current)) continue;
+    removed.add(current);
+    for (const neighbor of molecule.neighbors(current)) {
+      if (removed.has(neighbor)) continue;
+      degree[neighbor]! -= 1;
+      if (!inRing[neighbor] && degree[neighbor]! <= 1) queue.push(neighbor);
+    }
+  }
+
+  // Separate ring-free components of a salt or mixture are removed entirely
+  return new Set(molecule.atoms.map(atom => atom.index).filter(index => !removed.has(index)));
+}
+
+/**
+ * Copy of the given atoms; bonds to dropped atoms become hydrogens
+ */
+function extractAtoms(molecule: Molecule, keep: Set<number>): Molecule {
+  const indexMap = new Map<number, number>();
+  const atoms: Atom[] = [];
+  for (const atom of molecule.atoms) {
+    if (!keep.has(atom.index)) continue;
+    indexMap.set(atom.index, atoms.length);
+    const copy: Atom = { ...atom, index: atoms.length };
+    delete copy.chirality;
+    delete copy.stereoNeighbors;
+    delete copy.atomClass;
+    atoms.push(copy);
+  }
+
+  const bonds: Bond[] = [];
+  for (const bond of molecule.bonds) {
+    const begin = indexMap.get(bond.begin);
+    const end = indexMap.get(bond.end);
+    if (begin !== undefined && end !== undefined) {
+      bonds.push({ index: bonds.length, begin, end, order: bond.order, aromatic: bond.aromatic });
+      continue;
+    }
+    const kept = begin ?? end;
+    if (kept !== undefined) {
+      atoms[kept]!.implicitHydrogens += bond.aromatic ? 1 : bond.order;
+    }
+  }
+
+  return new Molecule(atoms, bonds);
+}
@@ -0,0 +1,715 @@
+import { Bond, Molecule } from './Molecule';
+import { KNOWN_ELEMENTS } from './SmilesParser';
+
+export class SmartsParseError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'SmartsParseError';
+    this.position = position;
+  }
+}
+
+/** Bond classes used for fingerprint screening: single/aromatic, double, triple */
+export type ScreeningBondClass = 's' | 'd' | 't';
+
+type Expression<T> =
+  | { kind: 'primitive'; test: (value: T) => boolean; element?: string; bondClass?: ScreeningBondClass }
+  | { kind: 'not'; child: Expression<T> }
+  | { kind: 'and'; children: Expression<T>[] }
+  | { kind: 'or'; children: Expression<T>[] };
+
+interface AtomTarget {
+  molecule: Molecule;
+  context: MatchContext;
+  index: number;
+}
+
+interface QueryAtom {
+  expression: Expression<AtomTarget>;
+  map?: number;
+}
+
+interface BondTarget {
+  bond: Bond;
+  context: MatchContext;
+}
+
+interface QueryBond {
+  begin: number;
+  end: number;
+  expression: Expression<BondTarget>;
+}
+
+/**
+ * Per-molecule ring data and recursive-SMARTS results shared across one match run
+ */
+interface MatchContext {
+  ringMembership: number[];
+  ringSizes: number[][];
+  ringBondCount: number[];
+  ringBonds: Set<number>;
+  recursive: Map<SmartsPattern, Map<number, boolean>>;
+}
+
+// KNOWN_ELEMENTS is listed in atomic-number order
+const ELEMENTS_BY_NUMBER = Array.from(KNOWN_ELEMENTS);
+const AROMATIC_SYMBOLS = ['se', 'as', 'te', 'c', 'n', 'o', 's', 'p', 'b'];
+const ORGANIC_SYMBOLS = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const BOND_CHARACTERS = '-=#:~@/\\!&,;';
+
+const contextCache = new WeakMap<Molecule, MatchContext>();
+
+/**
+ * Compiled SMARTS query matched against the molecular graph by backtracking
+ */
+export class SmartsPattern {
+  public readonly smarts: string;
+  private atoms: QueryAtom[] = [];
+  private bonds: QueryBond[] = [];
+  private anchors: number[] = [];
+  private earlierBonds: QueryBond[][] = [];
+
+  constructor(smarts: string) {
+    this.smarts = smarts;
+    new SmartsReader(smarts, this.atoms, this.bonds).read();
+    this.prepareSearchOrder();
+  }
+
+  public get atomCount(): number {
+    return this.atoms.length;
+  }
+
+  /**
+   * Unique matches as lists of target atom indices in query atom order
+   */
+  public match(molecule: Molecule, maxMatches: number = 1000): number[][] {
+    const matches: number[][] = [];
+    const seen = new Set<string>();
+    this.search(molecule, getContext(molecule), null, mapping => {
+      const key = [...mapping].sort((a, b) => a - b).join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        matches.push([...mapping]);
+      }
+      return matches.length < maxMatches;
+    });
+    return matches;
+  }
+
+  public hasMatch(molecule: Molecule): boolean {
+    let found = false;
+    this.search(molecule, getContext(molecule), null, () => {
+      found = true;
+      return false;
+    });
+    return found;
+  }
+
+  /**
+   * Whether the pattern matches with its first atom on the given target atom
+   */
+  public matchesAt(molecule: Molecule, atomIndex: number): boolean {
+    const context = getContext(molecule);
+    let cache = context.recursive.get(this);
+    if (!cache) {
+      cache = new Map();
+      context.recursive.set(this, cache);
+    }
+    const cached = cache.get(atomIndex);
+    if (cached !== undefined) return cached;
+
+    let found = false;
+    this.search(molecule, context, atomIndex, () => {
+      found = true;
+      return false;
+    });
+    cache.set(atomIndex, found);
+    return found;
+  }
+
+  /**
+   * Element of each query atom when the query pins it down, for screening
+   */
+  public screeningAtoms(): Array<string | null> {
+    return this.atoms.map(atom => expressionElement(atom.expression));
+  }
+
+  /**
+   * Atom map number of each query atom ([C:1]), used by reaction templates
+   */
+  public atomMaps(): Array<number | null> {
+    return this.atoms.map(atom => atom.map ?? null);
+  }
+
+  public screeningBonds(): Array<{ begin: number; end: number; bondClass: ScreeningBondClass | null }> {
+    return this.bonds.map(bond => ({
+      begin: bond.begin,
+      end: bond.end,
+      bondClass: expressionBondClass(bond.expression),
+    }));
+  }
+
+  private prepareSearchOrder(): void {
+    this.anchors = this.atoms.map(() => -1);
+    this.earlierBonds = this.atoms.map(() => []);
+    for (const bond of this.bonds) {
+      const later = Math.max(bond.begin, bond.end);
+      const earlier = Math.min(bond.begin, bond.end);
+      this.earlierBonds[later]!.push(bond);
+      if (this.anchors[later] === -1 || earlier < this.anchors[later]!) {
+        this.anchors[later] = earlier;
+      }
+    }
+  }
+
+  private search(
+    molecule: Molecule,
+    context: MatchContext,
+    firstAtom: number | null,
+    onMatch: (mapping: number[]) => boolean
+  ): void {
+    const size = this.atoms.length;
+    if (size === 0) return;
+    const mapping: number[] = new Array(size).fill(-1);
+    const used = new Set<number>();
+    const allAtoms = molecule.atoms.map(atom => atom.index);
+
+    const assign = (queryIndex: number): boolean => {
+      if (queryIndex === size) {
+        return onMatch(mapping);
+      }
+
+      const anchor = this.anchors[queryIndex]!;
+      let candidates: number[];
+      if (queryIndex === 0 && firstAtom !== null) {
+        candidates = [firstAtom];
+      } else if (anchor >= 0) {
+        candidates = molecule.neighbors(mapping[anchor]!);
+      } else {
+        candidates = allAtoms;
+      }
+
+      for (const candidate of candidates) {
+        if (used.has(candidate)) continue;
+        if (!evaluate(this.atoms[queryIndex]!.expression, { molecule, context, index: candidate })) continue;
+
+        const bondsMatch = this.earlierBonds[queryIndex]!.every(queryBond => {
+          const other = queryBond.begin === queryIndex ? queryBond.end : queryBond.begin;
+          const targetBond = molecule.getBond(candidate, mapping[other]!);
+          return targetBond !== undefined && evaluate(queryBond.expression, { bond: targetBond, context });
+        });
+        if (!bondsMatch) continue;
+
+        mapping[queryIndex] = candidate;
+        used.add(candidate);
+        const keepGoing = assign(queryIndex + 1);
+        used.delete(candidate);
+        mapping[queryIndex] = -1;
+        if (!keepGoing) return false;
+      }
+      return true;
+    };
+
+    assign(0);
+  }
+}
+
+export function parseSmarts(smarts: string): SmartsPattern {
+  return new SmartsPattern(smarts);
+}
+
+/**
+ * Recursive-descent reader that fills the query atom and bond lists
+ */
+class SmartsReader {
+  private position = 0;
+
+  constructor(
+    private readonly smarts: string,
+    private readonly atoms: QueryAtom[],
+    private readonly bonds: QueryBond[]
+  ) {}
+
+  public read(): void {
+    if (this.smarts.trim().length === 0) {
+      throw new SmartsParseError('Empty SMARTS pattern', 0);
+    }
+
+    const branchStack: number[] = [];
+    const ringClosures = new Map<number, { atom: number; bond: Expression<BondTarget> | null }>();
+    let previous = -1;
+    let pendingBond: Expression<BondTarget> | null = null;
+
+    while (this.position < this.smarts.length) {
+      const char = this.smarts[this.position]!;
+
+      if (char === '(') {
+        if (previous < 0) throw new SmartsParseError('Branch without preceding atom', this.position);
+        branchStack.push(previous);
+        this.position++;
+      } else if (char === ')') {
+        if (branchStack.length === 0) throw new SmartsParseError('Unmatched closing parenthesis', this.position);
+        previous = branchStack.pop()!;
+        this.position++;
+      } else if (char === '.') {
+        previous = -1;
+        pendingBond = null;
+        this.position++;
+      } else if (BOND_CHARACTERS.includes(char)) {
+        const start = this.position;
+        while (this.position < this.smarts.length && BOND_CHARACTERS.includes(this.smarts[this.position]!)) {
+          this.position++;
+        }
+        pendingBond = new ExpressionReader(this.smarts.slice(start, this.position), start, parseBondPrimitive).read();
+      } else if (/[0-9%]/.test(char)) {
+        if (previous < 0) throw new SmartsParseError('Ring closure without preceding atom', this.position);
+        const label = this.readRingLabel();
+        const open = ringClosures.get(label);
+        if (open) {
+          if (open.atom === previous) throw new SmartsParseError('Ring closure to the same atom', this.position);
+          this.bonds.push({ begin: open.atom, end: previous, expression: pendingBond ?? open.bond ?? defaultBond() });
+          ringClosures.delete(label);
+        } else {
+          ringClosures.set(label, { atom: previous, bond: pendingBond });
+        }
+        pendingBond = null;
+      } else {
+        const atom = this.atoms.length;
+        this.atoms.push(this.readAtom());
+        if (previous >= 0) {
+          this.bonds.push({ begin: previous, end: atom, expression: pendingBond ?? defaultBond() });
+        } else if (pendingBond) {
+          throw new SmartsParseError('Bond without preceding atom', this.position);
+        }
+        pendingBond = null;
+        previous = atom;
+      }
+    }
+
+    if (branchStack.length > 0) throw new SmartsParseError('Unclosed branch', this.smarts.length);
+    if (ringClosures.size > 0) throw new SmartsParseError(`Unclosed ring ${ringClosures.keys().next().value}`, this.smarts.length);
+    if (pendingBond) throw new SmartsParseError('Dangling bond', this.smarts.length);
+  }
+
+  private readRingLabel(): number {
+    if (this.smarts[this.position] === '%') {
+      const digits = this.smarts.slice(this.position + 1, this.position + 3);
+      if (!/^\d\d$/.test(digits)) throw new SmartsParseError('Invalid ring label', this.position);
+      this.position += 3;
+      return parseInt(digits, 10);
+    }
+    return parseInt(this.smarts[this.position++]!, 10);
+  }
+
+  private readAtom(): QueryAtom {
+    const start = this.position;
+    const char = this.smarts[this.position]!;
+
+    if (char === '[') {
+      const end = findClosingBracket(this.smarts, this.position);
+      if (end < 0) throw new SmartsParseError('Unclosed bracket atom', this.position);
+      const content = this.smarts.slice(this.position + 1, end);
+      this.position = end + 1;
+      const expression = new ExpressionReader(content, start + 1, parseAtomPrimitive).read();
+      const map = /:(\d+)$/.exec(content);
+      return map ? { expression, map: parseInt(map[1]!, 10) } : { expression };
+    }
+
+    if (char === '*') {
+      this.position++;
+      return { expression: primitive(() => true) };
+    }
+    if (char === 'a' || char === 'A') {
+      this.position++;
+      return { expression: aromaticityPrimitive(char === 'a') };
+    }
+
+    const organic = ORGANIC_SYMBOLS.find(symbol => this.smarts.startsWith(symbol, this.position));
+    if (organic) {
+      this.position += organic.length;
+      return { expression: elementPrimitive(organic, false) };
+    }
+    const aromatic = ['c', 'n', 'o', 's', 'p', 'b'].find(symbol => this.smarts[this.position] === symbol);
+    if (aromatic) {
+      this.position++;
+      return { expression: elementPrimitive(aromatic.toUpperCase(), true) };
+    }
+
+    throw new SmartsParseError(`Unexpected character "${char}"`, start);
+  }
+}
+
+type PrimitiveParser<T> = (reader: ExpressionReader<T>) => Expression<T>;
+
+/**
+ * Logical expression reader: '!' binds tightest, then '&' or adjacency, then ',', then ';'
+ */
+class ExpressionReader<T> {
+  public position = 0;
+  public isFirstPrimitive = true;
+
+  constructor(
+    public readonly text: string,
+    public readonly offset: number,
+    private readonly parsePrimitive: PrimitiveParser<T>
+  ) {}
+
+  public read(): Expression<T> {
+    if (this.text.length === 0) {
+      throw new SmartsParseError('Empty expression', this.offset);
+    }
+    const expression = this.readLowAnd();
+    if (this.position < this.text.length) {
+      throw this.error(`Unexpected "${this.text[this.position]}"`);
+    }
+    return expression;
+  }
+
+  public peek(): string {
+    return this.text[this.position] ?? '';
+  }
+
+  public readNumber(): number | null {
+    const match = /^\d+/.exec(this.text.slice(this.position));
+    if (!match) return null;
+    this.position += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  public error(message: string): SmartsParseError {
+    return new SmartsParseError(message, this.offset + this.position);
+  }
+
+  private readLowAnd(): Expression<T> {
+    const children = [this.readOr()];
+    while (this.peek() === ';') {
+      this.position++;
+      children.push(this.readOr());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'and', children };
+  }
+
+  private readOr(): Expression<T> {
+    const children = [this.readHighAnd()];
+    while (this.peek() === ',') {
+      this.position++;
+      children.push(this.readHighAnd());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'or', children };
+  }
+
+  private readHighAnd(): Expression<T> {
+    const children = [this.readUnary()];
+    while (this.position < this.text.length && this.peek() !== ',' && this.peek() !== ';') {
+      if (this.peek() === '&') this.position++;
+      children.push(this.readUnary());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'and', children };
+  }
+
+  private readUnary(): Expression<T> {
+    if (this.peek() === '!') {
+      this.position++;
+      return { kind: 'not', child: this.readUnary() };
+    }
+    if (this.position >= this.text.length) {
+      throw this.error('Expression ends unexpectedly');
+    }
+    const expression = this.parsePrimitive(this);
+    this.isFirstPrimitive = false;
+    return expression;
+  }
+}
+
+function parseBondPrimitive(reader: ExpressionReader<BondTarget>): Expression<BondTarget> {
+  const char = reader.peek();
+  reader.position++;
+  switch (char) {
+    case '-':
+    case '/':
+    case '\\':
+      return { kind: 'primitive', test: ({ bond }) => !bond.aromatic && bond.order === 1, bondClass: 's' };
+    case '=':
+      return { kind: 'primitive', test: ({ bond }) => !bond.aromatic && bond.order === 2, bondClass: 'd' };
+    case '#':
+      return { kind: 'primitive', test: ({ bond }) => !bond.aromatic && bond.order === 3, bondClass: 't' };
+    case ':':
+      return { kind: 'primitive', test: ({ bond }) => bond.aromatic, bondClass: 's' };
+    case '~':
+      return primitive(() => true);
+    case '@':
+      return primitive(({ bond, context }) => context.ringBonds.has(bond.index));
+    default:
+      reader.position--;
+      throw reader.error(`Unexpected bond symbol "${char}"`);
+  }
+}
+
+function parseAtomPrimitive(reader: ExpressionReader<AtomTarget>): Expression<AtomTarget> {
+  const rest = reader.text.slice(reader.position);
+  const char = rest[0]!;
+
+  if (/\d/.test(char)) {
+    const isotope = reader.readNumber()!;
+    return primitive(target => target.molecule.atoms[target.index]!.isotope === isotope);
+  }
+
+  if (char === '$') {
+    if (rest[1] !== '(') throw reader.error('Expected "(" after "$"');
+    const end = findClosingParenthesis(reader.text, reader.position + 1);
+    if (end < 0) throw reader.error('Unclosed recursive SMARTS');
+    const inner = reader.text.slice(reader.position + 2, end);
+    let pattern: SmartsPattern;
+    try {
+      pattern = new SmartsPattern(inner);
+    } catch (error) {
+      throw reader.error(`Invalid recursive SMARTS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    reader.position = end + 1;
+    return primitive(target => pattern.matchesAt(target.molecule, target.index));
+  }
+
+  if (char === '#') {
+    reader.position++;
+    const atomicNumber = reader.readNumber();
+    if (atomicNumber === null) throw reader.error('Expected atomic number after "#"');
+    // #0 is the dummy atom written * in SMILES
+    const element = atomicNumber === 0 ? '*' : ELEMENTS_BY_NUMBER[atomicNumber - 1];
+    if (!element) throw reader.error(`Unknown atomic number ${atomicNumber}`);
+    return { kind: 'primitive', test: target => target.molecule.atoms[target.index]!.element === element, element };
+  }
+
+  if (char === '*') {
+    reader.position++;
+    return primitive(() => true);
+  }
+
+  if (char === '+' || char === '-') {
+    reader.position++;
+    let magnitude = 1;
+    const explicit = reader.readNumber();
+    if (explicit !== null) {
+      magnitude = explicit;
+    } else {
+      while (reader.peek() === char) {
+        magnitude++;
+        reader.position++;
+      }
+    }
+    const charge = char === '+' ? magnitude : -magnitude;
+    return primitive(target => target.molecule.atoms[target.index]!.charge === charge);
+  }
+
+  if (char === '@') {
+    // Chirality is not perceived on the graph; stereo specifications match any atom
+    reader.position++;
+    if (reader.peek() === '@') reader.position++;
+    const tag = /^(TH|AL|SP|TB|OH)\d*/.exec(reader.text.slice(reader.position));
+    if (tag) reader.position += tag[0].length;
+    if (reader.peek() === '?') reader.position++;
+    return primitive(() => true);
+  }
+
+  if (char === ':') {
+    // Atom map numbers do not constrain the match
+    reader.position++;
+    reader.readNumber();
+    return primitive(() => true);
+  }
+
+  if (char === 'H' && reader.isFirstPrimitive && /^H([+\-\]]|$)/.test(rest)) {
+    reader.position++;
+    return elementPrimitive('H', false);
+  }
+
+  if (/[A-Z]/.test(char)) {
+    const twoLetter = rest.slice(0, 2);
+    if (twoLetter.length === 2 && /[a-z]/.test(twoLetter[1]!) && KNOWN_ELEMENTS.has(twoLetter)) {
+      reader.position += 2;
+      return elementPrimitive(twoLetter, false);
+    }
+    if ('DXHR'.includes(char)) {
+      reader.position++;
+      const value = reader.readNumber();
+      return countPrimitive(char, value);
+    }
+    if (KNOWN_ELEMENTS.has(char)) {
+      reader.position++;
+      return elementPrimitive(char, false);
+    }
+    if (char === 'A') {
+      reader.position++;
+      return aromaticityPrimitive(false);
+    }
+    throw reader.error(`Unknown atom primitive "${char}"`);
+  }
+
+  const aromaticSymbol = AROMATIC_SYMBOLS.find(symbol => rest.startsWith(symbol));
+  if (aromaticSymbol) {
+    reader.position += aromaticSymbol.length;
+    return elementPrimitive(aromaticSymbol[0]!.toUpperCase() + aromaticSymbol.slice(1), true);
+  }
+
+  if ('ahrxv'.includes(char)) {
+    reader.position++;
+    if (char === 'a') return aromaticityPrimitive(true);
+    return countPrimitive(char, reader.readNumber());
+  }
+
+  throw reader.error(`Unknown atom primitive "${char}"`);
+}
+
+function countPrimitive(symbol: string, value: number | null): Expression<AtomTarget> {
+  const atom = (target: AtomTarget) => target.molecule.atoms[target.index]!;
+
+  switch (symbol) {
+    case 'D':
+      return primitive(target => target.molecule.degree(target.index) === (value ?? 1));
+    case 'X':
+      return primitive(target => target.molecule.degree(target.index) + atom(target).implicitHydrogens === (value ?? 1));
+    case 'H':
+      return primitive(target => target.molecule.hydrogenCount(target.index) === (value ?? 1));
+    case 'h':
+      return primitive(target => value === null
+        ? atom(target).implicitHydrogens > 0
+        : atom(target).implicitHydrogens === value);
+    case 'R':
+      return primitive(target => {
+        const count = target.context.ringMembership[target.index]!;
+        return value === null ? count > 0 : count === value;
+      });
+    case 'r':
+      return primitive(target => {
+        const sizes = target.context.ringSizes[target.index]!;
+        return value === null ? sizes.length > 0 : sizes.includes(value);
+      });
+    case 'x':
+      return primitive(target => {
+        const count = target.context.ringBondCount[target.index]!;
+        return value === null ? count > 0 : count === value;
+      });
+    case 'v':
+      return primitive(target => target.molecule.totalValence(target.index) === (value ?? 1));
+    default:
+      throw new SmartsParseError(`Unknown count primitive ${symbol}`, 0);
+  }
+}
+
+function elementPrimitive(element: string, aromatic: boolean | null): Expression<AtomTarget> {
+  return {
+    kind: 'primitive',
+    element,
+    test: target => {
+      const atom = target.molecule.atoms[target.index]!;
+      return atom.element === element && (aromatic === null || atom.aromatic === aromatic);
+    },
+  };
+}
+
+function aromaticityPrimitive(aromatic: boolean): Expression<AtomTarget> {
+  return primitive(target => target.molecule.atoms[target.index]!.aromatic === aromatic);
+}
+
+function primitive<T>(test: (value: T) => boolean): Expression<T> {
+  return { kind: 'primitive', test };
+}
+
+function defaultBond(): Expression<BondTarget> {
+  return { kind: 'primitive', test: ({ bond }) => bond.aromatic || bond.order === 1, bondClass: 's' };
+}
+
+function evaluate<T>(expression: Expression<T>, value: T): boolean {
+  switch (expression.kind) {
+    case 'primitive':
+      return expression.test(value);
+    case 'not':
+      return !evaluate(expression.child, value);
+    case 'and':
+      return expression.children.every(child => evaluate(child, value));
+    case 'or':
+      return expression.children.some(child => evaluate(child, value));
+  }
+}
+
+function expressionElement(expression: Expression<AtomTarget>): string | null {
+  switch (expression.kind) {
+    case 'primitive':
+      return expression.element ?? null;
+    case 'not':
+      return null;
+    case 'and':
+      return expression.children.map(expressionElement).find(element => element !== null) ?? null;
+    case 'or': {
+      const elements = expression.children.map(expressionElement);
+      return elements.every(element => element !== null && element === elements[0]) ? elements[0]! : null;
+    }
+  }
+}
+
+function expressionBondClass(expression: Expression<BondTarget>): ScreeningBondClass | null {
+  switch (expression.kind) {
+    case 'primitive':
+      return expression.bondClass ?? null;
+    case 'not':
+      return null;
+    case 'and':
+      return expression.children.map(expressionBondClass).find(bondClass => bondClass !== null) ?? null;
+    case 'or': {
+      const classes = expression.children.map(expressionBondClass);
+      return classes.every(bondClass => bondClass !== null && bondClass === classes[0]) ? classes[0]! : null;
+    }
+  }
+}
+
+function getContext(molecule: Molecule): MatchContext {
+  let context = contextCache.get(molecule);
+  if (!context) {
+    const rings = molecule.getRings();
+    const ringMembership = molecule.atoms.map(() => 0);
+    const ringSizes: number[][] = molecule.atoms.map(() => []);
+    const ringBonds = new Set<number>();
+
+    for (const ring of rings) {
+      ring.forEach((atom, i) => {
+        ringMembership[atom]!++;
+        ringSizes[atom]!.push(ring.length);
+        const bond = molecule.getBond(atom, ring[(i + 1) % ring.length]!);
+        if (bond) ringBonds.add(bond.index);
+      });
+    }
+
+    const ringBondCount = molecule.atoms.map(atom =>
+      molecule.bondsOf(atom.index).filter(bond => ringBonds.has(bond.index)).length
+    );
+
+    context = { ringMembership, ringSizes, ringBondCount, ringBonds, recursive: new Map() };
+    contextCache.set(molecule, context);
+  }
+  return context;
+}
+
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '[') depth++;
+    else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function findClosingParenthesis(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,516 @@
+import { Atom, Bond, BondOrder, Molecule, MoleculeError, getAllowedValences } from './Molecule';
+
+export class SmilesParseError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'SmilesParseError';
+    this.position = position;
+  }
+}
+
+export interface SmilesValidationResult {
+  valid: boolean;
+  errors: string[];
+  molecule?: Molecule;
+}
+
+// Organic subset atoms that may be written without brackets
+const ORGANIC_SUBSET = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const AROMATIC_ORGANIC = ['b', 'c', 'n', 'o', 'p', 's'];
+const AROMATIC_BRACKET = ['se', 'as', 'te', 'si', 'b', 'c', 'n', 'o', 'p', 's'];
+
+const BOND_SYMBOLS: Record<string, BondOrder> = {
+  '-': 1,
+  '=': 2,
+  '#': 3,
+  '$': 4,
+  ':': 1,
+  '/': 1,
+  '\\': 1,
+};
+
+interface PendingBond {
+  symbol?: string;
+  position: number;
+}
+
+interface RingOpening {
+  atom: number;
+  symbol?: string;
+  position: number;
+  stereoSlot?: number; // Slot reserved in the opening atom's stereo neighbour list
+  reopens?: string; // Bond symbol of the same-label ring bond this atom closed just before
+}
+
+/**
+ * Parser for OpenSMILES strings covering the organic subset, bracket atoms,
+ * aromaticity, ring closures (including %nn), branches, charges, isotopes,
+ * atom classes, tetrahedral and double-bond stereo markers
+ */
+export class SmilesParser {
+  private smiles = '';
+  private position = 0;
+  private atoms: Atom[] = [];
+  private bonds: Bond[] = [];
+  private ringOpenings: Map<number, RingOpening> = new Map();
+  private ringClosures: Map<number, { atom: number; symbol: string }> = new Map();
+
+  /**
+   * Parses a SMILES string into a kekulized molecule with perceived aromaticity
+   */
+  public parse(smiles: string): Molecule {
+    this.reset(smiles.trim());
+
+    if (this.smiles.length === 0) {
+      throw new SmilesParseError('Empty SMILES string', 0);
+    }
+    if (/\s/.test(this.smiles)) {
+      throw new SmilesParseError('Whitespace is not allowed inside SMILES', this.smiles.search(/\s/));
+    }
+
+    this.parseChain();
+
+    if (this.ringOpenings.size > 0) {
+      const [label, opening] = this.ringOpenings.entries().next().value as [number, RingOpening];
+      if (opening.reopens !== undefined && opening.reopens !== (opening.symbol ?? '-')) {
+        throw new SmilesParseError(
+          `Ring bond ${label} is reopened with bond order '${opening.symbol ?? '-'}' on the atom ` +
+          `that closed it with '${opening.reopens}'`,
+          opening.position
+        );
+      }
+      throw new SmilesParseError(`Unclosed ring bond ${label}`, opening.position);
+    }
+
+    const molecule = new Molecule(this.atoms, this.bonds);
+    this.checkAromaticAtomsInRings(molecule);
+
+    // Implicit bonds between aromatic atoms of different rings are single bonds
+    for (const bond of molecule.bonds) {
+      if (bond.aromatic && !molecule.isBondInRing(bond)) {
+        bond.aromatic = false;
+      }
+    }
+    this.assignImplicitHydrogens();
+
+    try {
+      molecule.kekulize();
+    } catch (error) {
+      if (error instanceof MoleculeError) {
+        throw new SmilesParseError(`${error.message} (aromatic atoms need [nH] or explicit hydrogens)`, 0);
+      }
+      throw error;
+    }
+    molecule.perceiveAromaticity();
+
+    return molecule;
+  }
+
+  /**
+   * Full structural validation: syntax, ring closures, aromaticity and valences
+   */
+  public validate(smiles: string): SmilesValidationResult {
+    let molecule: Molecule;
+    try {
+      molecule = this.parse(smiles);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [error instanceof Error ? error.message : 'Unknown parse error'],
+      };
+    }
+
+    const errors: string[] = [];
+    for (const atom of molecule.atoms) {
+      const valences = getAllowedValences(atom.element, atom.charge);
+      if (!valences) continue;
+
+      const valence = molecule.totalValence(atom.index);
+      if (!valences.includes(valence)) {
+        errors.push(
+          `Atom ${atom.index + 1} (${atom.element}${formatCharge(atom.charge)}) has valence ${valence}, ` +
+          `expected ${valences.join(' or ')}`
+        );
+        continue;
+      }
+
+      // Implicit hydrogens would round a neutral four-bonded nitrogen up to valence 5, as in
+      // N(C)(C)(C)C, which is an ammonium ion written without its charge
+      const bonded = valence - atom.implicitHydrogens;
+      if (atom.element === 'N' && !atom.bracket && atom.charge === 0 && bonded === 4 && atom.implicitHydrogens > 0) {
+        errors.push(
+          `Atom ${atom.index + 1} (N) has 4 bonds, more than its default valence 3; give it an explicit charge`
+        );
+      }
+    }
+
+    return errors.length === 0
+      ? { valid: true, errors, molecule }
+      : { valid: false, errors };
+  }
+
+  private reset(smiles: string): void {
+    this.smiles = smiles;
+    this.position = 0;
+    this.atoms = [];
+    this.bonds = [];
+    this.ringOpenings = new Map();
+    this.ringClosures = new Map();
+  }
+
+  private peek(offset: number = 0): string {
+    return this.smiles.charAt(this.position + offset);
+  }
+
+  private parseChain(): void {
+    const branchStack: number[] = [];
+    let previous: number | null = null;
+    let pendingBond: PendingBond | null = null;
+    let componentStart = true;
+
+    while (this.position < this.smiles.length) {
+      const char = this.peek();
+
+      if (char === '(') {
+        if (previous === null) {
+          throw new SmilesParseError('Branch cannot start before an atom', this.position);
+        }
+        if (pendingBond) {
+          throw new SmilesParseError('Bond symbol before branch', pendingBond.position);
+        }
+        branchStack.push(previous);
+        this.position++;
+        if (this.peek() === ')') {
+          throw new SmilesParseError('Empty branch', this.position);
+        }
+        continue;
+      }
+
+      if (char === ')') {
+        if (branchStack.length === 0) {
+          throw new SmilesParseError('Unmatched closing parenthesis', this.position);
+        }
+        if (pendingBond) {
+          throw new SmilesParseError('Dangling bond at end of branch', pendingBond.position);
+        }
+        previous = branchStack.pop()!;
+        this.position++;
+        continue;
+      }
+
+      if (char === '.') {
+        if (pendingBond) {
+          throw new SmilesParseError('Bond symbol before dot', pendingBond.position);
+        }
+        if (branchStack.length > 0) {
+          throw new SmilesParseError('Dot disconnection inside a branch', this.position);
+        }
+        if (componentStart) {
+          throw new SmilesParseError('Empty component', this.position);
+        }
+        previous = null;
+        componentStart = true;
+        this.position++;
+        continue;
+      }
+
+      if (char in BOND_SYMBOLS) {
+        if (pendingBond) {
+          throw new SmilesParseError('Two consecutive bond symbols', this.position);
+        }
+        if (previous === null) {
+          throw new SmilesParseError('Bond symbol without a preceding atom', this.position);
+        }
+        pendingBond = { symbol: char, position: this.position };
+        this.position++;
+        continue;
+      }
+
+      if (/[0-9%]/.test(char)) {
+        if (previous === null) {
+          throw new SmilesParseError('Ring bond without a preceding atom', this.position);
+        }
+        this.parseRingBond(previous, pendingBond);
+        pendingBond = null;
+        continue;
+      }
+
+      const atomIndex = this.parseAtom();
+      if (previous !== null) {
+        this.connect(previous, atomIndex, pendingBond?.symbol, pendingBond?.position ?? this.position);
+      } else if (pendingBond) {
+        throw new SmilesParseError('Bond symbol without a preceding atom', pendingBond.position);
+      }
+      pendingBond = null;
+      previous = atomIndex;
+      componentStart = false;
+    }
+
+    if (pendingBond) {
+      throw new SmilesParseError('SMILES ends with a bond symbol', pendingBond.position);
+    }
+    if (branchStack.length > 0) {
+      throw new SmilesParseError('Unclosed branch', this.smiles.length);
+    }
+    if (componentStart) {
+      throw new SmilesParseError('SMILES ends with an empty component', this.smiles.length);
+    }
+  }
+
+  private parseRingBond(atomIndex: number, pendingBond: PendingBond | null): void {
+    const start = this.position;
+    let label: number;
+
+    if (this.peek() === '%') {
+      const digits = this.smiles.substr(this.position + 1, 2);
+      if (!/^\d\d$/.test(digits)) {
+        throw new SmilesParseError('Ring bond % must be followed by two digits', start);
+      }
+      label = parseInt(digits, 10);
+      this.position += 3;
+    } else {
+      label = parseInt(this.peek(), 10);
+      this.position++;
+    }
+
+    const opening = this.ringOpenings.get(label);
+    if (!opening) {
+      const atom = this.atoms[atomIndex]!;
+      const ringOpening: RingOpening = {
+        atom: atomIndex,
+        position: start,
+        ...(pendingBond?.symbol !== undefined && { symbol: pendingBond.symbol }),
+      };
+      const closure = this.ringClosures.get(label);
+      if (closure?.atom === atomIndex) {
+        ringOpening.reopens = closure.symbol;
+      }
+      if (atom.stereoNeighbors) {
+        ringOpening.stereoSlot = atom.stereoNeighbors.length;
+        atom.stereoNeighbors.push(-2);
+      }
+      this.ringOpenings.set(label, ringOpening);
+      return;
+    }
+
+    this.ringOpenings.delete(label);
+    if (opening.atom === atomIndex) {
+      throw new SmilesParseError(`Ring bond ${label} closes on the same atom`, start);
+    }
+
+    const closingSymbol = pendingBond?.symbol;
+    if (opening.symbol && closingSymbol && !sameRingBond(opening.symbol, closingSymbol)) {
+      throw new SmilesParseError(`Conflicting bond symbols for ring bond ${label}`, start);
+    }
+
+    // Direction markers are relative to the writing order at each end
+    let symbol = closingSymbol ?? opening.symbol;
+    if (!closingSymbol && opening.symbol && (opening.symbol === '/' || opening.symbol === '\\')) {
+      symbol = opening.symbol === '/' ? '\\' : '/';
+    }
+
+    const openingAtom = this.atoms[opening.atom]!;
+    if (openingAtom.stereoNeighbors && opening.stereoSlot !== undefined) {
+      openingAtom.stereoNeighbors[opening.stereoSlot] = atomIndex;
+    }
+    this.ringClosures.set(label, { atom: atomIndex, symbol: symbol ?? '-' });
+    this.connect(atomIndex, opening.atom, symbol, start);
+  }
+
+  private connect(from: number, to: number, symbol: string | undefined, position: number): void {
+    if (this.bonds.some(bond =>
+      (bond.begin === from && bond.end === to) || (bond.begin === to && bond.end === from))) {
+      throw new SmilesParseError('Duplicate bond between the same atoms', position);
+    }
+
+    const fromAtom = this.atoms[from]!;
+    const toAtom = this.atoms[to]!;
+    const aromatic = symbol === ':' || (symbol === undefined && fromAtom.aromatic && toAtom.aromatic);
+    const order: BondOrder = symbol ? BOND_SYMBOLS[symbol]! : 1;
+
+    const bond: Bond = { index: this.bonds.length, begin: from, end: to, order, aromatic };
+    if (symbol === '/' || symbol === '\\') {
+      bond.direction = symbol;
+    }
+    this.bonds.push(bond);
+
+    if (toAtom.stereoNeighbors && !toAtom.stereoNeighbors.includes(from)) {
+      toAtom.stereoNeighbors.unshift(from);
+    }
+    if (fromAtom.stereoNeighbors && !fromAtom.stereoNeighbors.includes(to)) {
+      fromAtom.stereoNeighbors.push(to);
+    }
+  }
+
+  private parseAtom(): number {
+    const start = this.position;
+    const char = this.peek();
+
+    if (char === '[') {
+      return this.parseBracketAtom();
+    }
+
+    if (char === '*') {
+      this.position++;
+      return this.pushAtom({ element: '*', aromatic: false, bracket: false }, start);
+    }
+
+    const twoLetter = this.smiles.substr(this.position, 2);
+    if (twoLetter === 'Cl' || twoLetter === 'Br') {
+      this.position += 2;
+      return this.pushAtom({ element: twoLetter, aromatic: false, bracket: false }, start);
+    }
+
+    if (ORGANIC_SUBSET.includes(char)) {
+      this.position++;
+      return this.pushAtom({ element: char, aromatic: false, bracket: false }, start);
+    }
+
+    if (AROMATIC_ORGANIC.includes(char)) {
+      this.position++;
+      return this.pushAtom({ element: char.toUpperCase(), aromatic: true, bracket: false }, start);
+    }
+
+    if (/[A-Za-z]/.test(char)) {
+      throw new SmilesParseError(`Unknown or unbracketed element '${char}'`, start);
+    }
+    throw new SmilesParseError(`Unexpected character '${char}'`, start);
+  }
+
+  private parseBracketAtom(): number {
+    const start = this.position;
+    const close = this.smiles.indexOf(']', start);
+    if (close === -1) {
+      throw new SmilesParseError('Unclosed bracket atom', start);
+    }
+
+    const content = this.smiles.substring(start + 1, close);
+    const match = /^(\d+)?(\*|[A-Z][a-z]?|se|as|te|si|[bcnops])(@@|@(?:TH[12]|AL[12]|SP[1-3]|TB\d{1,2}|OH\d{1,2})?)?(H\d?)?((?:[+-]\d+)|\+{1,3}|-{1,3})?(?::(\d+))?$/.exec(content);
+    if (!match) {
+      throw new SmilesParseError(`Invalid bracket atom [${content}]`, start);
+    }
+
+    const [, isotope, symbol = '', chirality, hydrogens, charge, atomClass] = match;
+    const aromatic = symbol === symbol.toLowerCase() && symbol !== '*';
+    if (aromatic && !AROMATIC_BRACKET.includes(symbol)) {
+      throw new SmilesParseError(`Element '${symbol}' cannot be aromatic`, start);
+    }
+
+    const element = aromatic ? symbol.charAt(0).toUpperCase() + symbol.slice(1) : symbol;
+    if (element !== '*' && !KNOWN_ELEMENTS.has(element)) {
+      throw new SmilesParseError(`Unknown element '${element}'`, start);
+    }
+
+    this.position = close + 1;
+
+    const atom: Omit<Atom, 'index'> = {
+      element,
+      aromatic,
+      bracket: true,
+      charge: parseCharge(charge),
+      implicitHydrogens: hydrogens ? (hydrogens.length > 1 ? parseInt(hydrogens.slice(1), 10) : 1) : 0,
+    };
+    if (isotope) atom.isotope = parseInt(isotope, 10);
+    if (atomClass) atom.atomClass = parseInt(atomClass, 10);
+    if (chirality === '@' || chirality === '@@' || chirality === '@TH1' || chirality === '@TH2') {
+      atom.chirality = chirality === '@' || chirality === '@TH1' ? '@' : '@@';
+      atom.stereoNeighbors = atom.implicitHydrogens > 0 ? [-1] : [];
+    }
+
+    return this.pushAtom(atom, start);
+  }
+
+  private pushAtom(atom: Partial<Atom> & Pick<Atom, 'element' | 'aromatic' | 'bracket'>, position: number): number {
+    const index = this.atoms.length;
+    if (index > 10000) {
+      throw new SmilesParseError('Molecule exceeds 10000 atoms', position);
+    }
+    this.atoms.push({
+      charge: 0,
+      implicitHydrogens: 0,
+      ...atom,
+      index,
+    });
+    return index;
+  }
+
+  /**
+   * Organic-subset atoms take the lowest normal valence that fits their bonds;
+   * aromatic atoms use their lowest valence and reserve one for the pi system
+   */
+  private assignImplicitHydrogens(): void {
+    for (const atom of this.atoms) {
+      if (atom.bracket || atom.element === '*') continue;
+
+      const bondSum = this.bonds
+        .filter(bond => bond.begin === atom.index || bond.end === atom.index)
+        .reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+      const valences = getAllowedValences(atom.element) || [];
+      if (atom.aromatic) {
+        atom.implicitHydrogens = Math.max(0, (valences[0] ?? 0) - 1 - bondSum);
+        continue;
+      }
+      const target = valences.find(v => v >= bondSum);
+      atom.implicitHydrogens = target === undefined ? 0 : target - bondSum;
+    }
+  }
+
+  private checkAromaticAtomsInRings(molecule: Molecule): void {
+    for (const atom of molecule.atoms) {
+      if (atom.aromatic && !molecule.isInRing(atom.index)) {
+        throw new SmilesParseError(`Aromatic atom ${atom.element.toLowerCase()} is not in a ring`, 0);
+      }
+    }
+  }
+}
+
+export const KNOWN_ELEMENTS = new Set([
+  'H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F', 'Ne', 'Na', 'Mg', 'Al', 'Si', 'P', 'S', 'Cl', 'Ar',
+  'K', 'Ca', 'Sc', 'Ti', 'V', 'Cr', 'Mn', 'Fe', 'Co', 'Ni', 'Cu', 'Zn', 'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr',
+  'Rb', 'Sr', 'Y', 'Zr', 'Nb', 'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In', 'Sn', 'Sb', 'Te', 'I', 'Xe',
+  'Cs', 'Ba', 'La', 'Ce', 'Pr', 'Nd', 'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb', 'Lu',
+  'Hf', 'Ta', 'W', 'Re', 'Os', 'Ir', 'Pt', 'Au', 'Hg', 'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn',
+  'Fr', 'Ra', 'Ac', 'Th', 'Pa', 'U', 'Np', 'Pu', 'Am', 'Cm', 'Bk', 'Cf', 'Es', 'Fm', 'Md', 'No', 'Lr',
+  'Rf', 'Db', 'Sg', 'Bh', 'Hs', 'Mt', 'Ds', 'Rg', 'Cn', 'Nh', 'Fl', 'Mc', 'Lv', 'Ts', 'Og',
+]);
+
+function parseCharge(charge: string | undefined): number {
+  if (!charge) return 0;
+  const sign = charge.startsWith('-') ? -1 : 1;
+  if (/\d/.test(charge)) {
+    return sign * parseInt(charge.slice(1), 10);
+  }
+  return sign * charge.length;
+}
+
+function formatCharge(charge: number): string {
+  if (charge === 0) return '';
+  const sign = charge > 0 ? '+' : '-';
+  return Math.abs(charge) === 1 ? sign : `${sign}${Math.abs(charge)}`;
+}
+
+function sameRingBond(a: string, b: string): boolean {
+  // '/' at one end and '\' at the other describe the same direction
+  if ((a === '/' || a === '\\') && (b === '/' || b === '\\')) {
+    return a !== b;
+  }
+  return a === b;
+}
+
+const defaultParser = new SmilesParser();
+
+/**
+ * Parses a SMILES string, throwing SmilesParseError on invalid input
+ */
+export function parseSmiles(smiles: string): Molecule {
+  return defaultParser.parse(smiles);
+}
+
+/**
+ * Validates SMILES syntax, ring closures, aromaticity and atom valences
+ */
+export function validateSmiles(smiles: string): SmilesValidationResult {
+  return defaultParser.validate(smiles);
+}
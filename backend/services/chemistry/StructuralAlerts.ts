@@ -0,0 +1,170 @@
+import { Molecule } from './Molecule';
+import { SmartsPattern, parseSmarts } from './Smarts';
+
+export type AlertCategory = 'pains' | 'brenk' | 'mutagenicity' | 'hepatotoxicity';
+export type AlertSeverity = 'low' | 'medium' | 'high';
+
+export interface StructuralAlert {
+  id: string;
+  name: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  /** The alert fires if any of these patterns matches */
+  smarts: string[];
+  reference: string;
+}
+
+export interface StructuralAlertHit {
+  id: string;
+  name: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  reference: string;
+  /** Atom indices of each match in the parsed molecule */
+  atoms: number[][];
+}
+
+export class StructuralAlertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuralAlertError';
+  }
+}
+
+const PAINS = 'Baell & Holloway, J. Med. Chem. 2010, 53, 2719-2740';
+const BRENK = 'Brenk et al., ChemMedChem 2008, 3, 435-444';
+const KAZIUS = 'Kazius et al., J. Med. Chem. 2005, 48, 312-320';
+const BENIGNI = 'Benigni & Bossa, Mutat. Res. 2008, 659, 248-261';
+const STEPAN = 'Stepan et al., Chem. Res. Toxicol. 2011, 24, 1345-1410';
+
+export const BUILT_IN_ALERTS: StructuralAlert[] = [
+  // PAINS families
+  { id: 'pains_catechol', name: 'Catechol (catechol_A)', category: 'pains', severity: 'medium', smarts: ['c([OH1])c[OH1]'], reference: PAINS },
+  { id: 'pains_quinone', name: 'Quinone (quinone_A)', category: 'pains', severity: 'high', smarts: ['O=[#6]1[#6]=,:[#6][#6](=O)[#6]=,:[#6]1'], reference: PAINS },
+  { id: 'pains_ene_rhodanine', name: '5-Arylidene rhodanine (ene_rhod_A)', category: 'pains', severity: 'high', smarts: ['[#6]=[#6]1[#16][#6](=[#16])[#7][#6]1=O'], reference: PAINS },
+  { id: 'pains_azo', name: 'Aryl azo (azo_A)', category: 'pains', severity: 'medium', smarts: ['c[NX2]=[NX2]c'], reference: PAINS },
+  { id: 'pains_mannich_phenol', name: 'Phenolic Mannich base (mannich_A)', category: 'pains', severity: 'medium', smarts: ['[OH1]c1ccccc1[CH2][NX3;!$(N-C=O)]'], reference: PAINS },
+  { id: 'pains_anil_dialkyl', name: 'Para-substituted dialkylaniline (anil_di_alk_A)', category: 'pains', severity: 'medium', smarts: ['[CH2,CH3][NX3]([CH2,CH3])c1ccc([#7,#8;!$(*=*)])cc1'], reference: PAINS },
+  { id: 'pains_hydroquinone', name: 'Hydroquinone (hzone_phenol)', category: 'pains', severity: 'medium', smarts: ['[OH1]c1ccc([OH1])cc1'], reference: PAINS },
+  { id: 'pains_ene_one_ene', name: 'Cross-conjugated dienone (ene_one_ene_A)', category: 'pains', severity: 'medium', smarts: ['[#6]=[#6;!R]-[#6;!R](=O)-[#6;!R]=[#6]'], reference: PAINS },
+
+  // Brenk unwanted groups
+  { id: 'brenk_michael_acceptor', name: 'Michael acceptor', category: 'brenk', severity: 'medium', smarts: ['[CX3]=!@[CX3]-[CX3]=[O,S]'], reference: BRENK },
+  { id: 'brenk_aldehyde', name: 'Aldehyde', category: 'brenk', severity: 'medium', smarts: ['[CX3H1](=O)[#6]'], reference: BRENK },
+  { id: 'brenk_acyl_halide', name: 'Acyl halide', category: 'brenk', severity: 'high', smarts: ['[CX3](=O)[F,Cl,Br,I]'], reference: BRENK },
+  { id: 'brenk_sulfonyl_halide', name: 'Sulfonyl halide', category: 'brenk', severity: 'high', smarts: ['[SX4](=O)(=O)[F,Cl,Br,I]'], reference: BRENK },
+  { id: 'brenk_alkyl_halide', name: 'Alkyl halide', category: 'brenk', severity: 'medium', smarts: ['[CX4;!$(C(F)(F)F)][Cl,Br,I]'], reference: BRENK },
+  { id: 'brenk_anhydride', name: 'Anhydride', category: 'brenk', severity: 'high', smarts: ['[CX3](=O)[OX2][CX3](=O)'], reference: BRENK },
+  { id: 'brenk_isocyanate', name: 'Isocyanate or isothiocyanate', category: 'brenk', severity: 'high', smarts: ['N=C=[O,S]'], reference: BRENK },
+  { id: 'brenk_thiol', name: 'Thiol', category: 'brenk', severity: 'medium', smarts: ['[SX2H1]'], reference: BRENK },
+  { id: 'brenk_peroxide', name: 'Peroxide', category: 'brenk', severity: 'high', smarts: ['[OX2][OX2]'], reference: BRENK },
+  { id: 'brenk_polyene', name: 'Polyene', category: 'brenk', severity: 'low', smarts: ['[CX3]=[CX3]-[CX3]=[CX3]-[CX3]=[CX3]'], reference: BRENK },
+  { id: 'brenk_phosphor', name: 'Phosphoric ester or phosphonate', category: 'brenk', severity: 'medium', smarts: ['P(=[O,S])([#8,#6])[#8]'], reference: BRENK },
+  { id: 'brenk_heavy_metal', name: 'Heavy metal', category: 'brenk', severity: 'high', smarts: ['[Hg,Pb,Cd,As,Sn,Tl,Sb]'], reference: BRENK },
+
+  // Ames mutagenicity toxicophores
+  { id: 'ames_aromatic_nitro', name: 'Aromatic nitro', category: 'mutagenicity', severity: 'high', smarts: ['a[N+](=O)[O-]'], reference: KAZIUS },
+  { id: 'ames_aromatic_amine', name: 'Primary aromatic amine', category: 'mutagenicity', severity: 'medium', smarts: ['c[NH2]'], reference: KAZIUS },
+  { id: 'ames_aromatic_hydroxylamine', name: 'Aromatic hydroxylamine', category: 'mutagenicity', severity: 'high', smarts: ['c[NX3][OH1]'], reference: KAZIUS },
+  { id: 'ames_nitroso', name: 'N- or C-nitroso', category: 'mutagenicity', severity: 'high', smarts: ['[#7,#6][NX2]=O'], reference: KAZIUS },
+  { id: 'ames_epoxide', name: 'Epoxide', category: 'mutagenicity', severity: 'high', smarts: ['C1OC1'], reference: KAZIUS },
+  { id: 'ames_aziridine', name: 'Aziridine', category: 'mutagenicity', severity: 'high', smarts: ['C1NC1'], reference: KAZIUS },
+  { id: 'ames_azide', name: 'Azide', category: 'mutagenicity', severity: 'high', smarts: ['N=[N+]=[N-]'], reference: KAZIUS },
+  { id: 'ames_diazo', name: 'Diazo or diazonium', category: 'mutagenicity', severity: 'high', smarts: ['[#6]=[N+]=[N-]', '[N+]#N'], reference: KAZIUS },
+  { id: 'ames_hydrazine', name: 'Hydrazine', category: 'mutagenicity', severity: 'medium', smarts: ['[NX3;!$(N-C=O)][NX3;!$(N-C=O)]'], reference: KAZIUS },
+  { id: 'ames_alkyl_halide', name: 'Primary alkyl halide', category: 'mutagenicity', severity: 'medium', smarts: ['[CH2X4][Cl,Br,I]'], reference: KAZIUS },
+  { id: 'ames_beta_lactone', name: 'Propiolactone', category: 'mutagenicity', severity: 'high', smarts: ['O=C1CCO1'], reference: KAZIUS },
+  { id: 'ames_unsaturated_aldehyde', name: 'α,β-Unsaturated aldehyde', category: 'mutagenicity', severity: 'medium', smarts: ['[CX3]=[CX3][CX3H1]=O'], reference: BENIGNI },
+  { id: 'ames_polycyclic_aromatic', name: 'Polycyclic aromatic hydrocarbon (three fused rings)', category: 'mutagenicity', severity: 'medium', smarts: ['c1ccc2cc3ccccc3cc2c1', 'c1ccc2c(c1)ccc1ccccc12'], reference: BENIGNI },
+  { id: 'ames_alkenylbenzene', name: 'Allyl- or propenylbenzene (safrole/estragole type)', category: 'mutagenicity', severity: 'medium', smarts: ['c[CH2][CH1]=[CH2]'], reference: BENIGNI },
+
+  // Hepatotoxicity / reactive metabolite alerts
+  { id: 'hep_furan', name: 'Furan', category: 'hepatotoxicity', severity: 'medium', smarts: ['c1ccoc1'], reference: STEPAN },
+  { id: 'hep_thiophene', name: 'Thiophene', category: 'hepatotoxicity', severity: 'medium', smarts: ['c1ccsc1'], reference: STEPAN },
+  { id: 'hep_aminophenol', name: 'para-Aminophenol', category: 'hepatotoxicity', severity: 'high', smarts: ['[OX2H1,OX2C]c1ccc([NX3;H1,H2])cc1'], reference: STEPAN },
+  { id: 'hep_methylenedioxy', name: 'Methylenedioxyphenyl', category: 'hepatotoxicity', severity: 'medium', smarts: ['cO[CH2]Oc'], reference: STEPAN },
+  { id: 'hep_hydrazine', name: 'Hydrazine or hydrazide', category: 'hepatotoxicity', severity: 'high', smarts: ['[NX3][NX3H2]'], reference: STEPAN },
+  { id: 'hep_nitroaromatic', name: 'Nitroaromatic', category: 'hepatotoxicity', severity: 'medium', smarts: ['a[N+](=O)[O-]'], reference: STEPAN },
+  { id: 'hep_terminal_alkyne', name: 'Terminal alkyne', category: 'hepatotoxicity', severity: 'low', smarts: ['C#[CH1]'], reference: STEPAN },
+  { id: 'hep_thiourea', name: 'Thiourea', category: 'hepatotoxicity', severity: 'medium', smarts: ['[NX3]C(=S)[NX3]'], reference: STEPAN },
+  { id: 'hep_carboxylic_acid', name: 'Carboxylic acid (acyl glucuronide)', category: 'hepatotoxicity', severity: 'low', smarts: ['[CX3;!R](=O)[OH1]'], reference: STEPAN },
+  { id: 'hep_pyrrolizidine', name: '1,2-Unsaturated pyrrolizidine', category: 'hepatotoxicity', severity: 'high', smarts: ['C1=CCN2CCCC12'], reference: STEPAN },
+];
+
+interface CompiledAlert {
+  alert: StructuralAlert;
+  patterns: SmartsPattern[];
+}
+
+/**
+ * Screens molecules against a library of substructure alerts
+ */
+export class StructuralAlertLibrary {
+  private alerts: Map<string, CompiledAlert> = new Map();
+
+  constructor(alerts: StructuralAlert[] = BUILT_IN_ALERTS) {
+    alerts.forEach(alert => this.registerAlert(alert));
+  }
+
+  /**
+   * Adds or replaces an alert after compiling its SMARTS
+   */
+  public registerAlert(alert: StructuralAlert): void {
+    if (!alert.id || !/^[a-z0-9_-]+$/i.test(alert.id)) {
+      throw new StructuralAlertError(`Invalid alert id: "${alert.id}"`);
+    }
+    if (!alert.reference) {
+      throw new StructuralAlertError(`Alert ${alert.id} has no reference`);
+    }
+    if (alert.smarts.length === 0) {
+      throw new StructuralAlertError(`Alert ${alert.id} has no SMARTS`);
+    }
+
+    let patterns: SmartsPattern[];
+    try {
+      patterns = alert.smarts.map(smarts => parseSmarts(smarts));
+    } catch (error) {
+      throw new StructuralAlertError(`Alert ${alert.id} has invalid SMARTS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.alerts.set(alert.id, { alert: { ...alert, smarts: [...alert.smarts] }, patterns });
+  }
+
+  public unregisterAlert(id: string): boolean {
+    return this.alerts.delete(id);
+  }
+
+  public getAlerts(category?: AlertCategory): StructuralAlert[] {
+    return Array.from(this.alerts.values())
+      .map(compiled => compiled.alert)
+      .filter(alert => !category || alert.category === category);
+  }
+
+  /**
+   * All alerts that match the molecule, in registration order
+   */
+  public screen(molecule: Molecule, categories?: AlertCategory[]): StructuralAlertHit[] {
+    const hits: StructuralAlertHit[] = [];
+
+    for (const { alert, patterns } of this.alerts.values()) {
+      if (categories && !categories.includes(alert.category)) continue;
+
+      const atoms = patterns.flatMap(pattern => pattern.match(molecule));
+      if (atoms.length > 0) {
+        hits.push({
+          id: alert.id,
+          name: alert.name,
+          category: alert.category,
+          severity: alert.severity,
+          reference: alert.reference,
+          atoms,
+        });
+      }
+    }
+
+    return hits;
+  }
+}
+
+/** Shared library with the built-in alerts; custom alerts registered here apply everywhere */
+export const structuralAlertLibrary = new StructuralAlertLibrary();
@@ -0,0 +1,145 @@
+import { CYP_ISOFORMS, calculateDescriptors, parseSmiles, predictAdmetLiabilities } from '..';
+
+const liabilities = (smiles: string) => predictAdmetLiabilities(parseSmiles(smiles));
+const cypInhibitors = (smiles: string) =>
+  CYP_ISOFORMS.filter(isoform => liabilities(smiles).cypInhibition[isoform].value);
+
+const IBUPROFEN = 'CC(C)Cc1ccc(cc1)C(C)C(=O)O';
+const IMIPRAMINE = 'CN(C)CCCN1c2ccccc2CCc2ccccc21';
+const CLOTRIMAZOLE = 'Clc1ccccc1C(c1ccccc1)(c1ccccc1)n1ccnc1';
+const DIAZEPAM = 'CN1C(=O)CN=C(c2ccccc2)c2cc(Cl)ccc12';
+const CAFFEINE = 'Cn1cnc2c1c(=O)n(C)c(=O)n2C';
+const PACLITAXEL = 'CC1=C2[C@@]([C@]([C@H]([C@@H]3[C@]4([C@H](OC4)C[C@@H]([C@]3(C(=O)[C@@H]2OC(=O)C)C)O)OC(=O)C)' +
+  'OC(=O)c5ccccc5)(C[C@@H]1OC(=O)[C@H](O)[C@@H](NC(=O)c6ccccc6)c7ccccc7)O)(C)C';
+
+describe('predictAdmetLiabilities', () => {
+  describe('CYP inhibition', () => {
+    it('estimates every isoform', () => {
+      expect(Object.keys(liabilities(IBUPROFEN).cypInhibition)).toEqual([...CYP_ISOFORMS]);
+    });
+
+    it.each([
+      ['a small planar polyaromatic for CYP1A2', 'c1ccc2ccccc2c1', ['CYP1A2']],
+      ['a lipophilic acid for CYP2C9', IBUPROFEN, ['CYP2C9']],
+      ['a basic amine with an aromatic ring for CYP2D6', IMIPRAMINE, ['CYP2C19', 'CYP2D6']],
+      ['an azole that binds the haem iron', CLOTRIMAZOLE, ['CYP1A2', 'CYP2C9', 'CYP2C19', 'CYP3A4']],
+      ['a furanocoumarin mechanism-based inactivator', 'COc1c2occc2cc2ccc(=O)oc12', ['CYP1A2', 'CYP2C19', 'CYP3A4']],
+      ['nothing for a small polar molecule', CAFFEINE, []],
+    ])('flags %s', (_name, smiles, expected) => {
+      expect(cypInhibitors(smiles)).toEqual(expected);
+    });
+
+    it('names the haem-binding azole in the rationale', () => {
+      expect(liabilities(CLOTRIMAZOLE).cypInhibition.CYP3A4).toMatchObject({
+        value: true,
+        confidence: 0.65,
+        applicable: true,
+        rationale: [
+          'Large lipophilic molecule (MW 344.8, logP 5.38) suits the spacious CYP3A4 pocket',
+          'Unhindered azole nitrogen can coordinate the haem iron',
+        ],
+      });
+    });
+  });
+
+  describe('P-gp rule of fours', () => {
+    it('calls large polar non-acids substrates', () => {
+      expect(liabilities(PACLITAXEL).pgpSubstrate).toMatchObject({ value: true, confidence: 0.7 });
+      expect(liabilities(PACLITAXEL).pgpSubstrate.rationale[0]).toContain('rule of fours');
+    });
+
+    it('calls small molecules with few N and O atoms non-substrates', () => {
+      expect(liabilities(IBUPROFEN).pgpSubstrate).toMatchObject({ value: false, confidence: 0.7 });
+    });
+
+    it('is less sure between the two regions', () => {
+      expect(liabilities(CAFFEINE).pgpSubstrate).toMatchObject({
+        value: false,
+        confidence: 0.5,
+        rationale: ['Between the rule-of-fours substrate and non-substrate regions (N+O 6, MW 194.2)'],
+      });
+    });
+  });
+
+  describe('hERG', () => {
+    it.each([
+      ['a lipophilic base', IMIPRAMINE, 'high', 0.7],
+      ['a moderately lipophilic base', 'Fc1ccc(cc1)C1CCNCC1COc1ccc2OCOc2c1', 'medium', 0.6],
+      ['a neutral lipophilic polyaromatic', CLOTRIMAZOLE, 'medium', 0.5],
+      ['an acid', IBUPROFEN, 'low', 0.7],
+      ['a molecule without a basic nitrogen', DIAZEPAM, 'low', 0.65],
+    ])('rates %s', (_name, smiles, risk, confidence) => {
+      expect(liabilities(smiles).herg).toMatchObject({ value: risk, confidence });
+    });
+  });
+
+  describe('BBB permeation', () => {
+    it('admits small lipophilic molecules within the CNS limits', () => {
+      expect(liabilities(DIAZEPAM).bbbPermeant).toMatchObject({ value: true, confidence: 0.75 });
+    });
+
+    it('lists every failed criterion', () => {
+      expect(liabilities(PACLITAXEL).bbbPermeant).toMatchObject({
+        value: false,
+        confidence: 0.8,
+        rationale: ['TPSA 221.3 >= 90', 'MW 853.9 >= 450', '4 H-bond donors > 3', 'likely P-gp efflux substrate'],
+      });
+      expect(liabilities(IBUPROFEN).bbbPermeant).toMatchObject({
+        value: false,
+        confidence: 0.65,
+        rationale: ['acidic group is ionised at blood pH'],
+      });
+    });
+  });
+
+  describe('ESOL solubility', () => {
+    it('converts logS to mg/mL with the molecular weight', () => {
+      const molecule = parseSmiles(DIAZEPAM);
+      const { logS, molecularWeight } = calculateDescriptors(molecule);
+      const { value } = predictAdmetLiabilities(molecule).solubility;
+
+      expect(value.logS).toBeCloseTo(logS, 2);
+      expect(value.mgPerMl).toBeCloseTo(10 ** logS * molecularWeight, 4);
+      expect(value.class).toBe('soluble');
+    });
+
+    it.each([
+      ['very_soluble', CAFFEINE],
+      ['moderately_soluble', IMIPRAMINE],
+      ['poorly_soluble', PACLITAXEL],
+    ])('classes %s compounds', (solubilityClass, smiles) => {
+      expect(liabilities(smiles).solubility.value.class).toBe(solubilityClass);
+    });
+
+    it('is not applicable above the ESOL training weight', () => {
+      expect(liabilities(PACLITAXEL).solubility).toMatchObject({ applicable: false, confidence: 0.35 });
+      expect(liabilities(PACLITAXEL).solubility.rationale).toContain(
+        "Outside the rule's domain: MW above the 600 Da ESOL training range"
+      );
+    });
+  });
+
+  describe('applicability', () => {
+    it('marks drug-like organic molecules applicable', () => {
+      const result = liabilities(DIAZEPAM);
+
+      expect([
+        ...CYP_ISOFORMS.map(isoform => result.cypInhibition[isoform]),
+        result.pgpSubstrate, result.herg, result.bbbPermeant, result.solubility,
+      ].every(estimate => estimate.applicable)).toBe(true);
+    });
+
+    it('halves the confidence and says why outside the drug-like space', () => {
+      expect(liabilities('OB(O)c1ccccc1').herg).toEqual({
+        value: 'low',
+        confidence: 0.33,
+        applicable: false,
+        rationale: ['No basic nitrogen', "Outside the rule's domain: contains B"],
+      });
+      expect(liabilities('CCO').pgpSubstrate).toMatchObject({ applicable: false, confidence: 0.35 });
+      expect(liabilities('CCO').pgpSubstrate.rationale[1]).toBe(
+        "Outside the rule's domain: molecular weight 46.1 outside 100-900"
+      );
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { bricsFragments, findBricsBonds, parseSmiles } from '..';
+
+const fragments = (smiles: string): string[] => bricsFragments(parseSmiles(smiles)).map(fragment => fragment.smiles);
+
+describe('BRICS', () => {
+  it('cuts ethers, ketones and aryl bonds', () => {
+    expect(fragments('CCCOCCC(=O)c1ccccc1')).toEqual(['[4*]CCC', '[3*]O[3*]', '[4*]CCC([6*])=O', '[16*]c1ccccc1']);
+  });
+
+  it('cuts esters and acids on an aromatic ring', () => {
+    expect(fragments('CC(=O)Oc1ccccc1C(=O)O')).toEqual(['[1*]C(C)=O', '[3*]O[3*]', '[16*]c1ccccc1[16*]', '[6*]C(=O)O']);
+  });
+
+  it('labels both ends of each cut bond', () => {
+    const bonds = findBricsBonds(parseSmiles('CC(=O)Nc1ccc(O)cc1'));
+
+    expect(bonds.map(({ bond, labels }) => [bond.begin, bond.end, labels])).toEqual([[1, 3, ['1', '5']], [3, 4, ['5', '16']]]);
+  });
+
+  it('reports repeated units once per occurrence and maps fragments to parent atoms', () => {
+    const result = bricsFragments(parseSmiles('OCCOCCO'));
+
+    expect(result).toEqual([
+      { smiles: '[4*]CCO', atoms: [0, 1, 2] },
+      { smiles: '[3*]O[3*]', atoms: [3] },
+      { smiles: '[4*]CCO', atoms: [4, 5, 6] },
+    ]);
+  });
+
+  it('leaves ring bonds and molecules without BRICS bonds intact', () => {
+    expect(fragments('c1ccc2ccccc2c1')).toEqual(['c1ccc2ccccc2c1']);
+  });
+});
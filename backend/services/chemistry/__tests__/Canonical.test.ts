@@ -0,0 +1,77 @@
+import { canonicalSmiles, parseSmiles, structureKey } from '..';
+
+const canonical = (smiles: string, isomeric?: boolean): string =>
+  canonicalSmiles(parseSmiles(smiles), isomeric === undefined ? {} : { isomeric });
+
+describe('canonicalSmiles', () => {
+  it.each([
+    ['atom order', 'OCC', 'CCO'],
+    ['Kekulé and aromatic benzene', 'C1=CC=CC=C1', 'c1ccccc1'],
+    ['ring closure placement', 'Oc1ccccc1', 'c1ccc(O)cc1'],
+    ['explicit hydrogens', '[H]OC([H])([H])C', 'CCO'],
+    ['bracketed organic atoms', '[CH3][CH2][OH]', 'CCO'],
+    ['component order', 'O.CC', 'CC.O'],
+    ['charge-separated nitro', 'C[N+]([O-])=O', 'C[N+](=O)[O-]'],
+    ['tetrahedral stereo written from another atom', 'C[C@@H](C(=O)O)N', 'N[C@@H](C)C(=O)O'],
+    ['double-bond stereo written in reverse', 'C/C=C/C', 'C\\C=C\\C'],
+    ['ring double-bond stereo marked on the closing atom', 'C/1=C\\CCCCCC1', 'C1CCCCC/C=C/1'],
+  ])('gives one string regardless of %s', (_name, first, second) => {
+    expect(canonical(first)).toBe(canonical(second));
+  });
+
+  it('is stable when its own output is parsed again', () => {
+    const smiles = canonical('CC(=O)Oc1ccccc1C(=O)O');
+
+    expect(canonical(smiles)).toBe(smiles);
+  });
+
+  it('keeps enantiomers and geometric isomers apart', () => {
+    expect(canonical('N[C@@H](C)C(=O)O')).not.toBe(canonical('N[C@H](C)C(=O)O'));
+    expect(canonical('C/C=C/C')).not.toBe(canonical('C/C=C\\C'));
+  });
+
+  it('drops stereo and isotopes when not isomeric', () => {
+    expect(canonical('N[C@@H](C)C(=O)O', false)).toBe(canonical('NC(C)C(=O)O'));
+    expect(canonical('[13CH4]', false)).toBe('C');
+  });
+
+  it('keeps double-bond stereo carried by a ring-closure bond', () => {
+    const e = canonical('C/1=C\\CCCCCC1');
+    const z = canonical('C/1=C/CCCCCC1');
+
+    expect(e).not.toBe(z);
+    expect(e).not.toBe(canonical('C1=CCCCCCC1'));
+    expect(canonical(e)).toBe(e);
+  });
+
+  it('drops stereo marks on centres that are not stereogenic', () => {
+    expect(canonical('C[C@H](C)O')).toBe(canonical('CC(C)O'));
+  });
+});
+
+describe('structureKey', () => {
+  it('has the InChIKey layout', () => {
+    expect(structureKey(parseSmiles('CCO'))).toMatch(/^[A-Z]{14}-[A-Z]{8}SA-N$/);
+  });
+
+  it('shares the skeleton block between stereoisomers only', () => {
+    const [lSkeleton, lLayers] = structureKey(parseSmiles('N[C@@H](C)C(=O)O')).split('-');
+    const [dSkeleton, dLayers] = structureKey(parseSmiles('N[C@H](C)C(=O)O')).split('-');
+
+    expect(lSkeleton).toBe(dSkeleton);
+    expect(lLayers).not.toBe(dLayers);
+  });
+
+  it('tells E- and Z-cyclooctene apart', () => {
+    const [eSkeleton, eLayers] = structureKey(parseSmiles('C/1=C\\CCCCCC1')).split('-');
+    const [zSkeleton, zLayers] = structureKey(parseSmiles('C/1=C/CCCCCC1')).split('-');
+
+    expect(eSkeleton).toBe(zSkeleton);
+    expect(eLayers).not.toBe(zLayers);
+  });
+
+  it('flags the net charge in the last letter', () => {
+    expect(structureKey(parseSmiles('C[NH3+]')).endsWith('-O')).toBe(true);
+    expect(structureKey(parseSmiles('CC(=O)[O-]')).endsWith('-M')).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { DistanceMatrix, Fingerprint, butinaCluster, diversityStatistics, maxMinPick } from '..';
+
+/** Compounds on a line: the Tanimoto distance between two is how far apart they are */
+function onLine(...positions: number[]): Fingerprint[] {
+  return positions.map(position => ({
+    position,
+    tanimoto: (other: { position: number }) => 1 - Math.abs(position - other.position),
+  })) as unknown as Fingerprint[];
+}
+
+const line = (...positions: number[]): DistanceMatrix => new DistanceMatrix(onLine(...positions)).fill();
+
+describe('DistanceMatrix', () => {
+  it('fills one row at a time and reports progress by pairs', () => {
+    const matrix = new DistanceMatrix(onLine(0, 0.25, 0.5, 1));
+
+    expect(matrix.progress).toBe(0);
+    matrix.fillRow();
+    expect(matrix.progress).toBe(0.5);
+    expect(matrix.get(0, 3)).toBe(1);
+    expect(() => matrix.get(1, 2)).toThrow('Distance row 1 has not been computed');
+
+    matrix.fill();
+    expect(matrix.complete).toBe(true);
+    expect(matrix.get(2, 1)).toBe(0.25);
+    expect(matrix.get(2, 2)).toBe(0);
+  });
+});
+
+describe('butinaCluster', () => {
+  it('builds clusters around the compounds with the most neighbours', () => {
+    const matrix = line(0, 0.125, 0.25, 0.875, 1, 0.5);
+
+    expect(butinaCluster(matrix, { distanceCutoff: 0.125 })).toEqual([
+      { centroid: 1, members: [1, 0, 2] },
+      { centroid: 3, members: [3, 4] },
+      { centroid: 5, members: [5] },
+    ]);
+  });
+
+  it('optionally moves false singletons into the cluster of their nearest neighbour', () => {
+    const matrix = line(0, 0.25, 0.5, 0.75);
+
+    expect(butinaCluster(matrix, { distanceCutoff: 0.25 })).toEqual([
+      { centroid: 1, members: [1, 0, 2] },
+      { centroid: 3, members: [3] },
+    ]);
+    expect(butinaCluster(matrix, { distanceCutoff: 0.25, reassignSingletons: true })).toEqual([
+      { centroid: 1, members: [1, 0, 2, 3] },
+    ]);
+  });
+});
+
+describe('maxMinPick', () => {
+  const matrix = line(0, 0.125, 0.25, 0.875, 1, 0.5);
+
+  it('starts from the medoid and then picks the farthest compound each time', () => {
+    expect(maxMinPick(matrix, 3)).toEqual([2, 4, 0]);
+  });
+
+  it('starts from the seeds when given', () => {
+    expect(maxMinPick(matrix, 2, [3])).toEqual([3, 0]);
+  });
+
+  it('never picks more compounds than there are', () => {
+    expect(maxMinPick(matrix, 10)).toHaveLength(6);
+    expect(maxMinPick(matrix, 0)).toEqual([]);
+  });
+});
+
+describe('diversityStatistics', () => {
+  const matrix = line(0, 0.25, 0.5, 1);
+
+  it('summarises pairwise distances', () => {
+    const statistics = diversityStatistics(matrix);
+
+    expect(statistics).toMatchObject({ size: 4, minDistance: 0.25, maxDistance: 1, meanNearestNeighborDistance: 0.3125 });
+    expect(statistics.meanDistance).toBeCloseTo(3.25 / 6);
+  });
+
+  it('summarises a subset and has nothing to report for a single compound', () => {
+    expect(diversityStatistics(matrix, [0, 3])).toMatchObject({ size: 2, meanDistance: 1 });
+    expect(diversityStatistics(matrix, [1])).toEqual({ size: 1, meanDistance: 0, minDistance: 0, maxDistance: 0, meanNearestNeighborDistance: 0 });
+  });
+});
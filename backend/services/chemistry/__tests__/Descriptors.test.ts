@@ -0,0 +1,104 @@
+import { calculateDescriptors, DescriptorSet, parseSmiles } from '..';
+
+interface Reference {
+  herb: string;
+  smiles: string;
+  formula: string;
+  expected: Partial<DescriptorSet>;
+}
+
+/**
+ * Main constituents of the herbs in scripts/seedDatabase.ts. Expected values are the
+ * published PubChem computed properties (TPSA, donors, acceptors, rotatable bonds,
+ * heavy atoms); logP, where listed, is the RDKit Wildman–Crippen value
+ */
+const REFERENCES: Record<string, Reference> = {
+  curcumin: {
+    herb: 'Turmeric',
+    smiles: 'COc1cc(\\C=C\\C(=O)CC(=O)\\C=C\\c2ccc(O)c(OC)c2)ccc1O',
+    formula: 'C21H20O6',
+    expected: {
+      logP: 3.3699, tpsa: 93.06, hbd: 2, hba: 6, rotatableBonds: 8, heavyAtoms: 27,
+      aromaticRings: 2, saturatedRings: 0, unsaturatedRings: 2, heteroAtoms: 6, fractionCSP3: 0.1429,
+    },
+  },
+  withaferinA: {
+    herb: 'Ashwagandha',
+    smiles: 'CC1=C(C(=O)OC(C1)C(C)C2CCC3C2(CCC4C3CC5C6(C4(C(=O)C=CC6O)C)O5)C)CO',
+    formula: 'C28H38O6',
+    expected: {
+      tpsa: 96.36, hbd: 2, hba: 6, rotatableBonds: 3, heavyAtoms: 34,
+      ringCount: 6, aromaticRings: 0, saturatedRings: 4, unsaturatedRings: 2, fractionCSP3: 0.7857,
+    },
+  },
+  luteolin: {
+    herb: 'Brahmi',
+    smiles: 'C1=CC(=C(C=C1C2=CC(=O)C3=C(C=C(C=C3O2)O)O)O)O',
+    formula: 'C15H10O6',
+    expected: {
+      logP: 2.2824, tpsa: 111.13, hbd: 4, hba: 6, rotatableBonds: 1, heavyAtoms: 21, aromaticRings: 3, fractionCSP3: 0,
+    },
+  },
+  quercetin: {
+    herb: 'Neem',
+    smiles: 'C1=CC(=C(C=C1C2=C(C(=O)C3=C(C=C(C=C3O2)O)O)O)O)O',
+    formula: 'C15H10O7',
+    expected: {
+      logP: 1.988, tpsa: 131.36, hbd: 5, hba: 7, rotatableBonds: 1, heavyAtoms: 22, aromaticRings: 3,
+    },
+  },
+  berberine: {
+    herb: 'Guduchi',
+    smiles: 'COC1=C(C2=C[N+]3=C(C=C2C=C1)C4=CC5=C(C=C4CC3)OCO5)OC',
+    formula: 'C20H18NO4',
+    expected: {
+      tpsa: 40.8, hbd: 0, hba: 4, rotatableBonds: 2, heavyAtoms: 25,
+      ringCount: 5, aromaticRings: 3, fractionCSP3: 0.25, formalCharge: 1,
+    },
+  },
+};
+
+describe('calculateDescriptors', () => {
+  describe.each(Object.entries(REFERENCES))('%s', (_name, reference) => {
+    const molecule = parseSmiles(reference.smiles);
+    const descriptors = calculateDescriptors(molecule);
+
+    it(`parses the ${reference.herb} constituent to ${reference.formula}`, () => {
+      expect(molecule.getFormula()).toBe(reference.formula);
+    });
+
+    it.each(Object.entries(reference.expected))('computes %s', (key, value) => {
+      const actual = descriptors[key as keyof DescriptorSet];
+      if (Number.isInteger(value)) {
+        expect(actual).toBe(value);
+      } else {
+        expect(actual).toBeCloseTo(value as number, 2);
+      }
+    });
+  });
+
+  it('reproduces the Wildman–Crippen calibration compounds', () => {
+    expect(calculateDescriptors(parseSmiles('CCO')).logP).toBeCloseTo(-0.0014, 4);
+    expect(calculateDescriptors(parseSmiles('Oc1ccccc1')).logP).toBeCloseTo(1.3922, 4);
+    expect(calculateDescriptors(parseSmiles('CC(=O)Oc1ccccc1C(=O)O')).logP).toBeCloseTo(1.3101, 4);
+    expect(calculateDescriptors(parseSmiles('Cn1c(=O)c2c(ncn2C)n(C)c1=O')).logP).toBeCloseTo(-1.0293, 4);
+  });
+
+  it('does not count bonds to secondary amide nitrogens as rotatable', () => {
+    expect(calculateDescriptors(parseSmiles('CC(=O)NCCC')).rotatableBonds).toBe(1);
+    expect(calculateDescriptors(parseSmiles('CC(=O)N(C)CCC')).rotatableBonds).toBe(3);
+  });
+
+  it('excludes acid hydroxyls and amide nitrogens from acceptors', () => {
+    const descriptors = calculateDescriptors(parseSmiles('CC(=O)O'));
+    expect(descriptors.hba).toBe(1);
+    expect(descriptors.hbd).toBe(1);
+    expect(calculateDescriptors(parseSmiles('CC(=O)N(C)C')).hba).toBe(1);
+  });
+
+  it('reports ESOL solubility consistent with its inputs', () => {
+    const descriptors = calculateDescriptors(parseSmiles(REFERENCES['curcumin']!.smiles));
+    expect(descriptors.logS).toBeLessThan(-3.5);
+    expect(descriptors.logS).toBeGreaterThan(-4.5);
+  });
+});
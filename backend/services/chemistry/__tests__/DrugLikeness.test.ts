@@ -0,0 +1,104 @@
+import {
+  DrugLikenessEngine,
+  DrugLikenessRuleSet,
+  RuleSetValidationError,
+  calculateDescriptors,
+  formatViolation,
+  parseSmiles,
+} from '..';
+
+const ASPIRIN = calculateDescriptors(parseSmiles('CC(=O)Oc1ccccc1C(=O)O'));
+/** Cyclosporin-sized: heavy, flexible and polar */
+const LARGE = { ...ASPIRIN, molecularWeight: 1202.6, logP: 7.5, hbd: 5, hba: 12, rotatableBonds: 15, tpsa: 278.8 };
+
+describe('DrugLikenessEngine', () => {
+  const engine = new DrugLikenessEngine();
+
+  it('passes a small oral drug on Lipinski, Veber and Egan', () => {
+    const results = engine.evaluate(ASPIRIN, ['lipinski', 'veber', 'egan']);
+
+    expect(results.map(result => [result.id, result.passes, result.score])).toEqual([
+      ['lipinski', true, 1],
+      ['veber', true, 1],
+      ['egan', true, 1],
+    ]);
+  });
+
+  it('reports each violated threshold and scores by the share of criteria met', () => {
+    const [lipinski] = engine.evaluate(LARGE, ['lipinski']);
+
+    expect(lipinski!.passes).toBe(false);
+    expect(lipinski!.score).toBe(0.25);
+    expect(lipinski!.violations.map(formatViolation)).toEqual([
+      'Molecular weight 1202.6 > 500',
+      'logP 7.5 > 5',
+      'H-bond acceptors 12 > 10',
+    ]);
+  });
+
+  it('tolerates the allowed number of violations', () => {
+    const [lipinski] = engine.evaluate({ ...ASPIRIN, molecularWeight: 520 }, ['lipinski']);
+
+    expect(lipinski!.passes).toBe(true);
+    expect(lipinski!.violations).toHaveLength(1);
+  });
+
+  it('checks lower bounds as well as upper ones', () => {
+    const [ghose] = engine.evaluate(calculateDescriptors(parseSmiles('Oc1ccccc1')), ['ghose']);
+
+    expect(ghose!.violations.map(violation => [violation.property, violation.comparator])).toEqual([
+      ['molarRefractivity', 'min'],
+      ['molecularWeight', 'min'],
+      ['totalAtoms', 'min'],
+    ]);
+  });
+
+  it('evaluates every built-in rule set in registration order by default', () => {
+    expect(engine.evaluate(ASPIRIN).map(result => result.id)).toEqual(['lipinski', 'veber', 'ghose', 'egan', 'muegge', 'leadlike']);
+  });
+
+  it('rejects unknown rule set ids', () => {
+    expect(() => engine.evaluate(ASPIRIN, ['rule-of-three'])).toThrow(RuleSetValidationError);
+  });
+
+  describe('custom rule sets', () => {
+    const ruleOfThree: DrugLikenessRuleSet = {
+      id: 'ro3',
+      name: 'Rule of three',
+      reference: 'Congreve et al., Drug Discov. Today 2003, 8, 876-877',
+      allowedViolations: 0,
+      criteria: [
+        { property: 'molecularWeight', label: 'Molecular weight', max: 300 },
+        { property: 'logP', label: 'logP', max: 3 },
+      ],
+    };
+
+    it('registers, evaluates and unregisters a rule set', () => {
+      const custom = new DrugLikenessEngine([]);
+      custom.registerRuleSet(ruleOfThree);
+
+      expect(custom.evaluate(ASPIRIN)).toEqual([{ id: 'ro3', name: 'Rule of three', passes: true, score: 1, violations: [] }]);
+      expect(custom.unregisterRuleSet('ro3')).toBe(true);
+      expect(custom.getRuleSets()).toEqual([]);
+    });
+
+    it('does not share criteria with the caller', () => {
+      const custom = new DrugLikenessEngine([ruleOfThree]);
+      ruleOfThree.criteria[0]!.max = 100;
+
+      expect(custom.getRuleSet('ro3')!.criteria[0]!.max).toBe(300);
+      ruleOfThree.criteria[0]!.max = 300;
+    });
+
+    it.each<[string, Partial<DrugLikenessRuleSet>]>([
+      ['an invalid id', { id: 'rule of three' }],
+      ['no criteria', { criteria: [] }],
+      ['as many allowed violations as criteria', { allowedViolations: 2 }],
+      ['an unknown descriptor', { criteria: [{ property: 'charge' as never, label: 'Charge', max: 0 }] }],
+      ['a criterion without thresholds', { criteria: [{ property: 'logP', label: 'logP' }] }],
+      ['min above max', { criteria: [{ property: 'logP', label: 'logP', min: 3, max: 1 }] }],
+    ])('rejects a rule set with %s', (_name, override) => {
+      expect(() => new DrugLikenessEngine([{ ...ruleOfThree, ...override }])).toThrow(RuleSetValidationError);
+    });
+  });
+});
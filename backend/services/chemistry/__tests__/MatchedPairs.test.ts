@@ -0,0 +1,50 @@
+import { HYDROGEN_VARIABLE, findMatchedPairs, fragmentForMmp, parseSmiles } from '..';
+
+const pairs = (...library: Array<[string, string]>) =>
+  findMatchedPairs(library.map(([name, smiles]) => ({ item: name, fragments: fragmentForMmp(parseSmiles(smiles)) })));
+
+describe('fragmentForMmp', () => {
+  it('indexes each side of a cut and each hydrogen that can be replaced', () => {
+    expect(fragmentForMmp(parseSmiles('Cc1ccccc1')).map(fragment => [fragment.context, fragment.variable])).toEqual([
+      ['[1*]c1ccccc1', '[1*]C'],
+      ['[1*]Cc1ccccc1', HYDROGEN_VARIABLE],
+      ['[1*]c1ccccc1C', HYDROGEN_VARIABLE],
+      ['[1*]c1cccc(C)c1', HYDROGEN_VARIABLE],
+      ['[1*]c1ccc(C)cc1', HYDROGEN_VARIABLE],
+    ]);
+  });
+
+  it('indexes linkers between two cuts unless limited to single cuts', () => {
+    const bibenzyl = parseSmiles('c1ccccc1CCc1ccccc1');
+
+    expect(fragmentForMmp(bibenzyl).filter(fragment => fragment.cuts === 2).map(fragment => fragment.variable)).toContain('[1*]C[2*]');
+    expect(fragmentForMmp(bibenzyl, { maxCuts: 1 }).every(fragment => fragment.cuts === 1)).toBe(true);
+  });
+
+  it('never makes the variable part larger than the context or the limit', () => {
+    const fragments = fragmentForMmp(parseSmiles('CCCCCCc1ccccc1'), { maxVariableHeavyAtoms: 3 });
+
+    expect(fragments.every(fragment => fragment.variableHeavyAtoms <= 3)).toBe(true);
+    expect(fragments.map(fragment => fragment.variable)).not.toContain('[1*]c1ccccc1');
+  });
+});
+
+describe('findMatchedPairs', () => {
+  it('pairs substituent swaps, including a hydrogen, on a shared context', () => {
+    expect(pairs(['toluene', 'Cc1ccccc1'], ['chlorobenzene', 'Clc1ccccc1'], ['benzene', 'c1ccccc1'])).toEqual([
+      { first: 'toluene', second: 'chlorobenzene', cuts: 1, context: '[1*]c1ccccc1', from: '[1*]C', to: '[1*]Cl' },
+      { first: 'toluene', second: 'benzene', cuts: 1, context: '[1*]c1ccccc1', from: '[1*]C', to: HYDROGEN_VARIABLE },
+      { first: 'chlorobenzene', second: 'benzene', cuts: 1, context: '[1*]c1ccccc1', from: '[1*]Cl', to: HYDROGEN_VARIABLE },
+    ]);
+  });
+
+  it('keeps the smallest change when two compounds match through several contexts', () => {
+    expect(pairs(['bibenzyl', 'c1ccccc1CCc1ccccc1'], ['benzyl phenyl ether', 'c1ccccc1OCc1ccccc1'])).toEqual([
+      { first: 'bibenzyl', second: 'benzyl phenyl ether', cuts: 2, context: '[1*]Cc1ccccc1.[2*]c1ccccc1', from: '[1*]C[2*]', to: '[1*]O[2*]' },
+    ]);
+  });
+
+  it('does not pair unrelated compounds', () => {
+    expect(pairs(['benzene', 'c1ccccc1'], ['hexane', 'CCCCCC'])).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { BiotransformationRule, MetabolismRuleError, MetabolitePredictor, canonicalSmiles, parseSmiles } from '..';
+
+const ANISOLE = parseSmiles('COc1ccccc1');
+const canonical = (smiles: string): string => canonicalSmiles(parseSmiles(smiles));
+
+describe('MetabolitePredictor', () => {
+  const predictor = new MetabolitePredictor();
+
+  it('predicts a phase I product and its conjugates', () => {
+    const metabolites = predictor.predict(ANISOLE, 'anisole');
+    const phenol = metabolites.find(metabolite => metabolite.smiles === canonical('Oc1ccccc1'));
+    const glucuronide = metabolites.find(metabolite => metabolite.name === 'O-glucuronyl O-desmethyl anisole');
+
+    expect(phenol).toMatchObject({ name: 'O-desmethyl anisole', formula: 'C6H6O', probability: 0.6 });
+    expect(phenol!.massShift).toBeCloseTo(-14.0157, 3);
+    expect(glucuronide!.pathway.map(step => step.ruleId)).toEqual(['o_demethylation', 'phenol_glucuronidation']);
+    expect(glucuronide!.probability).toBeCloseTo(0.48);
+  });
+
+  it('orders metabolites by likelihood', () => {
+    const probabilities = predictor.predict(ANISOLE, 'anisole').map(metabolite => metabolite.probability);
+
+    expect(probabilities).toEqual([...probabilities].sort((a, b) => b - a));
+  });
+
+  it('does not metabolise conjugates further', () => {
+    const metabolites = predictor.predict(parseSmiles('Oc1ccccc1'), 'phenol', { maxSteps: 3 });
+
+    expect(metabolites.every(metabolite => metabolite.pathway.slice(0, -1).every(step => step.phase === 'I'))).toBe(true);
+  });
+
+  it('follows only as many steps and pathways as requested', () => {
+    const oneStep = predictor.predict(ANISOLE, 'anisole', { maxSteps: 1 });
+    const likely = predictor.predict(ANISOLE, 'anisole', { minProbability: 0.5 });
+
+    expect(oneStep.every(metabolite => metabolite.pathway.length === 1)).toBe(true);
+    expect(likely.every(metabolite => metabolite.probability >= 0.5)).toBe(true);
+    expect(predictor.predict(ANISOLE, 'anisole', { maxMetabolites: 2 })).toHaveLength(2);
+  });
+
+  it('names repeated reactions with a multiplier', () => {
+    const metabolites = predictor.predict(parseSmiles('COc1ccc(OC)cc1'), 'dimethoxybenzene', { maxSteps: 2 });
+
+    expect(metabolites.map(metabolite => metabolite.name)).toContain('Di-O-desmethyl dimethoxybenzene');
+  });
+
+  describe('custom rules', () => {
+    const acetylation: BiotransformationRule = {
+      id: 'n_acetylation',
+      name: 'Aromatic amine N-acetylation',
+      phase: 'II',
+      label: 'N-acetyl',
+      smirks: '[NH2:1][c:2]>>[c:2][NH:1]C(C)=O',
+      enzymes: ['NAT2', 'NAT1'],
+      site: 'primary aromatic amine',
+      probability: 0.7,
+    };
+
+    it('applies a registered rule', () => {
+      const custom = new MetabolitePredictor([acetylation]);
+
+      expect(custom.predict(parseSmiles('Nc1ccccc1'), 'aniline').map(metabolite => metabolite.smiles)).toEqual([canonical('CC(=O)Nc1ccccc1')]);
+      expect(custom.unregisterRule('n_acetylation')).toBe(true);
+      expect(custom.getRules()).toEqual([]);
+    });
+
+    it.each<[string, Partial<BiotransformationRule>]>([
+      ['an invalid id', { id: 'n acetylation' }],
+      ['a zero probability', { probability: 0 }],
+      ['no enzymes', { enzymes: [] }],
+      ['an invalid SMIRKS', { smirks: '[NH2:1][c:2]' }],
+    ])('rejects a rule with %s', (_name, override) => {
+      expect(() => new MetabolitePredictor([{ ...acetylation, ...override }])).toThrow(MetabolismRuleError);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  Mol2Error,
+  MolFileError,
+  canonicalSmiles,
+  compute2DCoordinates,
+  generateConformers,
+  parseSmiles,
+  readMol2,
+  readMolBlock,
+  splitMol2,
+  splitSdf,
+  writeMol2,
+  writeMolBlock,
+  writeSdf,
+} from '..';
+
+const canonical = (smiles: string): string => canonicalSmiles(parseSmiles(smiles));
+
+describe('molfiles', () => {
+  it.each([
+    ['aromatic rings', 'CC(=O)Oc1ccccc1C(=O)O'],
+    ['charges', 'C[N+](=O)[O-]'],
+    ['isotopes', '[13CH3]O'],
+    ['tetrahedral stereo', 'N[C@@H](C)C(=O)O'],
+    ['double-bond stereo', 'C/C=C/C(=O)O'],
+  ])('round-trips %s through 2D coordinates', (_name, smiles) => {
+    const molecule = parseSmiles(smiles);
+    const block = writeMolBlock(molecule, compute2DCoordinates(molecule), { name: 'Test' });
+    const read = readMolBlock(block);
+
+    expect(read.name).toBe('Test');
+    expect(canonicalSmiles(read.molecule)).toBe(canonical(smiles));
+  });
+
+  it('takes stereo from 3D coordinates', () => {
+    const { molecule, conformers } = generateConformers(parseSmiles('N[C@@H](C)C(=O)O'), { attempts: 1 });
+    const read = readMolBlock(writeMolBlock(molecule, conformers[0]!.coordinates));
+
+    expect(canonicalSmiles(read.molecule)).toBe(canonical('N[C@@H](C)C(=O)O'));
+  });
+
+  it('rejects mismatched coordinates and truncated blocks', () => {
+    expect(() => writeMolBlock(parseSmiles('CCO'), [{ x: 0, y: 0 }])).toThrow(MolFileError);
+    expect(() => readMolBlock('Test\n\n')).toThrow(MolFileError);
+  });
+});
+
+describe('SD files', () => {
+  const ethanol = parseSmiles('CCO');
+  const sdf = writeSdf([
+    { molecule: ethanol, coordinates: compute2DCoordinates(ethanol), name: 'Ethanol', properties: { CAS: '64-17-5', Notes: 'volatile\nflammable', Empty: null } },
+    { molecule: ethanol, coordinates: compute2DCoordinates(ethanol), name: 'Second' },
+  ]);
+
+  it('splits records and reads multi-line data items', () => {
+    const entries = splitSdf(sdf);
+
+    expect(entries.map(entry => [entry.record, entry.name])).toEqual([[1, 'Ethanol'], [2, 'Second']]);
+    expect(entries[0]!.properties).toEqual({ CAS: '64-17-5', Notes: 'volatile\nflammable' });
+    expect(canonicalSmiles(readMolBlock(entries[0]!.molBlock).molecule)).toBe('CCO');
+  });
+
+  it('keeps later records when one cannot be read', () => {
+    const entries = splitSdf(`Broken\n\n\nnot a counts line\nM  END\n$$$$\n${sdf}`);
+
+    expect(entries).toHaveLength(3);
+    expect(() => readMolBlock(entries[0]!.molBlock)).toThrow();
+    expect(canonicalSmiles(readMolBlock(entries[1]!.molBlock).molecule)).toBe('CCO');
+  });
+
+  it('accepts Windows line endings', () => {
+    expect(splitSdf(sdf.replace(/\n/g, '\r\n'))).toHaveLength(2);
+  });
+});
+
+describe('MOL2', () => {
+  it.each([
+    ['aromatic rings', 'Oc1ccccc1'],
+    ['charges', 'C[NH3+]'],
+    ['amides', 'CC(=O)N'],
+  ])('round-trips %s', (_name, smiles) => {
+    const molecule = parseSmiles(smiles).withExplicitHydrogens();
+    const block = writeMol2(molecule, compute2DCoordinates(molecule), { name: 'Test' });
+    const [entry] = splitMol2(block);
+
+    expect(entry!.name).toBe('Test');
+    expect(canonicalSmiles(readMol2(entry!.block).molecule)).toBe(canonical(smiles));
+  });
+
+  it('requires explicit hydrogens', () => {
+    const molecule = parseSmiles('CCO');
+
+    expect(() => writeMol2(molecule, compute2DCoordinates(molecule))).toThrow(Mol2Error);
+  });
+});
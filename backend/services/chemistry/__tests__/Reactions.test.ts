@@ -0,0 +1,50 @@
+import { ReactionParseError, canonicalSmiles, parseReaction, parseSmiles } from '..';
+
+const products = (smirks: string, smiles: string): string[] =>
+  parseReaction(smirks).apply(parseSmiles(smiles)).map(product => product.smiles);
+
+const canonical = (smiles: string): string => canonicalSmiles(parseSmiles(smiles));
+
+describe('ReactionTransform', () => {
+  it('deletes unmapped reactant atoms and adjusts hydrogens', () => {
+    expect(products('[CH3][O:1][c:2]>>[OH:1][c:2]', 'COc1ccccc1')).toEqual([canonical('Oc1ccccc1')]);
+  });
+
+  it('creates unmapped product atoms', () => {
+    expect(products('[OH:1][c:2]>>[c:2][O:1]S(=O)(=O)O', 'Oc1ccccc1')).toEqual([canonical('OS(=O)(=O)Oc1ccccc1')]);
+  });
+
+  it('changes the order of bonds between mapped atoms', () => {
+    expect(products('[C:1]=[C:2][C:3]=[O:4]>>[C:1][C:2][C:3]=[O:4]', 'CC=CC(C)=O')).toEqual([canonical('CCCC(C)=O')]);
+  });
+
+  it('breaks a ring into two fragments of one molecule', () => {
+    expect(products('[c:1][O:2][CH2][O:3][c:4]>>[c:1][OH:2].[c:4][OH:3]', 'c1ccc2OCOc2c1')).toEqual([canonical('Oc1ccccc1O')]);
+  });
+
+  it('returns one product per distinct site and leaves the rest of the molecule alone', () => {
+    const result = parseReaction('[OH:1][c:2]>>[c:2][O:1]C').apply(parseSmiles('Oc1ccc(O)cc1C'));
+
+    expect(result.map(product => product.smiles).sort()).toEqual([canonical('COc1ccc(O)c(C)c1'), canonical('COc1ccc(O)cc1C')].sort());
+    expect(result.every(product => product.atoms.length === 2)).toBe(true);
+  });
+
+  it('deduplicates symmetric sites', () => {
+    expect(products('[OH:1][c:2]>>[c:2][O:1]C', 'Oc1ccc(O)cc1')).toHaveLength(1);
+  });
+
+  it('caps the number of products', () => {
+    expect(parseReaction('[cH:1]>>[c:1]Cl').apply(parseSmiles('c1ccc2ccccc2c1'), 1)).toHaveLength(1);
+  });
+
+  it.each([
+    ['no arrow', '[C:1]O'],
+    ['an empty side', '[C:1]O>>'],
+    ['invalid SMARTS', '[C:1>>[C:1]'],
+    ['duplicate maps', '[C:1][O:1]>>[C:1]'],
+    ['a product map missing from the reactant', '[C:1]O>>[C:1][O:2]'],
+    ['a new atom without an element', '[C:1]>>[C:1]*'],
+  ])('rejects a reaction with %s', (_name, smirks) => {
+    expect(() => parseReaction(smirks)).toThrow(ReactionParseError);
+  });
+});
@@ -0,0 +1,21 @@
+import { murckoScaffold, parseSmiles, scaffoldSmiles } from '..';
+
+describe('scaffoldSmiles', () => {
+  it.each([
+    ['ibuprofen', 'CC(C)Cc1ccc(cc1)C(C)C(=O)O', 'c1ccccc1', 'C1CCCCC1'],
+    ['benzhydrol', 'OC(c1ccccc1)c1ccccc1', 'c1ccc(cc1)Cc1ccccc1', 'C(C1CCCCC1)C1CCCCC1'],
+    ['curcumin', 'COc1cc(/C=C/C(=O)CC(=O)/C=C/c2ccc(O)c(OC)c2)ccc1O', 'C(=Cc1ccccc1)C(CC(C=Cc1ccccc1)=O)=O', 'C(CCCC1CCCCC1)CCCC1CCCCC1'],
+    ['methylenecyclohexane', 'C=C1CCCCC1', 'C=C1CCCCC1', 'C1CCCCC1'],
+  ])('reduces %s to its framework', (_name, smiles, murcko, generic) => {
+    expect(scaffoldSmiles(parseSmiles(smiles))).toEqual({ murcko, generic });
+  });
+
+  it('gives stereoisomers the same scaffold', () => {
+    expect(scaffoldSmiles(parseSmiles('C[C@H]1CCCC[C@@H]1O'))).toEqual(scaffoldSmiles(parseSmiles('C[C@@H]1CCCC[C@@H]1O')));
+  });
+
+  it('has no scaffold for acyclic molecules', () => {
+    expect(murckoScaffold(parseSmiles('CCCCCC'))).toBeNull();
+    expect(scaffoldSmiles(parseSmiles('CCCCCC'))).toEqual({ murcko: '', generic: '' });
+  });
+});
@@ -0,0 +1,84 @@
+import { SmartsParseError, derivePharmacophores, parseSmarts, parseSmiles } from '..';
+
+const count = (smarts: string, smiles: string): number => parseSmarts(smarts).match(parseSmiles(smiles)).length;
+
+describe('SMARTS matching', () => {
+  it.each([
+    ['aliphatic carbon', 'C', 'CCO', 2],
+    ['aromatic carbon', 'c', 'Oc1ccccc1', 6],
+    ['any carbon by atomic number', '[#6]', 'Oc1ccccc1', 6],
+    ['hydroxyl', '[OX2H1]', 'OCCO', 2],
+    ['carbonyl', 'C=O', 'CC(=O)OC', 1],
+    ['carboxylic acid', 'C(=O)[OH1]', 'CC(=O)O', 1],
+    ['negative charge', '[O-]', 'C[N+](=O)[O-]', 1],
+    ['element list', '[N,O]', 'NCCO', 2],
+    ['negation', '[!#6;!#1]', 'NCCO', 2],
+    ['degree', '[CX4;D1]', 'CC(C)C', 3],
+    ['ring membership', '[R]', 'CC1CCCCC1', 6],
+    ['ring size', '[r5]', 'C1CCC1.C1CCCC1', 5],
+    ['ring bond', 'C@C', 'CCC1CC1', 3],
+    ['chain bond', 'C!@C', 'CCC1CC1', 2],
+    ['any bond', 'c~o', 'c1ccoc1', 2],
+    ['recursive environment', '[$(cO)]', 'Oc1ccccc1', 1],
+  ])('matches %s', (_name, smarts, smiles, expected) => {
+    expect(count(smarts, smiles)).toBe(expected);
+  });
+
+  it('reports each set of atoms once however the query can be mapped', () => {
+    expect(count('c1ccccc1', 'c1ccccc1')).toBe(1);
+    expect(count('CC', 'CCC')).toBe(2);
+  });
+
+  it('returns matched atoms in query order', () => {
+    expect(parseSmarts('O=C[OH1]').match(parseSmiles('CC(=O)O'))).toEqual([[2, 1, 3]]);
+  });
+
+  it('stops at the requested number of matches', () => {
+    expect(parseSmarts('C').match(parseSmiles('CCCCCC'), 2)).toHaveLength(2);
+  });
+
+  it('anchors a match on a given atom', () => {
+    const phenol = parseSmiles('Oc1ccccc1');
+    const pattern = parseSmarts('cO');
+
+    expect(pattern.matchesAt(phenol, 1)).toBe(true);
+    expect(pattern.matchesAt(phenol, 2)).toBe(false);
+  });
+
+  it('distinguishes aromatic from aliphatic rings', () => {
+    expect(parseSmarts('c1ccccc1').hasMatch(parseSmiles('C1CCCCC1'))).toBe(false);
+    expect(parseSmarts('C1CCCCC1').hasMatch(parseSmiles('c1ccccc1'))).toBe(false);
+  });
+
+  it('exposes atom maps and the elements used for screening', () => {
+    const pattern = parseSmarts('[C:1](=O)[O,N:2]');
+
+    expect(pattern.atomMaps()).toEqual([1, null, 2]);
+    expect(pattern.screeningAtoms()).toEqual(['C', 'O', null]);
+  });
+
+  it.each(['C(', '[C', 'C1CC', '[Q]', 'C=', ''])('rejects %p', smarts => {
+    expect(() => parseSmarts(smarts)).toThrow(SmartsParseError);
+  });
+
+  it('reports where parsing failed', () => {
+    expect(() => parseSmarts('CC)C')).toThrow(expect.objectContaining({ position: 2 }));
+  });
+});
+
+describe('derivePharmacophores', () => {
+  it('finds the features of a phenolic acid', () => {
+    expect(derivePharmacophores(parseSmiles('OC(=O)c1ccc(O)cc1'))).toEqual(expect.arrayContaining([
+      'hydrogen_bond_donor',
+      'hydrogen_bond_acceptor',
+      'aromatic_ring',
+      'negative_ionizable',
+      'phenol',
+    ]));
+  });
+
+  it('does not report a catechol for a single phenol', () => {
+    expect(derivePharmacophores(parseSmiles('Oc1ccccc1'))).not.toContain('catechol');
+    expect(derivePharmacophores(parseSmiles('Oc1ccccc1O'))).toContain('catechol');
+  });
+});
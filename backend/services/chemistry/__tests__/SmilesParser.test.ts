@@ -0,0 +1,57 @@
+import { parseSmiles, validateSmiles } from '..';
+
+describe('parseSmiles', () => {
+  it('fills organic-subset atoms up to their lowest fitting valence', () => {
+    const acid = parseSmiles('CC(=O)O');
+
+    expect(acid.atoms.map(atom => atom.implicitHydrogens)).toEqual([3, 0, 0, 1]);
+    expect(acid.getFormula()).toBe('C2H4O2');
+  });
+
+  it('reads charges, isotopes and explicit hydrogens from bracket atoms', () => {
+    const molecule = parseSmiles('[13CH3][NH3+]');
+
+    expect(molecule.atoms[0]).toMatchObject({ element: 'C', isotope: 13, implicitHydrogens: 3 });
+    expect(molecule.atoms[1]).toMatchObject({ element: 'N', charge: 1, implicitHydrogens: 3 });
+  });
+
+  it('rejects unclosed rings', () => {
+    expect(() => parseSmiles('C1CC')).toThrow('Unclosed ring bond 1');
+  });
+
+  it('reports a ring bond reopened with a different order on the atom that closed it', () => {
+    expect(() => parseSmiles('C1CC1=1')).toThrow(
+      "Ring bond 1 is reopened with bond order '=' on the atom that closed it with '-'"
+    );
+    expect(() => parseSmiles('C1CC11')).toThrow('Unclosed ring bond 1');
+  });
+});
+
+describe('validateSmiles', () => {
+  it.each([
+    ['ethanol', 'CCO'],
+    ['pyridine', 'c1ccncc1'],
+    ['tetramethylammonium', 'C[N+](C)(C)C'],
+    ['nitromethane, pentavalent form', 'CN(=O)=O'],
+    ['nitromethane, charge-separated form', 'C[N+](=O)[O-]'],
+    ['dimethyl sulfone', 'CS(=O)(=O)C'],
+    ['phosphoric acid', 'OP(=O)(O)O'],
+    ['methylphosphinic acid', 'CP(=O)O'],
+    ['phosphorous acid', 'OP(O)=O'],
+    ['methylphosphonic acid', 'CP(=O)(O)O'],
+  ])('accepts %s', (_name, smiles) => {
+    expect(validateSmiles(smiles)).toMatchObject({ valid: true, errors: [] });
+  });
+
+  it.each([
+    ['neutral four-coordinate nitrogen', 'N(C)(C)(C)C', 'Atom 1 (N) has 4 bonds, more than its default valence 3'],
+    ['iminium written without its charge', 'C=N(C)C', 'Atom 2 (N) has 4 bonds, more than its default valence 3'],
+    ['five-bonded carbon', 'C(C)(C)(C)(C)C', 'Atom 1 (C) has valence 5, expected 4'],
+    ['bracket atom without its hydrogens', 'C[S](C)C', 'Atom 2 (S) has valence 3, expected 2 or 4 or 6'],
+  ])('rejects %s', (_name, smiles, message) => {
+    const result = validateSmiles(smiles);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain(message);
+  });
+});
@@ -0,0 +1,73 @@
+import { BUILT_IN_ALERTS, StructuralAlert, StructuralAlertError, StructuralAlertLibrary, parseSmiles } from '..';
+
+const ids = (library: StructuralAlertLibrary, smiles: string): string[] =>
+  library.screen(parseSmiles(smiles)).map(hit => hit.id);
+
+describe('StructuralAlertLibrary', () => {
+  const library = new StructuralAlertLibrary();
+
+  it('compiles every built-in alert', () => {
+    expect(library.getAlerts()).toHaveLength(BUILT_IN_ALERTS.length);
+  });
+
+  it.each([
+    ['catechol', 'Oc1ccccc1O', 'pains_catechol'],
+    ['aldehyde', 'CCC=O', 'brenk_aldehyde'],
+    ['acyl chloride', 'CC(=O)Cl', 'brenk_acyl_halide'],
+    ['nitrobenzene', 'O=[N+]([O-])c1ccccc1', 'ames_aromatic_nitro'],
+    ['aniline', 'Nc1ccccc1', 'ames_aromatic_amine'],
+    ['ethylene oxide', 'C1CO1', 'ames_epoxide'],
+    ['safrole', 'C=CCc1ccc2OCOc2c1', 'ames_alkenylbenzene'],
+    ['furan', 'c1ccoc1', 'hep_furan'],
+    ['paracetamol', 'CC(=O)Nc1ccc(O)cc1', 'hep_aminophenol'],
+  ])('flags %s', (_name, smiles, id) => {
+    expect(ids(library, smiles)).toContain(id);
+  });
+
+  it('reports nothing for a clean structure', () => {
+    expect(ids(library, 'Cn1cnc2c1c(=O)n(C)c(=O)n2C')).toEqual([]);
+  });
+
+  it('records the matched atoms and alert metadata', () => {
+    const [hit] = library.screen(parseSmiles('CCC=O'), ['brenk']);
+
+    expect(hit).toMatchObject({ id: 'brenk_aldehyde', category: 'brenk', severity: 'medium' });
+    expect(hit!.atoms).toEqual([[2, 3, 1]]);
+  });
+
+  it('restricts screening to the requested categories', () => {
+    const safrole = parseSmiles('C=CCc1ccc2OCOc2c1');
+
+    expect(library.screen(safrole, ['hepatotoxicity']).map(hit => hit.id)).toEqual(['hep_methylenedioxy']);
+    expect(library.screen(safrole, ['pains'])).toEqual([]);
+  });
+
+  describe('custom alerts', () => {
+    const nitrile: StructuralAlert = {
+      id: 'custom_nitrile',
+      name: 'Nitrile',
+      category: 'brenk',
+      severity: 'low',
+      smarts: ['C#N'],
+      reference: 'In-house',
+    };
+
+    it('registers and unregisters an alert', () => {
+      const custom = new StructuralAlertLibrary([]);
+      custom.registerAlert(nitrile);
+
+      expect(ids(custom, 'CC#N')).toEqual(['custom_nitrile']);
+      expect(custom.unregisterAlert('custom_nitrile')).toBe(true);
+      expect(ids(custom, 'CC#N')).toEqual([]);
+    });
+
+    it.each<[string, Partial<StructuralAlert>]>([
+      ['an invalid id', { id: 'custom nitrile' }],
+      ['no reference', { reference: '' }],
+      ['no SMARTS', { smarts: [] }],
+      ['invalid SMARTS', { smarts: ['C#'] }],
+    ])('rejects an alert with %s', (_name, override) => {
+      expect(() => new StructuralAlertLibrary([{ ...nitrile, ...override }])).toThrow(StructuralAlertError);
+    });
+  });
+});
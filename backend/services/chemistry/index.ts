@@ -0,0 +1,121 @@
+export { Molecule, MoleculeError, getAllowedValences } from './Molecule';
+export type { Atom, Bond, BondOrder, DoubleBondGeometry } from './Molecule';
+
+export { SmilesParser, SmilesParseError, parseSmiles, validateSmiles } from './SmilesParser';
+export type { SmilesValidationResult } from './SmilesParser';
+
+export {
+  calculateDescriptors,
+  calculateCrippenLogP,
+  calculateCrippenMR,
+  calculateEsolLogS,
+  calculateTPSA,
+  calculateBertzComplexity,
+  countHBondDonors,
+  countHBondAcceptors,
+  countRotatableBonds,
+  crippenAtomType,
+  crippenHydrogenType,
+} from './Descriptors';
+export type { DescriptorSet } from './Descriptors';
+
+export {
+  DrugLikenessEngine,
+  RuleSetValidationError,
+  BUILT_IN_RULE_SETS,
+  drugLikenessEngine,
+  formatViolation,
+} from './DrugLikeness';
+export type {
+  DescriptorName,
+  DrugLikenessRuleSet,
+  RuleCriterion,
+  RuleSetResult,
+  RuleViolation,
+} from './DrugLikeness';
+
+export {
+  Fingerprint,
+  FINGERPRINT_VERSION,
+  MORGAN_BITS,
+  MORGAN_RADIUS,
+  PATTERN_BITS,
+  STRUCTURAL_KEYS,
+  computeFingerprints,
+  fingerprintFromStored,
+  maccsKeys,
+  morganFingerprint,
+  patternFingerprint,
+  queryPatternFingerprint,
+  sharedStructuralKeys,
+} from './Fingerprints';
+export type { FingerprintType, StoredFingerprints } from './Fingerprints';
+
+export { SmartsPattern, SmartsParseError, parseSmarts } from './Smarts';
+export type { ScreeningBondClass } from './Smarts';
+
+export { PHARMACOPHORE_DEFINITIONS, derivePharmacophores, getPharmacophorePatterns } from './Pharmacophores';
+export type { PharmacophoreDefinition } from './Pharmacophores';
+
+export { StructuralAlertLibrary, StructuralAlertError, BUILT_IN_ALERTS, structuralAlertLibrary } from './StructuralAlerts';
+export type { AlertCategory, AlertSeverity, StructuralAlert, StructuralAlertHit } from './StructuralAlerts';
+
+export { canonicalSmiles, canonicalRanks, structureKey } from './Canonical';
+export type { CanonicalSmilesOptions } from './Canonical';
+
+export { genericScaffold, murckoScaffold, scaffoldSmiles } from './Scaffolds';
+export type { ScaffoldSmiles } from './Scaffolds';
+
+export { bricsFragments, findBricsBonds } from './Brics';
+export type { BricsBond, BricsFragment } from './Brics';
+
+export { ReactionTransform, ReactionParseError, parseReaction } from './Reactions';
+export type { ReactionProduct } from './Reactions';
+
+export {
+  MetabolitePredictor,
+  MetabolismRuleError,
+  BIOTRANSFORMATION_RULES,
+  metabolitePredictor,
+} from './Metabolism';
+export type {
+  BiotransformationRule,
+  MetabolicPhase,
+  MetaboliteStep,
+  MetabolitePredictionOptions,
+  PredictedMetabolite,
+} from './Metabolism';
+
+export { ForceField, hybridization, minimizeLbfgs } from './ForceField';
+export type { Hybridization, Objective, TorsionBarrier } from './ForceField';
+
+export { ConformerError, conformerRmsd, generateConformers, generateConformersAsync } from './Conformers';
+export type { Conformer3D, ConformerOptions, ConformerSet, Point3D } from './Conformers';
+
+export { DEPICTION_BOND_LENGTH, compute2DCoordinates, renderSvg } from './Depiction';
+export type { Point2D, SvgOptions } from './Depiction';
+
+export { MolFileError, readMolBlock, splitSdf, writeMolBlock, writeSdf, writeXyz } from './MolFile';
+export type { MolBlockContents, MolBlockOptions, MolCoordinate, SdfEntry, SdfRecord } from './MolFile';
+
+export { Mol2Error, readMol2, splitMol2, writeMol2 } from './Mol2';
+export type { Mol2Contents, Mol2Entry, Mol2Options } from './Mol2';
+
+export { ConnectionTableError, assignWedges, moleculeFromTable } from './ConnectionTable';
+export type { TableAtom, TableBond, TableOptions, WedgeStyle } from './ConnectionTable';
+
+export { DistanceMatrix, butinaCluster, diversityStatistics, maxMinPick } from './Clustering';
+export type { ButinaOptions, DiversityStatistics, FingerprintCluster } from './Clustering';
+
+export { HYDROGEN_VARIABLE, findMatchedPairs, fragmentForMmp } from './MatchedPairs';
+export type { MatchedPair, MmpFragment, MmpOptions } from './MatchedPairs';
+
+export { CYP_ISOFORMS, predictAdmetLiabilities } from './AdmetRules';
+export type {
+  AdmetEstimate,
+  AdmetLiabilities,
+  CypIsoform,
+  HergRisk,
+  SolubilityClass,
+  SolubilityEstimate,
+} from './AdmetRules';
@@ -0,0 +1,115 @@
+// Cytoscape JSON and GraphML serialisation of pharmacology networks
+
+import { AttributeValue, NodeMetrics, PharmacologyGraph } from './Graph';
+
+export const NETWORK_EXPORT_FORMATS = ['cytoscape', 'graphml'] as const;
+export type NetworkExportFormat = typeof NETWORK_EXPORT_FORMATS[number];
+
+const METRIC_KEYS: Array<keyof NodeMetrics> = ['degree', 'weightedDegree', 'betweenness', 'closeness', 'eigenvector'];
+
+const edgeId = (index: number): string => `e${index}`;
+
+/**
+ * Cytoscape.js elements document, importable by Cytoscape desktop as .cyjs
+ */
+export function toCytoscape(graph: PharmacologyGraph, metrics: Map<string, NodeMetrics>, name: string): object {
+  return {
+    format_version: '1.0',
+    generated_by: 'ayurvedic-knowledge-base',
+    target_cytoscapejs_version: '~3.0',
+    data: { name, nodes: graph.nodeCount, edges: graph.edgeCount },
+    elements: {
+      nodes: graph.getNodes().map(node => ({
+        data: {
+          id: node.id,
+          name: node.label,
+          type: node.type,
+          ...node.attributes,
+          ...metrics.get(node.id),
+        },
+      })),
+      edges: graph.getEdges().map((edge, index) => ({
+        data: {
+          id: edgeId(index),
+          source: edge.source,
+          target: edge.target,
+          interaction: edge.type,
+          weight: edge.weight,
+          inferred: edge.inferred,
+        },
+      })),
+    },
+  };
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const graphmlType = (value: AttributeValue): string =>
+  typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? (Number.isInteger(value) ? 'int' : 'double') : 'string';
+
+/**
+ * GraphML document with node types, attributes and metrics declared as keys
+ */
+export function toGraphML(graph: PharmacologyGraph, metrics: Map<string, NodeMetrics>, name: string): string {
+  const nodes = graph.getNodes();
+
+  // Attribute keys are declared with the type of their first value; mixed numbers widen to double
+  const attributeTypes = new Map<string, string>();
+  for (const node of nodes) {
+    for (const [key, value] of Object.entries(node.attributes)) {
+      const type = graphmlType(value);
+      const known = attributeTypes.get(key);
+      if (!known || (known === 'int' && type === 'double')) attributeTypes.set(key, type);
+    }
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    ...METRIC_KEYS.map(key =>
+      `  <key id="${key}" for="node" attr.name="${key}" attr.type="${key === 'degree' ? 'int' : 'double'}"/>`),
+    ...[...attributeTypes].map(([key, type]) =>
+      `  <key id="attr_${escapeXml(key)}" for="node" attr.name="${escapeXml(key)}" attr.type="${type}"/>`),
+    '  <key id="interaction" for="edge" attr.name="interaction" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="inferred" for="edge" attr.name="inferred" attr.type="boolean"/>',
+    `  <graph id="${escapeXml(name)}" edgedefault="directed">`,
+  ];
+
+  for (const node of nodes) {
+    const nodeMetrics = metrics.get(node.id);
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    lines.push(`      <data key="type">${node.type}</data>`);
+    if (nodeMetrics) {
+      METRIC_KEYS.forEach(key => lines.push(`      <data key="${key}">${nodeMetrics[key]}</data>`));
+    }
+    for (const [key, value] of Object.entries(node.attributes)) {
+      lines.push(`      <data key="attr_${escapeXml(key)}">${escapeXml(String(value))}</data>`);
+    }
+    lines.push('    </node>');
+  }
+
+  graph.getEdges().forEach((edge, index) => {
+    lines.push(`    <edge id="${edgeId(index)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      <data key="interaction">${edge.type}</data>`);
+    lines.push(`      <data key="weight">${edge.weight}</data>`);
+    lines.push(`      <data key="inferred">${edge.inferred}</data>`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+export function exportContentType(format: NetworkExportFormat): string {
+  return format === 'graphml' ? 'application/graphml+xml' : 'application/json';
+}
+
+export function exportFileExtension(format: NetworkExportFormat): string {
+  return format === 'graphml' ? 'graphml' : 'cyjs';
+}
@@ -0,0 +1,272 @@
+// Multi-partite herb/compound/target/pathway/disease graph and its centrality metrics
+
+export const NODE_TYPES = ['herb', 'compound', 'target', 'pathway', 'disease'] as const;
+export type NodeType = typeof NODE_TYPES[number];
+
+export type EdgeType = 'contains' | 'targets' | 'modulates' | 'participates_in' | 'associated_with';
+
+export type AttributeValue = string | number | boolean;
+
+export interface NetworkNode {
+  id: string;
+  type: NodeType;
+  label: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  type: EdgeType;
+  /** Number of compounds supporting an inferred edge; 1 for curated edges */
+  weight: number;
+  /** Derived from co-occurrence on the same compound rather than stored directly */
+  inferred: boolean;
+}
+
+export interface NodeMetrics {
+  degree: number;
+  weightedDegree: number;
+  /** Normalised to [0, 1] over all node pairs */
+  betweenness: number;
+  /** Wasserman-Faust closeness, comparable across components */
+  closeness: number;
+  /** Scaled so the most central node scores 1 */
+  eigenvector: number;
+}
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/** Sources processed between yields while computing betweenness */
+const SOURCES_PER_SLICE = 100;
+
+export const nodeId = (type: NodeType, key: string): string => `${type}:${key.trim().toLowerCase()}`;
+
+/**
+ * Undirected graph whose edges keep the herb → disease orientation they were added with
+ */
+export class PharmacologyGraph {
+  private nodes = new Map<string, NetworkNode>();
+  private edges = new Map<string, NetworkEdge>();
+  private adjacency = new Map<string, Map<string, number>>();
+
+  public get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  public get edgeCount(): number {
+    return this.edges.size;
+  }
+
+  public getNodes(): NetworkNode[] {
+    return [...this.nodes.values()];
+  }
+
+  public getEdges(): NetworkEdge[] {
+    return [...this.edges.values()];
+  }
+
+  public getNode(id: string): NetworkNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * Adds a node, merging attributes into an existing one with the same id
+   */
+  public addNode(type: NodeType, key: string, label: string, attributes: Record<string, AttributeValue> = {}): string {
+    const id = nodeId(type, key);
+    const defined = Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined && value !== null));
+    const existing = this.nodes.get(id);
+    if (existing) {
+      Object.assign(existing.attributes, defined);
+    } else {
+      this.nodes.set(id, { id, type, label, attributes: defined });
+      this.adjacency.set(id, new Map());
+    }
+    return id;
+  }
+
+  /**
+   * Adds an edge between existing nodes; repeating an edge adds to its weight
+   */
+  public addEdge(source: string, target: string, type: EdgeType, inferred: boolean = false): void {
+    if (source === target || !this.nodes.has(source) || !this.nodes.has(target)) return;
+
+    const key = source < target ? `${source}|${target}` : `${target}|${source}`;
+    const existing = this.edges.get(key);
+    if (existing) {
+      existing.weight += 1;
+      existing.inferred = existing.inferred && inferred;
+    } else {
+      this.edges.set(key, { source, target, type, weight: 1, inferred });
+    }
+
+    const weight = this.edges.get(key)!.weight;
+    this.adjacency.get(source)!.set(target, weight);
+    this.adjacency.get(target)!.set(source, weight);
+  }
+
+  public neighbors(id: string): string[] {
+    return [...(this.adjacency.get(id)?.keys() ?? [])];
+  }
+
+  /**
+   * Nodes within `depth` hops of the seeds
+   */
+  public neighborhood(seeds: string[], depth: number): Set<string> {
+    const reached = new Set(seeds.filter(seed => this.nodes.has(seed)));
+    let frontier = [...reached];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const neighbor of this.neighbors(id)) {
+          if (!reached.has(neighbor)) {
+            reached.add(neighbor);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  public subgraph(ids: Set<string>): PharmacologyGraph {
+    const graph = new PharmacologyGraph();
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      graph.nodes.set(id, { ...node, attributes: { ...node.attributes } });
+      graph.adjacency.set(id, new Map());
+    }
+    for (const [key, edge] of this.edges) {
+      if (ids.has(edge.source) && ids.has(edge.target)) {
+        graph.edges.set(key, { ...edge });
+        graph.adjacency.get(edge.source)!.set(edge.target, edge.weight);
+        graph.adjacency.get(edge.target)!.set(edge.source, edge.weight);
+      }
+    }
+    return graph;
+  }
+
+  public components(): string[][] {
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    for (const id of this.nodes.keys()) {
+      if (seen.has(id)) continue;
+      const component = [...this.neighborhood([id], Infinity)];
+      component.forEach(member => seen.add(member));
+      components.push(component);
+    }
+    return components.sort((a, b) => b.length - a.length);
+  }
+
+  public get density(): number {
+    const n = this.nodes.size;
+    return n < 2 ? 0 : (2 * this.edges.size) / (n * (n - 1));
+  }
+
+  /**
+   * Degree, Brandes betweenness, closeness and eigenvector centrality of every node
+   */
+  public async computeMetrics(): Promise<Map<string, NodeMetrics>> {
+    const ids = [...this.nodes.keys()];
+    const index = new Map(ids.map((id, position) => [id, position]));
+    const neighbors = ids.map(id => [...this.adjacency.get(id)!.keys()].map(neighbor => index.get(neighbor)!));
+    const n = ids.length;
+
+    const betweenness = new Float64Array(n);
+    const closeness = new Float64Array(n);
+    const sigma = new Float64Array(n);
+    const distance = new Int32Array(n);
+    const delta = new Float64Array(n);
+
+    for (let source = 0; source < n; source++) {
+      sigma.fill(0);
+      distance.fill(-1);
+      delta.fill(0);
+      const predecessors: number[][] = ids.map(() => []);
+      const order: number[] = [];
+      const queue = [source];
+      sigma[source] = 1;
+      distance[source] = 0;
+
+      for (let head = 0; head < queue.length; head++) {
+        const v = queue[head]!;
+        order.push(v);
+        for (const w of neighbors[v]!) {
+          if (distance[w]! < 0) {
+            distance[w] = distance[v]! + 1;
+            queue.push(w);
+          }
+          if (distance[w] === distance[v]! + 1) {
+            sigma[w]! += sigma[v]!;
+            predecessors[w]!.push(v);
+          }
+        }
+      }
+
+      let total = 0;
+      for (const v of order) total += distance[v]!;
+      const reached = order.length;
+      closeness[source] = total > 0 && n > 1 ? ((reached - 1) / (n - 1)) * ((reached - 1) / total) : 0;
+
+      for (let position = order.length - 1; position >= 0; position--) {
+        const w = order[position]!;
+        for (const v of predecessors[w]!) {
+          delta[v]! += (sigma[v]! / sigma[w]!) * (1 + delta[w]!);
+        }
+        if (w !== source) betweenness[w]! += delta[w]!;
+      }
+
+      if ((source + 1) % SOURCES_PER_SLICE === 0) {
+        await yieldToEventLoop();
+      }
+    }
+
+    // Each undirected pair was counted from both ends
+    const pairs = ((n - 1) * (n - 2)) / 2;
+    const eigenvector = this.eigenvectorCentrality(ids, index);
+    const metrics = new Map<string, NodeMetrics>();
+    ids.forEach((id, position) => {
+      const adjacent = this.adjacency.get(id)!;
+      metrics.set(id, {
+        degree: adjacent.size,
+        weightedDegree: [...adjacent.values()].reduce((sum, weight) => sum + weight, 0),
+        betweenness: pairs > 0 ? betweenness[position]! / 2 / pairs : 0,
+        closeness: closeness[position]!,
+        eigenvector: eigenvector[position]!,
+      });
+    });
+    return metrics;
+  }
+
+  /**
+   * Power iteration on A + I, which converges on multi-partite graphs where plain A oscillates
+   */
+  private eigenvectorCentrality(ids: string[], index: Map<string, number>): Float64Array {
+    const n = ids.length;
+    let vector = new Float64Array(n).fill(n > 0 ? 1 / Math.sqrt(n) : 0);
+
+    for (let iteration = 0; iteration < 200; iteration++) {
+      const next = new Float64Array(n);
+      ids.forEach((id, position) => {
+        next[position] = vector[position]!;
+        for (const [neighbor, weight] of this.adjacency.get(id)!) {
+          next[position]! += weight * vector[index.get(neighbor)!]!;
+        }
+      });
+      const norm = Math.sqrt(next.reduce((sum, value) => sum + value * value, 0)) || 1;
+      let change = 0;
+      for (let position = 0; position < n; position++) {
+        next[position]! /= norm;
+        change += Math.abs(next[position]! - vector[position]!);
+      }
+      vector = next;
+      if (change < 1e-9 * n) break;
+    }
+
+    const max = vector.reduce((best, value) => Math.max(best, value), 0) || 1;
+    return vector.map(value => value / max);
+  }
+}
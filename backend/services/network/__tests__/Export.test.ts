@@ -0,0 +1,61 @@
+import { PharmacologyGraph, exportContentType, exportFileExtension, toCytoscape, toGraphML } from '..';
+
+async function network() {
+  const graph = new PharmacologyGraph();
+  const herb = graph.addNode('herb', 'h1', 'Guduchi & <Amrita>', { english: 'Heart-leaved moonseed' });
+  const first = graph.addNode('compound', 'c1', 'Berberine', { rings: 4 });
+  const second = graph.addNode('compound', 'c2', 'Tinosporaside', { rings: 4.5, glycoside: true });
+  graph.addEdge(herb, first, 'contains');
+  graph.addEdge(herb, second, 'contains');
+  return { graph, metrics: await graph.computeMetrics() };
+}
+
+describe('toCytoscape', () => {
+  it('writes nodes with attributes and metrics, and edges with their interaction', async () => {
+    const { graph, metrics } = await network();
+    const document = toCytoscape(graph, metrics, 'Guduchi') as {
+      data: object;
+      elements: { nodes: Array<{ data: Record<string, unknown> }>; edges: Array<{ data: Record<string, unknown> }> };
+    };
+
+    expect(document.data).toEqual({ name: 'Guduchi', nodes: 3, edges: 2 });
+    expect(document.elements.nodes[0]!.data).toMatchObject({
+      id: 'herb:h1',
+      name: 'Guduchi & <Amrita>',
+      type: 'herb',
+      english: 'Heart-leaved moonseed',
+      degree: 2,
+      betweenness: 1,
+    });
+    expect(document.elements.edges[1]!.data).toEqual({
+      id: 'e1', source: 'herb:h1', target: 'compound:c2', interaction: 'contains', weight: 1, inferred: false,
+    });
+  });
+});
+
+describe('toGraphML', () => {
+  it('escapes labels and declares attribute keys, widening mixed numbers to double', async () => {
+    const { graph, metrics } = await network();
+    const xml = toGraphML(graph, metrics, 'Guduchi');
+
+    expect(xml).toContain('<data key="label">Guduchi &amp; &lt;Amrita&gt;</data>');
+    expect(xml).toContain('<key id="attr_rings" for="node" attr.name="rings" attr.type="double"/>');
+    expect(xml).toContain('<key id="attr_glycoside" for="node" attr.name="glycoside" attr.type="boolean"/>');
+    expect(xml).toContain('<edge id="e0" source="herb:h1" target="compound:c1">');
+    expect(xml.match(/<node /g)).toHaveLength(3);
+    expect(xml.endsWith('</graphml>\n')).toBe(true);
+  });
+
+  it('omits metrics for nodes without them', async () => {
+    const { graph } = await network();
+
+    expect(toGraphML(graph, new Map(), 'Guduchi')).not.toContain('<data key="degree">');
+  });
+});
+
+describe('export formats', () => {
+  it('maps formats to content types and file extensions', () => {
+    expect([exportContentType('graphml'), exportFileExtension('graphml')]).toEqual(['application/graphml+xml', 'graphml']);
+    expect([exportContentType('cytoscape'), exportFileExtension('cytoscape')]).toEqual(['application/json', 'cyjs']);
+  });
+});
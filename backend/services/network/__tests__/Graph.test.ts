@@ -0,0 +1,76 @@
+import { PharmacologyGraph, nodeId } from '..';
+
+/** Herb → compound → target chain */
+function path(): PharmacologyGraph {
+  const graph = new PharmacologyGraph();
+  const herb = graph.addNode('herb', 'h1', 'Haridra');
+  const compound = graph.addNode('compound', 'c1', 'Curcumin');
+  const target = graph.addNode('target', 'COX-2', 'COX-2');
+  graph.addEdge(herb, compound, 'contains');
+  graph.addEdge(compound, target, 'targets');
+  return graph;
+}
+
+describe('PharmacologyGraph', () => {
+  it('derives node ids from type and a normalised key', () => {
+    expect(nodeId('target', ' COX-2 ')).toBe('target:cox-2');
+  });
+
+  it('merges repeated nodes and drops empty attributes', () => {
+    const graph = new PharmacologyGraph();
+    graph.addNode('compound', 'c1', 'Curcumin', { molecularFormula: 'C21H20O6' });
+    graph.addNode('compound', 'C1', 'Ignored', { mass: 368.1, note: undefined as never });
+
+    expect(graph.getNodes()).toEqual([{
+      id: 'compound:c1',
+      type: 'compound',
+      label: 'Curcumin',
+      attributes: { molecularFormula: 'C21H20O6', mass: 368.1 },
+    }]);
+  });
+
+  it('adds weight to repeated edges and ignores loops and unknown nodes', () => {
+    const graph = path();
+    graph.addEdge('target:cox-2', 'compound:c1', 'targets', true);
+    graph.addEdge('herb:h1', 'herb:h1', 'contains');
+    graph.addEdge('herb:h1', 'disease:fever', 'associated_with');
+
+    expect(graph.edgeCount).toBe(2);
+    expect(graph.getEdges()[1]).toEqual({ source: 'compound:c1', target: 'target:cox-2', type: 'targets', weight: 2, inferred: false });
+  });
+
+  it('collects neighbourhoods, subgraphs and components', () => {
+    const graph = path();
+    graph.addNode('disease', 'fever', 'Fever');
+
+    expect([...graph.neighborhood(['herb:h1'], 1)]).toEqual(['herb:h1', 'compound:c1']);
+    expect(graph.components().map(component => component.length)).toEqual([3, 1]);
+
+    const subgraph = graph.subgraph(new Set(['compound:c1', 'target:cox-2']));
+    expect(subgraph.nodeCount).toBe(2);
+    expect(subgraph.edgeCount).toBe(1);
+    expect(subgraph.density).toBe(1);
+  });
+
+  it('computes centralities of a path', async () => {
+    const metrics = await path().computeMetrics();
+    const end = metrics.get('herb:h1')!;
+    const middle = metrics.get('compound:c1')!;
+
+    expect(middle).toEqual({ degree: 2, weightedDegree: 2, betweenness: 1, closeness: 1, eigenvector: 1 });
+    expect(end.betweenness).toBe(0);
+    expect(end.closeness).toBeCloseTo(2 / 3);
+    expect(end.eigenvector).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('scales closeness by the share of nodes a node can reach', async () => {
+    const graph = new PharmacologyGraph();
+    graph.addEdge(graph.addNode('herb', 'h1', 'A'), graph.addNode('compound', 'c1', 'B'), 'contains');
+    graph.addNode('disease', 'fever', 'Fever');
+
+    const metrics = await graph.computeMetrics();
+
+    expect(metrics.get('herb:h1')!.closeness).toBe(0.5);
+    expect(metrics.get('disease:fever')!.closeness).toBe(0);
+  });
+});
@@ -0,0 +1,5 @@
+export { NODE_TYPES, PharmacologyGraph, nodeId } from './Graph';
+export type { AttributeValue, EdgeType, NetworkEdge, NetworkNode, NodeMetrics, NodeType } from './Graph';
+
+export { NETWORK_EXPORT_FORMATS, exportContentType, exportFileExtension, toCytoscape, toGraphML } from './Export';
+export type { NetworkExportFormat } from './Export';
@@ -0,0 +1,40 @@
+// Distance-based applicability domain (k nearest training neighbours)
+
+import { nearestNeighbors } from './KNearest';
+
+export interface DomainParameters {
+  k: number;
+  /** Mean k-neighbour distance below which a query counts as inside the domain */
+  threshold: number;
+}
+
+/** Share of training compounds that fall inside their own domain */
+const DOMAIN_COVERAGE = 0.95;
+
+/**
+ * Threshold from the leave-one-out k-neighbour distances of the training set
+ */
+export function fitDomain(training: number[][], distance: (a: number[], b: number[]) => number, k: number): DomainParameters {
+  const neighbors = Math.min(k, training.length - 1);
+  const distances = training
+    .map((row, index) => meanDistance(nearestNeighbors(training, row, neighbors, distance, index)))
+    .sort((a, b) => a - b);
+  const position = Math.min(distances.length - 1, Math.ceil(DOMAIN_COVERAGE * distances.length) - 1);
+  return { k: neighbors, threshold: distances[Math.max(0, position)] ?? 0 };
+}
+
+/**
+ * Mean distance from the query to its k nearest training compounds
+ */
+export function domainDistance(
+  training: number[][],
+  query: number[],
+  distance: (a: number[], b: number[]) => number,
+  domain: DomainParameters
+): number {
+  return meanDistance(nearestNeighbors(training, query, domain.k, distance));
+}
+
+function meanDistance(neighbors: Array<{ distance: number }>): number {
+  return neighbors.length === 0 ? 0 : neighbors.reduce((sum, neighbor) => sum + neighbor.distance, 0) / neighbors.length;
+}
@@ -0,0 +1,108 @@
+// Uniform fit/predict/restore over the QSAR algorithms
+
+import { knnClassify, knnRegress, nearestNeighbors } from './KNearest';
+import { ForestParameters, fitForest, predictForest } from './RandomForest';
+import { RidgeParameters, fitRidge, predictRidge } from './Ridge';
+
+export const QSAR_ALGORITHMS = ['ridge', 'knn', 'random_forest'] as const;
+export type QsarAlgorithm = typeof QSAR_ALGORITHMS[number];
+
+export type QsarTask = 'regression' | 'classification';
+
+/** Tasks each algorithm is implemented for */
+export const ALGORITHM_TASKS: Record<QsarAlgorithm, QsarTask[]> = {
+  ridge: ['regression'],
+  knn: ['regression', 'classification'],
+  random_forest: ['classification'],
+};
+
+export interface Hyperparameters {
+  /** Ridge penalty */
+  lambda: number;
+  /** kNN neighbours */
+  k: number;
+  trees: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+}
+
+export const DEFAULT_HYPERPARAMETERS: Hyperparameters = {
+  lambda: 1,
+  k: 5,
+  trees: 100,
+  maxDepth: 12,
+  minSamplesLeaf: 1,
+};
+
+/** Learned state; kNN keeps none beyond the training set itself */
+export type EstimatorParameters =
+  | { algorithm: 'ridge'; ridge: RidgeParameters }
+  | { algorithm: 'knn' }
+  | { algorithm: 'random_forest'; forest: ForestParameters };
+
+export interface TrainingData {
+  /** Transformed feature vectors */
+  features: number[][];
+  /** Values for regression, class indices for classification */
+  targets: number[];
+  classCount: number;
+  distance: (a: number[], b: number[]) => number;
+}
+
+export interface Estimator {
+  /** Regression value, or class probabilities in class order */
+  predict(features: number[]): number | number[];
+}
+
+export function fitEstimator(
+  algorithm: QsarAlgorithm,
+  task: QsarTask,
+  hyperparameters: Hyperparameters,
+  data: TrainingData,
+  seed: number
+): EstimatorParameters {
+  if (!ALGORITHM_TASKS[algorithm].includes(task)) {
+    throw new Error(`${algorithm} does not support ${task}`);
+  }
+  switch (algorithm) {
+    case 'ridge':
+      return { algorithm, ridge: fitRidge(data.features, data.targets, hyperparameters.lambda) };
+    case 'knn':
+      return { algorithm };
+    case 'random_forest':
+      return {
+        algorithm,
+        forest: fitForest(data.features, data.targets, data.classCount, {
+          trees: hyperparameters.trees,
+          maxDepth: hyperparameters.maxDepth,
+          minSamplesLeaf: hyperparameters.minSamplesLeaf,
+          seed,
+        }),
+      };
+  }
+}
+
+export function createEstimator(
+  parameters: EstimatorParameters,
+  task: QsarTask,
+  hyperparameters: Hyperparameters,
+  data: TrainingData
+): Estimator {
+  switch (parameters.algorithm) {
+    case 'ridge':
+      return { predict: features => predictRidge(parameters.ridge, features) };
+    case 'random_forest':
+      return { predict: features => predictForest(parameters.forest, features) };
+    case 'knn': {
+      const k = Math.min(hyperparameters.k, data.features.length);
+      return {
+        predict: features => {
+          const neighbors = nearestNeighbors(data.features, features, k, data.distance);
+          return task === 'regression'
+            ? knnRegress(neighbors, data.targets)
+            : knnClassify(neighbors, data.targets, data.classCount);
+        },
+      };
+    }
+  }
+}
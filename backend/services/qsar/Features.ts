@@ -0,0 +1,134 @@
+// Feature vectors for QSAR models: scaled descriptors or fingerprint bits
+
+import {
+  DescriptorSet,
+  Fingerprint,
+  MORGAN_BITS,
+  Molecule,
+  STRUCTURAL_KEYS,
+  calculateDescriptors,
+  maccsKeys,
+  morganFingerprint,
+} from '../chemistry';
+
+export const FEATURE_TYPES = ['descriptors', 'morgan', 'maccs'] as const;
+export type FeatureType = typeof FEATURE_TYPES[number];
+
+/** Descriptors used as model inputs, in vector order */
+export const DESCRIPTOR_FEATURES: Array<keyof DescriptorSet> = [
+  'molecularWeight',
+  'logP',
+  'molarRefractivity',
+  'logS',
+  'tpsa',
+  'hbd',
+  'hba',
+  'rotatableBonds',
+  'ringCount',
+  'aromaticRings',
+  'heavyAtoms',
+  'heteroAtoms',
+  'fractionCSP3',
+  'complexity',
+  'formalCharge',
+];
+
+export interface StoredFeatureSpace {
+  type: FeatureType;
+  /** Per-feature mean and standard deviation of the training set; descriptors only */
+  means: number[];
+  scales: number[];
+}
+
+export function featureLength(type: FeatureType): number {
+  return type === 'descriptors' ? DESCRIPTOR_FEATURES.length : type === 'morgan' ? MORGAN_BITS : STRUCTURAL_KEYS.length;
+}
+
+/**
+ * Unscaled features of a molecule; fingerprints become 0/1 vectors
+ */
+export function computeFeatures(molecule: Molecule, type: FeatureType): number[] {
+  if (type === 'descriptors') {
+    const descriptors = calculateDescriptors(molecule);
+    return DESCRIPTOR_FEATURES.map(name => descriptors[name]);
+  }
+  const fingerprint = type === 'morgan' ? morganFingerprint(molecule) : maccsKeys(molecule);
+  return bitsToVector(fingerprint);
+}
+
+/**
+ * Compact text form of a feature vector for storage: hex for fingerprints, the numbers otherwise
+ */
+export function encodeFeatures(features: number[], type: FeatureType): string | number[] {
+  if (type === 'descriptors') return features;
+  const fingerprint = new Fingerprint(features.length);
+  features.forEach((value, bit) => value && fingerprint.set(bit));
+  return fingerprint.toHex();
+}
+
+export function decodeFeatures(encoded: string | number[], type: FeatureType): number[] {
+  if (Array.isArray(encoded)) return encoded;
+  return bitsToVector(Fingerprint.fromHex(encoded, featureLength(type)));
+}
+
+function bitsToVector(fingerprint: Fingerprint): number[] {
+  const vector = new Array<number>(fingerprint.length).fill(0);
+  for (const bit of fingerprint.onBits()) vector[bit] = 1;
+  return vector;
+}
+
+/**
+ * Scaling and distance for one feature type. Descriptors are standardized and compared by
+ * Euclidean distance; fingerprints are left as bits and compared by Tanimoto distance.
+ */
+export class FeatureSpace {
+  public readonly type: FeatureType;
+  private readonly means: number[];
+  private readonly scales: number[];
+
+  constructor(stored: StoredFeatureSpace) {
+    this.type = stored.type;
+    this.means = stored.means;
+    this.scales = stored.scales;
+  }
+
+  public static fit(type: FeatureType, training: number[][]): FeatureSpace {
+    if (type !== 'descriptors' || training.length === 0) {
+      return new FeatureSpace({ type, means: [], scales: [] });
+    }
+    const width = training[0]!.length;
+    const means = Array.from({ length: width }, (_, j) => training.reduce((sum, row) => sum + row[j]!, 0) / training.length);
+    const scales = means.map((mean, j) => {
+      const variance = training.reduce((sum, row) => sum + (row[j]! - mean) ** 2, 0) / training.length;
+      return Math.sqrt(variance) || 1;
+    });
+    return new FeatureSpace({ type, means, scales });
+  }
+
+  public transform(features: number[]): number[] {
+    if (this.means.length === 0) return features;
+    return features.map((value, j) => (value - this.means[j]!) / this.scales[j]!);
+  }
+
+  /**
+   * Distance between two transformed vectors
+   */
+  public distance(a: number[], b: number[]): number {
+    if (this.type === 'descriptors') {
+      let sum = 0;
+      for (let j = 0; j < a.length; j++) sum += (a[j]! - b[j]!) ** 2;
+      return Math.sqrt(sum);
+    }
+    let common = 0;
+    let union = 0;
+    for (let j = 0; j < a.length; j++) {
+      if (a[j] || b[j]) union++;
+      if (a[j] && b[j]) common++;
+    }
+    return union === 0 ? 1 : 1 - common / union;
+  }
+
+  public toJSON(): StoredFeatureSpace {
+    return { type: this.type, means: this.means, scales: this.scales };
+  }
+}
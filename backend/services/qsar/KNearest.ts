@@ -0,0 +1,55 @@
+// k-nearest-neighbour regression and classification
+
+export interface Neighbor {
+  index: number;
+  distance: number;
+}
+
+/**
+ * The k training vectors closest to the query, nearest first; skip excludes one index (leave-one-out)
+ */
+export function nearestNeighbors(
+  training: number[][],
+  query: number[],
+  k: number,
+  distance: (a: number[], b: number[]) => number,
+  skip: number = -1
+): Neighbor[] {
+  const neighbors: Neighbor[] = [];
+  training.forEach((row, index) => {
+    if (index === skip) return;
+    const d = distance(query, row);
+    if (neighbors.length < k || d < neighbors[neighbors.length - 1]!.distance) {
+      neighbors.push({ index, distance: d });
+      neighbors.sort((a, b) => a.distance - b.distance || a.index - b.index);
+      if (neighbors.length > k) neighbors.pop();
+    }
+  });
+  return neighbors;
+}
+
+/**
+ * Inverse-distance weighted mean of the neighbours' values
+ */
+export function knnRegress(neighbors: Neighbor[], targets: number[]): number {
+  let total = 0;
+  let weights = 0;
+  for (const neighbor of neighbors) {
+    const weight = 1 / (neighbor.distance + 1e-6);
+    total += weight * targets[neighbor.index]!;
+    weights += weight;
+  }
+  return weights === 0 ? 0 : total / weights;
+}
+
+/**
+ * Inverse-distance weighted class vote, as probabilities in class order
+ */
+export function knnClassify(neighbors: Neighbor[], labels: number[], classCount: number): number[] {
+  const votes = new Array<number>(classCount).fill(0);
+  for (const neighbor of neighbors) {
+    votes[labels[neighbor.index]!]! += 1 / (neighbor.distance + 1e-6);
+  }
+  const total = votes.reduce((sum, vote) => sum + vote, 0);
+  return votes.map(vote => (total === 0 ? 1 / classCount : vote / total));
+}
@@ -0,0 +1,144 @@
+// Random forest classifier: bootstrap-aggregated CART trees split on Gini impurity
+
+import { createRandom } from './Sampling';
+
+export interface ForestOptions {
+  trees: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+  /** Features tried at each split; defaults to √d */
+  maxFeatures?: number;
+  seed: number;
+}
+
+/**
+ * Tree as parallel arrays indexed by node; leaves have feature -1 and a class distribution
+ */
+export interface StoredTree {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  distribution: number[][];
+}
+
+export interface ForestParameters {
+  classCount: number;
+  trees: StoredTree[];
+}
+
+export function fitForest(features: number[][], labels: number[], classCount: number, options: ForestOptions): ForestParameters {
+  const random = createRandom(options.seed);
+  const width = features[0]?.length ?? 0;
+  const maxFeatures = Math.max(1, Math.min(width, options.maxFeatures ?? Math.round(Math.sqrt(width))));
+
+  const trees: StoredTree[] = [];
+  for (let t = 0; t < options.trees; t++) {
+    const sample = Array.from({ length: features.length }, () => Math.floor(random() * features.length));
+    const tree: StoredTree = { feature: [], threshold: [], left: [], right: [], distribution: [] };
+    growNode(tree, features, labels, sample, 0, { ...options, classCount, maxFeatures, width, random });
+    trees.push(tree);
+  }
+  return { classCount, trees };
+}
+
+/**
+ * Mean of the trees' leaf distributions, in class order
+ */
+export function predictForest(parameters: ForestParameters, features: number[]): number[] {
+  const probabilities = new Array<number>(parameters.classCount).fill(0);
+  for (const tree of parameters.trees) {
+    let node = 0;
+    while (tree.feature[node]! >= 0) {
+      node = features[tree.feature[node]!]! <= tree.threshold[node]! ? tree.left[node]! : tree.right[node]!;
+    }
+    tree.distribution[node]!.forEach((share, label) => (probabilities[label]! += share / parameters.trees.length));
+  }
+  return probabilities;
+}
+
+interface GrowContext extends ForestOptions {
+  classCount: number;
+  maxFeatures: number;
+  width: number;
+  random: () => number;
+}
+
+function growNode(tree: StoredTree, features: number[][], labels: number[], sample: number[], depth: number, context: GrowContext): number {
+  const node = tree.feature.length;
+  const counts = classCounts(labels, sample, context.classCount);
+  tree.feature.push(-1);
+  tree.threshold.push(0);
+  tree.left.push(-1);
+  tree.right.push(-1);
+  tree.distribution.push(counts.map(count => count / sample.length));
+
+  const pure = counts.filter(count => count > 0).length <= 1;
+  if (pure || depth >= context.maxDepth || sample.length < 2 * context.minSamplesLeaf) {
+    return node;
+  }
+
+  const split = bestSplit(features, labels, sample, context);
+  if (!split) return node;
+
+  const leftSample = sample.filter(index => features[index]![split.feature]! <= split.threshold);
+  const rightSample = sample.filter(index => features[index]![split.feature]! > split.threshold);
+  tree.feature[node] = split.feature;
+  tree.threshold[node] = split.threshold;
+  tree.distribution[node] = [];
+  tree.left[node] = growNode(tree, features, labels, leftSample, depth + 1, context);
+  tree.right[node] = growNode(tree, features, labels, rightSample, depth + 1, context);
+  return node;
+}
+
+function classCounts(labels: number[], sample: number[], classCount: number): number[] {
+  const counts = new Array<number>(classCount).fill(0);
+  for (const index of sample) counts[labels[index]!]! += 1;
+  return counts;
+}
+
+function gini(counts: number[], total: number): number {
+  if (total === 0) return 0;
+  return 1 - counts.reduce((sum, count) => sum + (count / total) ** 2, 0);
+}
+
+/**
+ * Lowest weighted Gini impurity over a random subset of features, thresholds midway between sorted values
+ */
+function bestSplit(
+  features: number[][],
+  labels: number[],
+  sample: number[],
+  context: GrowContext
+): { feature: number; threshold: number } | null {
+  const candidates = new Set<number>();
+  while (candidates.size < context.maxFeatures) {
+    candidates.add(Math.floor(context.random() * context.width));
+  }
+
+  let best: { feature: number; threshold: number; impurity: number } | null = null;
+  for (const feature of candidates) {
+    const sorted = [...sample].sort((a, b) => features[a]![feature]! - features[b]![feature]!);
+    const left = new Array<number>(context.classCount).fill(0);
+    const right = classCounts(labels, sorted, context.classCount);
+
+    for (let i = 0; i < sorted.length - 1; i++) {
+      const label = labels[sorted[i]!]!;
+      left[label]! += 1;
+      right[label]! -= 1;
+
+      const value = features[sorted[i]!]![feature]!;
+      const next = features[sorted[i + 1]!]![feature]!;
+      const leftSize = i + 1;
+      const rightSize = sorted.length - leftSize;
+      if (value === next || leftSize < context.minSamplesLeaf || rightSize < context.minSamplesLeaf) continue;
+
+      const impurity = (leftSize * gini(left, leftSize) + rightSize * gini(right, rightSize)) / sorted.length;
+      if (!best || impurity < best.impurity) {
+        best = { feature, threshold: (value + next) / 2, impurity };
+      }
+    }
+  }
+
+  return best && best.impurity < gini(classCounts(labels, sample, context.classCount), sample.length) ? best : null;
+}
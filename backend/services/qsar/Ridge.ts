@@ -0,0 +1,78 @@
+// L2-regularized linear regression
+
+export interface RidgeParameters {
+  intercept: number;
+  /** Feature means the weights are applied around */
+  centers: number[];
+  weights: number[];
+}
+
+/**
+ * Closed-form ridge fit on centred features. With more features than samples (fingerprints)
+ * the n×n dual system is solved instead of the d×d normal equations.
+ */
+export function fitRidge(features: number[][], targets: number[], lambda: number): RidgeParameters {
+  const n = features.length;
+  const d = features[0]?.length ?? 0;
+  const intercept = targets.reduce((sum, value) => sum + value, 0) / n;
+  const centers = Array.from({ length: d }, (_, j) => features.reduce((sum, row) => sum + row[j]!, 0) / n);
+  const x = features.map(row => row.map((value, j) => value - centers[j]!));
+  const y = targets.map(value => value - intercept);
+
+  let weights: number[];
+  if (d > n) {
+    const gram = x.map((a, i) => x.map((b, k) => dot(a, b) + (i === k ? lambda : 0)));
+    const alpha = solveSymmetric(gram, y);
+    weights = Array.from({ length: d }, (_, j) => x.reduce((sum, row, i) => sum + row[j]! * alpha[i]!, 0));
+  } else {
+    const normal = Array.from({ length: d }, (_, j) =>
+      Array.from({ length: d }, (_, k) => x.reduce((sum, row) => sum + row[j]! * row[k]!, 0) + (j === k ? lambda : 0)));
+    const rhs = Array.from({ length: d }, (_, j) => x.reduce((sum, row, i) => sum + row[j]! * y[i]!, 0));
+    weights = solveSymmetric(normal, rhs);
+  }
+
+  return { intercept, centers, weights };
+}
+
+export function predictRidge(parameters: RidgeParameters, features: number[]): number {
+  let value = parameters.intercept;
+  for (let j = 0; j < parameters.weights.length; j++) {
+    value += parameters.weights[j]! * (features[j]! - parameters.centers[j]!);
+  }
+  return value;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < a.length; j++) sum += a[j]! * b[j]!;
+  return sum;
+}
+
+/**
+ * Cholesky solve of a symmetric positive-definite system
+ */
+function solveSymmetric(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const lower: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i]![j]!;
+      for (let k = 0; k < j; k++) sum -= lower[i]![k]! * lower[j]![k]!;
+      lower[i]![j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j]![j]!;
+    }
+  }
+
+  const z = new Array<number>(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = rhs[i]!;
+    for (let k = 0; k < i; k++) sum -= lower[i]![k]! * z[k]!;
+    z[i] = sum / lower[i]![i]!;
+  }
+  const solution = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = z[i]!;
+    for (let k = i + 1; k < n; k++) sum -= lower[k]![i]! * solution[k]!;
+    solution[i] = sum / lower[i]![i]!;
+  }
+  return solution;
+}
@@ -0,0 +1,34 @@
+// Seeded randomness so training runs are reproducible
+
+/**
+ * Mulberry32 generator returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffled<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j]!, copy[i]!];
+  }
+  return copy;
+}
+
+/**
+ * Shuffled indices split into k folds of near-equal size
+ */
+export function kFolds(size: number, k: number, random: () => number): number[][] {
+  const order = shuffled(Array.from({ length: size }, (_, index) => index), random);
+  const folds: number[][] = Array.from({ length: Math.min(k, size) }, () => []);
+  order.forEach((index, position) => folds[position % folds.length]!.push(index));
+  return folds;
+}
@@ -0,0 +1,46 @@
+// Goodness-of-fit metrics for cross-validated predictions
+
+export interface RegressionMetrics {
+  /** Cross-validated R² (Q²) */
+  r2: number;
+  rmse: number;
+  mae: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  /** Mean per-class recall, robust to imbalanced classes */
+  balancedAccuracy: number;
+}
+
+export function regressionMetrics(actual: number[], predicted: number[]): RegressionMetrics {
+  const mean = actual.reduce((sum, value) => sum + value, 0) / actual.length;
+  let residual = 0;
+  let total = 0;
+  let absolute = 0;
+  actual.forEach((value, i) => {
+    const error = value - predicted[i]!;
+    residual += error ** 2;
+    absolute += Math.abs(error);
+    total += (value - mean) ** 2;
+  });
+  return {
+    r2: total === 0 ? 0 : 1 - residual / total,
+    rmse: Math.sqrt(residual / actual.length),
+    mae: absolute / actual.length,
+  };
+}
+
+export function classificationMetrics(actual: number[], predicted: number[], classCount: number): ClassificationMetrics {
+  const correct = new Array<number>(classCount).fill(0);
+  const support = new Array<number>(classCount).fill(0);
+  actual.forEach((label, i) => {
+    support[label]! += 1;
+    if (predicted[i] === label) correct[label]! += 1;
+  });
+  const recalls = support.flatMap((count, label) => (count > 0 ? [correct[label]! / count] : []));
+  return {
+    accuracy: correct.reduce((sum, count) => sum + count, 0) / actual.length,
+    balancedAccuracy: recalls.reduce((sum, recall) => sum + recall, 0) / recalls.length,
+  };
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_HYPERPARAMETERS, FeatureSpace, TrainingData, createEstimator, fitEstimator } from '..';
+
+const euclidean = (a: number[], b: number[]): number => Math.hypot(...a.map((value, j) => value - b[j]!));
+
+/** y = 2x₁ − x₂ + 1 on a small grid */
+const LINEAR: TrainingData = {
+  features: [[0, 0], [1, 0], [0, 1], [1, 1], [2, 1], [1, 2], [2, 2], [3, 1]],
+  targets: [1, 3, 0, 2, 4, 1, 3, 6],
+  classCount: 0,
+  distance: euclidean,
+};
+
+/** Two well-separated classes */
+const CLUSTERS: TrainingData = {
+  features: [[0, 0], [0.2, 0.1], [0.1, 0.3], [0.3, 0.2], [5, 5], [5.2, 4.9], [4.8, 5.1], [5.1, 5.3]],
+  targets: [0, 0, 0, 0, 1, 1, 1, 1],
+  classCount: 2,
+  distance: euclidean,
+};
+
+function fit(algorithm: 'ridge' | 'knn' | 'random_forest', task: 'regression' | 'classification', data: TrainingData, overrides = {}) {
+  const hyperparameters = { ...DEFAULT_HYPERPARAMETERS, trees: 20, ...overrides };
+  return createEstimator(fitEstimator(algorithm, task, hyperparameters, data, 7), task, hyperparameters, data);
+}
+
+describe('QSAR estimators', () => {
+  it('recovers a linear relationship with ridge regression', () => {
+    const ridge = fit('ridge', 'regression', LINEAR, { lambda: 1e-6 });
+
+    expect(ridge.predict([4, 0])).toBeCloseTo(9, 3);
+    expect(ridge.predict([0, 3])).toBeCloseTo(-2, 3);
+  });
+
+  it('shrinks ridge weights as the penalty grows', () => {
+    const loose = fit('ridge', 'regression', LINEAR, { lambda: 1e-6 }).predict([4, 0]) as number;
+    const tight = fit('ridge', 'regression', LINEAR, { lambda: 1000 }).predict([4, 0]) as number;
+    const mean = LINEAR.targets.reduce((sum, value) => sum + value, 0) / LINEAR.targets.length;
+
+    expect(Math.abs(tight - mean)).toBeLessThan(Math.abs(loose - mean));
+  });
+
+  it('solves the dual system when there are more features than compounds', () => {
+    const wide: TrainingData = { ...LINEAR, features: LINEAR.features.map(row => [...row, ...new Array<number>(20).fill(0)]) };
+
+    expect(fit('ridge', 'regression', wide, { lambda: 1e-6 }).predict([4, 0, ...new Array<number>(20).fill(0)])).toBeCloseTo(9, 2);
+  });
+
+  it('averages the nearest neighbours by inverse distance', () => {
+    const knn = fit('knn', 'regression', LINEAR, { k: 1 });
+
+    expect(knn.predict([1, 1])).toBeCloseTo(2);
+  });
+
+  it.each(['knn', 'random_forest'] as const)('separates two classes with %s', algorithm => {
+    const classifier = fit(algorithm, 'classification', CLUSTERS, { k: 3 });
+    const near = classifier.predict([0.1, 0.1]) as number[];
+    const far = classifier.predict([5, 5.1]) as number[];
+
+    expect(near[0]).toBeGreaterThan(0.9);
+    expect(far[1]).toBeGreaterThan(0.9);
+    expect(near.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+  });
+
+  it('grows the same forest from the same seed', () => {
+    const first = fitEstimator('random_forest', 'classification', { ...DEFAULT_HYPERPARAMETERS, trees: 5 }, CLUSTERS, 3);
+    const second = fitEstimator('random_forest', 'classification', { ...DEFAULT_HYPERPARAMETERS, trees: 5 }, CLUSTERS, 3);
+
+    expect(second).toEqual(first);
+  });
+
+  it('rejects a task the algorithm does not implement', () => {
+    expect(() => fitEstimator('ridge', 'classification', DEFAULT_HYPERPARAMETERS, CLUSTERS, 1)).toThrow('ridge does not support classification');
+    expect(() => fitEstimator('random_forest', 'regression', DEFAULT_HYPERPARAMETERS, LINEAR, 1)).toThrow();
+  });
+});
+
+describe('FeatureSpace', () => {
+  it('standardizes descriptors and compares them by Euclidean distance', () => {
+    const space = FeatureSpace.fit('descriptors', [[0, 10], [2, 10], [4, 10]]);
+
+    expect(space.transform([2, 10])).toEqual([0, 0]);
+    expect(space.transform([4, 10])[0]).toBeCloseTo(Math.sqrt(1.5));
+    expect(space.distance([0, 0], [3, 4])).toBe(5);
+  });
+
+  it('leaves fingerprints as bits and compares them by Tanimoto distance', () => {
+    const space = FeatureSpace.fit('maccs', [[1, 0, 1]]);
+
+    expect(space.transform([1, 0, 1])).toEqual([1, 0, 1]);
+    expect(space.distance([1, 1, 0, 0], [1, 0, 1, 0])).toBeCloseTo(2 / 3);
+    expect(space.distance([0, 0], [0, 0])).toBe(1);
+  });
+
+  it('restores from its stored form', () => {
+    const space = FeatureSpace.fit('descriptors', [[1], [3]]);
+
+    expect(new FeatureSpace(space.toJSON()).transform([3])).toEqual(space.transform([3]));
+  });
+});
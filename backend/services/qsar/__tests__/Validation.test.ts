@@ -0,0 +1,70 @@
+import { classificationMetrics, createRandom, domainDistance, fitDomain, kFolds, regressionMetrics, shuffled } from '..';
+
+const euclidean = (a: number[], b: number[]): number => Math.hypot(...a.map((value, j) => value - b[j]!));
+
+describe('regressionMetrics', () => {
+  it('scores perfect and mean-only predictions', () => {
+    expect(regressionMetrics([1, 2, 3], [1, 2, 3])).toEqual({ r2: 1, rmse: 0, mae: 0 });
+    expect(regressionMetrics([1, 2, 3], [2, 2, 2]).r2).toBe(0);
+  });
+
+  it('computes RMSE and MAE from the residuals', () => {
+    const metrics = regressionMetrics([0, 0, 0, 0], [1, -1, 1, -3]);
+
+    expect(metrics.rmse).toBeCloseTo(Math.sqrt(3));
+    expect(metrics.mae).toBe(1.5);
+  });
+});
+
+describe('classificationMetrics', () => {
+  it('balances accuracy across imbalanced classes', () => {
+    const metrics = classificationMetrics([0, 0, 0, 0, 0, 0, 0, 0, 1, 1], new Array<number>(10).fill(0), 2);
+
+    expect(metrics.accuracy).toBe(0.8);
+    expect(metrics.balancedAccuracy).toBe(0.5);
+  });
+
+  it('ignores classes with no examples', () => {
+    expect(classificationMetrics([0, 1], [0, 1], 3).balancedAccuracy).toBe(1);
+  });
+});
+
+describe('sampling', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('shuffles without losing or changing items', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+
+    expect(shuffled(items, createRandom(1)).sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('splits indices into near-equal folds covering every index once', () => {
+    const folds = kFolds(11, 3, createRandom(5));
+
+    expect(folds.map(fold => fold.length)).toEqual([4, 4, 3]);
+    expect(folds.flat().sort((a, b) => a - b)).toEqual(Array.from({ length: 11 }, (_, index) => index));
+    expect(kFolds(2, 5, createRandom(5))).toHaveLength(2);
+  });
+});
+
+describe('applicability domain', () => {
+  const training = [[0], [1], [2], [3], [4], [5], [6], [7], [8], [9]];
+  const domain = fitDomain(training, euclidean, 2);
+
+  it('sets the threshold from leave-one-out neighbour distances', () => {
+    expect(domain).toEqual({ k: 2, threshold: 1.5 });
+  });
+
+  it('places queries inside or outside the domain by their neighbour distance', () => {
+    expect(domainDistance(training, [4.5], euclidean, domain)).toBe(0.5);
+    expect(domainDistance(training, [20], euclidean, domain)).toBe(11.5);
+  });
+});
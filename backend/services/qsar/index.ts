@@ -0,0 +1,30 @@
+export { createRandom, kFolds, shuffled } from './Sampling';
+
+export {
+  DESCRIPTOR_FEATURES,
+  FEATURE_TYPES,
+  FeatureSpace,
+  computeFeatures,
+  decodeFeatures,
+  encodeFeatures,
+  featureLength,
+} from './Features';
+export type { FeatureType, StoredFeatureSpace } from './Features';
+
+export { fitRidge, predictRidge } from './Ridge';
+export type { RidgeParameters } from './Ridge';
+
+export { knnClassify, knnRegress, nearestNeighbors } from './KNearest';
+export type { Neighbor } from './KNearest';
+
+export { fitForest, predictForest } from './RandomForest';
+export type { ForestOptions, ForestParameters, StoredTree } from './RandomForest';
+
+export { classificationMetrics, regressionMetrics } from './Validation';
+export type { ClassificationMetrics, RegressionMetrics } from './Validation';
+
+export { domainDistance, fitDomain } from './Domain';
+export type { DomainParameters } from './Domain';
+
+export { ALGORITHM_TASKS, DEFAULT_HYPERPARAMETERS, QSAR_ALGORITHMS, createEstimator, fitEstimator } from './Estimators';
+export type { Estimator, EstimatorParameters, Hyperparameters, QsarAlgorithm, QsarTask, TrainingData } from './Estimators';
@@ -0,0 +1,17 @@
+/**
+ * Stand-in for a mongoose query in tests: chainable select/sort/limit, resolved by lean (whose result
+ * can also be iterated through a cursor), by distinct, or by awaiting the query itself
+ */
+export function query<T>(value: T, distinct: unknown[] = []) {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    limit: () => chain,
+    lean: () => Object.assign(Promise.resolve(value), {
+      cursor: () => (async function* () { yield* (Array.isArray(value) ? value : [value]); })(),
+    }),
+    distinct: () => Promise.resolve(distinct),
+    then: (resolve: (value: T) => unknown, reject: (error: unknown) => unknown) => Promise.resolve(value).then(resolve, reject),
+  };
+  return chain;
+}
@@ -5,6 +5,7 @@ export const MONGODB_URI = process.env['MONGODB_URI'] || 'mongodb://localhost:27
 export const REDIS_URL = process.env['REDIS_URL'] || 'redis://localhost:6379';
 export const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
 export const JWT_EXPIRES_IN = process.env['JWT_EXPIRES_IN'] || '7d';
+export const ADMIN_API_KEY = process.env['ADMIN_API_KEY'] || '';
 
 // API Configuration
 export const API_VERSION = 'v1';
@@ -36,6 +37,12 @@ export const AGENT_CONFIG = {
   TASK_TIMEOUT_MS: 300000, // 5 minutes
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 30000,
+  RETRY_JITTER: 0.5,
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  CIRCUIT_RESET_MS: 60000, // 1 minute
+  TASK_RETENTION_MS: 30 * 24 * 60 * 60 * 1000, // 30 days
+  MAX_TASK_ATTEMPTS: 3,
 };
 
 // Database collection names
@@ -0,0 +1,35 @@
+import { CsvError, formatCsvRow, parseCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('reads quoted delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\n')).toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('handles CRLF, a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFSMILES,Name\r\n\r\nCCO,Ethanol\r\n')).toEqual([['SMILES', 'Name'], ['CCO', 'Ethanol']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,')).toEqual([['a', '', 'c'], ['', '']]);
+  });
+
+  it('supports other delimiters', () => {
+    expect(parseCsv('a\tb,c', '\t')).toEqual([['a', 'b,c']]);
+  });
+
+  it('reports the line of an unterminated quote', () => {
+    expect(() => parseCsv('a,b\nc,"d\ne')).toThrow(new CsvError('Unterminated quoted field', 2));
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('quotes only the fields that need it', () => {
+    expect(formatCsvRow(['CCO', 'Ethanol, absolute', 'say "hi"', 46.07, true, null, undefined])).toBe('CCO,"Ethanol, absolute","say ""hi""",46.07,true,,');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const fields = ['a,b', 'line\nbreak', '"quoted"', ''];
+
+    expect(parseCsv(formatCsvRow(fields))).toEqual([fields]);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  FormulaError,
+  addFormulas,
+  averageMass,
+  formatFormula,
+  formulasEqual,
+  monoisotopicMass,
+  normalizeFormula,
+  parseFormula,
+  subtractFormulas,
+} from '../formula';
+
+describe('parseFormula', () => {
+  it('counts elements, groups and hydrate water', () => {
+    expect(parseFormula('Ca(OH)2')).toEqual({ counts: { Ca: 1, O: 2, H: 2 }, charge: 0 });
+    expect(parseFormula('CuSO4·5H2O').counts).toEqual({ Cu: 1, S: 1, O: 9, H: 10 });
+  });
+
+  it('reads isotope labels and charges', () => {
+    expect(parseFormula('[13C]H4')).toEqual({ counts: { '13C': 1, H: 4 }, charge: 0 });
+    expect(parseFormula('C20H18NO4+').charge).toBe(1);
+    expect(parseFormula('SO4^2-').charge).toBe(-2);
+  });
+
+  it.each(['', 'C6H12O6)', 'Xx2', 'C(H'])('rejects %p', formula => {
+    expect(() => parseFormula(formula)).toThrow(FormulaError);
+  });
+});
+
+describe('normalizeFormula', () => {
+  it.each([
+    ['carbon first, then hydrogen, then alphabetical', 'O6H12C6', 'C6H12O6'],
+    ['alphabetical without carbon', 'H2SO4', 'H2O4S'],
+    ['merged repeats', 'CH3CH2OH', 'C2H6O'],
+    ['charge after the counts', 'NH4+', 'H4N+'],
+  ])('writes %s', (_name, formula, expected) => {
+    expect(normalizeFormula(formula)).toBe(expected);
+  });
+});
+
+describe('formula arithmetic', () => {
+  it('adds a conjugate and removes a water loss', () => {
+    const glucuronide = subtractFormulas(addFormulas('C21H20O6', 'C6H8O6'), 'H2O');
+
+    expect(formatFormula(glucuronide)).toBe('C27H26O11');
+  });
+
+  it('refuses to remove atoms that are not there', () => {
+    expect(() => subtractFormulas('CH4', 'O')).toThrow(FormulaError);
+  });
+
+  it('compares formulas regardless of notation', () => {
+    expect(formulasEqual('CH3COOH', 'C2H4O2')).toBe(true);
+    expect(formulasEqual('NH4+', 'H4N')).toBe(false);
+    expect(formulasEqual('NH4+', 'H4N', { ignoreCharge: true })).toBe(true);
+  });
+});
+
+describe('masses', () => {
+  it.each([
+    ['water', 'H2O', 18.015, 18.010565],
+    ['aspirin', 'C9H8O4', 180.159, 180.042259],
+    ['caffeine', 'C8H10N4O2', 194.194, 194.080376],
+    ['13C-methane', '[13C]H4', 17.035, 17.034655],
+  ])('computes the masses of %s', (_name, formula, average, monoisotopic) => {
+    expect(averageMass(formula)).toBeCloseTo(average, 2);
+    expect(monoisotopicMass(formula)).toBeCloseTo(monoisotopic, 5);
+  });
+
+  it('subtracts electron masses for cations', () => {
+    expect(monoisotopicMass('C20H18NO4+')).toBeCloseTo(336.123035, 5);
+    expect(monoisotopicMass('C20H18NO4') - monoisotopicMass('C20H18NO4+')).toBeCloseTo(0.000549, 6);
+  });
+});
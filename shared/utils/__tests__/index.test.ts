@@ -0,0 +1,86 @@
+import { retryWithBackoff } from '..';
+
+/**
+ * Function that fails `failures` times before succeeding, recording when each attempt ran
+ */
+function flaky(failures: number) {
+  const attempts: number[] = [];
+  const fn = jest.fn(async () => {
+    attempts.push(Date.now());
+    if (attempts.length <= failures) throw new Error(`Attempt ${attempts.length} failed`);
+    return 'ok';
+  });
+  return { fn, attempts };
+}
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the delay between attempts', async () => {
+    const { fn, attempts } = flaky(3);
+
+    const result = retryWithBackoff(fn, 3, 100);
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(attempts).toEqual([0, 100, 300, 700]);
+  });
+
+  it('throws the last error once the retries are used up', async () => {
+    const { fn } = flaky(5);
+
+    const result = retryWithBackoff(fn, 2, 100);
+    const outcome = expect(result).rejects.toThrow('Attempt 3 failed');
+    await jest.runAllTimersAsync();
+
+    await outcome;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps delays and randomises them by the jitter fraction', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const { fn, attempts } = flaky(3);
+
+    const result = retryWithBackoff(fn, 3, 100, { maxDelay: 150, jitter: 0.5 });
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(attempts).toEqual([0, 50, 125, 200]);
+  });
+
+  it('stops at errors that should not be retried', async () => {
+    const { fn } = flaky(5);
+    const shouldRetry = jest.fn((_error: Error, attempt: number) => attempt < 1);
+
+    const result = retryWithBackoff(fn, 5, 100, { shouldRetry });
+    const outcome = expect(result).rejects.toThrow('Attempt 2 failed');
+    await jest.runAllTimersAsync();
+
+    await outcome;
+    expect(shouldRetry.mock.calls.map(([error, attempt]) => [error.message, attempt])).toEqual([
+      ['Attempt 1 failed', 0],
+      ['Attempt 2 failed', 1],
+    ]);
+  });
+
+  it('gives up as soon as the signal aborts', async () => {
+    const { fn } = flaky(5);
+    const controller = new AbortController();
+
+    const result = retryWithBackoff(fn, 5, 1000, { signal: controller.signal });
+    const outcome = expect(result).rejects.toThrow('Attempt 1 failed');
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await outcome;
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(Date.now()).toBe(10);
+  });
+});
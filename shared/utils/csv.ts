@@ -0,0 +1,83 @@
+/**
+ * RFC 4180 CSV parsing and formatting
+ */
+
+export class CsvError extends Error {
+  /** One-based line where the problem starts */
+  public readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} on line ${line}`);
+    this.name = 'CsvError';
+    this.line = line;
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields; quoted fields may contain delimiters, doubled quotes and line breaks
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+
+    if (quoted) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvError('Unterminated quoted field', quoteLine);
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * One CSV line; fields with delimiters, quotes or line breaks are quoted
+ */
+export function formatCsvRow(fields: Array<string | number | boolean | null | undefined>, delimiter: string = ','): string {
+  return fields.map(value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(delimiter);
+}
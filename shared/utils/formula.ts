@@ -0,0 +1,368 @@
+/**
+ * Molecular formula parsing, normalization, arithmetic and masses
+ */
+
+export interface ElementData {
+  symbol: string;
+  atomicNumber: number;
+  /** Standard atomic weight; mass number of the longest-lived isotope for elements without one */
+  averageMass: number;
+  /** Exact mass of the most abundant (or longest-lived) isotope */
+  monoisotopicMass: number;
+}
+
+/** Element and isotope counts plus net charge; isotopes are keyed by label, e.g. "13C" */
+export interface ParsedFormula {
+  counts: Record<string, number>;
+  charge: number;
+}
+
+export type FormulaInput = string | ParsedFormula;
+
+export class FormulaError extends Error {
+  /** Offset into the formula text, for parse errors */
+  public readonly position: number | undefined;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+const ELECTRON_MASS = 0.000548579909;
+
+// symbol, standard atomic weight, monoisotopic mass (atomic-number order)
+const ELEMENT_TABLE: Array<[string, number, number]> = [
+  ['H', 1.008, 1.00782503223], ['He', 4.002602, 4.00260325413], ['Li', 6.94, 7.0160034366],
+  ['Be', 9.0121831, 9.012183065], ['B', 10.81, 11.00930536], ['C', 12.011, 12],
+  ['N', 14.007, 14.00307400443], ['O', 15.999, 15.99491461957], ['F', 18.998403163, 18.99840316273],
+  ['Ne', 20.1797, 19.9924401762], ['Na', 22.98976928, 22.989769282], ['Mg', 24.305, 23.985041697],
+  ['Al', 26.9815385, 26.98153853], ['Si', 28.085, 27.97692653465], ['P', 30.973761998, 30.97376199842],
+  ['S', 32.06, 31.9720711744], ['Cl', 35.45, 34.968852682], ['Ar', 39.948, 39.9623831237],
+  ['K', 39.0983, 38.9637064864], ['Ca', 40.078, 39.962590863], ['Sc', 44.955908, 44.95590828],
+  ['Ti', 47.867, 47.94794198], ['V', 50.9415, 50.94395704], ['Cr', 51.9961, 51.94050623],
+  ['Mn', 54.938044, 54.93804391], ['Fe', 55.845, 55.93493633], ['Co', 58.933194, 58.93319429],
+  ['Ni', 58.6934, 57.93534241], ['Cu', 63.546, 62.92959772], ['Zn', 65.38, 63.92914201],
+  ['Ga', 69.723, 68.9255735], ['Ge', 72.63, 73.921177761], ['As', 74.921595, 74.92159457],
+  ['Se', 78.971, 79.9165218], ['Br', 79.904, 78.9183376], ['Kr', 83.798, 83.9114977282],
+  ['Rb', 85.4678, 84.9117897379], ['Sr', 87.62, 87.9056125], ['Y', 88.90584, 88.9058403],
+  ['Zr', 91.224, 89.9046977], ['Nb', 92.90637, 92.906373], ['Mo', 95.95, 97.90540482],
+  ['Tc', 98, 97.9072124], ['Ru', 101.07, 101.9043441], ['Rh', 102.9055, 102.905498],
+  ['Pd', 106.42, 105.9034804], ['Ag', 107.8682, 106.9050916], ['Cd', 112.414, 113.90336509],
+  ['In', 114.818, 114.903878776], ['Sn', 118.71, 119.90220163], ['Sb', 121.76, 120.903812],
+  ['Te', 127.6, 129.906222748], ['I', 126.90447, 126.9044719], ['Xe', 131.293, 131.9041550856],
+  ['Cs', 132.90545196, 132.905451961], ['Ba', 137.327, 137.905247], ['La', 138.90547, 138.9063563],
+  ['Ce', 140.116, 139.9054431], ['Pr', 140.90766, 140.9076576], ['Nd', 144.242, 141.907729],
+  ['Pm', 145, 144.9127559], ['Sm', 150.36, 151.9197397], ['Eu', 151.964, 152.921238],
+  ['Gd', 157.25, 157.9241123], ['Tb', 158.92535, 158.9253547], ['Dy', 162.5, 163.9291819],
+  ['Ho', 164.93033, 164.9303288], ['Er', 167.259, 165.9302995], ['Tm', 168.93422, 168.9342179],
+  ['Yb', 173.045, 173.9388664], ['Lu', 174.9668, 174.9407752], ['Hf', 178.49, 179.946557],
+  ['Ta', 180.94788, 180.9479958], ['W', 183.84, 183.95093092], ['Re', 186.207, 186.9557501],
+  ['Os', 190.23, 191.961477], ['Ir', 192.217, 192.9629216], ['Pt', 195.084, 194.9647917],
+  ['Au', 196.966569, 196.96656879], ['Hg', 200.592, 201.9706434], ['Tl', 204.38, 204.9744278],
+  ['Pb', 207.2, 207.9766525], ['Bi', 208.9804, 208.9803991], ['Po', 209, 208.9824308],
+  ['At', 210, 209.9871479], ['Rn', 222, 222.0175782], ['Fr', 223, 223.019736],
+  ['Ra', 226, 226.0254103], ['Ac', 227, 227.0277523], ['Th', 232.0377, 232.0380558],
+  ['Pa', 231.03588, 231.0358842], ['U', 238.02891, 238.0507884], ['Np', 237, 237.0481736],
+  ['Pu', 244, 244.0642053], ['Am', 243, 243.0613813], ['Cm', 247, 247.0703541],
+  ['Bk', 247, 247.0703073], ['Cf', 251, 251.0795886], ['Es', 252, 252.08298],
+  ['Fm', 257, 257.0951061], ['Md', 258, 258.0984315], ['No', 259, 259.10103],
+  ['Lr', 266, 266.11983], ['Rf', 267, 267.12179], ['Db', 268, 268.12567],
+  ['Sg', 269, 269.12863], ['Bh', 270, 270.13336], ['Hs', 269, 269.13375],
+  ['Mt', 278, 278.15631], ['Ds', 281, 281.16451], ['Rg', 282, 282.16912],
+  ['Cn', 285, 285.17712], ['Nh', 286, 286.18221], ['Fl', 289, 289.19042],
+  ['Mc', 290, 290.19598], ['Lv', 293, 293.20449], ['Ts', 294, 294.21046],
+  ['Og', 294, 294.21392],
+];
+
+export const PERIODIC_TABLE: Record<string, ElementData> = Object.fromEntries(
+  ELEMENT_TABLE.map(([symbol, averageMass, monoisotopicMass], index) => [
+    symbol,
+    { symbol, atomicNumber: index + 1, averageMass, monoisotopicMass },
+  ])
+);
+
+/** Exact masses of isotopes commonly used as labels or tracers, keyed by "<mass number><symbol>" */
+export const ISOTOPE_MASSES: Record<string, number> = {
+  '1H': 1.00782503223, '2H': 2.01410177812, '3H': 3.0160492779,
+  '6Li': 6.0151228874, '7Li': 7.0160034366, '10B': 10.0129369, '11B': 11.00930536,
+  '11C': 11.0114336, '12C': 12, '13C': 13.00335483507, '14C': 14.0032419884,
+  '14N': 14.00307400443, '15N': 15.00010889888,
+  '16O': 15.99491461957, '17O': 16.9991317565, '18O': 17.99915961286,
+  '18F': 18.0009373, '19F': 18.99840316273, '31P': 30.97376199842, '32P': 31.9739076,
+  '32S': 31.9720711744, '33S': 32.9714589098, '34S': 33.967867004, '35S': 34.9690322, '36S': 35.96708071,
+  '35Cl': 34.968852682, '37Cl': 36.965902602, '79Br': 78.9183376, '81Br': 80.9162897,
+  '125I': 124.9046294, '127I': 126.9044719, '131I': 130.9061263,
+};
+
+const ISOTOPE_ALIASES: Record<string, string> = { D: '2H', T: '3H' };
+const HYDRATE_SEPARATORS = ['.', '·', '•', '*'];
+
+/**
+ * Parses formulas such as "C21H20O6", "Ca(OH)2", "CuSO4·5H2O", "[13C]H4", "D2O", "C20H18NO4+" and "SO4^2-"
+ */
+export function parseFormula(formula: string): ParsedFormula {
+  const text = formula.trim();
+  if (text.length === 0) {
+    throw new FormulaError('Empty formula', 0);
+  }
+  return new FormulaReader(text).read();
+}
+
+/**
+ * Hill order: C then H then the rest alphabetically when carbon is present, otherwise all
+ * alphabetically; isotope labels follow their element and a non-zero charge is appended
+ */
+export function formatFormula(formula: ParsedFormula): string {
+  const entries = Object.entries(formula.counts).filter(([, count]) => count !== 0);
+  const hasCarbon = entries.some(([label]) => elementOf(label) === 'C');
+
+  const rank = (label: string): string => {
+    const element = elementOf(label);
+    const prefix = hasCarbon && element === 'C' ? '0' : hasCarbon && element === 'H' ? '1' : '2';
+    return `${prefix}${element}`;
+  };
+
+  entries.sort(([a], [b]) => {
+    const byElement = rank(a).localeCompare(rank(b));
+    if (byElement !== 0) return byElement;
+    return massNumberOf(a) - massNumberOf(b);
+  });
+
+  const body = entries
+    .map(([label, count]) => `${isIsotope(label) ? `[${label}]` : label}${count === 1 ? '' : count}`)
+    .join('');
+
+  if (formula.charge === 0) return body;
+  const magnitude = Math.abs(formula.charge);
+  return `${body}${magnitude === 1 ? '' : magnitude}${formula.charge > 0 ? '+' : '-'}`;
+}
+
+/**
+ * Rewrites any accepted formula notation in Hill order
+ */
+export function normalizeFormula(formula: string): string {
+  return formatFormula(parseFormula(formula));
+}
+
+/**
+ * Hill formula from element (or isotope label) counts
+ */
+export function formulaFromCounts(counts: Record<string, number>, charge: number = 0): string {
+  return formatFormula({ counts, charge });
+}
+
+/**
+ * Adds a formula, e.g. an adduct or a conjugate ("C21H20O6" + "C6H8O6" for a glucuronide)
+ */
+export function addFormulas(base: FormulaInput, addition: FormulaInput, times: number = 1): ParsedFormula {
+  const a = toParsed(base);
+  const b = toParsed(addition);
+  const counts = { ...a.counts };
+  for (const [label, count] of Object.entries(b.counts)) {
+    counts[label] = (counts[label] || 0) + count * times;
+  }
+  return { counts: dropZeros(counts), charge: a.charge + b.charge * times };
+}
+
+/**
+ * Removes a formula, e.g. a loss of H2O; throws if any count would become negative
+ */
+export function subtractFormulas(base: FormulaInput, removal: FormulaInput, times: number = 1): ParsedFormula {
+  const result = addFormulas(base, removal, -times);
+  const negative = Object.entries(result.counts).filter(([, count]) => count < 0);
+  if (negative.length > 0) {
+    throw new FormulaError(
+      `Cannot subtract ${formatFormula(toParsed(removal))}: not enough ${negative.map(([label]) => label).join(', ')}`
+    );
+  }
+  return result;
+}
+
+export function formulasEqual(a: FormulaInput, b: FormulaInput, options: { ignoreCharge?: boolean } = {}): boolean {
+  const left = toParsed(a);
+  const right = toParsed(b);
+  if (!options.ignoreCharge && left.charge !== right.charge) return false;
+  return formatFormula({ ...left, charge: 0 }) === formatFormula({ ...right, charge: 0 });
+}
+
+/**
+ * Average (molar) mass in g/mol
+ */
+export function averageMass(formula: FormulaInput): number {
+  return massOf(toParsed(formula), element => element.averageMass);
+}
+
+/**
+ * Monoisotopic mass in Da, corrected for the electrons of a charged species
+ */
+export function monoisotopicMass(formula: FormulaInput): number {
+  return massOf(toParsed(formula), element => element.monoisotopicMass);
+}
+
+function massOf(formula: ParsedFormula, pick: (element: ElementData) => number): number {
+  let mass = 0;
+  for (const [label, count] of Object.entries(formula.counts)) {
+    mass += count * (isIsotope(label) ? isotopeMass(label) : pick(PERIODIC_TABLE[label]!));
+  }
+  return mass - formula.charge * ELECTRON_MASS;
+}
+
+function toParsed(formula: FormulaInput): ParsedFormula {
+  return typeof formula === 'string' ? parseFormula(formula) : formula;
+}
+
+function dropZeros(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counts).filter(([, count]) => count !== 0));
+}
+
+function isIsotope(label: string): boolean {
+  return /^\d/.test(label);
+}
+
+function elementOf(label: string): string {
+  return label.replace(/^\d+/, '');
+}
+
+function massNumberOf(label: string): number {
+  return isIsotope(label) ? parseInt(label, 10) : 0;
+}
+
+function isotopeMass(label: string): number {
+  return ISOTOPE_MASSES[label] ?? parseInt(label, 10);
+}
+
+class FormulaReader {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  public read(): ParsedFormula {
+    let result: ParsedFormula = { counts: {}, charge: 0 };
+
+    for (;;) {
+      const coefficient = this.readCount() ?? 1;
+      const segment = this.readSegment();
+      result = addFormulas(result, segment, coefficient);
+
+      const next = this.text[this.position];
+      if (next !== undefined && HYDRATE_SEPARATORS.includes(next)) {
+        this.position++;
+        continue;
+      }
+      break;
+    }
+
+    if (this.position < this.text.length) {
+      throw new FormulaError(`Unexpected '${this.text[this.position]}'`, this.position);
+    }
+    return result;
+  }
+
+  private readSegment(): ParsedFormula {
+    const start = this.position;
+    const counts = this.readGroup(null);
+    if (Object.keys(counts).length === 0) {
+      throw new FormulaError('Expected an element', start);
+    }
+    return { counts, charge: this.readCharge() };
+  }
+
+  private readGroup(closing: string | null): Record<string, number> {
+    const counts: Record<string, number> = {};
+    const merge = (inner: Record<string, number>, times: number): void => {
+      for (const [label, count] of Object.entries(inner)) {
+        counts[label] = (counts[label] || 0) + count * times;
+      }
+    };
+
+    while (this.position < this.text.length) {
+      const char = this.text[this.position]!;
+
+      if (char === closing) {
+        return counts;
+      }
+
+      if (char === '(' || (char === '[' && !/\d/.test(this.text[this.position + 1] ?? ''))) {
+        const open = this.position;
+        const close = char === '(' ? ')' : ']';
+        this.position++;
+        const inner = this.readGroup(close);
+        if (this.text[this.position] !== close) {
+          throw new FormulaError(`Unclosed '${char}'`, open);
+        }
+        this.position++;
+        merge(inner, this.readCount() ?? 1);
+        continue;
+      }
+
+      if (char === '[' || /[A-Z]/.test(char)) {
+        const label = this.readElement();
+        counts[label] = (counts[label] || 0) + (this.readCount() ?? 1);
+        continue;
+      }
+
+      break;
+    }
+
+    if (closing) {
+      throw new FormulaError(`Expected '${closing}'`, this.position);
+    }
+    return counts;
+  }
+
+  private readElement(): string {
+    const start = this.position;
+
+    if (this.text[this.position] === '[') {
+      const match = /^\[(\d+)([A-Z][a-z]?)\]/.exec(this.text.slice(this.position));
+      if (!match || !PERIODIC_TABLE[match[2]!]) {
+        throw new FormulaError('Invalid isotope label', start);
+      }
+      this.position += match[0].length;
+      return `${parseInt(match[1]!, 10)}${match[2]}`;
+    }
+
+    const twoLetter = this.text.slice(this.position, this.position + 2);
+    if (twoLetter.length === 2 && /[a-z]/.test(twoLetter[1]!) && PERIODIC_TABLE[twoLetter]) {
+      this.position += 2;
+      return twoLetter;
+    }
+
+    const symbol = this.text[this.position]!;
+    if (ISOTOPE_ALIASES[symbol]) {
+      this.position++;
+      return ISOTOPE_ALIASES[symbol]!;
+    }
+    if (!PERIODIC_TABLE[symbol]) {
+      throw new FormulaError(`Unknown element '${/[a-z]/.test(twoLetter[1] ?? '') ? twoLetter : symbol}'`, start);
+    }
+    this.position++;
+    return symbol;
+  }
+
+  private readCount(): number | null {
+    const match = /^\d+/.exec(this.text.slice(this.position));
+    if (!match) return null;
+    this.position += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  /**
+   * Trailing charge: "+", "-", "2+", "+2", "++", "^2-" or " 2-"; digits straight after an element
+   * are its count, so "Fe2+" is Fe2 with charge 1 and the iron(II) ion is written "Fe^2+"
+   */
+  private readCharge(): number {
+    const match = /^(?:\^| )?(?:(\d*)([+-])|([+-])(\d+)|(\++|-+))/.exec(this.text.slice(this.position));
+    if (!match) return 0;
+
+    this.position += match[0].length;
+    if (match[5]) {
+      return match[5].length * (match[5][0] === '+' ? 1 : -1);
+    }
+    const sign = (match[2] ?? match[3]) === '+' ? 1 : -1;
+    const magnitude = parseInt(match[1] || match[4] || '1', 10);
+    return sign * magnitude;
+  }
+}
@@ -1,4 +1,8 @@
 import { ApiResponse } from '../types';
+import { averageMass, monoisotopicMass } from './formula';
+
+export * from './formula';
+export * from './csv';
 
 /**
  * Creates a standardized API response
@@ -87,14 +91,27 @@ export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+export interface RetryOptions {
+  /** Upper bound for a single delay */
+  maxDelay?: number;
+  /** Fraction of each delay that is randomised, 0–1; spreads out retries of callers that failed together */
+  jitter?: number;
+  /** Whether a failed attempt (0-based) should be retried; all errors are retried by default */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Stops waiting and gives up once aborted */
+  signal?: AbortSignal;
+}
+
 /**
  * Retries a function with exponential backoff
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  initialDelay: number = 1000
+  initialDelay: number = 1000,
+  options: RetryOptions = {}
 ): Promise<T> {
+  const { maxDelay = Infinity, jitter = 0, shouldRetry, signal } = options;
   let lastError: Error;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -103,18 +120,44 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
       
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || signal?.aborted || (shouldRetry && !shouldRetry(lastError, attempt))) {
         break;
       }
 
-      const delayMs = initialDelay * Math.pow(2, attempt);
-      await delay(delayMs);
+      const baseDelay = Math.min(initialDelay * Math.pow(2, attempt), maxDelay);
+      const delayMs = baseDelay * (1 - jitter * Math.random());
+      await abortableDelay(delayMs, signal);
+
+      if (signal?.aborted) {
+        break;
+      }
     }
   }
 
   throw lastError!;
 }
 
+/**
+ * Like delay, but resolves early once the signal aborts
+ */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return delay(ms);
+  }
+
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Safely parses JSON with error handling
  */
@@ -200,27 +243,14 @@ export function snakeToCamel(str: string): string {
  * Calculates molecular weight from molecular formula
  */
 export function calculateMolecularWeight(formula: string): number {
-  // Simplified calculation - in real implementation, use a proper chemistry library
-  const atomicWeights: Record<string, number> = {
-    H: 1.008, C: 12.011, N: 14.007, O: 15.999, P: 30.974, S: 32.065,
-    F: 18.998, Cl: 35.453, Br: 79.904, I: 126.904,
-  };
-
-  let weight = 0;
-  const regex = /([A-Z][a-z]?)(\d*)/g;
-  let match;
-
-  while ((match = regex.exec(formula)) !== null) {
-    const element = match[1];
-    const count = parseInt(match[2] || '1', 10);
-    const atomicWeight = element ? atomicWeights[element] : undefined;
-    
-    if (atomicWeight) {
-      weight += atomicWeight * count;
-    }
-  }
+  return Math.round(averageMass(formula) * 1000) / 1000; // Round to 3 decimal places
+}
 
-  return Math.round(weight * 1000) / 1000; // Round to 3 decimal places
+/**
+ * Calculates monoisotopic (exact) mass from molecular formula
+ */
+export function calculateExactMass(formula: string): number {
+  return Math.round(monoisotopicMass(formula) * 10000) / 10000; // Round to 4 decimal places
 }
 
 /**